@@ -16,6 +16,15 @@ import {
   getAuthGuidance,
   normalizeAcpAuthMethods,
 } from "../lib/acp-auth";
+import {
+  createAcpTerminal,
+  getAcpTerminalOutput,
+  killAcpTerminal,
+  releaseAcpTerminal,
+  releaseAcpTerminalsForSession,
+  waitForAcpTerminalExit,
+} from "../lib/acp-terminals";
+import type { AcpCreateTerminalParams } from "../lib/acp-terminals";
 
 // ACP SDK is ESM-only, must be async-imported
 import type {
@@ -356,6 +365,7 @@ async function createAcpConnection(
       resolver.resolve({ outcome: { outcome: "cancelled" } });
     }
     entry.pendingPermissions.clear();
+    releaseAcpTerminalsForSession(internalId);
     safeSend(getMainWindow, "acp:exit", { _sessionId: internalId, code });
     acpSessions.delete(internalId);
     configBuffer.delete(internalId);
@@ -468,6 +478,30 @@ async function createAcpConnection(
       log("ACP_FS", `writeTextFile path=${filePath} len=${params.content.length}`);
       return {};
     },
+
+    // Terminals run on node-pty; output is also streamed to the renderer so the
+    // tool card embedding the terminal can render it live.
+    async createTerminal(params: AcpCreateTerminalParams & { sessionId: string }) {
+      const terminalId = createAcpTerminal(internalId, params, {
+        onData: (id, data) => safeSend(getMainWindow, "acp:terminal_output", { _sessionId: internalId, terminalId: id, data }),
+      });
+      return { terminalId };
+    },
+    async terminalOutput(params: { terminalId: string }) {
+      const { output, truncated, exitStatus } = getAcpTerminalOutput(internalId, params.terminalId);
+      return { output, truncated, ...(exitStatus ? { exitStatus } : {}) };
+    },
+    async waitForTerminalExit(params: { terminalId: string }) {
+      return waitForAcpTerminalExit(internalId, params.terminalId);
+    },
+    async killTerminal(params: { terminalId: string }) {
+      killAcpTerminal(internalId, params.terminalId);
+      return {};
+    },
+    async releaseTerminal(params: { terminalId: string }) {
+      releaseAcpTerminal(internalId, params.terminalId);
+      return {};
+    },
   }), stream);
 
   // Protocol initialization
@@ -783,6 +817,7 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
       resolver.resolve({ outcome: { outcome: "cancelled" } });
     }
     session.pendingPermissions.clear();
+    releaseAcpTerminalsForSession(sessionId);
     session.process.kill();
     acpSessions.delete(sessionId);
     configBuffer.delete(sessionId);
@@ -956,6 +991,7 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
 export function stopAll(): void {
   for (const [sessionId, entry] of acpSessions) {
     log("CLEANUP", `Stopping ACP session ${sessionId.slice(0, 8)}`);
+    releaseAcpTerminalsForSession(sessionId);
     try { entry.process.kill(); } catch { /* already dead */ }
   }
   acpSessions.clear();
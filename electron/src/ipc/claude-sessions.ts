@@ -355,6 +355,8 @@ interface StartOptions {
   /** Resume at a specific message UUID — used with forkSession to truncate history */
   resumeSessionAt?: string;
   mcpServers?: McpServerInput[];
+  /** Spend cap for this process — the SDK ends the turn with `error_max_budget_usd` past it */
+  maxBudgetUsd?: number;
 }
 
 function buildThinkingConfig(): { type: "adaptive" } {
@@ -494,6 +496,8 @@ async function restartSession(
   cwdOverride?: string,
   effortOverride?: StartOptions["effort"],
   modelOverride?: string,
+  /** New spend cap; null removes it. The restarted process counts spend from zero. */
+  maxBudgetUsdOverride?: number | null,
 ): Promise<{ ok?: boolean; error?: string; restarted?: boolean }> {
   const session = sessions.get(sessionId);
   if (!session?.queryHandle || !session.startOptions) {
@@ -533,6 +537,7 @@ async function restartSession(
       mcpServers,
       ...(effortOverride ? { effort: effortOverride } : {}),
       ...(modelOverride ? { model: modelOverride } : {}),
+      ...(maxBudgetUsdOverride !== undefined ? { maxBudgetUsd: maxBudgetUsdOverride ?? undefined } : {}),
     },
   };
 
@@ -575,6 +580,10 @@ async function restartSession(
   if (effortOverride ?? opts.effort) {
     queryOptions.effort = effortOverride ?? opts.effort;
   }
+  const maxBudgetUsd = newSession.startOptions?.maxBudgetUsd;
+  if (maxBudgetUsd) {
+    queryOptions.maxBudgetUsd = maxBudgetUsd;
+  }
 
   if (mcpServers?.length) {
     queryOptions.mcpServers = await buildSdkMcpConfig(mcpServers, mcpConfigOptions);
@@ -690,6 +699,9 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
       if (options.effort) {
         queryOptions.effort = options.effort;
       }
+      if (options.maxBudgetUsd) {
+        queryOptions.maxBudgetUsd = options.maxBudgetUsd;
+      }
 
       if (options.mcpServers?.length) {
         queryOptions.mcpServers = await buildSdkMcpConfig(options.mcpServers, mcpConfigOptions);
@@ -1063,14 +1075,16 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     cwd,
     effort,
     model,
+    maxBudgetUsd,
   }: {
     sessionId: string;
     mcpServers?: McpServerInput[];
     cwd?: string;
     effort?: StartOptions["effort"];
     model?: string;
+    maxBudgetUsd?: number | null;
   }) => {
-    return restartSession(sessionId, getMainWindow, mcpServers, cwd, effort, model);
+    return restartSession(sessionId, getMainWindow, mcpServers, cwd, effort, model, maxBudgetUsd);
   });
 }
 
@@ -22,9 +22,22 @@ import type {
   CodexModel,
   CodexModelListResponse,
   CodexAccountResponse,
+  CodexRateLimitsResponse,
   CodexThreadStartResponse,
   CodexThreadResumeResponse,
+  CodexThreadForkParams,
+  CodexThreadForkResponse,
+  CodexThreadRollbackParams,
+  CodexThreadListParams,
+  CodexThreadListResponse,
+  CodexThreadReadParams,
+  CodexThreadReadResponse,
   CodexTurnStartResponse,
+  CodexTurnSteerParams,
+  CodexTurnSteerResponse,
+  CodexReviewStartParams,
+  CodexReviewStartResponse,
+  CodexReviewTarget,
   CodexInitializeResponse,
   CodexItemStartedNotification,
   CodexItemCompletedNotification,
@@ -73,6 +86,92 @@ function shortId(value: unknown, length = 8): string {
   return typeof value === "string" ? value.slice(0, length) : "n/a";
 }
 
+/**
+ * Lazily start the session's thread on first use (send/review) so drafts that
+ * never send anything don't leave empty threads behind.
+ */
+async function ensureThread(session: CodexSession, sessionId: string): Promise<string> {
+  if (session.threadId) return session.threadId;
+  const threadParams: Record<string, unknown> = {
+    cwd: session.cwd,
+    experimentalRawEvents: false,
+    persistExtendedHistory: false,
+  };
+  if (session.model) threadParams.model = session.model;
+  if (session.approvalPolicy) threadParams.approvalPolicy = session.approvalPolicy;
+  if (session.sandbox) threadParams.sandbox = session.sandbox;
+  const threadResult = await session.rpc.request<CodexThreadStartResponse>("thread/start", threadParams);
+  session.threadId = threadResult.thread.id;
+  log(
+    "codex",
+    ` Thread lazily started: session=${shortId(sessionId, 12)} thread=${shortId(session.threadId, 12)}`,
+  );
+  return session.threadId;
+}
+
+/** Any live session's RPC — account/thread-store requests aren't tied to one thread. */
+function getAnyLiveRpc(): CodexRpcClient | null {
+  for (const session of codexSessions.values()) {
+    if (session.rpc.isAlive) return session.rpc;
+  }
+  return null;
+}
+
+/** RPC of the live session that owns `threadId`, if one is running. */
+function getLiveRpcForThread(threadId: string): CodexRpcClient | null {
+  for (const session of codexSessions.values()) {
+    if (session.threadId === threadId && session.rpc.isAlive) return session.rpc;
+  }
+  return null;
+}
+
+/**
+ * Run `fn` against `liveRpc` (by default any live session's app-server), or a
+ * short-lived one spawned in `cwd` when there is none. The ephemeral process
+ * is always torn down.
+ */
+async function withAppServerRpc<T>(
+  cwd: string,
+  fn: (rpc: CodexRpcClient) => Promise<T>,
+  liveRpc: CodexRpcClient | null = getAnyLiveRpc(),
+): Promise<T> {
+  if (liveRpc) return fn(liveRpc);
+
+  const codexPath = await getCodexBinaryPath();
+  const proc = spawn(codexPath, ["app-server"], {
+    stdio: ["pipe", "pipe", "pipe"],
+    cwd,
+    env: {
+      ...process.env,
+      RUST_LOG: process.env.RUST_LOG ?? "warn",
+    },
+  });
+  if (!proc.pid) throw new Error("Failed to spawn codex app-server process");
+
+  const rpc = new CodexRpcClient(proc);
+  try {
+    await rpc.request<CodexInitializeResponse>("initialize", {
+      clientInfo: getAppServerClientInfo(),
+      capabilities: { experimentalApi: true },
+    });
+    rpc.notify("initialized", {});
+    return await fn(rpc);
+  } finally {
+    rpc.destroy();
+  }
+}
+
+/** Whether Codex's own store on this machine has the thread — false when Codex can't be reached either. */
+export async function codexThreadExists(cwd: string, threadId: string): Promise<boolean> {
+  try {
+    const params: CodexThreadReadParams = { threadId, includeTurns: false };
+    await withAppServerRpc(cwd, (rpc) => rpc.request<CodexThreadReadResponse>("thread/read", params));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 function shouldLogFullToolEvent(
   method: string,
   params: CodexItemStartedNotification | CodexItemCompletedNotification,
@@ -372,26 +471,11 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
         log("codex", ` Send rejected: session not found id=${shortId(data.sessionId, 12)}`);
         return { error: "Session not found" };
       }
-      if (!session.threadId) {
-        try {
-          const threadParams: Record<string, unknown> = {
-            cwd: session.cwd,
-            experimentalRawEvents: false,
-            persistExtendedHistory: false,
-          };
-          if (session.model) threadParams.model = session.model;
-          if (session.approvalPolicy) threadParams.approvalPolicy = session.approvalPolicy;
-          if (session.sandbox) threadParams.sandbox = session.sandbox;
-          const threadResult = await session.rpc.request<CodexThreadStartResponse>("thread/start", threadParams);
-          session.threadId = threadResult.thread.id;
-          log(
-            "codex",
-            ` Thread lazily started: session=${shortId(data.sessionId, 12)} thread=${shortId(session.threadId, 12)}`,
-          );
-        } catch (err) {
-          const msg = reportError("CODEX_THREAD_START_ERR", err, { engine: "codex", sessionId: data.sessionId });
-          return { error: msg };
-        }
+      try {
+        await ensureThread(session, data.sessionId);
+      } catch (err) {
+        const msg = reportError("CODEX_THREAD_START_ERR", err, { engine: "codex", sessionId: data.sessionId });
+        return { error: msg };
       }
 
       log(
@@ -431,6 +515,70 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     },
   );
 
+  // ─── codex:steer (turn/steer — append input to the in-flight turn) ───
+  ipcMain.handle(
+    "codex:steer",
+    async (
+      _,
+      data: {
+        sessionId: string;
+        text: string;
+        images?: Array<{ type: "image"; url: string } | { type: "localImage"; path: string }>;
+      },
+    ) => {
+      const session = codexSessions.get(data.sessionId);
+      if (!session) return { error: "Session not found" };
+      if (!session.threadId || !session.activeTurnId) return { error: "No active turn" };
+
+      try {
+        // expectedTurnId makes the server reject the steer if the turn already
+        // ended — the renderer then falls back to sending it as a new turn.
+        const params: CodexTurnSteerParams = {
+          threadId: session.threadId,
+          input: [{ type: "text", text: data.text, text_elements: [] }, ...(data.images ?? [])],
+          expectedTurnId: session.activeTurnId,
+        };
+        const result = await session.rpc.request<CodexTurnSteerResponse>("turn/steer", params);
+        log(
+          "codex",
+          ` Steer accepted: session=${shortId(data.sessionId, 12)} turn=${shortId(result.turnId, 12)} text_len=${data.text.length}`,
+        );
+        return { turnId: result.turnId };
+      } catch (err) {
+        return { error: reportError("CODEX_STEER_ERR", err, { engine: "codex", sessionId: data.sessionId }) };
+      }
+    },
+  );
+
+  // ─── codex:review (review/start on the session's thread) ───
+  ipcMain.handle(
+    "codex:review",
+    async (_, data: { sessionId: string; target: CodexReviewTarget }) => {
+      const session = codexSessions.get(data.sessionId);
+      if (!session) return { error: "Session not found" };
+
+      try {
+        const threadId = await ensureThread(session, data.sessionId);
+        // Inline delivery keeps review events on this session's thread so the
+        // renderer's per-session event routing picks them up unchanged.
+        const params: CodexReviewStartParams = {
+          threadId,
+          target: data.target,
+          delivery: "inline",
+        };
+        const result = await session.rpc.request<CodexReviewStartResponse>("review/start", params);
+        session.activeTurnId = result.turn.id;
+        log(
+          "codex",
+          ` Review started: session=${shortId(data.sessionId, 12)} target=${data.target.type} turn=${shortId(result.turn.id, 12)}`,
+        );
+        return { turnId: result.turn.id };
+      } catch (err) {
+        return { error: reportError("CODEX_REVIEW_ERR", err, { engine: "codex", sessionId: data.sessionId }) };
+      }
+    },
+  );
+
   // ─── codex:stop ───
   ipcMain.handle("codex:stop", async (_, sessionId: string) => {
     const session = codexSessions.get(sessionId);
@@ -646,6 +794,76 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     return { account: null, requiresOpenaiAuth: true };
   });
 
+  // ─── codex:rate-limits (account/rateLimits/read) ───
+  // A short-lived app-server is only spawned when the caller opts in — the
+  // header indicator reads live sessions only.
+  ipcMain.handle("codex:rate-limits", async (_, options?: { spawn?: boolean }) => {
+    if (!options?.spawn && !getAnyLiveRpc()) return { rateLimits: null, rateLimitsByLimitId: null };
+    try {
+      return await withAppServerRpc(process.cwd(), (rpc) =>
+        rpc.request<CodexRateLimitsResponse>("account/rateLimits/read"),
+      );
+    } catch (err) {
+      return {
+        rateLimits: null,
+        rateLimitsByLimitId: null,
+        error: reportError("CODEX_RATE_LIMITS_ERR", err, { engine: "codex" }),
+      };
+    }
+  });
+
+  // ─── codex:list-threads (thread/list filtered by cwd) ───
+  ipcMain.handle(
+    "codex:list-threads",
+    async (_, data: { cwd: string; archived?: boolean; cursor?: string | null; limit?: number }) => {
+      try {
+        const params: CodexThreadListParams = {
+          cwd: data.cwd,
+          archived: data.archived ?? false,
+          cursor: data.cursor ?? null,
+          limit: data.limit ?? 50,
+          sortKey: "updated_at",
+        };
+        const result = await withAppServerRpc(data.cwd, (rpc) =>
+          rpc.request<CodexThreadListResponse>("thread/list", params),
+        );
+        return { threads: result.data, nextCursor: result.nextCursor };
+      } catch (err) {
+        return { threads: [], nextCursor: null, error: reportError("CODEX_LIST_THREADS_ERR", err, { engine: "codex" }) };
+      }
+    },
+  );
+
+  // ─── codex:read-thread (thread/read with turns, for preview + import) ───
+  ipcMain.handle("codex:read-thread", async (_, data: { cwd: string; threadId: string }) => {
+    try {
+      const params: CodexThreadReadParams = { threadId: data.threadId, includeTurns: true };
+      const result = await withAppServerRpc(data.cwd, (rpc) =>
+        rpc.request<CodexThreadReadResponse>("thread/read", params),
+      );
+      return { thread: result.thread };
+    } catch (err) {
+      return { error: reportError("CODEX_READ_THREAD_ERR", err, { engine: "codex", threadId: data.threadId }) };
+    }
+  });
+
+  // ─── codex:set-thread-archived (thread/archive + thread/unarchive) ───
+  // Archiving happens in Codex's own store, so the CLI and other clients see it too.
+  ipcMain.handle(
+    "codex:set-thread-archived",
+    async (_, data: { cwd: string; threadId: string; archived: boolean }) => {
+      try {
+        await withAppServerRpc(data.cwd, (rpc) =>
+          rpc.request(data.archived ? "thread/archive" : "thread/unarchive", { threadId: data.threadId }),
+        );
+        log("codex", ` ${data.archived ? "Archived" : "Unarchived"} thread ${shortId(data.threadId)}`);
+        return { ok: true };
+      } catch (err) {
+        return { error: reportError("CODEX_ARCHIVE_THREAD_ERR", err, { engine: "codex", threadId: data.threadId }) };
+      }
+    },
+  );
+
   // ─── codex:login ───
   ipcMain.handle(
     "codex:login",
@@ -752,6 +970,51 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     },
   );
 
+  // ─── codex:fork (thread/fork + optional thread/rollback) ───
+  // Creates a new persisted thread branched from an existing one. The fork is
+  // not attached to a live session — the renderer resumes it via codex:resume
+  // on the first message, exactly like a restored session.
+  ipcMain.handle(
+    "codex:fork",
+    async (
+      _,
+      data: {
+        cwd: string;
+        threadId: string;
+        /** Number of trailing turns to drop from the forked thread (0 = keep all). */
+        dropTurns?: number;
+        model?: string;
+      },
+    ) => {
+      try {
+        // Reuse the live process that already owns the thread; otherwise spawn a short-lived one
+        return await withAppServerRpc(data.cwd, async (rpc) => {
+          const forkParams: CodexThreadForkParams = {
+            threadId: data.threadId,
+            cwd: data.cwd,
+            ...(data.model ? { model: data.model } : {}),
+            persistExtendedHistory: false,
+          };
+          const forkResult = await rpc.request<CodexThreadForkResponse>("thread/fork", forkParams);
+          const forkedThreadId = forkResult.thread.id;
+          log("codex", ` Forked thread ${shortId(data.threadId)} -> ${shortId(forkedThreadId)}`);
+
+          if (data.dropTurns && data.dropTurns > 0) {
+            const rollbackParams: CodexThreadRollbackParams = {
+              threadId: forkedThreadId,
+              numTurns: data.dropTurns,
+            };
+            await rpc.request("thread/rollback", rollbackParams);
+          }
+
+          return { threadId: forkedThreadId };
+        }, getLiveRpcForThread(data.threadId));
+      } catch (err) {
+        return { error: reportError("CODEX_FORK_ERR", err, { engine: "codex", threadId: data.threadId }) };
+      }
+    },
+  );
+
   // ─── codex:set-model ───
   ipcMain.handle(
     "codex:set-model",
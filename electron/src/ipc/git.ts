@@ -1,12 +1,37 @@
-import { ipcMain } from "electron";
+import { ipcMain, type BrowserWindow } from "electron";
+import crypto from "crypto";
 import path from "path";
 import fs from "fs";
+import os from "os";
 import { execFile } from "child_process";
-import { gitExec, ALWAYS_SKIP } from "../lib/git-exec";
+import { gitExec, gitExecStreaming, gitExecWithInput, ALWAYS_SKIP } from "../lib/git-exec";
+import { getAskpassEnv, setAskpassHandler } from "../lib/git-askpass";
+import { buildRebaseTodo, REWRITE_ACTIONS, validateRewritePlan } from "../lib/git-rewrite";
 import { captureEvent } from "../lib/posthog";
 import { reportError } from "../lib/error-utils";
+import { safeSend } from "../lib/safe-send";
 import { log } from "../lib/logger";
-import type { GitRepoInfo } from "@shared/types/git";
+import type {
+  GitBlameLine,
+  GitCompareEnd,
+  GitCompareSide,
+  GitConflictSide,
+  GitOperation,
+  GitRepoInfo,
+  GitResetMode,
+  GitRewriteStep,
+  GitSessionLink,
+  GitTag,
+  GitWorktree,
+  GitWorktreeSetupStep,
+} from "@shared/types/git";
+
+/**
+ * Pin the patch format against user config (color.diff, diff.external,
+ * diff.noprefix, diff.mnemonicPrefix) — the renderer parses these diffs and
+ * applies hunks of them back with `git apply`.
+ */
+const PATCH_FORMAT_ARGS = ["--no-color", "--no-ext-diff", "--src-prefix=a/", "--dst-prefix=b/"];
 
 interface RepoMetadata {
   topLevel: string;
@@ -37,6 +62,35 @@ function parseWorktreePaths(raw: string): string[] {
   return paths;
 }
 
+/** Parse `git worktree list --porcelain`; the first entry is the primary worktree. */
+function parseWorktreeList(raw: string): GitWorktree[] {
+  const worktrees: GitWorktree[] = [];
+  let current: GitWorktree | null = null;
+  for (const line of raw.split("\n")) {
+    if (line.startsWith("worktree ")) {
+      current = {
+        path: line.slice("worktree ".length).trim(),
+        head: "",
+        isPrimary: worktrees.length === 0,
+        locked: false,
+        prunable: false,
+      };
+      worktrees.push(current);
+    } else if (!current) {
+      continue;
+    } else if (line.startsWith("HEAD ")) {
+      current.head = line.slice("HEAD ".length).trim();
+    } else if (line.startsWith("branch ")) {
+      current.branch = line.slice("branch ".length).trim().replace(/^refs\/heads\//, "");
+    } else if (line === "locked" || line.startsWith("locked ")) {
+      current.locked = true;
+    } else if (line === "prunable" || line.startsWith("prunable ")) {
+      current.prunable = true;
+    }
+  }
+  return worktrees;
+}
+
 async function readRepoMetadata(cwd: string): Promise<RepoMetadata | null> {
   try {
     const raw = await gitExec(["rev-parse", "--show-toplevel", "--git-dir", "--git-common-dir"], cwd);
@@ -79,7 +133,7 @@ function shellExec(command: string, cwd: string): Promise<string> {
 async function runWorktreeSetup(
   sourceRepoPath: string,
   newWorktreePath: string,
-): Promise<{ command: string; ok: boolean; output?: string; error?: string }[]> {
+): Promise<GitWorktreeSetupStep[]> {
   const configPath = path.join(sourceRepoPath, WORKTREE_SETUP_FILE);
   if (!fs.existsSync(configPath)) return [];
 
@@ -94,7 +148,7 @@ async function runWorktreeSetup(
   const commands = config["setup-worktree"];
   if (!Array.isArray(commands) || commands.length === 0) return [];
 
-  const results: { command: string; ok: boolean; output?: string; error?: string }[] = [];
+  const results: GitWorktreeSetupStep[] = [];
 
   for (const rawCmd of commands) {
     // Replace $ROOT_WORKTREE_PATH with the source repo path
@@ -112,6 +166,70 @@ async function runWorktreeSetup(
   return results;
 }
 
+/** Last setup run, kept in the worktree's own git dir so it goes away with the worktree. */
+const SETUP_RUN_FILE = "harnss-setup.json";
+
+async function setupRunPath(worktreePath: string): Promise<string> {
+  const gitDir = (await gitExec(["rev-parse", "--absolute-git-dir"], worktreePath)).trim();
+  return path.join(gitDir, SETUP_RUN_FILE);
+}
+
+async function saveSetupRun(worktreePath: string, steps: GitWorktreeSetupStep[]): Promise<void> {
+  try {
+    const file = await setupRunPath(worktreePath);
+    await fs.promises.writeFile(file, JSON.stringify({ ranAt: Date.now(), steps }), "utf-8");
+  } catch (err) {
+    log("GIT_WORKTREE_SETUP", `Failed to record setup results: ${err}`);
+  }
+}
+
+async function readSetupRun(worktreePath: string): Promise<{ ranAt: number; steps: GitWorktreeSetupStep[] } | undefined> {
+  try {
+    const raw = JSON.parse(await fs.promises.readFile(await setupRunPath(worktreePath), "utf-8"));
+    return typeof raw?.ranAt === "number" && Array.isArray(raw.steps) ? raw : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Entries visited before worktree sizing gives up and reports a lower bound. */
+const SIZE_ENTRY_LIMIT = 20_000;
+
+/**
+ * Total size of the files under `dir`, symlinks counted but not followed.
+ * Stops after SIZE_ENTRY_LIMIT entries (a populated node_modules alone can be
+ * hundreds of thousands) — `capped` then marks `bytes` as a lower bound.
+ */
+async function directorySize(dir: string): Promise<{ bytes: number; capped: boolean }> {
+  let bytes = 0;
+  let visited = 0;
+  const pending = [dir];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    const entries = await fs.promises.readdir(current, { withFileTypes: true }).catch(() => [] as fs.Dirent[]);
+    visited += entries.length;
+    if (visited > SIZE_ENTRY_LIMIT) return { bytes, capped: true };
+    const files: string[] = [];
+    for (const entry of entries) {
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) pending.push(full);
+      else files.push(full);
+    }
+    const sizes = await Promise.all(files.map((file) => fs.promises.lstat(file).then((stat) => stat.size, () => 0)));
+    for (const size of sizes) bytes += size;
+  }
+  return { bytes, capped: false };
+}
+
+/** The worktree of `cwd`'s repository at `worktreePath`, or an error if it isn't one. */
+async function findWorktree(cwd: string, worktreePath: string): Promise<{ worktree: GitWorktree; primary: GitWorktree }> {
+  const worktrees = parseWorktreeList(await gitExec(["worktree", "list", "--porcelain"], cwd));
+  const target = normalizePath(worktreePath);
+  const worktree = worktrees.find((entry) => normalizePath(entry.path) === target);
+  if (!worktree) throw new Error(`${worktreePath} is not a worktree of this repository`);
+  return { worktree, primary: worktrees[0] };
+}
+
 /** Validate that a user-provided git ref doesn't look like a flag to prevent argument injection. */
 function validateRef(ref: string): void {
   if (ref.startsWith("-")) {
@@ -119,7 +237,207 @@ function validateRef(ref: string): void {
   }
 }
 
-export function register(): void {
+/**
+ * Detect an in-progress merge/rebase/cherry-pick/revert from the marker files
+ * git leaves in the (per-worktree) git dir. Rebase is checked first since a
+ * conflicted rebase step also writes CHERRY_PICK_HEAD-like state.
+ */
+async function detectOperation(cwd: string): Promise<GitOperation | undefined> {
+  const gitDir = (await gitExec(["rev-parse", "--absolute-git-dir"], cwd)).trim();
+  const has = (name: string) => fs.existsSync(path.join(gitDir, name));
+  if (has("rebase-merge") || has("rebase-apply")) return "rebase";
+  if (has("MERGE_HEAD")) return "merge";
+  if (has("CHERRY_PICK_HEAD")) return "cherry-pick";
+  if (has("REVERT_HEAD")) return "revert";
+  return undefined;
+}
+
+const GIT_OPERATIONS = new Set<GitOperation>(["merge", "rebase", "cherry-pick", "revert"]);
+const CONFLICT_SIDES = new Set<GitConflictSide>(["ours", "theirs"]);
+
+/** Index stages present for an unmerged file: 1/2/3 = base/ours/theirs. A side is missing when it deleted the file. */
+async function unmergedStages(cwd: string, file: string): Promise<Set<number>> {
+  const raw = await gitExec(["ls-files", "-u", "-z", "--", file], cwd);
+  // "<mode> <object> <stage>\t<path>"
+  return new Set(raw.split("\0").filter(Boolean).map((entry) => Number(entry.split(/\s+/)[2])));
+}
+
+/** Parent hashes of a commit (empty for a root commit). */
+async function commitParents(cwd: string, hash: string): Promise<string[]> {
+  const raw = await gitExec(["rev-list", "--parents", "-n", "1", hash], cwd);
+  return raw.trim().split(" ").slice(1).filter(Boolean);
+}
+
+const NAME_STATUS_MAP: Record<string, string> = { M: "modified", A: "added", D: "deleted", R: "renamed", C: "copied", T: "modified", U: "unmerged" };
+
+/** `git log` placeholders for the session trailers Harnss adds on commit (comma-joined values). */
+const SESSION_TRAILERS_FORMAT =
+  "%(trailers:key=Harnss-Session,valueonly,separator=%x2C)%x1f%(trailers:key=Harnss-Turn,valueonly,separator=%x2C)";
+
+function parseSessionLink(sessionValue: string | undefined, turnsValue: string | undefined): GitSessionLink | undefined {
+  // Edits from several chats (or a squash of attributed commits) carry more than one session — link the first
+  const sessionId = sessionValue?.split(",")[0]?.trim();
+  if (!sessionId) return undefined;
+  const turns = (turnsValue ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return { sessionId, turns };
+}
+
+const UNCOMMITTED_HASH = "0".repeat(40);
+
+/** Commits reachable from HEAD that aren't on any remote-tracking branch, newest first. */
+async function unpushedHashes(cwd: string): Promise<string[]> {
+  const raw = await gitExec(["rev-list", "HEAD", "--not", "--remotes"], cwd);
+  return raw.split("\n").filter(Boolean);
+}
+
+/** Refuse to rewrite commits that are already on a remote unless the caller opted in. */
+async function assertUnpushed(cwd: string, hashes: string[], allowPushed: boolean | undefined, what: string): Promise<void> {
+  if (allowPushed || hashes.length === 0) return;
+  const unpushed = new Set(await unpushedHashes(cwd));
+  if (hashes.some((hash) => !unpushed.has(hash))) {
+    throw new Error(`${what} would rewrite commits that are already pushed`);
+  }
+}
+
+/**
+ * Resolve one side of a comparison to a commit. A worktree side must belong to
+ * the same repository and compares its checked-out HEAD.
+ */
+async function resolveCompareSide(cwd: string, side: GitCompareSide): Promise<GitCompareEnd> {
+  if (side.kind === "ref") {
+    validateRef(side.ref);
+    const hash = (await gitExec(["rev-parse", "--verify", `${side.ref}^{commit}`], cwd)).trim();
+    const isBranch = await gitExec(["show-ref", "--verify", "--quiet", `refs/heads/${side.ref}`], cwd).then(() => true, () => false);
+    return { label: side.ref, hash, branch: isBranch ? side.ref : undefined };
+  }
+  const { worktree } = await findWorktree(cwd, side.path);
+  const dirty = (await gitExec(["status", "--porcelain"], worktree.path)).trim().length > 0;
+  // Empty when only untracked files changed — those stay out of the comparison
+  const snapshot = dirty ? (await gitExec(["stash", "create"], worktree.path)).trim() : "";
+  return {
+    label: worktree.branch ?? path.basename(worktree.path),
+    hash: worktree.head,
+    branch: worktree.branch,
+    worktreePath: worktree.path,
+    dirty,
+    snapshot: snapshot || undefined,
+  };
+}
+
+/** In-flight push/pull/fetch, by operation id, so the progress toast can cancel them. */
+const remoteOperations = new Map<string, AbortController>();
+/** Credential prompts waiting on the renderer, by request id. */
+const pendingPrompts = new Map<string, {
+  operationId: string;
+  resolve: (value: string | null) => void;
+  timer: ReturnType<typeof setTimeout>;
+}>();
+/** A prompt nobody answers (renderer gone or reloaded) fails the operation instead of hanging it. */
+const ASKPASS_PROMPT_TIMEOUT_MS = 5 * 60_000;
+
+/**
+ * Settle a credential prompt. Prompts closed from this side (operation ended,
+ * timed out) are also withdrawn from the renderer's dialog queue.
+ */
+function settlePrompt(
+  getMainWindow: () => BrowserWindow | null,
+  requestId: string,
+  value: string | null,
+  fromRenderer = false,
+): boolean {
+  const prompt = pendingPrompts.get(requestId);
+  if (!prompt) return false;
+  pendingPrompts.delete(requestId);
+  clearTimeout(prompt.timer);
+  prompt.resolve(value);
+  if (!fromRenderer) safeSend(getMainWindow, "git:askpass-cancel", { requestId });
+  return true;
+}
+
+/**
+ * Run a network git command with progress streamed to the renderer as
+ * `git:remote-progress` and credential prompts routed through askpass.
+ */
+async function runRemoteOperation(
+  getMainWindow: () => BrowserWindow | null,
+  cwd: string,
+  args: string[],
+  operationId: string | undefined,
+): Promise<string> {
+  const id = operationId || crypto.randomUUID();
+  const controller = new AbortController();
+  remoteOperations.set(id, controller);
+  try {
+    const env = await getAskpassEnv(id);
+    return await gitExecStreaming(args, cwd, {
+      env,
+      signal: controller.signal,
+      onProgress: (progress) => safeSend(getMainWindow, "git:remote-progress", { operationId: id, ...progress }),
+    });
+  } finally {
+    remoteOperations.delete(id);
+    // Settle any prompt the operation left open (e.g. cancelled mid-prompt)
+    for (const [requestId, prompt] of pendingPrompts) {
+      if (prompt.operationId === id) settlePrompt(getMainWindow, requestId, null);
+    }
+  }
+}
+
+/** Remote to publish a new branch to: `origin` when there is one, else the first configured. */
+async function defaultRemote(cwd: string): Promise<string> {
+  const remotes = (await gitExec(["remote"], cwd)).split("\n").map((line) => line.trim()).filter(Boolean);
+  if (remotes.length === 0) throw new Error("No remote configured");
+  return remotes.includes("origin") ? "origin" : remotes[0];
+}
+
+const RESET_MODES = new Set<GitResetMode>(["soft", "mixed"]);
+
+const AUTO_STASH_PREFIX = "harnss: auto-stash before checkout to";
+
+/** Commit of the newest stash entry, or "" when there is none. */
+async function stashTip(cwd: string): Promise<string> {
+  return (await gitExec(["rev-parse", "-q", "--verify", "refs/stash"], cwd).catch(() => "")).trim();
+}
+
+/** Pop the stash entry whose commit is `sha` — never whichever entry happens to be on top. */
+async function popStashEntry(cwd: string, sha: string): Promise<void> {
+  const shas = (await gitExec(["stash", "list", "--format=%H"], cwd)).split("\n").map((line) => line.trim());
+  const index = shas.indexOf(sha);
+  if (index < 0) throw new Error(`Stash entry ${sha.slice(0, 7)} no longer exists`);
+  await gitExec(["stash", "pop", `stash@{${index}}`], cwd);
+}
+const STASH_REF_RE = /^stash@\{\d+\}$/;
+
+function validateStashRef(ref: string): void {
+  if (!STASH_REF_RE.test(ref)) {
+    throw new Error(`Invalid stash ref: "${ref}"`);
+  }
+}
+
+/** Resolve a repo-relative path, refusing anything that escapes the repo. */
+function resolveRepoFile(cwd: string, file: string): string {
+  const root = path.resolve(cwd);
+  const resolved = path.resolve(root, file);
+  if (!isNestedPath(root, resolved)) {
+    throw new Error(`Invalid path: "${file}" is outside the repository`);
+  }
+  return resolved;
+}
+
+export function register(getMainWindow: () => BrowserWindow | null): void {
+  setAskpassHandler((operationId, prompt) => new Promise((resolve) => {
+    const requestId = crypto.randomUUID();
+    const timer = setTimeout(() => {
+      log("GIT_ASKPASS", `Prompt for ${operationId} timed out`);
+      settlePrompt(getMainWindow, requestId, null);
+    }, ASKPASS_PROMPT_TIMEOUT_MS);
+    pendingPrompts.set(requestId, { operationId, resolve, timer });
+    safeSend(getMainWindow, "git:askpass-request", { requestId, operationId, prompt });
+  }));
+
   ipcMain.handle("git:discover-repos", async (_event, projectPath: string) => {
     const normalizedProjectPath = normalizePath(projectPath);
     const reposByPath = new Map<string, GitRepoInfo>();
@@ -265,7 +583,8 @@ export function register(): void {
         }
       }
 
-      return { branch, upstream, ahead, behind, files };
+      const operation = await detectOperation(cwd).catch(() => undefined);
+      return { branch, upstream, ahead, behind, files, operation };
     } catch (err) {
       return { error: reportError("GIT_STATUS_ERR", err) };
     }
@@ -330,10 +649,36 @@ export function register(): void {
     }
   });
 
-  ipcMain.handle("git:commit", async (_event, { cwd, message }: { cwd: string; message: string }) => {
+  // Partial stage/unstage/discard: the renderer builds a patch from the selected
+  // hunks/lines and git applies it to the index (--cached) and/or in reverse.
+  ipcMain.handle("git:apply-patch", async (_event, { cwd, patch, cached, reverse }: { cwd: string; patch: string; cached?: boolean; reverse?: boolean }) => {
+    try {
+      const args = ["apply", "--whitespace=nowarn"];
+      if (cached) args.push("--cached");
+      if (reverse) args.push("--reverse");
+      await gitExecWithInput([...args, "-"], cwd, patch);
+      return { ok: true };
+    } catch (err) {
+      return { error: reportError("GIT_APPLY_PATCH_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:commit", async (_event, { cwd, message, trailers, amend, allowPushed }: {
+    cwd: string;
+    message: string;
+    trailers?: string[];
+    /** Replace HEAD instead of creating a new commit. */
+    amend?: boolean;
+    allowPushed?: boolean;
+  }) => {
     try {
-      const output = await gitExec(["commit", "-m", message], cwd);
-      void captureEvent("git_commit_created", { message_length: message.length });
+      if (amend) {
+        const head = (await gitExec(["rev-parse", "HEAD"], cwd)).trim();
+        await assertUnpushed(cwd, [head], allowPushed, "Amending");
+      }
+      const trailerArgs = (trailers ?? []).flatMap((trailer) => ["--trailer", trailer]);
+      const output = await gitExec(["commit", ...(amend ? ["--amend"] : []), "-m", message, ...trailerArgs], cwd);
+      void captureEvent("git_commit_created", { message_length: message.length, has_trailers: trailerArgs.length > 0, amend: !!amend });
       return { ok: true, output };
     } catch (err) {
       return { error: reportError("GIT_COMMIT_ERR", err) };
@@ -382,27 +727,131 @@ export function register(): void {
     }
   });
 
-  ipcMain.handle("git:checkout", async (_event, { cwd, branch }: { cwd: string; branch: string }) => {
+  ipcMain.handle("git:checkout", async (_event, { cwd, branch, autoStash }: { cwd: string; branch: string; autoStash?: boolean }) => {
     try {
       validateRef(branch);
-      await gitExec(["checkout", branch], cwd);
+      // Auto-stash: park dirty changes (incl. untracked), switch, then restore them on the new branch.
+      // The entry is identified by comparing refs/stash around the push — push can save nothing
+      // (e.g. only ignored changes), and popping then would restore an unrelated older stash.
+      let stashed = "";
+      if (autoStash && (await gitExec(["status", "--porcelain"], cwd)).trim().length > 0) {
+        const before = await stashTip(cwd);
+        await gitExec(["stash", "push", "--include-untracked", "-m", `${AUTO_STASH_PREFIX} ${branch}`], cwd);
+        const after = await stashTip(cwd);
+        if (after && after !== before) stashed = after;
+      }
+      try {
+        await gitExec(["checkout", branch], cwd);
+      } catch (err) {
+        if (stashed) {
+          try {
+            await popStashEntry(cwd, stashed);
+          } catch (popErr) {
+            const reason = popErr instanceof Error ? popErr.message : String(popErr);
+            const message = err instanceof Error ? err.message : String(err);
+            throw new Error(`${message}\nYour changes could not be restored and are kept in the stash ("${AUTO_STASH_PREFIX} ${branch}"): ${reason}`);
+          }
+        }
+        throw err;
+      }
       void captureEvent("git_branch_switched");
-      return { ok: true };
+      if (!stashed) return { ok: true };
+      try {
+        await popStashEntry(cwd, stashed);
+        return { ok: true, stash: "restored" };
+      } catch (err) {
+        // git keeps the stash entry when the pop fails; conflicts also show up in status
+        const conflicted = (await gitExec(["diff", "--name-only", "--diff-filter=U"], cwd).catch(() => "")).trim().length > 0;
+        return {
+          ok: true,
+          stash: conflicted ? "conflicts" : "kept",
+          stashError: err instanceof Error ? err.message : String(err),
+        };
+      }
     } catch (err) {
       return { error: reportError("GIT_CHECKOUT_ERR", err) };
     }
   });
 
-  ipcMain.handle("git:create-branch", async (_event, { cwd, name }: { cwd: string; name: string }) => {
+  ipcMain.handle("git:create-branch", async (_event, { cwd, name, fromRef }: { cwd: string; name: string; fromRef?: string }) => {
     try {
       validateRef(name);
-      await gitExec(["checkout", "-b", name], cwd);
+      if (fromRef) validateRef(fromRef);
+      await gitExec(["checkout", "-b", name, ...(fromRef ? [fromRef] : [])], cwd);
       return { ok: true };
     } catch (err) {
       return { error: reportError("GIT_CREATE_BRANCH_ERR", err) };
     }
   });
 
+  ipcMain.handle("git:list-tags", async (_event, cwd: string) => {
+    try {
+      const raw = await gitExec([
+        "for-each-ref", "refs/tags", "--sort=-creatordate",
+        "--format=%(refname:short)%00%(objecttype)%00%(*objectname)%00%(objectname)%00%(contents:subject)%00%(creatordate:iso-strict)",
+      ], cwd);
+      const tags: GitTag[] = [];
+      for (const line of raw.split("\n")) {
+        if (!line) continue;
+        const [name, type, peeled, object, subject, date] = line.split("\0");
+        const annotated = type === "tag";
+        tags.push({
+          name,
+          // Annotated tags point at a tag object; report the commit it wraps
+          hash: annotated ? peeled : object,
+          annotated,
+          message: annotated && subject ? subject : undefined,
+          date,
+        });
+      }
+      return tags;
+    } catch (err) {
+      return { error: reportError("GIT_LIST_TAGS_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:create-tag", async (_event, { cwd, name, target, message }: {
+    cwd: string;
+    name: string;
+    /** Commit to tag; HEAD when omitted. */
+    target?: string;
+    /** Makes an annotated tag; lightweight when omitted. */
+    message?: string;
+  }) => {
+    try {
+      validateRef(name);
+      if (target) validateRef(target);
+      const args = ["tag"];
+      if (message?.trim()) args.push("-a", "-m", message.trim());
+      args.push(name);
+      if (target) args.push(target);
+      await gitExec(args, cwd);
+      return { ok: true };
+    } catch (err) {
+      return { error: reportError("GIT_CREATE_TAG_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:delete-tag", async (_event, { cwd, name, remote, operationId }: {
+    cwd: string;
+    name: string;
+    /** Also delete it from the default remote. */
+    remote?: boolean;
+    operationId?: string;
+  }) => {
+    try {
+      validateRef(name);
+      // Remote first, so a failed remote delete leaves the local tag to retry with
+      if (remote) {
+        await runRemoteOperation(getMainWindow, cwd, ["push", "--progress", "--delete", await defaultRemote(cwd), `refs/tags/${name}`], operationId);
+      }
+      await gitExec(["tag", "-d", name], cwd);
+      return { ok: true };
+    } catch (err) {
+      return { error: reportError("GIT_DELETE_TAG_ERR", err) };
+    }
+  });
+
   ipcMain.handle("git:create-worktree", async (_event, { cwd, path: worktreePath, branch, fromRef }: { cwd: string; path: string; branch: string; fromRef?: string }) => {
     try {
       validateRef(branch);
@@ -414,6 +863,7 @@ export function register(): void {
 
       // Run post-creation setup from .harnss/worktree.json (non-blocking)
       const setupResults = await runWorktreeSetup(cwd, resolvedPath);
+      if (setupResults.length > 0) await saveSetupRun(resolvedPath, setupResults);
 
       return { ok: true, path: resolvedPath, output, setupResults };
     } catch (err) {
@@ -444,38 +894,131 @@ export function register(): void {
     }
   });
 
-  ipcMain.handle("git:push", async (_event, cwd: string) => {
+  ipcMain.handle("git:list-worktrees", async (_event, cwd: string) => {
+    try {
+      return parseWorktreeList(await gitExec(["worktree", "list", "--porcelain"], cwd));
+    } catch (err) {
+      return { error: reportError("GIT_LIST_WORKTREES_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:worktree-details", async (_event, { cwd, path: worktreePath }: { cwd: string; path: string }) => {
+    try {
+      const { worktree, primary } = await findWorktree(cwd, worktreePath);
+      const dir = worktree.path;
+      const [statusRaw, upstream, lastCommitDate, size, setup] = await Promise.all([
+        gitExec(["status", "--porcelain"], dir),
+        gitExec(["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{u}"], dir).then((out) => out.trim(), () => ""),
+        gitExec(["log", "-1", "--format=%cI"], dir).then((out) => out.trim(), () => ""),
+        directorySize(dir),
+        readSetupRun(dir),
+      ]);
+      let ahead = 0;
+      let behind = 0;
+      if (upstream) {
+        const counts = await gitExec(["rev-list", "--left-right", "--count", "@{u}...HEAD"], dir).catch(() => "");
+        const [behindRaw, aheadRaw] = counts.trim().split(/\s+/);
+        behind = parseInt(behindRaw, 10) || 0;
+        ahead = parseInt(aheadRaw, 10) || 0;
+      }
+      // A linked worktree whose HEAD the primary already contains has nothing left to merge
+      const merged = !worktree.isPrimary && !!worktree.head && !!primary.head
+        && await gitExec(["merge-base", "--is-ancestor", worktree.head, primary.head], cwd).then(() => true, () => false);
+      return {
+        path: dir,
+        changedFiles: statusRaw.split("\n").filter((line) => line.trim()).length,
+        upstream: upstream || undefined,
+        ahead,
+        behind,
+        lastCommitDate: lastCommitDate || undefined,
+        merged,
+        sizeBytes: size.bytes,
+        sizeCapped: size.capped,
+        setup,
+      };
+    } catch (err) {
+      return { error: reportError("GIT_WORKTREE_DETAILS_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:run-worktree-setup", async (_event, { cwd, path: worktreePath }: { cwd: string; path: string }) => {
+    try {
+      const { worktree, primary } = await findWorktree(cwd, worktreePath);
+      // $ROOT_WORKTREE_PATH and the setup file both come from the primary worktree, as on creation
+      const setupResults = await runWorktreeSetup(primary.path, worktree.path);
+      if (setupResults.length === 0) throw new Error(`No commands in ${WORKTREE_SETUP_FILE}`);
+      await saveSetupRun(worktree.path, setupResults);
+      return { ok: true, setupResults };
+    } catch (err) {
+      return { error: reportError("GIT_RUN_WORKTREE_SETUP_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:push", async (_event, { cwd, operationId, setUpstream, forceWithLease, tags, tag }: {
+    cwd: string;
+    operationId?: string;
+    /** Publish the current branch and track it (for branches with no upstream yet). */
+    setUpstream?: boolean;
+    forceWithLease?: boolean;
+    /** Push all local tags instead of the branch. */
+    tags?: boolean;
+    /** Push just this tag instead of the branch. */
+    tag?: string;
+  }) => {
     try {
-      const output = await gitExec(["push"], cwd);
+      const args = ["push", "--progress"];
+      if (tag) {
+        validateRef(tag);
+        args.push(await defaultRemote(cwd), `refs/tags/${tag}`);
+      } else if (tags) {
+        args.push("--tags");
+      } else {
+        if (forceWithLease) args.push("--force-with-lease");
+        if (setUpstream) {
+          const branch = (await gitExec(["symbolic-ref", "--short", "HEAD"], cwd)).trim();
+          validateRef(branch);
+          args.push("--set-upstream", await defaultRemote(cwd), branch);
+        }
+      }
+      const output = await runRemoteOperation(getMainWindow, cwd, args, operationId);
       return { ok: true, output };
     } catch (err) {
       return { error: reportError("GIT_PUSH_ERR", err) };
     }
   });
 
-  ipcMain.handle("git:pull", async (_event, cwd: string) => {
+  ipcMain.handle("git:pull", async (_event, { cwd, operationId }: { cwd: string; operationId?: string }) => {
     try {
-      const output = await gitExec(["pull"], cwd);
+      const output = await runRemoteOperation(getMainWindow, cwd, ["pull", "--progress"], operationId);
       return { ok: true, output };
     } catch (err) {
       return { error: reportError("GIT_PULL_ERR", err) };
     }
   });
 
-  ipcMain.handle("git:fetch", async (_event, cwd: string) => {
+  ipcMain.handle("git:fetch", async (_event, { cwd, operationId }: { cwd: string; operationId?: string }) => {
     try {
-      const output = await gitExec(["fetch", "--all"], cwd);
+      const output = await runRemoteOperation(getMainWindow, cwd, ["fetch", "--all", "--progress"], operationId);
       return { ok: true, output };
     } catch (err) {
       return { error: reportError("GIT_FETCH_ERR", err) };
     }
   });
 
+  ipcMain.handle("git:cancel-remote", (_event, operationId: string) => {
+    remoteOperations.get(operationId)?.abort();
+    return { ok: true };
+  });
+
+  ipcMain.handle("git:askpass-response", (_event, { requestId, value }: { requestId: string; value: string | null }) => {
+    return { ok: settlePrompt(getMainWindow, requestId, value, true) };
+  });
+
   ipcMain.handle("git:diff-file", async (_event, { cwd, file, staged }: { cwd: string; file: string; staged?: boolean }) => {
     try {
       const diffArgs = staged
-        ? ["diff", "--staged", "--", file]
-        : ["diff", "--", file];
+        ? ["diff", ...PATCH_FORMAT_ARGS, "--staged", "--", file]
+        : ["diff", ...PATCH_FORMAT_ARGS, "--", file];
       const diff = await gitExec(diffArgs, cwd);
       return { diff };
     } catch (err) {
@@ -524,4 +1067,467 @@ export function register(): void {
       return { error: reportError("GIT_LOG_ERR", err) };
     }
   });
+
+  ipcMain.handle("git:conflict-file", async (_event, { cwd, file }: { cwd: string; file: string }) => {
+    try {
+      const filePath = resolveRepoFile(cwd, file);
+      const stages = await unmergedStages(cwd, file);
+      // null = unreadable as text (e.g. over gitExec's buffer limit) — handled like binary
+      const readStage = (stage: number) => (stages.has(stage)
+        ? gitExec(["show", `:${stage}:${file}`], cwd).catch(() => null)
+        : Promise.resolve(""));
+      const [base, ours, theirs, merged] = await Promise.all([
+        readStage(1),
+        readStage(2),
+        readStage(3),
+        fs.promises.readFile(filePath).catch(() => Buffer.alloc(0)),
+      ]);
+      const binary = merged.includes(0) || [base, ours, theirs].some((content) => content === null || content.includes("\0"));
+      const unmerged = stages.size > 0;
+      return {
+        path: file,
+        base: binary ? "" : base ?? "",
+        ours: binary ? "" : ours ?? "",
+        theirs: binary ? "" : theirs ?? "",
+        merged: binary ? "" : merged.toString("utf-8"),
+        binary,
+        oursDeleted: unmerged && !stages.has(2),
+        theirsDeleted: unmerged && !stages.has(3),
+      };
+    } catch (err) {
+      return { error: reportError("GIT_CONFLICT_FILE_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:resolve-conflict", async (_event, { cwd, file, content, side }: {
+    cwd: string;
+    file: string;
+    /** Resolved text to write before staging */
+    content?: string;
+    /** Take one side whole instead — works for binary files and deletions */
+    side?: GitConflictSide;
+  }) => {
+    try {
+      const filePath = resolveRepoFile(cwd, file);
+      if (side !== undefined) {
+        if (!CONFLICT_SIDES.has(side)) throw new Error(`Unknown side: ${side}`);
+        const stages = await unmergedStages(cwd, file);
+        if (stages.size === 0) throw new Error(`${file} is not in conflict`);
+        if (!stages.has(side === "ours" ? 2 : 3)) {
+          // That side deleted the file — record the deletion rather than an empty file
+          await gitExec(["rm", "--quiet", "--force", "--", file], cwd);
+          return { ok: true };
+        }
+        await gitExec(["checkout", `--${side}`, "--", file], cwd);
+      } else if (content !== undefined) {
+        await fs.promises.writeFile(filePath, content, "utf-8");
+      }
+      await gitExec(["add", "--", file], cwd);
+      return { ok: true };
+    } catch (err) {
+      return { error: reportError("GIT_RESOLVE_CONFLICT_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:continue-operation", async (_event, { cwd, operation }: { cwd: string; operation: GitOperation }) => {
+    try {
+      if (!GIT_OPERATIONS.has(operation)) throw new Error(`Unknown operation: ${operation}`);
+      // core.editor=true accepts the prepared commit message instead of opening an editor
+      const output = await gitExec(["-c", "core.editor=true", operation, "--continue"], cwd);
+      return { ok: true, output };
+    } catch (err) {
+      return { error: reportError("GIT_CONTINUE_OPERATION_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:abort-operation", async (_event, { cwd, operation }: { cwd: string; operation: GitOperation }) => {
+    try {
+      if (!GIT_OPERATIONS.has(operation)) throw new Error(`Unknown operation: ${operation}`);
+      await gitExec([operation, "--abort"], cwd);
+      return { ok: true };
+    } catch (err) {
+      return { error: reportError("GIT_ABORT_OPERATION_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:stash-list", async (_event, cwd: string) => {
+    try {
+      const raw = await gitExec(["stash", "list", "--format=%gd%x09%gs%x09%cI"], cwd);
+      const entries: Array<{ ref: string; index: number; message: string; branch?: string; date: string }> = [];
+      for (const line of raw.split("\n")) {
+        if (!line.trim()) continue;
+        const [ref, subject = "", date = ""] = line.split("\t");
+        // Subject is "WIP on <branch>: <sha> <commit subject>" or "On <branch>: <message>"
+        const match = subject.match(/^(?:WIP on|On) ([^:]+): (.*)$/);
+        entries.push({
+          ref,
+          index: Number(ref.match(/\{(\d+)\}/)?.[1] ?? entries.length),
+          message: match ? match[2] : subject,
+          branch: match?.[1],
+          date,
+        });
+      }
+      return entries;
+    } catch (err) {
+      return { error: reportError("GIT_STASH_LIST_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:stash-push", async (_event, { cwd, message, includeUntracked, paths }: { cwd: string; message?: string; includeUntracked?: boolean; paths?: string[] }) => {
+    try {
+      const args = ["stash", "push"];
+      if (includeUntracked) args.push("--include-untracked");
+      if (message?.trim()) args.push("-m", message.trim());
+      if (paths && paths.length > 0) args.push("--", ...paths);
+      const output = await gitExec(args, cwd);
+      return { ok: true, output };
+    } catch (err) {
+      return { error: reportError("GIT_STASH_PUSH_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:stash-apply", async (_event, { cwd, ref }: { cwd: string; ref: string }) => {
+    try {
+      validateStashRef(ref);
+      await gitExec(["stash", "apply", ref], cwd);
+      return { ok: true };
+    } catch (err) {
+      return { error: reportError("GIT_STASH_APPLY_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:stash-pop", async (_event, { cwd, ref }: { cwd: string; ref: string }) => {
+    try {
+      validateStashRef(ref);
+      await gitExec(["stash", "pop", ref], cwd);
+      return { ok: true };
+    } catch (err) {
+      return { error: reportError("GIT_STASH_POP_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:stash-drop", async (_event, { cwd, ref }: { cwd: string; ref: string }) => {
+    try {
+      validateStashRef(ref);
+      await gitExec(["stash", "drop", ref], cwd);
+      return { ok: true };
+    } catch (err) {
+      return { error: reportError("GIT_STASH_DROP_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:stash-show", async (_event, { cwd, ref }: { cwd: string; ref: string }) => {
+    try {
+      validateStashRef(ref);
+      // --include-untracked needs git 2.32+; older git just shows tracked changes
+      const diff = await gitExec(["stash", "show", "-p", "--include-untracked", ref], cwd)
+        .catch(() => gitExec(["stash", "show", "-p", ref], cwd));
+      return { diff };
+    } catch (err) {
+      return { error: reportError("GIT_STASH_SHOW_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:history", async (_event, { cwd, skip, count, allBranches, path: filterPath, author, message }: {
+    cwd: string;
+    skip?: number;
+    count?: number;
+    allBranches?: boolean;
+    path?: string;
+    author?: string;
+    message?: string;
+  }) => {
+    try {
+      // \x1f between fields, \x1e between records — neither can appear in a subject or ref name
+      const args = [
+        "log",
+        `--format=%H%x1f%h%x1f%P%x1f%D%x1f%s%x1f%an%x1f%aI%x1f${SESSION_TRAILERS_FORMAT}%x1e`,
+        "--topo-order",
+        `--skip=${Math.max(0, skip ?? 0)}`,
+        "-n",
+        String(count || 100),
+      ];
+      if (allBranches) args.push("--branches", "--remotes", "--tags", "HEAD");
+      if (author?.trim()) args.push(`--author=${author.trim()}`);
+      if (message?.trim()) args.push("-i", `--grep=${message.trim()}`);
+      if (filterPath?.trim()) args.push("--", filterPath.trim());
+      const raw = await gitExec(args, cwd);
+      const entries: Array<{ hash: string; shortHash: string; parents: string[]; refs: string[]; subject: string; author: string; date: string; session?: GitSessionLink }> = [];
+      for (const record of raw.split("\x1e")) {
+        const trimmed = record.replace(/^\n/, "");
+        if (!trimmed) continue;
+        const [hash, shortHash, parents, refs, subject, authorName, date, sessionValue, turnsValue] = trimmed.split("\x1f");
+        entries.push({
+          hash,
+          shortHash,
+          parents: parents ? parents.split(" ") : [],
+          refs: refs ? refs.split(", ") : [],
+          subject,
+          author: authorName,
+          date,
+          session: parseSessionLink(sessionValue, turnsValue),
+        });
+      }
+      return entries;
+    } catch (err) {
+      return { error: reportError("GIT_HISTORY_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:commit-details", async (_event, { cwd, hash }: { cwd: string; hash: string }) => {
+    try {
+      validateRef(hash);
+      const [body, parents] = await Promise.all([
+        gitExec(["show", "-s", "--format=%B", hash], cwd),
+        commitParents(cwd, hash),
+      ]);
+      // Merges are shown against their first parent; root commits against the empty tree
+      const raw = parents.length > 0
+        ? await gitExec(["diff", "--name-status", "-M", parents[0], hash], cwd)
+        : await gitExec(["diff-tree", "-r", "-M", "--root", "--no-commit-id", "--name-status", hash], cwd);
+      const files: Array<{ path: string; oldPath?: string; status: string }> = [];
+      for (const line of raw.split("\n")) {
+        if (!line.trim()) continue;
+        const [code, first, second] = line.split("\t");
+        const letter = code[0];
+        const isMove = letter === "R" || letter === "C";
+        files.push({
+          path: isMove ? second : first,
+          oldPath: isMove ? first : undefined,
+          status: NAME_STATUS_MAP[letter] ?? "modified",
+        });
+      }
+      return { hash, body: body.trim(), files };
+    } catch (err) {
+      return { error: reportError("GIT_COMMIT_DETAILS_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:commit-file-diff", async (_event, { cwd, hash, file, oldPath }: { cwd: string; hash: string; file: string; oldPath?: string }) => {
+    try {
+      validateRef(hash);
+      const parents = await commitParents(cwd, hash);
+      const paths = ["--", ...(oldPath ? [oldPath] : []), file];
+      const diff = parents.length > 0
+        ? await gitExec(["diff", ...PATCH_FORMAT_ARGS, "-M", parents[0], hash, ...paths], cwd)
+        : await gitExec(["show", ...PATCH_FORMAT_ARGS, "--format=", hash, ...paths], cwd);
+      return { diff };
+    } catch (err) {
+      return { error: reportError("GIT_COMMIT_FILE_DIFF_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:blame", async (_event, { cwd, file, rev }: { cwd: string; file: string; rev?: string }) => {
+    try {
+      if (rev) validateRef(rev);
+      const raw = await gitExec(["blame", "--line-porcelain", ...(rev ? [rev] : []), "--", file], cwd);
+      const lines: GitBlameLine[] = [];
+      let current: Partial<GitBlameLine> = {};
+      for (const row of raw.split("\n")) {
+        if (row.startsWith("\t")) {
+          const hash = current.hash ?? UNCOMMITTED_HASH;
+          lines.push({
+            line: current.line ?? lines.length + 1,
+            hash,
+            author: current.author ?? "",
+            date: current.date ?? "",
+            summary: current.summary ?? "",
+            content: row.slice(1),
+            committed: hash !== UNCOMMITTED_HASH,
+          });
+          current = {};
+          continue;
+        }
+        const header = /^([0-9a-f]{40}) \d+ (\d+)/.exec(row);
+        if (header) {
+          current.hash = header[1];
+          current.line = Number(header[2]);
+        } else if (row.startsWith("author ")) {
+          current.author = row.slice(7);
+        } else if (row.startsWith("author-time ")) {
+          current.date = new Date(Number(row.slice(12)) * 1000).toISOString();
+        } else if (row.startsWith("summary ")) {
+          current.summary = row.slice(8);
+        }
+      }
+
+      // Trailers aren't part of blame output — look them up once per commit
+      const hashes = [...new Set(lines.filter((l) => l.committed).map((l) => l.hash))];
+      if (hashes.length > 0) {
+        const trailersRaw = await gitExec(["log", "--no-walk=unsorted", `--format=%H%x1f${SESSION_TRAILERS_FORMAT}%x1e`, ...hashes], cwd);
+        const sessions = new Map<string, GitSessionLink>();
+        for (const record of trailersRaw.split("\x1e")) {
+          const [hash, sessionValue, turnsValue] = record.replace(/^\n/, "").split("\x1f");
+          const session = parseSessionLink(sessionValue, turnsValue);
+          if (hash && session) sessions.set(hash, session);
+        }
+        for (const line of lines) line.session = sessions.get(line.hash);
+      }
+      return lines;
+    } catch (err) {
+      return { error: reportError("GIT_BLAME_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:top-level", async (_event, cwd: string) => {
+    try {
+      return { path: normalizePath((await gitExec(["rev-parse", "--show-toplevel"], cwd)).trim()) };
+    } catch (err) {
+      return { error: reportError("GIT_TOP_LEVEL_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:unpushed", async (_event, cwd: string) => {
+    try {
+      const raw = await gitExec(["log", "--format=%H%x1f%h%x1f%s%x1f%an%x1f%aI", "-n", "200", "HEAD", "--not", "--remotes"], cwd);
+      return raw.split("\n").filter(Boolean).map((line) => {
+        const [hash, shortHash, subject, author, date] = line.split("\x1f");
+        return { hash, shortHash, subject, author, date };
+      });
+    } catch (err) {
+      return { error: reportError("GIT_UNPUSHED_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:reset", async (_event, { cwd, ref, mode, allowPushed }: { cwd: string; ref: string; mode: GitResetMode; allowPushed?: boolean }) => {
+    try {
+      validateRef(ref);
+      if (!RESET_MODES.has(mode)) throw new Error(`Unsupported reset mode: ${mode}`);
+      const undone = (await gitExec(["rev-list", `${ref}..HEAD`], cwd)).split("\n").filter(Boolean);
+      await assertUnpushed(cwd, undone, allowPushed, "Resetting");
+      await gitExec(["reset", `--${mode}`, ref], cwd);
+      void captureEvent("git_reset", { mode, commits: undone.length });
+      return { ok: true };
+    } catch (err) {
+      return { error: reportError("GIT_RESET_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:rewrite-commits", async (_event, { cwd, steps }: { cwd: string; steps: GitRewriteStep[] }) => {
+    let todoDir: string | null = null;
+    try {
+      for (const step of steps) {
+        if (!REWRITE_ACTIONS.has(step.action)) throw new Error(`Unsupported rewrite action: ${step.action}`);
+        validateRef(step.hash);
+      }
+      // Only unpushed history can be rewritten — there's no override here
+      const unpushed = await unpushedHashes(cwd);
+      const unpushedSet = new Set(unpushed);
+      if (steps.some((step) => !unpushedSet.has(step.hash))) {
+        throw new Error("Only unpushed commits can be squashed or reordered");
+      }
+      // unpushed is newest first, so the last planned hash in it is the oldest commit rewritten
+      const planned = new Set(steps.map((step) => step.hash));
+      const oldest = [...unpushed].reverse().find((hash) => planned.has(hash));
+      if (!oldest) throw new Error("Nothing to rewrite");
+      const [base] = await commitParents(cwd, oldest);
+      const rangeArgs = base ? [`${base}..HEAD`] : ["HEAD"];
+      const range = (await gitExec(["rev-list", "--reverse", ...rangeArgs], cwd)).split("\n").filter(Boolean);
+      const planError = validateRewritePlan(steps, range);
+      if (planError) throw new Error(planError);
+      const merges = (await gitExec(["rev-list", "--merges", ...rangeArgs], cwd)).trim();
+      if (merges) throw new Error("Can't squash or reorder across merge commits");
+
+      // Hand git our todo through a sequence editor that copies it over the generated one;
+      // core.editor=true keeps the combined messages git prepares for squashes
+      todoDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "harnss-rebase-"));
+      const todoPath = path.join(todoDir, "todo").replace(/\\/g, "/");
+      await fs.promises.writeFile(todoPath, buildRebaseTodo(steps), "utf-8");
+      const output = await gitExec([
+        "-c", `sequence.editor=cp '${todoPath}'`,
+        "-c", "core.editor=true",
+        "rebase", "-i", base ?? "--root",
+      ], cwd);
+      void captureEvent("git_commits_rewritten", {
+        commits: steps.length,
+        squashed: steps.filter((step) => step.action !== "pick").length,
+      });
+      return { ok: true, output };
+    } catch (err) {
+      // A conflicting step leaves the rebase in progress; the panel's operation banner takes over
+      return { error: reportError("GIT_REWRITE_ERR", err) };
+    } finally {
+      if (todoDir) await fs.promises.rm(todoDir, { recursive: true, force: true }).catch(() => {});
+    }
+  });
+
+  ipcMain.handle("git:revert", async (_event, { cwd, hash }: { cwd: string; hash: string }) => {
+    try {
+      validateRef(hash);
+      // Reverting a merge needs the mainline; the first parent is the branch it was merged into
+      const parents = await commitParents(cwd, hash);
+      const output = await gitExec(["revert", "--no-edit", ...(parents.length > 1 ? ["-m", "1"] : []), hash], cwd);
+      return { ok: true, output };
+    } catch (err) {
+      return { error: reportError("GIT_REVERT_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:cherry-pick", async (_event, { cwd, hash }: { cwd: string; hash: string | string[] }) => {
+    try {
+      // Several commits are applied in the order given — callers pass them oldest first
+      const hashes = Array.isArray(hash) ? hash : [hash];
+      if (hashes.length === 0) throw new Error("No commits to cherry-pick");
+      hashes.forEach(validateRef);
+      const output = await gitExec(["cherry-pick", ...hashes], cwd);
+      return { ok: true, output };
+    } catch (err) {
+      return { error: reportError("GIT_CHERRY_PICK_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:compare", async (_event, { cwd, base, head }: { cwd: string; base: GitCompareSide; head: GitCompareSide }) => {
+    try {
+      const [baseEnd, headEnd] = await Promise.all([resolveCompareSide(cwd, base), resolveCompareSide(cwd, head)]);
+      const [logRaw, behindRaw, filesRaw] = await Promise.all([
+        gitExec(["log", "--format=%H%x1f%h%x1f%s%x1f%an%x1f%aI%x1e", `${baseEnd.hash}..${headEnd.hash}`], cwd),
+        gitExec(["rev-list", "--count", `${headEnd.hash}..${baseEnd.hash}`], cwd),
+        gitExec(["diff", "--name-status", "-M", `${baseEnd.snapshot ?? baseEnd.hash}...${headEnd.snapshot ?? headEnd.hash}`], cwd),
+      ]);
+      const ahead: Array<{ hash: string; shortHash: string; subject: string; author: string; date: string }> = [];
+      for (const record of logRaw.split("\x1e")) {
+        const trimmed = record.replace(/^\n/, "");
+        if (!trimmed) continue;
+        const [hash, shortHash, subject, author, date] = trimmed.split("\x1f");
+        ahead.push({ hash, shortHash, subject, author, date });
+      }
+      const files: Array<{ path: string; oldPath?: string; status: string }> = [];
+      for (const line of filesRaw.split("\n")) {
+        if (!line.trim()) continue;
+        const [code, first, second] = line.split("\t");
+        const letter = code[0];
+        const isMove = letter === "R" || letter === "C";
+        files.push({
+          path: isMove ? second : first,
+          oldPath: isMove ? first : undefined,
+          status: NAME_STATUS_MAP[letter] ?? "modified",
+        });
+      }
+      return { base: baseEnd, head: headEnd, ahead, behind: parseInt(behindRaw.trim(), 10) || 0, files };
+    } catch (err) {
+      return { error: reportError("GIT_COMPARE_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:compare-file-diff", async (_event, { cwd, base, head, file, oldPath }: { cwd: string; base: string; head: string; file: string; oldPath?: string }) => {
+    try {
+      validateRef(base);
+      validateRef(head);
+      const diff = await gitExec(["diff", ...PATCH_FORMAT_ARGS, "-M", `${base}...${head}`, "--", ...(oldPath ? [oldPath] : []), file], cwd);
+      return { diff };
+    } catch (err) {
+      return { error: reportError("GIT_COMPARE_FILE_DIFF_ERR", err) };
+    }
+  });
+
+  ipcMain.handle("git:merge", async (_event, { cwd, ref }: { cwd: string; ref: string }) => {
+    try {
+      validateRef(ref);
+      // Conflicts leave MERGE_HEAD behind, which the panel picks up as an in-progress merge
+      const output = await gitExec(["merge", "--no-edit", ref], cwd);
+      return { ok: true, output };
+    } catch (err) {
+      return { error: reportError("GIT_MERGE_ERR", err) };
+    }
+  });
 }
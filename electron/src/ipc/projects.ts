@@ -5,6 +5,7 @@ import crypto from "crypto";
 import { getDataDir } from "../lib/data-dir";
 import { reportError } from "../lib/error-utils";
 import { captureEvent } from "../lib/posthog";
+import { dropProjectIndex } from "../lib/session-search-store";
 
 interface Project {
   id: string;
@@ -122,6 +123,7 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
       if (fs.existsSync(sessionsDir)) {
         fs.rmSync(sessionsDir, { recursive: true, force: true });
       }
+      void dropProjectIndex(projectId);
       return { ok: true };
     } catch (err) {
       return { error: reportError("PROJECTS:DELETE_ERR", err) };
@@ -1,36 +1,112 @@
-import { ipcMain } from "electron";
+import { BrowserWindow, dialog, ipcMain } from "electron";
 import path from "path";
 import fs from "fs";
-import { getDataDir, getProjectSessionsDir, getSessionFilePath } from "../lib/data-dir";
+import crypto from "crypto";
+import { getProjectSessionsDir, getSessionFilePath } from "../lib/data-dir";
 import { reportError } from "../lib/error-utils";
+import {
+  indexSessionSave,
+  removeIndexedSession,
+  searchSessions,
+  updateIndexedSessionMeta,
+} from "../lib/session-search-store";
+import type { IndexableSession } from "../lib/session-search-index";
+import { getCCProjectDir, getJsonlSessionInfo, parseJsonlToUIMessages } from "../lib/cc-jsonl";
 import {
   getLastUserMessageTimestamp,
   extractSessionMeta,
+  normalizeImportedSession,
   type SessionMeta,
 } from "@shared/lib/session-persistence";
-
-interface SearchResult {
-  messageResults: Array<{
-    sessionId: string;
-    projectId: string;
-    sessionTitle: string;
-    messageId: string;
-    snippet: string;
-    timestamp: number;
-  }>;
-  sessionResults: Array<{
-    sessionId: string;
-    projectId: string;
-    title: string;
-    createdAt: number;
-  }>;
-}
+import type { SessionSearchRequest, SessionSearchResponse } from "@shared/types/search";
+import { codexThreadExists } from "./codex-sessions";
 
 function getMetaFilePath(projectId: string, sessionId: string): string {
   return getSessionFilePath(projectId, sessionId).replace(/\.json$/, ".meta.json");
 }
 
-export function register(): void {
+type ImportMode = "resumable" | "readOnly";
+type ImportResult = { session: Record<string, unknown>; notice?: string } | { error: string };
+
+function titleFromMessages(messages: Array<{ role: string; content: string }>): string {
+  const text = messages.find((m) => m.role === "user")?.content.trim() || "Imported Session";
+  return text.length > 60 ? text.slice(0, 57) + "..." : text;
+}
+
+/**
+ * Import a raw Claude Code transcript. Claude resumes by session id from the
+ * project's own transcript dir, so a resumable import copies the file there.
+ */
+async function importClaudeTranscript(filePath: string, content: string, projectPath: string, mode: ImportMode): Promise<ImportResult> {
+  const messages = parseJsonlToUIMessages(content);
+  if (messages.length === 0) return { error: "No conversation found in this Claude Code transcript." };
+  const info = getJsonlSessionInfo(content);
+  const session = {
+    title: titleFromMessages(messages),
+    createdAt: messages[0].timestamp,
+    totalCost: 0,
+    engine: "claude",
+    ...(info.model ? { model: info.model } : {}),
+    messages,
+  };
+  if (mode === "readOnly") return { session: { ...session, id: crypto.randomUUID(), readOnly: true } };
+
+  const ccSessionId = info.sessionId ?? path.basename(filePath, ".jsonl");
+  const ccDir = getCCProjectDir(projectPath);
+  const target = path.join(ccDir, `${ccSessionId}.jsonl`);
+  if (path.resolve(filePath) !== target) {
+    await fs.promises.mkdir(ccDir, { recursive: true });
+    await fs.promises.copyFile(filePath, target, fs.constants.COPYFILE_EXCL).catch((err: NodeJS.ErrnoException) => {
+      if (err.code !== "EEXIST") throw err;
+    });
+  }
+  return { session: { ...session, id: ccSessionId } };
+}
+
+/**
+ * Import a session JSON from another Harnss data dir. Resuming needs the
+ * agent's own history on this machine; when it is missing (or, for ACP
+ * agents, can't be checked) the chat is imported read-only instead.
+ */
+async function importHarnssSession(content: string, projectPath: string, mode: ImportMode): Promise<ImportResult> {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return { error: "Not a valid session file." };
+  }
+  const normalized = normalizeImportedSession(data);
+  if ("error" in normalized) return normalized;
+  const { session, messages } = normalized;
+  const readOnly = { ...session, id: crypto.randomUUID(), readOnly: true, agentSessionId: undefined, codexThreadId: undefined, messages };
+  if (mode === "readOnly" || session.readOnly) return { session: readOnly };
+
+  const sourceId = typeof session.id === "string" ? session.id : "";
+  const unavailable = (agent: string) => ({
+    session: readOnly,
+    notice: `${agent} history for this chat isn't on this machine, so it was imported read-only.`,
+  });
+  switch (session.engine) {
+    case "codex":
+      if (typeof session.codexThreadId !== "string" || !(await codexThreadExists(projectPath, session.codexThreadId))) {
+        return unavailable("Codex");
+      }
+      return { session: { ...session, id: crypto.randomUUID(), messages } };
+    case "acp":
+      // Agents keep their sessions in their own stores, which only the agent itself can look into
+      return {
+        session: readOnly,
+        notice: "Agent chats can't be checked for resumable history, so it was imported read-only.",
+      };
+    default:
+      if (!sourceId || !fs.existsSync(path.join(getCCProjectDir(projectPath), `${sourceId}.jsonl`))) {
+        return unavailable("Claude Code");
+      }
+      return { session: { ...session, id: sourceId, messages } };
+  }
+}
+
+export function register(getMainWindow: () => BrowserWindow | null): void {
   ipcMain.handle("sessions:save", async (_event, data: { projectId: string; id: string; createdAt?: number; messages?: Array<{ role?: string; timestamp?: number }> }) => {
     try {
       const filePath = getSessionFilePath(data.projectId, data.id);
@@ -56,6 +132,7 @@ export function register(): void {
       });
 
       await Promise.all([writeMain, writeMeta]);
+      indexSessionSave(data.projectId, enriched as unknown as IndexableSession, filePath);
       return { ok: true };
     } catch (err) {
       const message = reportError("SESSIONS:SAVE_ERR", err, { sessionId: data.id });
@@ -166,6 +243,8 @@ export function register(): void {
         // main file missing — nothing to patch
       }
 
+      await updateIndexedSessionMeta(projectId, sessionId, patch);
+
       return { ok: true };
     } catch (err) {
       const message = reportError("SESSIONS:UPDATE_META_ERR", err, { projectId, sessionId });
@@ -187,6 +266,7 @@ export function register(): void {
           if (err.code !== "ENOENT") throw err;
         }),
       ]);
+      await removeIndexedSession(projectId, sessionId);
       return { ok: true };
     } catch (err) {
       const message = reportError("SESSIONS:DELETE_ERR", err, { projectId, sessionId });
@@ -194,77 +274,61 @@ export function register(): void {
     }
   });
 
-  ipcMain.handle("sessions:search", async (_event, { projectIds, query }: { projectIds: string[]; query: string }): Promise<SearchResult> => {
+  ipcMain.handle("sessions:search", async (_event, request: SessionSearchRequest): Promise<SessionSearchResponse> => {
     try {
-      const lowerQuery = query.toLowerCase();
-      const messageResults: SearchResult["messageResults"] = [];
-      const sessionResults: SearchResult["sessionResults"] = [];
-
-      for (const projectId of projectIds) {
-        const dir = path.join(getDataDir(), "sessions", projectId);
-        try {
-          await fs.promises.access(dir);
-        } catch {
-          continue;
-        }
-
-        const allFiles = await fs.promises.readdir(dir);
-        const files = allFiles.filter((f) => f.endsWith(".json") && !f.endsWith(".meta.json"));
-        for (const file of files) {
-          const filePath = path.join(dir, file);
-          try {
-            const stat = await fs.promises.stat(filePath);
-            if (stat.size > 5 * 1024 * 1024) continue;
-
-            const raw = await fs.promises.readFile(filePath, "utf-8");
-            const data = JSON.parse(raw);
-            const sessionTitle = data.title || "Untitled";
-            const sessionId = data.id;
-
-            if (sessionTitle.toLowerCase().includes(lowerQuery)) {
-              sessionResults.push({
-                sessionId,
-                projectId,
-                title: sessionTitle,
-                createdAt: data.createdAt || 0,
-              });
-            }
-
-            if (messageResults.length >= 10) continue;
-            const messages = data.messages || [];
-            for (const msg of messages) {
-              if (messageResults.length >= 10) break;
-              if (msg.role !== "user" && msg.role !== "assistant") continue;
-              if (!msg.content || typeof msg.content !== "string") continue;
-
-              const idx = msg.content.toLowerCase().indexOf(lowerQuery);
-              if (idx === -1) continue;
+      return await searchSessions(request);
+    } catch (err) {
+      reportError("SESSIONS:SEARCH_ERR", err, { query: request.query });
+      return {
+        messageResults: [],
+        sessionResults: [],
+        totalMessageResults: 0,
+        hasMore: false,
+        facets: { engines: [], models: [], branches: [], folderIds: [] },
+      };
+    }
+  });
 
-              const start = Math.max(0, idx - 30);
-              const end = Math.min(msg.content.length, idx + query.length + 50);
-              let snippet = msg.content.slice(start, end);
-              if (start > 0) snippet = "..." + snippet;
-              if (end < msg.content.length) snippet = snippet + "...";
+  ipcMain.handle("sessions:import", async (_event, { projectId, projectPath, mode }: { projectId: string; projectPath: string; mode: ImportMode }) => {
+    try {
+      const mainWindow = getMainWindow();
+      if (!mainWindow) return { error: "No window" };
+      const picked = await dialog.showOpenDialog(mainWindow, {
+        title: "Import Chat",
+        properties: ["openFile"],
+        filters: [{ name: "Chat sessions", extensions: ["json", "jsonl"] }],
+      });
+      if (picked.canceled || picked.filePaths.length === 0) return { canceled: true };
 
-              messageResults.push({
-                sessionId,
-                projectId,
-                sessionTitle,
-                messageId: msg.id,
-                snippet,
-                timestamp: msg.timestamp || data.createdAt || 0,
-              });
-            }
-          } catch {
-            // Skip corrupted files
-          }
-        }
-      }
+      const filePath = picked.filePaths[0];
+      const content = await fs.promises.readFile(filePath, "utf-8");
+      const result = filePath.endsWith(".jsonl")
+        ? await importClaudeTranscript(filePath, content, projectPath, mode)
+        : await importHarnssSession(content, projectPath, mode);
+      if ("error" in result) return result;
+      return { ...result, session: { ...result.session, projectId } };
+    } catch (err) {
+      const message = reportError("SESSIONS:IMPORT_ERR", err, { projectId, mode });
+      return { error: message };
+    }
+  });
 
-      return { messageResults, sessionResults };
+  ipcMain.handle("sessions:export", async (_event, { defaultName, content }: { defaultName: string; content: string }) => {
+    try {
+      const mainWindow = getMainWindow();
+      if (!mainWindow) return { error: "No window" };
+      const ext = path.extname(defaultName).slice(1);
+      const result = await dialog.showSaveDialog(mainWindow, {
+        title: "Export Chat",
+        defaultPath: defaultName,
+        filters: ext ? [{ name: ext.toUpperCase(), extensions: [ext] }] : [],
+      });
+      if (result.canceled || !result.filePath) return { canceled: true };
+      await fs.promises.writeFile(result.filePath, content, "utf-8");
+      return { ok: true, filePath: result.filePath };
     } catch (err) {
-      reportError("SESSIONS:SEARCH_ERR", err, { query });
-      return { messageResults: [], sessionResults: [] };
+      const message = reportError("SESSIONS:EXPORT_ERR", err, { defaultName });
+      return { error: message };
     }
   });
 }
@@ -0,0 +1,13 @@
+import { ipcMain } from "electron";
+import { reportError } from "../lib/error-utils";
+import { discoverProjectTasks } from "../lib/task-discovery";
+
+export function register(): void {
+  ipcMain.handle("tasks:discover", (_event, cwd: string) => {
+    try {
+      return { tasks: discoverProjectTasks(cwd) };
+    } catch (err) {
+      return { error: reportError("TASKS_DISCOVER_ERR", err) };
+    }
+  });
+}
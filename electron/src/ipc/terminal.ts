@@ -1,104 +1,323 @@
 import { BrowserWindow, ipcMain } from "electron";
 import crypto from "crypto";
+import fs from "fs";
+import path from "path";
 import { log } from "../lib/logger";
 import { safeSend } from "../lib/safe-send";
 import { captureEvent } from "../lib/posthog";
 import { reportError } from "../lib/error-utils";
+import { getAppSetting } from "../lib/app-settings";
+import { applyTerminalProfile } from "../lib/terminal-profiles";
+import { getPty, type PtyProcess } from "../lib/pty";
+import { onSettingsChanged } from "./settings";
 import {
   appendTerminalHistory,
   EMPTY_TERMINAL_HISTORY,
+  extractReportedCwd,
+  formatRestoredScrollback,
+  MAX_PERSISTED_SCROLLBACK_CHARS,
   readTerminalHistory,
 } from "../lib/terminal-history";
 import type { TerminalHistoryState } from "../lib/terminal-history";
+import {
+  clearTerminalSessions,
+  loadTerminalSessions,
+  saveTerminalSessions,
+  type PersistedTerminal,
+} from "../lib/terminal-session-store";
 
 interface TerminalEntry {
-  pty: {
-    write: (data: string) => void;
-    resize: (cols: number, rows: number) => void;
-    kill: () => void;
-    onData: (cb: (data: string) => void) => void;
-    onExit: (cb: (e: { exitCode: number }) => void) => void;
-  };
+  pty: PtyProcess;
   cols: number;
   rows: number;
   spaceId: string;
+  /** Custom shell and args from a terminal profile; unset means the platform default shell */
+  shell?: string;
+  args?: string[];
+  /** Latest known working directory — the spawn cwd, updated from OSC 7 reports. */
+  cwd?: string;
+  env?: Record<string, string>;
+  command?: string;
+  /** Runs `command` as the shell's only job (task runner) — hidden from terminal:list and never persisted. */
+  oneShot: boolean;
   createdAt: number;
   history: TerminalHistoryState;
   seq: number;
   exited: boolean;
   exitCode: number | null;
   destroyed: boolean;
+  /** Last saved form of this terminal, rebuilt only after it printed something new. */
+  persisted: PersistedTerminal | null;
 }
 
 export const terminals = new Map<string, TerminalEntry>();
 
-let ptyModule: { spawn: (...args: unknown[]) => TerminalEntry["pty"] } | null = null;
+interface SpawnTerminalOptions {
+  terminalId: string;
+  cwd?: string;
+  cols: number;
+  rows: number;
+  spaceId: string;
+  shell?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  command?: string;
+  oneShot?: boolean;
+  createdAt: number;
+  /** Output shown before the shell's own (restored scrollback). */
+  preamble?: string;
+  /** Type `command` at the prompt without running it (restored terminals). */
+  holdCommand?: boolean;
+}
+
+/** Delay before saving after a terminal is opened or closed. */
+const PERSIST_DEBOUNCE_MS = 2_000;
+/** Delay before saving new output — scrollback only matters after a restart, so it is batched. */
+const OUTPUT_PERSIST_DEBOUNCE_MS = 30_000;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+let persistDueAt = 0;
+/** Set when the set of terminals changed since the last save. */
+let layoutDirty = false;
+/** Set once the app starts tearing terminals down, so the kill doesn't overwrite the saved sessions. */
+let persistenceFrozen = false;
+
+function toPersistedTerminal(terminalId: string, term: TerminalEntry): PersistedTerminal {
+  return {
+    terminalId,
+    shell: term.shell,
+    args: term.args,
+    cwd: term.cwd,
+    env: term.env,
+    command: term.command,
+    cols: term.cols,
+    rows: term.rows,
+    createdAt: term.createdAt,
+    scrollback: readTerminalHistory(term.history).slice(-MAX_PERSISTED_SCROLLBACK_CHARS),
+  };
+}
+
+/** Save the open terminals; terminals that printed nothing new reuse their last saved form. */
+function persistNow(): void {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  if (persistenceFrozen || !getAppSetting("persistentTerminals")) return;
+
+  let changed = layoutDirty;
+  const spaces: Record<string, PersistedTerminal[]> = {};
+  const entries = Array.from(terminals.entries()).sort(([, a], [, b]) => a.createdAt - b.createdAt);
+  for (const [terminalId, term] of entries) {
+    if (term.destroyed || term.oneShot) continue;
+    if (!term.persisted) {
+      term.persisted = toPersistedTerminal(terminalId, term);
+      changed = true;
+    }
+    (spaces[term.spaceId] ??= []).push(term.persisted);
+  }
+  if (!changed) return;
+  layoutDirty = false;
+  try {
+    saveTerminalSessions({ savedAt: Date.now(), spaces });
+  } catch {
+    // Already reported by the store — the next change retries
+    layoutDirty = true;
+  }
+}
+
+/** Save after `delay`, or keep an earlier save that is already due. */
+function schedulePersist(delay = PERSIST_DEBOUNCE_MS): void {
+  if (persistenceFrozen || !getAppSetting("persistentTerminals")) return;
+  const dueAt = Date.now() + delay;
+  if (persistTimer) {
+    if (persistDueAt <= dueAt) return;
+    clearTimeout(persistTimer);
+  }
+  persistDueAt = dueAt;
+  persistTimer = setTimeout(persistNow, delay);
+}
+
+/** Note that terminals were opened or closed and save soon. */
+function persistLayout(): void {
+  layoutDirty = true;
+  schedulePersist();
+}
+
+/**
+ * Save every open terminal one last time and stop tracking changes. Called
+ * right before the app kills its terminals on quit.
+ */
+export function persistTerminalsForQuit(): void {
+  persistNow();
+  persistenceFrozen = true;
+}
+
+/** Shell arguments that run `command` and exit with its status. */
+function oneShotArgs(shellPath: string, command: string): string[] {
+  if (process.platform !== "win32") return ["-l", "-c", command];
+  return /powershell|pwsh/i.test(shellPath) ? ["-NoLogo", "-Command", command] : ["/d", "/s", "/c", command];
+}
+
+function spawnTerminal(getMainWindow: () => BrowserWindow | null, options: SpawnTerminalOptions): TerminalEntry {
+  const pty = getPty();
+  const isWin = process.platform === "win32";
+  const shellPath = options.shell
+    || (isWin ? process.env.COMSPEC || "powershell.exe" : process.env.SHELL || "/bin/zsh");
+  const { terminalId } = options;
+  const oneShot = !!options.oneShot && !!options.command;
+
+  const ptyProcess = pty.spawn(shellPath, oneShot ? oneShotArgs(shellPath, options.command!) : options.args ?? [], {
+    name: "xterm-256color",
+    cols: options.cols,
+    rows: options.rows,
+    cwd: options.cwd || (isWin ? process.env.USERPROFILE : process.env.HOME),
+    env: { ...process.env, ...options.env, TERM: "xterm-256color", COLORTERM: "truecolor" },
+  });
+
+  const entry: TerminalEntry = {
+    pty: ptyProcess,
+    cols: options.cols,
+    rows: options.rows,
+    spaceId: options.spaceId,
+    shell: options.shell,
+    args: options.args,
+    cwd: options.cwd,
+    env: options.env,
+    command: options.command,
+    oneShot,
+    createdAt: options.createdAt,
+    history: options.preamble ? appendTerminalHistory(EMPTY_TERMINAL_HISTORY, options.preamble) : EMPTY_TERMINAL_HISTORY,
+    seq: options.preamble ? 1 : 0,
+    exited: false,
+    exitCode: null,
+    destroyed: false,
+    persisted: null,
+  };
+  terminals.set(terminalId, entry);
+
+  ptyProcess.onData((data: string) => {
+    if (entry.destroyed) return;
+    entry.history = appendTerminalHistory(entry.history, data);
+    entry.seq += 1;
+    entry.cwd = extractReportedCwd(data) ?? entry.cwd;
+    safeSend(getMainWindow, "terminal:data", { terminalId, data, seq: entry.seq });
+    if (!entry.oneShot) {
+      entry.persisted = null;
+      schedulePersist(OUTPUT_PERSIST_DEBOUNCE_MS);
+    }
+  });
+
+  ptyProcess.onExit(({ exitCode }: { exitCode: number }) => {
+    if (entry.destroyed) return;
+    log("TERMINAL", `Terminal ${terminalId.slice(0, 8)} exited with code ${exitCode}`);
+    entry.exited = true;
+    entry.exitCode = exitCode;
+    const exitNotice = "\r\n\x1b[2m[process exited]\x1b[0m\r\n";
+    entry.history = appendTerminalHistory(entry.history, exitNotice);
+    entry.seq += 1;
+    safeSend(getMainWindow, "terminal:data", {
+      terminalId,
+      data: exitNotice,
+      seq: entry.seq,
+    });
+    safeSend(getMainWindow, "terminal:exit", { terminalId, exitCode });
+  });
+
+  if (options.command && !oneShot) ptyProcess.write(options.holdCommand ? options.command : `${options.command}\r`);
+
+  log("TERMINAL", `Created terminal ${terminalId.slice(0, 8)} shell=${shellPath} cwd=${options.cwd}`);
+  return entry;
+}
+
+const HELD_COMMAND_NOTICE = "\x1b[2m── launch command not run — press Enter to run it ──\x1b[22m\r\n";
 
-function getPty() {
-  if (!ptyModule) {
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    ptyModule = require("node-pty");
+/**
+ * Re-spawn the terminals saved by the last run, replaying their scrollback
+ * dimmed above the new prompt. A saved launch command is typed at the prompt
+ * but not run, so nothing executes until the user presses Enter.
+ */
+function restorePersistedTerminals(getMainWindow: () => BrowserWindow | null): void {
+  const saved = loadTerminalSessions();
+  if (!saved) return;
+  let restored = 0;
+  for (const [spaceId, tabs] of Object.entries(saved.spaces)) {
+    for (const tab of tabs) {
+      try {
+        const preamble = [
+          tab.scrollback ? formatRestoredScrollback(tab.scrollback, saved.savedAt) : "",
+          tab.command ? HELD_COMMAND_NOTICE : "",
+        ].join("");
+        spawnTerminal(getMainWindow, {
+          ...tab,
+          spaceId,
+          preamble: preamble || undefined,
+          holdCommand: true,
+        });
+        restored++;
+      } catch (err) {
+        reportError("TERMINAL_RESTORE_ERR", err, { terminalId: tab.terminalId });
+      }
+    }
   }
-  return ptyModule!;
+  log("TERMINAL", `Restored ${restored} persisted terminal(s)`);
 }
 
 export function register(getMainWindow: () => BrowserWindow | null): void {
-  ipcMain.handle("terminal:create", (_event, { cwd, cols, rows, spaceId }: { cwd?: string; cols?: number; rows?: number; spaceId?: string } = {}) => {
+  if (getAppSetting("persistentTerminals")) restorePersistedTerminals(getMainWindow);
+
+  onSettingsChanged((settings) => {
+    if (settings.persistentTerminals) {
+      persistNow();
+      return;
+    }
+    if (persistTimer) {
+      clearTimeout(persistTimer);
+      persistTimer = null;
+    }
+    // The saved file is gone — turning persistence back on must write it again
+    layoutDirty = true;
     try {
-      const pty = getPty();
-      const isWin = process.platform === "win32";
-      const shellPath = isWin
-        ? process.env.COMSPEC || "powershell.exe"
-        : process.env.SHELL || "/bin/zsh";
-      const terminalId = crypto.randomUUID();
+      clearTerminalSessions();
+    } catch {
+      // Already reported by the store
+    }
+  });
 
-      const ptyProcess = pty.spawn(shellPath, [], {
-        name: "xterm-256color",
-        cols: cols || 80,
-        rows: rows || 24,
-        cwd: cwd || (isWin ? process.env.USERPROFILE : process.env.HOME),
-        env: { ...process.env, TERM: "xterm-256color", COLORTERM: "truecolor" },
-      });
+  ipcMain.handle("terminal:create", (_event, { cwd, cols, rows, spaceId, env, command, oneShot, profileId, profileShellOnly }: {
+    cwd?: string;
+    cols?: number;
+    rows?: number;
+    spaceId?: string;
+    env?: Record<string, string>;
+    command?: string;
+    oneShot?: boolean;
+    /** Terminal profile from app settings to fill in shell, args, env, cwd and command */
+    profileId?: string;
+    /** Take only the profile's shell, args and env (a pane split off a profile's tab) */
+    profileShellOnly?: boolean;
+  } = {}) => {
+    try {
+      const profile = profileId ? getAppSetting("terminalProfiles").find((p) => p.id === profileId) : undefined;
+      // A split pane whose profile was deleted since falls back to the default shell
+      if (profileId && !profile && !profileShellOnly) return { error: "Terminal profile not found" };
+      const launch = applyTerminalProfile(
+        profile,
+        { cwd, env, command: command?.trim() || undefined },
+        { shellOnly: profileShellOnly },
+      );
 
-      const entry: TerminalEntry = {
-        pty: ptyProcess,
+      const terminalId = crypto.randomUUID();
+      spawnTerminal(getMainWindow, {
+        terminalId,
+        ...launch,
         cols: cols || 80,
         rows: rows || 24,
         spaceId: spaceId || "default",
+        oneShot,
         createdAt: Date.now(),
-        history: EMPTY_TERMINAL_HISTORY,
-        seq: 0,
-        exited: false,
-        exitCode: null,
-        destroyed: false,
-      };
-      terminals.set(terminalId, entry);
-      void captureEvent("terminal_created");
-
-      ptyProcess.onData((data: string) => {
-        if (entry.destroyed) return;
-        entry.history = appendTerminalHistory(entry.history, data);
-        entry.seq += 1;
-        safeSend(getMainWindow, "terminal:data", { terminalId, data, seq: entry.seq });
       });
-
-      ptyProcess.onExit(({ exitCode }: { exitCode: number }) => {
-        if (entry.destroyed) return;
-        log("TERMINAL", `Terminal ${terminalId.slice(0, 8)} exited with code ${exitCode}`);
-        entry.exited = true;
-        entry.exitCode = exitCode;
-        const exitNotice = "\r\n\x1b[2m[process exited]\x1b[0m\r\n";
-        entry.history = appendTerminalHistory(entry.history, exitNotice);
-        entry.seq += 1;
-        safeSend(getMainWindow, "terminal:data", {
-          terminalId,
-          data: exitNotice,
-          seq: entry.seq,
-        });
-        safeSend(getMainWindow, "terminal:exit", { terminalId, exitCode });
-      });
-
-      log("TERMINAL", `Created terminal ${terminalId.slice(0, 8)} shell=${shellPath} cwd=${cwd}`);
+      void captureEvent("terminal_created");
+      persistLayout();
       return { terminalId };
     } catch (err) {
       const errMsg = reportError("TERMINAL_CREATE_ERR", err);
@@ -145,12 +364,31 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
       rows: term.rows,
       exited: term.exited,
       exitCode: term.exitCode,
+      cwd: term.cwd,
     };
   });
 
+  // File links in the output: resolve each printed path against the terminal's
+  // current directory and keep only the ones that are existing files.
+  ipcMain.handle("terminal:resolve-paths", async (_event, { terminalId, paths }: { terminalId: string; paths: string[] }) => {
+    const home = (process.platform === "win32" ? process.env.USERPROFILE : process.env.HOME) ?? "";
+    const base = terminals.get(terminalId)?.cwd || home;
+    const resolved = await Promise.all(paths.map(async (printed) => {
+      const expanded = printed.startsWith("~/") ? path.join(home, printed.slice(2)) : printed;
+      const absolute = path.resolve(base, expanded);
+      try {
+        return (await fs.promises.stat(absolute)).isFile() ? absolute : null;
+      } catch {
+        return null;
+      }
+    }));
+    return { paths: resolved };
+  });
+
   ipcMain.handle("terminal:list", () => {
     return {
       terminals: Array.from(terminals.entries())
+        .filter(([, term]) => !term.oneShot)
         .map(([terminalId, term]) => ({
           terminalId,
           spaceId: term.spaceId,
@@ -169,6 +407,7 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
       if (!term.exited) term.pty.kill();
       terminals.delete(terminalId);
       log("TERMINAL", `Destroyed terminal ${terminalId.slice(0, 8)}`);
+      persistLayout();
     }
     return { ok: true };
   });
@@ -181,6 +420,7 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
       terminals.delete(terminalId);
       log("TERMINAL", `Destroyed terminal ${terminalId.slice(0, 8)} for space ${spaceId}`);
     }
+    persistLayout();
     return { ok: true };
   });
 }
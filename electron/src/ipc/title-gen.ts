@@ -5,6 +5,9 @@ import { reportError } from "../lib/error-utils";
 import { gitExec } from "../lib/git-exec";
 import { getClaudeBinaryPath } from "../lib/claude-binary";
 
+/** Git's well-known hash of the empty tree. */
+const EMPTY_TREE_HASH = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
 function firstNonEmptyLine(text: string): string | undefined {
   for (const line of text.split(/\r?\n/g)) {
     const trimmed = line.trim();
@@ -17,9 +20,11 @@ interface OneShotSdkQueryOptions {
   timeoutMs?: number;
   model?: string;
   extraOptions?: Record<string, unknown>;
+  /** Return the whole reply instead of just its first line. */
+  fullText?: boolean;
 }
 
-/** Fire a one-shot SDK query and return the first-line result. */
+/** Fire a one-shot SDK query and return the first-line result (or the whole reply with `fullText`). */
 async function oneShotSdkQuery(
   prompt: string,
   cwd: string,
@@ -113,7 +118,9 @@ async function oneShotSdkQuery(
           clearTimeout(timeout);
 
           const rawResult = typeof m.result === "string" ? m.result : "";
-          const chosen = firstNonEmptyLine(rawResult) ?? firstNonEmptyLine(assistantText);
+          const chosen = options?.fullText
+            ? (rawResult.trim() || assistantText.trim() || undefined)
+            : firstNonEmptyLine(rawResult) ?? firstNonEmptyLine(assistantText);
           if (!chosen) {
             const elapsed = Date.now() - startedAt;
             log(
@@ -144,7 +151,7 @@ async function oneShotSdkQuery(
     if (timedOut) {
       return { error: `Timed out after ${timeoutMs}ms` };
     }
-    const fallback = firstNonEmptyLine(assistantText);
+    const fallback = options?.fullText ? assistantText.trim() || undefined : firstNonEmptyLine(assistantText);
     if (fallback) {
       log(logLabel, `Generated fallback elapsed_ms=${elapsed} text="${fallback}"`);
       return { result: fallback };
@@ -223,19 +230,35 @@ export function register(): void {
     cwd,
     engine,
     sessionId,
+    amend,
   }: {
     cwd: string;
     engine?: "claude" | "acp" | "codex";
     sessionId?: string; // ACP internalId when engine === "acp"
+    amend?: boolean; // describe HEAD together with what's staged on top of it
   }) => {
     try {
       let diff = "";
-      let diffSource: "staged" | "working" | "status" | "none" = "none";
-      try {
-        diff = (await gitExec(["diff", "--staged"], cwd)).trim();
-        if (diff) diffSource = "staged";
-      } catch {
-        diff = "";
+      let diffSource: "amend" | "staged" | "working" | "status" | "none" = "none";
+      if (amend) {
+        try {
+          // Index against HEAD's parent — the empty tree for a root commit
+          const parent = await gitExec(["rev-parse", "--verify", "-q", "HEAD~1"], cwd)
+            .then((out) => out.trim())
+            .catch(() => EMPTY_TREE_HASH);
+          diff = (await gitExec(["diff", "--staged", parent], cwd)).trim();
+          if (diff) diffSource = "amend";
+        } catch {
+          diff = "";
+        }
+      }
+      if (!diff) {
+        try {
+          diff = (await gitExec(["diff", "--staged"], cwd)).trim();
+          if (diff) diffSource = "staged";
+        } catch {
+          diff = "";
+        }
       }
       if (!diff) {
         try {
@@ -313,4 +336,73 @@ export function register(): void {
       return { error: errMsg };
     }
   });
+
+  ipcMain.handle("git:generate-release-notes", async (_event, {
+    cwd,
+    target,
+    engine,
+    sessionId,
+  }: {
+    cwd: string;
+    target?: string; // tag or commit the notes end at; HEAD when omitted
+    engine?: "claude" | "acp" | "codex";
+    sessionId?: string; // ACP internalId when engine === "acp"
+  }) => {
+    try {
+      const to = target?.trim() || "HEAD";
+      if (to.startsWith("-")) return { error: `Invalid ref: "${to}"` };
+      // Previous tag reachable from the target's parent, so a tagged target doesn't find itself
+      const from = await gitExec(["describe", "--tags", "--abbrev=0", `${to}^`], cwd)
+        .then((out) => out.trim() || undefined)
+        .catch(() => undefined);
+      const range = from ? `${from}..${to}` : to;
+      const commits = (await gitExec(["log", "--no-merges", "--max-count=500", "--format=- %s (%h)%n%w(0,2,2)%b", range], cwd))
+        .split("\n")
+        .filter((line) => line.trim())
+        .join("\n");
+      const commitCount = commits.split("\n").filter((line) => line.startsWith("- ")).length;
+      if (commitCount === 0) return { error: from ? `No commits since ${from}` : "No commits to describe" };
+
+      const maxChars = 200000;
+      const truncated = commits.length > maxChars ? commits.slice(0, maxChars) + "\n... (truncated)" : commits;
+
+      const prompt = `Write release notes for ${to === "HEAD" ? "the next release" : to}${from ? ` (changes since ${from})` : ""} from the commits below. Group related changes under Markdown headings such as Features, Fixes, Improvements and Internal, drop headings that would be empty, and write each entry as a short user-facing bullet. Reply with ONLY the release notes in Markdown, nothing else.\n\n${truncated}`;
+
+      log("RELEASE_NOTES_GEN", `engine=${engine ?? "claude"} from=${from ?? "none"} to=${to} commits=${commitCount} cwd=${cwd}`);
+
+      let notes: string | undefined;
+      let error: string | undefined;
+      if (engine === "acp" && sessionId) {
+        try {
+          const { acpUtilityPrompt } = await import("../lib/acp-utility-prompt");
+          notes = (await acpUtilityPrompt(sessionId, prompt, 120000)).trim();
+        } catch (err) {
+          error = reportError("RELEASE_NOTES_GEN_ERR", err, { engine: "acp" });
+        }
+      } else if (engine === "codex") {
+        try {
+          const { getCodexSessionModel } = await import("./codex-sessions");
+          const preferredModel = sessionId ? getCodexSessionModel(sessionId) : undefined;
+          const { codexUtilityPrompt } = await import("../lib/codex-utility-prompt");
+          notes = (await codexUtilityPrompt(prompt, cwd, "RELEASE_NOTES_GEN", {
+            timeoutMs: 120000,
+            model: preferredModel,
+          })).trim();
+        } catch (err) {
+          error = reportError("RELEASE_NOTES_GEN_ERR", err, { engine: "codex" });
+        }
+      } else {
+        ({ result: notes, error } = await oneShotSdkQuery(prompt, cwd, "RELEASE_NOTES_GEN", {
+          timeoutMs: 120000,
+          model: "haiku",
+          fullText: true,
+        }));
+      }
+      if (!notes) return { error: error ?? "empty result" };
+      return { notes, from, to, commitCount };
+    } catch (err) {
+      const errMsg = reportError("RELEASE_NOTES_GEN_ERR", err, { context: "spawn" });
+      return { error: errMsg };
+    }
+  });
 }
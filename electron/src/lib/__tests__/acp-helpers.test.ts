@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { truncateToByteLimit } from "@shared/lib/acp-helpers";
+
+describe("acp terminal helpers", () => {
+  it("keeps the tail of output within the byte limit", () => {
+    expect(truncateToByteLimit("hello", null)).toEqual({ output: "hello", truncated: false });
+    expect(truncateToByteLimit("hello", 5)).toEqual({ output: "hello", truncated: false });
+    expect(truncateToByteLimit("hello world", 5)).toEqual({ output: "world", truncated: true });
+  });
+
+  it("never cuts a multi-byte character in half", () => {
+    // "é" is two bytes — a 3-byte tail would start on its continuation byte
+    expect(truncateToByteLimit("aéb", 3)).toEqual({ output: "éb", truncated: true });
+    expect(truncateToByteLimit("aéb", 2)).toEqual({ output: "b", truncated: true });
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { parseGitProgress } from "../git-exec";
+
+describe("git progress parsing", () => {
+  it("reads phases and percentages from local and remote progress", () => {
+    expect(parseGitProgress("Writing objects:  45% (9/20), 1.20 KiB | 1.20 MiB/s")).toEqual({ phase: "Writing objects", percent: 45 });
+    expect(parseGitProgress("remote: Compressing objects: 100% (3/3), done.")).toEqual({ phase: "Compressing objects", percent: 100 });
+    expect(parseGitProgress("Enumerating objects: 5, done.")).toEqual({ phase: "Enumerating objects" });
+  });
+
+  it("leaves ref updates and errors alone", () => {
+    expect(parseGitProgress("To github.com:org/repo.git")).toBeNull();
+    expect(parseGitProgress("   a1b2c3d..e4f5a6b  main -> main")).toBeNull();
+    expect(parseGitProgress("fatal: Authentication failed for 'https://example.com/repo.git/'")).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import type { GitRewriteAction } from "@shared/types/git";
+import { buildRebaseTodo, validateRewritePlan } from "../git-rewrite";
+
+describe("git rewrite plan", () => {
+  const range = ["aaa1111", "bbb2222", "ccc3333"];
+
+  it("accepts a reorder that keeps every commit", () => {
+    const steps = [
+      { hash: "aaa1111", action: "pick" as const },
+      { hash: "ccc3333", action: "pick" as const },
+      { hash: "bbb2222", action: "fixup" as const },
+    ];
+    expect(validateRewritePlan(steps, range)).toBeNull();
+    expect(buildRebaseTodo(steps)).toBe("pick aaa1111\npick ccc3333\nfixup bbb2222\n");
+  });
+
+  it("rejects plans that would drop, repeat or lead with a squash", () => {
+    expect(validateRewritePlan([{ hash: "aaa1111", action: "pick" }, { hash: "bbb2222", action: "squash" }], range))
+      .toMatch(/every commit/);
+    expect(validateRewritePlan([
+      { hash: "aaa1111", action: "pick" },
+      { hash: "aaa1111", action: "squash" },
+      { hash: "ccc3333", action: "pick" },
+    ], range)).toMatch(/twice/);
+    expect(validateRewritePlan([
+      { hash: "bbb2222", action: "squash" },
+      { hash: "aaa1111", action: "pick" },
+      { hash: "ccc3333", action: "pick" },
+    ], range)).toMatch(/first commit/);
+  });
+
+  it("rejects todo commands outside pick/squash/fixup", () => {
+    const steps = [
+      { hash: "aaa1111", action: "pick" as const },
+      { hash: "bbb2222", action: "exec" as GitRewriteAction },
+      { hash: "ccc3333", action: "pick" as const },
+    ];
+    expect(validateRewritePlan(steps, range)).toMatch(/Unsupported rewrite action: exec/);
+    expect(() => buildRebaseTodo(steps)).toThrow(/exec/);
+    expect(() => buildRebaseTodo([{ hash: "aaa1111\nexec rm -rf ~", action: "pick" }])).toThrow(/Invalid commit hash/);
+  });
+});
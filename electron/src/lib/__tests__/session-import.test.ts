@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { normalizeImportedSession } from "@shared/lib/session-persistence";
+import { getJsonlSessionInfo, parseJsonlToUIMessages } from "../cc-jsonl";
+
+describe("session import", () => {
+  it("migrates a Harnss session from another data dir", () => {
+    const result = normalizeImportedSession({
+      id: "abc",
+      projectId: "their-project",
+      folderId: "their-folder",
+      pinned: true,
+      createdAt: 100,
+      engine: "codex",
+      codexThreadId: "thread-1",
+      messages: [
+        { id: "m1", role: "user", content: "hi", timestamp: 110 },
+        { role: "assistant", content: "hello", isStreaming: true, thinking: "hmm" },
+        { id: "m3", role: "user", content: "later", isQueued: true, timestamp: 120 },
+        { id: "m4", role: "bogus", content: "?", timestamp: 130 },
+        { id: "m5", role: "tool_call", content: null, toolName: "Task", subagentStatus: "running", timestamp: 140 },
+      ],
+    });
+
+    expect("error" in result).toBe(false);
+    if ("error" in result) return;
+    expect(result.session).toEqual({
+      id: "abc",
+      title: "Imported Chat",
+      createdAt: 100,
+      totalCost: 0,
+      engine: "codex",
+      codexThreadId: "thread-1",
+    });
+    expect(result.messages.map((m) => m.id)).toEqual(["m1", "imported-1", "m5"]);
+    expect(result.messages[1]).toMatchObject({ timestamp: 100, isStreaming: false, thinkingComplete: true });
+    expect(result.messages[2]).toMatchObject({ content: "", subagentStatus: "completed" });
+  });
+
+  it("keeps only known fields of the expected types", () => {
+    const result = normalizeImportedSession({
+      id: "abc",
+      engine: "claude",
+      model: 42,
+      hasUnreadCompletion: true,
+      messages: [{
+        id: "m1",
+        role: "tool_call",
+        content: "",
+        timestamp: 5,
+        toolName: "Bash",
+        toolInput: "rm -rf /",
+        toolError: "yes",
+        budgetPause: { interrupted: true },
+        subagentSteps: [{ toolName: "Read", toolUseId: "t1", toolInput: { path: "a" } }, { toolName: 3 }],
+        images: [{ data: "AAAA", mediaType: "text/html" }],
+      }],
+    });
+
+    expect("error" in result).toBe(false);
+    if ("error" in result) return;
+    expect(result.session).toEqual({ id: "abc", title: "Imported Chat", createdAt: 5, totalCost: 0, engine: "claude" });
+    expect(result.messages).toEqual([{
+      id: "m1",
+      role: "tool_call",
+      content: "",
+      timestamp: 5,
+      toolName: "Bash",
+      subagentSteps: [{ toolName: "Read", toolUseId: "t1", toolInput: { path: "a" } }],
+    }]);
+  });
+
+  it("rejects files that are not sessions", () => {
+    expect(normalizeImportedSession([])).toEqual({ error: "Not a Harnss session file." });
+    expect(normalizeImportedSession({ title: "x" })).toEqual({ error: "Session file has no messages." });
+    expect(normalizeImportedSession({ messages: [{ role: "nope" }] }))
+      .toEqual({ error: "Session file has no readable messages." });
+  });
+
+  it("reads Claude Code transcripts", () => {
+    const jsonl = [
+      { type: "user", uuid: "u1", sessionId: "cc-1", cwd: "/work", timestamp: "2026-01-01T00:00:00Z", message: { content: "fix it" } },
+      { type: "assistant", uuid: "a1", message: { model: "claude-sonnet", content: [{ type: "text", text: "done" }] } },
+      { type: "user", isSidechain: true, message: { content: "subagent" } },
+    ].map((line) => JSON.stringify(line)).join("\n");
+
+    expect(getJsonlSessionInfo(jsonl)).toEqual({ sessionId: "cc-1", model: "claude-sonnet", cwd: "/work" });
+    expect(parseJsonlToUIMessages(jsonl).map((m) => [m.role, m.content])).toEqual([
+      ["user", "fix it"],
+      ["assistant", "done"],
+    ]);
+  });
+});
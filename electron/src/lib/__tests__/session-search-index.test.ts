@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  ProjectSearchIndex,
+  tokenize,
+  type IndexableSession,
+} from "../session-search-index";
+
+function makeSession(overrides: Partial<IndexableSession> = {}): IndexableSession {
+  return {
+    id: "s1",
+    title: "Refactor auth flow",
+    createdAt: 1_000,
+    lastMessageAt: 5_000,
+    engine: "claude",
+    model: "claude-sonnet",
+    branch: "main",
+    messages: [
+      { id: "u1", role: "user", content: "Please fix the login redirect", timestamp: 1_000 },
+      {
+        id: "a1",
+        role: "assistant",
+        content: "Looking at the redirect handler now",
+        thinking: "The oauth callback probably drops the state parameter",
+        timestamp: 2_000,
+      },
+      {
+        id: "t1",
+        role: "tool_call",
+        content: "",
+        toolName: "Bash",
+        toolInput: { command: "grep -rn redirectUri src" },
+        toolResult: { stdout: "src/auth/callback.ts:12: const redirectUri = buildUri()" },
+        timestamp: 3_000,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("session search index", () => {
+  it("tokenizes on word boundaries and lowercases", () => {
+    expect(tokenize("Fix the Login-redirect, v2_beta!")).toEqual(["fix", "the", "login", "redirect", "v2_beta"]);
+  });
+
+  it("indexes thinking, tool inputs and tool output as separate roles", () => {
+    const index = new ProjectSearchIndex();
+    index.upsert(makeSession());
+
+    expect(index.searchMessages(["oauth"]).map((h) => h.role)).toEqual(["thinking"]);
+    expect(index.searchMessages(["grep"]).map((h) => h.role)).toEqual(["tool_call"]);
+    expect(index.searchMessages(["callback", "ts"]).map((h) => h.role)).toEqual(["tool_result"]);
+  });
+
+  it("requires every term and treats the last one as a prefix", () => {
+    const index = new ProjectSearchIndex();
+    index.upsert(makeSession());
+
+    expect(index.searchMessages(["login", "redir"]).map((h) => h.messageId)).toEqual(["u1"]);
+    expect(index.searchMessages(["login", "handler"])).toEqual([]);
+  });
+
+  it("applies role, date and session filters", () => {
+    const index = new ProjectSearchIndex();
+    index.upsert(makeSession());
+    index.upsert(makeSession({
+      id: "s2",
+      engine: "codex",
+      branch: "feature/x",
+      messages: [{ id: "u2", role: "user", content: "redirect loop on logout", timestamp: 9_000 }],
+    }));
+
+    expect(index.searchMessages(["redirect"], { roles: ["user"] }).map((h) => h.messageId).sort()).toEqual(["u1", "u2"]);
+    expect(index.searchMessages(["redirect"], { engines: ["codex"] }).map((h) => h.messageId)).toEqual(["u2"]);
+    expect(index.searchMessages(["redirect"], { branches: ["main"], dateFrom: 1_500, dateTo: 2_500 }).map((h) => h.messageId)).toEqual(["a1"]);
+    expect(index.facets().branches.sort()).toEqual(["feature/x", "main"]);
+  });
+
+  it("ranks denser matches higher and highlights them in the snippet", () => {
+    const index = new ProjectSearchIndex();
+    index.upsert(makeSession({
+      messages: [
+        { id: "m1", role: "user", content: "cache cache cache invalidation", timestamp: 1 },
+        { id: "m2", role: "user", content: "the cache is one small part of a much longer message about other things", timestamp: 2 },
+      ],
+    }));
+
+    const hits = index.searchMessages(["cache"]).sort((a, b) => b.score - a.score);
+    expect(hits.map((h) => h.messageId)).toEqual(["m1", "m2"]);
+    expect(hits[0].highlights[0]).toEqual([0, 5]);
+  });
+
+  it("replaces a session on re-index and survives a serialization round trip", () => {
+    const index = new ProjectSearchIndex();
+    index.upsert(makeSession());
+    index.upsert(makeSession({
+      messages: [{ id: "u9", role: "user", content: "completely different topic", timestamp: 1 }],
+    }), 42);
+
+    expect(index.searchMessages(["redirect"])).toEqual([]);
+
+    const restored = ProjectSearchIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+    expect(restored.getMtime("s1")).toBe(42);
+    expect(restored.searchMessages(["topic"]).map((h) => h.messageId)).toEqual(["u9"]);
+
+    restored.remove("s1");
+    expect(restored.size).toBe(0);
+    expect(restored.toJSON().postings).toEqual({});
+  });
+
+  it("reports whether a re-index changed anything", () => {
+    const index = new ProjectSearchIndex();
+    expect(index.upsert(makeSession(), 1)).toBe(true);
+    expect(index.upsert(makeSession(), 2)).toBe(false);
+    expect(index.getMtime("s1")).toBe(2);
+    expect(index.upsert(makeSession({ title: "Renamed" }), 3)).toBe(true);
+    expect(index.upsert(makeSession({ title: "Renamed", messages: [] }), 4)).toBe(true);
+  });
+
+  it("keeps prototype-named tokens through serialization", () => {
+    const index = new ProjectSearchIndex();
+    index.upsert(makeSession({
+      messages: [{ id: "u1", role: "user", content: "why does __proto__ constructor break", timestamp: 1 }],
+    }));
+
+    const restored = ProjectSearchIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+    expect(restored.searchMessages(["__proto__"]).map((h) => h.messageId)).toEqual(["u1"]);
+    expect(restored.searchMessages(["constructor"]).map((h) => h.messageId)).toEqual(["u1"]);
+  });
+
+  it("matches session titles and reflects metadata edits", () => {
+    const index = new ProjectSearchIndex();
+    index.upsert(makeSession());
+
+    expect(index.searchSessions(["auth"]).map((s) => s.sessionId)).toEqual(["s1"]);
+    index.updateMeta("s1", { title: "Billing cleanup", folderId: "f1" });
+    expect(index.searchSessions(["auth"])).toEqual([]);
+    expect(index.searchSessions(["bill"], { folderIds: ["f1"] }).map((s) => s.title)).toEqual(["Billing cleanup"]);
+  });
+});
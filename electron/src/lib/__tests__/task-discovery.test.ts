@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { parseJustfileRecipes, parseMakefileTargets, parsePackageScripts, shellArg } from "../task-discovery";
+
+describe("task discovery", () => {
+  it("lists package.json scripts through the detected package manager", () => {
+    const json = JSON.stringify({ scripts: { prebuild: "rm -rf dist", build: "tsc", "test:watch": "vitest", precommit: "lint-staged" } });
+    const tasks = parsePackageScripts(json, "pnpm");
+
+    expect(tasks.map((task) => task.name)).toEqual(["build", "test:watch", "precommit"]);
+    expect(tasks[0]).toMatchObject({ id: "npm:build", command: "pnpm run build", detail: "tsc" });
+    expect(parsePackageScripts("not json")).toEqual([]);
+  });
+
+  it("quotes task names for the platform's shell", () => {
+    expect(shellArg("test:watch", "linux")).toBe("test:watch");
+    expect(shellArg("say $HOME it's", "darwin")).toBe("'say $HOME it'\\''s'");
+    expect(shellArg('say "hi" %PATH%', "win32")).toBe('"say ""hi"" %PATH%"');
+  });
+
+  it("reads explicit Makefile targets and their ## docs", () => {
+    const makefile = [
+      "CC := gcc",
+      ".PHONY: build test",
+      "## Compile everything",
+      "build: deps",
+      "\t$(CC) main.c",
+      "test lint: build ## Run checks",
+      "%.o: %.c",
+      "\t$(CC) -c $<",
+    ].join("\n");
+
+    expect(parseMakefileTargets(makefile)).toEqual([
+      { id: "make:build", source: "make", name: "build", command: "make build", detail: "Compile everything" },
+      { id: "make:test", source: "make", name: "test", command: "make test", detail: "Run checks" },
+      { id: "make:lint", source: "make", name: "lint", command: "make lint", detail: "Run checks" },
+    ]);
+  });
+
+  it("reads public justfile recipes and skips private ones and settings", () => {
+    const justfile = [
+      "set shell := [\"bash\", \"-c\"]",
+      "version := \"1.0\"",
+      "# Start the dev server",
+      "serve port=\"8000\":",
+      "  python -m http.server {{port}}",
+      "_helper:",
+      "  echo hidden",
+      "[private]",
+      "secret:",
+      "  echo hidden",
+      "@test: build",
+      "  cargo test",
+    ].join("\n");
+
+    const tasks = parseJustfileRecipes(justfile);
+    expect(tasks.map((task) => task.name)).toEqual(["serve", "test"]);
+    expect(tasks[0]).toMatchObject({ command: "just serve", detail: "Start the dev server" });
+  });
+});
@@ -2,6 +2,8 @@ import { describe, expect, it } from "vitest";
 import {
   appendTerminalHistory,
   EMPTY_TERMINAL_HISTORY,
+  extractReportedCwd,
+  formatRestoredScrollback,
   readTerminalHistory,
 } from "../terminal-history";
 
@@ -24,3 +26,20 @@ describe("terminal history", () => {
     expect(readTerminalHistory(history)).toBe("defg");
   });
 });
+
+describe("restored scrollback", () => {
+  it("dims plain lines and drops escapes and overwritten progress", () => {
+    const out = formatRestoredScrollback("\x1b[32m$ ls\x1b[0m\r\nsrc\r\n10%\r50%\r100%\r\n\r\n", 0);
+    const lines = out.split("\r\n");
+
+    expect(lines.slice(0, 3)).toEqual(["\x1b[2m$ ls\x1b[22m", "\x1b[2msrc\x1b[22m", "\x1b[2m100%\x1b[22m"]);
+    expect(lines[3]).toContain("restored session");
+  });
+
+  it("reads the latest cwd reported via OSC 7", () => {
+    const data = "\x1b]7;file://host/tmp\x07prompt\x1b]7;file://host/Users/me/my%20app\x1b\\";
+
+    expect(extractReportedCwd(data)).toBe("/Users/me/my app");
+    expect(extractReportedCwd("no escapes")).toBeNull();
+  });
+});
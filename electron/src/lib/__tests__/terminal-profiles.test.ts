@@ -0,0 +1,47 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { applyTerminalProfile } from "../terminal-profiles";
+
+describe("terminal profiles", () => {
+  const profile = {
+    id: "web",
+    name: "Web",
+    shell: "/bin/bash",
+    args: ["--login"],
+    env: { NODE_ENV: "development", PORT: "3000" },
+    cwd: "packages/web",
+    command: "npm run dev",
+  };
+
+  it("fills the launch in from the profile, resolving its cwd against the project root", () => {
+    expect(applyTerminalProfile(profile, { cwd: "/repo" })).toEqual({
+      shell: "/bin/bash",
+      args: ["--login"],
+      cwd: path.resolve("/repo", "packages/web"),
+      env: { NODE_ENV: "development", PORT: "3000" },
+      command: "npm run dev",
+    });
+  });
+
+  it("lets explicit request values win over the profile", () => {
+    const launch = applyTerminalProfile(profile, { cwd: "/repo", env: { PORT: "4000" }, command: "npm test" });
+
+    expect(launch.env).toEqual({ NODE_ENV: "development", PORT: "4000" });
+    expect(launch.command).toBe("npm test");
+  });
+
+  it("takes only the shell, args and env for split panes", () => {
+    expect(applyTerminalProfile(profile, { cwd: "/repo/packages/web/src" }, { shellOnly: true })).toEqual({
+      shell: "/bin/bash",
+      args: ["--login"],
+      cwd: "/repo/packages/web/src",
+      env: { NODE_ENV: "development", PORT: "3000" },
+      command: undefined,
+    });
+  });
+
+  it("passes the request through untouched without a profile", () => {
+    const request = { cwd: "/repo", command: "ls" };
+    expect(applyTerminalProfile(undefined, request)).toBe(request);
+  });
+});
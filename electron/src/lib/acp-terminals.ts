@@ -0,0 +1,165 @@
+/**
+ * ACP client terminals — backs the agent-facing `terminal/*` methods with
+ * node-pty processes owned by a Harnss ACP session.
+ *
+ * Unlike the Terminal panel's interactive shells, each terminal runs exactly one
+ * command. Output is retained (up to the agent's byte limit, or a default one)
+ * so the agent can poll it, and every chunk is also forwarded to the renderer
+ * for the tool card.
+ */
+
+import crypto from "crypto";
+import os from "os";
+import { getPty, type PtyProcess } from "./pty";
+import { log } from "./logger";
+import { truncateToByteLimit } from "@shared/lib/acp-helpers";
+
+export interface AcpTerminalExitStatus {
+  exitCode: number | null;
+  signal: string | null;
+}
+
+export interface AcpCreateTerminalParams {
+  command: string;
+  args?: string[];
+  cwd?: string | null;
+  env?: Array<{ name: string; value: string }>;
+  outputByteLimit?: number | null;
+}
+
+interface AcpTerminalEntry {
+  /** Internal Harnss ACP session id that owns this terminal. */
+  ownerId: string;
+  pty: PtyProcess;
+  /** Output tail as received; trimmed to the byte limit when read. */
+  chunks: string[];
+  outputBytes: number;
+  truncated: boolean;
+  outputByteLimit: number;
+  exitStatus: AcpTerminalExitStatus | null;
+  exitWaiters: Array<(status: AcpTerminalExitStatus) => void>;
+}
+
+export interface AcpTerminalCallbacks {
+  onData: (terminalId: string, data: string) => void;
+}
+
+/** Output kept for agents that don't set an `outputByteLimit`. */
+const DEFAULT_OUTPUT_BYTE_LIMIT = 1024 * 1024;
+
+const acpTerminals = new Map<string, AcpTerminalEntry>();
+
+/** Append a chunk, dropping leading chunks that lie wholly outside the byte limit. */
+function appendOutput(entry: AcpTerminalEntry, data: string): void {
+  entry.chunks.push(data);
+  entry.outputBytes += Buffer.byteLength(data);
+  while (entry.chunks.length > 1) {
+    const headBytes = Buffer.byteLength(entry.chunks[0]);
+    if (entry.outputBytes - headBytes < entry.outputByteLimit) break;
+    entry.chunks.shift();
+    entry.outputBytes -= headBytes;
+    entry.truncated = true;
+  }
+}
+
+function signalName(signal: number | undefined): string | null {
+  if (!signal) return null;
+  const match = Object.entries(os.constants.signals).find(([, value]) => value === signal);
+  return match?.[0] ?? String(signal);
+}
+
+function getOwnedTerminal(ownerId: string, terminalId: string): AcpTerminalEntry {
+  const entry = acpTerminals.get(terminalId);
+  if (!entry || entry.ownerId !== ownerId) throw new Error(`Unknown terminal: ${terminalId}`);
+  return entry;
+}
+
+export function createAcpTerminal(
+  ownerId: string,
+  params: AcpCreateTerminalParams,
+  callbacks: AcpTerminalCallbacks,
+): string {
+  const terminalId = `acp-term-${crypto.randomUUID()}`;
+  const env: Record<string, string | undefined> = { ...process.env, TERM: "xterm-256color", COLORTERM: "truecolor" };
+  for (const variable of params.env ?? []) env[variable.name] = variable.value;
+
+  const pty = getPty().spawn(params.command, params.args ?? [], {
+    name: "xterm-256color",
+    cols: 120,
+    rows: 30,
+    cwd: params.cwd || process.cwd(),
+    env,
+  });
+
+  const entry: AcpTerminalEntry = {
+    ownerId,
+    pty,
+    chunks: [],
+    outputBytes: 0,
+    truncated: false,
+    outputByteLimit: params.outputByteLimit ?? DEFAULT_OUTPUT_BYTE_LIMIT,
+    exitStatus: null,
+    exitWaiters: [],
+  };
+  acpTerminals.set(terminalId, entry);
+
+  pty.onData((data: string) => {
+    appendOutput(entry, data);
+    callbacks.onData(terminalId, data);
+  });
+
+  pty.onExit(({ exitCode, signal }: { exitCode: number; signal?: number }) => {
+    const status: AcpTerminalExitStatus = { exitCode, signal: signalName(signal) };
+    entry.exitStatus = status;
+    log("ACP_TERMINAL", `${terminalId.slice(9, 17)} exited code=${exitCode} signal=${status.signal ?? ""}`);
+    for (const resolve of entry.exitWaiters) resolve(status);
+    entry.exitWaiters = [];
+  });
+
+  log(
+    "ACP_TERMINAL",
+    `Created ${terminalId.slice(9, 17)} for session=${ownerId.slice(0, 8)} cmd=${[params.command, ...(params.args ?? [])].join(" ").slice(0, 200)} cwd=${params.cwd ?? ""}`,
+  );
+  return terminalId;
+}
+
+export function getAcpTerminalOutput(
+  ownerId: string,
+  terminalId: string,
+): { output: string; truncated: boolean; exitStatus: AcpTerminalExitStatus | null } {
+  const entry = getOwnedTerminal(ownerId, terminalId);
+  const tail = truncateToByteLimit(entry.chunks.join(""), entry.outputByteLimit);
+  // Keep the trimmed tail so the next read starts from it
+  entry.chunks = tail.output ? [tail.output] : [];
+  entry.outputBytes = Buffer.byteLength(tail.output);
+  entry.truncated = entry.truncated || tail.truncated;
+  return { output: tail.output, truncated: entry.truncated, exitStatus: entry.exitStatus };
+}
+
+export function waitForAcpTerminalExit(ownerId: string, terminalId: string): Promise<AcpTerminalExitStatus> {
+  const entry = getOwnedTerminal(ownerId, terminalId);
+  if (entry.exitStatus) return Promise.resolve(entry.exitStatus);
+  return new Promise((resolve) => entry.exitWaiters.push(resolve));
+}
+
+/** Kill the command but keep the terminal (and its output) queryable. */
+export function killAcpTerminal(ownerId: string, terminalId: string): void {
+  const entry = getOwnedTerminal(ownerId, terminalId);
+  if (!entry.exitStatus) {
+    try { entry.pty.kill(); } catch { /* already dead */ }
+  }
+}
+
+/** Kill the command if still running and forget the terminal. */
+export function releaseAcpTerminal(ownerId: string, terminalId: string): void {
+  killAcpTerminal(ownerId, terminalId);
+  acpTerminals.delete(terminalId);
+  log("ACP_TERMINAL", `Released ${terminalId.slice(9, 17)}`);
+}
+
+/** Release every terminal an ACP session still holds (session stop / agent exit). */
+export function releaseAcpTerminalsForSession(ownerId: string): void {
+  for (const [terminalId, entry] of acpTerminals) {
+    if (entry.ownerId === ownerId) releaseAcpTerminal(ownerId, terminalId);
+  }
+}
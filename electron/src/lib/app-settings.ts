@@ -14,7 +14,7 @@ import { getDataDir } from "./data-dir";
 import type { AppSettings, NotificationSettings } from "@shared/types/settings";
 
 // Re-export shared types so existing `import from "./app-settings"` consumers still work
-export type { AppSettings, MacBackgroundEffect, PreferredEditor, VoiceDictationMode, NotificationTrigger, NotificationEventSettings, NotificationSettings, CodexBinarySource, ClaudeBinarySource } from "@shared/types/settings";
+export type { AppSettings, MacBackgroundEffect, PreferredEditor, VoiceDictationMode, NotificationTrigger, NotificationEventSettings, NotificationSettings, CodexBinarySource, ClaudeBinarySource, TerminalProfile } from "@shared/types/settings";
 
 const NOTIFICATION_DEFAULTS: NotificationSettings = {
   exitPlanMode: { osNotification: "unfocused", sound: "always" },
@@ -36,6 +36,9 @@ const DEFAULTS: AppSettings = {
   claudeCustomBinaryPath: "",
   showDevFillInChatTitleBar: false,
   showJiraBoard: false,
+  persistentTerminals: false,
+  terminalProfiles: [],
+  defaultTerminalProfiles: {},
   macBackgroundEffect: "liquid-glass",
   analyticsEnabled: true,
 };
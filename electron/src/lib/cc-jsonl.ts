@@ -0,0 +1,173 @@
+/**
+ * Claude Code transcript helpers — locating a project's `.jsonl` session files
+ * and converting them into Harnss UI messages.
+ */
+
+import path from "path";
+import crypto from "crypto";
+import os from "os";
+
+export interface ImportedUIMessage {
+  id: string;
+  role: string;
+  content: string;
+  thinking?: string;
+  thinkingComplete?: boolean;
+  isStreaming?: boolean;
+  timestamp: number;
+  toolName?: string;
+  toolInput?: unknown;
+  toolResult?: unknown;
+  subagentSteps?: unknown[];
+  subagentStatus?: string;
+}
+
+/** Claude Code keeps a project's transcripts under `~/.claude/projects/<path with / → ->`. */
+export function getCCProjectDir(projectPath: string): string {
+  const hash = projectPath.replace(/\//g, "-");
+  return path.join(os.homedir(), ".claude", "projects", hash);
+}
+
+/** Convert a Claude Code `.jsonl` transcript (main thread only) into UI messages. */
+export function parseJsonlToUIMessages(content: string): ImportedUIMessage[] {
+  const lines = content.split("\n").filter((l) => l.trim());
+  const parsed: Array<Record<string, unknown>> = [];
+
+  for (const line of lines) {
+    try {
+      parsed.push(JSON.parse(line));
+    } catch {
+      continue;
+    }
+  }
+
+  const mainThread = parsed.filter((msg) => {
+    if (msg.isSidechain) return false;
+    if (msg.isMeta) return false;
+    if (msg.type !== "user" && msg.type !== "assistant") return false;
+    return true;
+  });
+
+  const uiMessages: ImportedUIMessage[] = [];
+  let pendingThinking: { thinking: string; uuid: string } | null = null;
+
+  for (const msg of mainThread) {
+    const ts = msg.timestamp ? new Date(msg.timestamp as string).getTime() : Date.now();
+    const message = msg.message as Record<string, unknown> | undefined;
+
+    if (msg.type === "user") {
+      pendingThinking = null;
+      const msgContent = message?.content;
+
+      if (typeof msgContent === "string" && msgContent.trim()) {
+        uiMessages.push({
+          id: `imported-user-${(msg.uuid as string) || crypto.randomUUID()}`,
+          role: "user",
+          content: msgContent,
+          timestamp: ts,
+        });
+      } else if (Array.isArray(msgContent)) {
+        for (const item of msgContent) {
+          if (item.type === "tool_result") {
+            const resultContent =
+              typeof item.content === "string"
+                ? item.content
+                : Array.isArray(item.content)
+                  ? item.content.map((c: { text?: string }) => c.text || "").join("\n")
+                  : "";
+
+            const rawResult = (msg.toolUseResult || msg.tool_use_result) as Record<string, unknown> | undefined;
+            const toolResult = rawResult
+              ? { ...rawResult }
+              : { stdout: resultContent };
+            const isError = !!item.is_error;
+            const toolUseId = item.tool_use_id as string | undefined;
+
+            // Link result back to matching tool_call so UI shows completed state
+            if (toolUseId) {
+              const toolCallMsg = uiMessages.find(
+                (m) => m.id === `tool-${toolUseId}` && m.role === "tool_call",
+              );
+              if (toolCallMsg) {
+                toolCallMsg.toolResult = toolResult;
+                if (isError) (toolCallMsg as ImportedUIMessage & { toolError?: boolean }).toolError = true;
+              }
+            }
+
+            uiMessages.push({
+              id: `imported-result-${(msg.uuid as string) || crypto.randomUUID()}-${toolUseId || ""}`,
+              role: "tool_result",
+              content: resultContent,
+              toolResult,
+              timestamp: ts,
+            });
+          }
+        }
+      }
+    } else if (msg.type === "assistant") {
+      const blocks = (message?.content as Array<Record<string, unknown>>) || [];
+
+      for (const block of blocks) {
+        if (block.type === "thinking") {
+          pendingThinking = { thinking: block.thinking as string, uuid: msg.uuid as string };
+        } else if (block.type === "text" && (block.text as string)?.trim()) {
+          uiMessages.push({
+            id: `imported-assistant-${(msg.uuid as string) || crypto.randomUUID()}`,
+            role: "assistant",
+            content: block.text as string,
+            thinking: pendingThinking?.thinking || undefined,
+            thinkingComplete: pendingThinking ? true : undefined,
+            isStreaming: false,
+            timestamp: ts,
+          });
+          pendingThinking = null;
+        } else if (block.type === "tool_use") {
+          if (pendingThinking) {
+            uiMessages.push({
+              id: `imported-thinking-${pendingThinking.uuid || crypto.randomUUID()}`,
+              role: "assistant",
+              content: "",
+              thinking: pendingThinking.thinking,
+              thinkingComplete: true,
+              isStreaming: false,
+              timestamp: ts,
+            });
+            pendingThinking = null;
+          }
+
+          const isTask = block.name === "Task";
+          uiMessages.push({
+            id: `tool-${block.id}`,
+            role: "tool_call",
+            content: "",
+            toolName: block.name as string,
+            toolInput: block.input,
+            timestamp: ts,
+            ...(isTask ? { subagentSteps: [], subagentStatus: "completed" } : {}),
+          });
+        }
+      }
+    }
+  }
+
+  return uiMessages;
+}
+
+/** Session id, model and working directory recorded in a Claude Code transcript. */
+export function getJsonlSessionInfo(content: string): { sessionId?: string; model?: string; cwd?: string } {
+  const info: { sessionId?: string; model?: string; cwd?: string } = {};
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as Record<string, unknown>;
+      if (!info.sessionId && typeof entry.sessionId === "string") info.sessionId = entry.sessionId;
+      if (!info.cwd && typeof entry.cwd === "string") info.cwd = entry.cwd;
+      const model = (entry.message as Record<string, unknown> | undefined)?.model;
+      if (!info.model && entry.type === "assistant" && typeof model === "string") info.model = model;
+    } catch {
+      continue;
+    }
+    if (info.sessionId && info.model && info.cwd) break;
+  }
+  return info;
+}
@@ -0,0 +1,136 @@
+import http from "http";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { log } from "./logger";
+
+/**
+ * Routes git's credential prompts to the app.
+ *
+ * Git (and ssh, for key passphrases) runs `GIT_ASKPASS`/`SSH_ASKPASS` with the
+ * prompt as its only argument and reads the answer from stdout. We point both
+ * at a tiny script that runs under Electron-as-node and posts the prompt to a
+ * loopback server guarded by a per-launch token; the server hands it to
+ * `handler` and writes back whatever the user typed. Exiting non-zero tells
+ * git the prompt was cancelled.
+ */
+
+type AskpassHandler = (operationId: string, prompt: string) => Promise<string | null>;
+
+const ASKPASS_SCRIPT = `const http = require("http");
+const body = JSON.stringify({
+  token: process.env.HARNSS_ASKPASS_TOKEN,
+  operationId: process.env.HARNSS_ASKPASS_OP,
+  prompt: process.argv[2] || "",
+});
+const req = http.request(
+  { host: "127.0.0.1", port: Number(process.env.HARNSS_ASKPASS_PORT), method: "POST", path: "/", headers: { "content-type": "application/json" } },
+  (res) => {
+    let data = "";
+    res.setEncoding("utf8");
+    res.on("data", (chunk) => { data += chunk; });
+    res.on("end", () => {
+      if (res.statusCode !== 200) process.exit(1);
+      process.stdout.write(data + "\\n");
+      process.exit(0);
+    });
+  },
+);
+req.on("error", () => process.exit(1));
+req.end(body);
+`;
+
+const token = crypto.randomBytes(24).toString("hex");
+let handler: AskpassHandler | null = null;
+let ready: Promise<{ port: number; launcher: string; script: string }> | null = null;
+/** Temp dir holding the askpass scripts, removed on quit. */
+let scriptDir: string | null = null;
+
+export function setAskpassHandler(next: AskpassHandler): void {
+  handler = next;
+}
+
+function writeScripts(): { launcher: string; script: string } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "harnss-askpass-"));
+  scriptDir = dir;
+  const script = path.join(dir, "askpass.js");
+  fs.writeFileSync(script, ASKPASS_SCRIPT, "utf-8");
+  if (process.platform === "win32") {
+    const launcher = path.join(dir, "askpass.cmd");
+    fs.writeFileSync(launcher, '@set ELECTRON_RUN_AS_NODE=1\r\n@"%HARNSS_ASKPASS_NODE%" "%HARNSS_ASKPASS_SCRIPT%" %*\r\n', "utf-8");
+    return { launcher, script };
+  }
+  const launcher = path.join(dir, "askpass.sh");
+  fs.writeFileSync(launcher, '#!/bin/sh\nELECTRON_RUN_AS_NODE=1 exec "$HARNSS_ASKPASS_NODE" "$HARNSS_ASKPASS_SCRIPT" "$@"\n', { encoding: "utf-8", mode: 0o700 });
+  return { launcher, script };
+}
+
+function startServer(): Promise<{ port: number; launcher: string; script: string }> {
+  return new Promise((resolve, reject) => {
+    const server = http.createServer((req, res) => {
+      let body = "";
+      req.setEncoding("utf8");
+      req.on("data", (chunk) => { body += chunk; });
+      req.on("end", async () => {
+        try {
+          const { token: sent, operationId, prompt } = JSON.parse(body) as { token?: string; operationId?: string; prompt?: string };
+          if (sent !== token || !handler) {
+            res.writeHead(403).end();
+            return;
+          }
+          const answer = await handler(operationId ?? "", prompt ?? "");
+          if (answer === null) res.writeHead(401).end();
+          else res.writeHead(200, { "content-type": "text/plain" }).end(answer);
+        } catch (err) {
+          log("GIT_ASKPASS", `Prompt failed: ${err}`);
+          res.writeHead(500).end();
+        }
+      });
+    });
+    server.on("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      if (!address || typeof address === "string") {
+        reject(new Error("Askpass server has no port"));
+        return;
+      }
+      // Don't keep the app alive just for this
+      server.unref();
+      resolve({ port: address.port, ...writeScripts() });
+    });
+  });
+}
+
+/** Environment for a git command whose credential prompts should reach the app, tagged with `operationId`. */
+export async function getAskpassEnv(operationId: string): Promise<NodeJS.ProcessEnv> {
+  ready ??= startServer().catch((err) => {
+    ready = null;
+    throw err;
+  });
+  const { port, launcher, script } = await ready;
+  return {
+    ...process.env,
+    GIT_ASKPASS: launcher,
+    SSH_ASKPASS: launcher,
+    SSH_ASKPASS_REQUIRE: "force",
+    // Never fall back to a terminal prompt nobody can see
+    GIT_TERMINAL_PROMPT: "0",
+    HARNSS_ASKPASS_NODE: process.execPath,
+    HARNSS_ASKPASS_SCRIPT: script,
+    HARNSS_ASKPASS_PORT: String(port),
+    HARNSS_ASKPASS_TOKEN: token,
+    HARNSS_ASKPASS_OP: operationId,
+  };
+}
+
+/** Remove the askpass scripts (app quit). */
+export function cleanupAskpass(): void {
+  if (!scriptDir) return;
+  try {
+    fs.rmSync(scriptDir, { recursive: true, force: true });
+  } catch (err) {
+    log("GIT_ASKPASS", `Failed to remove ${scriptDir}: ${err}`);
+  }
+  scriptDir = null;
+}
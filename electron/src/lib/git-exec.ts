@@ -1,4 +1,4 @@
-import { execFile } from "child_process";
+import { execFile, spawn } from "child_process";
 
 export const ALWAYS_SKIP = new Set([
   "node_modules", ".git", ".hg", ".svn", "dist", "build", ".next", ".nuxt",
@@ -16,3 +16,74 @@ export function gitExec(args: string[], cwd: string): Promise<string> {
     });
   });
 }
+
+/** Like gitExec, but feeds `input` to git's stdin (e.g. `git apply -`). */
+export function gitExecWithInput(args: string[], cwd: string, input: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile("git", args, { cwd, maxBuffer: 5 * 1024 * 1024 }, (err, stdout, stderr) => {
+      if (err) return reject(new Error(stderr?.trim() || err.message));
+      resolve(stdout);
+    });
+    child.stdin?.end(input);
+  });
+}
+
+export interface GitProgress {
+  /** e.g. "Writing objects", "Receiving objects", "Resolving deltas". */
+  phase: string;
+  percent?: number;
+}
+
+const PROGRESS_PERCENT_RE = /^(?:remote:\s*)?([A-Za-z][A-Za-z ]*?):\s+(\d{1,3})%/;
+const PROGRESS_COUNT_RE = /^(?:remote:\s*)?((?:Enumerating|Counting|Compressing|Writing|Receiving|Resolving|Total|Unpacking|Updating)[A-Za-z ]*?):\s+\d/;
+
+/** Parse one `--progress` line from git's stderr; null for anything that isn't progress. */
+export function parseGitProgress(line: string): GitProgress | null {
+  const percent = PROGRESS_PERCENT_RE.exec(line);
+  if (percent) return { phase: percent[1], percent: Math.min(100, Number(percent[2])) };
+  const count = PROGRESS_COUNT_RE.exec(line);
+  if (count) return { phase: count[1] };
+  return null;
+}
+
+/**
+ * Run a long git command (push/pull/fetch) with `--progress` output streamed
+ * to `onProgress`. Resolves with everything git printed that isn't progress —
+ * push reports its ref updates on stderr. Rejects with that text on failure,
+ * or with "Cancelled" when `signal` aborts.
+ */
+export function gitExecStreaming(
+  args: string[],
+  cwd: string,
+  options: { env?: NodeJS.ProcessEnv; signal?: AbortSignal; onProgress?: (progress: GitProgress) => void },
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", args, { cwd, env: options.env ?? process.env, signal: options.signal });
+    const output: string[] = [];
+    let stdout = "";
+    let pending = "";
+
+    child.stdout.on("data", (chunk: Buffer) => { stdout += chunk.toString(); });
+    child.stderr.on("data", (chunk: Buffer) => {
+      // Progress lines are rewritten in place with \r, so split on both
+      const parts = (pending + chunk.toString()).split(/[\r\n]/);
+      pending = parts.pop() ?? "";
+      for (const line of parts) {
+        if (!line.trim()) continue;
+        const progress = parseGitProgress(line);
+        if (progress) options.onProgress?.(progress);
+        else output.push(line);
+      }
+    });
+    child.on("error", (err) => {
+      reject(err.name === "AbortError" ? new Error("Cancelled") : err);
+    });
+    child.on("close", (code) => {
+      if (pending.trim() && !parseGitProgress(pending)) output.push(pending);
+      const text = [stdout.trim(), ...output].filter(Boolean).join("\n");
+      if (options.signal?.aborted) reject(new Error("Cancelled"));
+      else if (code === 0) resolve(text);
+      else reject(new Error(output.join("\n").trim() || `git exited with code ${code}`));
+    });
+  });
+}
@@ -0,0 +1,37 @@
+import type { GitRewriteAction, GitRewriteStep } from "@shared/types/git";
+
+/** Todo commands a plan may use — anything else (exec, break, drop, ...) is rejected. */
+export const REWRITE_ACTIONS = new Set<GitRewriteAction>(["pick", "squash", "fixup"]);
+
+/**
+ * Check a squash/reorder plan against the commits it rewrites.
+ *
+ * `range` is every commit between the rebase base and HEAD, oldest first. A
+ * rebase todo drops any commit it doesn't list, so the plan must name each of
+ * them exactly once. Returns an error message, or null when the plan is valid.
+ */
+export function validateRewritePlan(steps: GitRewriteStep[], range: string[]): string | null {
+  if (steps.length === 0) return "Nothing to rewrite";
+  const unsupported = steps.find((step) => !REWRITE_ACTIONS.has(step.action));
+  if (unsupported) return `Unsupported rewrite action: ${unsupported.action}`;
+  if (steps[0].action !== "pick") return "The first commit can't be squashed — there is nothing before it to fold into";
+
+  const planned = new Set<string>();
+  for (const step of steps) {
+    if (planned.has(step.hash)) return `Commit ${step.hash.slice(0, 7)} appears twice`;
+    planned.add(step.hash);
+  }
+  if (planned.size !== range.length || range.some((hash) => !planned.has(hash))) {
+    return "The plan must include every commit above the oldest one being rewritten";
+  }
+  return null;
+}
+
+/** Rebase todo for `steps`, applied in order. */
+export function buildRebaseTodo(steps: GitRewriteStep[]): string {
+  return steps.map((step) => {
+    if (!REWRITE_ACTIONS.has(step.action)) throw new Error(`Unsupported rewrite action: ${step.action}`);
+    if (!/^[0-9a-f]{4,64}$/i.test(step.hash)) throw new Error(`Invalid commit hash: ${step.hash}`);
+    return `${step.action} ${step.hash}`;
+  }).join("\n") + "\n";
+}
@@ -0,0 +1,19 @@
+/** node-pty process handle, typed to the parts Harnss uses. */
+export interface PtyProcess {
+  write: (data: string) => void;
+  resize: (cols: number, rows: number) => void;
+  kill: () => void;
+  onData: (cb: (data: string) => void) => void;
+  onExit: (cb: (e: { exitCode: number; signal?: number }) => void) => void;
+}
+
+let ptyModule: { spawn: (...args: unknown[]) => PtyProcess } | null = null;
+
+/** Lazily load node-pty (native module) — shared by the Terminal panel and ACP agent terminals. */
+export function getPty() {
+  if (!ptyModule) {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    ptyModule = require("node-pty");
+  }
+  return ptyModule!;
+}
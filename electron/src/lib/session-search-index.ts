@@ -0,0 +1,576 @@
+/**
+ * Inverted index over persisted chat sessions.
+ *
+ * One `ProjectSearchIndex` per project. Each session is flattened into
+ * entries (user text, assistant text, thinking, tool inputs, tool outputs…),
+ * every entry is tokenized, and postings map `token → sessionId → [entry, tf]`.
+ * Queries AND all terms (the last one as a prefix, so results update while
+ * typing) and rank entries with BM25.
+ *
+ * Pure module — no electron or fs imports. Persistence and disk reconciliation
+ * live in session-search-store.ts.
+ */
+
+import type {
+  SearchEntryRole,
+  SearchMessageResult,
+  SearchSessionResult,
+  SessionSearchFacets,
+  SessionSearchFilters,
+} from "@shared/types/search";
+import type { EngineId } from "@shared/types/engine";
+
+export const SEARCH_INDEX_VERSION = 1;
+
+/** Upper bound on characters tokenized per entry (huge file dumps stay bounded). */
+const MAX_INDEXED_CHARS = 200_000;
+/** Characters kept per entry for snippet rendering. */
+const MAX_STORED_CHARS = 4_000;
+const MAX_TOKEN_LENGTH = 64;
+/** Cap on vocabulary expansions for the trailing prefix term. */
+const MAX_PREFIX_EXPANSIONS = 64;
+
+const SNIPPET_BEFORE = 40;
+const SNIPPET_AFTER = 80;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const TOKEN_RE = /[\p{L}\p{N}_]+/gu;
+
+// FNV-1a (32-bit) — cheap change detection, not security
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+// ── Types ──
+
+/** Loose shape of a persisted session — only the fields the index reads. */
+export interface IndexableSession {
+  id: string;
+  projectId?: string;
+  title?: string;
+  createdAt?: number;
+  lastMessageAt?: number;
+  engine?: EngineId;
+  model?: string;
+  branch?: string;
+  folderId?: string;
+  messages?: IndexableMessage[];
+}
+
+interface IndexableToolStep {
+  toolName?: string;
+  toolInput?: unknown;
+  toolResult?: unknown;
+}
+
+interface IndexableMessage {
+  id?: string;
+  role?: string;
+  content?: unknown;
+  displayContent?: string;
+  thinking?: string;
+  toolName?: string;
+  toolInput?: unknown;
+  toolResult?: unknown;
+  subagentSteps?: IndexableToolStep[];
+  timestamp?: number;
+}
+
+interface IndexedEntry {
+  messageId: string;
+  role: SearchEntryRole;
+  timestamp: number;
+  /** Leading slice of the entry text, used for snippets. */
+  text: string;
+  /** Token count — BM25 length normalization. */
+  length: number;
+}
+
+interface IndexedSession {
+  id: string;
+  title: string;
+  titleTokens: string[];
+  createdAt: number;
+  lastMessageAt: number;
+  engine?: EngineId;
+  model?: string;
+  branch?: string;
+  folderId?: string;
+  /** mtime of the session file this entry was built from (disk reconciliation). */
+  mtimeMs?: number;
+  /** Hash of the indexed text, to tell real changes from re-saves of the same content. */
+  contentHash?: number;
+  entries: IndexedEntry[];
+  /** Distinct tokens across all entries — lets removal touch only relevant postings. */
+  terms: string[];
+}
+
+/** Postings for one token: sessionId → list of `[entryIndex, termFrequency]`. */
+type Postings = Map<string, Array<[number, number]>>;
+
+export interface SerializedProjectIndex {
+  version: number;
+  sessions: Record<string, IndexedSession>;
+  postings: Record<string, Record<string, Array<[number, number]>>>;
+}
+
+export type MessageHit = Omit<SearchMessageResult, "projectId">;
+
+export interface SessionMetaPatch {
+  title?: string;
+  folderId?: string | null;
+  branch?: string;
+}
+
+// ── Tokenization & text extraction ──
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().matchAll(TOKEN_RE)) {
+    const token = match[0];
+    if (token.length <= MAX_TOKEN_LENGTH) tokens.push(token);
+  }
+  return tokens;
+}
+
+function hashString(hash: number, text: string): number {
+  let next = hash;
+  for (let i = 0; i < text.length; i++) {
+    next = Math.imul(next ^ text.charCodeAt(i), FNV_PRIME) >>> 0;
+  }
+  return next;
+}
+
+function stringifyValue(value: unknown): string {
+  if (value == null) return "";
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return "";
+  }
+}
+
+/** Pull the human-meaningful text out of a tool result without its JSON scaffolding. */
+function extractToolResultText(result: unknown): string {
+  if (result == null) return "";
+  if (typeof result === "string") return result;
+  if (typeof result !== "object") return String(result);
+
+  const r = result as Record<string, unknown>;
+  const parts: string[] = [];
+  if (typeof r.stdout === "string") parts.push(r.stdout);
+  if (typeof r.stderr === "string") parts.push(r.stderr);
+  if (typeof r.content === "string") {
+    parts.push(r.content);
+  } else if (Array.isArray(r.content)) {
+    for (const block of r.content) {
+      if (block && typeof block === "object" && typeof (block as { text?: unknown }).text === "string") {
+        parts.push((block as { text: string }).text);
+      }
+    }
+  }
+  const file = r.file as { content?: unknown } | undefined;
+  if (file && typeof file.content === "string") parts.push(file.content);
+  if (typeof r.detailedContent === "string") parts.push(r.detailedContent);
+  if (typeof r.newString === "string") parts.push(r.newString);
+
+  return parts.length > 0 ? parts.join("\n") : stringifyValue(result);
+}
+
+function formatToolCall(toolName: string | undefined, toolInput: unknown): string {
+  const input = stringifyValue(toolInput);
+  return toolName ? `${toolName} ${input}` : input;
+}
+
+/** Flatten one UI message into the searchable entries it contributes. */
+export function extractEntries(message: IndexableMessage, fallbackTimestamp: number): Array<Omit<IndexedEntry, "length"> & { fullText: string }> {
+  const messageId = message.id;
+  if (!messageId) return [];
+  const timestamp = typeof message.timestamp === "number" ? message.timestamp : fallbackTimestamp;
+  const entries: Array<{ role: SearchEntryRole; text: string }> = [];
+  const content = typeof message.content === "string" ? message.content : stringifyValue(message.content);
+
+  switch (message.role) {
+    case "user":
+      entries.push({ role: "user", text: message.displayContent ?? content });
+      break;
+    case "assistant":
+      entries.push({ role: "assistant", text: content });
+      if (message.thinking) entries.push({ role: "thinking", text: message.thinking });
+      break;
+    case "tool_call":
+      entries.push({ role: "tool_call", text: formatToolCall(message.toolName, message.toolInput) });
+      entries.push({ role: "tool_result", text: extractToolResultText(message.toolResult) });
+      for (const step of message.subagentSteps ?? []) {
+        entries.push({ role: "tool_call", text: formatToolCall(step.toolName, step.toolInput) });
+        entries.push({ role: "tool_result", text: extractToolResultText(step.toolResult) });
+      }
+      break;
+    case "tool_result":
+      entries.push({ role: "tool_result", text: content || extractToolResultText(message.toolResult) });
+      break;
+    case "system":
+    case "summary":
+      entries.push({ role: message.role, text: content });
+      break;
+    default:
+      break;
+  }
+
+  return entries
+    .filter((entry) => entry.text.trim().length > 0)
+    .map((entry) => ({
+      messageId,
+      role: entry.role,
+      timestamp,
+      text: entry.text.slice(0, MAX_STORED_CHARS),
+      fullText: entry.text.slice(0, MAX_INDEXED_CHARS),
+    }));
+}
+
+// ── Snippets ──
+
+function buildSnippet(text: string, terms: string[]): { snippet: string; highlights: Array<[number, number]> } {
+  const lower = text.toLowerCase();
+  let matchIdx = -1;
+  for (const term of terms) {
+    const idx = lower.indexOf(term);
+    if (idx !== -1 && (matchIdx === -1 || idx < matchIdx)) matchIdx = idx;
+  }
+
+  const anchor = Math.max(matchIdx, 0);
+  const start = Math.max(0, anchor - SNIPPET_BEFORE);
+  const end = Math.min(text.length, anchor + SNIPPET_AFTER);
+  const prefix = start > 0 ? "..." : "";
+  const body = text.slice(start, end).replace(/\s+/g, " ");
+  const snippet = prefix + body + (end < text.length ? "..." : "");
+
+  const highlights: Array<[number, number]> = [];
+  const lowerBody = body.toLowerCase();
+  for (const term of terms) {
+    let idx = lowerBody.indexOf(term);
+    while (idx !== -1) {
+      highlights.push([prefix.length + idx, prefix.length + idx + term.length]);
+      idx = lowerBody.indexOf(term, idx + term.length);
+    }
+  }
+  highlights.sort((a, b) => a[0] - b[0]);
+
+  // Merge overlapping ranges so the renderer can slice linearly.
+  const merged: Array<[number, number]> = [];
+  for (const range of highlights) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+  }
+  return { snippet, highlights: merged };
+}
+
+// ── Filters ──
+
+function matchesSessionFilters(session: IndexedSession, filters: SessionSearchFilters | undefined): boolean {
+  if (!filters) return true;
+  if (filters.engines?.length && !filters.engines.includes(session.engine ?? "claude")) return false;
+  if (filters.models?.length && (!session.model || !filters.models.includes(session.model))) return false;
+  if (filters.branches?.length && (!session.branch || !filters.branches.includes(session.branch))) return false;
+  if (filters.folderIds?.length && (!session.folderId || !filters.folderIds.includes(session.folderId))) return false;
+  return true;
+}
+
+function matchesEntryFilters(entry: IndexedEntry, filters: SessionSearchFilters | undefined): boolean {
+  if (!filters) return true;
+  if (filters.roles?.length && !filters.roles.includes(entry.role)) return false;
+  if (filters.dateFrom !== undefined && entry.timestamp < filters.dateFrom) return false;
+  if (filters.dateTo !== undefined && entry.timestamp > filters.dateTo) return false;
+  return true;
+}
+
+// ── Index ──
+
+export class ProjectSearchIndex {
+  private readonly sessions = new Map<string, IndexedSession>();
+  private readonly postings = new Map<string, Postings>();
+  private totalEntries = 0;
+  private totalLength = 0;
+
+  static fromJSON(data: SerializedProjectIndex): ProjectSearchIndex {
+    const index = new ProjectSearchIndex();
+    if (data.version !== SEARCH_INDEX_VERSION) return index;
+
+    for (const [id, session] of Object.entries(data.sessions ?? {})) {
+      index.sessions.set(id, session);
+      index.totalEntries += session.entries.length;
+      for (const entry of session.entries) index.totalLength += entry.length;
+    }
+    for (const [token, bySession] of Object.entries(data.postings ?? {})) {
+      index.postings.set(token, new Map(Object.entries(bySession)));
+    }
+    return index;
+  }
+
+  toJSON(): SerializedProjectIndex {
+    // Prototype-less, so tokens like `__proto__` stay plain keys
+    const sessions: SerializedProjectIndex["sessions"] = Object.create(null);
+    for (const [id, session] of this.sessions) sessions[id] = session;
+    const postings: SerializedProjectIndex["postings"] = Object.create(null);
+    for (const [token, bySession] of this.postings) postings[token] = Object.fromEntries(bySession);
+    return { version: SEARCH_INDEX_VERSION, sessions, postings };
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  sessionIds(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  getMtime(sessionId: string): number | undefined {
+    return this.sessions.get(sessionId)?.mtimeMs;
+  }
+
+  /**
+   * Replace everything indexed for a session with its current contents.
+   * Returns false when the searchable content and metadata are unchanged
+   * (only the file mtime moved), so callers can skip persisting.
+   */
+  upsert(data: IndexableSession, mtimeMs?: number): boolean {
+    const previous = this.sessions.get(data.id);
+    this.remove(data.id);
+
+    const createdAt = data.createdAt ?? 0;
+    const entries: IndexedEntry[] = [];
+    const termsInSession = new Set<string>();
+    let contentHash = FNV_OFFSET_BASIS;
+
+    for (const message of data.messages ?? []) {
+      for (const extracted of extractEntries(message, createdAt)) {
+        const tokens = tokenize(extracted.fullText);
+        if (tokens.length === 0) continue;
+        contentHash = hashString(contentHash, `${extracted.messageId}\0${extracted.role}\0${extracted.timestamp}\0${extracted.fullText}\0`);
+
+        const entryIndex = entries.length;
+        entries.push({
+          messageId: extracted.messageId,
+          role: extracted.role,
+          timestamp: extracted.timestamp,
+          text: extracted.text,
+          length: tokens.length,
+        });
+
+        const tf = new Map<string, number>();
+        for (const token of tokens) tf.set(token, (tf.get(token) ?? 0) + 1);
+        for (const [token, count] of tf) {
+          termsInSession.add(token);
+          let bySession = this.postings.get(token);
+          if (!bySession) {
+            bySession = new Map();
+            this.postings.set(token, bySession);
+          }
+          let list = bySession.get(data.id);
+          if (!list) {
+            list = [];
+            bySession.set(data.id, list);
+          }
+          list.push([entryIndex, count]);
+        }
+        this.totalLength += tokens.length;
+      }
+    }
+
+    const title = data.title || "Untitled";
+    const session: IndexedSession = {
+      id: data.id,
+      title,
+      titleTokens: [...new Set(tokenize(title))],
+      createdAt,
+      lastMessageAt: data.lastMessageAt ?? createdAt,
+      engine: data.engine,
+      model: data.model,
+      branch: data.branch,
+      folderId: data.folderId,
+      mtimeMs,
+      contentHash,
+      entries,
+      terms: [...termsInSession],
+    };
+    this.sessions.set(data.id, session);
+    this.totalEntries += entries.length;
+
+    return !previous
+      || previous.contentHash !== contentHash
+      || previous.title !== session.title
+      || previous.createdAt !== session.createdAt
+      || previous.lastMessageAt !== session.lastMessageAt
+      || previous.engine !== session.engine
+      || previous.model !== session.model
+      || previous.branch !== session.branch
+      || previous.folderId !== session.folderId;
+  }
+
+  remove(sessionId: string): boolean {
+    const existing = this.sessions.get(sessionId);
+    if (!existing) return false;
+
+    for (const token of existing.terms) {
+      const bySession = this.postings.get(token);
+      if (!bySession) continue;
+      bySession.delete(sessionId);
+      if (bySession.size === 0) this.postings.delete(token);
+    }
+    this.totalEntries -= existing.entries.length;
+    for (const entry of existing.entries) this.totalLength -= entry.length;
+    this.sessions.delete(sessionId);
+    return true;
+  }
+
+  /** Apply sidebar-only metadata edits without re-tokenizing the messages. */
+  updateMeta(sessionId: string, patch: SessionMetaPatch): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+    if ("title" in patch && patch.title) {
+      session.title = patch.title;
+      session.titleTokens = [...new Set(tokenize(patch.title))];
+    }
+    if ("folderId" in patch) session.folderId = patch.folderId || undefined;
+    if ("branch" in patch) session.branch = patch.branch || undefined;
+    return true;
+  }
+
+  facets(): SessionSearchFacets {
+    const engines = new Set<EngineId>();
+    const models = new Set<string>();
+    const branches = new Set<string>();
+    const folderIds = new Set<string>();
+    for (const session of this.sessions.values()) {
+      engines.add(session.engine ?? "claude");
+      if (session.model) models.add(session.model);
+      if (session.branch) branches.add(session.branch);
+      if (session.folderId) folderIds.add(session.folderId);
+    }
+    return {
+      engines: [...engines],
+      models: [...models],
+      branches: [...branches],
+      folderIds: [...folderIds],
+    };
+  }
+
+  /**
+   * Expand each query term to the vocabulary tokens it matches. All terms
+   * match exactly except the last, which matches as a prefix.
+   */
+  private expandTerms(terms: string[]): string[][] {
+    return terms.map((term, i) => {
+      if (i < terms.length - 1) return this.postings.has(term) ? [term] : [];
+      const expansions: string[] = [];
+      if (this.postings.has(term)) expansions.push(term);
+      for (const token of this.postings.keys()) {
+        if (expansions.length >= MAX_PREFIX_EXPANSIONS) break;
+        if (token !== term && token.startsWith(term)) expansions.push(token);
+      }
+      return expansions;
+    });
+  }
+
+  searchMessages(terms: string[], filters?: SessionSearchFilters): MessageHit[] {
+    if (terms.length === 0 || this.totalEntries === 0) return [];
+    const expanded = this.expandTerms(terms);
+    if (expanded.some((group) => group.length === 0)) return [];
+
+    const avgLength = this.totalLength / this.totalEntries;
+    // key: `${sessionId}\u0000${entryIndex}` → accumulated score
+    let candidates: Map<string, number> | null = null;
+
+    for (const group of expanded) {
+      const groupScores = new Map<string, number>();
+      for (const token of group) {
+        const bySession = this.postings.get(token);
+        if (!bySession) continue;
+        let df = 0;
+        for (const list of bySession.values()) df += list.length;
+        const idf = Math.log(1 + (this.totalEntries - df + 0.5) / (df + 0.5));
+
+        for (const [sessionId, list] of bySession) {
+          const session = this.sessions.get(sessionId);
+          if (!session) continue;
+          for (const [entryIndex, tf] of list) {
+            const key = `${sessionId}\u0000${entryIndex}`;
+            if (candidates && !candidates.has(key)) continue;
+            const length = session.entries[entryIndex]?.length ?? avgLength;
+            const score = idf * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * length) / avgLength)));
+            // Prefix expansions of the same query term compete — keep the best.
+            groupScores.set(key, Math.max(groupScores.get(key) ?? 0, score));
+          }
+        }
+      }
+
+      if (candidates) {
+        const next = new Map<string, number>();
+        for (const [key, score] of groupScores) next.set(key, (candidates.get(key) ?? 0) + score);
+        candidates = next;
+      } else {
+        candidates = groupScores;
+      }
+      if (candidates.size === 0) return [];
+    }
+
+    const snippetTerms = [...new Set(expanded.flat())].sort((a, b) => b.length - a.length);
+    const hits: MessageHit[] = [];
+    for (const [key, score] of candidates ?? []) {
+      const [sessionId, entryIndexRaw] = key.split("\u0000");
+      const session = this.sessions.get(sessionId);
+      const entry = session?.entries[Number(entryIndexRaw)];
+      if (!session || !entry) continue;
+      if (!matchesSessionFilters(session, filters) || !matchesEntryFilters(entry, filters)) continue;
+
+      const { snippet, highlights } = buildSnippet(entry.text, snippetTerms);
+      hits.push({
+        sessionId,
+        sessionTitle: session.title,
+        messageId: entry.messageId,
+        role: entry.role,
+        snippet,
+        highlights,
+        score,
+        timestamp: entry.timestamp,
+      });
+    }
+    return hits;
+  }
+
+  searchSessions(terms: string[], filters?: SessionSearchFilters): Array<Omit<SearchSessionResult, "projectId"> & { score: number; lastMessageAt: number }> {
+    if (terms.length === 0) return [];
+    const results: Array<Omit<SearchSessionResult, "projectId"> & { score: number; lastMessageAt: number }> = [];
+
+    for (const session of this.sessions.values()) {
+      if (!matchesSessionFilters(session, filters)) continue;
+      let score = 0;
+      let matchedAll = true;
+      for (let i = 0; i < terms.length; i++) {
+        const term = terms[i];
+        const isLast = i === terms.length - 1;
+        if (session.titleTokens.includes(term)) {
+          score += 2;
+        } else if (isLast && session.titleTokens.some((token) => token.startsWith(term))) {
+          score += 1;
+        } else {
+          matchedAll = false;
+          break;
+        }
+      }
+      if (!matchedAll) continue;
+      results.push({
+        sessionId: session.id,
+        title: session.title,
+        createdAt: session.createdAt,
+        score,
+        lastMessageAt: session.lastMessageAt,
+      });
+    }
+    return results;
+  }
+}
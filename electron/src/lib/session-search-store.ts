@@ -0,0 +1,303 @@
+/**
+ * Persistent session search index — one JSON file per project under
+ * {dataDir}/search-index/. Kept in memory after first use.
+ *
+ * Updated incrementally from sessions:save / sessions:delete / sessions:update-meta.
+ * On first use per app run, each project index is reconciled against the
+ * session files on disk (by mtime) so writes made while the index was not
+ * flushed — or by older app versions — are picked up once.
+ */
+
+import fs from "fs";
+import path from "path";
+import { getDataDir, getProjectSessionsDir } from "./data-dir";
+import { log } from "./logger";
+import { reportError } from "./error-utils";
+import {
+  ProjectSearchIndex,
+  tokenize,
+  type IndexableSession,
+  type MessageHit,
+  type SerializedProjectIndex,
+  type SessionMetaPatch,
+} from "./session-search-index";
+import type {
+  SearchSessionResult,
+  SessionSearchFacets,
+  SessionSearchRequest,
+  SessionSearchResponse,
+} from "@shared/types/search";
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 200;
+/** Streaming turns save often — collapse bursts into one re-index per session. */
+const INDEX_DEBOUNCE_MS = 1_500;
+const FLUSH_DEBOUNCE_MS = 3_000;
+
+interface ProjectIndexState {
+  index: ProjectSearchIndex;
+  ready: Promise<void>;
+  flushTimer: ReturnType<typeof setTimeout> | null;
+  /** Index changed since it was last written. */
+  dirty: boolean;
+}
+
+interface PendingUpdate {
+  projectId: string;
+  data: IndexableSession;
+  filePath: string;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const projects = new Map<string, ProjectIndexState>();
+const pending = new Map<string, PendingUpdate>();
+
+function getIndexFilePath(projectId: string): string {
+  const dir = path.join(getDataDir(), "search-index");
+  fs.mkdirSync(dir, { recursive: true });
+  return path.join(dir, `${projectId}.json`);
+}
+
+function pendingKey(projectId: string, sessionId: string): string {
+  return `${projectId}:${sessionId}`;
+}
+
+async function loadFromDisk(projectId: string): Promise<ProjectSearchIndex> {
+  try {
+    const raw = await fs.promises.readFile(getIndexFilePath(projectId), "utf-8");
+    return ProjectSearchIndex.fromJSON(JSON.parse(raw) as SerializedProjectIndex);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      reportError("SEARCH_INDEX:LOAD_ERR", err, { projectId });
+    }
+    return new ProjectSearchIndex();
+  }
+}
+
+/** Bring the index in line with the session files currently on disk. */
+async function reconcile(projectId: string, index: ProjectSearchIndex): Promise<boolean> {
+  const dir = getProjectSessionsDir(projectId);
+  const files = (await fs.promises.readdir(dir)).filter(
+    (f) => f.endsWith(".json") && !f.endsWith(".meta.json"),
+  );
+  const onDisk = new Set<string>();
+  let changed = false;
+
+  for (const file of files) {
+    const sessionId = file.replace(/\.json$/, "");
+    onDisk.add(sessionId);
+    const filePath = path.join(dir, file);
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (index.getMtime(sessionId) === stat.mtimeMs) continue;
+      const data = JSON.parse(await fs.promises.readFile(filePath, "utf-8")) as IndexableSession;
+      if (index.upsert({ ...data, id: data.id ?? sessionId }, stat.mtimeMs)) changed = true;
+    } catch {
+      // Skip corrupted or concurrently-deleted files
+    }
+  }
+
+  for (const sessionId of index.sessionIds()) {
+    if (!onDisk.has(sessionId)) {
+      index.remove(sessionId);
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+function getProjectState(projectId: string): ProjectIndexState {
+  const existing = projects.get(projectId);
+  if (existing) return existing;
+
+  const state: ProjectIndexState = {
+    index: new ProjectSearchIndex(),
+    ready: Promise.resolve(),
+    flushTimer: null,
+    dirty: false,
+  };
+  state.ready = (async () => {
+    const startedAt = Date.now();
+    state.index = await loadFromDisk(projectId);
+    if (await reconcile(projectId, state.index)) scheduleFlush(projectId);
+    log("SEARCH_INDEX", `Project ${projectId.slice(0, 8)} ready: ${state.index.size} sessions in ${Date.now() - startedAt}ms`);
+  })().catch((err) => {
+    reportError("SEARCH_INDEX:INIT_ERR", err, { projectId });
+  });
+  projects.set(projectId, state);
+  return state;
+}
+
+function scheduleFlush(projectId: string): void {
+  const state = projects.get(projectId);
+  if (!state) return;
+  state.dirty = true;
+  if (state.flushTimer) return;
+  state.flushTimer = setTimeout(() => {
+    state.flushTimer = null;
+    void flushProject(projectId);
+  }, FLUSH_DEBOUNCE_MS);
+}
+
+async function flushProject(projectId: string): Promise<void> {
+  const state = projects.get(projectId);
+  if (!state?.dirty) return;
+  // Cleared before the write so changes made while it runs schedule another one
+  state.dirty = false;
+  const filePath = getIndexFilePath(projectId);
+  const tempPath = `${filePath}.tmp`;
+  try {
+    await fs.promises.writeFile(tempPath, JSON.stringify(state.index.toJSON()), "utf-8");
+    await fs.promises.rename(tempPath, filePath);
+  } catch (err) {
+    state.dirty = true;
+    reportError("SEARCH_INDEX:FLUSH_ERR", err, { projectId });
+  }
+}
+
+async function applyUpdate(update: PendingUpdate): Promise<void> {
+  pending.delete(pendingKey(update.projectId, update.data.id));
+  const state = getProjectState(update.projectId);
+  await state.ready;
+  let mtimeMs: number | undefined;
+  try {
+    mtimeMs = (await fs.promises.stat(update.filePath)).mtimeMs;
+  } catch {
+    // File vanished — the session was deleted before the update ran
+    return;
+  }
+  if (state.index.upsert(update.data, mtimeMs)) scheduleFlush(update.projectId);
+}
+
+/** Apply queued updates for the given projects so a search sees the latest saves. */
+async function flushPending(projectIds: string[]): Promise<void> {
+  const wanted = new Set(projectIds);
+  const updates = [...pending.values()].filter((u) => wanted.has(u.projectId));
+  for (const update of updates) {
+    clearTimeout(update.timer);
+    await applyUpdate(update);
+  }
+}
+
+// ── Public API ──
+
+/** Queue a re-index of a session that was just written to `filePath`. */
+export function indexSessionSave(projectId: string, data: IndexableSession, filePath: string): void {
+  const key = pendingKey(projectId, data.id);
+  const existing = pending.get(key);
+  if (existing) clearTimeout(existing.timer);
+
+  const update: PendingUpdate = {
+    projectId,
+    data,
+    filePath,
+    timer: setTimeout(() => {
+      applyUpdate(update).catch((err) => {
+        reportError("SEARCH_INDEX:UPDATE_ERR", err, { projectId, sessionId: data.id });
+      });
+    }, INDEX_DEBOUNCE_MS),
+  };
+  pending.set(key, update);
+}
+
+export async function removeIndexedSession(projectId: string, sessionId: string): Promise<void> {
+  const key = pendingKey(projectId, sessionId);
+  const queued = pending.get(key);
+  if (queued) {
+    clearTimeout(queued.timer);
+    pending.delete(key);
+  }
+  const state = getProjectState(projectId);
+  await state.ready;
+  if (state.index.remove(sessionId)) scheduleFlush(projectId);
+}
+
+export async function updateIndexedSessionMeta(projectId: string, sessionId: string, patch: SessionMetaPatch): Promise<void> {
+  const state = getProjectState(projectId);
+  await state.ready;
+  if (state.index.updateMeta(sessionId, patch)) scheduleFlush(projectId);
+}
+
+/** Forget a project's index entirely (project deleted). */
+export async function dropProjectIndex(projectId: string): Promise<void> {
+  for (const [key, update] of pending) {
+    if (update.projectId !== projectId) continue;
+    clearTimeout(update.timer);
+    pending.delete(key);
+  }
+  const state = projects.get(projectId);
+  if (state?.flushTimer) clearTimeout(state.flushTimer);
+  projects.delete(projectId);
+  await fs.promises.unlink(getIndexFilePath(projectId)).catch(() => {});
+}
+
+/** Write every dirty project index to disk now (app quit). */
+export async function flushAllSearchIndexes(): Promise<void> {
+  const projectIds = [...projects.keys()];
+  await flushPending(projectIds);
+  await Promise.all(
+    projectIds.map((projectId) => {
+      const state = projects.get(projectId);
+      if (!state?.flushTimer) return undefined;
+      clearTimeout(state.flushTimer);
+      state.flushTimer = null;
+      return flushProject(projectId);
+    }),
+  );
+}
+
+export async function searchSessions(request: SessionSearchRequest): Promise<SessionSearchResponse> {
+  const terms = [...new Set(tokenize(request.query))];
+  const offset = Math.max(0, request.offset ?? 0);
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, request.limit ?? DEFAULT_PAGE_SIZE));
+
+  await flushPending(request.projectIds);
+
+  const messageHits: Array<MessageHit & { projectId: string }> = [];
+  const sessionHits: Array<SearchSessionResult & { score: number; lastMessageAt: number }> = [];
+  const facets: SessionSearchFacets = { engines: [], models: [], branches: [], folderIds: [] };
+
+  for (const projectId of request.projectIds) {
+    const state = getProjectState(projectId);
+    await state.ready;
+    const { index } = state;
+
+    const projectFacets = index.facets();
+    facets.engines.push(...projectFacets.engines);
+    facets.models.push(...projectFacets.models);
+    facets.branches.push(...projectFacets.branches);
+    facets.folderIds.push(...projectFacets.folderIds);
+
+    if (terms.length === 0) continue;
+    for (const hit of index.searchMessages(terms, request.filters)) {
+      messageHits.push({ ...hit, projectId });
+    }
+    if (offset === 0) {
+      for (const hit of index.searchSessions(terms, request.filters)) {
+        sessionHits.push({ ...hit, projectId });
+      }
+    }
+  }
+
+  // Rank by relevance, breaking ties with recency.
+  messageHits.sort((a, b) => b.score - a.score || b.timestamp - a.timestamp);
+  sessionHits.sort((a, b) => b.score - a.score || b.lastMessageAt - a.lastMessageAt);
+
+  return {
+    messageResults: messageHits.slice(offset, offset + limit),
+    sessionResults: sessionHits.slice(0, limit).map(({ sessionId, projectId, title, createdAt }) => ({
+      sessionId,
+      projectId,
+      title,
+      createdAt,
+    })),
+    totalMessageResults: messageHits.length,
+    hasMore: offset + limit < messageHits.length,
+    facets: {
+      engines: [...new Set(facets.engines)].sort(),
+      models: [...new Set(facets.models)].sort(),
+      branches: [...new Set(facets.branches)].sort(),
+      folderIds: [...new Set(facets.folderIds)],
+    },
+  };
+}
@@ -0,0 +1,149 @@
+import fs from "fs";
+import path from "path";
+import type { ProjectTask } from "@shared/types/tasks";
+
+const MAKEFILE_NAMES = ["GNUmakefile", "makefile", "Makefile"];
+const JUSTFILE_NAMES = ["justfile", "Justfile", ".justfile"];
+
+/** Lockfile → package manager, checked in order; npm when none match. */
+const LOCKFILES: Array<[file: string, manager: string]> = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["bun.lock", "bun"],
+  ["bun.lockb", "bun"],
+];
+
+/**
+ * Quote a task name for the shell the task terminal runs it in: POSIX single
+ * quotes (which expand nothing) on macOS/Linux, cmd.exe double quotes on Windows.
+ */
+export function shellArg(value: string, platform: NodeJS.Platform = process.platform): string {
+  if (/^[\w:.@/+-]+$/.test(value)) return value;
+  if (platform === "win32") return `"${value.replace(/"/g, '""')}"`;
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/** `scripts` from a package.json, run through `manager`. `pre`/`post` lifecycle hooks of another script are skipped. */
+export function parsePackageScripts(json: string, manager = "npm"): ProjectTask[] {
+  let scripts: unknown;
+  try {
+    scripts = (JSON.parse(json) as { scripts?: unknown }).scripts;
+  } catch {
+    return [];
+  }
+  if (!scripts || typeof scripts !== "object") return [];
+  const names = Object.keys(scripts);
+  const all = new Set(names);
+  return names
+    .filter((name) => {
+      const hook = /^(pre|post)(.+)$/.exec(name);
+      return !hook || !all.has(hook[2]);
+    })
+    .map((name) => ({
+      id: `npm:${name}`,
+      source: "npm" as const,
+      name,
+      command: `${manager} run ${shellArg(name)}`,
+      detail: String((scripts as Record<string, unknown>)[name]),
+    }));
+}
+
+/**
+ * Explicit targets from a Makefile. Special (`.PHONY`), pattern (`%.o`) and
+ * variable-assignment lines are skipped; a `## comment` after the target or on
+ * the line above becomes its detail.
+ */
+export function parseMakefileTargets(text: string): ProjectTask[] {
+  const tasks: ProjectTask[] = [];
+  const seen = new Set<string>();
+  let comment: string | undefined;
+  for (const line of text.split(/\r?\n/)) {
+    const doc = /^##\s?(.*)$/.exec(line);
+    if (doc) {
+      comment = doc[1].trim() || undefined;
+      continue;
+    }
+    const match = /^([^\s#:=][^:=]*?)\s*::?(?![=:])(.*)$/.exec(line);
+    if (match) {
+      const inline = /##\s?(.*)$/.exec(match[2])?.[1].trim();
+      for (const name of match[1].split(/\s+/)) {
+        if (!name || name.startsWith(".") || name.includes("%") || name.includes("$") || seen.has(name)) continue;
+        seen.add(name);
+        tasks.push({ id: `make:${name}`, source: "make", name, command: `make ${shellArg(name)}`, detail: inline || comment });
+      }
+    }
+    comment = undefined;
+  }
+  return tasks;
+}
+
+/**
+ * Public recipes from a justfile. Private recipes (`_name` or `[private]`),
+ * settings, aliases and assignments are skipped; a `#` comment on the line
+ * above becomes the detail.
+ */
+export function parseJustfileRecipes(text: string): ProjectTask[] {
+  const tasks: ProjectTask[] = [];
+  const seen = new Set<string>();
+  let comment: string | undefined;
+  let isPrivate = false;
+  for (const line of text.split(/\r?\n/)) {
+    const doc = /^#\s?(.*)$/.exec(line);
+    if (doc && !line.startsWith("#!")) {
+      comment = doc[1].trim() || undefined;
+      continue;
+    }
+    if (/^\[.*\]\s*$/.test(line)) {
+      if (/\bprivate\b/.test(line)) isPrivate = true;
+      continue;
+    }
+    const match = /^@?([A-Za-z_][\w-]*)\b([^:]*):(?!=)/.exec(line);
+    if (match && !/^(set|alias|export|import|mod)$/.test(match[1])) {
+      const name = match[1];
+      if (!isPrivate && !name.startsWith("_") && !seen.has(name)) {
+        seen.add(name);
+        const params = match[2].trim();
+        tasks.push({
+          id: `just:${name}`,
+          source: "just",
+          name,
+          command: `just ${name}`,
+          detail: comment ?? (params ? `Parameters: ${params}` : undefined),
+        });
+      }
+    }
+    comment = undefined;
+    isPrivate = false;
+  }
+  return tasks;
+}
+
+function readFirst(cwd: string, names: string[]): string | null {
+  for (const name of names) {
+    try {
+      return fs.readFileSync(path.join(cwd, name), "utf-8");
+    } catch {
+      // Try the next spelling
+    }
+  }
+  return null;
+}
+
+/** Every runnable task found at the project root. */
+export function discoverProjectTasks(cwd: string): ProjectTask[] {
+  const tasks: ProjectTask[] = [];
+
+  const packageJson = readFirst(cwd, ["package.json"]);
+  if (packageJson) {
+    const manager = LOCKFILES.find(([file]) => fs.existsSync(path.join(cwd, file)))?.[1] ?? "npm";
+    tasks.push(...parsePackageScripts(packageJson, manager));
+  }
+
+  const makefile = readFirst(cwd, MAKEFILE_NAMES);
+  if (makefile) tasks.push(...parseMakefileTargets(makefile));
+
+  const justfile = readFirst(cwd, JUSTFILE_NAMES);
+  if (justfile) tasks.push(...parseJustfileRecipes(justfile));
+
+  return tasks;
+}
@@ -1,3 +1,5 @@
+import { collapseTerminalLines } from "@shared/lib/terminal-text";
+
 export const MAX_TERMINAL_HISTORY_CHARS = 250_000;
 
 export interface TerminalHistoryState {
@@ -37,3 +39,42 @@ export function appendTerminalHistory(
 export function readTerminalHistory(history: TerminalHistoryState): string {
   return history.chunks.join("");
 }
+
+/** Scrollback kept per tab when terminal sessions are persisted across restarts. */
+export const MAX_PERSISTED_SCROLLBACK_CHARS = 100_000;
+
+// eslint-disable-next-line no-control-regex
+const ESCAPE_SEQUENCE_RE = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b\[[0-?]*[ -/]*[@-~]|\x1b[@-Z\\-_]/g;
+// eslint-disable-next-line no-control-regex
+const OSC7_CWD_RE = /\x1b\]7;file:\/\/[^/\x07\x1b]*(\/[^\x07\x1b]*)(?:\x07|\x1b\\)/g;
+
+/**
+ * Render saved scrollback as plain, dimmed lines to replay above a freshly
+ * spawned shell. Colors and cursor movement from the old session are dropped
+ * (they'd fight the new prompt), carriage-return overwrites collapse to what
+ * was last visible, and a divider marks where the restored session ends.
+ */
+export function formatRestoredScrollback(scrollback: string, savedAt: number): string {
+  const lines = collapseTerminalLines(scrollback.replace(ESCAPE_SEQUENCE_RE, ""));
+
+  const divider = `\x1b[2m── restored session from ${new Date(savedAt).toLocaleString()} ──\x1b[22m\r\n`;
+  if (lines.length === 0) return divider;
+  return lines.map((line) => `\x1b[2m${line}\x1b[22m`).join("\r\n") + "\r\n" + divider;
+}
+
+/**
+ * Last working directory a shell reported via OSC 7
+ * (`ESC ] 7 ; file://host/path BEL`), or null when `data` carries none.
+ */
+export function extractReportedCwd(data: string): string | null {
+  let cwd: string | null = null;
+  for (const match of data.matchAll(OSC7_CWD_RE)) {
+    try {
+      cwd = decodeURIComponent(match[1]);
+    } catch {
+      cwd = match[1];
+    }
+  }
+  if (cwd && /^\/[A-Za-z]:\//.test(cwd)) cwd = cwd.slice(1);
+  return cwd;
+}
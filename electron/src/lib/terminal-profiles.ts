@@ -0,0 +1,39 @@
+import path from "path";
+import type { TerminalProfile } from "@shared/types/settings";
+
+/** What a terminal is spawned with — the terminal:create request, optionally filled in from a profile. */
+export interface TerminalLaunchOptions {
+  shell?: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  command?: string;
+}
+
+/**
+ * Fill a terminal:create request in from `profile`. Values given explicitly in
+ * the request win; the profile's cwd is resolved against the requested cwd
+ * (the project root), and its env is layered under the request's.
+ *
+ * With `shellOnly`, only the shell, args and env are taken — split panes keep
+ * the directory they were opened in and don't rerun the startup command.
+ */
+export function applyTerminalProfile(
+  profile: TerminalProfile | undefined,
+  request: TerminalLaunchOptions,
+  { shellOnly = false }: { shellOnly?: boolean } = {},
+): TerminalLaunchOptions {
+  if (!profile) return request;
+
+  const profileCwd = shellOnly ? undefined : profile.cwd?.trim();
+  const env = profile.env || request.env ? { ...profile.env, ...request.env } : undefined;
+  return {
+    shell: request.shell || profile.shell?.trim() || undefined,
+    args: request.args ?? (profile.args?.length ? profile.args : undefined),
+    cwd: profileCwd
+      ? (request.cwd ? path.resolve(request.cwd, profileCwd) : profileCwd)
+      : request.cwd,
+    env: env && Object.keys(env).length > 0 ? env : undefined,
+    command: request.command || (shellOnly ? undefined : profile.command?.trim()) || undefined,
+  };
+}
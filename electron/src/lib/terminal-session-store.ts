@@ -0,0 +1,50 @@
+/**
+ * Saved terminal sessions for the optional persistent-terminals mode.
+ *
+ * Each tab's shell, cwd, environment overrides, launch command and scrollback are
+ * kept grouped by space so the main process can re-spawn them on the next
+ * launch. Environment and scrollback can hold tokens, so the file is encrypted
+ * with safeStorage like the OAuth stores.
+ * File location: {dataDir}/terminal-sessions/terminals.json
+ */
+
+import { JsonFileStore } from "./json-file-store";
+
+export interface PersistedTerminal {
+  terminalId: string;
+  shell?: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  command?: string;
+  cols: number;
+  rows: number;
+  createdAt: number;
+  /** Raw PTY output tail, capped at MAX_PERSISTED_SCROLLBACK_CHARS. */
+  scrollback: string;
+}
+
+export interface PersistedTerminalSessions {
+  savedAt: number;
+  spaces: Record<string, PersistedTerminal[]>;
+}
+
+const STORE_KEY = "terminals";
+
+const store = new JsonFileStore<PersistedTerminalSessions>({
+  subDir: "terminal-sessions",
+  label: "TERMINAL_SESSIONS",
+  encrypt: true,
+});
+
+export function loadTerminalSessions(): PersistedTerminalSessions | null {
+  return store.load(STORE_KEY);
+}
+
+export function saveTerminalSessions(sessions: PersistedTerminalSessions): void {
+  store.save(STORE_KEY, sessions);
+}
+
+export function clearTerminalSessions(): void {
+  store.delete(STORE_KEY);
+}
@@ -29,6 +29,8 @@ import { initPreReleaseCheck } from "./lib/prerelease-check";
 import { initPostHog, shutdownPostHog, reinitPostHog, captureEvent } from "./lib/posthog";
 import { getAcpAnalyticsPropertiesForSession } from "./ipc/acp-sessions";
 import { terminals } from "./ipc/terminal";
+import { flushAllSearchIndexes } from "./lib/session-search-store";
+import { cleanupAskpass } from "./lib/git-askpass";
 
 // IPC module registrations
 import * as spacesIpc from "./ipc/spaces";
@@ -40,6 +42,7 @@ import * as filesIpc from "./ipc/files";
 import * as claudeSessionsIpc from "./ipc/claude-sessions";
 import * as titleGenIpc from "./ipc/title-gen";
 import * as terminalIpc from "./ipc/terminal";
+import * as tasksIpc from "./ipc/tasks";
 import * as gitIpc from "./ipc/git";
 import * as agentRegistryIpc from "./ipc/agent-registry";
 import * as acpSessionsIpc from "./ipc/acp-sessions";
@@ -324,14 +327,15 @@ ipcMain.on("glass:set-theme", (_event, theme: string) => {
 // --- Register all IPC modules ---
 spacesIpc.register();
 projectsIpc.register(getMainWindow);
-sessionsIpc.register();
+sessionsIpc.register(getMainWindow);
 foldersIpc.register();
 ccImportIpc.register();
 filesIpc.register(getMainWindow);
 claudeSessionsIpc.register(getMainWindow);
 titleGenIpc.register();
 terminalIpc.register(getMainWindow);
-gitIpc.register();
+tasksIpc.register();
+gitIpc.register(getMainWindow);
 agentRegistryIpc.register();
 acpSessionsIpc.register(getMainWindow);
 codexSessionsIpc.register(getMainWindow);
@@ -504,6 +508,9 @@ app.whenReady().then(() => {
 
 app.on("will-quit", (event) => {
   globalShortcut.unregisterAll();
+  // Cmd+Q skips window-all-closed, so save terminal sessions here too
+  terminalIpc.persistTerminalsForQuit();
+  cleanupAskpass();
 
   // When an update is being installed, let the updater control the quit lifecycle.
   // In that case, fire-and-forget PostHog shutdown and do not delay quit.
@@ -512,14 +519,19 @@ app.on("will-quit", (event) => {
     return;
   }
 
-  // For normal quits, delay process exit until PostHog has flushed pending events.
+  // For normal quits, delay process exit until PostHog has flushed pending events
+  // and the search index has written any pending updates.
   event.preventDefault();
 
-  shutdownPostHog()
-    .catch((err) => {
+  Promise.all([
+    shutdownPostHog().catch((err) => {
       // Log and continue exit even if analytics shutdown fails
       reportError("POSTHOG", err, { context: "shutdown" });
-    })
+    }),
+    flushAllSearchIndexes().catch((err) => {
+      reportError("SEARCH_INDEX", err, { context: "shutdown" });
+    }),
+  ])
     .finally(() => {
       app.exit(0);
     });
@@ -530,6 +542,7 @@ app.on("window-all-closed", () => {
   acpSessionsIpc.stopAll();
   codexSessionsIpc.stopAll();
 
+  terminalIpc.persistTerminalsForQuit();
   for (const [terminalId, term] of terminals) {
     log("CLEANUP", `Killing terminal ${terminalId.slice(0, 8)}`);
     term.pty.kill();
@@ -18,6 +18,7 @@ interface PreloadGlobals {
 }
 
 import type { ThemeOption as ThemeSource, MacBackgroundEffect } from "@shared/types/settings";
+import type { SessionSearchRequest } from "@shared/types/search";
 
 function readStoredThemeSource(storage: PreloadStorage | undefined): ThemeSource {
   const stored = storage?.getItem("harnss-theme");
@@ -118,8 +119,8 @@ contextBridge.exposeInMainWorld("claude", {
     ipcRenderer.invoke("claude:mcp-reconnect", { sessionId, serverName }),
   revertFiles: (sessionId: string, checkpointId: string) =>
     ipcRenderer.invoke("claude:revert-files", { sessionId, checkpointId }),
-  restartSession: (sessionId: string, mcpServers?: unknown[], cwd?: string, effort?: string, model?: string) =>
-    ipcRenderer.invoke("claude:restart-session", { sessionId, mcpServers, cwd, effort, model }),
+  restartSession: (sessionId: string, mcpServers?: unknown[], cwd?: string, effort?: string, model?: string, maxBudgetUsd?: number | null) =>
+    ipcRenderer.invoke("claude:restart-session", { sessionId, mcpServers, cwd, effort, model, maxBudgetUsd }),
   readFile: (filePath: string) => ipcRenderer.invoke("file:read", filePath),
   renameFile: (oldPath: string, newPath: string) => ipcRenderer.invoke("file:rename", { oldPath, newPath }),
   trashItem: (filePath: string) => ipcRenderer.invoke("file:trash", filePath),
@@ -148,7 +149,10 @@ contextBridge.exposeInMainWorld("claude", {
     load: (projectId: string, sessionId: string) => ipcRenderer.invoke("sessions:load", projectId, sessionId),
     list: (projectId: string) => ipcRenderer.invoke("sessions:list", projectId),
     delete: (projectId: string, sessionId: string) => ipcRenderer.invoke("sessions:delete", projectId, sessionId),
-    search: (projectIds: string[], query: string) => ipcRenderer.invoke("sessions:search", { projectIds, query }),
+    search: (request: SessionSearchRequest) => ipcRenderer.invoke("sessions:search", request),
+    import: (projectId: string, projectPath: string, mode: "resumable" | "readOnly") =>
+      ipcRenderer.invoke("sessions:import", { projectId, projectPath, mode }),
+    export: (defaultName: string, content: string) => ipcRenderer.invoke("sessions:export", { defaultName, content }),
     updateMeta: (projectId: string, sessionId: string, patch: { pinned?: boolean; folderId?: string | null; branch?: string }) =>
       ipcRenderer.invoke("sessions:update-meta", { projectId, sessionId, patch }),
   },
@@ -188,26 +192,88 @@ contextBridge.exposeInMainWorld("claude", {
     stageAll: (cwd: string) => ipcRenderer.invoke("git:stage-all", cwd),
     unstageAll: (cwd: string) => ipcRenderer.invoke("git:unstage-all", cwd),
     discard: (cwd: string, files: string[]) => ipcRenderer.invoke("git:discard", { cwd, files }),
-    commit: (cwd: string, message: string) => ipcRenderer.invoke("git:commit", { cwd, message }),
+    applyPatch: (cwd: string, patch: string, options?: { cached?: boolean; reverse?: boolean }) =>
+      ipcRenderer.invoke("git:apply-patch", { cwd, patch, ...options }),
+    commit: (cwd: string, message: string, options?: { trailers?: string[]; amend?: boolean; allowPushed?: boolean }) =>
+      ipcRenderer.invoke("git:commit", { cwd, message, ...options }),
     branches: (cwd: string) => ipcRenderer.invoke("git:branches", cwd),
-    checkout: (cwd: string, branch: string) => ipcRenderer.invoke("git:checkout", { cwd, branch }),
-    createBranch: (cwd: string, name: string) => ipcRenderer.invoke("git:create-branch", { cwd, name }),
+    checkout: (cwd: string, branch: string, options?: { autoStash?: boolean }) => ipcRenderer.invoke("git:checkout", { cwd, branch, ...options }),
+    createBranch: (cwd: string, name: string, fromRef?: string) => ipcRenderer.invoke("git:create-branch", { cwd, name, fromRef }),
     createWorktree: (cwd: string, path: string, branch: string, fromRef?: string) => ipcRenderer.invoke("git:create-worktree", { cwd, path, branch, fromRef }),
     removeWorktree: (cwd: string, path: string, force?: boolean) => ipcRenderer.invoke("git:remove-worktree", { cwd, path, force }),
     pruneWorktrees: (cwd: string) => ipcRenderer.invoke("git:prune-worktrees", cwd),
-    push: (cwd: string) => ipcRenderer.invoke("git:push", cwd),
-    pull: (cwd: string) => ipcRenderer.invoke("git:pull", cwd),
-    fetch: (cwd: string) => ipcRenderer.invoke("git:fetch", cwd),
+    listWorktrees: (cwd: string) => ipcRenderer.invoke("git:list-worktrees", cwd),
+    worktreeDetails: (cwd: string, path: string) => ipcRenderer.invoke("git:worktree-details", { cwd, path }),
+    runWorktreeSetup: (cwd: string, path: string) => ipcRenderer.invoke("git:run-worktree-setup", { cwd, path }),
+    push: (cwd: string, options?: Record<string, unknown>) => ipcRenderer.invoke("git:push", { cwd, ...options }),
+    pull: (cwd: string, operationId?: string) => ipcRenderer.invoke("git:pull", { cwd, operationId }),
+    fetch: (cwd: string, operationId?: string) => ipcRenderer.invoke("git:fetch", { cwd, operationId }),
+    cancelRemote: (operationId: string) => ipcRenderer.invoke("git:cancel-remote", operationId),
+    onRemoteProgress: (callback: (data: unknown) => void) => {
+      const listener = (_event: IpcRendererEvent, data: unknown) => callback(data);
+      ipcRenderer.on("git:remote-progress", listener);
+      return () => ipcRenderer.removeListener("git:remote-progress", listener);
+    },
+    onAskpassRequest: (callback: (data: unknown) => void) => {
+      const listener = (_event: IpcRendererEvent, data: unknown) => callback(data);
+      ipcRenderer.on("git:askpass-request", listener);
+      return () => ipcRenderer.removeListener("git:askpass-request", listener);
+    },
+    onAskpassCancel: (callback: (data: unknown) => void) => {
+      const listener = (_event: IpcRendererEvent, data: unknown) => callback(data);
+      ipcRenderer.on("git:askpass-cancel", listener);
+      return () => ipcRenderer.removeListener("git:askpass-cancel", listener);
+    },
+    respondAskpass: (requestId: string, value: string | null) => ipcRenderer.invoke("git:askpass-response", { requestId, value }),
     diffFile: (cwd: string, file: string, staged: boolean) => ipcRenderer.invoke("git:diff-file", { cwd, file, staged }),
     diffStat: (cwd: string) => ipcRenderer.invoke("git:diff-stat", cwd) as Promise<{ additions: number; deletions: number }>,
     log: (cwd: string, count?: number) => ipcRenderer.invoke("git:log", { cwd, count }),
-    generateCommitMessage: (cwd: string, engine?: string, sessionId?: string) =>
-      ipcRenderer.invoke("git:generate-commit-message", { cwd, engine, sessionId }),
+    conflictFile: (cwd: string, file: string) => ipcRenderer.invoke("git:conflict-file", { cwd, file }),
+    resolveConflict: (cwd: string, file: string, resolution: { content?: string; side?: "ours" | "theirs" }) =>
+      ipcRenderer.invoke("git:resolve-conflict", { cwd, file, ...resolution }),
+    continueOperation: (cwd: string, operation: string) => ipcRenderer.invoke("git:continue-operation", { cwd, operation }),
+    abortOperation: (cwd: string, operation: string) => ipcRenderer.invoke("git:abort-operation", { cwd, operation }),
+    stashList: (cwd: string) => ipcRenderer.invoke("git:stash-list", cwd),
+    stashPush: (cwd: string, options?: { message?: string; includeUntracked?: boolean; paths?: string[] }) =>
+      ipcRenderer.invoke("git:stash-push", { cwd, ...options }),
+    stashApply: (cwd: string, ref: string) => ipcRenderer.invoke("git:stash-apply", { cwd, ref }),
+    stashPop: (cwd: string, ref: string) => ipcRenderer.invoke("git:stash-pop", { cwd, ref }),
+    stashDrop: (cwd: string, ref: string) => ipcRenderer.invoke("git:stash-drop", { cwd, ref }),
+    stashShow: (cwd: string, ref: string) => ipcRenderer.invoke("git:stash-show", { cwd, ref }),
+    history: (cwd: string, options: { skip?: number; count?: number; allBranches?: boolean; path?: string; author?: string; message?: string }) =>
+      ipcRenderer.invoke("git:history", { cwd, ...options }),
+    commitDetails: (cwd: string, hash: string) => ipcRenderer.invoke("git:commit-details", { cwd, hash }),
+    commitFileDiff: (cwd: string, hash: string, file: string, oldPath?: string) =>
+      ipcRenderer.invoke("git:commit-file-diff", { cwd, hash, file, oldPath }),
+    blame: (cwd: string, file: string, rev?: string) => ipcRenderer.invoke("git:blame", { cwd, file, rev }),
+    topLevel: (cwd: string) => ipcRenderer.invoke("git:top-level", cwd),
+    unpushed: (cwd: string) => ipcRenderer.invoke("git:unpushed", cwd),
+    reset: (cwd: string, ref: string, mode: "soft" | "mixed", allowPushed?: boolean) =>
+      ipcRenderer.invoke("git:reset", { cwd, ref, mode, allowPushed }),
+    rewriteCommits: (cwd: string, steps: Array<{ hash: string; action: "pick" | "squash" | "fixup" }>) =>
+      ipcRenderer.invoke("git:rewrite-commits", { cwd, steps }),
+    revert: (cwd: string, hash: string) => ipcRenderer.invoke("git:revert", { cwd, hash }),
+    cherryPick: (cwd: string, hash: string | string[]) => ipcRenderer.invoke("git:cherry-pick", { cwd, hash }),
+    compare: (cwd: string, base: { kind: "ref"; ref: string } | { kind: "worktree"; path: string }, head: { kind: "ref"; ref: string } | { kind: "worktree"; path: string }) =>
+      ipcRenderer.invoke("git:compare", { cwd, base, head }),
+    compareFileDiff: (cwd: string, base: string, head: string, file: string, oldPath?: string) =>
+      ipcRenderer.invoke("git:compare-file-diff", { cwd, base, head, file, oldPath }),
+    merge: (cwd: string, ref: string) => ipcRenderer.invoke("git:merge", { cwd, ref }),
+    listTags: (cwd: string) => ipcRenderer.invoke("git:list-tags", cwd),
+    createTag: (cwd: string, name: string, options?: { target?: string; message?: string }) =>
+      ipcRenderer.invoke("git:create-tag", { cwd, name, ...options }),
+    deleteTag: (cwd: string, name: string, options?: { remote?: boolean; operationId?: string }) =>
+      ipcRenderer.invoke("git:delete-tag", { cwd, name, ...options }),
+    generateCommitMessage: (cwd: string, engine?: string, sessionId?: string, amend?: boolean) =>
+      ipcRenderer.invoke("git:generate-commit-message", { cwd, engine, sessionId, amend }),
+    generateReleaseNotes: (cwd: string, target?: string, engine?: string, sessionId?: string) =>
+      ipcRenderer.invoke("git:generate-release-notes", { cwd, target, engine, sessionId }),
   },
   terminal: {
-    create: (options: { cwd?: string; cols?: number; rows?: number; spaceId?: string }) => ipcRenderer.invoke("terminal:create", options),
+    create: (options: { cwd?: string; cols?: number; rows?: number; spaceId?: string; env?: Record<string, string>; command?: string; oneShot?: boolean; profileId?: string; profileShellOnly?: boolean }) => ipcRenderer.invoke("terminal:create", options),
     list: () => ipcRenderer.invoke("terminal:list"),
     snapshot: (terminalId: string) => ipcRenderer.invoke("terminal:snapshot", terminalId),
+    resolvePaths: (terminalId: string, paths: string[]) => ipcRenderer.invoke("terminal:resolve-paths", { terminalId, paths }),
     write: (terminalId: string, data: string) => ipcRenderer.invoke("terminal:write", { terminalId, data }),
     resize: (terminalId: string, cols: number, rows: number) => ipcRenderer.invoke("terminal:resize", { terminalId, cols, rows }),
     destroy: (terminalId: string) => ipcRenderer.invoke("terminal:destroy", terminalId),
@@ -223,6 +289,9 @@ contextBridge.exposeInMainWorld("claude", {
       return () => ipcRenderer.removeListener("terminal:exit", listener);
     },
   },
+  tasks: {
+    discover: (cwd: string) => ipcRenderer.invoke("tasks:discover", cwd),
+  },
   acp: {
     log: (label: string, data: unknown) => ipcRenderer.send("acp:log", label, data),
     start: (options: { agentId: string; cwd: string; mcpServers?: unknown[] }) => ipcRenderer.invoke("acp:start", options),
@@ -260,6 +329,11 @@ contextBridge.exposeInMainWorld("claude", {
       ipcRenderer.on("acp:turn_complete", listener);
       return () => ipcRenderer.removeListener("acp:turn_complete", listener);
     },
+    onTerminalOutput: (callback: (data: unknown) => void) => {
+      const listener = (_event: IpcRendererEvent, data: unknown) => callback(data);
+      ipcRenderer.on("acp:terminal_output", listener);
+      return () => ipcRenderer.removeListener("acp:terminal_output", listener);
+    },
     onExit: (callback: (data: unknown) => void) => {
       const listener = (_event: IpcRendererEvent, data: unknown) => callback(data);
       ipcRenderer.on("acp:exit", listener);
@@ -281,14 +355,26 @@ contextBridge.exposeInMainWorld("claude", {
     respondServerRequestError: (sessionId: string, rpcId: string | number, code: number, message: string) =>
       ipcRenderer.invoke("codex:server_request_error", { sessionId, rpcId, code, message }),
     compact: (sessionId: string) => ipcRenderer.invoke("codex:compact", sessionId),
+    steer: (sessionId: string, text: string, images?: Array<{ type: "image"; url: string } | { type: "localImage"; path: string }>) =>
+      ipcRenderer.invoke("codex:steer", { sessionId, text, images }),
+    review: (sessionId: string, target: unknown) =>
+      ipcRenderer.invoke("codex:review", { sessionId, target }),
     listSkills: (sessionId: string) => ipcRenderer.invoke("codex:list-skills", sessionId),
     listApps: (sessionId: string) => ipcRenderer.invoke("codex:list-apps", sessionId),
     listModels: () => ipcRenderer.invoke("codex:list-models"),
     authStatus: () => ipcRenderer.invoke("codex:auth-status"),
+    rateLimits: (options?: { spawn?: boolean }) => ipcRenderer.invoke("codex:rate-limits", options),
     login: (sessionId: string, type: "apiKey" | "chatgpt", apiKey?: string) =>
       ipcRenderer.invoke("codex:login", { sessionId, type, apiKey }),
     resume: (options: { cwd: string; threadId: string; model?: string; approvalPolicy?: string; sandbox?: "read-only" | "workspace-write" | "danger-full-access" }) =>
       ipcRenderer.invoke("codex:resume", options),
+    fork: (options: { cwd: string; threadId: string; dropTurns?: number; model?: string }) =>
+      ipcRenderer.invoke("codex:fork", options),
+    listThreads: (options: { cwd: string; archived?: boolean; cursor?: string | null; limit?: number }) =>
+      ipcRenderer.invoke("codex:list-threads", options),
+    readThread: (cwd: string, threadId: string) => ipcRenderer.invoke("codex:read-thread", { cwd, threadId }),
+    setThreadArchived: (cwd: string, threadId: string, archived: boolean) =>
+      ipcRenderer.invoke("codex:set-thread-archived", { cwd, threadId, archived }),
     setModel: (sessionId: string, model: string) =>
       ipcRenderer.invoke("codex:set-model", { sessionId, model }),
     version: () => ipcRenderer.invoke("codex:version"),
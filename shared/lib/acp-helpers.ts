@@ -26,6 +26,24 @@ export function applyReadRange(content: string, line?: number | null, limit?: nu
   return lines.slice(startIndex, startIndex + lineLimit).join("");
 }
 
+/**
+ * Keep the last `limit` bytes of terminal output (ACP `outputByteLimit`),
+ * cutting on a UTF-8 character boundary so the result stays valid text.
+ */
+export function truncateToByteLimit(
+  output: string,
+  limit: number | null | undefined,
+): { output: string; truncated: boolean } {
+  if (limit == null || limit < 0) return { output, truncated: false };
+  const bytes = new TextEncoder().encode(output);
+  if (bytes.length <= limit) return { output, truncated: false };
+  let start = bytes.length - limit;
+  // Skip UTF-8 continuation bytes (0b10xxxxxx) so we never start mid-character
+  while (start < bytes.length && (bytes[start] & 0xc0) === 0x80) start++;
+  return { output: new TextDecoder().decode(bytes.subarray(start)), truncated: true };
+}
+
 export const ACP_CLIENT_CAPABILITIES = {
   fs: { readTextFile: true, writeTextFile: true },
+  terminal: true,
 } as const;
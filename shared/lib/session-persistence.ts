@@ -22,8 +22,14 @@ export interface SessionMeta {
   pinned?: boolean;
   /** Git branch at session creation time. */
   branch?: string;
+  /** Directory the agent was started in — the selected worktree, if any. */
+  cwd?: string;
   /** Agent ID — which agent was used for this session. */
   agentId?: string;
+  /** Session this chat was forked from (undefined = not a fork). */
+  parentSessionId?: string;
+  /** Imported for reading only — the composer is hidden and the agent is never resumed. */
+  readOnly?: boolean;
 }
 
 /**
@@ -60,6 +66,116 @@ export function extractSessionMeta(data: Record<string, unknown>, lastMessageAt:
     folderId: data.folderId as string | undefined,
     pinned: data.pinned as boolean | undefined,
     branch: data.branch as string | undefined,
+    cwd: data.cwd as string | undefined,
     agentId: data.agentId as string | undefined,
+    parentSessionId: data.parentSessionId as string | undefined,
+    readOnly: data.readOnly === true || undefined,
   };
 }
+
+const MESSAGE_ROLES = new Set(["user", "assistant", "tool_call", "tool_result", "system", "summary"]);
+const SESSION_ENGINES = new Set(["claude", "acp", "codex"]);
+const IMAGE_MEDIA_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+
+/** Session fields carried over from another data dir — everything else is local to that dir. */
+const IMPORTED_SESSION_STRINGS = ["id", "model", "effort", "permissionMode", "agentSessionId", "agentId", "codexThreadId", "branch"] as const;
+
+/** Message fields carried over, by the type they must have. */
+const IMPORTED_MESSAGE_STRINGS = ["toolName", "thinking", "subagentId", "displayContent", "checkpointId"] as const;
+const IMPORTED_MESSAGE_NUMBERS = ["subagentDurationMs", "subagentTokens", "compactPreTokens"] as const;
+const IMPORTED_MESSAGE_BOOLEANS = ["thinkingComplete", "toolError", "isError"] as const;
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function copyTyped(from: JsonRecord, to: JsonRecord, fields: readonly string[], type: "string" | "number" | "boolean"): void {
+  for (const field of fields) {
+    if (typeof from[field] === type) to[field] = from[field];
+  }
+}
+
+function normalizeImportedStep(value: unknown): JsonRecord | null {
+  if (!isRecord(value) || typeof value.toolName !== "string" || typeof value.toolUseId !== "string") return null;
+  return {
+    toolName: value.toolName,
+    toolUseId: value.toolUseId,
+    toolInput: isRecord(value.toolInput) ? value.toolInput : {},
+    ...(isRecord(value.toolResult) ? { toolResult: value.toolResult } : {}),
+    ...(typeof value.toolError === "boolean" ? { toolError: value.toolError } : {}),
+  };
+}
+
+function normalizeImportedImage(value: unknown): JsonRecord | null {
+  if (!isRecord(value) || typeof value.data !== "string" || typeof value.mediaType !== "string") return null;
+  if (!IMAGE_MEDIA_TYPES.has(value.mediaType)) return null;
+  return {
+    id: typeof value.id === "string" ? value.id : crypto.randomUUID(),
+    data: value.data,
+    mediaType: value.mediaType,
+    ...(typeof value.fileName === "string" ? { fileName: value.fileName } : {}),
+  };
+}
+
+/** One message in the current schema, or null when it can't be read. In-flight state is settled. */
+function normalizeImportedMessage(value: unknown, index: number, createdAt: number): JsonRecord | null {
+  if (!isRecord(value)) return null;
+  if (typeof value.role !== "string" || !MESSAGE_ROLES.has(value.role) || value.isQueued) return null;
+
+  const msg: JsonRecord = {
+    id: typeof value.id === "string" && value.id ? value.id : `imported-${index}`,
+    role: value.role,
+    content: typeof value.content === "string" ? value.content : value.content == null ? "" : String(value.content),
+    timestamp: typeof value.timestamp === "number" ? value.timestamp : createdAt,
+  };
+  copyTyped(value, msg, IMPORTED_MESSAGE_STRINGS, "string");
+  copyTyped(value, msg, IMPORTED_MESSAGE_NUMBERS, "number");
+  copyTyped(value, msg, IMPORTED_MESSAGE_BOOLEANS, "boolean");
+  if (isRecord(value.toolInput)) msg.toolInput = value.toolInput;
+  if (isRecord(value.toolResult)) msg.toolResult = value.toolResult;
+  if (value.subagentStatus === "running" || value.subagentStatus === "completed") msg.subagentStatus = "completed";
+  if (value.compactTrigger === "manual" || value.compactTrigger === "auto") msg.compactTrigger = value.compactTrigger;
+  if (Array.isArray(value.subagentSteps)) {
+    msg.subagentSteps = value.subagentSteps.map(normalizeImportedStep).filter((step) => step !== null);
+  }
+  if (Array.isArray(value.images)) {
+    const images = value.images.map(normalizeImportedImage).filter((image) => image !== null);
+    if (images.length > 0) msg.images = images;
+  }
+  if (value.isStreaming) msg.isStreaming = false;
+  if (msg.thinking && !msg.thinkingComplete) msg.thinkingComplete = true;
+  return msg;
+}
+
+/**
+ * Validate a session file copied from another Harnss data dir and migrate it
+ * to the current schema. Only known fields of the expected types are kept:
+ * unknown roles are dropped, missing ids/timestamps are filled in, in-flight
+ * state (streaming, queued, running subagents) is settled and fields tied to
+ * the source data dir are left out. The caller assigns the new `id` / `projectId`.
+ */
+export function normalizeImportedSession(
+  data: unknown,
+): { session: Record<string, unknown>; messages: Array<Record<string, unknown>> } | { error: string } {
+  if (!isRecord(data)) return { error: "Not a Harnss session file." };
+  if (!Array.isArray(data.messages)) return { error: "Session file has no messages." };
+
+  const createdAt = typeof data.createdAt === "number" ? data.createdAt : 0;
+  const messages = data.messages
+    .map((value, index) => normalizeImportedMessage(value, index, createdAt))
+    .filter((msg) => msg !== null);
+  if (messages.length === 0) return { error: "Session file has no readable messages." };
+
+  const session: Record<string, unknown> = {};
+  copyTyped(data, session, IMPORTED_SESSION_STRINGS, "string");
+  session.title = typeof data.title === "string" && data.title.trim() ? data.title : "Imported Chat";
+  session.createdAt = createdAt || (messages[0].timestamp as number) || Date.now();
+  session.totalCost = typeof data.totalCost === "number" ? data.totalCost : 0;
+  session.engine = typeof data.engine === "string" && SESSION_ENGINES.has(data.engine) ? data.engine : "claude";
+  if (typeof data.planMode === "boolean") session.planMode = data.planMode;
+  if (data.readOnly === true) session.readOnly = true;
+
+  return { session, messages };
+}
@@ -0,0 +1,25 @@
+/**
+ * Pure terminal-text helpers shared between the renderer (terminal context
+ * for agents) and Electron (restored scrollback).
+ */
+
+/**
+ * Lines a user would read in terminal output that no longer carries escape
+ * sequences: carriage-return overwrites (progress bars, spinners) collapse to
+ * what was written last, leftover control characters are dropped and blank
+ * lines at either end are trimmed.
+ */
+export function collapseTerminalLines(text: string): string[] {
+  const lines = text
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => {
+      // A bare \r rewinds to column 0 — only what was written last is visible
+      const visible = line.includes("\r") ? line.slice(line.lastIndexOf("\r") + 1) : line;
+      // eslint-disable-next-line no-control-regex
+      return visible.replace(/[\x00-\x08\x0b-\x1f\x7f]/g, "").trimEnd();
+    });
+  while (lines.length > 0 && !lines[lines.length - 1]) lines.pop();
+  while (lines.length > 0 && !lines[0]) lines.shift();
+  return lines;
+}
@@ -91,6 +91,13 @@ export interface ACPTurnCompleteEvent {
   usage?: { inputTokens?: number; outputTokens?: number } | null;
 }
 
+/** Output chunk from a client-side terminal the agent created via `terminal/create`. */
+export interface ACPTerminalOutputEvent {
+  _sessionId: string;
+  terminalId: string;
+  data: string;
+}
+
 export interface ACPAuthEnvVar {
   name: string;
   label?: string | null;
@@ -24,10 +24,20 @@ export type { ThreadStartParams as CodexThreadStartParams } from "./codex-protoc
 export type { ThreadStartResponse as CodexThreadStartResponse } from "./codex-protocol/v2/ThreadStartResponse";
 export type { ThreadResumeParams as CodexThreadResumeParams } from "./codex-protocol/v2/ThreadResumeParams";
 export type { ThreadResumeResponse as CodexThreadResumeResponse } from "./codex-protocol/v2/ThreadResumeResponse";
+export type { ThreadForkParams as CodexThreadForkParams } from "./codex-protocol/v2/ThreadForkParams";
+export type { ThreadForkResponse as CodexThreadForkResponse } from "./codex-protocol/v2/ThreadForkResponse";
+export type { ThreadRollbackParams as CodexThreadRollbackParams } from "./codex-protocol/v2/ThreadRollbackParams";
 export type { ThreadListParams as CodexThreadListParams } from "./codex-protocol/v2/ThreadListParams";
 export type { ThreadListResponse as CodexThreadListResponse } from "./codex-protocol/v2/ThreadListResponse";
+export type { ThreadReadParams as CodexThreadReadParams } from "./codex-protocol/v2/ThreadReadParams";
+export type { ThreadReadResponse as CodexThreadReadResponse } from "./codex-protocol/v2/ThreadReadResponse";
 export type { TurnStartParams as CodexTurnStartParams } from "./codex-protocol/v2/TurnStartParams";
 export type { TurnStartResponse as CodexTurnStartResponse } from "./codex-protocol/v2/TurnStartResponse";
+export type { ReviewStartParams as CodexReviewStartParams } from "./codex-protocol/v2/ReviewStartParams";
+export type { ReviewStartResponse as CodexReviewStartResponse } from "./codex-protocol/v2/ReviewStartResponse";
+export type { ReviewTarget as CodexReviewTarget } from "./codex-protocol/v2/ReviewTarget";
+export type { TurnSteerParams as CodexTurnSteerParams } from "./codex-protocol/v2/TurnSteerParams";
+export type { TurnSteerResponse as CodexTurnSteerResponse } from "./codex-protocol/v2/TurnSteerResponse";
 export type { TurnInterruptParams as CodexTurnInterruptParams } from "./codex-protocol/v2/TurnInterruptParams";
 export type { TurnStatus as CodexTurnStatus } from "./codex-protocol/v2/TurnStatus";
 export type { Turn as CodexTurn } from "./codex-protocol/v2/Turn";
@@ -69,6 +79,13 @@ export type { LoginAccountResponse as CodexLoginResponse } from "./codex-protoco
 export type { GetAccountResponse as CodexAccountResponse } from "./codex-protocol/v2/GetAccountResponse";
 export type { Account as CodexAccount } from "./codex-protocol/v2/Account";
 
+// Rate limit / credit types
+export type { GetAccountRateLimitsResponse as CodexRateLimitsResponse } from "./codex-protocol/v2/GetAccountRateLimitsResponse";
+export type { AccountRateLimitsUpdatedNotification as CodexRateLimitsUpdatedNotification } from "./codex-protocol/v2/AccountRateLimitsUpdatedNotification";
+export type { RateLimitSnapshot as CodexRateLimitSnapshot } from "./codex-protocol/v2/RateLimitSnapshot";
+export type { RateLimitWindow as CodexRateLimitWindow } from "./codex-protocol/v2/RateLimitWindow";
+export type { CreditsSnapshot as CodexCreditsSnapshot } from "./codex-protocol/v2/CreditsSnapshot";
+
 // Item sub-types
 export type { FileUpdateChange as CodexFileUpdateChange } from "./codex-protocol/v2/FileUpdateChange";
 export type { CommandExecutionStatus as CodexCommandExecutionStatus } from "./codex-protocol/v2/CommandExecutionStatus";
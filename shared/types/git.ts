@@ -39,14 +39,181 @@ export interface GitRepoInfo {
   isPrimaryWorktree: boolean;
 }
 
+/** Multi-step operation that can stop on conflicts and be continued or aborted. */
+export type GitOperation = "merge" | "rebase" | "cherry-pick" | "revert";
+
 export interface GitStatus {
   branch: string;
   upstream?: string;
   ahead: number;
   behind: number;
   files: GitFileChange[];
+  /** Set while a merge/rebase/cherry-pick/revert is in progress. */
+  operation?: GitOperation;
+}
+
+/** A `git log` entry with graph and decoration data for the history view. */
+export interface GitHistoryEntry extends GitLogEntry {
+  parents: string[];
+  /** Decorations, e.g. `HEAD -> main`, `origin/main`, `tag: v1.0`. */
+  refs: string[];
+  session?: GitSessionLink;
+}
+
+/** Chat session a commit was attributed to through its `Harnss-Session` / `Harnss-Turn` trailers. */
+export interface GitSessionLink {
+  sessionId: string;
+  /** Ids of the user messages opening the turns that produced the committed changes — the first is in `sessionId`. */
+  turns: string[];
+}
+
+/** One line of `git blame`, with the session of the commit that last changed it. */
+export interface GitBlameLine {
+  /** 1-based line number in the blamed revision. */
+  line: number;
+  hash: string;
+  author: string;
+  date: string;
+  summary: string;
+  content: string;
+  /** False for working-tree lines that aren't committed yet. */
+  committed: boolean;
+  session?: GitSessionLink;
+}
+
+export interface GitHistoryFilter {
+  /** Include every local and remote branch instead of just HEAD. */
+  allBranches?: boolean;
+  path?: string;
+  author?: string;
+  message?: string;
+}
+
+export interface GitCommitFile {
+  path: string;
+  oldPath?: string;
+  status: GitFileStatus;
+}
+
+export interface GitCommitDetails {
+  hash: string;
+  /** Full commit message. */
+  body: string;
+  /** Files changed relative to the first parent. */
+  files: GitCommitFile[];
+}
+
+/** A worktree as listed by `git worktree list`. */
+export interface GitWorktree {
+  path: string;
+  /** Checked-out commit. */
+  head: string;
+  /** Short branch name; unset when detached. */
+  branch?: string;
+  isPrimary: boolean;
+  locked: boolean;
+  prunable: boolean;
+}
+
+/** One `.harnss/worktree.json` setup command and how it went. */
+export interface GitWorktreeSetupStep {
+  command: string;
+  ok: boolean;
+  output?: string;
+  error?: string;
+}
+
+/** Slower per-worktree facts for the worktree manager, loaded on demand. */
+export interface GitWorktreeDetails {
+  path: string;
+  /** Files with uncommitted changes, untracked included. */
+  changedFiles: number;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  /** Committer date of HEAD. */
+  lastCommitDate?: string;
+  /** HEAD is already contained in the primary worktree's HEAD. */
+  merged: boolean;
+  /** Disk usage in bytes, symlinks not followed. */
+  sizeBytes: number;
+  /** Sizing stopped at its entry cap — `sizeBytes` is a lower bound. */
+  sizeCapped: boolean;
+  /** Last run of the setup commands, when Harnss has run them. */
+  setup?: { ranAt: number; steps: GitWorktreeSetupStep[] };
 }
 
+/** One end of a comparison: a branch/ref or whatever a worktree has checked out. */
+export type GitCompareSide =
+  | { kind: "ref"; ref: string }
+  | { kind: "worktree"; path: string };
+
+export interface GitCompareEnd {
+  label: string;
+  hash: string;
+  /** Branch name when the side is on a branch (worktrees may be detached). */
+  branch?: string;
+  worktreePath?: string;
+  /** The worktree has uncommitted changes. */
+  dirty?: boolean;
+  /**
+   * Commit holding the worktree's uncommitted tracked changes (`git stash
+   * create`, nothing stashed). File diffs use it in place of `hash`; commits
+   * and merges still go by `hash`.
+   */
+  snapshot?: string;
+}
+
+export interface GitCompareResult {
+  base: GitCompareEnd;
+  head: GitCompareEnd;
+  /** Commits on head that base doesn't have, newest first. */
+  ahead: GitLogEntry[];
+  /** Number of commits on base that head doesn't have. */
+  behind: number;
+  /** Files changed on head since the merge base (`git diff base...head`). */
+  files: GitCommitFile[];
+}
+
+/** `soft` keeps the undone commits' changes staged, `mixed` leaves them unstaged. */
+export type GitResetMode = "soft" | "mixed";
+
+export type GitRewriteAction = "pick" | "squash" | "fixup";
+
+/** One line of a generated rebase todo, oldest commit first. */
+export interface GitRewriteStep {
+  hash: string;
+  action: GitRewriteAction;
+}
+
+export interface GitStashEntry {
+  /** `stash@{n}` */
+  ref: string;
+  index: number;
+  message: string;
+  /** Branch the stash was created on. */
+  branch?: string;
+  date: string;
+}
+
+/** The three index stages of a conflicted file plus its working-tree content. */
+export interface GitConflictFile {
+  path: string;
+  base: string;
+  ours: string;
+  theirs: string;
+  /** Working-tree content, with conflict markers until resolved. */
+  merged: string;
+  /** Binary content isn't loaded — the file can only be taken whole from one side. */
+  binary: boolean;
+  /** The side deleted the file (modify/delete conflict). */
+  oursDeleted: boolean;
+  theirsDeleted: boolean;
+}
+
+/** Side taken whole when resolving a conflict. */
+export type GitConflictSide = "ours" | "theirs";
+
 export interface GitLogEntry {
   hash: string;
   shortHash: string;
@@ -54,3 +221,49 @@ export interface GitLogEntry {
   author: string;
   date: string;
 }
+
+export interface GitPushOptions {
+  /** Ties progress events and credential prompts to this push. */
+  operationId?: string;
+  /** Publish the current branch and track it. */
+  setUpstream?: boolean;
+  forceWithLease?: boolean;
+  /** Push all local tags instead of the branch. */
+  tags?: boolean;
+  /** Push just this tag instead of the branch. */
+  tag?: string;
+}
+
+/** One progress update from a running push, pull or fetch. */
+export interface GitRemoteProgress {
+  operationId: string;
+  /** e.g. "Receiving objects" */
+  phase: string;
+  percent?: number;
+}
+
+/** A credential prompt git raised through askpass, waiting for the user. */
+export interface GitAskpassRequest {
+  requestId: string;
+  operationId: string;
+  /** Git's own prompt text, e.g. "Password for 'https://github.com':" */
+  prompt: string;
+}
+
+export interface GitTag {
+  name: string;
+  /** Commit the tag points at (peeled for annotated tags). */
+  hash: string;
+  annotated: boolean;
+  /** Subject of an annotated tag's message. */
+  message?: string;
+  date: string;
+}
+
+export interface GitReleaseNotes {
+  notes: string;
+  /** Previous tag the notes start after; absent when there is none. */
+  from?: string;
+  to: string;
+  commitCount: number;
+}
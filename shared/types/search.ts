@@ -0,0 +1,80 @@
+/**
+ * Session search types shared between electron and renderer processes.
+ *
+ * Canonical definitions — import from here, never redefine.
+ */
+
+import type { EngineId } from "./engine";
+
+/**
+ * Which part of a message an indexed entry came from.
+ * Assistant thinking and tool inputs/outputs are indexed as their own roles
+ * so they can be filtered independently from the visible conversation.
+ */
+export type SearchEntryRole =
+  | "user"
+  | "assistant"
+  | "thinking"
+  | "tool_call"
+  | "tool_result"
+  | "system"
+  | "summary";
+
+export interface SessionSearchFilters {
+  engines?: EngineId[];
+  models?: string[];
+  branches?: string[];
+  folderIds?: string[];
+  roles?: SearchEntryRole[];
+  /** Inclusive lower bound on the message timestamp (ms since epoch). */
+  dateFrom?: number;
+  /** Inclusive upper bound on the message timestamp (ms since epoch). */
+  dateTo?: number;
+}
+
+export interface SessionSearchRequest {
+  projectIds: string[];
+  query: string;
+  filters?: SessionSearchFilters;
+  /** Number of message hits to skip (paging). */
+  offset?: number;
+  /** Page size for message hits (default: 25). */
+  limit?: number;
+}
+
+export interface SearchMessageResult {
+  sessionId: string;
+  projectId: string;
+  sessionTitle: string;
+  messageId: string;
+  role: SearchEntryRole;
+  snippet: string;           // ~120 chars around the first match
+  /** `[start, end)` character ranges inside `snippet` that matched a query term. */
+  highlights: Array<[number, number]>;
+  score: number;
+  timestamp: number;
+}
+
+export interface SearchSessionResult {
+  sessionId: string;
+  projectId: string;
+  title: string;
+  createdAt: number;
+}
+
+/** Distinct filter values present in the searched projects — drives the filter UI. */
+export interface SessionSearchFacets {
+  engines: EngineId[];
+  models: string[];
+  branches: string[];
+  folderIds: string[];
+}
+
+export interface SessionSearchResponse {
+  messageResults: SearchMessageResult[];
+  sessionResults: SearchSessionResult[];
+  /** Total number of message hits across all pages. */
+  totalMessageResults: number;
+  hasMore: boolean;
+  facets: SessionSearchFacets;
+}
@@ -29,6 +29,23 @@ export interface NotificationSettings {
   sessionComplete: NotificationEventSettings;
 }
 
+/** A named terminal setup offered by the Terminal panel's new-tab picker. */
+export interface TerminalProfile {
+  id: string;
+  name: string;
+  /** Shell executable; empty falls back to $SHELL (or %COMSPEC% on Windows) */
+  shell?: string;
+  args?: string[];
+  /** Added on top of the inherited environment */
+  env?: Record<string, string>;
+  /** Working directory relative to the project root (absolute paths are used as-is) */
+  cwd?: string;
+  /** Typed into the shell once it starts */
+  command?: string;
+  /** Emoji or lucide icon name */
+  icon?: string;
+}
+
 // ── Main AppSettings interface ──
 
 /** Main-process app settings (persisted to JSON file in data dir). */
@@ -57,6 +74,12 @@ export interface AppSettings {
   showDevFillInChatTitleBar: boolean;
   /** Show the Jira board UI in the sidebar and main panel (developer preview) */
   showJiraBoard: boolean;
+  /** Save terminal tabs (cwd, env, launch command, scrollback) and re-spawn them on the next launch (default: false) */
+  persistentTerminals: boolean;
+  /** Named terminal profiles (shell, args, env, cwd, startup command) */
+  terminalProfiles: TerminalProfile[];
+  /** Default terminal profile id per project id — new tabs without an explicit profile use it */
+  defaultTerminalProfiles: Record<string, string>;
   /** Preferred native macOS background material when window transparency is enabled */
   macBackgroundEffect: MacBackgroundEffect;
   /** Enable anonymous analytics to help improve the app (default: true) */
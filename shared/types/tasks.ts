@@ -0,0 +1,19 @@
+/**
+ * Project task types shared between electron and renderer processes.
+ *
+ * Canonical definitions — import from here, never redefine.
+ */
+
+/** Where a task was discovered: package.json scripts, Makefile targets or justfile recipes. */
+export type ProjectTaskSource = "npm" | "make" | "just";
+
+export interface ProjectTask {
+  /** Stable within a project: `${source}:${name}` */
+  id: string;
+  source: ProjectTaskSource;
+  name: string;
+  /** Shell command that runs the task from the project root */
+  command: string;
+  /** Script body or doc comment, shown as a hint */
+  detail?: string;
+}
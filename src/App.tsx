@@ -2,6 +2,7 @@ import { useEffect } from "react";
 import { Toaster } from "sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AppLayout } from "@/components/AppLayout";
+import { GitAskpassDialog } from "@/components/git/GitAskpassDialog";
 import { syncAnalyticsSettings } from "@/lib/analytics/posthog";
 
 export function App() {
@@ -21,6 +22,7 @@ export function App() {
   return (
     <TooltipProvider>
       <AppLayout />
+      <GitAskpassDialog />
       <Toaster
         position="top-right"
         toastOptions={{
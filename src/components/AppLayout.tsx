@@ -24,6 +24,8 @@ import { AppSidebar } from "./AppSidebar";
 import { ChatHeader } from "./ChatHeader";
 import { ChatSearchBar } from "./ChatSearchBar";
 import { ChatView } from "./ChatView";
+import { ExportChatDialog } from "./ExportChatDialog";
+import { ReadOnlyChatNotice } from "./ReadOnlyChatNotice";
 import { BottomComposer } from "./BottomComposer";
 import { ToolPicker } from "./ToolPicker";
 import { PANEL_TOOLS_MAP } from "./ToolPicker";
@@ -37,6 +39,10 @@ import { CodexAuthDialog } from "./CodexAuthDialog";
 import { ACPAuthDialog } from "./ACPAuthDialog";
 import { JiraBoardPanel } from "./JiraBoardPanel";
 import { isMac, isWindows } from "@/lib/utils";
+import { extractTurnSummaries } from "@/lib/chat/turn-changes";
+import { buildSessionTrailers, findSessionsForFiles, loadEditLedger, recordSessionEdits } from "@/lib/git/session-attribution";
+import { groupSessionsByWorktree } from "@/lib/git/worktree-sessions";
+import { getSessionCwd } from "@/lib/session/space-projects";
 import { SplitHandle } from "./split/SplitHandle";
 import { SplitDropZone } from "./split/SplitDropZone";
 import { SplitTopRowItem } from "./split/SplitTopRowItem";
@@ -57,6 +63,9 @@ import { useJiraBoard } from "@/hooks/useJiraBoard";
 import { useSplitDragDrop } from "@/hooks/useSplitDragDrop";
 import { useToolDragDrop, findDraggedIsland, type ToolDragState } from "@/hooks/useToolDragDrop";
 import { useAppLayoutUIState } from "@/hooks/app-layout/useAppLayoutUIState";
+import { buildTerminalContext, TERMINAL_MENTION_LINES } from "@/lib/terminal-context";
+import { getFocusedTerminalId } from "@/lib/terminal-tabs";
+import { useBrowserStore } from "@/stores/browser-store";
 import {
   useMainToolWorkspace,
   togglePanelTool,
@@ -80,6 +89,7 @@ import {
   isNearBottomDockZone,
 } from "@/lib/workspace/drag";
 import { AgentProvider, type AgentContextValue } from "./AgentContext";
+import { FilePreviewProvider, type FilePreviewContextValue } from "./FilePreviewContext";
 
 export function AppLayout() {
   const o = useAppOrchestrator();
@@ -104,7 +114,7 @@ export function AppLayout() {
     handleToggleTool, handleToolReorder, handleNewChat, handleSend,
     handleModelChange, handlePermissionModeChange, handlePlanModeChange,
     handleClaudeModelEffortChange, handleAgentWorktreeChange, handleStop, handleSelectSession,
-    handleSendQueuedNow, handleUnqueueMessage, handleCreateProject, handleImportCCSession,
+    handleSendQueuedNow, handleSteerQueuedMessage, handleUnqueueMessage, handleCreateProject, handleImportCCSession, handleImportCodexThread, handleImportSessionFile,
     handleNavigateToMessage, handleStartCreateSpace, handleConfirmCreateSpace, handleCancelCreateSpace,
     handleUpdateSpace, handleDeleteSpace, handleMoveProjectToSpace, handleSeedDevExampleSpaceData,
   } = actions;
@@ -139,6 +149,10 @@ export function AppLayout() {
     clearGrabbedElements,
     handleElementGrab,
     handleRemoveGrabbedElement,
+    terminalContexts,
+    clearTerminalContexts,
+    handleTerminalContext,
+    handleRemoveTerminalContext,
     previewFile,
     handlePreviewFile,
     handleClosePreview,
@@ -160,15 +174,18 @@ export function AppLayout() {
     images?: Parameters<typeof handleSend>[1];
     displayText?: string;
   } | null>(null);
+  const [exportChatOpen, setExportChatOpen] = useState(false);
+  const handleOpenExportChat = useCallback(() => setExportChatOpen(true), []);
 
 
-  // Wrap handleSend to clear grabbed elements after sending
+  // Wrap handleSend to clear grabbed elements and terminal attachments after sending
   const wrappedHandleSend = useCallback(
     async (...args: Parameters<typeof handleSend>) => {
       await handleSend(...args);
       clearGrabbedElements();
+      clearTerminalContexts();
     },
-    [clearGrabbedElements, handleSend],
+    [clearGrabbedElements, clearTerminalContexts, handleSend],
   );
 
   const handleOpenNewChat = useCallback(
@@ -188,9 +205,10 @@ export function AppLayout() {
       const projectId = activeProjectId ?? activeSpaceProject?.id;
       if (!projectId) return;
       clearGrabbedElements();
+      clearTerminalContexts();
       await handleOpenNewChat(projectId);
     },
-    [activeProjectId, activeSpaceProject, clearGrabbedElements, handleOpenNewChat],
+    [activeProjectId, activeSpaceProject, clearGrabbedElements, clearTerminalContexts, handleOpenNewChat],
   );
 
   const handleSidebarSelectSession = useCallback(
@@ -208,6 +226,80 @@ export function AppLayout() {
     [handleSelectSession, manager.sessions, projectManager.projects, setJiraBoardProjectForSpace, splitView.dismissSplitView],
   );
 
+  // ── Git ↔ chat links: commit trailers and "open chat" from history/blame ──
+  // Read through a ref so the git panel's callbacks stay stable while messages stream
+  const sessionLinkRef = useRef({
+    messages: manager.messages,
+    sessions: manager.sessions,
+    activeSessionId: manager.activeSessionId,
+    projects: projectManager.projects,
+  });
+  sessionLinkRef.current = {
+    messages: manager.messages,
+    sessions: manager.sessions,
+    activeSessionId: manager.activeSessionId,
+    projects: projectManager.projects,
+  };
+  const [pendingTurnJump, setPendingTurnJump] = useState<{ sessionId: string; messageId: string } | null>(null);
+
+  const getCommitTrailers = useCallback((repoPath: string, paths: string[]) => {
+    const { messages, activeSessionId, sessions, projects } = sessionLinkRef.current;
+    // The active chat's latest turn may not have been saved (and so recorded) yet
+    const activeSession = activeSessionId && activeSessionId !== DRAFT_ID
+      ? sessions.find((session) => session.id === activeSessionId)
+      : undefined;
+    const root = activeSession && getSessionCwd(activeSession, projects);
+    if (activeSession && root) recordSessionEdits(activeSession.id, root, extractTurnSummaries(messages, false));
+    return buildSessionTrailers(findSessionsForFiles(loadEditLedger(), repoPath, paths));
+  }, []);
+
+  const getSessionTitle = useCallback(
+    (sessionId: string) => sessionLinkRef.current.sessions.find((session) => session.id === sessionId)?.title,
+    [],
+  );
+
+  const getWorktreeSessions = useCallback(
+    (worktreePaths: string[]) => {
+      const { sessions, projects } = sessionLinkRef.current;
+      return groupSessionsByWorktree(sessions, worktreePaths, (session) => getSessionCwd(session, projects));
+    },
+    [],
+  );
+
+  // `@terminal` in the composer: attach the recent output of the active terminal tab
+  const handleMentionTerminal = useCallback(async () => {
+    const tab = activeSpaceTerminals.tabs.find((item) => item.id === activeSpaceTerminals.activeTabId);
+    if (!tab) {
+      toast.error("No terminal open", { description: "Open a terminal in this space to mention it." });
+      return;
+    }
+    const snapshot = await window.claude.terminal.snapshot(getFocusedTerminalId(tab));
+    const context = buildTerminalContext(snapshot.output ?? "", { label: tab.label, maxLines: TERMINAL_MENTION_LINES });
+    if (!context.text) {
+      toast.error(`${tab.label} has no output yet`);
+      return;
+    }
+    handleTerminalContext(context);
+  }, [activeSpaceTerminals.activeTabId, activeSpaceTerminals.tabs, handleTerminalContext]);
+
+  const handleOpenSession = useCallback((sessionId: string, turnId?: string) => {
+    if (!sessionLinkRef.current.sessions.some((session) => session.id === sessionId)) {
+      toast.error("Chat not found", { description: "The chat that made this change is no longer in your history." });
+      return;
+    }
+    if (turnId) setPendingTurnJump({ sessionId, messageId: turnId });
+    if (sessionId !== sessionLinkRef.current.activeSessionId) handleSidebarSelectSession(sessionId);
+  }, [handleSidebarSelectSession]);
+
+  // Scroll to the turn once the target session's messages have loaded
+  useEffect(() => {
+    if (!pendingTurnJump || manager.activeSessionId !== pendingTurnJump.sessionId || manager.messages.length === 0) return;
+    const { messageId } = pendingTurnJump;
+    setPendingTurnJump(null);
+    // The turn may have been rolled back or compacted away since the commit
+    if (manager.messages.some((message) => message.id === messageId)) setScrollToMessageId(messageId);
+  }, [manager.activeSessionId, manager.messages, pendingTurnJump, setScrollToMessageId]);
+
 
   useEffect(() => {
     if (!pendingSplitPaneSend) return;
@@ -496,7 +588,7 @@ export function AppLayout() {
       if (drag.islandId) {
         mainToolWorkspace.moveToolIslandToTopColumn(drag.islandId, drag.targetColumnId, drag.targetIndex ?? undefined);
       } else if (drag.toolId in PANEL_TOOLS_MAP) {
-        mainToolWorkspace.openToolIslandInTopColumn(drag.toolId as Extract<ToolId, "terminal" | "browser" | "git" | "files" | "project-files" | "mcp">, drag.targetColumnId, drag.targetIndex ?? undefined);
+        mainToolWorkspace.openToolIslandInTopColumn(drag.toolId as Extract<ToolId, "terminal" | "browser" | "git" | "files" | "project-files" | "mcp" | "task-runner">, drag.targetColumnId, drag.targetIndex ?? undefined);
       }
     } else {
       const targetDock = drag.targetArea;
@@ -504,7 +596,7 @@ export function AppLayout() {
         if (drag.islandId) {
           mainToolWorkspace.moveToolIsland(drag.islandId, targetDock, drag.targetIndex ?? undefined);
         } else {
-          mainToolWorkspace.openToolIsland(drag.toolId as Extract<ToolId, "terminal" | "browser" | "git" | "files" | "project-files" | "mcp">, targetDock, drag.targetIndex ?? undefined);
+          mainToolWorkspace.openToolIsland(drag.toolId as Extract<ToolId, "terminal" | "browser" | "git" | "files" | "project-files" | "mcp" | "task-runner">, targetDock, drag.targetIndex ?? undefined);
         }
       }
     }
@@ -522,7 +614,7 @@ export function AppLayout() {
     if (found) return found;
     // Fallback for picker-initiated drags (no islandId, no sourceSessionId)
     if (mainToolDrag && !mainToolDrag.islandId && mainToolDrag.toolId in PANEL_TOOLS_MAP) {
-      return mainToolWorkspace.getToolIsland(mainToolDrag.toolId as Extract<ToolId, "terminal" | "browser" | "git" | "files" | "project-files" | "mcp">);
+      return mainToolWorkspace.getToolIsland(mainToolDrag.toolId as Extract<ToolId, "terminal" | "browser" | "git" | "files" | "project-files" | "mcp" | "task-runner">);
     }
     return null;
   }, [mainToolDrag, mainToolWorkspace]);
@@ -683,9 +775,10 @@ export function AppLayout() {
 
 
   useEffect(() => {
-    // Grabbed elements are session-specific context — discard on switch
+    // Grabbed elements and terminal attachments are session-specific context — discard on switch
     clearGrabbedElements();
-  }, [clearGrabbedElements, manager.activeSessionId]);
+    clearTerminalContexts();
+  }, [clearGrabbedElements, clearTerminalContexts, manager.activeSessionId]);
 
   useLayoutEffect(() => {
     lastTopScrollProgressRef.current = 0;
@@ -726,6 +819,13 @@ export function AppLayout() {
     }
   }, [manager.isConnected, manager.fullRevert]);
 
+  const handleFork = useCallback((messageId: string) => {
+    if (!manager.forkSession) return;
+    void manager.forkSession(messageId).then((result) => {
+      if (result.error) toast.error("Couldn't fork chat", { description: result.error });
+    });
+  }, [manager.forkSession]);
+
   const activeSessionProject = manager.activeSession
     ? projectManager.projects.find((project) => project.id === manager.activeSession?.projectId) ?? null
     : null;
@@ -893,6 +993,11 @@ export function AppLayout() {
     lockedAgentId,
   }), [agents, selectedAgent, saveAgent, deleteAgent, handleAgentChange, lockedEngine, lockedAgentId]);
 
+  // ── File preview context (chat cards open files at a line without prop drilling) ──
+  const filePreviewContextValue = useMemo<FilePreviewContextValue>(() => ({
+    previewFile: handlePreviewFile,
+  }), [handlePreviewFile]);
+
   // Split top-row and bottom-dock props are now passed to <SplitTopRowItem> and
   // <SplitBottomToolIsland> components — see their usage in the JSX below.
   // The shared tool island context (toolIslandCtx) is passed to both.
@@ -945,17 +1050,35 @@ export function AppLayout() {
   }, [isSplitActive, mainToolWorkspace, mainTopToolColumnCount, maxMainTopToolColumns]);
 
   // ── Shared tool island context (terminal/MCP/git props common to all islands) ──
+  // Links clicked in terminal output: hand the URL to a Browser panel, opening one if none is showing
+  const handleOpenInBrowser = useCallback((url: string) => {
+    useBrowserStore.getState().requestOpen(url);
+    if (isSplitActive) {
+      const hasBrowser = splitView.visibleSessionIds.some((sessionId) => splitView.getToolIslandForPane(sessionId, "browser"));
+      if (!hasBrowser && splitView.focusedSessionId) splitView.openToolIsland(splitView.focusedSessionId, "browser", "top");
+      return;
+    }
+    if (!mainToolWorkspace.getToolIsland("browser")) {
+      togglePanelTool(mainToolWorkspace, "browser", canFitToolAsNewColumn);
+    }
+  }, [canFitToolAsNewColumn, isSplitActive, mainToolWorkspace, splitView]);
+
   const toolIslandCtx = useToolIslandContext({
     spaceId: spaceManager.activeSpaceId,
     terminalTabs: activeSpaceTerminals.tabs,
     activeTerminalTabId: activeSpaceTerminals.activeTabId,
     terminalsReady: spaceTerminals.isReady,
     onSetActiveTab: (tabId) => spaceTerminals.setActiveTab(spaceManager.activeSpaceId, tabId),
-    onCreateTerminal: () => spaceTerminals.createTerminal(spaceManager.activeSpaceId, activeSpaceTerminalCwd ?? undefined),
-    onEnsureTerminal: () => spaceTerminals.ensureTerminal(spaceManager.activeSpaceId, activeSpaceTerminalCwd ?? undefined),
+    onCreateTerminal: (profile) => spaceTerminals.createTerminal(spaceManager.activeSpaceId, activeSpaceTerminalCwd ?? undefined, profile),
+    onEnsureTerminal: (profile) => spaceTerminals.ensureTerminal(spaceManager.activeSpaceId, activeSpaceTerminalCwd ?? undefined, profile),
     onCloseTerminal: (tabId) => spaceTerminals.closeTerminal(spaceManager.activeSpaceId, tabId),
+    onSplitTerminal: (tabId, direction) => spaceTerminals.splitTerminal(spaceManager.activeSpaceId, tabId, direction, activeSpaceTerminalCwd ?? undefined),
+    onFocusTerminalPane: (tabId, terminalId) => spaceTerminals.focusTerminalPane(spaceManager.activeSpaceId, tabId, terminalId),
+    onCloseTerminalPane: (tabId, terminalId) => spaceTerminals.closeTerminalPane(spaceManager.activeSpaceId, tabId, terminalId),
     resolvedTheme,
     onElementGrab: handleElementGrab,
+    onOpenInBrowser: handleOpenInBrowser,
+    onSendTerminalToChat: handleTerminalContext,
     onScrollToToolCall: setScrollToMessageId,
     onPreviewFile: handlePreviewFile,
     collapsedRepos: settings.collapsedRepos,
@@ -965,10 +1088,16 @@ export function AppLayout() {
     onRefreshMcpStatus: manager.refreshMcpStatus,
     onReconnectMcpServer: manager.reconnectMcpServer,
     onRestartWithMcpServers: manager.restartWithMcpServers,
+    onRequestCodexReview: manager.startCodexReview,
+    onSendToChat: wrappedHandleSend,
+    getCommitTrailers,
+    onOpenSession: handleOpenSession,
+    getSessionTitle,
+    getWorktreeSessions,
   });
 
   const renderMainWorkspaceToolContent = useCallback((
-    toolId: Extract<ToolId, "terminal" | "browser" | "git" | "files" | "project-files" | "mcp">,
+    toolId: Extract<ToolId, "terminal" | "browser" | "git" | "files" | "project-files" | "mcp" | "task-runner">,
     controls: React.ReactNode,
   ) => (
     <ToolIslandContent
@@ -1004,6 +1133,7 @@ export function AppLayout() {
   return (
     <ThemeProvider value={resolvedTheme}>
     <AgentProvider value={agentContextValue}>
+    <FilePreviewProvider value={filePreviewContextValue}>
     <div
       className={`relative flex h-screen overflow-hidden bg-sidebar text-foreground${settings.islandLayout ? "" : " no-islands"}${settings.islandShine ? "" : " no-island-shine"}`}
       style={islandLayoutVars}
@@ -1043,6 +1173,8 @@ export function AppLayout() {
           onRenameProject: projectManager.renameProject,
           onUpdateProjectIcon: projectManager.updateProjectIcon,
           onImportCCSession: handleImportCCSession,
+          onImportCodexThread: handleImportCodexThread,
+          onImportSessionFile: handleImportSessionFile,
           onToggleSidebar: sidebar.toggle,
           onNavigateToMessage: handleNavigateToMessage,
           onMoveProjectToSpace: handleMoveProjectToSpace,
@@ -1256,11 +1388,15 @@ export function AppLayout() {
                             seedDevExampleConversation={manager.seedDevExampleConversation}
                             grabbedElements={grabbedElements}
                             handleRemoveGrabbedElement={handleRemoveGrabbedElement}
+                            terminalContexts={terminalContexts}
+                            handleRemoveTerminalContext={handleRemoveTerminalContext}
+                            handleMentionTerminal={handleMentionTerminal}
                             lockedEngine={lockedEngine}
                             lockedAgentId={lockedAgentId}
                             handleAgentWorktreeChange={handleAgentWorktreeChange}
                             handleRevert={manager.isConnected && manager.revertFiles ? handleRevert : undefined}
                             handleFullRevert={manager.isConnected && manager.fullRevert ? handleFullRevert : undefined}
+                            handleFork={manager.forkSession ? handleFork : undefined}
                             makePaneScrollCallback={makePaneScrollCallback}
                             setScrollToMessageId={setScrollToMessageId}
                             handlePreviewFile={handlePreviewFile}
@@ -1478,10 +1614,12 @@ export function AppLayout() {
                   planMode={activePaneCtrl?.panePlanMode ?? settings.planMode}
                   permissionMode={activePaneCtrl?.panePermissionMode}
                   acpPermissionBehavior={manager.activeSession?.engine === "acp" ? settings.acpPermissionBehavior : undefined}
+                  engine={manager.activeSession?.engine}
                   onToggleSidebar={sidebar.toggle}
                   showDevFill={devFillEnabled}
                   onSeedDevExampleConversation={manager.seedDevExampleConversation}
                   onSeedDevExampleSpaceData={handleSeedDevExampleSpaceData}
+                  onExport={manager.activeSession && manager.activeSessionId !== DRAFT_ID ? handleOpenExportChat : undefined}
                 />
               </div>
               {chatSearchOpen && (
@@ -1502,9 +1640,12 @@ export function AppLayout() {
                 sessionId={manager.activeSessionId}
                 onRevert={manager.isConnected && manager.revertFiles ? handleRevert : undefined}
                 onFullRevert={manager.isConnected && manager.fullRevert ? handleFullRevert : undefined}
+                onFork={manager.forkSession ? handleFork : undefined}
                 onTopScrollProgress={handleTopScrollProgress}
                 onSendQueuedNow={handleSendQueuedNow}
+                onSteerQueuedMessage={manager.steerQueuedMessage ? handleSteerQueuedMessage : undefined}
                 onUnqueueQueuedMessage={handleUnqueueMessage}
+                onResumeBudget={manager.resumeBudget}
                 sendNextId={manager.sendNextId}
               />
               <div
@@ -1515,49 +1656,57 @@ export function AppLayout() {
                 }}
               />
               <div data-chat-composer className="pointer-events-none absolute inset-x-0 bottom-0 z-10">
-                <BottomComposer
-                  pendingPermission={manager.pendingPermission}
-                  onRespondPermission={manager.respondPermission}
-                  onSend={wrappedHandleSend}
-                  onClear={handleComposerClear}
-                  onStop={handleStop}
-                  isProcessing={manager.isProcessing}
-                  queuedCount={manager.queuedCount}
-                  model={activePaneCtrl?.paneModel ?? settings.model}
-                  claudeEffort={activePaneCtrl?.paneClaudeEffort ?? settings.claudeEffort}
-                  planMode={activePaneCtrl?.panePlanMode ?? settings.planMode}
-                  permissionMode={activePaneCtrl?.panePermissionMode ?? (manager.sessionInfo?.permissionMode ?? settings.permissionMode)}
-                  onModelChange={activePaneCtrl?.handlePaneModelChange ?? handleModelChange}
-                  onClaudeModelEffortChange={activePaneCtrl?.handlePaneClaudeModelEffortChange ?? handleClaudeModelEffortChange}
-                  onPlanModeChange={activePaneCtrl?.handlePanePlanModeChange ?? handlePlanModeChange}
-                  onPermissionModeChange={activePaneCtrl?.handlePanePermissionModeChange ?? handlePermissionModeChange}
-                  projectPath={activeProjectPath}
-                  contextUsage={manager.contextUsage}
-                  isCompacting={manager.isCompacting}
-                  onCompact={manager.compact}
-                  agents={agents}
-                  selectedAgent={activePaneCtrl?.selectedPaneAgent ?? selectedAgent}
-                  onAgentChange={activePaneCtrl?.handlePaneAgentChange ?? handleAgentChange}
-                  slashCommands={activePaneCtrl?.paneSlashCommands ?? manager.slashCommands}
-                  acpConfigOptions={activePaneCtrl?.paneAcpConfigOptions ?? manager.acpConfigOptions}
-                  acpConfigOptionsLoading={activePaneCtrl?.paneAcpConfigOptionsLoading ?? manager.acpConfigOptionsLoading}
-                  onACPConfigChange={activePaneCtrl?.handlePaneAcpConfigChange ?? manager.setACPConfig}
-                  acpPermissionBehavior={settings.acpPermissionBehavior}
-                  onAcpPermissionBehaviorChange={settings.setAcpPermissionBehavior}
-                  supportedModels={activePaneCtrl?.paneSupportedModels ?? manager.supportedModels}
-                  codexModelsLoadingMessage={activePaneCtrl?.paneCodexModelsLoadingMessage ?? manager.codexModelsLoadingMessage}
-                  codexEffort={activePaneCtrl?.paneCodexEffort ?? manager.codexEffort}
-                  onCodexEffortChange={activePaneCtrl?.handlePaneCodexEffortChange ?? manager.setCodexEffort}
-                  codexModelData={manager.codexRawModels}
-                  grabbedElements={grabbedElements}
-                  onRemoveGrabbedElement={handleRemoveGrabbedElement}
-                  lockedEngine={lockedEngine}
-                  lockedAgentId={lockedAgentId}
-                  selectedWorktreePath={activeSpaceTerminalCwd}
-                  onSelectWorktree={handleAgentWorktreeChange}
-                  isEmptySession={manager.messages.length === 0}
-                  onManageACPs={() => setShowSettings("agents")}
-                />
+                {manager.activeSession?.readOnly ? (
+                  <ReadOnlyChatNotice />
+                ) : (
+                  <BottomComposer
+                    pendingPermission={manager.pendingPermission}
+                    onRespondPermission={manager.respondPermission}
+                    onSend={wrappedHandleSend}
+                    onClear={handleComposerClear}
+                    onReview={manager.startCodexReview}
+                    onStop={handleStop}
+                    isProcessing={manager.isProcessing}
+                    queuedCount={manager.queuedCount}
+                    model={activePaneCtrl?.paneModel ?? settings.model}
+                    claudeEffort={activePaneCtrl?.paneClaudeEffort ?? settings.claudeEffort}
+                    planMode={activePaneCtrl?.panePlanMode ?? settings.planMode}
+                    permissionMode={activePaneCtrl?.panePermissionMode ?? (manager.sessionInfo?.permissionMode ?? settings.permissionMode)}
+                    onModelChange={activePaneCtrl?.handlePaneModelChange ?? handleModelChange}
+                    onClaudeModelEffortChange={activePaneCtrl?.handlePaneClaudeModelEffortChange ?? handleClaudeModelEffortChange}
+                    onPlanModeChange={activePaneCtrl?.handlePanePlanModeChange ?? handlePlanModeChange}
+                    onPermissionModeChange={activePaneCtrl?.handlePanePermissionModeChange ?? handlePermissionModeChange}
+                    projectPath={activeProjectPath}
+                    contextUsage={manager.contextUsage}
+                    isCompacting={manager.isCompacting}
+                    onCompact={manager.compact}
+                    agents={agents}
+                    selectedAgent={activePaneCtrl?.selectedPaneAgent ?? selectedAgent}
+                    onAgentChange={activePaneCtrl?.handlePaneAgentChange ?? handleAgentChange}
+                    slashCommands={activePaneCtrl?.paneSlashCommands ?? manager.slashCommands}
+                    acpConfigOptions={activePaneCtrl?.paneAcpConfigOptions ?? manager.acpConfigOptions}
+                    acpConfigOptionsLoading={activePaneCtrl?.paneAcpConfigOptionsLoading ?? manager.acpConfigOptionsLoading}
+                    onACPConfigChange={activePaneCtrl?.handlePaneAcpConfigChange ?? manager.setACPConfig}
+                    acpPermissionBehavior={settings.acpPermissionBehavior}
+                    onAcpPermissionBehaviorChange={settings.setAcpPermissionBehavior}
+                    supportedModels={activePaneCtrl?.paneSupportedModels ?? manager.supportedModels}
+                    codexModelsLoadingMessage={activePaneCtrl?.paneCodexModelsLoadingMessage ?? manager.codexModelsLoadingMessage}
+                    codexEffort={activePaneCtrl?.paneCodexEffort ?? manager.codexEffort}
+                    onCodexEffortChange={activePaneCtrl?.handlePaneCodexEffortChange ?? manager.setCodexEffort}
+                    codexModelData={manager.codexRawModels}
+                    grabbedElements={grabbedElements}
+                    onRemoveGrabbedElement={handleRemoveGrabbedElement}
+                    terminalContexts={terminalContexts}
+                    onRemoveTerminalContext={handleRemoveTerminalContext}
+                    onMentionTerminal={handleMentionTerminal}
+                    lockedEngine={lockedEngine}
+                    lockedAgentId={lockedAgentId}
+                    selectedWorktreePath={activeSpaceTerminalCwd}
+                    onSelectWorktree={handleAgentWorktreeChange}
+                    isEmptySession={manager.messages.length === 0}
+                    onManageACPs={() => setShowSettings("agents")}
+                  />
+                )}
               </div>
               </>
             ) : (
@@ -1753,6 +1902,16 @@ export function AppLayout() {
         )}
         </div>{/* end showSettings wrapper */}
       </div>
+      {exportChatOpen && manager.activeSession && (
+        <ExportChatDialog
+          open={exportChatOpen}
+          onOpenChange={setExportChatOpen}
+          projectId={manager.activeSession.projectId}
+          sessionId={manager.activeSession.id}
+          title={manager.activeSession.title}
+          messages={manager.messages}
+        />
+      )}
       {showCodexAuthDialog && (
         <CodexAuthDialog
           sessionId={manager.activeSessionId!}
@@ -1773,6 +1932,7 @@ export function AppLayout() {
       <FilePreviewOverlay
         filePath={previewFile?.path ?? null}
         sourceRect={previewFile?.sourceRect ?? null}
+        lineRange={previewFile?.lineRange ?? null}
         onClose={handleClosePreview}
       />
       {/* Welcome wizard — full-screen overlay on first run */}
@@ -1787,6 +1947,7 @@ export function AppLayout() {
         />
       )}
     </div>
+    </FilePreviewProvider>
     </AgentProvider>
     </ThemeProvider>
   );
@@ -102,6 +102,8 @@ interface AppSidebarProjectActions {
   onRenameProject: (id: string, name: string) => void;
   onUpdateProjectIcon: (id: string, icon: string | null, iconType: "emoji" | "lucide" | null) => void;
   onImportCCSession: (projectId: string, ccSessionId: string) => void;
+  onImportCodexThread: (projectId: string, threadId: string) => void;
+  onImportSessionFile: (projectId: string, mode: "resumable" | "readOnly") => void;
   onToggleSidebar: () => void;
   onNavigateToMessage: (sessionId: string, messageId: string) => void;
   onMoveProjectToSpace: (projectId: string, spaceId: string) => void;
@@ -173,6 +175,8 @@ export const AppSidebar = memo(function AppSidebar({
     onRenameProject,
     onUpdateProjectIcon,
     onImportCCSession,
+    onImportCodexThread,
+    onImportSessionFile,
     onToggleSidebar,
     onNavigateToMessage,
     onMoveProjectToSpace,
@@ -250,6 +254,14 @@ export const AppSidebar = memo(function AppSidebar({
 
   const projectIds = useMemo(() => filteredProjects.map((p) => p.id), [filteredProjects]);
 
+  const folderNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    for (const projectId of projectIds) {
+      for (const folder of foldersByProject[projectId] ?? []) names[folder.id] = folder.name;
+    }
+    return names;
+  }, [projectIds, foldersByProject]);
+
   // Pre-group sessions by projectId (O(n) once) instead of filtering per project (O(n*m))
   const sessionsByProject = useMemo(() => {
     const map = new Map<string, ChatSession[]>();
@@ -604,6 +616,7 @@ export const AppSidebar = memo(function AppSidebar({
         >
           <SidebarSearch
             projectIds={projectIds}
+            folderNames={folderNames}
             onNavigateToMessage={onNavigateToMessage}
             onSelectSession={onSelectSession}
           />
@@ -639,6 +652,12 @@ export const AppSidebar = memo(function AppSidebar({
                       onImportCCSession={(ccSessionId) =>
                         onImportCCSession(project.id, ccSessionId)
                       }
+                      onImportCodexThread={(threadId) =>
+                        onImportCodexThread(project.id, threadId)
+                      }
+                      onImportSessionFile={(mode) =>
+                        onImportSessionFile(project.id, mode)
+                      }
                       otherSpaces={otherSpaces}
                       onMoveToSpace={(spaceId) =>
                         onMoveProjectToSpace(project.id, spaceId)
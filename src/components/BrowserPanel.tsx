@@ -9,6 +9,7 @@ import { forwardRef, useCallback, useEffect, useState } from "react";
 import { Globe, Loader2 } from "lucide-react";
 import type { GrabbedElement } from "@/types";
 import { capture } from "@/lib/analytics/analytics";
+import { useBrowserStore } from "@/stores/browser-store";
 import { TabBar } from "@/components/TabBar";
 import type { BrowserTab } from "./browser/browser-types";
 import { MAX_BROWSER_HISTORY } from "./browser/browser-types";
@@ -51,6 +52,7 @@ export function BrowserPanel({ persistKey, onElementGrab, headerControls }: Brow
   const [emptyInput, setEmptyInput] = useState("");
   const [showEmptySuggestions, setShowEmptySuggestions] = useState(false);
   const [history, setHistory] = useState(readBrowserHistory);
+  const pendingOpen = useBrowserStore((state) => state.pendingOpen);
 
   // ── Persistence effects ─────────────────────────────────────────────
 
@@ -101,6 +103,12 @@ export function BrowserPanel({ persistKey, onElementGrab, headerControls }: Brow
     setActiveTabId(tab.id);
   }, []);
 
+  // Links opened from elsewhere in the app (e.g. terminal output)
+  useEffect(() => {
+    if (!pendingOpen || !useBrowserStore.getState().takePendingOpen(pendingOpen.id)) return;
+    createTab(pendingOpen.url);
+  }, [createTab, pendingOpen]);
+
   const openFirstTab = useCallback((value?: string) => {
     const source = value ?? emptyInput;
     const resolved = resolveNavigationInput(source);
@@ -1,10 +1,11 @@
 import { memo } from "react";
-import { ChevronDown, Info, Loader2, PanelLeft, X } from "lucide-react";
+import { ChevronDown, Download, Info, Loader2, PanelLeft, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { isMac } from "@/lib/utils";
-import type { AcpPermissionBehavior } from "@/types";
+import type { AcpPermissionBehavior, EngineId } from "@/types";
+import { CodexUsageIndicator } from "./CodexUsageIndicator";
 
 const PERMISSION_MODE_LABELS: Record<string, string> = {
   plan: "Plan",
@@ -32,12 +33,16 @@ interface ChatHeaderProps {
   planMode?: boolean;
   permissionMode?: string;
   acpPermissionBehavior?: AcpPermissionBehavior;
+  /** Engine of the session shown — Codex sessions get the account rate-limit meter. */
+  engine?: EngineId;
   onToggleSidebar: () => void;
   showDevFill?: boolean;
   onSeedDevExampleConversation?: () => void;
   onSeedDevExampleSpaceData?: () => void;
   /** Close this split pane (renders an X button on the right). */
   onClosePane?: () => void;
+  /** Open the export dialog for the chat shown. */
+  onExport?: () => void;
 }
 
 export const ChatHeader = memo(function ChatHeader({
@@ -53,11 +58,13 @@ export const ChatHeader = memo(function ChatHeader({
   planMode,
   permissionMode,
   acpPermissionBehavior,
+  engine,
   onToggleSidebar,
   showDevFill,
   onSeedDevExampleConversation,
   onSeedDevExampleSpaceData,
   onClosePane,
+  onExport,
 }: ChatHeaderProps) {
   const modeLabel = permissionMode ? PERMISSION_MODE_LABELS[permissionMode] : null;
   const acpBehaviorLabel = acpPermissionBehavior
@@ -77,6 +84,7 @@ export const ChatHeader = memo(function ChatHeader({
   if (sessionId) detailRows.push({ label: "Session", value: sessionId });
 
   const hasDetails = detailRows.length > 0;
+  const showCodexUsage = engine === "codex";
   const showDevSeedButton = import.meta.env.DEV && !!showDevFill && !!onSeedDevExampleConversation;
 
   return (
@@ -146,7 +154,7 @@ export const ChatHeader = memo(function ChatHeader({
       ) : null}
 
       {/* Session info, split view toggle, and pane close */}
-      {(showDevSeedButton || hasDetails || onClosePane) && (
+      {(showDevSeedButton || hasDetails || showCodexUsage || onClosePane || onExport) && (
         <div className="ms-auto flex items-center gap-1.5">
           {onClosePane && (
             <Tooltip>
@@ -187,6 +195,24 @@ export const ChatHeader = memo(function ChatHeader({
               </DropdownMenuContent>
             </DropdownMenu>
           )}
+          {showCodexUsage && <CodexUsageIndicator />}
+          {onExport && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="no-drag h-6 w-6 text-muted-foreground/40 hover:text-foreground/60"
+                  onClick={onExport}
+                >
+                  <Download className="h-3.5 w-3.5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom" className="text-xs">
+                Export chat
+              </TooltipContent>
+            </Tooltip>
+          )}
           {hasDetails && (
             <Tooltip>
               <TooltipTrigger asChild>
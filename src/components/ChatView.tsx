@@ -141,8 +141,11 @@ interface ChatMessageRowProps {
   sendNextId?: string | null;
   onRevert?: (checkpointId: string) => void;
   onFullRevert?: (checkpointId: string) => void;
+  onFork?: (messageId: string) => void;
   onSendQueuedNow?: (messageId: string) => void;
+  onSteerQueuedMessage?: (messageId: string) => void;
   onUnqueueQueuedMessage?: (messageId: string) => void;
+  onResumeBudget?: (messageId: string) => void;
 }
 
 const ChatMessageRow = memo(function ChatMessageRow({
@@ -154,8 +157,11 @@ const ChatMessageRow = memo(function ChatMessageRow({
   sendNextId,
   onRevert,
   onFullRevert,
+  onFork,
   onSendQueuedNow,
+  onSteerQueuedMessage,
   onUnqueueQueuedMessage,
+  onResumeBudget,
 }: ChatMessageRowProps) {
   // ── Display preferences from Zustand store ──
   const autoExpandTools = useSettingsStore((s) => s.autoExpandTools);
@@ -236,8 +242,11 @@ const ChatMessageRow = memo(function ChatMessageRow({
         isSendNextQueued={sendNextId === msg.id}
         onRevert={onRevert}
         onFullRevert={onFullRevert}
+        onFork={onFork}
         onSendQueuedNow={onSendQueuedNow}
+        onSteerQueued={onSteerQueuedMessage}
         onUnqueueQueued={onUnqueueQueuedMessage}
+        onResumeBudget={onResumeBudget}
       />
     </div>
   );
@@ -250,8 +259,11 @@ const ChatMessageRow = memo(function ChatMessageRow({
   prev.sendNextId === next.sendNextId &&
   prev.onRevert === next.onRevert &&
   prev.onFullRevert === next.onFullRevert &&
+  prev.onFork === next.onFork &&
   prev.onSendQueuedNow === next.onSendQueuedNow &&
-  prev.onUnqueueQueuedMessage === next.onUnqueueQueuedMessage,
+  prev.onSteerQueuedMessage === next.onSteerQueuedMessage &&
+  prev.onUnqueueQueuedMessage === next.onUnqueueQueuedMessage &&
+  prev.onResumeBudget === next.onResumeBudget,
 );
 
 // ── ChatViewProps ──
@@ -266,9 +278,13 @@ interface ChatViewProps {
   sessionId?: string;
   onRevert?: (checkpointId: string) => void;
   onFullRevert?: (checkpointId: string) => void;
+  onFork?: (messageId: string) => void;
   onTopScrollProgress?: (progress: number) => void;
   onSendQueuedNow?: (messageId: string) => void;
+  onSteerQueuedMessage?: (messageId: string) => void;
   onUnqueueQueuedMessage?: (messageId: string) => void;
+  /** Lift a budget auto-pause from its system message */
+  onResumeBudget?: (messageId: string) => void;
   sendNextId?: string | null;
   /** Current space ID — included in remount key so space switches show spinner immediately */
   spaceId?: string;
@@ -354,8 +370,8 @@ export const ChatView = memo(function ChatView(props: ChatViewProps) {
 
 function ChatViewContent({
   messages, isProcessing, showThinking, extraBottomPadding, scrollToMessageId, onScrolledToMessage,
-  sessionId, onRevert, onFullRevert, onTopScrollProgress,
-  onSendQueuedNow, onUnqueueQueuedMessage, sendNextId,
+  sessionId, onRevert, onFullRevert, onFork, onTopScrollProgress,
+  onSendQueuedNow, onSteerQueuedMessage, onUnqueueQueuedMessage, onResumeBudget, sendNextId,
 }: ChatViewProps) {
   // ── Display preferences from Zustand store (only those used directly in ChatViewContent) ──
   const autoGroupTools = useSettingsStore((s) => s.autoGroupTools);
@@ -865,8 +881,11 @@ function ChatViewContent({
                 sendNextId={sendNextId}
                 onRevert={onRevert}
                 onFullRevert={onFullRevert}
+                onFork={onFork}
                 onSendQueuedNow={onSendQueuedNow}
+                onSteerQueuedMessage={onSteerQueuedMessage}
                 onUnqueueQueuedMessage={onUnqueueQueuedMessage}
+                onResumeBudget={onResumeBudget}
               />
             </div>
           ))}
@@ -0,0 +1,66 @@
+import { memo } from "react";
+import { Gauge } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useCodexRateLimits } from "@/hooks/useCodexRateLimits";
+import {
+  formatRateLimitReset,
+  formatRateLimitWindow,
+  getPeakRateLimitWindow,
+  getRateLimitLevel,
+  type RateLimitLevel,
+} from "@/lib/engine/codex-rate-limits";
+import type { CodexRateLimitWindow } from "@/types";
+
+const LEVEL_TEXT_CLASSES: Record<RateLimitLevel, string> = {
+  ok: "text-muted-foreground/40 hover:text-muted-foreground",
+  warning: "text-amber-400/80 hover:text-amber-400",
+  critical: "text-red-400/90 hover:text-red-400",
+};
+
+function WindowRow({ window }: { window: CodexRateLimitWindow }) {
+  const reset = formatRateLimitReset(window.resetsAt);
+  return (
+    <div className="flex justify-between gap-6">
+      <span className="opacity-70">{formatRateLimitWindow(window.windowDurationMins)}</span>
+      <span className="font-mono text-end">
+        {Math.round(window.usedPercent)}%{reset ? ` · ${reset}` : ""}
+      </span>
+    </div>
+  );
+}
+
+/** Compact Codex rate-limit meter for the chat header — hidden until Codex reports limits. */
+export const CodexUsageIndicator = memo(function CodexUsageIndicator() {
+  const { snapshot } = useCodexRateLimits();
+  const peak = getPeakRateLimitWindow(snapshot);
+  if (!snapshot || !peak) return null;
+
+  const level = getRateLimitLevel(peak.usedPercent);
+  const credits = snapshot.credits;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={`no-drag flex cursor-default items-center gap-1 rounded-full px-1 py-0.5 text-[10px] font-medium tabular-nums transition-colors ${LEVEL_TEXT_CLASSES[level]}`}
+        >
+          <Gauge className="h-3.5 w-3.5" />
+          {Math.round(peak.usedPercent)}%
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" align="end">
+        <div className="space-y-1 text-xs">
+          <div className="font-medium">Codex usage{snapshot.planType ? ` · ${snapshot.planType}` : ""}</div>
+          {snapshot.primary && <WindowRow window={snapshot.primary} />}
+          {snapshot.secondary && <WindowRow window={snapshot.secondary} />}
+          {credits && !credits.unlimited && credits.balance && (
+            <div className="flex justify-between gap-6">
+              <span className="opacity-70">Credits</span>
+              <span className="font-mono text-end">{credits.balance}</span>
+            </div>
+          )}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+});
@@ -0,0 +1,133 @@
+import { memo, useCallback, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { PersistedSession, UIMessage } from "@/types";
+import {
+  buildTranscript,
+  getTranscriptFileName,
+  transcriptToMarkdown,
+  type TranscriptFormat,
+} from "@/lib/session/transcript";
+import { getAppStylesheet, transcriptToHtml } from "@/lib/session/transcript-html";
+
+const FORMATS: Array<{ id: TranscriptFormat; label: string }> = [
+  { id: "markdown", label: "Markdown" },
+  { id: "html", label: "HTML" },
+  { id: "json", label: "JSON" },
+];
+
+export interface ExportChatDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  sessionId: string;
+  title: string;
+  /** Live messages of an open chat; when omitted the session is loaded from disk. */
+  messages?: UIMessage[];
+}
+
+/** Export a chat as a Markdown, standalone HTML or JSON transcript. */
+export const ExportChatDialog = memo(function ExportChatDialog({
+  open,
+  onOpenChange,
+  projectId,
+  sessionId,
+  title,
+  messages,
+}: ExportChatDialogProps) {
+  const [format, setFormat] = useState<TranscriptFormat>("markdown");
+  const [includeThinking, setIncludeThinking] = useState(true);
+  const [redactFileContents, setRedactFileContents] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = useCallback(async () => {
+    setExporting(true);
+    try {
+      const stored = await window.claude.sessions.load(projectId, sessionId);
+      const session: PersistedSession | null = stored
+        ? { ...stored, messages: messages ?? stored.messages }
+        : messages
+          ? { id: sessionId, projectId, title, createdAt: messages[0]?.timestamp ?? Date.now(), totalCost: 0, messages }
+          : null;
+      if (!session) {
+        toast.error("Export failed", { description: "The chat could not be loaded." });
+        return;
+      }
+
+      const transcript = buildTranscript(session, { includeThinking, redactFileContents });
+      const content = format === "markdown"
+        ? transcriptToMarkdown(transcript)
+        : format === "html"
+          ? transcriptToHtml(transcript, getAppStylesheet())
+          : `${JSON.stringify(transcript, null, 2)}\n`;
+
+      const result = await window.claude.sessions.export(getTranscriptFileName(session.title, format), content);
+      if (result.error) {
+        toast.error("Export failed", { description: result.error });
+        return;
+      }
+      if (result.canceled) return;
+      toast.success("Chat exported", { description: result.filePath });
+      onOpenChange(false);
+    } finally {
+      setExporting(false);
+    }
+  }, [format, includeThinking, messages, onOpenChange, projectId, redactFileContents, sessionId, title]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="text-sm">Export Chat</DialogTitle>
+          <DialogDescription className="truncate text-xs">{title}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-muted-foreground">Format</label>
+            <div className="flex gap-1">
+              {FORMATS.map((f) => (
+                <Button
+                  key={f.id}
+                  variant={format === f.id ? "default" : "outline"}
+                  size="sm"
+                  className="h-7 flex-1 text-xs"
+                  onClick={() => setFormat(f.id)}
+                >
+                  {f.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center justify-between gap-3 text-xs">
+            <span>Include thinking</span>
+            <Switch checked={includeThinking} onCheckedChange={setIncludeThinking} />
+          </label>
+          <label className="flex items-center justify-between gap-3 text-xs">
+            <span>
+              Redact file contents
+              <span className="block text-muted-foreground/70">Omit read files, written content, diffs and attachments.</span>
+            </span>
+            <Switch checked={redactFileContents} onCheckedChange={setRedactFileContents} />
+          </label>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" className="h-7 text-xs" onClick={handleExport} disabled={exporting}>
+            Export…
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
@@ -0,0 +1,23 @@
+import { createContext, useContext, type ReactNode } from "react";
+
+/** 1-based inclusive line range highlighted when a preview opens. */
+export interface FilePreviewLineRange {
+  startLine: number;
+  endLine: number;
+}
+
+/** Opens files in the app-level FilePreviewOverlay from anywhere in the tree. */
+export interface FilePreviewContextValue {
+  previewFile: (path: string, sourceRect: DOMRect, lineRange?: FilePreviewLineRange) => void;
+}
+
+const FilePreviewContext = createContext<FilePreviewContextValue | null>(null);
+
+export function FilePreviewProvider({ children, value }: { children: ReactNode; value: FilePreviewContextValue }) {
+  return <FilePreviewContext.Provider value={value}>{children}</FilePreviewContext.Provider>;
+}
+
+/** Returns null outside FilePreviewProvider — callers fall back to plain, non-clickable paths. */
+export function useFilePreview(): FilePreviewContextValue | null {
+  return useContext(FilePreviewContext);
+}
@@ -7,6 +7,8 @@ import { useResolvedTheme } from "@/hooks/useTheme";
 import { getLanguageFromPath } from "@/lib/languages";
 import { getMonacoLanguageFromPath, disableMonacoDiagnostics } from "@/lib/monaco";
 import { captureException } from "@/lib/analytics/analytics";
+import type { OnMount } from "@monaco-editor/react";
+import type { FilePreviewLineRange } from "./FilePreviewContext";
 
 const MonacoEditor = lazy(() =>
   import("@monaco-editor/react").then((mod) => ({ default: mod.default })),
@@ -23,6 +25,8 @@ function formatFileSize(bytes: number): string {
 interface FilePreviewOverlayProps {
   filePath: string | null;
   sourceRect: DOMRect | null;
+  /** 1-based line range to reveal and select once the file loads */
+  lineRange?: FilePreviewLineRange | null;
   onClose: () => void;
 }
 
@@ -36,6 +40,7 @@ const OVERLAY_MAX_HEIGHT_VH = 85;
 export const FilePreviewOverlay = memo(function FilePreviewOverlay({
   filePath,
   sourceRect,
+  lineRange,
   onClose,
 }: FilePreviewOverlayProps) {
   return (
@@ -45,6 +50,7 @@ export const FilePreviewOverlay = memo(function FilePreviewOverlay({
           key={filePath}
           filePath={filePath}
           sourceRect={sourceRect}
+          lineRange={lineRange ?? null}
           onClose={onClose}
         />
       )}
@@ -57,12 +63,14 @@ export const FilePreviewOverlay = memo(function FilePreviewOverlay({
 interface OverlayContentProps {
   filePath: string;
   sourceRect: DOMRect | null;
+  lineRange: FilePreviewLineRange | null;
   onClose: () => void;
 }
 
 const OverlayContent = memo(function OverlayContent({
   filePath,
   sourceRect,
+  lineRange,
   onClose,
 }: OverlayContentProps) {
   const [content, setContent] = useState<string | null>(null);
@@ -151,6 +159,19 @@ const OverlayContent = memo(function OverlayContent({
     ? { x: flipTransform.x, y: flipTransform.y, scaleX: flipTransform.scaleX, scaleY: flipTransform.scaleY, opacity: 0 }
     : { scale: 0.92, opacity: 0 };
 
+  const handleEditorMount = useCallback<OnMount>(
+    (editor) => {
+      if (!lineRange) return;
+      const lastLine = editor.getModel()?.getLineCount() ?? lineRange.startLine;
+      const startLine = Math.min(lineRange.startLine, lastLine);
+      const endLine = Math.min(Math.max(lineRange.endLine, startLine), lastLine);
+      const range = { startLineNumber: startLine, startColumn: 1, endLineNumber: endLine, endColumn: Number.MAX_SAFE_INTEGER };
+      editor.setSelection(range);
+      editor.revealRangeInCenter(range);
+    },
+    [lineRange],
+  );
+
   const handleBackdropClick = useCallback(
     (e: React.MouseEvent) => {
       if (e.target === e.currentTarget) onClose();
@@ -250,6 +271,7 @@ const OverlayContent = memo(function OverlayContent({
                   value={content}
                   theme={resolvedTheme === "dark" ? "vs-dark" : "light"}
                   beforeMount={disableMonacoDiagnostics}
+                  onMount={handleEditorMount}
                   options={{
                     readOnly: true,
                     minimap: { enabled: true },
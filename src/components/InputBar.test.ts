@@ -1,12 +1,18 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import type { SlashCommand } from "@/types";
 import {
   LOCAL_CLEAR_COMMAND,
+  LOCAL_REVIEW_COMMAND,
   getAvailableSlashCommands,
   getSlashCommandReplacement,
   isClearCommandText,
 } from "./input-bar";
 
+// The input-bar module graph reads navigator.platform on import
+vi.hoisted(() => {
+  if (typeof navigator === "undefined") vi.stubGlobal("navigator", { platform: "", userAgent: "" });
+});
+
 describe("InputBar slash command helpers", () => {
   it("always includes the local clear command first", () => {
     const commands: SlashCommand[] = [
@@ -31,6 +37,19 @@ describe("InputBar slash command helpers", () => {
     ]);
   });
 
+  it("offers the local review command only when enabled", () => {
+    const commands: SlashCommand[] = [
+      { name: "review", description: "Engine review", source: "claude" },
+    ];
+
+    expect(getAvailableSlashCommands(commands, { review: true })).toEqual([
+      LOCAL_CLEAR_COMMAND,
+      LOCAL_REVIEW_COMMAND,
+    ]);
+    expect(getAvailableSlashCommands(commands)).toEqual([LOCAL_CLEAR_COMMAND, commands[0]]);
+    expect(getSlashCommandReplacement(LOCAL_REVIEW_COMMAND)).toBe("/review ");
+  });
+
   it("detects the exact /clear command text", () => {
     expect(isClearCommandText("/clear")).toBe(true);
     expect(isClearCommandText("  /clear  ")).toBe(true);
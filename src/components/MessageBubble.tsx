@@ -1,5 +1,5 @@
 import { memo, useState, useMemo, createContext, useContext, type ReactNode } from "react";
-import { AlertCircle, Clock, Crosshair, File, Folder, Info, RotateCcw, Send, Undo2, X } from "lucide-react";
+import { AlertCircle, Clock, Crosshair, CornerDownRight, File, Folder, GitFork, Info, Play, RotateCcw, Send, SquareTerminal, Undo2, X } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
@@ -118,14 +118,27 @@ function stripFileContext(text: string): string {
   let result = text.replace(/<file path="[^"]*">[\s\S]*?<\/file>\s*/g, "");
   result = result.replace(/<folder path="[^"]*">[\s\S]*?<\/folder>\s*/g, "");
   result = result.replace(/<element [^>]*>[\s\S]*?<\/element>\s*/g, "");
+  result = result.replace(/<terminal [^>]*>[\s\S]*?<\/terminal>\s*/g, "");
   return result.trim();
 }
 
-/** Render @path references and grabbed-element markers as styled inline badges */
+/** Render @path references, grabbed-element and terminal markers as styled inline badges */
 function renderWithMentions(text: string): ReactNode[] {
-  // Match @path/to/file, @path/to/dir/, or [[element:...]]
-  const parts = text.split(/(@[\w./_-]+\/?|\[\[element:[^\]]+\]\])/g);
+  // Match @path/to/file, @path/to/dir/, [[element:...]] or [[terminal:...]]
+  const parts = text.split(/(@[\w./_-]+\/?|\[\[(?:element|terminal):[^\]]+\]\])/g);
   return parts.map((part, i) => {
+    const terminalMatch = /^\[\[terminal:(.+)\]\]$/.exec(part);
+    if (terminalMatch) {
+      return (
+        <span
+          key={i}
+          className="inline-flex items-baseline gap-0.5 rounded bg-emerald-500/15 px-1 py-px font-mono text-xs text-emerald-300"
+        >
+          <SquareTerminal className="inline h-3 w-3 shrink-0 self-center" />
+          {terminalMatch[1]}
+        </span>
+      );
+    }
     const browserMatch = /^\[\[element:(.+)\]\]$/.exec(part);
     if (browserMatch) {
       return (
@@ -170,10 +183,16 @@ interface MessageBubbleProps {
   onRevert?: (checkpointId: string) => void;
   /** Called when user clicks "Revert files + chat" — restores files AND truncates conversation */
   onFullRevert?: (checkpointId: string) => void;
+  /** Called when user clicks "Fork from here" — branches a new chat before this message, original untouched */
+  onFork?: (messageId: string) => void;
   /** Called when user clicks "Send next" on a queued user message */
   onSendQueuedNow?: (messageId: string) => void;
+  /** Called when user clicks "Steer now" — delivers the queued message into the running Codex turn */
+  onSteerQueued?: (messageId: string) => void;
   /** Called when user removes a queued user message before it is sent */
   onUnqueueQueued?: (messageId: string) => void;
+  /** Called when user clicks "Resume" on a budget pause message */
+  onResumeBudget?: (messageId: string) => void;
 }
 
 export const MessageBubble = memo(function MessageBubble({
@@ -184,8 +203,11 @@ export const MessageBubble = memo(function MessageBubble({
   isSendNextQueued = false,
   onRevert,
   onFullRevert,
+  onFork,
   onSendQueuedNow,
+  onSteerQueued,
   onUnqueueQueued,
+  onResumeBudget,
 }: MessageBubbleProps) {
   // All hooks must be called before any early returns (Rules of Hooks)
   const isUser = message.role === "user";
@@ -211,6 +233,16 @@ export const MessageBubble = memo(function MessageBubble({
         <div className="inline-flex items-center gap-1.5">
           {isError ? <AlertCircle className="h-3 w-3" /> : <Info className="h-3 w-3" />}
           {message.content}
+          {message.budgetPause && !message.budgetPause.resumed && onResumeBudget && (
+            <button
+              type="button"
+              onClick={() => onResumeBudget(message.id)}
+              className="ms-1 inline-flex items-center gap-1 rounded px-1.5 py-0.5 font-medium text-foreground/70 transition-colors hover:bg-foreground/[0.06] hover:text-foreground"
+            >
+              <Play className="h-3 w-3" />
+              Resume
+            </button>
+          )}
         </div>
       </div>
     );
@@ -219,9 +251,11 @@ export const MessageBubble = memo(function MessageBubble({
   if (isUser) {
     const checkpointId = message.checkpointId;
     const canRevert = !!checkpointId && (!!onRevert || !!onFullRevert);
+    // Steered input joined a running turn — there is no turn boundary to fork at
+    const canFork = !!onFork && !message.isQueued && !message.isSteered;
     return (
       <div className={cn("group/user flex justify-end", CHAT_ROW_CLASS, message.isQueued && "opacity-60")}>
-        <div className={cn("relative max-w-[var(--chat-user-message-max-width,80%)]", canRevert && "pb-5")}>
+        <div className={cn("relative max-w-[var(--chat-user-message-max-width,80%)]", (canRevert || canFork) && "pb-5")}>
           <Tooltip>
             <TooltipTrigger asChild>
               <div className={cn(
@@ -252,8 +286,18 @@ export const MessageBubble = memo(function MessageBubble({
                   <div className="mt-2 flex items-center gap-2 border-t border-foreground/[0.06] pt-2 text-[11px] text-muted-foreground">
                     <Clock className="h-3 w-3 shrink-0" />
                     <span>Queued</span>
-                    {(onSendQueuedNow || onUnqueueQueued) && (
+                    {(onSendQueuedNow || onSteerQueued || onUnqueueQueued) && (
                       <div className="ms-auto flex items-center gap-1">
+                        {onSteerQueued && (
+                          <button
+                            type="button"
+                            className="inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-[10px] font-medium text-muted-foreground transition-all hover:bg-foreground/[0.08] hover:text-foreground"
+                            onClick={() => onSteerQueued(message.id)}
+                          >
+                            <CornerDownRight className="h-2.5 w-2.5" />
+                            Steer now
+                          </button>
+                        )}
                         {onSendQueuedNow && (
                           <button
                             type="button"
@@ -283,37 +327,54 @@ export const MessageBubble = memo(function MessageBubble({
                     )}
                   </div>
                 )}
+                {message.isSteered && (
+                  <div className="mt-2 flex items-center gap-1.5 border-t border-foreground/[0.06] pt-2 text-[11px] text-muted-foreground">
+                    <CornerDownRight className="h-3 w-3 shrink-0" />
+                    <span>Steered into the running turn</span>
+                  </div>
+                )}
               </div>
             </TooltipTrigger>
             <TooltipContent side="left">
               <p className="text-xs">{time}</p>
             </TooltipContent>
           </Tooltip>
-          {/* Revert dropdown — visible on hover, offers file-only or full (files + chat) revert */}
-          {canRevert && (
-            <div className="pointer-events-none absolute end-0 -bottom-0.5 w-max opacity-0 transition-opacity group-hover/user:opacity-100">
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <button className="pointer-events-auto flex items-center gap-1 whitespace-nowrap rounded px-1.5 py-0.5 text-[11px] text-foreground/30 transition-colors hover:text-foreground/60">
-                    <Undo2 className="h-3 w-3" />
-                    Revert to here
-                  </button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end" className="w-48">
-                  {onRevert && (
-                    <DropdownMenuItem onClick={() => onRevert(checkpointId)}>
-                      <Undo2 className="h-3.5 w-3.5 me-2" />
-                      Revert files only
-                    </DropdownMenuItem>
-                  )}
-                  {onFullRevert && (
-                    <DropdownMenuItem onClick={() => onFullRevert(checkpointId)}>
-                      <RotateCcw className="h-3.5 w-3.5 me-2" />
-                      Revert files + chat
-                    </DropdownMenuItem>
-                  )}
-                </DropdownMenuContent>
-              </DropdownMenu>
+          {/* Hover actions — fork into a new chat, and a revert dropdown offering file-only or full (files + chat) revert */}
+          {(canRevert || canFork) && (
+            <div className="pointer-events-none absolute end-0 -bottom-0.5 flex w-max items-center gap-0.5 opacity-0 transition-opacity group-hover/user:opacity-100">
+              {canFork && (
+                <button
+                  className="pointer-events-auto flex items-center gap-1 whitespace-nowrap rounded px-1.5 py-0.5 text-[11px] text-foreground/30 transition-colors hover:text-foreground/60"
+                  onClick={() => onFork(message.id)}
+                >
+                  <GitFork className="h-3 w-3" />
+                  Fork from here
+                </button>
+              )}
+              {canRevert && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button className="pointer-events-auto flex items-center gap-1 whitespace-nowrap rounded px-1.5 py-0.5 text-[11px] text-foreground/30 transition-colors hover:text-foreground/60">
+                      <Undo2 className="h-3 w-3" />
+                      Revert to here
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-48">
+                    {onRevert && (
+                      <DropdownMenuItem onClick={() => onRevert(checkpointId)}>
+                        <Undo2 className="h-3.5 w-3.5 me-2" />
+                        Revert files only
+                      </DropdownMenuItem>
+                    )}
+                    {onFullRevert && (
+                      <DropdownMenuItem onClick={() => onFullRevert(checkpointId)}>
+                        <RotateCcw className="h-3.5 w-3.5 me-2" />
+                        Revert files + chat
+                      </DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
           )}
         </div>
@@ -396,14 +457,19 @@ export const MessageBubble = memo(function MessageBubble({
   prev.message.isError === next.message.isError &&
   prev.message.checkpointId === next.message.checkpointId &&
   prev.message.isQueued === next.message.isQueued &&
+  prev.message.isSteered === next.message.isSteered &&
+  prev.message.budgetPause === next.message.budgetPause &&
   prev.assistantTurnDividerLabel === next.assistantTurnDividerLabel &&
   prev.isSendNextQueued === next.isSendNextQueued &&
   prev.showThinking === next.showThinking &&
   prev.isContinuation === next.isContinuation &&
   prev.onRevert === next.onRevert &&
   prev.onFullRevert === next.onFullRevert &&
+  prev.onFork === next.onFork &&
   prev.onSendQueuedNow === next.onSendQueuedNow &&
-  prev.onUnqueueQueued === next.onUnqueueQueued,
+  prev.onSteerQueued === next.onSteerQueued &&
+  prev.onUnqueueQueued === next.onUnqueueQueued &&
+  prev.onResumeBudget === next.onResumeBudget,
 );
 
 /**
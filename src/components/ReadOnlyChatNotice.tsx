@@ -0,0 +1,14 @@
+import { Lock } from "lucide-react";
+import { BOTTOM_CHAT_MAX_WIDTH_CLASS } from "@/lib/layout/constants";
+
+/** Stands in for the composer on chats imported read-only. */
+export function ReadOnlyChatNotice() {
+  return (
+    <div className={`mx-auto w-full px-4 pb-4 ${BOTTOM_CHAT_MAX_WIDTH_CLASS}`}>
+      <div className="pointer-events-auto flex items-center justify-center gap-2 rounded-2xl border bg-black/[0.09] px-4 py-3 text-xs text-muted-foreground backdrop-blur-xl dark:bg-white/[0.08]">
+        <Lock className="h-3.5 w-3.5 shrink-0" />
+        This chat was imported read-only and can't be continued.
+      </div>
+    </div>
+  );
+}
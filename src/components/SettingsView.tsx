@@ -11,7 +11,9 @@ import {
   Sparkles,
   Users,
   BarChart3,
+  Gauge,
   PanelLeft,
+  SquareTerminal,
 } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -22,9 +24,11 @@ import { NotificationsSettings } from "@/components/settings/NotificationsSettin
 import { McpSettings } from "@/components/settings/McpSettings";
 import { AdvancedSettings } from "@/components/settings/AdvancedSettings";
 import { EngineSettings } from "@/components/settings/EngineSettings";
+import { TerminalSettings } from "@/components/settings/TerminalSettings";
 import { PlaceholderSection } from "@/components/settings/PlaceholderSection";
 import { AboutSettings } from "@/components/settings/AboutSettings";
 import { AnalyticsSettings } from "@/components/settings/AnalyticsSettings";
+import { UsageSettings } from "@/components/settings/UsageSettings";
 import { useSettingsStore } from "@/stores/settings-store";
 import { isMac } from "@/lib/utils";
 import type { AppSettings } from "@/types";
@@ -32,7 +36,7 @@ import { useAgentContext } from "./AgentContext";
 
 // ── Section definitions ──
 
-export type SettingsSection = "general" | "appearance" | "notifications" | "analytics" | "agents" | "mcp" | "engines" | "skills" | "custom-agents" | "advanced" | "about";
+export type SettingsSection = "general" | "appearance" | "notifications" | "usage" | "analytics" | "agents" | "mcp" | "engines" | "terminal" | "skills" | "custom-agents" | "advanced" | "about";
 
 interface NavItem {
   id: SettingsSection;
@@ -46,10 +50,12 @@ const NAV_ITEMS: NavItem[] = [
   { id: "general", label: "General", icon: SlidersHorizontal },
   { id: "appearance", label: "Appearance", icon: Palette },
   { id: "notifications", label: "Notifications", icon: Bell },
+  { id: "usage", label: "Usage", icon: Gauge },
   { id: "analytics", label: "Analytics", icon: BarChart3 },
   { id: "agents", label: "ACP Agents", icon: Bot },
   { id: "mcp", label: "MCP Servers", icon: Plug },
   { id: "engines", label: "Engines", icon: Cpu },
+  { id: "terminal", label: "Terminal", icon: SquareTerminal },
   { id: "skills", label: "Skills", icon: Sparkles, comingSoon: true },
   { id: "custom-agents", label: "Agents", icon: Users, comingSoon: true },
   { id: "advanced", label: "Advanced", icon: Wrench },
@@ -133,6 +139,8 @@ export const SettingsView = memo(function SettingsView({
             onUpdateAppSettings={updateAppSettings}
           />
         );
+      case "usage":
+        return <UsageSettings />;
       case "analytics":
         return (
           <AnalyticsSettings
@@ -157,6 +165,13 @@ export const SettingsView = memo(function SettingsView({
             onUpdateAppSettings={updateAppSettings}
           />
         );
+      case "terminal":
+        return (
+          <TerminalSettings
+            appSettings={appSettings}
+            onUpdateAppSettings={updateAppSettings}
+          />
+        );
       case "advanced":
         return (
           <AdvancedSettings
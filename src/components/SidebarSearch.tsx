@@ -1,61 +1,206 @@
-import { useState, useRef, useEffect, useCallback, memo } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo, memo } from "react";
 import { useClickOutside } from "@/hooks/useClickOutside";
-import { Search, MessageSquare, Hash, X } from "lucide-react";
-import type { SearchMessageResult, SearchSessionResult } from "@/types";
+import { Search, MessageSquare, Hash, X, SlidersHorizontal } from "lucide-react";
+import { InlineSelector } from "@/components/git/InlineSelector";
+import type {
+  EngineId,
+  SearchEntryRole,
+  SearchMessageResult,
+  SearchSessionResult,
+  SessionSearchFacets,
+  SessionSearchFilters,
+} from "@/types";
+
+const PAGE_SIZE = 25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DatePreset = "any" | "24h" | "7d" | "30d";
+
+const DATE_PRESET_OPTIONS: Array<{ value: DatePreset; label: string }> = [
+  { value: "any", label: "Any time" },
+  { value: "24h", label: "Last 24 hours" },
+  { value: "7d", label: "Last 7 days" },
+  { value: "30d", label: "Last 30 days" },
+];
+
+const DATE_PRESET_MS: Record<Exclude<DatePreset, "any">, number> = {
+  "24h": DAY_MS,
+  "7d": 7 * DAY_MS,
+  "30d": 30 * DAY_MS,
+};
+
+const ROLE_OPTIONS: Array<{ value: SearchEntryRole; label: string }> = [
+  { value: "user", label: "You" },
+  { value: "assistant", label: "Assistant" },
+  { value: "thinking", label: "Thinking" },
+  { value: "tool_call", label: "Tool calls" },
+  { value: "tool_result", label: "Tool output" },
+];
+
+const ROLE_LABELS: Record<SearchEntryRole, string> = {
+  user: "You",
+  assistant: "Assistant",
+  thinking: "Thinking",
+  tool_call: "Tool call",
+  tool_result: "Tool output",
+  system: "System",
+  summary: "Summary",
+};
+
+const ENGINE_LABELS: Record<EngineId, string> = {
+  claude: "Claude",
+  codex: "Codex",
+  acp: "ACP",
+};
+
+const EMPTY_FACETS: SessionSearchFacets = { engines: [], models: [], branches: [], folderIds: [] };
 
 interface SidebarSearchProps {
   projectIds: string[];
+  /** Folder id → display name, for the folder filter. */
+  folderNames: Record<string, string>;
   onNavigateToMessage: (sessionId: string, messageId: string) => void;
   onSelectSession: (sessionId: string) => void;
 }
 
+function toggleValue<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+function renderHighlighted(text: string, highlights: Array<[number, number]>) {
+  if (highlights.length === 0) return text;
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of highlights) {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-500/30 text-inherit rounded-sm px-0.5">
+        {text.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
+
+function FilterChip({ active, label, onClick }: { active: boolean; label: string; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`rounded-full border px-2 py-0.5 text-[11px] transition-colors ${
+        active
+          ? "border-primary/40 bg-primary/15 text-foreground"
+          : "border-foreground/[0.08] text-muted-foreground hover:bg-foreground/[0.05]"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
+
 export const SidebarSearch = memo(function SidebarSearch({
   projectIds,
+  folderNames,
   onNavigateToMessage,
   onSelectSession,
 }: SidebarSearchProps) {
   const [query, setQuery] = useState("");
   const [isOpen, setIsOpen] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
   const [messageResults, setMessageResults] = useState<SearchMessageResult[]>([]);
   const [sessionResults, setSessionResults] = useState<SearchSessionResult[]>([]);
+  const [totalMessageResults, setTotalMessageResults] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [facets, setFacets] = useState<SessionSearchFacets>(EMPTY_FACETS);
   const [isSearching, setIsSearching] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const [roles, setRoles] = useState<SearchEntryRole[]>([]);
+  const [engines, setEngines] = useState<EngineId[]>([]);
+  const [model, setModel] = useState("");
+  const [branch, setBranch] = useState("");
+  const [folderId, setFolderId] = useState("");
+  const [datePreset, setDatePreset] = useState<DatePreset>("any");
+
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const timerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  // Monotonic request id — responses from superseded searches are dropped.
+  const requestIdRef = useRef(0);
+
+  const filters = useMemo((): SessionSearchFilters => ({
+    roles: roles.length > 0 ? roles : undefined,
+    engines: engines.length > 0 ? engines : undefined,
+    models: model ? [model] : undefined,
+    branches: branch ? [branch] : undefined,
+    folderIds: folderId ? [folderId] : undefined,
+    dateFrom: datePreset === "any" ? undefined : Date.now() - DATE_PRESET_MS[datePreset],
+  }), [roles, engines, model, branch, folderId, datePreset]);
+
+  const activeFilterCount =
+    (roles.length > 0 ? 1 : 0) +
+    (engines.length > 0 ? 1 : 0) +
+    (model ? 1 : 0) +
+    (branch ? 1 : 0) +
+    (folderId ? 1 : 0) +
+    (datePreset !== "any" ? 1 : 0);
+
+  const clearResults = useCallback(() => {
+    requestIdRef.current++;
+    setMessageResults([]);
+    setSessionResults([]);
+    setTotalMessageResults(0);
+    setHasMore(false);
+  }, []);
 
   const doSearch = useCallback(
-    async (q: string) => {
+    async (q: string, offset: number) => {
       if (!q.trim() || projectIds.length === 0) {
-        setMessageResults([]);
-        setSessionResults([]);
+        clearResults();
         return;
       }
-      setIsSearching(true);
+      const requestId = ++requestIdRef.current;
+      if (offset === 0) setIsSearching(true);
+      else setIsLoadingMore(true);
       try {
-        const results = await window.claude.sessions.search(projectIds, q.trim());
-        setMessageResults(results.messageResults);
-        setSessionResults(results.sessionResults);
+        const results = await window.claude.sessions.search({
+          projectIds,
+          query: q.trim(),
+          filters,
+          offset,
+          limit: PAGE_SIZE,
+        });
+        if (requestId !== requestIdRef.current) return;
+        setMessageResults((prev) => (offset === 0 ? results.messageResults : [...prev, ...results.messageResults]));
+        if (offset === 0) setSessionResults(results.sessionResults);
+        setTotalMessageResults(results.totalMessageResults);
+        setHasMore(results.hasMore);
+        setFacets(results.facets);
       } catch {
-        setMessageResults([]);
-        setSessionResults([]);
+        if (requestId !== requestIdRef.current) return;
+        clearResults();
       } finally {
-        setIsSearching(false);
+        if (requestId === requestIdRef.current) {
+          setIsSearching(false);
+          setIsLoadingMore(false);
+        }
       }
     },
-    [projectIds],
+    [projectIds, filters, clearResults],
   );
 
-  // Debounced search
+  // Debounced search — restarts from the first page whenever the query or filters change
   useEffect(() => {
     clearTimeout(timerRef.current);
     if (!query.trim()) {
-      setMessageResults([]);
-      setSessionResults([]);
+      clearResults();
       return;
     }
-    timerRef.current = setTimeout(() => doSearch(query), 300);
+    timerRef.current = setTimeout(() => doSearch(query, 0), 300);
     return () => clearTimeout(timerRef.current);
-  }, [query, doSearch]);
+  }, [query, doSearch, clearResults]);
 
   // Close on click outside
   const closeDropdown = useCallback(() => setIsOpen(false), []);
@@ -70,25 +215,36 @@ export const SidebarSearch = memo(function SidebarSearch({
     }
   };
 
-  const hasResults = messageResults.length > 0 || sessionResults.length > 0;
-  const showDropdown = isOpen && query.trim().length > 0;
-
-  const highlightMatch = (text: string, q: string) => {
-    const lowerText = text.toLowerCase();
-    const lowerQ = q.toLowerCase();
-    const idx = lowerText.indexOf(lowerQ);
-    if (idx === -1) return text;
-    return (
-      <>
-        {text.slice(0, idx)}
-        <mark className="bg-yellow-500/30 text-inherit rounded-sm px-0.5">
-          {text.slice(idx, idx + q.length)}
-        </mark>
-        {text.slice(idx + q.length)}
-      </>
-    );
+  const resetFilters = () => {
+    setRoles([]);
+    setEngines([]);
+    setModel("");
+    setBranch("");
+    setFolderId("");
+    setDatePreset("any");
   };
 
+  const hasResults = messageResults.length > 0 || sessionResults.length > 0;
+  const showDropdown = isOpen && (query.trim().length > 0 || showFilters);
+
+  const modelOptions = useMemo(
+    () => [{ value: "", label: "Any model" }, ...facets.models.map((m) => ({ value: m, label: m }))],
+    [facets.models],
+  );
+  const branchOptions = useMemo(
+    () => [{ value: "", label: "Any branch" }, ...facets.branches.map((b) => ({ value: b, label: b }))],
+    [facets.branches],
+  );
+  const folderOptions = useMemo(
+    () => [
+      { value: "", label: "Any folder" },
+      ...facets.folderIds
+        .filter((id) => folderNames[id])
+        .map((id) => ({ value: id, label: folderNames[id] })),
+    ],
+    [facets.folderIds, folderNames],
+  );
+
   return (
     <div ref={containerRef} className="relative no-drag px-3 pb-3 pt-1">
       <div className="glass-outline sidebar-search-glass relative overflow-hidden rounded-xl transition-all focus-within:ring-2 focus-within:ring-primary/20" style={{ "--island-fill": "var(--sidebar-accent)" } as React.CSSProperties}>
@@ -103,28 +259,98 @@ export const SidebarSearch = memo(function SidebarSearch({
           onFocus={() => setIsOpen(true)}
           onKeyDown={handleKeyDown}
           placeholder="Search chats..."
-          className="w-full bg-black/5 py-1.5 pe-8 ps-9 text-[13px] text-sidebar-foreground placeholder:text-sidebar-foreground/40 outline-none transition-colors focus:bg-black/10 dark:bg-white/5 dark:focus:bg-white/10"
+          className="w-full bg-black/5 py-1.5 pe-14 ps-9 text-[13px] text-sidebar-foreground placeholder:text-sidebar-foreground/40 outline-none transition-colors focus:bg-black/10 dark:bg-white/5 dark:focus:bg-white/10"
         />
-        {query && (
+        <div className="absolute end-2 top-1/2 flex -translate-y-1/2 items-center gap-1">
           <button
             onClick={() => {
-              setQuery("");
-              setIsOpen(false);
+              setShowFilters((v) => !v);
+              setIsOpen(true);
             }}
-            className="absolute end-2 top-1/2 -translate-y-1/2 text-sidebar-foreground/40 hover:text-sidebar-foreground"
+            title="Search filters"
+            className={`relative transition-colors ${
+              showFilters || activeFilterCount > 0
+                ? "text-sidebar-foreground"
+                : "text-sidebar-foreground/40 hover:text-sidebar-foreground"
+            }`}
           >
-            <X className="h-4 w-4" />
+            <SlidersHorizontal className="h-3.5 w-3.5" />
+            {activeFilterCount > 0 && (
+              <span className="absolute -end-1 -top-1 h-1.5 w-1.5 rounded-full bg-primary" />
+            )}
           </button>
-        )}
+          {query && (
+            <button
+              onClick={() => {
+                setQuery("");
+                setIsOpen(false);
+              }}
+              className="text-sidebar-foreground/40 hover:text-sidebar-foreground"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
       </div>
 
       {showDropdown && (
-        <div className="absolute inset-x-3 top-full z-50 mt-1 max-h-80 overflow-y-auto rounded-xl border border-sidebar-border bg-popover p-1.5 shadow-xl glass-outline" style={{ "--island-fill": "var(--popover)" } as React.CSSProperties}>
-          {isSearching && (
+        <div className="absolute inset-x-3 top-full z-50 mt-1 max-h-96 overflow-y-auto rounded-xl border border-sidebar-border bg-popover p-1.5 shadow-xl glass-outline" style={{ "--island-fill": "var(--popover)" } as React.CSSProperties}>
+          {/* Filters */}
+          {showFilters && (
+            <div className="mb-1 space-y-1.5 border-b border-foreground/[0.06] px-1 pb-2">
+              <div className="flex flex-wrap gap-1">
+                {ROLE_OPTIONS.map((opt) => (
+                  <FilterChip
+                    key={opt.value}
+                    label={opt.label}
+                    active={roles.includes(opt.value)}
+                    onClick={() => setRoles((prev) => toggleValue(prev, opt.value))}
+                  />
+                ))}
+              </div>
+              {facets.engines.length > 1 && (
+                <div className="flex flex-wrap gap-1">
+                  {facets.engines.map((engine) => (
+                    <FilterChip
+                      key={engine}
+                      label={ENGINE_LABELS[engine] ?? engine}
+                      active={engines.includes(engine)}
+                      onClick={() => setEngines((prev) => toggleValue(prev, engine))}
+                    />
+                  ))}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-1">
+                <InlineSelector
+                  value={datePreset}
+                  onChange={(v) => setDatePreset(v as DatePreset)}
+                  options={DATE_PRESET_OPTIONS}
+                />
+                <InlineSelector value={model} onChange={setModel} options={modelOptions} />
+                <InlineSelector value={branch} onChange={setBranch} options={branchOptions} />
+                <InlineSelector value={folderId} onChange={setFolderId} options={folderOptions} />
+              </div>
+              {activeFilterCount > 0 && (
+                <button
+                  type="button"
+                  onClick={resetFilters}
+                  className="text-[11px] text-muted-foreground hover:text-foreground"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          )}
+
+          {!query.trim() && (
+            <p className="px-2 py-3 text-center text-xs text-muted-foreground">Type to search chats</p>
+          )}
+
+          {query.trim() && isSearching && (
             <p className="px-2 py-3 text-center text-xs text-muted-foreground">Searching...</p>
           )}
 
-          {!isSearching && !hasResults && (
+          {query.trim() && !isSearching && !hasResults && (
             <p className="px-2 py-3 text-center text-xs text-muted-foreground">No results found</p>
           )}
 
@@ -145,9 +371,7 @@ export const SidebarSearch = memo(function SidebarSearch({
                   className="flex w-full items-center gap-2 rounded-lg px-2.5 py-1.5 text-start text-[13px] hover:bg-accent"
                 >
                   <Hash className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
-                  <span className="min-w-0 truncate font-medium">
-                    {highlightMatch(r.title, query)}
-                  </span>
+                  <span className="min-w-0 truncate font-medium">{r.title}</span>
                 </button>
               ))}
             </div>
@@ -157,7 +381,7 @@ export const SidebarSearch = memo(function SidebarSearch({
           {messageResults.length > 0 && (
             <div>
               <p className="px-2 py-1 text-[10px] font-medium uppercase tracking-wider text-muted-foreground/60">
-                Messages
+                Messages · {totalMessageResults}
               </p>
               {messageResults.map((r, i) => (
                 <button
@@ -170,14 +394,25 @@ export const SidebarSearch = memo(function SidebarSearch({
                   className="flex w-full flex-col gap-0.5 rounded-lg px-2.5 py-1.5 text-start hover:bg-accent"
                 >
                   <span className="text-[13px] wrap-break-word line-clamp-2">
-                    {highlightMatch(r.snippet, query)}
+                    {renderHighlighted(r.snippet, r.highlights)}
                   </span>
-                  <span className="text-[11px] text-muted-foreground truncate">
-                    <MessageSquare className="me-1 inline h-3 w-3" />
-                    {r.sessionTitle}
+                  <span className="flex min-w-0 items-center gap-1 text-[11px] text-muted-foreground">
+                    <MessageSquare className="h-3 w-3 shrink-0" />
+                    <span className="min-w-0 truncate">{r.sessionTitle}</span>
+                    <span className="shrink-0 text-muted-foreground/60">· {ROLE_LABELS[r.role]}</span>
                   </span>
                 </button>
               ))}
+              {hasMore && (
+                <button
+                  type="button"
+                  disabled={isLoadingMore}
+                  onClick={() => doSearch(query, messageResults.length)}
+                  className="w-full rounded-lg px-2.5 py-1.5 text-center text-xs text-muted-foreground hover:bg-accent disabled:opacity-50"
+                >
+                  {isLoadingMore ? "Loading..." : "Show more results"}
+                </button>
+              )}
             </div>
           )}
         </div>
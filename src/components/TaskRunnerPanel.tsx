@@ -0,0 +1,230 @@
+import { memo, useCallback, useEffect, useMemo, useState } from "react";
+import { CheckCircle2, CirclePlay, CircleSlash, Loader2, Play, RefreshCw, RotateCcw, Square, Wrench, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { PanelHeader } from "@/components/PanelHeader";
+import { TerminalInstance } from "@/components/ToolsPanel";
+import { formatDuration } from "@/components/lib/tool-formatting";
+import { useTaskRunner } from "@/hooks/useTaskRunner";
+import { buildTerminalContext, formatTerminalContext } from "@/lib/terminal-context";
+import type { ResolvedTheme } from "@/hooks/useTheme";
+import type { TaskRun } from "@/stores/task-runner-store";
+import type { ImageAttachment, ProjectTask, ProjectTaskSource } from "@/types";
+
+const SOURCE_LABELS: Record<ProjectTaskSource, string> = {
+  npm: "package.json",
+  make: "Makefile",
+  just: "justfile",
+};
+
+interface TaskRunnerPanelProps {
+  cwd: string | undefined;
+  resolvedTheme: ResolvedTheme;
+  /** Ask the active chat to fix a failed task; hides "Ask agent to fix" when absent */
+  onSendToChat?: (text: string, images?: ImageAttachment[], displayText?: string) => void;
+  headerControls?: React.ReactNode;
+}
+
+/** Discovers package.json scripts, Makefile targets and justfile recipes and runs each in its own terminal. */
+export const TaskRunnerPanel = memo(function TaskRunnerPanel({
+  cwd,
+  resolvedTheme,
+  onSendToChat,
+  headerControls,
+}: TaskRunnerPanelProps) {
+  const { tasks, runs, loading, error, refresh, runTask, stopTask } = useTaskRunner(cwd);
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+
+  const groups = useMemo(() => {
+    const bySource = new Map<ProjectTaskSource, ProjectTask[]>();
+    for (const task of tasks) {
+      const list = bySource.get(task.source) ?? [];
+      list.push(task);
+      bySource.set(task.source, list);
+    }
+    return [...bySource.entries()];
+  }, [tasks]);
+
+  const selectedTask = tasks.find((task) => task.id === selectedTaskId) ?? null;
+  const selectedRun = selectedTaskId ? runs[selectedTaskId] : undefined;
+
+  useEffect(() => {
+    setSelectedTaskId(null);
+  }, [cwd]);
+
+  const handleRun = useCallback((task: ProjectTask) => {
+    setSelectedTaskId(task.id);
+    void runTask(task);
+  }, [runTask]);
+
+  const handleAskToFix = useCallback(async (task: ProjectTask, run: TaskRun) => {
+    if (!onSendToChat) return;
+    const snapshot = await window.claude.terminal.snapshot(run.terminalId);
+    const context = buildTerminalContext(snapshot.output ?? "", { label: task.name });
+    if (!context.text) {
+      toast.error(`${task.name} has no output to send`);
+      return;
+    }
+    const prompt = `The \`${task.name}\` task (\`${run.command}\`) failed with exit code ${run.exitCode}. Find the cause and fix it.`;
+    onSendToChat(
+      `${formatTerminalContext(context)}\n\n${prompt}`,
+      undefined,
+      `${prompt}\n\n[[terminal:${task.name.replace(/\]/g, "")}]]`,
+    );
+  }, [onSendToChat]);
+
+  return (
+    <div className="flex h-full flex-col">
+      <PanelHeader icon={CirclePlay} label="Task Runner" iconClass="text-lime-600/70 dark:text-lime-200/50">
+        {tasks.length > 0 && (
+          <span className="text-[10px] tabular-nums text-foreground/35">{tasks.length}</span>
+        )}
+        {cwd && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                type="button"
+                onClick={() => { void refresh(); }}
+                className="flex h-5 w-5 cursor-pointer items-center justify-center rounded-md text-foreground/35 transition-colors hover:bg-foreground/[0.06] hover:text-foreground/65"
+              >
+                <RefreshCw className={`h-3 w-3 ${loading ? "animate-spin" : ""}`} />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom" sideOffset={6}>
+              <p className="text-xs font-medium">Rescan tasks</p>
+            </TooltipContent>
+          </Tooltip>
+        )}
+        {headerControls}
+      </PanelHeader>
+
+      {error && <p className="px-3 py-1.5 text-[11px] text-red-600 dark:text-red-400">{error}</p>}
+
+      {!cwd || (tasks.length === 0 && !loading) ? (
+        <div className="flex flex-1 flex-col items-center justify-center gap-3 p-6">
+          <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-foreground/[0.03]">
+            <CirclePlay className="h-5 w-5 text-foreground/15" />
+          </div>
+          <p className="text-center text-[11px] text-muted-foreground/45">
+            {cwd ? "No package.json scripts, Makefile targets or justfile recipes found" : "Open a project to run its tasks"}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className={`overflow-y-auto py-1 ${selectedRun ? "max-h-[45%] shrink-0" : "min-h-0 flex-1"}`}>
+            {groups.map(([source, group]) => (
+              <div key={source}>
+                <div className="px-3 pt-2 pb-1 text-[10px] font-medium text-foreground/35">{SOURCE_LABELS[source]}</div>
+                {group.map((task) => (
+                  <TaskRow
+                    key={task.id}
+                    task={task}
+                    run={runs[task.id]}
+                    selected={task.id === selectedTaskId}
+                    onSelect={() => setSelectedTaskId(task.id)}
+                    onRun={() => handleRun(task)}
+                    onStop={() => stopTask(task.id)}
+                    onAskToFix={onSendToChat ? (run) => { void handleAskToFix(task, run); } : undefined}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {selectedTask && selectedRun && (
+            <div className="flex min-h-0 flex-1 flex-col border-t border-foreground/[0.06]">
+              <div className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] text-foreground/45">
+                <span className="truncate font-mono">{selectedRun.command}</span>
+                {selectedRun.exitCode !== null && (
+                  <span className="ms-auto shrink-0 tabular-nums">exit {selectedRun.exitCode}</span>
+                )}
+              </div>
+              <div className="relative min-h-0 flex-1">
+                <TerminalInstance
+                  key={selectedRun.terminalId}
+                  terminalId={selectedRun.terminalId}
+                  isVisible
+                  resolvedTheme={resolvedTheme}
+                />
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+});
+
+function RunStatusIcon({ run }: { run: TaskRun | undefined }) {
+  if (!run) return <span className="h-3 w-3 shrink-0" />;
+  switch (run.status) {
+    case "running":
+      return <Loader2 className="h-3 w-3 shrink-0 animate-spin text-foreground/45" />;
+    case "passed":
+      return <CheckCircle2 className="h-3 w-3 shrink-0 text-emerald-600 dark:text-emerald-400" />;
+    case "failed":
+      return <XCircle className="h-3 w-3 shrink-0 text-red-600 dark:text-red-400" />;
+    case "stopped":
+      return <CircleSlash className="h-3 w-3 shrink-0 text-foreground/35" />;
+  }
+}
+
+function TaskRow({
+  task,
+  run,
+  selected,
+  onSelect,
+  onRun,
+  onStop,
+  onAskToFix,
+}: {
+  task: ProjectTask;
+  run: TaskRun | undefined;
+  selected: boolean;
+  onSelect: () => void;
+  onRun: () => void;
+  onStop: () => void;
+  onAskToFix?: (run: TaskRun) => void;
+}) {
+  const running = run?.status === "running";
+  const iconButton = "flex h-5 w-5 shrink-0 cursor-pointer items-center justify-center rounded-md text-foreground/35 transition-colors hover:bg-foreground/[0.06] hover:text-foreground/70";
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={onSelect}
+      onKeyDown={(event) => { if (event.key === "Enter") onSelect(); }}
+      className={`group flex cursor-pointer items-center gap-2 px-3 py-1 transition-colors ${
+        selected ? "bg-foreground/[0.06]" : "hover:bg-foreground/[0.03]"
+      }`}
+    >
+      <RunStatusIcon run={run} />
+      <div className="min-w-0 flex-1">
+        <div className="truncate font-mono text-xs text-foreground/85">{task.name}</div>
+        {task.detail && <div className="truncate text-[10px] text-foreground/40" title={task.detail}>{task.detail}</div>}
+      </div>
+      {run && run.endedAt !== null && (
+        <span className="shrink-0 text-[10px] tabular-nums text-foreground/35">
+          {run.status === "failed" ? `exit ${run.exitCode} · ` : ""}{formatDuration(run.endedAt - run.startedAt)}
+        </span>
+      )}
+      <span className="flex shrink-0 items-center gap-0.5" onClick={(event) => event.stopPropagation()}>
+        {run?.status === "failed" && onAskToFix && (
+          <button type="button" onClick={() => onAskToFix(run)} className={iconButton} title="Ask agent to fix">
+            <Wrench className="h-3 w-3" />
+          </button>
+        )}
+        {running ? (
+          <button type="button" onClick={onStop} className={iconButton} title="Stop">
+            <Square className="h-3 w-3" />
+          </button>
+        ) : (
+          <button type="button" onClick={onRun} className={iconButton} title={run ? "Re-run" : "Run"}>
+            {run ? <RotateCcw className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+          </button>
+        )}
+      </span>
+    </div>
+  );
+}
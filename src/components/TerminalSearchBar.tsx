@@ -0,0 +1,176 @@
+import { memo, useCallback, useEffect, useRef, useState } from "react";
+import { CaseSensitive, ChevronDown, ChevronUp, Regex, Search, X } from "lucide-react";
+import type { ISearchOptions, SearchAddon } from "@xterm/addon-search";
+import type { ResolvedTheme } from "@/hooks/useTheme";
+
+// Match backgrounds must be #RRGGBB
+const SEARCH_DECORATIONS: Record<ResolvedTheme, NonNullable<ISearchOptions["decorations"]>> = {
+  dark: {
+    matchBackground: "#3d4452",
+    matchOverviewRuler: "#8daac8",
+    activeMatchBackground: "#8a6d2e",
+    activeMatchColorOverviewRuler: "#d0c48e",
+  },
+  light: {
+    matchBackground: "#dfe6f0",
+    matchOverviewRuler: "#4878b8",
+    activeMatchBackground: "#f0d68a",
+    activeMatchColorOverviewRuler: "#a08040",
+  },
+};
+
+interface TerminalSearchBarProps {
+  /** Search addon of the focused pane; null while it is still loading */
+  searchAddon: SearchAddon | null;
+  resolvedTheme: ResolvedTheme;
+  onClose: () => void;
+}
+
+export const TerminalSearchBar = memo(function TerminalSearchBar({
+  searchAddon,
+  resolvedTheme,
+  onClose,
+}: TerminalSearchBarProps) {
+  const [query, setQuery] = useState("");
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [results, setResults] = useState<{ index: number; count: number } | null>(null);
+  const [invalid, setInvalid] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const timer = requestAnimationFrame(() => inputRef.current?.focus());
+    return () => cancelAnimationFrame(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!searchAddon) return;
+    const subscription = searchAddon.onDidChangeResults(({ resultIndex, resultCount }) => {
+      setResults({ index: resultIndex, count: resultCount });
+    });
+    return () => {
+      subscription.dispose();
+      searchAddon.clearDecorations();
+    };
+  }, [searchAddon]);
+
+  const find = useCallback((direction: "next" | "previous", incremental = false) => {
+    if (!searchAddon) return;
+    if (!query) {
+      searchAddon.clearDecorations();
+      setResults(null);
+      setInvalid(false);
+      return;
+    }
+    const options: ISearchOptions = { regex, caseSensitive, incremental, decorations: SEARCH_DECORATIONS[resolvedTheme] };
+    try {
+      if (regex) new RegExp(query);
+      if (direction === "next") searchAddon.findNext(query, options);
+      else searchAddon.findPrevious(query, options);
+      setInvalid(false);
+    } catch {
+      searchAddon.clearDecorations();
+      setResults(null);
+      setInvalid(true);
+    }
+  }, [caseSensitive, query, regex, resolvedTheme, searchAddon]);
+
+  // Re-run as the query or options change, keeping the current match when it still fits
+  useEffect(() => {
+    find("next", true);
+  }, [find]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        onClose();
+      } else if (e.key === "Enter") {
+        e.preventDefault();
+        find(e.shiftKey ? "previous" : "next");
+      }
+    },
+    [find, onClose],
+  );
+
+  const hasMatches = !!results && results.count > 0;
+  const toggleClass = (active: boolean) => `rounded p-0.5 transition-colors ${
+    active ? "bg-foreground/[0.08] text-foreground" : "text-muted-foreground/60 hover:text-foreground"
+  }`;
+
+  return (
+    <div className="absolute end-3 top-2 z-20 animate-in fade-in slide-in-from-top-2 duration-150">
+      <div className="flex items-center gap-1 rounded-lg border border-border/50 bg-background/95 px-2 py-1 shadow-lg backdrop-blur-sm">
+        <Search className="h-3.5 w-3.5 shrink-0 text-muted-foreground/50" />
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Find in terminal..."
+          aria-invalid={invalid}
+          className={`w-40 bg-transparent px-1.5 py-0.5 text-sm placeholder:text-muted-foreground/40 outline-none ${
+            invalid ? "text-red-600 dark:text-red-400" : "text-foreground"
+          }`}
+        />
+
+        {query && !invalid && results && (
+          <span className="shrink-0 text-xs tabular-nums text-muted-foreground/60">
+            {results.count === 0
+              ? "0 results"
+              : results.index < 0 ? `${results.count}+` : `${results.index + 1} of ${results.count}`}
+          </span>
+        )}
+
+        <button
+          type="button"
+          onClick={() => setCaseSensitive((prev) => !prev)}
+          className={toggleClass(caseSensitive)}
+          aria-label="Match case"
+          aria-pressed={caseSensitive}
+          title="Match case"
+        >
+          <CaseSensitive className="h-3.5 w-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setRegex((prev) => !prev)}
+          className={toggleClass(regex)}
+          aria-label="Use regular expression"
+          aria-pressed={regex}
+          title="Use regular expression"
+        >
+          <Regex className="h-3.5 w-3.5" />
+        </button>
+
+        <button
+          type="button"
+          onClick={() => find("previous")}
+          disabled={!hasMatches}
+          className="rounded p-0.5 text-muted-foreground/60 transition-colors hover:text-foreground disabled:opacity-30"
+          aria-label="Previous match"
+        >
+          <ChevronUp className="h-3.5 w-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={() => find("next")}
+          disabled={!hasMatches}
+          className="rounded p-0.5 text-muted-foreground/60 transition-colors hover:text-foreground disabled:opacity-30"
+          aria-label="Next match"
+        >
+          <ChevronDown className="h-3.5 w-3.5" />
+        </button>
+
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded p-0.5 text-muted-foreground/60 transition-colors hover:text-foreground"
+          aria-label="Close search"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+});
@@ -81,6 +81,56 @@ export const ToolCall = memo(function ToolCall({
   prev.message.subagentStatus === next.message.subagentStatus,
 );
 
+// ── Summary row (icon, label, compact summary, diff stats) ──
+
+interface ToolCallSummaryProps {
+  message: UIMessage;
+  showToolIcons?: boolean;
+  coloredToolIcons?: boolean;
+}
+
+/** Content of a tool card's collapsed row — shared with the HTML transcript export. */
+export function ToolCallSummary({ message, showToolIcons = true, coloredToolIcons = false }: ToolCallSummaryProps) {
+  const hasResult = !!message.toolResult;
+  const isRunning = !hasResult;
+  const isError = !!message.toolError;
+  const Icon = getToolIcon(message.toolName ?? "");
+  const summary = formatCompactSummary(message);
+  const isEditOrWrite = message.toolName === "Edit" || message.toolName === "Write" || message.toolName === "NotebookEdit";
+  const diffStats = useMemo(
+    () => (isEditOrWrite && hasResult ? getToolDiffStats(message) : null),
+    [isEditOrWrite, hasResult, message],
+  );
+
+  return (
+    <div className="relative flex min-w-0 flex-1 items-center gap-[6.4px]">
+      {showToolIcons && (isError ? (
+        <ToolGlyph Icon={AlertCircle} className="text-red-400/70" />
+      ) : (
+        <ToolGlyph Icon={Icon} className={coloredToolIcons ? getToolColor(message.toolName ?? "") : "text-foreground/40"} />
+      ))}
+      {isRunning ? (
+        <TextShimmer as="span" className="shrink-0 whitespace-nowrap font-medium" duration={1.8} spread={1.5}>
+          {getToolLabel(message.toolName ?? "", "active") ?? message.toolName ?? "Running"}
+        </TextShimmer>
+      ) : (
+        <span className={`shrink-0 whitespace-nowrap font-medium ${isError ? "text-red-400/70" : "text-foreground/60"}`}>
+          {isError
+            ? `Failed to ${getToolLabel(message.toolName ?? "", "failure")}`
+            : (getToolLabel(message.toolName ?? "", "past") ?? message.toolName)}
+        </span>
+      )}
+      <span className="min-w-0 truncate text-foreground/40">{summary}</span>
+      {diffStats && (
+        <span className="shrink-0 inline-flex items-center gap-1 text-[11px] tabular-nums">
+          {diffStats.added > 0 && <span className="text-emerald-400/70">+{diffStats.added}</span>}
+          {diffStats.removed > 0 && <span className="text-red-400/70">-{diffStats.removed}</span>}
+        </span>
+      )}
+    </div>
+  );
+}
+
 // ── Regular tool (Read, Write, Edit, Bash, Grep, Glob, etc.) ──
 
 interface RegularToolProps {
@@ -103,8 +153,10 @@ const RegularTool = memo(function RegularTool({
   const isPlanTool = message.toolName === "ExitPlanMode";
   const isInteractive = isPlanTool || message.toolName === "AskUserQuestion";
   const isEditToolCall = message.toolName === "Edit" || message.toolName === "Write";
-  const defaultExpanded = isPlanTool || (isEditToolCall && expandEditToolCallsByDefault);
-  const skipAutoExpandOnResult = isEditToolCall || isInteractive;
+  // Review findings are the whole point of the card — open it like a plan, but keep it collapsible
+  const isReviewTool = message.toolName === "CodexReview";
+  const defaultExpanded = isPlanTool || isReviewTool || (isEditToolCall && expandEditToolCallsByDefault);
+  const skipAutoExpandOnResult = isEditToolCall || isInteractive || isReviewTool;
   const isWideTool = message.toolName === "Edit" || message.toolName === "Write" || message.toolName === "NotebookEdit";
   const [storedExpanded, setExpanded, hasStoredExpanded] = useChatPersistedState(
     `tool:${message.id}`,
@@ -112,15 +164,6 @@ const RegularTool = memo(function RegularTool({
   );
   const expanded = isPlanTool || storedExpanded;
   const hasResult = !!message.toolResult;
-  const isRunning = !hasResult;
-  const isError = !!message.toolError;
-  const Icon = getToolIcon(message.toolName ?? "");
-  const summary = formatCompactSummary(message);
-  const isEditOrWrite = message.toolName === "Edit" || message.toolName === "Write" || message.toolName === "NotebookEdit";
-  const diffStats = useMemo(
-    () => (isEditOrWrite && hasResult ? getToolDiffStats(message) : null),
-    [isEditOrWrite, hasResult, message],
-  );
 
   // Track whether toolResult was present at mount (persisted session → skip auto-expand)
   const initialHadResult = useRef(hasResult);
@@ -147,31 +190,7 @@ const RegularTool = memo(function RegularTool({
   };
 
   const triggerContent = (
-    <div className="relative flex min-w-0 flex-1 items-center gap-[6.4px]">
-      {showToolIcons && (isError ? (
-        <ToolGlyph Icon={AlertCircle} className="text-red-400/70" />
-      ) : (
-        <ToolGlyph Icon={Icon} className={coloredToolIcons ? getToolColor(message.toolName ?? "") : "text-foreground/40"} />
-      ))}
-      {isRunning ? (
-        <TextShimmer as="span" className="shrink-0 whitespace-nowrap font-medium" duration={1.8} spread={1.5}>
-          {getToolLabel(message.toolName ?? "", "active") ?? message.toolName ?? "Running"}
-        </TextShimmer>
-      ) : (
-        <span className={`shrink-0 whitespace-nowrap font-medium ${isError ? "text-red-400/70" : "text-foreground/60"}`}>
-          {isError
-            ? `Failed to ${getToolLabel(message.toolName ?? "", "failure")}`
-            : (getToolLabel(message.toolName ?? "", "past") ?? message.toolName)}
-        </span>
-      )}
-      <span className="min-w-0 truncate text-foreground/40">{summary}</span>
-      {diffStats && (
-        <span className="shrink-0 inline-flex items-center gap-1 text-[11px] tabular-nums">
-          {diffStats.added > 0 && <span className="text-emerald-400/70">+{diffStats.added}</span>}
-          {diffStats.removed > 0 && <span className="text-red-400/70">-{diffStats.removed}</span>}
-        </span>
-      )}
-    </div>
+    <ToolCallSummary message={message} showToolIcons={showToolIcons} coloredToolIcons={coloredToolIcons} />
   );
 
   const trigger = isPlanTool ? (
@@ -1,9 +1,32 @@
-import { useEffect, useRef, useState, type MutableRefObject } from "react";
-import { Terminal as TerminalIcon, Plus, X, Loader2 } from "lucide-react";
+import { useCallback, useEffect, useRef, useState, type MutableRefObject } from "react";
+import { Terminal as TerminalIcon, Plus, X, Loader2, MessageSquarePlus, Search, Columns2, Rows2 } from "lucide-react";
+import type { SearchAddon } from "@xterm/addon-search";
+import { toast } from "sonner";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AgentIcon } from "@/components/AgentIcon";
 import { PanelHeader } from "@/components/PanelHeader";
-import type { TerminalTab } from "@/hooks/useSpaceTerminals";
+import { useFilePreview } from "@/components/FilePreviewContext";
+import { TerminalSearchBar } from "@/components/TerminalSearchBar";
+import type { TerminalSplitDirection, TerminalTab } from "@/hooks/useSpaceTerminals";
+import { useTerminalProfiles } from "@/hooks/useTerminalProfiles";
 import type { ResolvedTheme } from "@/hooks/useTheme";
+import { buildTerminalContext } from "@/lib/terminal-context";
+import { findTerminalFileLinks } from "@/lib/terminal-links";
+import { getFocusedTerminalId, getTabTerminalIds } from "@/lib/terminal-tabs";
+import { isMac } from "@/lib/utils";
+import type { TerminalContextAttachment, TerminalProfile } from "@/types";
 
 const DARK_TERMINAL_THEME = {
   background: "#00000000",
@@ -91,21 +114,65 @@ function scheduleTerminalResize(
   }, delayMs);
 }
 
+/**
+ * Link `path:line:col` references in the output. Candidates are resolved
+ * against the terminal's current directory in the main process, and only
+ * paths that exist become links.
+ */
+function createFileLinkProvider(
+  term: import("@xterm/xterm").Terminal,
+  terminalId: string,
+  onActivate: (filePath: string, line: number | undefined, event: MouseEvent) => void,
+): import("@xterm/xterm").ILinkProvider {
+  return {
+    provideLinks(bufferLineNumber, callback) {
+      const text = term.buffer.active.getLine(bufferLineNumber - 1)?.translateToString(true) ?? "";
+      const candidates = findTerminalFileLinks(text);
+      if (candidates.length === 0) {
+        callback(undefined);
+        return;
+      }
+      void window.claude.terminal.resolvePaths(terminalId, candidates.map((link) => link.path)).then(({ paths }) => {
+        const links = candidates.flatMap((link, index) => {
+          const filePath = paths[index];
+          if (!filePath) return [];
+          return [{
+            range: { start: { x: link.start + 1, y: bufferLineNumber }, end: { x: link.end, y: bufferLineNumber } },
+            text: text.slice(link.start, link.end),
+            activate: (event: MouseEvent) => onActivate(filePath, link.line, event),
+          }];
+        });
+        callback(links.length > 0 ? links : undefined);
+      }, () => callback(undefined));
+    },
+  };
+}
+
 interface ToolsPanelProps {
   spaceId: string;
+  /** Project whose default terminal profile new tabs use */
+  projectId?: string | null;
   tabs: TerminalTab[];
   activeTabId: string | null;
   terminalsReady: boolean;
   onSetActiveTab: (tabId: string | null) => void;
-  onCreateTerminal: () => Promise<void>;
-  onEnsureTerminal: () => Promise<void>;
+  onCreateTerminal: (profile?: TerminalProfile) => Promise<void>;
+  onEnsureTerminal: (profile?: TerminalProfile) => Promise<void>;
   onCloseTerminal: (tabId: string) => Promise<void>;
+  onSplitTerminal: (tabId: string, direction: TerminalSplitDirection) => Promise<void>;
+  onFocusTerminalPane: (tabId: string, terminalId: string) => void;
+  onCloseTerminalPane: (tabId: string, terminalId: string) => Promise<void>;
   resolvedTheme: ResolvedTheme;
+  /** Attach terminal output to the chat composer; hides "Send to chat" when absent */
+  onSendToChat?: (context: TerminalContextAttachment) => void;
+  /** Open a clicked URL in the Browser panel; falls back to the system browser when absent */
+  onOpenInBrowser?: (url: string) => void;
   headerControls?: React.ReactNode;
 }
 
 export function ToolsPanel({
   spaceId,
+  projectId,
   tabs,
   activeTabId,
   terminalsReady,
@@ -113,21 +180,59 @@ export function ToolsPanel({
   onCreateTerminal,
   onEnsureTerminal,
   onCloseTerminal,
+  onSplitTerminal,
+  onFocusTerminalPane,
+  onCloseTerminalPane,
   resolvedTheme,
+  onSendToChat,
+  onOpenInBrowser,
   headerControls,
 }: ToolsPanelProps) {
-  const handleCreateTerminal = () => {
+  const [selection, setSelection] = useState<{ terminalId: string; text: string } | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchAddons, setSearchAddons] = useState<Record<string, SearchAddon>>({});
+  const { profiles, defaultProfile, loaded: profilesLoaded, setDefaultProfile } = useTerminalProfiles(projectId);
+
+  const handleCreateTerminal = (profile: TerminalProfile | undefined = defaultProfile) => {
     if (!terminalsReady) return Promise.resolve();
-    return onCreateTerminal();
+    return onCreateTerminal(profile);
   };
 
   useEffect(() => {
-    if (terminalsReady && tabs.length === 0) {
-      void onEnsureTerminal();
+    if (terminalsReady && profilesLoaded && tabs.length === 0) {
+      void onEnsureTerminal(defaultProfile);
     }
-  }, [spaceId, terminalsReady, tabs.length, onEnsureTerminal]);
+  }, [spaceId, terminalsReady, profilesLoaded, tabs.length, onEnsureTerminal, defaultProfile]);
 
   const hasTabs = tabs.length > 0;
+  const activeTab = tabs.find((tab) => tab.id === activeTabId);
+  const focusedTerminalId = activeTab ? getFocusedTerminalId(activeTab) : null;
+  const activeSelection = selection && selection.terminalId === focusedTerminalId && selection.text.trim() ? selection.text : null;
+
+  const handleSearchAddonChange = useCallback((terminalId: string, addon: SearchAddon | null) => {
+    setSearchAddons((prev) => {
+      const next = { ...prev };
+      if (addon) next[terminalId] = addon;
+      else delete next[terminalId];
+      return next;
+    });
+  }, []);
+
+  const handleSendOutput = useCallback(async (tab: TerminalTab) => {
+    if (!onSendToChat) return;
+    const snapshot = await window.claude.terminal.snapshot(getFocusedTerminalId(tab));
+    const context = buildTerminalContext(snapshot.output ?? "", { label: tab.label });
+    if (!context.text) {
+      toast.error(`${tab.label} has no output yet`);
+      return;
+    }
+    onSendToChat(context);
+  }, [onSendToChat]);
+
+  const handleSendSelection = useCallback(() => {
+    if (!onSendToChat || !activeTab || !activeSelection) return;
+    onSendToChat(buildTerminalContext(activeSelection, { label: activeTab.label, selection: true }));
+  }, [activeSelection, activeTab, onSendToChat]);
 
   return (
     <div className="flex h-full flex-col">
@@ -135,22 +240,91 @@ export function ToolsPanel({
         {hasTabs && (
           <span className="text-[10px] tabular-nums text-foreground/35">{tabs.length}</span>
         )}
+        {activeTab && (
+          <>
+            <HeaderButton label={`Find (${isMac ? "⌘F" : "Ctrl+Shift+F"})`} onClick={() => setSearchOpen((prev) => !prev)}>
+              <Search className="h-3 w-3" />
+            </HeaderButton>
+            <HeaderButton label="Split Right" onClick={() => { void onSplitTerminal(activeTab.id, "horizontal"); }}>
+              <Columns2 className="h-3 w-3" />
+            </HeaderButton>
+            <HeaderButton label="Split Down" onClick={() => { void onSplitTerminal(activeTab.id, "vertical"); }}>
+              <Rows2 className="h-3 w-3" />
+            </HeaderButton>
+          </>
+        )}
+        {onSendToChat && activeTab && (
+          <HeaderButton label={`Send ${activeTab.label} output to chat`} onClick={() => { void handleSendOutput(activeTab); }}>
+            <MessageSquarePlus className="h-3 w-3" />
+          </HeaderButton>
+        )}
         {headerControls}
       </PanelHeader>
       <div className="flex min-h-0 flex-1">
         <div className="relative min-h-0 min-w-0 flex-1">
-          {tabs.map((tab) => (
-            <div
-              key={tab.id}
-              className={`absolute inset-0 ${tab.id === activeTabId ? "visible" : "invisible"}`}
+          {tabs.map((tab) => {
+            const paneIds = getTabTerminalIds(tab);
+            const isSplit = paneIds.length > 1;
+            const focusedId = getFocusedTerminalId(tab);
+            return (
+              <div
+                key={tab.id}
+                className={`absolute inset-0 flex ${tab.splitDirection === "vertical" ? "flex-col" : "flex-row"} ${
+                  tab.id === activeTabId ? "visible" : "invisible"
+                }`}
+              >
+                {paneIds.map((terminalId, index) => (
+                  <div
+                    key={terminalId}
+                    onFocusCapture={() => onFocusTerminalPane(tab.id, terminalId)}
+                    onMouseDownCapture={() => onFocusTerminalPane(tab.id, terminalId)}
+                    className={`group/pane relative min-h-0 min-w-0 flex-1 ${
+                      index > 0 ? (tab.splitDirection === "vertical" ? "border-t" : "border-s") : ""
+                    } border-foreground/[0.06] ${isSplit && terminalId !== focusedId ? "opacity-70" : ""} transition-opacity`}
+                  >
+                    <TerminalInstance
+                      terminalId={terminalId}
+                      isVisible={tab.id === activeTabId}
+                      resolvedTheme={resolvedTheme}
+                      onSelectionChange={onSendToChat ? (text) => setSelection({ terminalId, text }) : undefined}
+                      onSearchAddonChange={handleSearchAddonChange}
+                      onFindRequest={() => setSearchOpen(true)}
+                      onOpenUrl={onOpenInBrowser}
+                    />
+                    {isSplit && (
+                      <button
+                        type="button"
+                        onClick={() => { void onCloseTerminalPane(tab.id, terminalId); }}
+                        className="absolute top-1 end-1 flex h-4 w-4 cursor-pointer items-center justify-center rounded-md text-foreground/40 opacity-0 transition-opacity hover:bg-foreground/[0.08] hover:text-foreground/70 group-hover/pane:opacity-100"
+                        title="Close Pane"
+                      >
+                        <X className="h-2.5 w-2.5" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+
+          {searchOpen && focusedTerminalId && (
+            <TerminalSearchBar
+              searchAddon={searchAddons[focusedTerminalId] ?? null}
+              resolvedTheme={resolvedTheme}
+              onClose={() => setSearchOpen(false)}
+            />
+          )}
+
+          {onSendToChat && activeSelection && (
+            <button
+              type="button"
+              onClick={handleSendSelection}
+              className="absolute bottom-2 end-3 flex cursor-pointer items-center gap-1.5 rounded-md border border-border/60 bg-popover/95 px-2 py-1 text-[11px] font-medium text-foreground/75 shadow-md transition-colors hover:text-foreground"
             >
-              <TerminalInstance
-                terminalId={tab.terminalId}
-                isVisible={tab.id === activeTabId}
-                resolvedTheme={resolvedTheme}
-              />
-            </div>
-          ))}
+              <MessageSquarePlus className="h-3 w-3" />
+              Send selection to chat
+            </button>
+          )}
 
           {!hasTabs && terminalsReady && (
             <div className="flex h-full flex-col items-center justify-center gap-3">
@@ -195,9 +369,13 @@ export function ToolsPanel({
                               : "text-foreground/30 hover:bg-foreground/[0.04] hover:text-foreground/60"
                           }`}
                         >
-                          <span className="text-[10px] font-semibold leading-none tabular-nums">
-                            {index + 1}
-                          </span>
+                          {tab.icon ? (
+                            <AgentIcon icon={tab.icon} size={13} />
+                          ) : (
+                            <span className="text-[10px] font-semibold leading-none tabular-nums">
+                              {index + 1}
+                            </span>
+                          )}
                           <span
                             role="button"
                             tabIndex={0}
@@ -225,20 +403,76 @@ export function ToolsPanel({
                 })}
               </div>
 
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <button
-                    type="button"
-                    onClick={() => { void handleCreateTerminal(); }}
-                    className="mt-1 flex h-7 w-7 cursor-pointer items-center justify-center rounded-md text-foreground/25 transition-all duration-150 hover:bg-foreground/[0.05] hover:text-foreground/50 active:scale-90"
-                  >
-                    <Plus className="h-3.5 w-3.5" />
-                  </button>
-                </TooltipTrigger>
-                <TooltipContent side="left" sideOffset={6}>
-                  <p className="text-xs font-medium">New Terminal</p>
-                </TooltipContent>
-              </Tooltip>
+              {profiles.length > 0 ? (
+                <DropdownMenu>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <DropdownMenuTrigger asChild>
+                        <button
+                          type="button"
+                          className="mt-1 flex h-7 w-7 cursor-pointer items-center justify-center rounded-md text-foreground/25 transition-all duration-150 hover:bg-foreground/[0.05] hover:text-foreground/50 active:scale-90"
+                        >
+                          <Plus className="h-3.5 w-3.5" />
+                        </button>
+                      </DropdownMenuTrigger>
+                    </TooltipTrigger>
+                    <TooltipContent side="left" sideOffset={6}>
+                      <p className="text-xs font-medium">New Terminal</p>
+                    </TooltipContent>
+                  </Tooltip>
+                  <DropdownMenuContent side="left" align="end" className="min-w-44">
+                    <DropdownMenuItem onSelect={() => { void onCreateTerminal(); }}>
+                      <TerminalIcon className="h-3.5 w-3.5" />
+                      Default Shell
+                    </DropdownMenuItem>
+                    {profiles.map((profile) => (
+                      <DropdownMenuItem key={profile.id} onSelect={() => { void onCreateTerminal(profile); }}>
+                        <AgentIcon icon={profile.icon || "Terminal"} size={14} />
+                        <span className="flex-1 truncate">{profile.name}</span>
+                        {profile.id === defaultProfile?.id && (
+                          <span className="text-[10px] text-muted-foreground">default</span>
+                        )}
+                      </DropdownMenuItem>
+                    ))}
+                    {projectId && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuSub>
+                          <DropdownMenuSubTrigger>Project Default</DropdownMenuSubTrigger>
+                          <DropdownMenuSubContent>
+                            <DropdownMenuRadioGroup
+                              value={defaultProfile?.id ?? ""}
+                              onValueChange={(value) => { void setDefaultProfile(value || null); }}
+                            >
+                              <DropdownMenuRadioItem value="">Default Shell</DropdownMenuRadioItem>
+                              {profiles.map((profile) => (
+                                <DropdownMenuRadioItem key={profile.id} value={profile.id}>
+                                  {profile.name}
+                                </DropdownMenuRadioItem>
+                              ))}
+                            </DropdownMenuRadioGroup>
+                          </DropdownMenuSubContent>
+                        </DropdownMenuSub>
+                      </>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              ) : (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <button
+                      type="button"
+                      onClick={() => { void handleCreateTerminal(); }}
+                      className="mt-1 flex h-7 w-7 cursor-pointer items-center justify-center rounded-md text-foreground/25 transition-all duration-150 hover:bg-foreground/[0.05] hover:text-foreground/50 active:scale-90"
+                    >
+                      <Plus className="h-3.5 w-3.5" />
+                    </button>
+                  </TooltipTrigger>
+                  <TooltipContent side="left" sideOffset={6}>
+                    <p className="text-xs font-medium">New Terminal</p>
+                  </TooltipContent>
+                </Tooltip>
+              )}
             </div>
           </>
         )}
@@ -247,14 +481,43 @@ export function ToolsPanel({
   );
 }
 
-function TerminalInstance({
+function HeaderButton({ label, onClick, children }: { label: string; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          onClick={onClick}
+          className="flex h-5 w-5 cursor-pointer items-center justify-center rounded-md text-foreground/35 transition-colors hover:bg-foreground/[0.06] hover:text-foreground/65"
+        >
+          {children}
+        </button>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" sideOffset={6}>
+        <p className="text-xs font-medium">{label}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+export function TerminalInstance({
   terminalId,
   isVisible,
   resolvedTheme,
+  onSelectionChange,
+  onSearchAddonChange,
+  onFindRequest,
+  onOpenUrl,
 }: {
   terminalId: string;
   isVisible: boolean;
   resolvedTheme: ResolvedTheme;
+  onSelectionChange?: (text: string) => void;
+  onSearchAddonChange?: (terminalId: string, addon: SearchAddon | null) => void;
+  /** Cmd+F (Ctrl+Shift+F elsewhere) inside the terminal */
+  onFindRequest?: () => void;
+  /** Clicked URLs go here; Cmd/Ctrl-click, or no handler, opens the system browser */
+  onOpenUrl?: (url: string) => void;
 }) {
   const containerRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<import("@xterm/xterm").Terminal | null>(null);
@@ -266,6 +529,17 @@ function TerminalInstance({
   const lastReportedDimsRef = useRef<{ cols: number; rows: number } | null>(null);
   const pendingResizeTimeoutRef = useRef<number | null>(null);
   const [ready, setReady] = useState(false);
+  const onSelectionChangeRef = useRef(onSelectionChange);
+  onSelectionChangeRef.current = onSelectionChange;
+  const onSearchAddonChangeRef = useRef(onSearchAddonChange);
+  onSearchAddonChangeRef.current = onSearchAddonChange;
+  const onFindRequestRef = useRef(onFindRequest);
+  onFindRequestRef.current = onFindRequest;
+  const onOpenUrlRef = useRef(onOpenUrl);
+  onOpenUrlRef.current = onOpenUrl;
+  const filePreview = useFilePreview();
+  const filePreviewRef = useRef(filePreview);
+  filePreviewRef.current = filePreview;
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -300,6 +574,8 @@ function TerminalInstance({
 
       const { Terminal } = await import("@xterm/xterm");
       const { FitAddon } = await import("@xterm/addon-fit");
+      const { SearchAddon } = await import("@xterm/addon-search");
+      const { WebLinksAddon } = await import("@xterm/addon-web-links");
       if (disposed || !containerRef.current) return;
 
       const initialCols = snapshot.cols ?? 80;
@@ -321,6 +597,35 @@ function TerminalInstance({
       });
 
       term.loadAddon(fitAddon);
+      const searchAddon = new SearchAddon();
+      term.loadAddon(searchAddon);
+      term.loadAddon(new WebLinksAddon((event, uri) => {
+        const openUrl = onOpenUrlRef.current;
+        if (openUrl && !event.metaKey && !event.ctrlKey) openUrl(uri);
+        else void window.claude.openExternal(uri);
+      }));
+      term.registerLinkProvider(createFileLinkProvider(term, terminalId, (filePath, line, event) => {
+        const preview = filePreviewRef.current;
+        if (!preview || event.metaKey || event.ctrlKey) {
+          void window.claude.openInEditor(filePath, line);
+          return;
+        }
+        preview.previewFile(
+          filePath,
+          new DOMRect(event.clientX, event.clientY, 0, 0),
+          line ? { startLine: line, endLine: line } : undefined,
+        );
+      }));
+      term.attachCustomKeyEventHandler((event) => {
+        const isFind = event.key.toLowerCase() === "f"
+          && (isMac ? event.metaKey && !event.shiftKey : event.ctrlKey && event.shiftKey);
+        if (!isFind || !onFindRequestRef.current) return true;
+        // Keep the chat's own Cmd+F handler on window from firing as well
+        event.preventDefault();
+        event.stopPropagation();
+        if (event.type === "keydown") onFindRequestRef.current();
+        return false;
+      });
       xtermRef.current = term;
       fitAddonRef.current = fitAddon;
       lastReportedDimsRef.current = snapshot.cols && snapshot.rows
@@ -332,6 +637,10 @@ function TerminalInstance({
         window.claude.terminal.write(terminalId, data);
       });
 
+      term.onSelectionChange(() => {
+        onSelectionChangeRef.current?.(term.getSelection());
+      });
+
       if (snapshot.output) {
         suppressInputRef.current = true;
         try {
@@ -375,11 +684,13 @@ function TerminalInstance({
       });
 
       setReady(true);
+      onSearchAddonChangeRef.current?.(terminalId, searchAddon);
     })();
 
     return () => {
       disposed = true;
       setReady(false);
+      onSearchAddonChangeRef.current?.(terminalId, null);
       unsubData?.();
       unsubExit?.();
       if (pendingResizeTimeoutRef.current != null) {
@@ -9,7 +9,8 @@ interface UnifiedPatchViewerProps {
 
 const MAX_PATCH_LINES = 100;
 
-function getLineClass(line: string): string {
+/** Text and background classes for one line of a unified diff. */
+export function getPatchLineClass(line: string): string {
   if (line.startsWith("@@")) return "text-blue-700/80 dark:text-blue-400/60";
   if (line.startsWith("+")) return "text-emerald-800/90 dark:text-emerald-400/75 bg-emerald-500/10 dark:bg-transparent";
   if (line.startsWith("-")) return "text-red-800/90 dark:text-red-400/75 bg-red-500/10 dark:bg-transparent";
@@ -49,7 +50,7 @@ export const UnifiedPatchViewer = memo(function UnifiedPatchViewer({
         {displayLines.map((line, idx) => (
           <div
             key={`${idx}-${line.length}`}
-            className={`whitespace-pre-wrap wrap-break-word ${getLineClass(line)}`}
+            className={`whitespace-pre-wrap wrap-break-word ${getPatchLineClass(line)}`}
           >
             {line || " "}
           </div>
@@ -40,6 +40,9 @@ export interface BranchPickerProps {
   branches: GitBranch[];
   onCheckout: (branch: string) => void;
   onCreateBranch: (name: string) => Promise<void>;
+  /** Stash dirty changes before switching and restore them after. */
+  autoStash?: boolean;
+  onAutoStashChange?: (enabled: boolean) => void;
   /** Override outer wrapper classes (defaults to "px-3 pb-1" for standalone use). */
   className?: string;
 }
@@ -49,6 +52,8 @@ export function BranchPicker({
   branches,
   onCheckout,
   onCreateBranch,
+  autoStash,
+  onAutoStashChange,
   className,
 }: BranchPickerProps) {
   const [showBranchPicker, setShowBranchPicker] = useState(false);
@@ -182,6 +187,18 @@ export function BranchPicker({
           {filteredBranches.length === 0 && (
             <div className="px-3 py-3 text-center text-[10px] text-foreground/35">No matching branches</div>
           )}
+
+          {onAutoStashChange && (
+            <label className="sticky bottom-0 flex items-center gap-1.5 border-t border-foreground/[0.08] bg-[var(--background)] px-3 py-1.5 text-[10px] text-foreground/50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!autoStash}
+                onChange={(e) => onAutoStashChange(e.target.checked)}
+                className="h-3 w-3"
+              />
+              Auto-stash changes and restore after switching
+            </label>
+          )}
         </div>
       )}
     </div>
@@ -6,7 +6,7 @@ import {
   Loader2,
 } from "lucide-react";
 import { FileItem } from "./FileItem";
-import { InlineDiff } from "./InlineDiff";
+import { InlineDiff, type PatchAction } from "./InlineDiff";
 import type { GitFileChange, GitFileGroup } from "@/types";
 
 const SECTION_ACCENT: Record<GitFileGroup, string> = {
@@ -28,14 +28,18 @@ export interface ChangesSectionProps {
   onUnstage?: (file: GitFileChange) => void;
   onDiscard?: (file: GitFileChange) => void;
   onViewDiff?: (file: GitFileChange) => void;
+  onBlame?: (file: GitFileChange) => void;
+  /** Hunk/line actions offered inside the expanded diff. */
+  patchActions?: PatchAction[];
+  onApplyPatch?: (file: GitFileChange, patch: string, action: PatchAction) => Promise<void>;
   expandedDiff: string | null;
   diffContent: string | null;
 }
 
 export function ChangesSection({
   label, count, group, files, expanded, onToggle,
-  onStageAll, onUnstageAll, onStage, onUnstage, onDiscard, onViewDiff,
-  expandedDiff, diffContent,
+  onStageAll, onUnstageAll, onStage, onUnstage, onDiscard, onViewDiff, onBlame,
+  patchActions, onApplyPatch, expandedDiff, diffContent,
 }: ChangesSectionProps) {
   const accentDot = SECTION_ACCENT[group] ?? "bg-foreground/30";
 
@@ -76,8 +80,14 @@ export function ChangesSection({
             const isExpanded = expandedDiff === diffKey;
             return (
               <div key={file.path}>
-                <FileItem file={file} onStage={onStage} onUnstage={onUnstage} onDiscard={onDiscard} onViewDiff={onViewDiff} isExpanded={isExpanded} />
-                {isExpanded && diffContent !== null && <InlineDiff diff={diffContent} />}
+                <FileItem file={file} onStage={onStage} onUnstage={onUnstage} onDiscard={onDiscard} onViewDiff={onViewDiff} onBlame={onBlame} isExpanded={isExpanded} />
+                {isExpanded && diffContent !== null && (
+                  <InlineDiff
+                    diff={diffContent}
+                    actions={patchActions}
+                    onApplyPatch={onApplyPatch && ((patch, action) => onApplyPatch(file, patch, action))}
+                  />
+                )}
                 {isExpanded && diffContent === null && (
                   <div className="flex items-center justify-center py-1">
                     <Loader2 className="h-2.5 w-2.5 animate-spin text-foreground/25" />
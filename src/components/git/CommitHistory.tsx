@@ -0,0 +1,467 @@
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Check,
+  Cherry,
+  Copy,
+  GitBranchPlus,
+  History,
+  Loader2,
+  LogIn,
+  MessageSquare,
+  ScrollText,
+  Search,
+  Undo2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { UnifiedPatchViewer } from "@/components/UnifiedPatchViewer";
+import { copyToClipboard } from "@/lib/clipboard";
+import { layoutCommitGraph, type GraphEdge, type GraphRow } from "@/lib/git/commit-graph";
+import { SessionBlame, SessionChip } from "./SessionBlame";
+import { formatRelativeDate, STATUS_COLORS, STATUS_LETTERS, type GitActions } from "./git-panel-utils";
+import type { GitCommitDetails, GitCommitFile, GitHistoryEntry, GitHistoryFilter } from "@/types";
+
+const PAGE_SIZE = 100;
+const ROW_HEIGHT = 24;
+const LANE_WIDTH = 12;
+const MAX_GRAPH_LANES = 12;
+const LANE_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#06b6d4", "#ec4899", "#84cc16"];
+
+function laneColor(lane: number): string {
+  return LANE_COLORS[lane % LANE_COLORS.length];
+}
+
+function laneX(lane: number): number {
+  return lane * LANE_WIDTH + LANE_WIDTH / 2;
+}
+
+function edgePath(edge: GraphEdge, y1: number, y2: number): string {
+  const x1 = laneX(edge.from);
+  const x2 = laneX(edge.to);
+  if (x1 === x2) return `M${x1},${y1}L${x2},${y2}`;
+  const midY = (y1 + y2) / 2;
+  return `M${x1},${y1}C${x1},${midY} ${x2},${midY} ${x2},${y2}`;
+}
+
+const GraphCell = memo(function GraphCell({ row, lanes }: { row: GraphRow; lanes: number }) {
+  const mid = ROW_HEIGHT / 2;
+  return (
+    <svg width={lanes * LANE_WIDTH} height={ROW_HEIGHT} className="shrink-0 overflow-hidden">
+      {row.top.map((edge, i) => (
+        <path key={`t${i}`} d={edgePath(edge, 0, mid)} stroke={laneColor(edge.color)} strokeWidth={1.5} fill="none" />
+      ))}
+      {row.bottom.map((edge, i) => (
+        <path key={`b${i}`} d={edgePath(edge, mid, ROW_HEIGHT)} stroke={laneColor(edge.color)} strokeWidth={1.5} fill="none" />
+      ))}
+      <circle cx={laneX(row.lane)} cy={mid} r={3.5} fill={laneColor(row.lane)} stroke="var(--background)" strokeWidth={1} />
+    </svg>
+  );
+});
+
+function RefBadge({ name }: { name: string }) {
+  const isHead = name.startsWith("HEAD");
+  const isTag = name.startsWith("tag: ");
+  const label = isTag ? name.slice(5) : name.replace(/^HEAD -> /, "");
+  const tone = isHead
+    ? "bg-emerald-500/15 text-emerald-700 dark:text-emerald-300"
+    : isTag
+      ? "bg-amber-500/15 text-amber-700 dark:text-amber-300"
+      : "bg-blue-500/12 text-blue-600 dark:text-blue-300";
+  return <span className={`shrink-0 rounded px-1 py-px text-[9px] font-medium ${tone}`}>{label}</span>;
+}
+
+interface CommitHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cwd: string;
+  git: GitActions;
+  /** Checkout respects the panel's auto-stash preference. */
+  autoStash: boolean;
+  onOpenSession?: (sessionId: string, turnId?: string) => void;
+  getSessionTitle?: (sessionId: string) => string | undefined;
+}
+
+/** Commit graph with paging, filters and per-commit file diffs. */
+export function CommitHistory({ open, onOpenChange, cwd, git, autoStash, onOpenSession, getSessionTitle }: CommitHistoryProps) {
+  const [entries, setEntries] = useState<GitHistoryEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [filter, setFilter] = useState<GitHistoryFilter>({ allBranches: true });
+  const [selectedHash, setSelectedHash] = useState<string | null>(null);
+  const [blameTarget, setBlameTarget] = useState<{ file: string; rev: string } | null>(null);
+  const requestIdRef = useRef(0);
+  // Not `git`: it changes every status poll, which would reload page 0 and drop the pages loaded since
+  const { getHistory } = git;
+
+  const loadPage = useCallback(async (skip: number) => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    try {
+      const result = await getHistory(cwd, { ...filter, skip, count: PAGE_SIZE });
+      if (requestId !== requestIdRef.current) return;
+      if ("error" in result) {
+        toast.error("Failed to load history", { description: result.error });
+        return;
+      }
+      setEntries((prev) => (skip === 0 ? result : [...prev, ...result]));
+      setHasMore(result.length === PAGE_SIZE);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [cwd, filter, getHistory]);
+
+  // Reload from the top whenever the filters change (debounced for typing)
+  useEffect(() => {
+    if (!open) return;
+    const timer = setTimeout(() => void loadPage(0), 250);
+    return () => clearTimeout(timer);
+  }, [loadPage, open]);
+
+  useEffect(() => {
+    if (!open) setSelectedHash(null);
+  }, [open]);
+
+  const rows = useMemo(() => layoutCommitGraph(entries), [entries]);
+  const graphLanes = useMemo(
+    () => Math.min(MAX_GRAPH_LANES, rows.reduce((max, row) => Math.max(max, row.width), 1)),
+    [rows],
+  );
+  const selected = entries.find((entry) => entry.hash === selectedHash) ?? null;
+
+  const openSession = useMemo(() => onOpenSession && ((sessionId: string, turnId?: string) => {
+    onOpenChange(false);
+    onOpenSession(sessionId, turnId);
+  }), [onOpenChange, onOpenSession]);
+
+  const updateFilter = useCallback((patch: Partial<GitHistoryFilter>) => {
+    setFilter((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[88vh] max-w-[95vw] flex-col gap-0 p-0 sm:max-w-[95vw]" aria-describedby={undefined}>
+        <DialogHeader className="flex-row items-center gap-2 border-b border-border/50 px-4 py-3 pe-12 shrink-0">
+          <DialogTitle className="flex items-center gap-2 text-sm">
+            <History className="h-4 w-4 text-foreground/50" />
+            History
+          </DialogTitle>
+          <div className="flex min-w-0 flex-1 items-center gap-1.5 ps-3">
+            <FilterInput placeholder="Message…" value={filter.message ?? ""} onChange={(message) => updateFilter({ message })} />
+            <FilterInput placeholder="Author…" value={filter.author ?? ""} onChange={(author) => updateFilter({ author })} />
+            <FilterInput placeholder="Path…" value={filter.path ?? ""} onChange={(path) => updateFilter({ path })} />
+            <label className="flex shrink-0 items-center gap-1.5 text-[11px] text-foreground/55 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!filter.allBranches}
+                onChange={(e) => updateFilter({ allBranches: e.target.checked })}
+                className="h-3 w-3"
+              />
+              All branches
+            </label>
+          </div>
+        </DialogHeader>
+
+        <div className="flex min-h-0 flex-1">
+          {/* Graph + commit list */}
+          <div className="min-w-0 flex-[3] overflow-y-auto border-e border-border/50">
+            {entries.map((entry, i) => (
+              <button
+                key={entry.hash}
+                type="button"
+                onClick={() => setSelectedHash(entry.hash)}
+                className={`flex w-full items-center gap-2 pe-3 ps-2 text-start text-[11px] cursor-pointer transition-colors ${
+                  entry.hash === selectedHash ? "bg-foreground/[0.07]" : "hover:bg-foreground/[0.03]"
+                }`}
+                style={{ height: ROW_HEIGHT }}
+              >
+                <GraphCell row={rows[i]} lanes={graphLanes} />
+                <span className="flex min-w-0 flex-1 items-center gap-1">
+                  {entry.refs.map((ref) => <RefBadge key={ref} name={ref} />)}
+                  {entry.session && <MessageSquare className="h-3 w-3 shrink-0 text-blue-500/70" aria-label="Made in a chat" />}
+                  <span className="min-w-0 truncate text-foreground/75">{entry.subject}</span>
+                </span>
+                <span className="w-28 shrink-0 truncate text-foreground/40">{entry.author}</span>
+                <span className="w-14 shrink-0 font-mono text-[10px] text-foreground/35">{entry.shortHash}</span>
+                <span className="w-8 shrink-0 text-end tabular-nums text-[10px] text-foreground/30">{formatRelativeDate(entry.date)}</span>
+              </button>
+            ))}
+            {loading && (
+              <div className="flex items-center justify-center py-3">
+                <Loader2 className="h-4 w-4 animate-spin text-foreground/30" />
+              </div>
+            )}
+            {!loading && entries.length === 0 && (
+              <p className="py-8 text-center text-xs text-foreground/40">No matching commits</p>
+            )}
+            {!loading && hasMore && (
+              <div className="flex justify-center py-2">
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => void loadPage(entries.length)}>
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {/* Commit details */}
+          <div className="flex min-w-0 flex-[2] flex-col">
+            {selected ? (
+              <CommitDetailsPane
+                key={selected.hash}
+                cwd={cwd}
+                entry={selected}
+                git={git}
+                autoStash={autoStash}
+                onHistoryChanged={() => void loadPage(0)}
+                onBlame={(file) => setBlameTarget({ file, rev: selected.hash })}
+                onOpenSession={openSession}
+                getSessionTitle={getSessionTitle}
+              />
+            ) : (
+              <p className="m-auto text-xs text-foreground/40">Select a commit to see its changes</p>
+            )}
+          </div>
+        </div>
+        <SessionBlame
+          open={blameTarget !== null}
+          onOpenChange={(next) => { if (!next) setBlameTarget(null); }}
+          cwd={cwd}
+          file={blameTarget?.file ?? ""}
+          rev={blameTarget?.rev}
+          git={git}
+          onOpenSession={openSession}
+          getSessionTitle={getSessionTitle}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function FilterInput({ placeholder, value, onChange }: { placeholder: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <div className="flex min-w-0 flex-1 items-center gap-1.5 rounded-md bg-foreground/[0.05] px-2">
+      <Search className="h-3 w-3 shrink-0 text-foreground/30" />
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="w-full min-w-0 bg-transparent py-1 text-[11px] text-foreground/75 outline-none placeholder:text-foreground/30"
+      />
+    </div>
+  );
+}
+
+type CommitAction = "checkout" | "revert" | "cherry-pick";
+
+const CONFIRM_COPY: Record<CommitAction, { title: string; description: string; label: string }> = {
+  checkout: {
+    title: "Check out this commit?",
+    description: "You'll be in detached HEAD state. Create a branch from the commit if you want to keep working from it.",
+    label: "Checkout",
+  },
+  revert: {
+    title: "Revert this commit?",
+    description: "A new commit undoing its changes is created on the current branch.",
+    label: "Revert",
+  },
+  "cherry-pick": {
+    title: "Cherry-pick this commit?",
+    description: "Its changes are applied as a new commit on the current branch.",
+    label: "Cherry-pick",
+  },
+};
+
+function CommitDetailsPane({ cwd, entry, git, autoStash, onHistoryChanged, onBlame, onOpenSession, getSessionTitle }: {
+  cwd: string;
+  entry: GitHistoryEntry;
+  git: GitActions;
+  autoStash: boolean;
+  onHistoryChanged: () => void;
+  onBlame: (file: string) => void;
+  onOpenSession?: (sessionId: string, turnId?: string) => void;
+  getSessionTitle?: (sessionId: string) => string | undefined;
+}) {
+  const { session } = entry;
+  const [details, setDetails] = useState<GitCommitDetails | null>(null);
+  const [openFile, setOpenFile] = useState<GitCommitFile | null>(null);
+  const [fileDiff, setFileDiff] = useState<string | null>(null);
+  const [branchName, setBranchName] = useState<string | null>(null);
+  const [confirmAction, setConfirmAction] = useState<CommitAction | null>(null);
+  const [copied, setCopied] = useState(false);
+  const { getCommitDetails, getCommitFileDiff, checkout, revertCommit, cherryPick, createBranch } = git;
+
+  useEffect(() => {
+    let cancelled = false;
+    void getCommitDetails(cwd, entry.hash).then((result) => {
+      if (cancelled) return;
+      if ("error" in result) {
+        toast.error("Failed to load commit", { description: result.error });
+        return;
+      }
+      setDetails(result);
+    });
+    return () => { cancelled = true; };
+  }, [cwd, entry.hash, getCommitDetails]);
+
+  const toggleFile = useCallback(async (file: GitCommitFile) => {
+    if (openFile?.path === file.path) {
+      setOpenFile(null);
+      return;
+    }
+    setOpenFile(file);
+    setFileDiff(null);
+    const result = await getCommitFileDiff(cwd, entry.hash, file.path, file.oldPath);
+    setFileDiff(result.diff || "");
+  }, [cwd, entry.hash, getCommitFileDiff, openFile?.path]);
+
+  const runAction = useCallback(async (action: CommitAction) => {
+    const result = action === "checkout"
+      ? await checkout(cwd, entry.hash, { autoStash })
+      : action === "revert"
+        ? await revertCommit(cwd, entry.hash)
+        : await cherryPick(cwd, entry.hash);
+    if (result?.error) {
+      toast.error(`${CONFIRM_COPY[action].label} failed`, { description: result.error });
+    } else if (result && "stash" in result && (result.stash === "conflicts" || result.stash === "kept")) {
+      toast.warning("Checked out, but your stashed changes weren't restored", {
+        description: result.stash === "conflicts" ? "Restoring them conflicted; the stash entry was kept." : result.stashError,
+      });
+    } else {
+      toast.success(`${CONFIRM_COPY[action].label} done`, { description: entry.subject });
+    }
+    // Revert/cherry-pick conflicts still move HEAD state; the panel shows the conflict banner
+    onHistoryChanged();
+  }, [autoStash, checkout, cherryPick, cwd, entry.hash, entry.subject, onHistoryChanged, revertCommit]);
+
+  const handleCreateBranch = useCallback(async () => {
+    const name = branchName?.trim();
+    if (!name) return;
+    const result = await createBranch(cwd, name, entry.hash);
+    if (result?.error) {
+      toast.error("Failed to create branch", { description: result.error });
+      return;
+    }
+    toast.success(`Switched to new branch ${name}`);
+    setBranchName(null);
+    onHistoryChanged();
+  }, [branchName, createBranch, cwd, entry.hash, onHistoryChanged]);
+
+  const handleCopy = useCallback(async () => {
+    if (await copyToClipboard(entry.hash)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    }
+  }, [entry.hash]);
+
+  return (
+    <>
+      <div className="space-y-2 border-b border-border/50 px-4 py-3 shrink-0">
+        <p className="whitespace-pre-wrap text-xs text-foreground/80">{details?.body || entry.subject}</p>
+        <p className="text-[11px] text-foreground/40">
+          {entry.author} · {new Date(entry.date).toLocaleString()} · <span className="font-mono">{entry.shortHash}</span>
+        </p>
+        {session && (
+          <SessionChip
+            label={getSessionTitle?.(session.sessionId) ?? `Chat ${session.sessionId.slice(0, 8)}`}
+            turns={session.turns}
+            onClick={onOpenSession ? () => onOpenSession(session.sessionId, session.turns[0]) : undefined}
+          />
+        )}
+        <div className="flex flex-wrap items-center gap-1">
+          <ActionButton icon={LogIn} label="Checkout" onClick={() => setConfirmAction("checkout")} />
+          <ActionButton icon={GitBranchPlus} label="Branch" onClick={() => setBranchName(branchName === null ? "" : null)} />
+          <ActionButton icon={Undo2} label="Revert" onClick={() => setConfirmAction("revert")} />
+          <ActionButton icon={Cherry} label="Cherry-pick" onClick={() => setConfirmAction("cherry-pick")} />
+          <ActionButton icon={copied ? Check : Copy} label="Copy hash" onClick={() => void handleCopy()} />
+        </div>
+        {branchName !== null && (
+          <input
+            type="text"
+            value={branchName}
+            onChange={(e) => setBranchName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") void handleCreateBranch();
+              if (e.key === "Escape") setBranchName(null);
+            }}
+            placeholder={`New branch from ${entry.shortHash}…`}
+            className="w-full rounded-md bg-foreground/[0.05] px-2 py-1.5 text-[11px] text-foreground/75 outline-none placeholder:text-foreground/30"
+            autoFocus
+          />
+        )}
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto py-1">
+        {!details && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-foreground/30" />
+          </div>
+        )}
+        {details?.files.map((file) => (
+          <div key={file.path}>
+            <div
+              className={`group flex items-center gap-1 pe-3 transition-colors hover:bg-foreground/[0.04] ${
+                openFile?.path === file.path ? "bg-foreground/[0.05]" : ""
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => void toggleFile(file)}
+                className="flex min-w-0 flex-1 items-center gap-1.5 ps-4 py-[3px] text-start text-[11px] cursor-pointer"
+              >
+                <span className={`flex h-4 w-4 shrink-0 items-center justify-center rounded text-[9px] font-semibold ${STATUS_COLORS[file.status] ?? ""}`}>
+                  {STATUS_LETTERS[file.status] ?? "?"}
+                </span>
+                <span className="min-w-0 truncate text-foreground/75">{file.path}</span>
+                {file.oldPath && <span className="shrink-0 truncate text-[10px] text-foreground/30">← {file.oldPath}</span>}
+              </button>
+              {file.status !== "deleted" && (
+                <button
+                  type="button"
+                  onClick={() => onBlame(file.path)}
+                  className="flex h-5 w-5 shrink-0 items-center justify-center rounded-md text-foreground/30 opacity-0 transition-colors group-hover:opacity-100 hover:bg-foreground/[0.06] hover:text-foreground/65 cursor-pointer"
+                  title="Blame by Session"
+                >
+                  <ScrollText className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+            {openFile?.path === file.path && (
+              <div className="px-4 py-1.5">
+                {fileDiff === null ? (
+                  <div className="flex justify-center py-2">
+                    <Loader2 className="h-3 w-3 animate-spin text-foreground/30" />
+                  </div>
+                ) : fileDiff ? (
+                  <UnifiedPatchViewer diffText={fileDiff} filePath={`${cwd}/${file.path}`} />
+                ) : (
+                  <p className="text-[11px] italic text-foreground/35">No textual changes</p>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <ConfirmDialog
+        open={confirmAction !== null}
+        onOpenChange={(next) => { if (!next) setConfirmAction(null); }}
+        onConfirm={() => { if (confirmAction) void runAction(confirmAction); }}
+        title={confirmAction ? CONFIRM_COPY[confirmAction].title : ""}
+        description={confirmAction ? CONFIRM_COPY[confirmAction].description : ""}
+        confirmLabel={confirmAction ? CONFIRM_COPY[confirmAction].label : undefined}
+        confirmVariant="default"
+      />
+    </>
+  );
+}
+
+function ActionButton({ icon: Icon, label, onClick }: { icon: typeof Copy; label: string; onClick: () => void }) {
+  return (
+    <Button variant="outline" size="sm" className="h-6 gap-1 px-2 text-[11px]" onClick={onClick}>
+      <Icon className="h-3 w-3" />
+      {label}
+    </Button>
+  );
+}
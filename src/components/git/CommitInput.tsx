@@ -1,9 +1,12 @@
 import { useState, useCallback, type KeyboardEvent } from "react";
 import {
   Check,
+  Link2,
   Loader2,
+  PenLine,
   Sparkles,
 } from "lucide-react";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import type { EngineId } from "@/types";
 
@@ -14,7 +17,14 @@ export interface CommitInputProps {
   activeEngine?: EngineId;
   activeSessionId?: string | null;
   onSyncError: (error: string) => void;
-  onCommit: (message: string) => Promise<void>;
+  onCommit: (message: string, options?: { amend?: boolean; allowPushed?: boolean }) => Promise<void>;
+  /** Offer amending HEAD — false for a repo without commits */
+  canAmend?: boolean;
+  /** Resolves true when HEAD is already on a remote, so amending it needs confirmation */
+  isHeadPushed?: () => Promise<boolean>;
+  /** Whether the commit is linked to the active chat; the toggle is hidden when undefined */
+  linkSession?: boolean;
+  onLinkSessionChange?: (enabled: boolean) => void;
 }
 
 export function CommitInput({
@@ -25,15 +35,51 @@ export function CommitInput({
   activeSessionId,
   onSyncError,
   onCommit,
+  canAmend,
+  isHeadPushed,
+  linkSession,
+  onLinkSessionChange,
 }: CommitInputProps) {
   const [commitMessage, setCommitMessage] = useState("");
   const [generatingMessage, setGeneratingMessage] = useState(false);
+  const [amend, setAmend] = useState(false);
+  // HEAD's message as loaded when amend was switched on, to tell whether the user edited it
+  const [headMessage, setHeadMessage] = useState<string | null>(null);
+  const [confirmPushedAmend, setConfirmPushedAmend] = useState(false);
 
-  const handleCommit = useCallback(async () => {
-    if (!commitMessage.trim() || stagedCount === 0) return;
-    await onCommit(commitMessage.trim());
+  const finishCommit = useCallback(async (allowPushed?: boolean) => {
+    await onCommit(commitMessage.trim(), amend ? { amend: true, allowPushed } : undefined);
     setCommitMessage("");
-  }, [commitMessage, stagedCount, onCommit]);
+    setAmend(false);
+    setHeadMessage(null);
+  }, [amend, commitMessage, onCommit]);
+
+  const handleCommit = useCallback(async () => {
+    // Amending may only reword HEAD, so it doesn't need anything staged
+    if (!commitMessage.trim() || (stagedCount === 0 && !amend)) return;
+    if (amend && (await isHeadPushed?.())) {
+      setConfirmPushedAmend(true);
+      return;
+    }
+    await finishCommit();
+  }, [amend, commitMessage, finishCommit, isHeadPushed, stagedCount]);
+
+  const toggleAmend = useCallback(async () => {
+    if (amend) {
+      setAmend(false);
+      if (commitMessage === headMessage) setCommitMessage("");
+      setHeadMessage(null);
+      return;
+    }
+    setAmend(true);
+    const result = await window.claude.git.commitDetails(cwd, "HEAD");
+    if ("error" in result) {
+      onSyncError(result.error);
+      return;
+    }
+    setHeadMessage(result.body);
+    setCommitMessage((current) => current.trim() ? current : result.body);
+  }, [amend, commitMessage, cwd, headMessage, onSyncError]);
 
   const handleCommitKeyDown = useCallback(
     (e: KeyboardEvent<HTMLTextAreaElement>) => {
@@ -52,6 +98,7 @@ export function CommitInput({
         cwd,
         activeEngine,
         activeEngine !== "claude" && activeSessionId ? activeSessionId : undefined,
+        amend,
       );
       if (result.message) {
         setCommitMessage(result.message);
@@ -63,9 +110,9 @@ export function CommitInput({
     } finally {
       setGeneratingMessage(false);
     }
-  }, [cwd, activeEngine, activeSessionId, onSyncError]);
+  }, [cwd, activeEngine, activeSessionId, amend, onSyncError]);
 
-  const canCommit = commitMessage.trim().length > 0 && stagedCount > 0;
+  const canCommit = commitMessage.trim().length > 0 && (stagedCount > 0 || amend);
 
   return (
     <div className="mx-3 mb-1.5">
@@ -85,7 +132,7 @@ export function CommitInput({
               <button
                 type="button"
                 onClick={handleGenerateMessage}
-                disabled={generatingMessage || totalChanges === 0}
+                disabled={generatingMessage || (totalChanges === 0 && !amend)}
                 className="flex h-6 w-6 items-center justify-center rounded-md border border-foreground/[0.08] bg-foreground/[0.03] text-foreground/40 transition-colors hover:border-foreground/[0.12] hover:bg-foreground/[0.06] hover:text-foreground/70 disabled:opacity-25 disabled:cursor-not-allowed cursor-pointer"
               >
                 {generatingMessage ? (
@@ -99,6 +146,51 @@ export function CommitInput({
               <p className="text-xs">AI commit message</p>
             </TooltipContent>
           </Tooltip>
+          {canAmend && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  onClick={() => void toggleAmend()}
+                  aria-pressed={amend}
+                  className={`flex h-6 w-6 items-center justify-center rounded-md border transition-colors cursor-pointer ${
+                    amend
+                      ? "border-amber-500/30 bg-amber-500/10 text-amber-600 dark:text-amber-300"
+                      : "border-foreground/[0.08] bg-foreground/[0.03] text-foreground/40 hover:border-foreground/[0.12] hover:bg-foreground/[0.06] hover:text-foreground/70"
+                  }`}
+                >
+                  <PenLine className="h-3 w-3" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom" sideOffset={4}>
+                <p className="text-xs">{amend ? "Amending last commit" : "Amend last commit"}</p>
+              </TooltipContent>
+            </Tooltip>
+          )}
+          {linkSession !== undefined && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  onClick={() => onLinkSessionChange?.(!linkSession)}
+                  aria-pressed={linkSession}
+                  className={`flex h-6 w-6 items-center justify-center rounded-md border transition-colors cursor-pointer ${
+                    linkSession
+                      ? "border-blue-500/30 bg-blue-500/10 text-blue-600 dark:text-blue-300"
+                      : "border-foreground/[0.08] bg-foreground/[0.03] text-foreground/40 hover:border-foreground/[0.12] hover:bg-foreground/[0.06] hover:text-foreground/70"
+                  }`}
+                >
+                  <Link2 className="h-3 w-3" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom" sideOffset={4}>
+                <p className="text-xs">
+                  {linkSession ? "Linking commits to the chats that made them" : "Link commits to the chats that made them"}
+                  <span className="ms-1.5 text-background/50">Harnss-Session trailer</span>
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          )}
           <div className="min-w-0 flex-1" />
           {stagedCount > 0 && (
             <span className="text-[10px] tabular-nums text-foreground/35">
@@ -117,19 +209,28 @@ export function CommitInput({
                     : "text-foreground/20 cursor-not-allowed"
                 }`}
               >
-                <Check className="h-3 w-3" />
-                <span>Commit</span>
+                {amend ? <PenLine className="h-3 w-3" /> : <Check className="h-3 w-3" />}
+                <span>{amend ? "Amend" : "Commit"}</span>
               </button>
             </TooltipTrigger>
             <TooltipContent side="bottom" sideOffset={4}>
               <p className="text-xs">
-                Commit changes
+                {amend ? "Amend last commit" : "Commit changes"}
                 <span className="ms-1.5 text-background/50">⌘↵</span>
               </p>
             </TooltipContent>
           </Tooltip>
         </div>
       </div>
+
+      <ConfirmDialog
+        open={confirmPushedAmend}
+        onOpenChange={setConfirmPushedAmend}
+        onConfirm={() => void finishCommit(true)}
+        title="Amend a pushed commit?"
+        description="The last commit is already on a remote. Amending rewrites it, so you'll have to force-push and anyone who pulled it will diverge."
+        confirmLabel="Amend Anyway"
+      />
     </div>
   );
 }
@@ -0,0 +1,359 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ArrowRight, Cherry, GitCompare, GitMerge, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UnifiedPatchViewer } from "@/components/UnifiedPatchViewer";
+import { formatRelativeDate, STATUS_COLORS, STATUS_LETTERS, type GitActions } from "./git-panel-utils";
+import type { GitBranch, GitCommitFile, GitCompareResult, GitCompareSide, GitWorktree } from "@/types";
+
+// Select values: "ref:<name>" or "worktree:<path>"
+function encodeSide(side: GitCompareSide): string {
+  return side.kind === "ref" ? `ref:${side.ref}` : `worktree:${side.path}`;
+}
+
+function decodeSide(value: string): GitCompareSide | null {
+  if (value.startsWith("ref:")) return { kind: "ref", ref: value.slice(4) };
+  if (value.startsWith("worktree:")) return { kind: "worktree", path: value.slice(9) };
+  return null;
+}
+
+function worktreeLabel(worktree: GitWorktree): string {
+  const name = worktree.path.split(/[\\/]/).pop() || worktree.path;
+  return worktree.branch ? `${name} (${worktree.branch})` : `${name} (detached)`;
+}
+
+interface CompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cwd: string;
+  git: GitActions;
+  branches: GitBranch[];
+  /** Branch checked out in `cwd` — the target of merges and cherry-picks. */
+  currentBranch?: string;
+}
+
+type PendingAction = "merge" | "cherry-pick";
+
+/** Compare two branches or worktrees, then merge or cherry-pick the difference into the current branch. */
+export function CompareDialog({ open, onOpenChange, cwd, git, branches, currentBranch }: CompareDialogProps) {
+  const [worktrees, setWorktrees] = useState<GitWorktree[]>([]);
+  const [baseValue, setBaseValue] = useState("");
+  const [headValue, setHeadValue] = useState("");
+  const [result, setResult] = useState<GitCompareResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [selectedCommits, setSelectedCommits] = useState<Set<string>>(new Set());
+  const [openFile, setOpenFile] = useState<GitCommitFile | null>(null);
+  const [fileDiff, setFileDiff] = useState<string | null>(null);
+  const [removeAfterMerge, setRemoveAfterMerge] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [running, setRunning] = useState(false);
+  // Bumped after a merge/cherry-pick so the comparison reloads
+  const [version, setVersion] = useState(0);
+
+  // Pulled off `git` (a new object every status poll) so the seed and the comparison don't re-run with it
+  const { listWorktrees, compare, getCompareFileDiff, merge, removeWorktree, cherryPick } = git;
+
+  useEffect(() => {
+    if (!open) return;
+    setBaseValue(currentBranch ? encodeSide({ kind: "ref", ref: currentBranch }) : "");
+    setHeadValue("");
+    setRemoveAfterMerge(false);
+    void listWorktrees(cwd).then((list) => {
+      if ("error" in list) return;
+      setWorktrees(list.filter((worktree) => !worktree.prunable));
+    });
+    // Seed the pickers once per open, not on every branch refresh
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cwd, listWorktrees, open]);
+
+  useEffect(() => {
+    const base = decodeSide(baseValue);
+    const head = decodeSide(headValue);
+    setResult(null);
+    setError(null);
+    setSelectedCommits(new Set());
+    setOpenFile(null);
+    if (!open || !base || !head) return;
+    let cancelled = false;
+    setLoading(true);
+    void compare(cwd, base, head).then((compared) => {
+      if (cancelled) return;
+      setLoading(false);
+      if ("error" in compared) setError(compared.error);
+      else setResult(compared);
+    });
+    return () => { cancelled = true; };
+  }, [baseValue, compare, cwd, headValue, open, version]);
+
+  const localBranches = useMemo(() => branches.filter((branch) => !branch.isRemote), [branches]);
+  const remoteBranches = useMemo(() => branches.filter((branch) => branch.isRemote), [branches]);
+
+  const toggleFile = useCallback(async (file: GitCommitFile) => {
+    if (!result) return;
+    if (openFile?.path === file.path) {
+      setOpenFile(null);
+      return;
+    }
+    setOpenFile(file);
+    setFileDiff(null);
+    const diff = await getCompareFileDiff(
+      cwd,
+      result.base.snapshot ?? result.base.hash,
+      result.head.snapshot ?? result.head.hash,
+      file.path,
+      file.oldPath,
+    );
+    setFileDiff(diff.diff || "");
+  }, [cwd, getCompareFileDiff, openFile?.path, result]);
+
+  const toggleCommit = useCallback((hash: string) => {
+    setSelectedCommits((prev) => {
+      const next = new Set(prev);
+      if (next.has(hash)) next.delete(hash);
+      else next.add(hash);
+      return next;
+    });
+  }, []);
+
+  const head = result?.head;
+  // Only a linked worktree other than the one we're merging into can be removed
+  const canRemoveWorktree = !!head?.worktreePath
+    && !worktrees.find((worktree) => worktree.path === head.worktreePath)?.isPrimary
+    && head.worktreePath !== cwd;
+
+  const runAction = useCallback(async (action: PendingAction) => {
+    if (!result) return;
+    setRunning(true);
+    try {
+      if (action === "merge") {
+        const merged = await merge(cwd, result.head.branch ?? result.head.hash);
+        if (merged.error) {
+          toast.error("Merge failed", { description: merged.error });
+          return;
+        }
+        toast.success(`Merged ${result.head.label}`);
+        if (removeAfterMerge && canRemoveWorktree && result.head.worktreePath) {
+          // Same guarded path as the worktree manager — refused while a chat runs there
+          const removed = await removeWorktree(cwd, result.head.worktreePath);
+          if (removed?.error) toast.error("Failed to remove worktree", { description: removed.error });
+          else toast.success("Worktree removed");
+        }
+      } else {
+        // `ahead` is newest first; cherry-pick applies in the order given
+        const hashes = result.ahead.filter((commit) => selectedCommits.has(commit.hash)).map((commit) => commit.hash).reverse();
+        const picked = await cherryPick(cwd, hashes);
+        if (picked.error) {
+          toast.error("Cherry-pick failed", { description: picked.error });
+          return;
+        }
+        toast.success(`Cherry-picked ${hashes.length} commit${hashes.length === 1 ? "" : "s"}`);
+      }
+    } finally {
+      setRunning(false);
+      // Conflicts still change the repo; the panel shows the operation banner
+      setVersion((v) => v + 1);
+    }
+  }, [canRemoveWorktree, cherryPick, cwd, merge, removeAfterMerge, removeWorktree, result, selectedCommits]);
+
+  const targetLabel = currentBranch ?? "HEAD";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[88vh] max-w-[95vw] flex-col gap-0 p-0 sm:max-w-[95vw]" aria-describedby={undefined}>
+        <DialogHeader className="flex-row items-center gap-2 border-b border-border/50 px-4 py-3 pe-12 shrink-0">
+          <DialogTitle className="flex shrink-0 items-center gap-2 text-sm">
+            <GitCompare className="h-4 w-4 text-foreground/50" />
+            Compare
+          </DialogTitle>
+          <div className="flex min-w-0 flex-1 items-center gap-1.5 ps-3">
+            <SidePicker value={baseValue} onChange={setBaseValue} placeholder="Base…" worktrees={worktrees} localBranches={localBranches} remoteBranches={remoteBranches} />
+            <ArrowRight className="h-3.5 w-3.5 shrink-0 text-foreground/30" />
+            <SidePicker value={headValue} onChange={setHeadValue} placeholder="Compare…" worktrees={worktrees} localBranches={localBranches} remoteBranches={remoteBranches} />
+          </div>
+        </DialogHeader>
+
+        {result && (
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1.5 border-b border-border/50 px-4 py-2 text-[11px] shrink-0">
+            <span className="text-foreground/60">
+              <span className="font-medium text-foreground/80">{result.head.label}</span> is{" "}
+              <span className="tabular-nums">{result.ahead.length}</span> ahead,{" "}
+              <span className="tabular-nums">{result.behind}</span> behind{" "}
+              <span className="font-medium text-foreground/80">{result.base.label}</span>
+              {" · "}
+              <span className="tabular-nums">{result.files.length}</span> file{result.files.length === 1 ? "" : "s"} changed
+            </span>
+            {(result.base.dirty || result.head.dirty) && (
+              <span className="text-amber-600 dark:text-amber-400">
+                Files include uncommitted changes in {result.head.dirty ? result.head.label : result.base.label} (untracked files aside) — merges take commits only
+              </span>
+            )}
+            <div className="ms-auto flex items-center gap-1.5">
+              {canRemoveWorktree && (
+                <label className="flex items-center gap-1.5 text-foreground/55 cursor-pointer">
+                  <input type="checkbox" checked={removeAfterMerge} onChange={(e) => setRemoveAfterMerge(e.target.checked)} className="h-3 w-3" />
+                  Remove worktree after merge
+                </label>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 gap-1 px-2 text-[11px]"
+                disabled={running || selectedCommits.size === 0}
+                onClick={() => setPendingAction("cherry-pick")}
+              >
+                <Cherry className="h-3 w-3" />
+                Cherry-pick {selectedCommits.size > 0 ? selectedCommits.size : ""}
+              </Button>
+              <Button
+                size="sm"
+                className="h-6 gap-1 px-2 text-[11px]"
+                disabled={running || result.ahead.length === 0}
+                onClick={() => setPendingAction("merge")}
+              >
+                {running ? <Loader2 className="h-3 w-3 animate-spin" /> : <GitMerge className="h-3 w-3" />}
+                Merge into {targetLabel}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex min-h-0 flex-1">
+          {!result && (
+            <div className="m-auto text-xs text-foreground/40">
+              {loading ? <Loader2 className="h-4 w-4 animate-spin text-foreground/30" />
+                : error ? <span className="text-red-600 dark:text-red-400">{error}</span>
+                : "Pick a branch or worktree to compare against the base"}
+            </div>
+          )}
+          {result && (
+            <>
+              {/* Commits only on the compared side */}
+              <div className="min-w-0 flex-[2] overflow-y-auto border-e border-border/50 py-1">
+                {result.ahead.length === 0 && (
+                  <p className="py-8 text-center text-xs text-foreground/40">No commits to bring over</p>
+                )}
+                {result.ahead.map((commit) => (
+                  <label
+                    key={commit.hash}
+                    className="flex items-center gap-2 px-3 py-[3px] text-[11px] transition-colors hover:bg-foreground/[0.03] cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedCommits.has(commit.hash)}
+                      onChange={() => toggleCommit(commit.hash)}
+                      className="h-3 w-3 shrink-0"
+                    />
+                    <span className="shrink-0 font-mono text-[10px] text-foreground/40">{commit.shortHash}</span>
+                    <span className="min-w-0 flex-1 truncate text-foreground/75">{commit.subject}</span>
+                    <span className="w-24 shrink-0 truncate text-foreground/40">{commit.author}</span>
+                    <span className="w-8 shrink-0 text-end tabular-nums text-[10px] text-foreground/30">{formatRelativeDate(commit.date)}</span>
+                  </label>
+                ))}
+              </div>
+
+              {/* Files changed since the merge base */}
+              <div className="min-w-0 flex-[3] overflow-y-auto py-1">
+                {result.files.length === 0 && (
+                  <p className="py-8 text-center text-xs text-foreground/40">No file changes</p>
+                )}
+                {result.files.map((file) => (
+                  <div key={file.path}>
+                    <button
+                      type="button"
+                      onClick={() => void toggleFile(file)}
+                      className={`flex w-full min-w-0 items-center gap-1.5 px-4 py-[3px] text-start text-[11px] transition-colors hover:bg-foreground/[0.04] cursor-pointer ${
+                        openFile?.path === file.path ? "bg-foreground/[0.05]" : ""
+                      }`}
+                    >
+                      <span className={`flex h-4 w-4 shrink-0 items-center justify-center rounded text-[9px] font-semibold ${STATUS_COLORS[file.status] ?? ""}`}>
+                        {STATUS_LETTERS[file.status] ?? "?"}
+                      </span>
+                      <span className="min-w-0 truncate text-foreground/75">{file.path}</span>
+                      {file.oldPath && <span className="shrink-0 truncate text-[10px] text-foreground/30">← {file.oldPath}</span>}
+                    </button>
+                    {openFile?.path === file.path && (
+                      <div className="px-4 py-1.5">
+                        {fileDiff === null ? (
+                          <div className="flex justify-center py-2">
+                            <Loader2 className="h-3 w-3 animate-spin text-foreground/30" />
+                          </div>
+                        ) : fileDiff ? (
+                          <UnifiedPatchViewer diffText={fileDiff} filePath={`${cwd}/${file.path}`} />
+                        ) : (
+                          <p className="text-[11px] italic text-foreground/35">No textual changes</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <ConfirmDialog
+          open={pendingAction !== null}
+          onOpenChange={(next) => { if (!next) setPendingAction(null); }}
+          onConfirm={() => { if (pendingAction) void runAction(pendingAction); }}
+          title={pendingAction === "merge"
+            ? `Merge ${result?.head.label ?? ""} into ${targetLabel}?`
+            : `Cherry-pick ${selectedCommits.size} commit${selectedCommits.size === 1 ? "" : "s"} onto ${targetLabel}?`}
+          description={pendingAction === "merge"
+            ? removeAfterMerge && canRemoveWorktree
+              ? "Its worktree is removed once the merge succeeds. Conflicts leave the merge in progress in the Git panel."
+              : "Conflicts leave the merge in progress in the Git panel."
+            : "They're applied oldest first as new commits. Conflicts leave the cherry-pick in progress in the Git panel."}
+          confirmLabel={pendingAction === "merge" ? "Merge" : "Cherry-pick"}
+          confirmVariant="default"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SidePicker({ value, onChange, placeholder, worktrees, localBranches, remoteBranches }: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  worktrees: GitWorktree[];
+  localBranches: GitBranch[];
+  remoteBranches: GitBranch[];
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger size="sm" className="min-w-0 flex-1 text-xs text-foreground/80">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {worktrees.length > 1 && (
+          <SelectGroup>
+            <SelectLabel>Worktrees</SelectLabel>
+            {worktrees.map((worktree) => (
+              <SelectItem key={worktree.path} value={encodeSide({ kind: "worktree", path: worktree.path })}>
+                {worktreeLabel(worktree)}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+        <SelectGroup>
+          <SelectLabel>Branches</SelectLabel>
+          {localBranches.map((branch) => (
+            <SelectItem key={branch.name} value={encodeSide({ kind: "ref", ref: branch.name })}>{branch.name}</SelectItem>
+          ))}
+        </SelectGroup>
+        {remoteBranches.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>Remote</SelectLabel>
+            {remoteBranches.map((branch) => (
+              <SelectItem key={branch.name} value={encodeSide({ kind: "ref", ref: branch.name })}>{branch.name}</SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,408 @@
+import { lazy, Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AlertTriangle, Bot, Check, FileWarning, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { OnMount } from "@monaco-editor/react";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DiffViewer } from "@/components/DiffViewer";
+import { useResolvedTheme } from "@/hooks/useTheme";
+import { getMonacoLanguageFromPath, disableMonacoDiagnostics } from "@/lib/monaco";
+import { parseConflictMarkers, resolveConflictBlock, type ConflictChoice } from "@/lib/git/conflict-markers";
+import type { GitConflictFile, GitConflictSide, GitOperation } from "@/types";
+import type { GitActions } from "./git-panel-utils";
+
+const MonacoEditor = lazy(() =>
+  import("@monaco-editor/react").then((mod) => ({ default: mod.default })),
+);
+
+const OPERATION_LABEL: Record<GitOperation, string> = {
+  merge: "Merge",
+  rebase: "Rebase",
+  "cherry-pick": "Cherry-pick",
+  revert: "Revert",
+};
+
+const RESULT_EDITOR_OPTIONS = {
+  minimap: { enabled: false },
+  scrollBeyondLastLine: false,
+  fontSize: 12,
+  lineNumbers: "on" as const,
+  automaticLayout: true,
+  renderLineHighlight: "none" as const,
+  overviewRulerLanes: 0,
+  hideCursorInOverviewRuler: true,
+  scrollbar: { verticalScrollbarSize: 8, horizontalScrollbarSize: 8 },
+  padding: { top: 6, bottom: 6 },
+};
+
+/** Prompt handed to the active chat by "Ask agent to resolve". */
+export function buildConflictResolutionPrompt(cwd: string, operation: GitOperation | undefined, files: string[]): string {
+  const op = operation ?? "merge";
+  return [
+    `The ${op} in \`${cwd}\` stopped with conflicts in:`,
+    ...files.map((file) => `- ${file}`),
+    "",
+    "Resolve each file: read both sides of every conflict block, write the correct merged result, remove all conflict markers and stage the file with `git add`.",
+    `Don't run \`git ${op} --continue\` or \`--abort\`; I'll continue from the Git panel once I've reviewed the result.`,
+  ].join("\n");
+}
+
+interface ConflictWorkspaceProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cwd: string;
+  operation?: GitOperation;
+  /** Paths still unmerged in the index (live from git status). */
+  conflictedFiles: string[];
+  git: GitActions;
+  /** Sends a prompt to the active chat — the button is hidden when undefined. */
+  onAskAgent?: (prompt: string) => void;
+}
+
+/**
+ * Merge/rebase/cherry-pick conflict workspace: ours and theirs against the
+ * merge base on top, the editable result below with per-block accept buttons.
+ */
+export function ConflictWorkspace({
+  open,
+  onOpenChange,
+  cwd,
+  operation,
+  conflictedFiles,
+  git,
+  onAskAgent,
+}: ConflictWorkspaceProps) {
+  const resolvedTheme = useResolvedTheme();
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [file, setFile] = useState<GitConflictFile | null>(null);
+  const [result, setResult] = useState("");
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [confirmAbort, setConfirmAbort] = useState(false);
+  // Files resolved while the workspace is open stay listed (checked) so the user can revisit them
+  const [resolvedPaths, setResolvedPaths] = useState<string[]>([]);
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
+
+  const allPaths = useMemo(
+    () => [...conflictedFiles, ...resolvedPaths.filter((p) => !conflictedFiles.includes(p))],
+    [conflictedFiles, resolvedPaths],
+  );
+  const opLabel = operation ? OPERATION_LABEL[operation] : "Merge";
+
+  useEffect(() => {
+    if (!open) {
+      setResolvedPaths([]);
+      setSelectedPath(null);
+      return;
+    }
+    if (!selectedPath || !allPaths.includes(selectedPath)) {
+      setSelectedPath(conflictedFiles[0] ?? allPaths[0] ?? null);
+    }
+  }, [allPaths, conflictedFiles, open, selectedPath]);
+
+  // Nothing left to resolve or continue (e.g. finished or aborted from a terminal)
+  useEffect(() => {
+    if (open && !operation && conflictedFiles.length === 0) onOpenChange(false);
+  }, [conflictedFiles.length, onOpenChange, open, operation]);
+
+  // Pull the (stable) actions off `git` so the 3s status poll doesn't reload the file and drop edits
+  const { getConflictFile, resolveConflict, continueOperation, abortOperation } = git;
+
+  useEffect(() => {
+    if (!open || !selectedPath) {
+      setFile(null);
+      return;
+    }
+    let cancelled = false;
+    setFile(null);
+    setLoadError(null);
+    void getConflictFile(cwd, selectedPath).then((loaded) => {
+      if (cancelled) return;
+      if ("error" in loaded) {
+        setLoadError(loaded.error);
+        return;
+      }
+      setFile(loaded);
+      setResult(loaded.merged);
+    });
+    return () => { cancelled = true; };
+  }, [cwd, getConflictFile, open, selectedPath]);
+
+  const blocks = useMemo(
+    () => parseConflictMarkers(result).flatMap((segment) => (segment.kind === "conflict" ? [segment.block] : [])),
+    [result],
+  );
+
+  const revealBlock = useCallback((startLine: number) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.revealLineInCenter(startLine + 1);
+    editor.setPosition({ lineNumber: startLine + 1, column: 1 });
+    editor.focus();
+  }, []);
+
+  const markResolved = useCallback(async (resolution: { content?: string; side?: GitConflictSide }) => {
+    if (!selectedPath) return;
+    setBusy(true);
+    try {
+      const res = await resolveConflict(cwd, selectedPath, resolution);
+      if (res.error) {
+        toast.error("Failed to mark resolved", { description: res.error });
+        return;
+      }
+      setResolvedPaths((prev) => (prev.includes(selectedPath) ? prev : [...prev, selectedPath]));
+      const next = conflictedFiles.find((p) => p !== selectedPath);
+      if (next) setSelectedPath(next);
+    } finally {
+      setBusy(false);
+    }
+  }, [conflictedFiles, cwd, resolveConflict, selectedPath]);
+
+  const handleContinue = useCallback(async () => {
+    if (!operation) return;
+    setBusy(true);
+    try {
+      const res = await continueOperation(cwd, operation);
+      if (res.error) {
+        toast.error(`${opLabel} could not continue`, { description: res.error });
+        return;
+      }
+      toast.success(`${opLabel} continued`);
+      setResolvedPaths([]);
+    } finally {
+      setBusy(false);
+    }
+  }, [continueOperation, cwd, opLabel, operation]);
+
+  const handleAbort = useCallback(async () => {
+    if (!operation) return;
+    setBusy(true);
+    try {
+      const res = await abortOperation(cwd, operation);
+      if (res.error) {
+        toast.error(`Failed to abort ${opLabel.toLowerCase()}`, { description: res.error });
+        return;
+      }
+      toast.info(`${opLabel} aborted`);
+      onOpenChange(false);
+    } finally {
+      setBusy(false);
+    }
+  }, [abortOperation, cwd, onOpenChange, opLabel, operation]);
+
+  const handleAskAgent = useCallback(() => {
+    if (!onAskAgent) return;
+    onAskAgent(buildConflictResolutionPrompt(cwd, operation, conflictedFiles));
+    onOpenChange(false);
+  }, [conflictedFiles, cwd, onAskAgent, onOpenChange, operation]);
+
+  const absolutePath = selectedPath ? `${cwd}/${selectedPath}` : "";
+  const isResolved = !!selectedPath && !conflictedFiles.includes(selectedPath);
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="flex h-[88vh] max-w-[95vw] flex-col gap-0 p-0 sm:max-w-[95vw]">
+          <DialogHeader className="flex-row items-center gap-3 border-b border-border/50 px-4 py-3 pe-12 shrink-0">
+            <div className="min-w-0 flex-1">
+              <DialogTitle className="flex items-center gap-2 text-sm">
+                <AlertTriangle className="h-4 w-4 text-amber-500" />
+                Resolve {opLabel} Conflicts
+              </DialogTitle>
+              <DialogDescription className="truncate text-xs">
+                {conflictedFiles.length === 0
+                  ? "All conflicts resolved — continue to finish."
+                  : `${conflictedFiles.length} file${conflictedFiles.length === 1 ? "" : "s"} with conflicts in ${cwd}`}
+              </DialogDescription>
+            </div>
+            {onAskAgent && conflictedFiles.length > 0 && (
+              <Button variant="outline" size="sm" className="h-7 gap-1.5 text-xs" onClick={handleAskAgent} disabled={busy}>
+                <Bot className="h-3.5 w-3.5" />
+                Ask agent to resolve
+              </Button>
+            )}
+            {operation && (
+              <>
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setConfirmAbort(true)} disabled={busy}>
+                  Abort
+                </Button>
+                <Button size="sm" className="h-7 text-xs" onClick={handleContinue} disabled={busy || conflictedFiles.length > 0}>
+                  Continue {opLabel}
+                </Button>
+              </>
+            )}
+          </DialogHeader>
+
+          <div className="flex min-h-0 flex-1">
+            {/* Conflicted files */}
+            <div className="w-56 shrink-0 overflow-y-auto border-e border-border/50 py-1">
+              {allPaths.map((p) => {
+                const resolved = !conflictedFiles.includes(p);
+                return (
+                  <button
+                    key={p}
+                    type="button"
+                    onClick={() => setSelectedPath(p)}
+                    className={`flex w-full items-center gap-1.5 px-3 py-1 text-start text-[11px] cursor-pointer transition-colors ${
+                      p === selectedPath ? "bg-foreground/[0.07] text-foreground/85" : "text-foreground/60 hover:bg-foreground/[0.03]"
+                    }`}
+                    title={p}
+                  >
+                    {resolved
+                      ? <Check className="h-3 w-3 shrink-0 text-emerald-500" />
+                      : <FileWarning className="h-3 w-3 shrink-0 text-amber-500" />}
+                    <span className="min-w-0 truncate">{p}</span>
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Ours / theirs / result */}
+            <div className="flex min-w-0 flex-1 flex-col">
+              {loadError && (
+                <div className="flex flex-1 items-center justify-center p-6 text-sm text-red-500/70">{loadError}</div>
+              )}
+              {!loadError && !file && (
+                <div className="flex flex-1 items-center justify-center">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground/40" />
+                </div>
+              )}
+              {file && (
+                <>
+                  <div className="grid h-[42%] min-h-0 shrink-0 grid-cols-2 gap-2 p-2">
+                    <ConflictSide
+                      label={`Ours${blocks[0]?.oursLabel ? ` · ${blocks[0].oursLabel}` : ""}`}
+                      base={file.base}
+                      content={file.ours}
+                      filePath={absolutePath}
+                      notice={file.oursDeleted ? "Deleted on this side" : file.binary ? "Binary file" : undefined}
+                    />
+                    <ConflictSide
+                      label={`Theirs${blocks[0]?.theirsLabel ? ` · ${blocks[0].theirsLabel}` : ""}`}
+                      base={file.base}
+                      content={file.theirs}
+                      filePath={absolutePath}
+                      notice={file.theirsDeleted ? "Deleted on this side" : file.binary ? "Binary file" : undefined}
+                    />
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-1.5 border-y border-border/50 px-3 py-1.5 text-[11px] shrink-0">
+                    <span className="font-semibold text-foreground/60">Result</span>
+                    <span className="text-foreground/40">
+                      {file.binary
+                        ? "binary — take one side whole"
+                        : blocks.length === 0 ? "no conflict markers left" : `${blocks.length} conflict${blocks.length === 1 ? "" : "s"}`}
+                    </span>
+                    <div className="flex-1" />
+                    <Button variant="ghost" size="sm" className="h-6 text-[11px]" disabled={busy} onClick={() => void markResolved({ side: "ours" })}>
+                      {file.oursDeleted ? "Use Ours (Delete)" : "Use Ours"}
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-6 text-[11px]" disabled={busy} onClick={() => void markResolved({ side: "theirs" })}>
+                      {file.theirsDeleted ? "Use Theirs (Delete)" : "Use Theirs"}
+                    </Button>
+                    {!file.binary && (
+                      <Button
+                        size="sm"
+                        className="h-6 text-[11px]"
+                        disabled={busy || blocks.length > 0}
+                        title={blocks.length > 0 ? "Resolve all conflict blocks first" : undefined}
+                        onClick={() => void markResolved({ content: result })}
+                      >
+                        {isResolved ? "Update Resolution" : "Mark Resolved"}
+                      </Button>
+                    )}
+                  </div>
+
+                  {blocks.length > 0 && (
+                    <div className="flex max-h-24 flex-col overflow-y-auto border-b border-border/50 py-0.5 shrink-0">
+                      {blocks.map((block, index) => (
+                        <div key={`${index}:${block.startLine}`} className="flex items-center gap-1 px-3 py-0.5 text-[11px]">
+                          <button
+                            type="button"
+                            onClick={() => revealBlock(block.startLine)}
+                            className="min-w-0 flex-1 truncate text-start text-foreground/55 hover:text-foreground/80 cursor-pointer"
+                          >
+                            Conflict {index + 1} · line {block.startLine + 1}
+                          </button>
+                          {(["ours", "theirs", "both"] as ConflictChoice[]).map((choice) => (
+                            <button
+                              key={choice}
+                              type="button"
+                              onClick={() => setResult((current) => resolveConflictBlock(current, index, choice))}
+                              className="rounded-md px-1.5 py-px text-foreground/45 hover:bg-foreground/[0.06] hover:text-foreground/75 cursor-pointer transition-colors"
+                            >
+                              Accept {choice === "ours" ? "Ours" : choice === "theirs" ? "Theirs" : "Both"}
+                            </button>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {file.binary ? (
+                    <div className="flex flex-1 items-center justify-center p-6 text-sm text-muted-foreground/60">
+                      Binary files can't be merged here — use Ours or Theirs.
+                    </div>
+                  ) : (
+                    <div className="min-h-0 flex-1">
+                      <Suspense
+                        fallback={
+                          <div className="flex h-full items-center justify-center">
+                            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground/40" />
+                          </div>
+                        }
+                      >
+                        <MonacoEditor
+                          height="100%"
+                          language={getMonacoLanguageFromPath(file.path)}
+                          value={result}
+                          onChange={(value) => setResult(value ?? "")}
+                          theme={resolvedTheme === "dark" ? "vs-dark" : "light"}
+                          beforeMount={disableMonacoDiagnostics}
+                          onMount={(editor) => { editorRef.current = editor; }}
+                          options={RESULT_EDITOR_OPTIONS}
+                        />
+                      </Suspense>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={confirmAbort}
+        onOpenChange={setConfirmAbort}
+        onConfirm={() => void handleAbort()}
+        title={`Abort ${opLabel.toLowerCase()}?`}
+        description="Resolutions made so far are discarded and the branch returns to its state before the operation started."
+        confirmLabel="Abort"
+      />
+    </>
+  );
+}
+
+function ConflictSide({ label, base, content, filePath, notice }: {
+  label: string;
+  base: string;
+  content: string;
+  filePath: string;
+  /** Shown instead of the diff (deleted side, binary file) */
+  notice?: string;
+}) {
+  return (
+    <div className="flex min-h-0 min-w-0 flex-col gap-1">
+      <span className="truncate px-1 text-[10px] font-semibold uppercase tracking-wider text-foreground/45">{label}</span>
+      <div className="min-h-0 flex-1 overflow-hidden rounded-lg border border-foreground/[0.06]">
+        {notice ? (
+          <div className="flex h-full items-center justify-center text-xs text-muted-foreground/60">{notice}</div>
+        ) : (
+          <DiffViewer oldString={base} newString={content} filePath={filePath} fillHeight />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,21 @@
 import {
   Plus,
   Minus,
+  ScrollText,
   Undo2,
 } from "lucide-react";
 import { STATUS_COLORS, STATUS_LETTERS } from "./git-panel-utils";
 import type { GitFileChange } from "@/types";
 
 export function FileItem({
-  file, onStage, onUnstage, onDiscard, onViewDiff, isExpanded,
+  file, onStage, onUnstage, onDiscard, onViewDiff, onBlame, isExpanded,
 }: {
   file: GitFileChange;
   onStage?: (f: GitFileChange) => void;
   onUnstage?: (f: GitFileChange) => void;
   onDiscard?: (f: GitFileChange) => void;
   onViewDiff?: (f: GitFileChange) => void;
+  onBlame?: (f: GitFileChange) => void;
   isExpanded: boolean;
 }) {
   const fileName = file.path.split("/").pop() ?? file.path;
@@ -41,6 +43,11 @@ export function FileItem({
 
       {/* Hover actions */}
       <div className="flex shrink-0 items-center gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
+        {onBlame && file.status !== "deleted" && (
+          <button type="button" onClick={() => onBlame(file)} className="flex h-5 w-5 items-center justify-center rounded-md text-foreground/30 hover:bg-foreground/[0.06] hover:text-foreground/65 cursor-pointer transition-colors" title="Blame by Session">
+            <ScrollText className="h-2.5 w-2.5" />
+          </button>
+        )}
         {onDiscard && (
           <button type="button" onClick={() => onDiscard(file)} className="flex h-5 w-5 items-center justify-center rounded-md text-foreground/30 hover:bg-red-500/10 hover:text-red-600 dark:hover:text-red-300 cursor-pointer transition-colors" title="Discard">
             <Undo2 className="h-2.5 w-2.5" />
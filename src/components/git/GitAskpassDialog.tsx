@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import type { GitAskpassRequest } from "@/types";
+
+const SECRET_PROMPT_RE = /password|passphrase|token|pin/i;
+
+/**
+ * Answers git's credential prompts (HTTPS username/password, SSH key
+ * passphrases) raised while a push, pull or fetch runs. Mounted once at the
+ * app root; prompts queue up and are answered in order.
+ */
+export function GitAskpassDialog() {
+  const [queue, setQueue] = useState<GitAskpassRequest[]>([]);
+  const [value, setValue] = useState("");
+
+  useEffect(() => window.claude.git.onAskpassRequest((request) => {
+    setQueue((prev) => [...prev, request]);
+  }), []);
+
+  const current = queue[0];
+  const currentRef = useRef(current);
+  currentRef.current = current;
+
+  useEffect(() => window.claude.git.onAskpassCancel(({ requestId }) => {
+    if (currentRef.current?.requestId === requestId) setValue("");
+    setQueue((prev) => prev.filter((request) => request.requestId !== requestId));
+  }), []);
+
+  const respond = useCallback((answer: string | null) => {
+    if (!current) return;
+    void window.claude.git.respondAskpass(current.requestId, answer);
+    setQueue((prev) => prev.filter((request) => request.requestId !== current.requestId));
+    setValue("");
+  }, [current]);
+
+  const secret = current ? SECRET_PROMPT_RE.test(current.prompt) : false;
+
+  return (
+    <Dialog open={!!current} onOpenChange={(open) => { if (!open) respond(null); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-4 w-4 text-foreground/50" />
+            Git Credentials
+          </DialogTitle>
+          <DialogDescription className="break-words">{current?.prompt}</DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            respond(value);
+          }}
+        >
+          <Input
+            autoFocus
+            type={secret ? "password" : "text"}
+            autoComplete="off"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+          <DialogFooter className="mt-4">
+            <Button type="button" variant="outline" onClick={() => respond(null)}>Cancel</Button>
+            <Button type="submit">Continue</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,17 @@
-import { memo } from "react";
+import { memo, useState } from "react";
 import {
   GitBranch as GitBranchIcon,
   RefreshCw,
   Loader2,
   FolderGit2,
+  FolderTree,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { PanelHeader } from "@/components/PanelHeader";
 import { useGitStatus } from "@/hooks/useGitStatus";
 import { RepoSection } from "./RepoSection";
-import type { EngineId } from "@/types";
+import { WorktreeManager } from "./WorktreeManager";
+import type { CodexReviewTarget, EngineId, WorktreeSession } from "@/types";
 
 interface GitPanelProps {
   cwd?: string;
@@ -17,6 +19,17 @@ interface GitPanelProps {
   onToggleRepoCollapsed?: (path: string) => void;
   activeEngine?: EngineId;
   activeSessionId?: string | null;
+  /** Codex review of the active session — the Review menu is hidden when undefined */
+  onRequestCodexReview?: (target: CodexReviewTarget) => Promise<void>;
+  /** Hands a prompt to the active chat ("Ask agent to resolve" conflicts) */
+  onSendToChat?: (text: string) => void;
+  /** Session trailers for a panel commit — commits aren't attributed when undefined */
+  getCommitTrailers?: (repoPath: string, paths: string[]) => string[];
+  /** Jump from history/blame to the chat that made a change */
+  onOpenSession?: (sessionId: string, turnId?: string) => void;
+  getSessionTitle?: (sessionId: string) => string | undefined;
+  /** Chats bound to each worktree, for the worktree manager's listing and the removal guard */
+  getWorktreeSessions?: (worktreePaths: string[]) => Map<string, WorktreeSession[]>;
   headerControls?: React.ReactNode;
 }
 
@@ -26,9 +39,18 @@ export const GitPanel = memo(function GitPanel({
   onToggleRepoCollapsed,
   activeEngine,
   activeSessionId,
+  onRequestCodexReview,
+  onSendToChat,
+  getCommitTrailers,
+  onOpenSession,
+  getSessionTitle,
+  getWorktreeSessions,
   headerControls,
 }: GitPanelProps) {
-  const git = useGitStatus({ projectPath: cwd });
+  const git = useGitStatus({ projectPath: cwd, getWorktreeSessions });
+  const [worktreesOpen, setWorktreesOpen] = useState(false);
+  // Worktrees are listed from the project's top-level repo, whichever worktree it is
+  const worktreeRepo = git.repoStates.find((rs) => !rs.repo.isSubRepo)?.repo.path;
 
   if (!cwd) {
     return (
@@ -58,6 +80,17 @@ export const GitPanel = memo(function GitPanel({
         >
           <RefreshCw className="h-3 w-3" />
         </Button>
+        {worktreeRepo && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-5 w-5 shrink-0 text-foreground/40 hover:text-foreground/65"
+            onClick={() => setWorktreesOpen(true)}
+            title="Manage Worktrees"
+          >
+            <FolderTree className="h-3 w-3" />
+          </Button>
+        )}
         {headerControls}
       </PanelHeader>
 
@@ -91,10 +124,25 @@ export const GitPanel = memo(function GitPanel({
               onToggleCollapsed={onToggleRepoCollapsed ? () => onToggleRepoCollapsed(rs.repo.path) : undefined}
               activeEngine={activeEngine}
               activeSessionId={activeSessionId}
+              onRequestCodexReview={onRequestCodexReview}
+              onSendToChat={onSendToChat}
+              getCommitTrailers={getCommitTrailers}
+              onOpenSession={onOpenSession}
+              getSessionTitle={getSessionTitle}
             />
           </div>
         ))}
       </div>
+      {worktreeRepo && (
+        <WorktreeManager
+          open={worktreesOpen}
+          onOpenChange={setWorktreesOpen}
+          repoPath={worktreeRepo}
+          git={git}
+          getWorktreeSessions={getWorktreeSessions}
+          onOpenSession={onOpenSession}
+        />
+      )}
     </div>
   );
 });
@@ -1,4 +1,72 @@
-export function InlineDiff({ diff }: { diff: string }) {
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Minus, Plus, Undo2 } from "lucide-react";
+import { buildPartialPatch, parseFilePatch, type DiffHunk } from "@/lib/diff/unified-diff";
+
+export type PatchAction = "stage" | "unstage" | "discard";
+
+const ACTION_META: Record<PatchAction, { label: string; icon: typeof Plus; hover: string }> = {
+  stage: { label: "Stage", icon: Plus, hover: "hover:bg-emerald-500/10 hover:text-emerald-600 dark:hover:text-emerald-300" },
+  unstage: { label: "Unstage", icon: Minus, hover: "hover:bg-amber-500/10 hover:text-amber-600 dark:hover:text-amber-300" },
+  discard: { label: "Discard", icon: Undo2, hover: "hover:bg-red-500/10 hover:text-red-600 dark:hover:text-red-300" },
+};
+
+const LINE_STYLE = {
+  add: "text-emerald-700 dark:text-emerald-300/90 bg-emerald-500/[0.08] dark:bg-emerald-500/[0.06]",
+  del: "text-red-700 dark:text-red-300/90 bg-red-500/[0.08] dark:bg-red-500/[0.06]",
+  context: "text-foreground/50",
+  hunk: "text-blue-600/70 dark:text-blue-300/70 bg-blue-500/[0.06] dark:bg-blue-500/[0.04]",
+};
+
+interface InlineDiffProps {
+  diff: string;
+  /** Hunk/line actions available for this diff (staged: unstage; unstaged: stage + discard). */
+  actions?: PatchAction[];
+  /** Apply a partial patch built from the selected hunks/lines. */
+  onApplyPatch?: (patch: string, action: PatchAction) => Promise<void> | void;
+}
+
+export function InlineDiff({ diff, actions, onApplyPatch }: InlineDiffProps) {
+  const patch = useMemo(() => (onApplyPatch && actions?.length ? parseFilePatch(diff) : null), [actions, diff, onApplyPatch]);
+  // Selected +/- lines, keyed "hunk:line"
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    setSelected(new Set());
+  }, [diff]);
+
+  const apply = useCallback(async (selection: Map<number, Set<number> | "all">, action: PatchAction) => {
+    if (!patch || !onApplyPatch) return;
+    const text = buildPartialPatch(patch, selection, { reverse: action !== "stage" });
+    if (!text) return;
+    setApplying(true);
+    try {
+      await onApplyPatch(text, action);
+    } finally {
+      setApplying(false);
+    }
+  }, [onApplyPatch, patch]);
+
+  const applySelectedLines = useCallback((action: PatchAction) => {
+    const selection = new Map<number, Set<number>>();
+    for (const key of selected) {
+      const [hunkIndex, lineIndex] = key.split(":").map(Number);
+      const lines = selection.get(hunkIndex) ?? new Set<number>();
+      lines.add(lineIndex);
+      selection.set(hunkIndex, lines);
+    }
+    void apply(selection, action);
+  }, [apply, selected]);
+
+  const toggleLine = useCallback((key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+
   if (!diff || diff === "(no diff available)") {
     return (
       <div className="mb-1 border border-foreground/[0.06] bg-foreground/[0.02] px-3 py-1.5 text-[10px] text-foreground/35 italic">
@@ -6,28 +74,138 @@ export function InlineDiff({ diff }: { diff: string }) {
       </div>
     );
   }
+
+  // New/deleted/binary files and unparseable diffs stay view-only (use the file-level buttons)
+  if (!patch || patch.wholeFileOnly || !actions) {
+    return <PlainDiff diff={diff} />;
+  }
+
+  return (
+    <div className="mb-1 border border-foreground/[0.06]">
+      {selected.size > 0 && (
+        <div className="flex items-center gap-1 border-b border-foreground/[0.06] bg-foreground/[0.02] ps-2.5 pe-1 py-0.5 text-[10px] text-foreground/50">
+          <span className="flex-1 tabular-nums">
+            {selected.size} line{selected.size === 1 ? "" : "s"} selected
+          </span>
+          {actions.map((action) => (
+            <button
+              key={action}
+              type="button"
+              disabled={applying}
+              onClick={() => applySelectedLines(action)}
+              className={`rounded-md px-1.5 py-px text-foreground/45 cursor-pointer transition-colors disabled:opacity-40 ${ACTION_META[action].hover}`}
+            >
+              {ACTION_META[action].label} Lines
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setSelected(new Set())}
+            className="rounded-md px-1.5 py-px text-foreground/35 hover:bg-foreground/[0.06] cursor-pointer transition-colors"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+      <div className="max-h-56 overflow-auto">
+        <pre className="font-mono text-[10px] leading-[1.6]">
+          {patch.hunks.map((hunk, hunkIndex) => (
+            <HunkBlock
+              key={hunkIndex}
+              hunk={hunk}
+              hunkIndex={hunkIndex}
+              actions={actions}
+              disabled={applying}
+              selected={selected}
+              onToggleLine={toggleLine}
+              onApplyHunk={(action) => void apply(new Map([[hunkIndex, "all"]]), action)}
+            />
+          ))}
+        </pre>
+      </div>
+    </div>
+  );
+}
+
+function HunkBlock({ hunk, hunkIndex, actions, disabled, selected, onToggleLine, onApplyHunk }: {
+  hunk: DiffHunk;
+  hunkIndex: number;
+  actions: PatchAction[];
+  disabled: boolean;
+  selected: Set<string>;
+  onToggleLine: (key: string) => void;
+  onApplyHunk: (action: PatchAction) => void;
+}) {
+  return (
+    <>
+      <div className={`group flex items-center ps-2.5 pe-1 ${LINE_STYLE.hunk}`}>
+        <span className="min-w-0 flex-1 truncate">
+          {`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@${hunk.heading}`}
+        </span>
+        <span className="flex shrink-0 items-center gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
+          {actions.map((action) => {
+            const { label, icon: Icon, hover } = ACTION_META[action];
+            return (
+              <button
+                key={action}
+                type="button"
+                disabled={disabled}
+                onClick={() => onApplyHunk(action)}
+                className={`flex h-4 w-4 items-center justify-center rounded-md text-foreground/30 cursor-pointer transition-colors disabled:opacity-40 ${hover}`}
+                title={`${label} Hunk`}
+              >
+                <Icon className="h-2.5 w-2.5" />
+              </button>
+            );
+          })}
+        </span>
+      </div>
+      {hunk.lines.map((line, lineIndex) => {
+        const prefix = line.kind === "add" ? "+" : line.kind === "del" ? "-" : " ";
+        if (line.kind === "context") {
+          return <div key={lineIndex} className={`px-2.5 ${LINE_STYLE.context}`}>{prefix}{line.text}</div>;
+        }
+        const key = `${hunkIndex}:${lineIndex}`;
+        const isSelected = selected.has(key);
+        return (
+          <div
+            key={lineIndex}
+            onClick={() => onToggleLine(key)}
+            className={`cursor-pointer border-s-2 ps-2 pe-2.5 ${LINE_STYLE[line.kind]} ${isSelected ? "border-foreground/40 brightness-110" : "border-transparent hover:border-foreground/15"}`}
+            title="Select line"
+          >
+            {prefix}{line.text}
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+function PlainDiff({ diff }: { diff: string }) {
   const lines = diff.split("\n");
+  // Multi-file diffs (e.g. a stash) keep a path row per file
+  const multiFile = lines.filter((l) => l.startsWith("diff --git ")).length > 1;
   const contentLines = lines.filter(
-    (l) => !l.startsWith("diff ") && !l.startsWith("index ") && !l.startsWith("---") && !l.startsWith("+++") && !l.startsWith("\\"),
+    (l) => (multiFile && l.startsWith("diff --git ")) || (!l.startsWith("diff ") && !l.startsWith("index ") && !l.startsWith("---") && !l.startsWith("+++") && !l.startsWith("\\")),
   );
   return (
     <div className="mb-1 max-h-56 overflow-auto border border-foreground/[0.06]">
       <pre className="font-mono text-[10px] leading-[1.6]">
         {contentLines.map((line, i) => {
-          let textColor = "text-foreground/50";
-          let bgColor = "";
-          if (line.startsWith("+")) {
-            textColor = "text-emerald-700 dark:text-emerald-300/90";
-            bgColor = "bg-emerald-500/[0.08] dark:bg-emerald-500/[0.06]";
-          } else if (line.startsWith("-")) {
-            textColor = "text-red-700 dark:text-red-300/90";
-            bgColor = "bg-red-500/[0.08] dark:bg-red-500/[0.06]";
-          } else if (line.startsWith("@@")) {
-            textColor = "text-blue-600/70 dark:text-blue-300/70";
-            bgColor = "bg-blue-500/[0.06] dark:bg-blue-500/[0.04]";
+          if (line.startsWith("diff --git ")) {
+            return (
+              <div key={i} className="border-t border-foreground/[0.06] px-2.5 pt-0.5 font-sans font-medium text-foreground/60 first:border-t-0">
+                {line.replace(/^diff --git a\/(.*) b\/.*$/, "$1")}
+              </div>
+            );
           }
+          let style = LINE_STYLE.context;
+          if (line.startsWith("+")) style = LINE_STYLE.add;
+          else if (line.startsWith("-")) style = LINE_STYLE.del;
+          else if (line.startsWith("@@")) style = LINE_STYLE.hunk;
           return (
-            <div key={i} className={`px-2.5 ${textColor} ${bgColor}`}>{line || " "}</div>
+            <div key={i} className={`px-2.5 ${style}`}>{line || " "}</div>
           );
         })}
       </pre>
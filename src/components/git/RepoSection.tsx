@@ -9,15 +9,64 @@ import {
   RefreshCw,
   History,
   AlertCircle,
+  AlertTriangle,
   X,
   FolderGit2,
+  ScanSearch,
+  GitCompare,
+  GitGraph,
+  Layers,
+  RotateCcw,
+  Tag,
 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { BranchPicker } from "./BranchPicker";
 import { CommitInput } from "./CommitInput";
 import { ChangesSection } from "./ChangesSection";
-import { formatRelativeDate, type GitActions } from "./git-panel-utils";
+import { CommitHistory } from "./CommitHistory";
+import { CompareDialog } from "./CompareDialog";
+import { ConflictWorkspace } from "./ConflictWorkspace";
+import type { PatchAction } from "./InlineDiff";
+import { RewriteCommitsDialog } from "./RewriteCommitsDialog";
+import { SessionBlame } from "./SessionBlame";
+import { StashSection } from "./StashSection";
+import { TagsDialog } from "./TagsDialog";
+import { withRemoteProgress } from "./remote-progress";
+import {
+  formatRelativeDate,
+  getAutoStashPreference,
+  getSessionTrailerPreference,
+  saveAutoStashPreference,
+  saveSessionTrailerPreference,
+  type GitActions,
+} from "./git-panel-utils";
+import { recordCommittedFiles } from "@/lib/git/session-attribution";
 import type { RepoState } from "@/hooks/useGitStatus";
-import type { GitFileChange, GitFileGroup, EngineId } from "@/types";
+import type { GitFileChange, GitFileGroup, GitLogEntry, GitOperation, GitPushOptions, GitResetMode, EngineId, CodexReviewTarget } from "@/types";
+
+const OPERATION_LABEL: Record<GitOperation, string> = {
+  merge: "Merging",
+  rebase: "Rebasing",
+  "cherry-pick": "Cherry-picking",
+  revert: "Reverting",
+};
+
+const RESET_COPY: Record<GitResetMode, { label: string; description: string }> = {
+  soft: { label: "Soft Reset", description: "The undone commits' changes stay staged." },
+  mixed: { label: "Mixed Reset", description: "The undone commits' changes stay in the working tree, unstaged." },
+};
+
+const STAGED_PATCH_ACTIONS: PatchAction[] = ["unstage"];
+const UNSTAGED_PATCH_ACTIONS: PatchAction[] = ["stage", "discard"];
 
 export interface RepoSectionProps {
   repoState: RepoState;
@@ -26,10 +75,15 @@ export interface RepoSectionProps {
   onToggleCollapsed?: () => void;
   activeEngine?: EngineId;
   activeSessionId?: string | null;
+  onRequestCodexReview?: (target: CodexReviewTarget) => Promise<void>;
+  onSendToChat?: (text: string) => void;
+  getCommitTrailers?: (repoPath: string, paths: string[]) => string[];
+  onOpenSession?: (sessionId: string, turnId?: string) => void;
+  getSessionTitle?: (sessionId: string) => string | undefined;
 }
 
-export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggleCollapsed, activeEngine, activeSessionId }: RepoSectionProps) {
-  const { repo, status, branches, log, diffStat } = repoState;
+export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggleCollapsed, activeEngine, activeSessionId, onRequestCodexReview, onSendToChat, getCommitTrailers, onOpenSession, getSessionTitle }: RepoSectionProps) {
+  const { repo, status, branches, log, diffStat, stashes } = repoState;
   const cwd = repo.path;
 
   const [localCollapsed, setLocalCollapsed] = useState(false);
@@ -41,6 +95,17 @@ export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggle
   const [expandedDiff, setExpandedDiff] = useState<string | null>(null);
   const [diffContent, setDiffContent] = useState<string | null>(null);
   const [syncError, setSyncError] = useState<string | null>(null);
+  const [conflictsOpen, setConflictsOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [blamePath, setBlamePath] = useState<string | null>(null);
+  const [rewriteOpen, setRewriteOpen] = useState(false);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [forcePushOpen, setForcePushOpen] = useState(false);
+  const [tagsOpen, setTagsOpen] = useState(false);
+  // `pushed`: the reset would undo commits that are already on a remote
+  const [resetTarget, setResetTarget] = useState<{ entry: GitLogEntry; mode: GitResetMode; pushed: boolean } | null>(null);
+  const [autoStash, setAutoStash] = useState(getAutoStashPreference);
+  const [linkSession, setLinkSession] = useState(getSessionTrailerPreference);
 
   const toggleSection = useCallback((group: GitFileGroup) => {
     setExpandedSections((prev) => {
@@ -64,15 +129,67 @@ export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggle
     [status?.files],
   );
 
+  const conflictedPaths = useMemo(
+    () => unstagedFiles.filter((f) => f.status === "unmerged").map((f) => f.path),
+    [unstagedFiles],
+  );
+  const operation = status?.operation;
+
   const totalChanges = stagedFiles.length + unstagedFiles.length + untrackedFiles.length;
 
-  const handleCommit = useCallback(async (message: string) => {
-    const result = await git.commit(cwd, message);
+  const reviewBaseBranches = useMemo(
+    () => branches.filter((b) => !b.isCurrent && !b.isRemote),
+    [branches],
+  );
+
+  const handleCommit = useCallback(async (message: string, options?: { amend?: boolean; allowPushed?: boolean }) => {
+    // Status paths are relative to the top level, which `cwd` may sit below
+    const topLevel = (await git.getTopLevel(cwd)).path ?? cwd;
+    const paths = stagedFiles.map((f) => f.path);
+    const trailers = linkSession && getCommitTrailers
+      ? getCommitTrailers(topLevel, paths)
+      : undefined;
+    const result = await git.commit(cwd, message, { ...options, trailers });
     if (result.error) {
       setSyncError(result.error);
+    } else {
+      recordCommittedFiles(topLevel, paths);
     }
+  }, [git, cwd, getCommitTrailers, linkSession, stagedFiles]);
+
+  /** Which of `hashes` are already on a remote-tracking branch. */
+  const findPushed = useCallback(async (hashes: string[]) => {
+    const result = await git.getUnpushedCommits(cwd);
+    // Can't tell — treat as pushed so the user gets the warning
+    if ("error" in result) return hashes;
+    const unpushed = new Set(result.map((c) => c.hash));
+    return hashes.filter((hash) => !unpushed.has(hash));
   }, [git, cwd]);
 
+  const isHeadPushed = useCallback(async () => {
+    const head = log[0]?.hash;
+    return head ? (await findPushed([head])).length > 0 : false;
+  }, [findPushed, log]);
+
+  const handleChooseReset = useCallback(async (entry: GitLogEntry, mode: GitResetMode) => {
+    const undone = log.slice(0, log.findIndex((e) => e.hash === entry.hash)).map((e) => e.hash);
+    const pushed = (await findPushed(undone)).length > 0;
+    setResetTarget({ entry, mode, pushed });
+  }, [findPushed, log]);
+
+  const handleConfirmReset = useCallback(async () => {
+    if (!resetTarget) return;
+    const result = await git.resetTo(cwd, resetTarget.entry.hash, resetTarget.mode, resetTarget.pushed);
+    if (result.error) setSyncError(result.error);
+  }, [git, cwd, resetTarget]);
+
+  const handleBlame = useCallback((file: GitFileChange) => setBlamePath(file.path), []);
+
+  const handleLinkSessionChange = useCallback((enabled: boolean) => {
+    setLinkSession(enabled);
+    saveSessionTrailerPreference(enabled);
+  }, []);
+
   const handleViewDiff = useCallback(
     async (file: GitFileChange) => {
       const key = `${file.group}:${file.path}`;
@@ -93,14 +210,46 @@ export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggle
     [expandedDiff, git, cwd],
   );
 
+  const handleApplyPatch = useCallback(
+    async (file: GitFileChange, patch: string, action: PatchAction) => {
+      const result = await git.applyPatch(cwd, patch, {
+        cached: action !== "discard",
+        reverse: action !== "stage",
+      });
+      if (result.error) {
+        setSyncError(result.error);
+        return;
+      }
+      // Refresh the open diff; once nothing is left on this side, collapse it
+      const refreshed = await git.getDiff(cwd, file.path, file.group === "staged");
+      if (refreshed && "diff" in refreshed && refreshed.diff) {
+        setDiffContent(refreshed.diff);
+      } else {
+        setExpandedDiff(null);
+        setDiffContent(null);
+      }
+    },
+    [git, cwd],
+  );
+
   const handleCheckout = useCallback(
     async (branch: string) => {
-      const result = await git.checkout(cwd, branch);
+      const result = await git.checkout(cwd, branch, { autoStash });
       if (result?.error) setSyncError(result.error);
+      else if (result?.stash === "conflicts") {
+        setSyncError(`Switched to ${branch}, but restoring your stashed changes conflicted. Resolve the conflicts; the stash entry was kept.`);
+      } else if (result?.stash === "kept") {
+        setSyncError(`Switched to ${branch}, but your stashed changes could not be restored and are still in the stash: ${result.stashError}`);
+      }
     },
-    [git, cwd],
+    [autoStash, git, cwd],
   );
 
+  const handleAutoStashChange = useCallback((enabled: boolean) => {
+    setAutoStash(enabled);
+    saveAutoStashPreference(enabled);
+  }, []);
+
   const handleCreateBranch = useCallback(async (name: string) => {
     const result = await git.createBranch(cwd, name);
     if (result?.error) {
@@ -109,15 +258,30 @@ export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggle
   }, [git, cwd]);
 
   const handleSync = useCallback(
-    async (action: "push" | "pull" | "fetch") => {
+    async (action: "pull" | "fetch") => {
       setSyncError(null);
-      const fn = action === "push" ? git.push : action === "pull" ? git.pull : git.fetchRemote;
-      const result = await fn(cwd);
-      if (result.error) setSyncError(result.error);
+      const result = action === "pull"
+        ? await withRemoteProgress({ pending: "Pulling…", done: "Pulled" }, (operationId) => git.pull(cwd, operationId))
+        : await withRemoteProgress({ pending: "Fetching…", done: "Fetched" }, (operationId) => git.fetchRemote(cwd, operationId));
+      if (result?.error) setSyncError(result.error);
     },
     [git, cwd],
   );
 
+  const handlePush = useCallback(
+    async (options: Omit<GitPushOptions, "operationId"> = {}) => {
+      setSyncError(null);
+      // A branch that was never published gets its upstream set on first push
+      const setUpstream = options.setUpstream ?? (!options.tags && !status?.upstream);
+      const result = await withRemoteProgress(
+        { pending: options.tags ? "Pushing tags…" : "Pushing…", done: options.tags ? "Tags pushed" : "Pushed" },
+        (operationId) => git.push(cwd, { ...options, setUpstream, operationId }),
+      );
+      if (result?.error) setSyncError(result.error);
+    },
+    [git, cwd, status?.upstream],
+  );
+
   return (
     <div className="py-0.5">
       {/* Repo name — collapsible header */}
@@ -166,6 +330,8 @@ export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggle
           branches={branches}
           onCheckout={handleCheckout}
           onCreateBranch={handleCreateBranch}
+          autoStash={autoStash}
+          onAutoStashChange={handleAutoStashChange}
           className="min-w-0 flex-1"
         />
 
@@ -179,10 +345,64 @@ export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggle
             <ArrowDown className="h-3 w-3" />
           </button>
           <div className="h-3.5 w-px bg-foreground/[0.08]" />
-          <button type="button" className="flex h-6 w-6 items-center justify-center text-foreground/35 hover:text-foreground/65 hover:bg-foreground/[0.06] rounded-e-md transition-colors cursor-pointer" onClick={() => handleSync("push")} title="Push">
+          <button type="button" className="flex h-6 w-6 items-center justify-center text-foreground/35 hover:text-foreground/65 hover:bg-foreground/[0.06] transition-colors cursor-pointer" onClick={() => void handlePush()} title={status?.upstream ? "Push" : "Publish Branch"}>
             <ArrowUp className="h-3 w-3" />
           </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button type="button" className="flex h-6 w-3.5 items-center justify-center border-s border-foreground/[0.08] text-foreground/35 hover:text-foreground/65 hover:bg-foreground/[0.06] rounded-e-md transition-colors cursor-pointer" title="Push Options">
+                <ChevronDown className="h-2.5 w-2.5" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-52">
+              <DropdownMenuItem disabled={!status?.branch} onClick={() => void handlePush({ setUpstream: true })}>
+                <ArrowUp className="h-3 w-3" />
+                Push and set upstream
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => void handlePush({ tags: true })}>
+                <Tag className="h-3 w-3" />
+                Push tags
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={!status?.upstream} onClick={() => setForcePushOpen(true)}>
+                <AlertTriangle className="h-3 w-3" />
+                Force push (with lease)…
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
+        {onRequestCodexReview && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button type="button" className="flex h-6 w-6 shrink-0 items-center justify-center rounded-md border border-foreground/[0.08] bg-foreground/[0.02] text-foreground/35 hover:text-foreground/65 hover:bg-foreground/[0.06] transition-colors cursor-pointer" title="Review with Codex">
+                <ScanSearch className="h-3 w-3" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-52">
+              <DropdownMenuItem
+                disabled={totalChanges === 0}
+                onClick={() => void onRequestCodexReview({ type: "uncommittedChanges" })}
+              >
+                Review uncommitted changes
+              </DropdownMenuItem>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger disabled={reviewBaseBranches.length === 0}>
+                  Review against branch
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="max-h-64 w-48 overflow-y-auto">
+                  {reviewBaseBranches.map((b) => (
+                    <DropdownMenuItem
+                      key={b.name}
+                      onClick={() => void onRequestCodexReview({ type: "baseBranch", branch: b.name })}
+                    >
+                      <GitBranchIcon className="h-3 w-3" />
+                      <span className="truncate">{b.name}</span>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
         {(status?.ahead ?? 0) > 0 && (
           <span className="flex items-center gap-0.5 rounded-full bg-emerald-500/15 px-1.5 py-0.5 text-[9px] font-semibold tabular-nums text-emerald-600 dark:text-emerald-300">
             <ArrowUp className="h-2 w-2" />{status?.ahead}
@@ -206,6 +426,93 @@ export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggle
         </div>
       )}
 
+      {/* Merge / rebase / cherry-pick in progress */}
+      {(operation || conflictedPaths.length > 0) && (
+        <div className="mx-3 mb-1 flex items-center gap-1.5 rounded-md border border-amber-500/25 bg-amber-500/[0.07] px-2 py-1.5">
+          <AlertTriangle className="h-3 w-3 shrink-0 text-amber-500/80" />
+          <p className="min-w-0 flex-1 truncate text-[10px] text-amber-700/90 dark:text-amber-300/85">
+            {operation ? OPERATION_LABEL[operation] : "Conflicts"}
+            {conflictedPaths.length > 0
+              ? ` · ${conflictedPaths.length} conflict${conflictedPaths.length === 1 ? "" : "s"}`
+              : " · ready to continue"}
+          </p>
+          <button
+            type="button"
+            onClick={() => setConflictsOpen(true)}
+            className="shrink-0 rounded-md px-1.5 py-px text-[10px] font-medium text-amber-700/90 hover:bg-amber-500/15 dark:text-amber-300/85 cursor-pointer transition-colors"
+          >
+            Resolve…
+          </button>
+        </div>
+      )}
+      <ConflictWorkspace
+        open={conflictsOpen}
+        onOpenChange={setConflictsOpen}
+        cwd={cwd}
+        operation={operation}
+        conflictedFiles={conflictedPaths}
+        git={git}
+        onAskAgent={onSendToChat}
+      />
+      <CommitHistory
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        cwd={cwd}
+        git={git}
+        autoStash={autoStash}
+        onOpenSession={onOpenSession}
+        getSessionTitle={getSessionTitle}
+      />
+      <RewriteCommitsDialog open={rewriteOpen} onOpenChange={setRewriteOpen} cwd={cwd} git={git} />
+      <CompareDialog
+        open={compareOpen}
+        onOpenChange={setCompareOpen}
+        cwd={cwd}
+        git={git}
+        branches={branches}
+        currentBranch={status?.branch}
+      />
+      <ConfirmDialog
+        open={resetTarget !== null}
+        onOpenChange={(next) => { if (!next) setResetTarget(null); }}
+        onConfirm={() => void handleConfirmReset()}
+        title={resetTarget ? `${RESET_COPY[resetTarget.mode].label} to ${resetTarget.entry.shortHash}?` : ""}
+        description={resetTarget && (
+          <>
+            Moves {status?.branch || "HEAD"} back to “{resetTarget.entry.subject}”. {RESET_COPY[resetTarget.mode].description}
+            {resetTarget.pushed && " Some of the undone commits are already pushed — committing after this diverges from the remote and needs a force-push."}
+          </>
+        )}
+        confirmLabel="Reset"
+        confirmVariant={resetTarget?.pushed ? "destructive" : "default"}
+      />
+      <TagsDialog
+        open={tagsOpen}
+        onOpenChange={setTagsOpen}
+        cwd={cwd}
+        git={git}
+        activeEngine={activeEngine}
+        activeSessionId={activeSessionId}
+      />
+      <ConfirmDialog
+        open={forcePushOpen}
+        onOpenChange={setForcePushOpen}
+        onConfirm={() => void handlePush({ forceWithLease: true })}
+        title={`Force push ${status?.branch || "HEAD"}?`}
+        description={`Overwrites ${status?.upstream || "the remote branch"} with your local history. The push is refused if the remote has commits you haven't fetched.`}
+        confirmLabel="Force Push"
+        confirmVariant="destructive"
+      />
+      <SessionBlame
+        open={blamePath !== null}
+        onOpenChange={(next) => { if (!next) setBlamePath(null); }}
+        cwd={cwd}
+        file={blamePath ?? ""}
+        git={git}
+        onOpenSession={onOpenSession}
+        getSessionTitle={getSessionTitle}
+      />
+
       {/* Commit input */}
       <CommitInput
         cwd={cwd}
@@ -215,6 +522,10 @@ export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggle
         activeSessionId={activeSessionId}
         onSyncError={setSyncError}
         onCommit={handleCommit}
+        canAmend={log.length > 0}
+        isHeadPushed={isHeadPushed}
+        linkSession={getCommitTrailers ? linkSession : undefined}
+        onLinkSessionChange={handleLinkSessionChange}
       />
 
       {/* Changes sections */}
@@ -232,6 +543,9 @@ export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggle
           onUnstage={(f) => git.unstage(cwd, [f.path])}
           onDiscard={undefined}
           onViewDiff={handleViewDiff}
+          onBlame={handleBlame}
+          patchActions={STAGED_PATCH_ACTIONS}
+          onApplyPatch={handleApplyPatch}
           expandedDiff={expandedDiff}
           diffContent={diffContent}
         />
@@ -250,6 +564,9 @@ export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggle
           onUnstage={undefined}
           onDiscard={(f) => git.discard(cwd, [f.path])}
           onViewDiff={handleViewDiff}
+          onBlame={handleBlame}
+          patchActions={UNSTAGED_PATCH_ACTIONS}
+          onApplyPatch={handleApplyPatch}
           expandedDiff={expandedDiff}
           diffContent={diffContent}
         />
@@ -280,24 +597,101 @@ export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggle
         </div>
       )}
 
+      <StashSection
+        cwd={cwd}
+        stashes={stashes}
+        files={status?.files ?? []}
+        git={git}
+        onError={setSyncError}
+      />
+
       {/* Log section */}
       <div className="mt-0.5">
-        <button
-          type="button"
-          onClick={() => setShowLog(!showLog)}
-          className="flex w-full items-center gap-1.5 px-3 py-1 transition-colors hover:bg-foreground/[0.03] cursor-pointer"
-        >
-          {showLog ? <ChevronDown className="h-3 w-3 shrink-0 text-foreground/40" /> : <ChevronRight className="h-3 w-3 shrink-0 text-foreground/40" />}
-          <History className="h-3 w-3 shrink-0 text-foreground/40" />
-          <span className="text-[10px] font-semibold text-foreground/55">Commits</span>
-          <span className="rounded-full bg-foreground/[0.07] px-1.5 py-px text-[9px] font-medium tabular-nums text-foreground/40">{log.length}</span>
-        </button>
+        <div className="group flex items-center gap-1.5 pe-1.5">
+          <button
+            type="button"
+            onClick={() => setShowLog(!showLog)}
+            className="flex min-w-0 flex-1 items-center gap-1.5 ps-3 py-1 transition-colors hover:bg-foreground/[0.03] cursor-pointer"
+          >
+            {showLog ? <ChevronDown className="h-3 w-3 shrink-0 text-foreground/40" /> : <ChevronRight className="h-3 w-3 shrink-0 text-foreground/40" />}
+            <History className="h-3 w-3 shrink-0 text-foreground/40" />
+            <span className="text-[10px] font-semibold text-foreground/55">Commits</span>
+            <span className="rounded-full bg-foreground/[0.07] px-1.5 py-px text-[9px] font-medium tabular-nums text-foreground/40">{log.length}</span>
+          </button>
+          {log.length > 1 && (
+            <button
+              type="button"
+              onClick={() => setRewriteOpen(true)}
+              className="flex h-5 w-5 items-center justify-center rounded-md text-foreground/30 opacity-0 transition-colors group-hover:opacity-100 hover:bg-foreground/[0.06] hover:text-foreground/65 cursor-pointer"
+              title="Squash & Reorder Unpushed Commits"
+            >
+              <Layers className="h-3 w-3" />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setTagsOpen(true)}
+            className="flex h-5 w-5 items-center justify-center rounded-md text-foreground/30 opacity-0 transition-colors group-hover:opacity-100 hover:bg-foreground/[0.06] hover:text-foreground/65 cursor-pointer"
+            title="Tags & Release Notes"
+          >
+            <Tag className="h-3 w-3" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setCompareOpen(true)}
+            className="flex h-5 w-5 items-center justify-center rounded-md text-foreground/30 opacity-0 transition-colors group-hover:opacity-100 hover:bg-foreground/[0.06] hover:text-foreground/65 cursor-pointer"
+            title="Compare Branches & Worktrees"
+          >
+            <GitCompare className="h-3 w-3" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setHistoryOpen(true)}
+            className="flex h-5 w-5 items-center justify-center rounded-md text-foreground/30 opacity-0 transition-colors group-hover:opacity-100 hover:bg-foreground/[0.06] hover:text-foreground/65 cursor-pointer"
+            title="Open History"
+          >
+            <GitGraph className="h-3 w-3" />
+          </button>
+        </div>
         {showLog && (
           <div className="pb-0.5">
-            {log.map((entry) => (
-              <div key={entry.hash} className="flex items-baseline gap-1.5 px-3 py-[3px] text-[10px] transition-colors hover:bg-foreground/[0.03]">
+            {log.map((entry, index) => (
+              <div key={entry.hash} className="group flex items-baseline gap-1.5 px-3 py-[3px] text-[10px] transition-colors hover:bg-foreground/[0.03]">
                 <span className="shrink-0 rounded bg-foreground/[0.06] px-1 py-px font-mono text-[9px] text-foreground/45">{entry.shortHash}</span>
                 <span className="min-w-0 flex-1 truncate text-foreground/65">{entry.subject}</span>
+                {onRequestCodexReview && (
+                  <button
+                    type="button"
+                    onClick={() => void onRequestCodexReview({ type: "commit", sha: entry.hash, title: entry.subject })}
+                    className="shrink-0 self-center text-foreground/30 opacity-0 transition-opacity hover:text-foreground/65 group-hover:opacity-100 cursor-pointer"
+                    title="Review commit with Codex"
+                  >
+                    <ScanSearch className="h-2.5 w-2.5" />
+                  </button>
+                )}
+                {index > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <button
+                        type="button"
+                        className="shrink-0 self-center text-foreground/30 opacity-0 transition-opacity hover:text-foreground/65 group-hover:opacity-100 data-[state=open]:opacity-100 cursor-pointer"
+                        title="Reset to This Commit"
+                      >
+                        <RotateCcw className="h-2.5 w-2.5" />
+                      </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-56">
+                      {(Object.keys(RESET_COPY) as GitResetMode[]).map((mode) => (
+                        <DropdownMenuItem key={mode} onClick={() => void handleChooseReset(entry, mode)}>
+                          <span className="flex flex-col">
+                            <span>{RESET_COPY[mode].label}</span>
+                            <span className="text-[10px] text-muted-foreground">{RESET_COPY[mode].description}</span>
+                          </span>
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
                 <span className="shrink-0 tabular-nums text-[9px] text-foreground/30">{formatRelativeDate(entry.date)}</span>
               </div>
             ))}
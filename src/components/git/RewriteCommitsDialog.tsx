@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Layers, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { GitActions } from "./git-panel-utils";
+import type { GitLogEntry, GitRewriteAction } from "@/types";
+
+interface PlanRow {
+  commit: GitLogEntry;
+  action: GitRewriteAction;
+}
+
+const ACTION_LABEL: Record<GitRewriteAction, string> = {
+  pick: "Keep",
+  squash: "Squash",
+  fixup: "Fixup",
+};
+
+const ACTION_HINT: Record<GitRewriteAction, string> = {
+  pick: "",
+  squash: "folds into the commit above, keeping both messages",
+  fixup: "folds into the commit above, dropping its message",
+};
+
+interface RewriteCommitsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cwd: string;
+  git: GitActions;
+}
+
+/** Squash and reorder unpushed commits through a generated rebase todo. */
+export function RewriteCommitsDialog({ open, onOpenChange, cwd, git }: RewriteCommitsDialogProps) {
+  const [rows, setRows] = useState<PlanRow[] | null>(null);
+  const [originalOrder, setOriginalOrder] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  // Stable actions — depending on `git` itself would re-plan the rows on every status poll
+  const { getUnpushedCommits, rewriteCommits } = git;
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setRows(null);
+    setError(null);
+    void getUnpushedCommits(cwd).then((result) => {
+      if (cancelled) return;
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+      // Rebase todo order: oldest first
+      const oldestFirst = [...result].reverse();
+      setRows(oldestFirst.map((commit) => ({ commit, action: "pick" })));
+      setOriginalOrder(oldestFirst.map((commit) => commit.hash));
+    });
+    return () => { cancelled = true; };
+  }, [cwd, getUnpushedCommits, open]);
+
+  const move = useCallback((index: number, delta: number) => {
+    setRows((prev) => {
+      if (!prev) return prev;
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      // Whatever ends up first has nothing above it to fold into
+      next[0] = { ...next[0], action: "pick" };
+      return next;
+    });
+  }, []);
+
+  const setAction = useCallback((index: number, action: GitRewriteAction) => {
+    setRows((prev) => prev && prev.map((row, i) => (i === index ? { ...row, action } : row)));
+  }, []);
+
+  const unchanged = !rows || rows.every((row, i) => row.action === "pick" && row.commit.hash === originalOrder[i]);
+
+  const handleApply = useCallback(async () => {
+    if (!rows) return;
+    setApplying(true);
+    setError(null);
+    try {
+      const result = await rewriteCommits(cwd, rows.map((row) => ({ hash: row.commit.hash, action: row.action })));
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      toast.success("Commits rewritten");
+      onOpenChange(false);
+    } finally {
+      setApplying(false);
+    }
+  }, [cwd, onOpenChange, rewriteCommits, rows]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-4 w-4 text-foreground/50" />
+            Squash &amp; Reorder
+          </DialogTitle>
+          <DialogDescription>
+            Unpushed commits, oldest first. Pushed commits aren't listed and can't be rewritten here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[50vh] overflow-y-auto rounded-md border border-foreground/[0.08]">
+          {!rows && !error && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-foreground/30" />
+            </div>
+          )}
+          {rows && rows.length < 2 && (
+            <p className="px-3 py-4 text-center text-xs text-foreground/40">
+              Needs at least two unpushed commits.
+            </p>
+          )}
+          {rows && rows.length >= 2 && rows.map((row, index) => (
+            <div key={row.commit.hash} className="flex items-center gap-2 border-t border-foreground/[0.06] px-2 py-1.5 first:border-t-0">
+              <div className="flex shrink-0 flex-col">
+                <button
+                  type="button"
+                  disabled={index === 0}
+                  onClick={() => move(index, -1)}
+                  className="flex h-3.5 w-4 items-center justify-center text-foreground/35 hover:text-foreground/70 disabled:opacity-25 cursor-pointer disabled:cursor-default"
+                  title="Move Up"
+                >
+                  <ArrowUp className="h-2.5 w-2.5" />
+                </button>
+                <button
+                  type="button"
+                  disabled={index === rows.length - 1}
+                  onClick={() => move(index, 1)}
+                  className="flex h-3.5 w-4 items-center justify-center text-foreground/35 hover:text-foreground/70 disabled:opacity-25 cursor-pointer disabled:cursor-default"
+                  title="Move Down"
+                >
+                  <ArrowDown className="h-2.5 w-2.5" />
+                </button>
+              </div>
+              <Select value={row.action} disabled={index === 0} onValueChange={(value) => setAction(index, value as GitRewriteAction)}>
+                <SelectTrigger size="sm" className="w-24 shrink-0 text-xs text-foreground/80">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ACTION_LABEL) as GitRewriteAction[]).map((action) => (
+                    <SelectItem key={action} value={action}>{ACTION_LABEL[action]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="shrink-0 font-mono text-[10px] text-foreground/40">{row.commit.shortHash}</span>
+              <span className="min-w-0 flex-1">
+                <span className={`block truncate text-xs ${row.action === "pick" ? "text-foreground/80" : "text-foreground/50"}`}>{row.commit.subject}</span>
+                {row.action !== "pick" && (
+                  <span className="block truncate text-[10px] text-foreground/35">{ACTION_HINT[row.action]}</span>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => void handleApply()} disabled={applying || !rows || rows.length < 2 || unchanged}>
+            {applying && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            Rewrite Commits
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
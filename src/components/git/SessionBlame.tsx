@@ -0,0 +1,175 @@
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, MessageSquare, ScrollText } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatRelativeDate, type GitActions } from "./git-panel-utils";
+import type { GitBlameLine, GitSessionLink } from "@/types";
+
+interface SessionBlameProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cwd: string;
+  /** Repo-relative path. */
+  file: string;
+  /** Revision to blame; the working tree when unset. */
+  rev?: string;
+  git: GitActions;
+  onOpenSession?: (sessionId: string, turnId?: string) => void;
+  getSessionTitle?: (sessionId: string) => string | undefined;
+}
+
+/** Consecutive lines last changed by the same commit. */
+interface BlameBlock {
+  first: GitBlameLine;
+  lines: GitBlameLine[];
+}
+
+function groupBlocks(lines: GitBlameLine[]): BlameBlock[] {
+  const blocks: BlameBlock[] = [];
+  for (const line of lines) {
+    const last = blocks[blocks.length - 1];
+    if (last && last.first.hash === line.hash) last.lines.push(line);
+    else blocks.push({ first: line, lines: [line] });
+  }
+  return blocks;
+}
+
+/** `git blame` for one file, with each block linked to the chat session that wrote it. */
+export function SessionBlame({ open, onOpenChange, cwd, file, rev, git, onOpenSession, getSessionTitle }: SessionBlameProps) {
+  const [lines, setLines] = useState<GitBlameLine[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { getBlame } = git;
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLines(null);
+    setError(null);
+    void getBlame(cwd, file, rev).then((result) => {
+      if (cancelled) return;
+      if ("error" in result) setError(result.error);
+      else setLines(result);
+    });
+    return () => { cancelled = true; };
+  }, [cwd, file, getBlame, open, rev]);
+
+  const blocks = useMemo(() => groupBlocks(lines ?? []), [lines]);
+
+  // Line counts per session, most lines first
+  const sessionTotals = useMemo(() => {
+    const totals = new Map<string, { session: GitSessionLink; count: number }>();
+    for (const line of lines ?? []) {
+      if (!line.session) continue;
+      const entry = totals.get(line.session.sessionId) ?? { session: line.session, count: 0 };
+      entry.count += 1;
+      totals.set(line.session.sessionId, entry);
+    }
+    return [...totals.values()].sort((a, b) => b.count - a.count);
+  }, [lines]);
+
+  const sessionLabel = (sessionId: string) => getSessionTitle?.(sessionId) ?? `Chat ${sessionId.slice(0, 8)}`;
+  // Close first so the chat isn't hidden behind the dialog
+  const openSession = onOpenSession
+    ? (sessionId: string, turnId?: string) => {
+        onOpenChange(false);
+        onOpenSession(sessionId, turnId);
+      }
+    : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[80vh] max-w-[90vw] flex-col gap-0 p-0 sm:max-w-[90vw]" aria-describedby={undefined}>
+        <DialogHeader className="border-b border-border/50 px-4 py-3 pe-12 shrink-0">
+          <DialogTitle className="flex items-center gap-2 text-sm">
+            <ScrollText className="h-4 w-4 text-foreground/50" />
+            <span className="min-w-0 truncate">Blame · {file}</span>
+            <span className="shrink-0 font-mono text-[11px] font-normal text-foreground/40">{rev ? rev.slice(0, 8) : "working tree"}</span>
+          </DialogTitle>
+          {sessionTotals.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 pt-1">
+              {sessionTotals.map(({ session, count }) => (
+                <SessionChip
+                  key={session.sessionId}
+                  label={`${sessionLabel(session.sessionId)} · ${count} line${count === 1 ? "" : "s"}`}
+                  onClick={openSession ? () => openSession(session.sessionId, session.turns[0]) : undefined}
+                />
+              ))}
+            </div>
+          )}
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 overflow-auto">
+          {!lines && !error && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-4 w-4 animate-spin text-foreground/30" />
+            </div>
+          )}
+          {error && <p className="px-4 py-6 text-center text-xs text-red-600 dark:text-red-400">{error}</p>}
+          {lines && (
+            <table className="w-full border-collapse font-mono text-[11px] leading-[1.6]">
+              <tbody>
+                {blocks.map((block) => block.lines.map((line, i) => (
+                  <tr key={line.line} className={i === 0 ? "border-t border-foreground/[0.06]" : ""}>
+                    <td className="w-64 max-w-64 px-3 align-top font-sans text-[10px]">
+                      {i === 0 && <BlameGutter line={block.first} sessionLabel={sessionLabel} onOpenSession={openSession} />}
+                    </td>
+                    <td className="w-10 select-none pe-3 text-end align-top text-foreground/25">{line.line}</td>
+                    <td className={`whitespace-pre pe-4 text-foreground/75 ${block.first.session ? "bg-blue-500/[0.04]" : ""}`}>
+                      {line.content || " "}
+                    </td>
+                  </tr>
+                )))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function BlameGutter({ line, sessionLabel, onOpenSession }: {
+  line: GitBlameLine;
+  sessionLabel: (sessionId: string) => string;
+  onOpenSession?: (sessionId: string, turnId?: string) => void;
+}) {
+  if (!line.committed) {
+    return <span className="italic text-foreground/35">Not committed yet</span>;
+  }
+  const { session } = line;
+  return (
+    <div className="flex min-w-0 flex-col py-px">
+      <span className="flex min-w-0 items-baseline gap-1.5">
+        <span className="shrink-0 font-mono text-foreground/40">{line.hash.slice(0, 7)}</span>
+        <span className="min-w-0 truncate text-foreground/60" title={line.summary}>{line.summary}</span>
+      </span>
+      <span className="flex min-w-0 items-center gap-1.5 text-foreground/35">
+        <span className="min-w-0 truncate">{line.author}</span>
+        <span className="shrink-0 tabular-nums">{formatRelativeDate(line.date)}</span>
+      </span>
+      {session && (
+        <SessionChip
+          label={sessionLabel(session.sessionId)}
+          turns={session.turns}
+          onClick={onOpenSession ? () => onOpenSession(session.sessionId, session.turns[0]) : undefined}
+        />
+      )}
+    </div>
+  );
+}
+
+/** Link to the chat a commit came from. */
+export function SessionChip({ label, turns, onClick }: { label: string; turns?: string[]; onClick?: () => void }) {
+  const turnText = turns && turns.length > 0 ? ` · ${turns.length} turn${turns.length === 1 ? "" : "s"}` : "";
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!onClick}
+      className="flex max-w-full items-center gap-1 self-start rounded bg-blue-500/10 px-1.5 py-px text-[10px] font-medium text-blue-600 transition-colors enabled:cursor-pointer enabled:hover:bg-blue-500/20 dark:text-blue-300"
+      title={onClick ? "Open chat" : undefined}
+    >
+      <MessageSquare className="h-2.5 w-2.5 shrink-0" />
+      <span className="min-w-0 truncate">{label}{turnText}</span>
+    </button>
+  );
+}
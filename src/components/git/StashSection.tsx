@@ -0,0 +1,217 @@
+import { useCallback, useState } from "react";
+import {
+  Archive,
+  ArchiveRestore,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  Plus,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { InlineDiff } from "./InlineDiff";
+import { formatRelativeDate, type GitActions } from "./git-panel-utils";
+import type { GitFileChange, GitStashEntry } from "@/types";
+
+export interface StashSectionProps {
+  cwd: string;
+  stashes: GitStashEntry[];
+  /** Working-tree changes offered in the "Stash changes" form. */
+  files: GitFileChange[];
+  git: GitActions;
+  onError: (message: string) => void;
+}
+
+const ACTION_BUTTON = "flex h-5 w-5 items-center justify-center rounded-md text-foreground/30 cursor-pointer transition-colors";
+
+export function StashSection({ cwd, stashes, files, git, onError }: StashSectionProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [message, setMessage] = useState("");
+  const [includeUntracked, setIncludeUntracked] = useState(true);
+  // Paths left out of the stash; everything is included by default
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [openRef, setOpenRef] = useState<string | null>(null);
+  const [stashDiff, setStashDiff] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const changedPaths = [...new Set(
+    files.filter((f) => includeUntracked || f.group !== "untracked").map((f) => f.path),
+  )];
+  const selectedPaths = changedPaths.filter((p) => !excluded.has(p));
+
+  const closeForm = useCallback(() => {
+    setShowForm(false);
+    setMessage("");
+    setExcluded(new Set());
+  }, []);
+
+  const run = useCallback(async (action: () => Promise<{ error?: string }>) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      if (result.error) onError(result.error);
+      return !result.error;
+    } finally {
+      setBusy(false);
+    }
+  }, [onError]);
+
+  const handlePush = useCallback(async () => {
+    const ok = await run(() => git.stashPush(cwd, {
+      message,
+      includeUntracked,
+      // Only pass paths for a partial stash — an explicit full list would skip new untracked dirs
+      paths: selectedPaths.length < changedPaths.length ? selectedPaths : undefined,
+    }));
+    if (ok) {
+      closeForm();
+      setExpanded(true);
+    }
+  }, [changedPaths.length, closeForm, cwd, git, includeUntracked, message, run, selectedPaths]);
+
+  const toggleShow = useCallback(async (ref: string) => {
+    if (openRef === ref) {
+      setOpenRef(null);
+      setStashDiff(null);
+      return;
+    }
+    setOpenRef(ref);
+    setStashDiff(null);
+    const result = await git.stashShow(cwd, ref);
+    setStashDiff(result.diff || "(no diff available)");
+  }, [cwd, git, openRef]);
+
+  const handleEntryAction = useCallback(async (action: "apply" | "pop" | "drop", ref: string) => {
+    const fn = action === "apply" ? git.stashApply : action === "pop" ? git.stashPop : git.stashDrop;
+    const ok = await run(() => fn(cwd, ref));
+    // Refs shift after pop/drop, so any open diff may now point at another entry
+    if (ok && action !== "apply") {
+      setOpenRef(null);
+      setStashDiff(null);
+    }
+  }, [cwd, git, run]);
+
+  if (stashes.length === 0 && files.length === 0) return null;
+
+  return (
+    <div className="mt-0.5">
+      <div className="group flex items-center gap-1.5 pe-1.5">
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="flex min-w-0 flex-1 items-center gap-1.5 ps-3 py-1 transition-colors hover:bg-foreground/[0.03] cursor-pointer"
+        >
+          {expanded ? <ChevronDown className="h-3 w-3 shrink-0 text-foreground/40" /> : <ChevronRight className="h-3 w-3 shrink-0 text-foreground/40" />}
+          <Archive className="h-3 w-3 shrink-0 text-foreground/40" />
+          <span className="text-[10px] font-semibold text-foreground/55">Stashes</span>
+          <span className="rounded-full bg-foreground/[0.07] px-1.5 py-px text-[9px] font-medium tabular-nums text-foreground/40">{stashes.length}</span>
+        </button>
+        {files.length > 0 && (
+          <button
+            type="button"
+            onClick={() => { setShowForm(!showForm); setExpanded(true); }}
+            className={`${ACTION_BUTTON} opacity-0 group-hover:opacity-100 hover:bg-foreground/[0.06] hover:text-foreground/65`}
+            title="Stash Changes"
+          >
+            <Plus className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+
+      {expanded && showForm && (
+        <div className="mx-3 mb-1 space-y-1.5 rounded-md border border-foreground/[0.08] bg-foreground/[0.02] p-1.5">
+          <input
+            type="text"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && selectedPaths.length > 0) void handlePush();
+              if (e.key === "Escape") closeForm();
+            }}
+            placeholder="Stash message (optional)…"
+            className="w-full rounded-md bg-foreground/[0.05] px-2 py-1 text-[11px] text-foreground/75 outline-none placeholder:text-foreground/30"
+            autoFocus
+          />
+          <label className="flex items-center gap-1.5 text-[10px] text-foreground/55 cursor-pointer">
+            <input type="checkbox" checked={includeUntracked} onChange={(e) => setIncludeUntracked(e.target.checked)} className="h-3 w-3" />
+            Include untracked files
+          </label>
+          <div className="max-h-28 overflow-y-auto">
+            {changedPaths.map((p) => (
+              <label key={p} className="flex items-center gap-1.5 py-px text-[10px] text-foreground/55 cursor-pointer" title={p}>
+                <input
+                  type="checkbox"
+                  checked={!excluded.has(p)}
+                  onChange={() => setExcluded((prev) => {
+                    const next = new Set(prev);
+                    if (next.has(p)) next.delete(p);
+                    else next.add(p);
+                    return next;
+                  })}
+                  className="h-3 w-3"
+                />
+                <span className="min-w-0 truncate">{p}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-end gap-1">
+            <button type="button" onClick={closeForm} className="rounded-md px-2 py-0.5 text-[10px] text-foreground/45 hover:bg-foreground/[0.06] cursor-pointer">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => void handlePush()}
+              disabled={busy || selectedPaths.length === 0}
+              className="flex items-center gap-1 rounded-md bg-foreground/[0.08] px-2 py-0.5 text-[10px] font-medium text-foreground/70 hover:bg-foreground/[0.12] cursor-pointer disabled:opacity-40"
+            >
+              {busy && <Loader2 className="h-2.5 w-2.5 animate-spin" />}
+              Stash {selectedPaths.length < changedPaths.length ? `${selectedPaths.length} file${selectedPaths.length === 1 ? "" : "s"}` : "All"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {expanded && (
+        <div className="pb-0.5">
+          {stashes.length === 0 && !showForm && (
+            <p className="px-3 py-1.5 text-[10px] text-foreground/35">No stashes</p>
+          )}
+          {stashes.map((entry) => (
+            <div key={entry.ref}>
+              <div className={`group flex items-center gap-1.5 px-3 py-[3px] text-[10px] transition-colors hover:bg-foreground/[0.03] ${openRef === entry.ref ? "bg-foreground/[0.05]" : ""}`}>
+                <button
+                  type="button"
+                  onClick={() => void toggleShow(entry.ref)}
+                  className="flex min-w-0 flex-1 items-baseline gap-1.5 text-start cursor-pointer"
+                  title={entry.ref}
+                >
+                  <span className="min-w-0 truncate text-foreground/65">{entry.message}</span>
+                  {entry.branch && <span className="shrink-0 truncate text-[9px] text-foreground/30">{entry.branch}</span>}
+                </button>
+                <div className="flex shrink-0 items-center gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
+                  <button type="button" disabled={busy} onClick={() => void handleEntryAction("apply", entry.ref)} className={`${ACTION_BUTTON} hover:bg-emerald-500/10 hover:text-emerald-600 dark:hover:text-emerald-300`} title="Apply">
+                    <Upload className="h-2.5 w-2.5" />
+                  </button>
+                  <button type="button" disabled={busy} onClick={() => void handleEntryAction("pop", entry.ref)} className={`${ACTION_BUTTON} hover:bg-emerald-500/10 hover:text-emerald-600 dark:hover:text-emerald-300`} title="Pop">
+                    <ArchiveRestore className="h-2.5 w-2.5" />
+                  </button>
+                  <button type="button" disabled={busy} onClick={() => void handleEntryAction("drop", entry.ref)} className={`${ACTION_BUTTON} hover:bg-red-500/10 hover:text-red-600 dark:hover:text-red-300`} title="Drop">
+                    <Trash2 className="h-2.5 w-2.5" />
+                  </button>
+                </div>
+                <span className="shrink-0 tabular-nums text-[9px] text-foreground/30">{formatRelativeDate(entry.date)}</span>
+              </div>
+              {openRef === entry.ref && stashDiff !== null && <InlineDiff diff={stashDiff} />}
+              {openRef === entry.ref && stashDiff === null && (
+                <div className="flex items-center justify-center py-1">
+                  <Loader2 className="h-2.5 w-2.5 animate-spin text-foreground/25" />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useState } from "react";
+import { ArrowLeft, ArrowUp, Copy, FileText, Loader2, Plus, Tag, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { copyToClipboard } from "@/lib/clipboard";
+import { withRemoteProgress } from "./remote-progress";
+import { formatRelativeDate, type GitActions } from "./git-panel-utils";
+import type { EngineId, GitReleaseNotes, GitTag } from "@/types";
+
+interface TagsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cwd: string;
+  git: GitActions;
+  activeEngine?: EngineId;
+  activeSessionId?: string | null;
+}
+
+/** List, create, push and delete tags, and draft release notes since the previous tag. */
+export function TagsDialog({ open, onOpenChange, cwd, git, activeEngine, activeSessionId }: TagsDialogProps) {
+  const [tags, setTags] = useState<GitTag[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<GitTag | null>(null);
+  const [deleteRemote, setDeleteRemote] = useState(false);
+  /** Target the notes are being drafted for ("HEAD" or a tag name). */
+  const [draftTarget, setDraftTarget] = useState<string | null>(null);
+  const [notes, setNotes] = useState<GitReleaseNotes | null>(null);
+  const [notesText, setNotesText] = useState("");
+
+  // `git` is a new object each poll; its actions are stable, so reload (and the open reset) only follows cwd
+  const { listTags, createTag, push, deleteTag } = git;
+
+  const reload = useCallback(() => {
+    setError(null);
+    void listTags(cwd).then((result) => {
+      if ("error" in result) setError(result.error);
+      else setTags(result);
+    });
+  }, [cwd, listTags]);
+
+  useEffect(() => {
+    if (!open) return;
+    setTags(null);
+    setDraftTarget(null);
+    setNotes(null);
+    reload();
+  }, [open, reload]);
+
+  const handleCreate = useCallback(async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await createTag(cwd, trimmed, { message: message.trim() || undefined });
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      setName("");
+      setMessage("");
+      reload();
+    } finally {
+      setBusy(false);
+    }
+  }, [createTag, cwd, message, name, reload]);
+
+  const handlePush = useCallback(async (tag?: string) => {
+    setError(null);
+    const result = await withRemoteProgress(
+      { pending: tag ? `Pushing ${tag}…` : "Pushing tags…", done: tag ? `Pushed ${tag}` : "Tags pushed" },
+      (operationId) => push(cwd, tag ? { tag, operationId } : { tags: true, operationId }),
+    );
+    if (result?.error) setError(result.error);
+  }, [cwd, push]);
+
+  const handleDelete = useCallback(async () => {
+    if (!deleteTarget) return;
+    const tag = deleteTarget.name;
+    setError(null);
+    const result = deleteRemote
+      ? await withRemoteProgress({ pending: `Deleting ${tag}…`, done: `Deleted ${tag}` }, (operationId) =>
+          deleteTag(cwd, tag, { remote: true, operationId }))
+      : await deleteTag(cwd, tag);
+    if (result?.error) setError(result.error);
+    reload();
+  }, [cwd, deleteRemote, deleteTag, deleteTarget, reload]);
+
+  const handleDraft = useCallback(async (target: string) => {
+    setDraftTarget(target);
+    setNotes(null);
+    setError(null);
+    const result = await window.claude.git.generateReleaseNotes(
+      cwd,
+      target,
+      activeEngine,
+      activeEngine !== "claude" && activeSessionId ? activeSessionId : undefined,
+    );
+    if (result.notes && result.to) {
+      setNotes({ notes: result.notes, from: result.from, to: result.to, commitCount: result.commitCount ?? 0 });
+      setNotesText(result.notes);
+    } else {
+      setDraftTarget(null);
+      setError(result.error ?? "No result received");
+    }
+  }, [activeEngine, activeSessionId, cwd]);
+
+  const handleCopy = useCallback(async () => {
+    if (await copyToClipboard(notesText)) toast.success("Release notes copied");
+  }, [notesText]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[75vh] max-w-[90vw] flex-col gap-0 p-0 sm:max-w-2xl" aria-describedby={undefined}>
+        <DialogHeader className="flex-row items-center gap-2 border-b border-border/50 px-4 py-3 pe-12 shrink-0">
+          <DialogTitle className="flex items-center gap-2 text-sm">
+            {draftTarget ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => { setDraftTarget(null); setNotes(null); }}
+                  className="flex h-5 w-5 items-center justify-center rounded-md text-foreground/45 hover:bg-foreground/[0.06] hover:text-foreground/75 cursor-pointer"
+                  title="Back to Tags"
+                >
+                  <ArrowLeft className="h-3.5 w-3.5" />
+                </button>
+                Release Notes · {draftTarget === "HEAD" ? "Unreleased" : draftTarget}
+              </>
+            ) : (
+              <>
+                <Tag className="h-4 w-4 text-foreground/50" />
+                Tags
+              </>
+            )}
+          </DialogTitle>
+          {!draftTarget && (
+            <div className="ms-auto flex items-center gap-1.5">
+              <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-[11px]" onClick={() => void handleDraft("HEAD")}>
+                <FileText className="h-3 w-3" />
+                Draft Release Notes
+              </Button>
+              <Button variant="outline" size="sm" className="h-6 gap-1 px-2 text-[11px]" onClick={() => void handlePush()} disabled={!tags?.length}>
+                <ArrowUp className="h-3 w-3" />
+                Push All
+              </Button>
+            </div>
+          )}
+        </DialogHeader>
+
+        {error && <p className="border-b border-foreground/[0.06] px-4 py-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+        {draftTarget ? (
+          notes ? (
+            <div className="flex min-h-0 flex-1 flex-col gap-2 p-4">
+              <p className="text-[11px] text-foreground/45">
+                {notes.commitCount} commit{notes.commitCount === 1 ? "" : "s"} {notes.from ? `since ${notes.from}` : "in history"} — edit before copying.
+              </p>
+              <textarea
+                value={notesText}
+                onChange={(e) => setNotesText(e.target.value)}
+                className="min-h-0 flex-1 resize-none rounded-md border border-foreground/[0.08] bg-foreground/[0.02] p-3 font-mono text-xs text-foreground/85 outline-none focus:border-foreground/[0.15]"
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => void handleDraft(draftTarget)}>Regenerate</Button>
+                <Button size="sm" onClick={() => void handleCopy()} disabled={!notesText.trim()}>
+                  <Copy className="h-3.5 w-3.5" />
+                  Copy
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-1 flex-col items-center justify-center gap-2 text-xs text-foreground/40">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Drafting from the commits since the previous tag…
+            </div>
+          )
+        ) : (
+          <>
+            <form
+              className="flex items-center gap-2 border-b border-foreground/[0.06] px-4 py-2.5"
+              onSubmit={(e) => {
+                e.preventDefault();
+                void handleCreate();
+              }}
+            >
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="v1.2.0" className="h-7 w-36 text-xs" />
+              <Input
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="Message (makes an annotated tag)"
+                className="h-7 min-w-0 flex-1 text-xs"
+              />
+              <Button type="submit" size="sm" className="h-7 gap-1 px-2.5 text-xs" disabled={busy || !name.trim()}>
+                {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Plus className="h-3 w-3" />}
+                Tag HEAD
+              </Button>
+            </form>
+
+            <div className="min-h-0 flex-1 overflow-y-auto">
+              {!tags && !error && (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-4 w-4 animate-spin text-foreground/30" />
+                </div>
+              )}
+              {tags?.length === 0 && <p className="px-4 py-6 text-center text-xs text-foreground/40">No tags yet.</p>}
+              {tags?.map((tag) => (
+                <div key={tag.name} className="group flex items-center gap-2 border-b border-foreground/[0.06] px-4 py-2 last:border-b-0">
+                  <Tag className="h-3 w-3 shrink-0 text-foreground/35" />
+                  <span className="shrink-0 font-mono text-xs font-medium text-foreground/85">{tag.name}</span>
+                  <span className="shrink-0 font-mono text-[10px] text-foreground/40">{tag.hash.slice(0, 7)}</span>
+                  {!tag.annotated && (
+                    <span className="shrink-0 rounded bg-foreground/[0.06] px-1 py-px text-[9px] text-foreground/45">lightweight</span>
+                  )}
+                  <span className="min-w-0 flex-1 truncate text-xs text-foreground/55">{tag.message}</span>
+                  <span className="shrink-0 text-[10px] text-foreground/35">{formatRelativeDate(tag.date)}</span>
+                  <span className="flex shrink-0 items-center gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
+                    <button
+                      type="button"
+                      onClick={() => void handleDraft(tag.name)}
+                      className="flex h-5 w-5 items-center justify-center rounded-md text-foreground/35 hover:bg-foreground/[0.06] hover:text-foreground/70 cursor-pointer"
+                      title="Draft Release Notes"
+                    >
+                      <FileText className="h-3 w-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void handlePush(tag.name)}
+                      className="flex h-5 w-5 items-center justify-center rounded-md text-foreground/35 hover:bg-foreground/[0.06] hover:text-foreground/70 cursor-pointer"
+                      title="Push Tag"
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => { setDeleteRemote(false); setDeleteTarget(tag); }}
+                      className="flex h-5 w-5 items-center justify-center rounded-md text-foreground/35 hover:bg-red-500/10 hover:text-red-600 dark:hover:text-red-400 cursor-pointer"
+                      title="Delete Tag"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <ConfirmDialog
+          open={deleteTarget !== null}
+          onOpenChange={(next) => { if (!next) setDeleteTarget(null); }}
+          onConfirm={() => void handleDelete()}
+          title={`Delete tag ${deleteTarget?.name ?? ""}?`}
+          description={(
+            <>
+              <span className="block">Removes the local tag. The commit it points at is unaffected.</span>
+              <label className="mt-3 flex items-center gap-2 text-xs text-foreground/70">
+                <input type="checkbox" checked={deleteRemote} onChange={(e) => setDeleteRemote(e.target.checked)} className="h-3 w-3" />
+                Also delete it from the remote
+              </label>
+            </>
+          )}
+          confirmLabel="Delete"
+          confirmVariant="destructive"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,350 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  FolderTree,
+  Loader2,
+  Lock,
+  Play,
+  RefreshCw,
+  Trash2,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { SessionChip } from "./SessionBlame";
+import { formatRelativeDate, type GitActions } from "./git-panel-utils";
+import type { GitWorktree, GitWorktreeDetails, WorktreeSession } from "@/types";
+
+/** No commits for this long marks a worktree as idle. */
+const STALE_DAYS = 30;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+function worktreeName(worktree: GitWorktree): string {
+  return worktree.path.split(/[\\/]/).pop() || worktree.path;
+}
+
+function isStale(details: GitWorktreeDetails | undefined): boolean {
+  if (!details?.lastCommitDate) return false;
+  return Date.now() - new Date(details.lastCommitDate).getTime() > STALE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+interface WorktreeManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Any worktree of the repository; the list covers all of them. */
+  repoPath: string;
+  git: GitActions;
+  getWorktreeSessions?: (worktreePaths: string[]) => Map<string, WorktreeSession[]>;
+  onOpenSession?: (sessionId: string, turnId?: string) => void;
+}
+
+/** Every worktree of a repo with its state, disk usage, setup run and chats, plus bulk cleanup. */
+export function WorktreeManager({ open, onOpenChange, repoPath, git, getWorktreeSessions, onOpenSession }: WorktreeManagerProps) {
+  const [worktrees, setWorktrees] = useState<GitWorktree[] | null>(null);
+  const [details, setDetails] = useState<Map<string, GitWorktreeDetails>>(new Map());
+  const [sessions, setSessions] = useState<Map<string, WorktreeSession[]>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedSetup, setExpandedSetup] = useState<string | null>(null);
+  const [runningSetup, setRunningSetup] = useState<string | null>(null);
+  const [confirmRemove, setConfirmRemove] = useState(false);
+  const [forceRemove, setForceRemove] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  const reload = useCallback(() => setVersion((v) => v + 1), []);
+  // Reloads follow `version`, not every status poll
+  const { listWorktrees, getWorktreeDetails, runWorktreeSetup, removeWorktree, pruneWorktrees } = git;
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setError(null);
+    void listWorktrees(repoPath).then(async (list) => {
+      if (cancelled) return;
+      if ("error" in list) {
+        setError(list.error);
+        return;
+      }
+      setWorktrees(list);
+      setSessions(getWorktreeSessions?.(list.map((worktree) => worktree.path)) ?? new Map());
+      setSelected((prev) => new Set([...prev].filter((p) => list.some((worktree) => worktree.path === p))));
+      // One at a time — sizing still walks up to thousands of files per worktree
+      for (const worktree of list) {
+        if (worktree.prunable) continue;
+        const result = await getWorktreeDetails(repoPath, worktree.path);
+        if (cancelled) return;
+        if ("error" in result) continue;
+        setDetails((prev) => new Map(prev).set(worktree.path, result));
+      }
+    });
+    return () => { cancelled = true; };
+  }, [getWorktreeDetails, getWorktreeSessions, listWorktrees, open, repoPath, version]);
+
+  const isLive = useCallback(
+    (worktreePath: string) => sessions.get(worktreePath)?.some((session) => session.live) ?? false,
+    [sessions],
+  );
+
+  const toggleSelected = useCallback((worktreePath: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(worktreePath)) next.delete(worktreePath);
+      else next.add(worktreePath);
+      return next;
+    });
+  }, []);
+
+  const handleRunSetup = useCallback(async (worktreePath: string) => {
+    setRunningSetup(worktreePath);
+    try {
+      const result = await runWorktreeSetup(repoPath, worktreePath);
+      if (result.error) {
+        toast.error("Setup failed to run", { description: result.error });
+        return;
+      }
+      const failed = result.setupResults?.filter((step) => !step.ok).length ?? 0;
+      if (failed > 0) toast.error(`${failed} setup command${failed === 1 ? "" : "s"} failed`);
+      else toast.success("Setup finished");
+      setExpandedSetup(worktreePath);
+      const refreshed = await getWorktreeDetails(repoPath, worktreePath);
+      if (!("error" in refreshed)) setDetails((prev) => new Map(prev).set(worktreePath, refreshed));
+    } finally {
+      setRunningSetup(null);
+    }
+  }, [getWorktreeDetails, repoPath, runWorktreeSetup]);
+
+  const handleRemoveSelected = useCallback(async () => {
+    if (!worktrees) return;
+    setBusy(true);
+    try {
+      let removed = 0;
+      for (const worktreePath of selected) {
+        // Refused while one of its chats is live
+        const result = await removeWorktree(repoPath, worktreePath, forceRemove);
+        if (result?.error) toast.error(`Failed to remove ${worktreePath}`, { description: result.error });
+        else removed += 1;
+      }
+      if (removed > 0) toast.success(`Removed ${removed} worktree${removed === 1 ? "" : "s"}`);
+      setSelected(new Set());
+    } finally {
+      setBusy(false);
+      setForceRemove(false);
+      reload();
+    }
+  }, [forceRemove, reload, removeWorktree, repoPath, selected, worktrees]);
+
+  const handlePrune = useCallback(async () => {
+    setBusy(true);
+    try {
+      const result = await pruneWorktrees(repoPath);
+      if (result?.error) toast.error("Prune failed", { description: result.error });
+      else toast.success("Pruned stale worktree records");
+    } finally {
+      setBusy(false);
+      reload();
+    }
+  }, [pruneWorktrees, reload, repoPath]);
+
+  const openSession = onOpenSession
+    ? (sessionId: string) => {
+        onOpenChange(false);
+        onOpenSession(sessionId);
+      }
+    : undefined;
+
+  const prunableCount = worktrees?.filter((worktree) => worktree.prunable).length ?? 0;
+  const selectedDirty = useMemo(
+    () => [...selected].filter((worktreePath) => (details.get(worktreePath)?.changedFiles ?? 0) > 0),
+    [details, selected],
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[80vh] max-w-[90vw] flex-col gap-0 p-0 sm:max-w-3xl" aria-describedby={undefined}>
+        <DialogHeader className="flex-row items-center gap-2 border-b border-border/50 px-4 py-3 pe-12 shrink-0">
+          <DialogTitle className="flex items-center gap-2 text-sm">
+            <FolderTree className="h-4 w-4 text-foreground/50" />
+            Worktrees
+          </DialogTitle>
+          <div className="ms-auto flex items-center gap-1.5">
+            <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-[11px]" onClick={reload} disabled={busy}>
+              <RefreshCw className="h-3 w-3" />
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" className="h-6 gap-1 px-2 text-[11px]" onClick={() => void handlePrune()} disabled={busy || prunableCount === 0}>
+              Prune{prunableCount > 0 ? ` ${prunableCount}` : ""}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 gap-1 px-2 text-[11px] text-red-600 dark:text-red-400"
+              onClick={() => setConfirmRemove(true)}
+              disabled={busy || selected.size === 0}
+            >
+              {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3" />}
+              Remove{selected.size > 0 ? ` ${selected.size}` : ""}
+            </Button>
+          </div>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 overflow-y-auto">
+          {!worktrees && !error && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-4 w-4 animate-spin text-foreground/30" />
+            </div>
+          )}
+          {error && <p className="px-4 py-6 text-center text-xs text-red-600 dark:text-red-400">{error}</p>}
+          {worktrees?.map((worktree) => {
+            const info = details.get(worktree.path);
+            const chats = sessions.get(worktree.path) ?? [];
+            const live = isLive(worktree.path);
+            // The primary can't be removed; locked ones need `git worktree unlock` first and missing ones are pruned
+            const removable = !worktree.isPrimary && !worktree.locked && !worktree.prunable && !live;
+            const setupFailed = info?.setup?.steps.filter((step) => !step.ok).length ?? 0;
+            return (
+              <div key={worktree.path} className="border-b border-foreground/[0.06] px-4 py-2.5 last:border-b-0">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(worktree.path)}
+                    onChange={() => toggleSelected(worktree.path)}
+                    disabled={!removable}
+                    className="h-3 w-3 shrink-0"
+                    title={live ? "A chat is running in this worktree" : undefined}
+                  />
+                  <span className="min-w-0 truncate text-xs font-medium text-foreground/85">{worktreeName(worktree)}</span>
+                  <span className="shrink-0 rounded bg-foreground/[0.06] px-1 py-px font-mono text-[10px] text-foreground/55">
+                    {worktree.branch ?? `detached ${worktree.head.slice(0, 7)}`}
+                  </span>
+                  {worktree.isPrimary && <Badge tone="neutral">primary</Badge>}
+                  {worktree.locked && <Badge tone="neutral"><Lock className="h-2.5 w-2.5" />locked</Badge>}
+                  {worktree.prunable && <Badge tone="warn">missing</Badge>}
+                  {info?.merged && <Badge tone="ok">merged</Badge>}
+                  {isStale(info) && <Badge tone="warn">idle {formatRelativeDate(info?.lastCommitDate ?? "")}</Badge>}
+                  <span className="ms-auto flex shrink-0 items-center gap-2 text-[10px] tabular-nums text-foreground/45">
+                    {info ? (
+                      <>
+                        {info.changedFiles > 0 && <span className="text-amber-600 dark:text-amber-400">{info.changedFiles} changed</span>}
+                        {info.ahead > 0 && <span className="flex items-center"><ArrowUp className="h-2.5 w-2.5" />{info.ahead}</span>}
+                        {info.behind > 0 && <span className="flex items-center"><ArrowDown className="h-2.5 w-2.5" />{info.behind}</span>}
+                        <span>{info.sizeCapped ? "≥ " : ""}{formatSize(info.sizeBytes)}</span>
+                      </>
+                    ) : !worktree.prunable && <Loader2 className="h-3 w-3 animate-spin text-foreground/25" />}
+                  </span>
+                </div>
+                <p className="mt-0.5 truncate ps-5 font-mono text-[10px] text-foreground/35" title={worktree.path}>{worktree.path}</p>
+
+                {chats.length > 0 && (
+                  <div className="mt-1.5 flex flex-wrap items-center gap-1 ps-5">
+                    {chats.map((chat) => (
+                      <span key={chat.id} className="flex items-center gap-1">
+                        {chat.live && <Loader2 className="h-2.5 w-2.5 animate-spin text-blue-500" aria-label="Running" />}
+                        <SessionChip label={chat.title} onClick={openSession ? () => openSession(chat.id) : undefined} />
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {!worktree.isPrimary && !worktree.prunable && (
+                  <div className="mt-1.5 ps-5">
+                    <div className="flex items-center gap-1.5 text-[10px] text-foreground/45">
+                      {info?.setup ? (
+                        <button
+                          type="button"
+                          onClick={() => setExpandedSetup(expandedSetup === worktree.path ? null : worktree.path)}
+                          className="flex items-center gap-1 hover:text-foreground/70 cursor-pointer"
+                        >
+                          {expandedSetup === worktree.path ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                          {setupFailed > 0
+                            ? <span className="text-red-600 dark:text-red-400">Setup: {setupFailed} of {info.setup.steps.length} failed</span>
+                            : <span>Setup: {info.setup.steps.length} command{info.setup.steps.length === 1 ? "" : "s"} ok</span>}
+                          <span className="text-foreground/30">· {formatRelativeDate(new Date(info.setup.ranAt).toISOString())}</span>
+                        </button>
+                      ) : (
+                        <span className="text-foreground/35">Setup not run</span>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => void handleRunSetup(worktree.path)}
+                        disabled={runningSetup !== null}
+                        className="flex items-center gap-1 rounded px-1 py-px text-foreground/50 hover:bg-foreground/[0.06] hover:text-foreground/75 disabled:opacity-40 cursor-pointer disabled:cursor-default"
+                        title="Run .harnss/worktree.json setup commands again"
+                      >
+                        {runningSetup === worktree.path ? <Loader2 className="h-2.5 w-2.5 animate-spin" /> : <Play className="h-2.5 w-2.5" />}
+                        {info?.setup ? "Re-run" : "Run"}
+                      </button>
+                    </div>
+                    {expandedSetup === worktree.path && info?.setup && (
+                      <div className="mt-1 space-y-1 rounded-md bg-foreground/[0.03] p-2">
+                        {info.setup.steps.map((step, i) => (
+                          <div key={i} className="text-[10px]">
+                            <div className="flex items-center gap-1.5 font-mono">
+                              {step.ok ? <Check className="h-3 w-3 text-emerald-500" /> : <X className="h-3 w-3 text-red-500" />}
+                              <span className="text-foreground/70">{step.command}</span>
+                            </div>
+                            {(step.error || step.output) && (
+                              <pre className={`mt-0.5 max-h-32 overflow-auto whitespace-pre-wrap ps-4 font-mono ${step.ok ? "text-foreground/40" : "text-red-600/80 dark:text-red-300/80"}`}>
+                                {step.error || step.output}
+                              </pre>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <ConfirmDialog
+          open={confirmRemove}
+          onOpenChange={(next) => { setConfirmRemove(next); if (!next) setForceRemove(false); }}
+          onConfirm={() => void handleRemoveSelected()}
+          title={`Remove ${selected.size} worktree${selected.size === 1 ? "" : "s"}?`}
+          description={
+            <span className="flex flex-col gap-2">
+              <span>The folders are deleted. Their branches are kept.</span>
+              {selectedDirty.length > 0 && (
+                <span className="flex items-start gap-1.5 text-amber-600 dark:text-amber-400">
+                  <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                  <span>
+                    {selectedDirty.length} of them {selectedDirty.length === 1 ? "has" : "have"} uncommitted changes, which git won&apos;t remove unless forced.
+                    <label className="mt-1 flex items-center gap-1.5 cursor-pointer">
+                      <input type="checkbox" checked={forceRemove} onChange={(e) => setForceRemove(e.target.checked)} className="h-3 w-3" />
+                      Discard uncommitted changes
+                    </label>
+                  </span>
+                </span>
+              )}
+            </span>
+          }
+          confirmLabel="Remove"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function Badge({ tone, children }: { tone: "neutral" | "ok" | "warn"; children: React.ReactNode }) {
+  const toneClass = tone === "ok"
+    ? "bg-emerald-500/12 text-emerald-700 dark:text-emerald-300"
+    : tone === "warn"
+      ? "bg-amber-500/12 text-amber-700 dark:text-amber-300"
+      : "bg-foreground/[0.06] text-foreground/50";
+  return <span className={`flex shrink-0 items-center gap-0.5 rounded px-1 py-px text-[9px] font-medium ${toneClass}`}>{children}</span>;
+}
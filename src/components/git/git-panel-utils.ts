@@ -1,3 +1,23 @@
+import type {
+  GitBlameLine,
+  GitCommitDetails,
+  GitCompareResult,
+  GitCompareSide,
+  GitConflictFile,
+  GitConflictSide,
+  GitHistoryEntry,
+  GitHistoryFilter,
+  GitLogEntry,
+  GitOperation,
+  GitPushOptions,
+  GitResetMode,
+  GitRewriteStep,
+  GitTag,
+  GitWorktree,
+  GitWorktreeDetails,
+  GitWorktreeSetupStep,
+} from "@/types";
+
 export function formatRelativeDate(iso: string): string {
   const now = Date.now();
   const then = new Date(iso).getTime();
@@ -58,6 +78,44 @@ export interface SelectorOption {
   label: string;
 }
 
+const AUTO_STASH_STORAGE_KEY = "harnss-git-auto-stash";
+
+/** Whether branch switches stash dirty changes first and restore them after. */
+export function getAutoStashPreference(): boolean {
+  try {
+    return localStorage.getItem(AUTO_STASH_STORAGE_KEY) === "true";
+  } catch {
+    return false;
+  }
+}
+
+export function saveAutoStashPreference(enabled: boolean): void {
+  try {
+    localStorage.setItem(AUTO_STASH_STORAGE_KEY, String(enabled));
+  } catch {
+    /* restricted */
+  }
+}
+
+const SESSION_TRAILER_STORAGE_KEY = "harnss-git-session-trailer";
+
+/** Whether panel commits get `Harnss-Session` trailers linking them to the chats that made the changes. */
+export function getSessionTrailerPreference(): boolean {
+  try {
+    return localStorage.getItem(SESSION_TRAILER_STORAGE_KEY) === "true";
+  } catch {
+    return false;
+  }
+}
+
+export function saveSessionTrailerPreference(enabled: boolean): void {
+  try {
+    localStorage.setItem(SESSION_TRAILER_STORAGE_KEY, String(enabled));
+  } catch {
+    /* restricted */
+  }
+}
+
 /** Shared interface for git actions passed from the hook to sub-components */
 export interface GitActions {
   stage: (repoPath: string, files: string[]) => Promise<void>;
@@ -65,14 +123,48 @@ export interface GitActions {
   stageAll: (repoPath: string) => Promise<void>;
   unstageAll: (repoPath: string) => Promise<void>;
   discard: (repoPath: string, files: string[]) => Promise<void>;
-  commit: (repoPath: string, message: string) => Promise<{ ok?: boolean; output?: string; error?: string }>;
-  checkout: (repoPath: string, branch: string) => Promise<{ ok?: boolean; error?: string } | undefined>;
-  createBranch: (repoPath: string, name: string) => Promise<{ ok?: boolean; error?: string } | undefined>;
+  applyPatch: (repoPath: string, patch: string, options?: { cached?: boolean; reverse?: boolean }) => Promise<{ ok?: boolean; error?: string }>;
+  commit: (repoPath: string, message: string, options?: { trailers?: string[]; amend?: boolean; allowPushed?: boolean }) => Promise<{ ok?: boolean; output?: string; error?: string }>;
+  checkout: (repoPath: string, branch: string, options?: { autoStash?: boolean }) => Promise<{ ok?: boolean; error?: string; stash?: "restored" | "conflicts" | "kept"; stashError?: string } | undefined>;
+  createBranch: (repoPath: string, name: string, fromRef?: string) => Promise<{ ok?: boolean; error?: string } | undefined>;
   createWorktree: (repoPath: string, worktreePath: string, branch: string, fromRef?: string) => Promise<{ ok?: boolean; path?: string; output?: string; error?: string } | undefined>;
   removeWorktree: (repoPath: string, worktreePath: string, force?: boolean) => Promise<{ ok?: boolean; output?: string; error?: string } | undefined>;
   pruneWorktrees: (repoPath: string) => Promise<{ ok?: boolean; output?: string; error?: string } | undefined>;
-  push: (repoPath: string) => Promise<{ ok?: boolean; output?: string; error?: string }>;
-  pull: (repoPath: string) => Promise<{ ok?: boolean; output?: string; error?: string }>;
-  fetchRemote: (repoPath: string) => Promise<{ ok?: boolean; output?: string; error?: string }>;
+  listWorktrees: (repoPath: string) => Promise<GitWorktree[] | { error: string }>;
+  getWorktreeDetails: (repoPath: string, worktreePath: string) => Promise<GitWorktreeDetails | { error: string }>;
+  runWorktreeSetup: (repoPath: string, worktreePath: string) => Promise<{ ok?: boolean; setupResults?: GitWorktreeSetupStep[]; error?: string }>;
+  compare: (repoPath: string, base: GitCompareSide, head: GitCompareSide) => Promise<GitCompareResult | { error: string }>;
+  getCompareFileDiff: (repoPath: string, base: string, head: string, file: string, oldPath?: string) => Promise<{ diff?: string; error?: string }>;
+  listTags: (repoPath: string) => Promise<GitTag[] | { error: string }>;
+  createTag: (repoPath: string, name: string, options?: { target?: string; message?: string }) => Promise<{ ok?: boolean; error?: string }>;
+  deleteTag: (repoPath: string, name: string, options?: { remote?: boolean; operationId?: string }) => Promise<{ ok?: boolean; error?: string }>;
+  merge: (repoPath: string, ref: string) => Promise<{ ok?: boolean; output?: string; error?: string }>;
+  push: (repoPath: string, options?: GitPushOptions) => Promise<{ ok?: boolean; output?: string; error?: string }>;
+  pull: (repoPath: string, operationId?: string) => Promise<{ ok?: boolean; output?: string; error?: string }>;
+  fetchRemote: (repoPath: string, operationId?: string) => Promise<{ ok?: boolean; output?: string; error?: string }>;
   getDiff: (repoPath: string, file: string, staged: boolean) => Promise<{ diff?: string; error?: string } | null>;
+  stashPush: (repoPath: string, options?: { message?: string; includeUntracked?: boolean; paths?: string[] }) => Promise<{ ok?: boolean; output?: string; error?: string }>;
+  stashApply: (repoPath: string, ref: string) => Promise<{ ok?: boolean; error?: string }>;
+  stashPop: (repoPath: string, ref: string) => Promise<{ ok?: boolean; error?: string }>;
+  stashDrop: (repoPath: string, ref: string) => Promise<{ ok?: boolean; error?: string }>;
+  stashShow: (repoPath: string, ref: string) => Promise<{ diff?: string; error?: string }>;
+  getHistory: (repoPath: string, options: { skip?: number; count?: number } & GitHistoryFilter) => Promise<GitHistoryEntry[] | { error: string }>;
+  getCommitDetails: (repoPath: string, hash: string) => Promise<GitCommitDetails | { error: string }>;
+  getCommitFileDiff: (repoPath: string, hash: string, file: string, oldPath?: string) => Promise<{ diff?: string; error?: string }>;
+  getBlame: (repoPath: string, file: string, rev?: string) => Promise<GitBlameLine[] | { error: string }>;
+  /** Working tree root of the repo — status paths are relative to it. */
+  getTopLevel: (repoPath: string) => Promise<{ path?: string; error?: string }>;
+  getUnpushedCommits: (repoPath: string) => Promise<GitLogEntry[] | { error: string }>;
+  resetTo: (repoPath: string, ref: string, mode: GitResetMode, allowPushed?: boolean) => Promise<{ ok?: boolean; error?: string }>;
+  rewriteCommits: (repoPath: string, steps: GitRewriteStep[]) => Promise<{ ok?: boolean; output?: string; error?: string }>;
+  revertCommit: (repoPath: string, hash: string) => Promise<{ ok?: boolean; output?: string; error?: string }>;
+  cherryPick: (repoPath: string, hash: string | string[]) => Promise<{ ok?: boolean; output?: string; error?: string }>;
+  getConflictFile: (repoPath: string, file: string) => Promise<GitConflictFile | { error: string }>;
+  resolveConflict: (
+    repoPath: string,
+    file: string,
+    resolution: { content?: string; side?: GitConflictSide },
+  ) => Promise<{ ok?: boolean; error?: string }>;
+  continueOperation: (repoPath: string, operation: GitOperation) => Promise<{ ok?: boolean; output?: string; error?: string }>;
+  abortOperation: (repoPath: string, operation: GitOperation) => Promise<{ ok?: boolean; error?: string }>;
 }
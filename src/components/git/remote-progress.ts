@@ -0,0 +1,56 @@
+import { toast } from "sonner";
+
+interface RemoteProgressCopy {
+  /** Toast title while running, e.g. "Pushing…" */
+  pending: string;
+  /** Toast title on success, e.g. "Pushed" */
+  done: string;
+}
+
+/**
+ * Run a push/pull/fetch behind a loading toast that follows git's progress and
+ * offers Cancel. Resolves to `null` when the user cancelled, so callers can
+ * tell that apart from a real failure.
+ */
+export async function withRemoteProgress<T extends { error?: string }>(
+  copy: RemoteProgressCopy,
+  run: (operationId: string) => Promise<T>,
+): Promise<T | null> {
+  const operationId = crypto.randomUUID();
+  const toastId = `git-remote-${operationId}`;
+  let cancelled = false;
+  const cancelAction = {
+    label: "Cancel",
+    onClick: () => {
+      cancelled = true;
+      void window.claude.git.cancelRemote(operationId);
+    },
+  };
+
+  toast.loading(copy.pending, { id: toastId, action: cancelAction });
+  const unsubscribe = window.claude.git.onRemoteProgress((progress) => {
+    if (progress.operationId !== operationId || cancelled) return;
+    toast.loading(copy.pending, {
+      id: toastId,
+      description: progress.percent === undefined ? progress.phase : `${progress.phase} · ${progress.percent}%`,
+      action: cancelAction,
+    });
+  });
+
+  try {
+    const result = await run(operationId);
+    if (cancelled) {
+      toast.info("Cancelled", { id: toastId, description: undefined, action: undefined });
+      return null;
+    }
+    if (result.error) {
+      // The caller shows the error inline
+      toast.dismiss(toastId);
+    } else {
+      toast.success(copy.done, { id: toastId, description: undefined, action: undefined });
+    }
+    return result;
+  } finally {
+    unsubscribe();
+  }
+}
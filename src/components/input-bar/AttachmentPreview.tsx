@@ -1,7 +1,7 @@
-import { memo } from "react";
-import { Crosshair, Pencil, X } from "lucide-react";
+import { memo, useState } from "react";
+import { ChevronDown, ChevronRight, Crosshair, Pencil, SquareTerminal, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import type { ImageAttachment, GrabbedElement } from "@/types";
+import type { ImageAttachment, GrabbedElement, TerminalContextAttachment } from "@/types";
 
 export interface AttachmentPreviewProps {
   attachments: ImageAttachment[];
@@ -9,20 +9,26 @@ export interface AttachmentPreviewProps {
   onEditAttachment: (attachment: ImageAttachment) => void;
   grabbedElements: GrabbedElement[];
   onRemoveGrabbedElement: (id: string) => void;
+  terminalContexts: TerminalContextAttachment[];
+  onRemoveTerminalContext: (id: string) => void;
 }
 
-/** Image attachment thumbnails and grabbed DOM element context chips above the toolbar. */
+/** Image attachment thumbnails, grabbed DOM element chips and collapsible terminal output above the toolbar. */
 export const AttachmentPreview = memo(function AttachmentPreview({
   attachments,
   onRemoveAttachment,
   onEditAttachment,
   grabbedElements,
   onRemoveGrabbedElement,
+  terminalContexts,
+  onRemoveTerminalContext,
 }: AttachmentPreviewProps) {
+  const [expandedTerminalId, setExpandedTerminalId] = useState<string | null>(null);
   const hasAttachments = attachments.length > 0;
   const hasGrabbedElements = grabbedElements.length > 0;
+  const hasTerminalContexts = terminalContexts.length > 0;
 
-  if (!hasAttachments && !hasGrabbedElements) return null;
+  if (!hasAttachments && !hasGrabbedElements && !hasTerminalContexts) return null;
 
   return (
     <>
@@ -102,6 +108,53 @@ export const AttachmentPreview = memo(function AttachmentPreview({
           ))}
         </div>
       )}
+
+      {/* Terminal output -- click to expand what will be sent */}
+      {hasTerminalContexts && (
+        <div className="flex flex-col gap-1.5 px-5 pb-2.5">
+          {terminalContexts.map((tc) => {
+            const expanded = expandedTerminalId === tc.id;
+            return (
+              <div
+                key={tc.id}
+                className="group/term relative rounded-xl border border-emerald-500/15 bg-emerald-500/5 shadow-sm transition-colors duration-150 hover:border-emerald-500/25"
+              >
+                <button
+                  type="button"
+                  onClick={() => setExpandedTerminalId(expanded ? null : tc.id)}
+                  className="flex w-full cursor-pointer items-center gap-2 px-3 py-1.5 text-start"
+                >
+                  {expanded ? (
+                    <ChevronDown className="h-3 w-3 shrink-0 text-foreground/40" />
+                  ) : (
+                    <ChevronRight className="h-3 w-3 shrink-0 text-foreground/40" />
+                  )}
+                  <SquareTerminal className="h-3.5 w-3.5 shrink-0 text-emerald-500" />
+                  <span className="text-[11px] font-medium text-foreground/80">
+                    {tc.label}{tc.selection ? " · selection" : ""}
+                  </span>
+                  <span className="text-[10px] text-muted-foreground">
+                    {tc.lineCount} line{tc.lineCount === 1 ? "" : "s"}{tc.truncated ? " · trimmed to fit" : ""}
+                  </span>
+                </button>
+                {expanded && (
+                  <pre className="max-h-48 overflow-auto border-t border-emerald-500/10 px-3 py-2 font-mono text-[10px] leading-relaxed text-foreground/70 whitespace-pre-wrap break-all">
+                    {tc.text}
+                  </pre>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon-xs"
+                  onClick={() => onRemoveTerminalContext(tc.id)}
+                  className="absolute -end-1 -top-1 size-4 rounded-full bg-background/90 text-muted-foreground opacity-0 shadow-sm transition-opacity hover:bg-background/95 hover:text-foreground group-hover/term:opacity-100"
+                >
+                  <X className="size-2.5" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </>
   );
 });
@@ -24,6 +24,7 @@ import {
 import type {
   ImageAttachment,
   GrabbedElement,
+  TerminalContextAttachment,
   ContextUsage,
   InstalledAgent,
   ACPConfigOption,
@@ -32,10 +33,13 @@ import type {
   ClaudeEffort,
   EngineId,
   SlashCommand,
+  CodexReviewTarget,
 } from "@/types";
 import { BOTTOM_CHAT_MAX_WIDTH_CLASS } from "@/lib/layout/constants";
 import { useSpeechRecognition } from "@/hooks/useSpeechRecognition";
 import { resolveModelValue } from "@/lib/model-utils";
+import { parseReviewCommand } from "@/lib/engine/codex-review";
+import { formatTerminalContext } from "@/lib/terminal-context";
 import { ImageAnnotationEditor } from "@/components/ImageAnnotationEditor";
 import { TOOLBAR_BTN } from "./constants";
 import {
@@ -60,6 +64,8 @@ import { useCommandAutocomplete } from "./CommandPicker";
 export interface InputBarProps {
   onSend: (text: string, images?: ImageAttachment[], displayText?: string) => void;
   onClear?: () => void | Promise<void>;
+  /** Codex `/review` — enables the local review command when set */
+  onReview?: (target: CodexReviewTarget) => void | Promise<void>;
   onStop: () => void;
   isProcessing: boolean;
   model: string;
@@ -109,6 +115,12 @@ export interface InputBarProps {
   grabbedElements?: GrabbedElement[];
   /** Remove a grabbed element by ID */
   onRemoveGrabbedElement?: (id: string) => void;
+  /** Terminal output attached via "Send to chat" or `@terminal` */
+  terminalContexts?: TerminalContextAttachment[];
+  /** Remove a terminal attachment by ID */
+  onRemoveTerminalContext?: (id: string) => void;
+  /** Attach the active terminal's recent output (`@terminal`) */
+  onMentionTerminal?: () => Promise<void>;
   /** Open ACP Agents settings */
   onManageACPs?: () => void;
 }
@@ -116,6 +128,7 @@ export interface InputBarProps {
 export const InputBar = memo(function InputBar({
   onSend,
   onClear,
+  onReview,
   onStop,
   isProcessing,
   model,
@@ -149,6 +162,9 @@ export const InputBar = memo(function InputBar({
   queuedCount = 0,
   grabbedElements,
   onRemoveGrabbedElement,
+  terminalContexts,
+  onRemoveTerminalContext,
+  onMentionTerminal,
   onManageACPs,
 }: InputBarProps) {
   // ── Core state ──
@@ -184,8 +200,8 @@ export const InputBar = memo(function InputBar({
   const isAwaitingAcpOptions = isACPAgent && !!acpConfigOptionsLoading;
 
   const availableSlashCommands = useMemo(
-    () => getAvailableSlashCommands(slashCommands),
-    [slashCommands],
+    () => getAvailableSlashCommands(slashCommands, { review: !!onReview }),
+    [slashCommands, onReview],
   );
 
   // ── Derived model state ──
@@ -234,7 +250,11 @@ export const InputBar = memo(function InputBar({
 
   // ── Mention & command autocomplete ──
 
-  const mention = useMentionAutocomplete({ projectPath, editableRef });
+  const handleMentionTerminal = useMemo(
+    () => (onMentionTerminal ? () => { void onMentionTerminal(); } : undefined),
+    [onMentionTerminal],
+  );
+  const mention = useMentionAutocomplete({ projectPath, editableRef, onMentionTerminal: handleMentionTerminal });
   const command = useCommandAutocomplete({ availableSlashCommands, editableRef });
 
   // ── Composer lifecycle ──
@@ -287,7 +307,7 @@ export const InputBar = memo(function InputBar({
       const trimmed = fullText.trim();
       const currentImages = attachments.length > 0 ? [...attachments] : undefined;
       const contextParts: string[] = [];
-      const grabbedElementDisplayTokens: string[] = [];
+      const contextDisplayTokens: string[] = [];
       let hasContext = false;
 
       // File mentions -> <file>/<folder> context blocks
@@ -342,7 +362,7 @@ export const InputBar = memo(function InputBar({
           ]
             .join("")
             .replace(/\]/g, "");
-          grabbedElementDisplayTokens.push(`[[element:${browserRef}]]`);
+          contextDisplayTokens.push(`[[element:${browserRef}]]`);
 
           const attrs = Object.entries(ge.attributes)
             .map(([k, v]) => `  ${k}="${esc(v)}"`)
@@ -366,14 +386,23 @@ export const InputBar = memo(function InputBar({
         hasContext = true;
       }
 
+      // Terminal attachments -> <terminal> context blocks
+      if (terminalContexts && terminalContexts.length > 0) {
+        for (const context of terminalContexts) {
+          contextParts.push(formatTerminalContext(context));
+          contextDisplayTokens.push(`[[terminal:${context.label.replace(/\]/g, "")}${context.selection ? " (selection)" : ""}]]`);
+        }
+        hasContext = true;
+      }
+
       if (hasContext) {
         const contextBlock = contextParts.join("\n\n");
         const fullMessage = contextBlock
           ? `${contextBlock}\n\n${trimmed}`
           : trimmed;
         const displayText =
-          grabbedElementDisplayTokens.length > 0
-            ? `${trimmed}${trimmed ? "\n\n" : ""}${grabbedElementDisplayTokens.join(" ")}`
+          contextDisplayTokens.length > 0
+            ? `${trimmed}${trimmed ? "\n\n" : ""}${contextDisplayTokens.join(" ")}`
             : trimmed;
         onSend(fullMessage, currentImages, displayText);
       } else {
@@ -382,7 +411,7 @@ export const InputBar = memo(function InputBar({
 
       clearComposer(el);
     },
-    [attachments, projectPath, onSend, clearComposer, grabbedElements],
+    [attachments, projectPath, onSend, clearComposer, grabbedElements, terminalContexts],
   );
 
   const handleSend = useCallback(async () => {
@@ -393,9 +422,10 @@ export const InputBar = memo(function InputBar({
       extractEditableContent(el);
     const trimmed = fullText.trim();
     const hasGrabs = (grabbedElements?.length ?? 0) > 0;
+    const hasTerminalContext = (terminalContexts?.length ?? 0) > 0;
     if (
       isAwaitingAcpOptions ||
-      (!trimmed && attachments.length === 0 && !hasGrabs) ||
+      (!trimmed && attachments.length === 0 && !hasGrabs && !hasTerminalContext) ||
       isSending
     )
       return;
@@ -409,6 +439,16 @@ export const InputBar = memo(function InputBar({
       return;
     }
 
+    const reviewTarget = onReview ? parseReviewCommand(trimmed) : null;
+    if (reviewTarget) {
+      try {
+        await onReview?.(reviewTarget);
+      } finally {
+        clearComposer(el);
+      }
+      return;
+    }
+
     // Check if we need to warn about deep folder size
     if (deepMentionPaths.size > 0 && projectPath) {
       try {
@@ -443,7 +483,9 @@ export const InputBar = memo(function InputBar({
     isSending,
     projectPath,
     onClear,
+    onReview,
     grabbedElements,
+    terminalContexts,
     performSend,
     clearComposer,
   ]);
@@ -707,7 +749,8 @@ export const InputBar = memo(function InputBar({
     isAwaitingAcpOptions ||
     ((!hasContent &&
       attachments.length === 0 &&
-      (!grabbedElements || grabbedElements.length === 0)) ||
+      (!grabbedElements || grabbedElements.length === 0) &&
+      (!terminalContexts || terminalContexts.length === 0)) ||
       isSending);
 
   return (
@@ -805,6 +848,8 @@ export const InputBar = memo(function InputBar({
           onEditAttachment={setEditingAttachment}
           grabbedElements={grabbedElements ?? []}
           onRemoveGrabbedElement={onRemoveGrabbedElement ?? (() => {})}
+          terminalContexts={terminalContexts ?? []}
+          onRemoveTerminalContext={onRemoveTerminalContext ?? (() => {})}
         />
 
         {editingAttachment && (
@@ -1,5 +1,5 @@
 import { memo } from "react";
-import { File, Folder } from "lucide-react";
+import { File, Folder, SquareTerminal } from "lucide-react";
 import type { MentionEntry } from "./useMentionAutocomplete";
 
 export interface MentionPickerProps {
@@ -10,7 +10,7 @@ export interface MentionPickerProps {
   onHover: (index: number) => void;
 }
 
-/** Autocomplete dropdown for @-mention file/folder references. */
+/** Autocomplete dropdown for @-mention file/folder references and `@terminal`. */
 export const MentionPicker = memo(function MentionPicker({
   results,
   mentionIndex,
@@ -27,7 +27,7 @@ export const MentionPicker = memo(function MentionPicker({
     >
       {results.map((entry, i) => (
         <button
-          key={entry.path}
+          key={`${entry.kind ?? "path"}:${entry.path}`}
           data-active={i === mentionIndex}
           className={`flex w-full items-center gap-2 px-3 py-1.5 text-start text-sm transition-colors ${
             i === mentionIndex
@@ -40,12 +40,22 @@ export const MentionPicker = memo(function MentionPicker({
           }}
           onMouseEnter={() => onHover(i)}
         >
-          {entry.isDir ? (
-            <Folder className="h-3.5 w-3.5 shrink-0 text-blue-400" />
+          {entry.kind === "terminal" ? (
+            <>
+              <SquareTerminal className="h-3.5 w-3.5 shrink-0 text-emerald-500" />
+              <span className="font-mono text-xs">terminal</span>
+              <span className="truncate text-[11px] text-muted-foreground">recent output of the active terminal</span>
+            </>
           ) : (
-            <File className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            <>
+              {entry.isDir ? (
+                <Folder className="h-3.5 w-3.5 shrink-0 text-blue-400" />
+              ) : (
+                <File className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+              )}
+              <span className="truncate font-mono text-xs">{entry.path}</span>
+            </>
           )}
-          <span className="truncate font-mono text-xs">{entry.path}</span>
         </button>
       ))}
     </div>
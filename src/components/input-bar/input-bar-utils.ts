@@ -165,14 +165,25 @@ export const LOCAL_CLEAR_COMMAND: SlashCommand = {
   source: "local",
 };
 
+export const LOCAL_REVIEW_COMMAND: SlashCommand = {
+  name: "review",
+  description: "Ask Codex to review uncommitted changes, a branch diff, or a commit",
+  argumentHint: "[branch <name> | commit <sha> | instructions]",
+  source: "local",
+};
+
 export function getAvailableSlashCommands(
   slashCommands?: SlashCommand[],
+  options?: { review?: boolean },
 ): SlashCommand[] {
+  const localCommands = options?.review
+    ? [LOCAL_CLEAR_COMMAND, LOCAL_REVIEW_COMMAND]
+    : [LOCAL_CLEAR_COMMAND];
   const commands =
     slashCommands?.filter(
-      (cmd) => cmd.name !== LOCAL_CLEAR_COMMAND.name,
+      (cmd) => !localCommands.some((local) => local.name === cmd.name),
     ) ?? [];
-  return [LOCAL_CLEAR_COMMAND, ...commands];
+  return [...localCommands, ...commands];
 }
 
 export function isClearCommandText(text: string): boolean {
@@ -191,8 +202,9 @@ export function getSlashCommandReplacement(cmd: SlashCommand): string {
     case "codex-app":
       return `$${cmd.appSlug ?? cmd.name} `;
     case "local":
-      // Local commands execute directly, so keep the exact command text with no trailing space.
-      return `/${cmd.name}`;
+      // Local commands execute directly, so keep the exact command text with no trailing
+      // space — unless they take optional arguments.
+      return cmd.argumentHint ? `/${cmd.name} ` : `/${cmd.name}`;
   }
 }
 
@@ -10,16 +10,23 @@ const FOLDER_ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24
 export interface MentionEntry {
   path: string;
   isDir: boolean;
+  /** `@terminal` — attaches the active terminal's output instead of inserting a chip */
+  kind?: "terminal";
 }
 
+const TERMINAL_MENTION: MentionEntry = { path: "terminal", isDir: false, kind: "terminal" };
+
 export interface UseMentionAutocompleteOptions {
   projectPath?: string;
   editableRef: React.RefObject<HTMLDivElement | null>;
+  /** Enables the `@terminal` entry */
+  onMentionTerminal?: () => void;
 }
 
 export function useMentionAutocomplete({
   projectPath,
   editableRef,
+  onMentionTerminal,
 }: UseMentionAutocompleteOptions) {
   const [showMentions, setShowMentions] = useState(false);
   const [mentionQuery, setMentionQuery] = useState("");
@@ -95,7 +102,7 @@ export function useMentionAutocomplete({
 
   // ── Filtered mention results (fixed: useMemo instead of useCallback) ──
 
-  const results = useMemo(() => {
+  const fileResults = useMemo(() => {
     if (!showMentions || !fileCache) return [];
 
     const q = mentionQuery;
@@ -138,6 +145,14 @@ export function useMentionAutocomplete({
       .slice(0, 12);
   }, [showMentions, fileCache, mentionQuery, editableRef]);
 
+  const results = useMemo(() => {
+    const showTerminal = showMentions
+      && !!onMentionTerminal
+      && !mentionQuery.startsWith("#")
+      && TERMINAL_MENTION.path.startsWith(mentionQuery.toLowerCase());
+    return showTerminal ? [TERMINAL_MENTION, ...fileResults] : fileResults;
+  }, [fileResults, mentionQuery, onMentionTerminal, showMentions]);
+
   // Clamp mention index when results shrink
   useEffect(() => {
     if (mentionIndex >= results.length) {
@@ -180,6 +195,13 @@ export function useMentionAutocomplete({
       const curRange = sel.getRangeAt(0);
       range.setEnd(curRange.startContainer, curRange.startOffset);
 
+      if (entry.kind === "terminal") {
+        range.deleteContents();
+        closeMentions();
+        onMentionTerminal?.();
+        return false;
+      }
+
       // Check if @# was used (deep folder mode)
       const deletedText = range.toString();
       const isDeepMode = deletedText.startsWith("@#");
@@ -219,7 +241,7 @@ export function useMentionAutocomplete({
       // Signal that content changed (caller should update hasContent)
       return true;
     },
-    [editableRef, closeMentions],
+    [editableRef, closeMentions, onMentionTerminal],
   );
 
   /** Detect @ trigger from the current cursor position in the contentEditable. */
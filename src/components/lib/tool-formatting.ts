@@ -2,6 +2,7 @@ import type { UIMessage, SubagentToolStep } from "@/types";
 import { getMcpCompactSummary } from "@/components/McpToolContent";
 import { getTodoItems } from "@/lib/chat/todo-utils";
 import { getDistinctPatchPaths, getStructuredPatches } from "@/lib/diff/patch-utils";
+import { parseCodexReview } from "@/lib/engine/codex-review";
 
 // ── Compact summary for collapsed tool line ──
 
@@ -22,6 +23,13 @@ export function formatCompactSummary(message: UIMessage): string {
   }
   if (toolName === "EnterPlanMode") return "";
 
+  // Codex review — target hint from enteredReviewMode, e.g. "current changes"
+  if (toolName === "CodexReview") {
+    const findingCount = typeof result?.content === "string" ? parseCodexReview(result.content).findings.length : 0;
+    const target = String(input.target ?? "code");
+    return findingCount > 0 ? `${target} · ${findingCount} ${findingCount === 1 ? "finding" : "findings"}` : target;
+  }
+
   // AskUserQuestion — show the full question text as compact summary
   if (toolName === "AskUserQuestion") {
     const questions = input.questions as Array<{ question: string; header: string }> | undefined;
@@ -199,13 +207,6 @@ export function formatInput(input: Record<string, unknown>): string {
   return JSON.stringify(input, null, 2);
 }
 
-/** Strip ANSI escape sequences (colors, cursor, reverse-video, etc.) from terminal output. */
-export function stripAnsi(text: string): string {
-  // Matches: ESC[ ... letter  |  ESC] ... ST  |  ESC(single char)
-  // eslint-disable-next-line no-control-regex
-  return text.replace(/\x1b\[[0-9;]*[A-Za-z]|\x1b\][^\x07]*(?:\x07|\x1b\\)|\x1b[()][A-Z0-9]|\x1b[A-Z@-_]/g, "");
-}
-
 export function formatBashResult(result: UIMessage["toolResult"]): string {
   if (!result) return "";
   const parts: string[] = [];
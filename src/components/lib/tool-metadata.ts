@@ -12,6 +12,7 @@ import {
   Map,
   MessageCircleQuestion,
   PackageSearch,
+  ScanSearch,
   Sparkles,
 } from "lucide-react";
 
@@ -34,6 +35,7 @@ export const TOOL_ICONS: Record<string, typeof Terminal> = {
   AskUserQuestion: MessageCircleQuestion,
   ToolSearch: PackageSearch,
   Skill: Sparkles,
+  CodexReview: ScanSearch,
 };
 
 export function getToolIcon(toolName: string) {
@@ -61,6 +63,7 @@ export const TOOL_LABELS: Record<string, ToolLabels> = {
   AskUserQuestion: { past: "Asked", active: "Asking", failure: "ask" },
   ToolSearch: { past: "Loaded tools", active: "Loading tools", failure: "load tools" },
   Skill: { past: "Loaded skill", active: "Loading skill", failure: "load skill" },
+  CodexReview: { past: "Reviewed", active: "Reviewing", failure: "review" },
 };
 
 // MCP tool friendly names — pattern-matched for different server name prefixes
@@ -140,6 +143,7 @@ export const TOOL_COLORS: Record<string, string> = {
   TodoWrite: "text-[#34d399]",
   Skill: "text-[#f0abfc]",
   ToolSearch: "text-[#818cf8]",
+  CodexReview: "text-[#fbbf24]",
 };
 
 export function getToolColor(toolName: string): string {
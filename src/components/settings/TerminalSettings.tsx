@@ -0,0 +1,413 @@
+import { memo, useState, useCallback, useEffect } from "react";
+import { ArrowLeft, History, Pencil, Plus, SquareTerminal, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { IconPicker } from "@/components/IconPicker";
+import { AgentIcon } from "@/components/AgentIcon";
+import { SettingRow, SettingsHeader, SettingsSection } from "@/components/settings/shared";
+import type { AppSettings, TerminalProfile } from "@/types";
+
+interface TerminalSettingsProps {
+  appSettings: AppSettings | null;
+  onUpdateAppSettings: (patch: Partial<AppSettings>) => Promise<void>;
+}
+
+interface FormState {
+  name: string;
+  shell: string;
+  /** One entry per argument, so values with spaces or quotes stay intact */
+  args: string[];
+  envPairs: Array<{ key: string; value: string }>;
+  cwd: string;
+  command: string;
+  icon: string;
+  iconType: "emoji" | "lucide";
+}
+
+// ── Helpers ──
+
+function profileToForm(profile?: TerminalProfile): FormState {
+  const icon = profile?.icon ?? "";
+  return {
+    name: profile?.name ?? "",
+    shell: profile?.shell ?? "",
+    args: profile?.args ?? [],
+    envPairs: profile?.env ? Object.entries(profile.env).map(([key, value]) => ({ key, value })) : [],
+    cwd: profile?.cwd ?? "",
+    command: profile?.command ?? "",
+    icon,
+    iconType: icon && /^\p{Emoji}/u.test(icon) ? "emoji" : "lucide",
+  };
+}
+
+function formToProfile(id: string, form: FormState): TerminalProfile {
+  const env = Object.fromEntries(
+    form.envPairs.filter((pair) => pair.key.trim()).map((pair) => [pair.key.trim(), pair.value]),
+  );
+  const args = form.args.filter((arg) => arg !== "");
+  return {
+    id,
+    name: form.name.trim(),
+    shell: form.shell.trim() || undefined,
+    args: args.length > 0 ? args : undefined,
+    env: Object.keys(env).length > 0 ? env : undefined,
+    cwd: form.cwd.trim() || undefined,
+    command: form.command.trim() || undefined,
+    icon: form.icon.trim() || undefined,
+  };
+}
+
+function FormField({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1.5">
+      <label className="text-[11px] font-medium uppercase tracking-wide text-muted-foreground">{label}</label>
+      {children}
+      {hint && <p className="text-[11px] text-muted-foreground/60">{hint}</p>}
+    </div>
+  );
+}
+
+// ── Profile Form ──
+
+function ProfileForm({
+  initial,
+  isEditing,
+  onSave,
+  onCancel,
+}: {
+  initial: FormState;
+  isEditing: boolean;
+  onSave: (form: FormState) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState<FormState>(initial);
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const updateField = useCallback(<K extends keyof FormState>(key: K, value: FormState[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+    if (key === "name") setNameError(null);
+  }, []);
+
+  const updateArg = useCallback((index: number, value: string) => {
+    setForm((prev) => ({ ...prev, args: prev.args.map((arg, i) => (i === index ? value : arg)) }));
+  }, []);
+
+  const updateEnvPair = useCallback((index: number, field: "key" | "value", value: string) => {
+    setForm((prev) => ({
+      ...prev,
+      envPairs: prev.envPairs.map((pair, i) => (i === index ? { ...pair, [field]: value } : pair)),
+    }));
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    if (!form.name.trim()) {
+      setNameError("Name is required");
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(form);
+      onCancel();
+    } finally {
+      setSaving(false);
+    }
+  }, [form, onCancel, onSave]);
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center gap-3 border-b border-foreground/[0.06] px-6 py-4">
+        <Button variant="ghost" size="icon-xs" onClick={onCancel}>
+          <ArrowLeft className="h-3.5 w-3.5" />
+        </Button>
+        <h2 className="flex-1 text-base font-semibold text-foreground">
+          {isEditing ? "Edit Profile" : "Add Profile"}
+        </h2>
+      </div>
+
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="space-y-5 px-6 py-5">
+          <FormField label="Name">
+            <Input
+              value={form.name}
+              onChange={(e) => updateField("name", e.target.value)}
+              placeholder="Dev Server"
+              aria-invalid={!!nameError}
+            />
+            {nameError && <p className="text-xs text-destructive">{nameError}</p>}
+          </FormField>
+
+          <FormField label="Shell" hint="Leave empty to use your default shell">
+            <Input
+              value={form.shell}
+              onChange={(e) => updateField("shell", e.target.value)}
+              placeholder="/bin/bash"
+              className="font-mono"
+            />
+          </FormField>
+
+          <FormField label="Arguments" hint="Passed to the shell as-is, one per row">
+            <div className="space-y-2">
+              {form.args.map((arg, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <Input
+                    value={arg}
+                    onChange={(e) => updateArg(i, e.target.value)}
+                    placeholder="--login"
+                    className="flex-1 font-mono"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon-xs"
+                    onClick={() => setForm((prev) => ({ ...prev, args: prev.args.filter((_, j) => j !== i) }))}
+                    className="shrink-0 text-muted-foreground hover:text-destructive"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm((prev) => ({ ...prev, args: [...prev.args, ""] }))}
+                className="text-xs"
+              >
+                <Plus className="h-3 w-3" />
+                Add argument
+              </Button>
+            </div>
+          </FormField>
+
+          <FormField label="Working Directory" hint="Relative to the project root; absolute paths are used as-is">
+            <Input
+              value={form.cwd}
+              onChange={(e) => updateField("cwd", e.target.value)}
+              placeholder="packages/web"
+              className="font-mono"
+            />
+          </FormField>
+
+          <FormField label="Startup Command" hint="Typed into the shell once it starts">
+            <Input
+              value={form.command}
+              onChange={(e) => updateField("command", e.target.value)}
+              placeholder="npm run dev"
+              className="font-mono"
+            />
+          </FormField>
+
+          <FormField label="Environment Variables">
+            <div className="space-y-2">
+              {form.envPairs.map((pair, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <Input
+                    value={pair.key}
+                    onChange={(e) => updateEnvPair(i, "key", e.target.value)}
+                    placeholder="KEY"
+                    className="flex-1 font-mono"
+                  />
+                  <span className="text-xs text-muted-foreground/40">=</span>
+                  <Input
+                    value={pair.value}
+                    onChange={(e) => updateEnvPair(i, "value", e.target.value)}
+                    placeholder="value"
+                    className="flex-1 font-mono"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon-xs"
+                    onClick={() => setForm((prev) => ({ ...prev, envPairs: prev.envPairs.filter((_, j) => j !== i) }))}
+                    className="shrink-0 text-muted-foreground hover:text-destructive"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm((prev) => ({ ...prev, envPairs: [...prev.envPairs, { key: "", value: "" }] }))}
+                className="text-xs"
+              >
+                <Plus className="h-3 w-3" />
+                Add variable
+              </Button>
+            </div>
+          </FormField>
+
+          <FormField label="Icon">
+            <IconPicker
+              value={form.icon}
+              iconType={form.iconType}
+              onChange={(icon, type) => setForm((prev) => ({ ...prev, icon, iconType: type }))}
+            />
+          </FormField>
+        </div>
+      </ScrollArea>
+
+      <div className="flex items-center justify-end gap-2 border-t border-foreground/[0.06] px-6 py-3">
+        <Button variant="outline" size="sm" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? "Saving..." : isEditing ? "Save Changes" : "Add Profile"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ── Component ──
+
+export const TerminalSettings = memo(function TerminalSettings({
+  appSettings,
+  onUpdateAppSettings,
+}: TerminalSettingsProps) {
+  const [persistentTerminals, setPersistentTerminals] = useState(false);
+  const [profiles, setProfiles] = useState<TerminalProfile[]>([]);
+  /** Profile being edited; `null` while adding a new one, `undefined` when the list is shown. */
+  const [editing, setEditing] = useState<TerminalProfile | null | undefined>(undefined);
+  const [deleteTarget, setDeleteTarget] = useState<TerminalProfile | null>(null);
+
+  useEffect(() => {
+    if (appSettings) {
+      setPersistentTerminals(!!appSettings.persistentTerminals);
+      setProfiles(appSettings.terminalProfiles ?? []);
+    }
+  }, [appSettings]);
+
+  const handlePersistentTerminalsToggle = useCallback(
+    async (checked: boolean) => {
+      setPersistentTerminals(checked);
+      await onUpdateAppSettings({ persistentTerminals: checked });
+    },
+    [onUpdateAppSettings],
+  );
+
+  const handleSaveProfile = useCallback(
+    async (form: FormState) => {
+      const id = editing?.id ?? crypto.randomUUID();
+      const profile = formToProfile(id, form);
+      const next = editing
+        ? profiles.map((p) => (p.id === id ? profile : p))
+        : [...profiles, profile];
+      setProfiles(next);
+      await onUpdateAppSettings({ terminalProfiles: next });
+    },
+    [editing, onUpdateAppSettings, profiles],
+  );
+
+  const handleDeleteProfile = useCallback(async () => {
+    if (!deleteTarget) return;
+    const next = profiles.filter((p) => p.id !== deleteTarget.id);
+    // Projects that defaulted to it fall back to the plain shell
+    const defaults = Object.fromEntries(
+      Object.entries(appSettings?.defaultTerminalProfiles ?? {}).filter(([, profileId]) => profileId !== deleteTarget.id),
+    );
+    setProfiles(next);
+    await onUpdateAppSettings({ terminalProfiles: next, defaultTerminalProfiles: defaults });
+  }, [appSettings, deleteTarget, onUpdateAppSettings, profiles]);
+
+  if (editing !== undefined) {
+    return (
+      <ProfileForm
+        initial={profileToForm(editing ?? undefined)}
+        isEditing={editing !== null}
+        onSave={handleSaveProfile}
+        onCancel={() => setEditing(undefined)}
+      />
+    );
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <SettingsHeader
+        title="Terminal"
+        description="Terminal profiles and session persistence"
+      />
+
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="px-6 py-2">
+          <SettingsSection icon={History} label="Sessions" first>
+            <SettingRow
+              label="Persistent terminals"
+              description="Save each terminal's directory, environment, launch command and scrollback (encrypted), and reopen them on the next launch with the previous output shown dimmed. Launch commands are typed at the prompt but only run when you press Enter."
+            >
+              <Switch
+                checked={persistentTerminals}
+                onCheckedChange={handlePersistentTerminalsToggle}
+              />
+            </SettingRow>
+          </SettingsSection>
+
+          <SettingsSection icon={SquareTerminal} label="Profiles">
+            <p className="mb-3 text-xs text-muted-foreground">
+              Pick a profile from the new-tab button in the Terminal panel, or make one the default for a project there.
+            </p>
+            <div className="space-y-2">
+              {profiles.map((profile) => (
+                <div
+                  key={profile.id}
+                  className="group flex items-center gap-3 rounded-lg border border-foreground/[0.06] px-4 py-3 transition-colors hover:border-foreground/[0.1]"
+                >
+                  <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-md bg-muted/40 text-foreground/60">
+                    <AgentIcon icon={profile.icon || "Terminal"} />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium text-foreground">{profile.name}</p>
+                    <p className="truncate font-mono text-[11px] text-muted-foreground/70">
+                      {[profile.shell ?? "default shell", ...(profile.args ?? [])].join(" ")}
+                      {profile.cwd ? ` · ${profile.cwd}` : ""}
+                      {profile.command ? ` · ${profile.command}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button variant="ghost" size="icon-xs" onClick={() => setEditing(profile)}>
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent side="top" className="text-xs">Edit</TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon-xs"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setDeleteTarget(profile)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent side="top" className="text-xs">Delete</TooltipContent>
+                    </Tooltip>
+                  </div>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setEditing(null)} className="text-xs">
+                <Plus className="h-3 w-3" />
+                Add Profile
+              </Button>
+            </div>
+          </SettingsSection>
+        </div>
+      </ScrollArea>
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        onOpenChange={(open) => { if (!open) setDeleteTarget(null); }}
+        onConfirm={() => void handleDeleteProfile()}
+        title={`Delete ${deleteTarget?.name ?? "profile"}?`}
+        description="Open terminals keep running. Projects that used it as their default go back to the default shell."
+        confirmLabel="Delete"
+        confirmVariant="destructive"
+      />
+    </div>
+  );
+});
@@ -0,0 +1,346 @@
+import { memo, useState, useEffect, useMemo } from "react";
+import { Gauge, Loader2, RefreshCw, ShieldAlert, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { SettingRow, SettingsHeader, SettingsSection, SettingsSelect } from "@/components/settings/shared";
+import { refreshCodexRateLimits, useCodexRateLimits } from "@/hooks/useCodexRateLimits";
+import { getTodayBudgetUsage, useBudgetLedgerStore } from "@/hooks/session/useBudgetGuard";
+import { useSettingsStore } from "@/stores/settings-store";
+import {
+  BUDGET_METRICS,
+  BUDGET_SCOPES,
+  formatBudgetValue,
+  type BudgetMetric,
+  type BudgetScope,
+} from "@/lib/session/budget";
+import {
+  formatRateLimitReset,
+  formatRateLimitWindow,
+  getRateLimitLevel,
+  type RateLimitLevel,
+} from "@/lib/engine/codex-rate-limits";
+import { formatUsd, summarizeSpend, type UsageBucket } from "@/lib/session/usage";
+import type { SessionMeta as SessionListItem } from "@shared/lib/session-persistence";
+import type { CodexRateLimitSnapshot, CodexRateLimitWindow } from "@/types";
+
+type SpendWindow = "7" | "14" | "30";
+
+const SPEND_WINDOW_OPTIONS: Array<{ value: SpendWindow; label: string }> = [
+  { value: "7", label: "Last 7 days" },
+  { value: "14", label: "Last 14 days" },
+  { value: "30", label: "Last 30 days" },
+];
+
+const WARN_AT_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: "50", label: "50%" },
+  { value: "70", label: "70%" },
+  { value: "80", label: "80%" },
+  { value: "90", label: "90%" },
+];
+
+const BUDGET_SCOPE_LABELS: Record<BudgetScope, string> = {
+  session: "Per chat",
+  project: "Per project / day",
+  day: "All projects / day",
+};
+
+const BUDGET_METRIC_LABELS: Record<BudgetMetric, string> = {
+  costUsd: "Cost (USD)",
+  tokens: "Tokens",
+  turns: "Turns",
+  minutes: "Agent time (min)",
+};
+
+const LEVEL_BAR_CLASSES: Record<RateLimitLevel, string> = {
+  ok: "bg-emerald-500/70",
+  warning: "bg-amber-500/80",
+  critical: "bg-red-500/80",
+};
+
+// ── Subcomponents ──
+
+function RateLimitWindowRow({ label, window }: { label: string; window: CodexRateLimitWindow }) {
+  const percent = Math.min(100, Math.max(0, window.usedPercent));
+  const reset = formatRateLimitReset(window.resetsAt);
+  return (
+    <div className="space-y-1 py-1.5">
+      <div className="flex items-center justify-between gap-4 text-xs">
+        <span className="text-foreground/80">
+          {label} <span className="text-muted-foreground">· {formatRateLimitWindow(window.windowDurationMins)}</span>
+        </span>
+        <span className="font-mono text-muted-foreground">
+          {Math.round(percent)}%{reset ? ` · ${reset}` : ""}
+        </span>
+      </div>
+      <div className="h-1.5 overflow-hidden rounded-full bg-foreground/[0.06]">
+        <div
+          className={`h-full rounded-full transition-[width] ${LEVEL_BAR_CLASSES[getRateLimitLevel(percent)]}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+function RateLimitSnapshotCard({ snapshot }: { snapshot: CodexRateLimitSnapshot }) {
+  const credits = snapshot.credits;
+  return (
+    <div className="rounded-md bg-foreground/[0.03] px-3 py-2">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs font-medium text-foreground">
+          {snapshot.limitName ?? snapshot.limitId ?? "Codex"}
+        </p>
+        {snapshot.planType && (
+          <span className="rounded bg-foreground/[0.06] px-1.5 py-px text-[10px] uppercase tracking-wide text-muted-foreground">
+            {snapshot.planType}
+          </span>
+        )}
+      </div>
+      {snapshot.primary && <RateLimitWindowRow label="Primary" window={snapshot.primary} />}
+      {snapshot.secondary && <RateLimitWindowRow label="Secondary" window={snapshot.secondary} />}
+      {!snapshot.primary && !snapshot.secondary && (
+        <p className="py-1.5 text-xs text-muted-foreground">No metered windows reported.</p>
+      )}
+      {credits && (
+        <div className="mt-1 flex items-center justify-between border-t border-foreground/[0.04] pt-1.5 text-xs">
+          <span className="text-muted-foreground">Credits</span>
+          <span className="font-mono text-foreground/80">
+            {credits.unlimited ? "Unlimited" : credits.hasCredits ? credits.balance ?? "Available" : "None"}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SpendBreakdown({ title, buckets }: { title: string; buckets: UsageBucket[] }) {
+  if (buckets.length === 0) return null;
+  return (
+    <div className="mt-3">
+      <p className="mb-1 text-xs font-medium text-foreground">{title}</p>
+      <div className="space-y-0.5">
+        {buckets.map((bucket) => (
+          <div key={bucket.key} className="flex items-center justify-between gap-4 text-xs">
+            <span className="min-w-0 truncate text-foreground/80">{bucket.label}</span>
+            <span className="shrink-0 font-mono text-muted-foreground">
+              {formatUsd(bucket.cost)} · {bucket.sessions} {bucket.sessions === 1 ? "chat" : "chats"}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function DailySpendChart({ days }: { days: UsageBucket[] }) {
+  const max = Math.max(...days.map((d) => d.cost), 0);
+  return (
+    <div className="mt-2 flex h-20 items-end gap-[3px]">
+      {days.map((day) => (
+        <div
+          key={day.key}
+          className="group relative flex h-full flex-1 items-end"
+          title={`${day.label}: ${formatUsd(day.cost)} across ${day.sessions} ${day.sessions === 1 ? "chat" : "chats"}`}
+        >
+          <div
+            className="w-full rounded-sm bg-foreground/25 transition-colors group-hover:bg-foreground/50"
+            style={{ height: max > 0 ? `${Math.max(2, (day.cost / max) * 100)}%` : "2px" }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function BudgetLimitInput({ scope, metric }: { scope: BudgetScope; metric: BudgetMetric }) {
+  const limit = useSettingsStore((s) => s.budgets[scope][metric]);
+  const setBudgets = useSettingsStore((s) => s.setBudgets);
+  const [draft, setDraft] = useState(limit == null ? "" : String(limit));
+
+  useEffect(() => {
+    setDraft(limit == null ? "" : String(limit));
+  }, [limit]);
+
+  const commit = (value: string) => {
+    const parsed = Number(value.trim());
+    const next = value.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+    if (next === limit) {
+      setDraft(next == null ? "" : String(next));
+      return;
+    }
+    setBudgets((prev) => ({ ...prev, [scope]: { ...prev[scope], [metric]: next } }));
+  };
+
+  return (
+    <input
+      type="number"
+      min={0}
+      step={metric === "costUsd" ? 0.5 : 1}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={(e) => commit(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit(e.currentTarget.value);
+      }}
+      placeholder="—"
+      className="h-7 w-full rounded-md border border-foreground/10 bg-background px-2 text-end font-mono text-xs text-foreground outline-none transition-colors placeholder:text-muted-foreground hover:border-foreground/20 focus:border-foreground/30 focus:ring-1 focus:ring-foreground/20"
+    />
+  );
+}
+
+function BudgetsSection() {
+  const budgets = useSettingsStore((s) => s.budgets);
+  const setBudgets = useSettingsStore((s) => s.setBudgets);
+  // Re-render when the ledger changes so today's totals stay current
+  useBudgetLedgerStore((s) => s.days);
+  const today = getTodayBudgetUsage(null).day;
+
+  return (
+    <SettingsSection icon={ShieldAlert} label="Budgets">
+      <SettingRow
+        label="Enforce budgets"
+        description="Warn when a limit is nearly used and pause the active chat when it is reached. Resume from the pause message to keep going."
+      >
+        <Switch
+          checked={budgets.enabled}
+          onCheckedChange={(enabled) => setBudgets((prev) => ({ ...prev, enabled }))}
+        />
+      </SettingRow>
+      <SettingRow label="Warn at" description="Show a heads-up once any limit reaches this share.">
+        <SettingsSelect
+          value={String(budgets.warnAtPercent)}
+          onValueChange={(value) => setBudgets((prev) => ({ ...prev, warnAtPercent: Number(value) }))}
+          options={WARN_AT_OPTIONS}
+        />
+      </SettingRow>
+      <div className="grid grid-cols-[minmax(0,1fr)_repeat(3,6.5rem)] items-center gap-x-2 gap-y-1.5 py-2 text-xs">
+        <span />
+        {BUDGET_SCOPES.map((scope) => (
+          <span key={scope} className="text-end text-muted-foreground">{BUDGET_SCOPE_LABELS[scope]}</span>
+        ))}
+        {BUDGET_METRICS.map((metric) => (
+          <div key={metric} className="contents">
+            <span className="text-foreground/80">{BUDGET_METRIC_LABELS[metric]}</span>
+            {BUDGET_SCOPES.map((scope) => (
+              <BudgetLimitInput key={scope} scope={scope} metric={metric} />
+            ))}
+          </div>
+        ))}
+      </div>
+      <p className="pb-2 text-xs text-muted-foreground">
+        Leave a field empty for no limit. Tokens are approximated from each turn's usage report; budgets apply to the
+        chat in view. Today so far: {BUDGET_METRICS.map((metric) => formatBudgetValue(metric, today[metric])).join(" · ")}.
+      </p>
+    </SettingsSection>
+  );
+}
+
+// ── Component ──
+
+export const UsageSettings = memo(function UsageSettings() {
+  const { snapshot, byLimitId, updatedAt, loading, error } = useCodexRateLimits({ spawn: true });
+  const [spendWindow, setSpendWindow] = useState<SpendWindow>("14");
+  const [sessions, setSessions] = useState<SessionListItem[] | null>(null);
+  const [projectNames, setProjectNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const projects = await window.claude.projects.list();
+      const lists = await Promise.all(projects.map((p) => window.claude.sessions.list(p.id).catch(() => [])));
+      if (cancelled) return;
+      setProjectNames(Object.fromEntries(projects.map((p) => [p.id, p.name])));
+      setSessions(lists.flat());
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const spend = useMemo(
+    () => (sessions ? summarizeSpend(sessions, projectNames, { days: Number(spendWindow) }) : null),
+    [sessions, projectNames, spendWindow],
+  );
+
+  const limitSnapshots = Object.keys(byLimitId).length > 0
+    ? Object.values(byLimitId)
+    : snapshot ? [snapshot] : [];
+
+  return (
+    <div className="flex h-full flex-col">
+      <SettingsHeader title="Usage" description="Rate limits, credits, spend and budgets across your engines" />
+
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="px-6 py-2">
+          {/* ── Codex rate limits ── */}
+          <SettingsSection icon={Gauge} label="Codex Rate Limits" first>
+            <div className="flex items-center justify-between gap-4 py-2">
+              <p className="text-xs text-muted-foreground">
+                {updatedAt
+                  ? `Updated ${new Date(updatedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+                  : "Codex reports limits for ChatGPT-authenticated accounts."}
+              </p>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1.5 text-xs"
+                disabled={loading}
+                onClick={() => void refreshCodexRateLimits({ spawn: true })}
+              >
+                {loading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+                Refresh
+              </Button>
+            </div>
+            {error && <p className="pb-2 text-xs text-red-400">{error}</p>}
+            {limitSnapshots.length > 0 ? (
+              <div className="space-y-2 pb-2">
+                {limitSnapshots.map((s, i) => (
+                  <RateLimitSnapshotCard key={s.limitId ?? i} snapshot={s} />
+                ))}
+              </div>
+            ) : (
+              !loading && !error && (
+                <p className="pb-2 text-xs text-muted-foreground">No rate limit data yet.</p>
+              )
+            )}
+          </SettingsSection>
+
+          {/* ── Spend ── */}
+          <SettingsSection icon={Wallet} label="Spend">
+            <div className="flex items-center justify-between gap-4 py-2">
+              <p className="text-xs text-muted-foreground">
+                Aggregated from saved chats. Claude reports cost per turn; Codex and ACP agents don't report spend.
+              </p>
+              <SettingsSelect value={spendWindow} onValueChange={setSpendWindow} options={SPEND_WINDOW_OPTIONS} />
+            </div>
+            {!spend ? (
+              <div className="flex items-center gap-2 py-2 text-xs text-muted-foreground">
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                Loading chats…
+              </div>
+            ) : (
+              <div className="pb-2">
+                <div className="flex gap-6">
+                  <div>
+                    <p className="text-[11px] text-muted-foreground">Today</p>
+                    <p className="font-mono text-sm text-foreground">{formatUsd(spend.todayCost)}</p>
+                  </div>
+                  <div>
+                    <p className="text-[11px] text-muted-foreground">Total</p>
+                    <p className="font-mono text-sm text-foreground">{formatUsd(spend.totalCost)}</p>
+                  </div>
+                </div>
+                <DailySpendChart days={spend.byDay} />
+                <SpendBreakdown title="By engine" buckets={spend.byEngine} />
+                <SpendBreakdown title="By project" buckets={spend.byProject} />
+              </div>
+            )}
+          </SettingsSection>
+
+          <BudgetsSection />
+        </div>
+      </ScrollArea>
+    </div>
+  );
+});
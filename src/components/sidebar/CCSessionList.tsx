@@ -4,7 +4,7 @@ import { DropdownMenuItem } from "@/components/ui/dropdown-menu";
 import type { CCSessionInfo } from "@/types";
 import { captureException } from "@/lib/analytics/analytics";
 
-function formatRelativeDate(isoString: string): string {
+export function formatRelativeDate(isoString: string): string {
   const date = new Date(isoString);
   const now = Date.now();
   const diffMs = now - date.getTime();
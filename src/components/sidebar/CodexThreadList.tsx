@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Archive, ArchiveRestore, Loader2 } from "lucide-react";
+import {
+  DropdownMenuCheckboxItem,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import type { CodexThread } from "@/types";
+import { captureException } from "@/lib/analytics/analytics";
+import { formatRelativeDate } from "./CCSessionList";
+
+function describeSource(source: CodexThread["source"]): string {
+  if (typeof source !== "string") return "sub-agent";
+  switch (source) {
+    case "cli":
+      return "CLI";
+    case "vscode":
+      return "VS Code";
+    case "exec":
+      return "exec";
+    case "appServer":
+      return "app";
+    default:
+      return "Codex";
+  }
+}
+
+export function CodexThreadList({
+  projectPath,
+  onSelect,
+}: {
+  projectPath: string;
+  onSelect: (threadId: string) => void;
+}) {
+  const [threads, setThreads] = useState<CodexThread[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  /** Latest page request — responses to earlier ones (another project or list) are dropped. */
+  const requestIdRef = useRef(0);
+
+  const loadPage = useCallback(
+    async (cursor: string | null) => {
+      const requestId = ++requestIdRef.current;
+      setLoading(true);
+      try {
+        const result = await window.claude.codex.listThreads({ cwd: projectPath, archived: showArchived, cursor });
+        if (requestId !== requestIdRef.current) return;
+        setError(result.error ?? null);
+        setThreads((prev) => (cursor ? [...prev, ...result.threads] : result.threads));
+        setNextCursor(result.nextCursor);
+      } catch (err) {
+        captureException(err instanceof Error ? err : new Error(String(err)), { label: "CODEX_THREAD_LIST_ERR" });
+      } finally {
+        if (requestId === requestIdRef.current) setLoading(false);
+      }
+    },
+    [projectPath, showArchived],
+  );
+
+  useEffect(() => {
+    setThreads([]);
+    void loadPage(null);
+  }, [loadPage]);
+
+  const toggleArchived = useCallback(
+    async (threadId: string) => {
+      const result = await window.claude.codex.setThreadArchived(projectPath, threadId, !showArchived);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      // Archived and active threads live in separate lists — drop it from this one
+      setThreads((prev) => prev.filter((t) => t.id !== threadId));
+    },
+    [projectPath, showArchived],
+  );
+
+  return (
+    <>
+      <DropdownMenuCheckboxItem
+        checked={showArchived}
+        onCheckedChange={(checked) => setShowArchived(checked === true)}
+        onSelect={(e) => e.preventDefault()}
+        className="text-xs"
+      >
+        Show archived
+      </DropdownMenuCheckboxItem>
+      <DropdownMenuSeparator />
+
+      {error && <p className="px-3 py-2 text-xs text-destructive">{error}</p>}
+
+      {threads.map((t) => (
+        <DropdownMenuItem
+          key={t.id}
+          onClick={() => onSelect(t.id)}
+          className="group flex items-start gap-2 py-2"
+          title={t.preview}
+        >
+          <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+            <span className="line-clamp-2 text-sm">{t.name || t.preview || "Untitled thread"}</span>
+            <span className="text-xs text-muted-foreground">
+              {formatRelativeDate(new Date(t.updatedAt * 1000).toISOString())} · {describeSource(t.source)}
+              {t.gitInfo?.branch ? ` · ${t.gitInfo.branch}` : ""}
+            </span>
+          </div>
+          <button
+            type="button"
+            className="mt-0.5 shrink-0 rounded p-0.5 text-muted-foreground/50 opacity-0 transition-opacity hover:text-foreground group-hover:opacity-100"
+            title={showArchived ? "Unarchive in Codex" : "Archive in Codex"}
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              void toggleArchived(t.id);
+            }}
+          >
+            {showArchived ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+          </button>
+        </DropdownMenuItem>
+      ))}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : threads.length === 0 ? (
+        !error && (
+          <p className="px-3 py-2 text-xs text-muted-foreground">
+            {showArchived ? "No archived Codex threads" : "No Codex threads found"}
+          </p>
+        )
+      ) : nextCursor ? (
+        <DropdownMenuItem
+          onSelect={(e) => {
+            e.preventDefault();
+            void loadPage(nextCursor);
+          }}
+          className="justify-center text-xs text-muted-foreground"
+        >
+          Load more
+        </DropdownMenuItem>
+      ) : null}
+    </>
+  );
+}
@@ -11,6 +11,7 @@ import {
   KanbanSquare,
   ChevronRight,
   ChevronDown,
+  FileInput,
   History,
   ArrowRightLeft,
   Smile,
@@ -39,6 +40,7 @@ import { IconPicker } from "@/components/IconPicker";
 import type { ChatFolder, ChatSession, InstalledAgent, Project, Space } from "@/types";
 import { SessionItem } from "./SessionItem";
 import { CCSessionList } from "./CCSessionList";
+import { CodexThreadList } from "./CodexThreadList";
 import { PinnedSection } from "./PinnedSection";
 import { FolderSection } from "./FolderSection";
 import { BranchSection } from "./BranchSection";
@@ -66,6 +68,8 @@ export function ProjectSection({
   onRenameProject,
   onUpdateIcon,
   onImportCCSession,
+  onImportCodexThread,
+  onImportSessionFile,
   otherSpaces,
   onMoveToSpace,
   defaultChatLimit,
@@ -91,6 +95,8 @@ export function ProjectSection({
   onRenameProject: (name: string) => void;
   onUpdateIcon: (icon: string | null, iconType: "emoji" | "lucide" | null) => void;
   onImportCCSession: (ccSessionId: string) => void;
+  onImportCodexThread: (threadId: string) => void;
+  onImportSessionFile: (mode: "resumable" | "readOnly") => void;
   otherSpaces: Space[];
   onMoveToSpace: (spaceId: string) => void;
   defaultChatLimit: number;
@@ -403,6 +409,29 @@ export function ProjectSection({
                   <CCSessionList projectPath={project.path} onSelect={onImportCCSession} />
                 </DropdownMenuSubContent>
               </DropdownMenuSub>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <History className="me-2 h-3.5 w-3.5" />
+                  Resume Codex Chat
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="max-h-80 w-72 overflow-y-auto">
+                  <CodexThreadList projectPath={project.path} onSelect={onImportCodexThread} />
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <FileInput className="me-2 h-3.5 w-3.5" />
+                  Import Chat File
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="w-52">
+                  <DropdownMenuItem onClick={() => onImportSessionFile("resumable")}>
+                    Resumable…
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onImportSessionFile("readOnly")}>
+                    Read-only…
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
               {otherSpaces.length > 0 && (
                 <DropdownMenuSub>
                   <DropdownMenuSubTrigger>
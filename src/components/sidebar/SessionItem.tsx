@@ -1,7 +1,8 @@
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
 import { useInlineRename } from "@/hooks/useInlineRename";
 import {
   Columns2,
+  Download,
   Pencil,
   Trash2,
   MoreHorizontal,
@@ -10,6 +11,8 @@ import {
   PinOff,
   FolderInput,
   FolderMinus,
+  GitFork,
+  Lock,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -24,6 +27,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import type { ChatFolder, ChatSession, InstalledAgent } from "@/types";
 import { AgentIcon } from "@/components/AgentIcon";
+import { ExportChatDialog } from "@/components/ExportChatDialog";
 import { getSessionEngineIcon } from "@/lib/engine-icons";
 import {
   writeSidebarDragPayload,
@@ -70,6 +74,7 @@ export function SessionItem({
     handleContextMenu, handleMenuButtonClick,
     triggerStyle, containerRef,
   } = useContextMenuPosition();
+  const [exportOpen, setExportOpen] = useState(false);
 
   const handleDragStart = useCallback(
     (e: React.DragEvent) => {
@@ -143,6 +148,11 @@ export function SessionItem({
             {session.pinned && (
               <Pin className="absolute -end-1 -top-1 h-2 w-2 text-sidebar-foreground/40" />
             )}
+            {session.readOnly ? (
+              <Lock className="absolute -end-1 -bottom-1 h-2 w-2 text-sidebar-foreground/40" />
+            ) : session.parentSessionId && (
+              <GitFork className="absolute -end-1 -bottom-1 h-2 w-2 text-sidebar-foreground/40" />
+            )}
           </span>
         )}
         {session.titleGenerating ? (
@@ -235,6 +245,10 @@ export function SessionItem({
             <Pencil className="me-2 h-3.5 w-3.5" />
             Rename
           </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setExportOpen(true)}>
+            <Download className="me-2 h-3.5 w-3.5" />
+            Export…
+          </DropdownMenuItem>
           <DropdownMenuItem
             className="text-destructive focus:text-destructive"
             onClick={onDelete}
@@ -244,6 +258,16 @@ export function SessionItem({
           </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
+
+      {exportOpen && (
+        <ExportChatDialog
+          open={exportOpen}
+          onOpenChange={setExportOpen}
+          projectId={session.projectId}
+          sessionId={session.id}
+          title={session.title}
+        />
+      )}
     </div>
   );
 }
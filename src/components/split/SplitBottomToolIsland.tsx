@@ -130,7 +130,7 @@ function renderIslandContent(
       }}
     >
       <ToolIslandContent
-        toolId={island.toolId as Extract<ToolId, "terminal" | "browser" | "git" | "files" | "project-files" | "mcp">}
+        toolId={island.toolId as Extract<ToolId, "terminal" | "browser" | "git" | "files" | "project-files" | "mcp" | "task-runner">}
         persistKey={island.persistKey}
         headerControls={controls}
         projectPath={paneProjectPath}
@@ -20,11 +20,12 @@ import type { ToolId } from "@/types/tools";
 import { ChatHeader } from "@/components/ChatHeader";
 import { ChatView } from "@/components/ChatView";
 import { BottomComposer } from "@/components/BottomComposer";
+import { ReadOnlyChatNotice } from "@/components/ReadOnlyChatNotice";
 import { TodoPanel } from "@/components/TodoPanel";
 import { BackgroundAgentsPanel } from "@/components/BackgroundAgentsPanel";
 import { SplitPaneToolStrip } from "@/components/split/SplitPaneToolStrip";
 import type { CodexModelSummary } from "@/hooks/session/types";
-import type { GrabbedElement } from "@/types";
+import type { GrabbedElement, TerminalContextAttachment } from "@/types";
 import type { SplitViewState } from "@/hooks/useSplitView";
 import { getChatPaneMinWidthPx } from "@/lib/layout/workspace-constraints";
 
@@ -69,6 +70,9 @@ export interface SplitChatPaneProps {
   // Grabbed elements (active pane only)
   grabbedElements: GrabbedElement[];
   onRemoveGrabbedElement: (id: string) => void;
+  terminalContexts: TerminalContextAttachment[];
+  onRemoveTerminalContext: (id: string) => void;
+  onMentionTerminal?: () => Promise<void>;
 
   // Locked engine
   lockedEngine: EngineId | null;
@@ -86,6 +90,7 @@ export interface SplitChatPaneProps {
   spaceId: string;
   onRevert?: (checkpointId: string) => void;
   onFullRevert?: (checkpointId: string) => void;
+  onFork?: (messageId: string) => void;
   onTopScrollProgress: (progress: number) => void;
   onClosePane: () => void;
   onFocus: () => void;
@@ -149,6 +154,9 @@ function SplitChatPaneInner({
   onSeedDevExampleSpaceData,
   grabbedElements,
   onRemoveGrabbedElement,
+  terminalContexts,
+  onRemoveTerminalContext,
+  onMentionTerminal,
   lockedEngine,
   lockedAgentId,
   projectPath,
@@ -158,6 +166,7 @@ function SplitChatPaneInner({
   spaceId,
   onRevert,
   onFullRevert,
+  onFork,
   onTopScrollProgress,
   onClosePane,
   onFocus,
@@ -188,7 +197,7 @@ function SplitChatPaneInner({
 
   const openPanelTools = useMemo(() => {
     return new Set<ToolId>((
-      ["terminal", "browser", "git", "files", "project-files", "mcp"] as const
+      ["terminal", "browser", "git", "files", "project-files", "mcp", "task-runner"] as const
     ).filter((toolId) => !!splitView.getToolIslandForPane(sessionId, toolId)));
   }, [sessionId, splitView]);
 
@@ -238,6 +247,7 @@ function SplitChatPaneInner({
               planMode={paneController.panePlanMode}
               permissionMode={paneController.panePermissionMode}
               acpPermissionBehavior={paneController.paneEngine === "acp" ? acpPermissionBehavior : undefined}
+              engine={paneController.paneEngine}
               onToggleSidebar={displayIndex === 0 ? onToggleSidebar : () => {}}
               showDevFill={isActiveSessionPane ? showDevFill : false}
               onSeedDevExampleConversation={isActiveSessionPane ? onSeedDevExampleConversation : undefined}
@@ -254,6 +264,7 @@ function SplitChatPaneInner({
             sessionId={sessionId}
             onRevert={onRevert}
             onFullRevert={onFullRevert}
+            onFork={onFork}
             onTopScrollProgress={onTopScrollProgress}
           />
           <div
@@ -261,49 +272,57 @@ function SplitChatPaneInner({
             style={{ opacity: chatFadeStrength, background: bottomFadeBackground }}
           />
           <div data-chat-composer className="pointer-events-none absolute inset-x-0 bottom-0 z-10">
-            <BottomComposer
-              pendingPermission={paneState.pendingPermission}
-              onRespondPermission={paneState.engine.respondPermission}
-              onSend={paneController.handlePaneSend}
-              onClear={paneController.handlePaneClear}
-              onStop={paneController.handlePaneStop}
-              isProcessing={paneState.isProcessing}
-              queuedCount={isActiveSessionPane ? queuedCount : 0}
-              model={paneController.paneModel}
-              claudeEffort={paneController.paneClaudeEffort}
-              planMode={paneController.panePlanMode}
-              permissionMode={paneController.panePermissionMode}
-              onModelChange={paneController.handlePaneModelChange}
-              onClaudeModelEffortChange={paneController.handlePaneClaudeModelEffortChange}
-              onPlanModeChange={paneController.handlePanePlanModeChange}
-              onPermissionModeChange={paneController.handlePanePermissionModeChange}
-              projectPath={projectPath}
-              contextUsage={paneState.contextUsage}
-              isCompacting={paneState.isCompacting}
-              onCompact={paneState.engine.compact}
-              agents={agents}
-              selectedAgent={paneController.selectedPaneAgent}
-              onAgentChange={paneController.handlePaneAgentChange}
-              slashCommands={paneController.paneSlashCommands}
-              acpConfigOptions={paneController.paneAcpConfigOptions}
-              acpConfigOptionsLoading={paneController.paneAcpConfigOptionsLoading}
-              onACPConfigChange={paneController.handlePaneAcpConfigChange}
-              acpPermissionBehavior={acpPermissionBehavior}
-              onAcpPermissionBehaviorChange={onAcpPermissionBehaviorChange}
-              supportedModels={paneController.paneSupportedModels}
-              codexModelsLoadingMessage={paneController.paneCodexModelsLoadingMessage}
-              codexEffort={paneController.paneCodexEffort}
-              onCodexEffortChange={paneController.handlePaneCodexEffortChange}
-              codexModelData={codexModelData}
-              grabbedElements={isActiveSessionPane ? grabbedElements : []}
-              onRemoveGrabbedElement={onRemoveGrabbedElement}
-              lockedEngine={isActiveSessionPane ? lockedEngine : (paneController.paneEngine ?? null)}
-              lockedAgentId={isActiveSessionPane ? lockedAgentId : (session?.agentId ?? null)}
-              selectedWorktreePath={selectedWorktreePath}
-              onSelectWorktree={isActiveSessionPane ? onSelectWorktree : undefined}
-              isEmptySession={paneState.messages.length === 0}
-              onManageACPs={onManageACPs}
-            />
+            {session?.readOnly ? (
+              <ReadOnlyChatNotice />
+            ) : (
+              <BottomComposer
+                pendingPermission={paneState.pendingPermission}
+                onRespondPermission={paneState.engine.respondPermission}
+                onSend={paneController.handlePaneSend}
+                onClear={paneController.handlePaneClear}
+                onReview={paneController.handlePaneReview}
+                onStop={paneController.handlePaneStop}
+                isProcessing={paneState.isProcessing}
+                queuedCount={isActiveSessionPane ? queuedCount : 0}
+                model={paneController.paneModel}
+                claudeEffort={paneController.paneClaudeEffort}
+                planMode={paneController.panePlanMode}
+                permissionMode={paneController.panePermissionMode}
+                onModelChange={paneController.handlePaneModelChange}
+                onClaudeModelEffortChange={paneController.handlePaneClaudeModelEffortChange}
+                onPlanModeChange={paneController.handlePanePlanModeChange}
+                onPermissionModeChange={paneController.handlePanePermissionModeChange}
+                projectPath={projectPath}
+                contextUsage={paneState.contextUsage}
+                isCompacting={paneState.isCompacting}
+                onCompact={paneState.engine.compact}
+                agents={agents}
+                selectedAgent={paneController.selectedPaneAgent}
+                onAgentChange={paneController.handlePaneAgentChange}
+                slashCommands={paneController.paneSlashCommands}
+                acpConfigOptions={paneController.paneAcpConfigOptions}
+                acpConfigOptionsLoading={paneController.paneAcpConfigOptionsLoading}
+                onACPConfigChange={paneController.handlePaneAcpConfigChange}
+                acpPermissionBehavior={acpPermissionBehavior}
+                onAcpPermissionBehaviorChange={onAcpPermissionBehaviorChange}
+                supportedModels={paneController.paneSupportedModels}
+                codexModelsLoadingMessage={paneController.paneCodexModelsLoadingMessage}
+                codexEffort={paneController.paneCodexEffort}
+                onCodexEffortChange={paneController.handlePaneCodexEffortChange}
+                codexModelData={codexModelData}
+                grabbedElements={isActiveSessionPane ? grabbedElements : []}
+                onRemoveGrabbedElement={onRemoveGrabbedElement}
+                terminalContexts={isActiveSessionPane ? terminalContexts : []}
+                onRemoveTerminalContext={onRemoveTerminalContext}
+                onMentionTerminal={onMentionTerminal}
+                lockedEngine={isActiveSessionPane ? lockedEngine : (paneController.paneEngine ?? null)}
+                lockedAgentId={isActiveSessionPane ? lockedAgentId : (session?.agentId ?? null)}
+                selectedWorktreePath={selectedWorktreePath}
+                onSelectWorktree={isActiveSessionPane ? onSelectWorktree : undefined}
+                isEmptySession={paneState.messages.length === 0}
+                onManageACPs={onManageACPs}
+              />
+            )}
           </div>
         </div>
         {activeContextualTool === "tasks" && (
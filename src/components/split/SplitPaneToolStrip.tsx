@@ -1,6 +1,7 @@
 import { memo, useCallback } from "react";
 import {
   Bot,
+  CirclePlay,
   FileText,
   FolderTree,
   GitBranch,
@@ -30,6 +31,7 @@ const PANEL_TOOLS: Array<{ id: ToolId; label: string; icon: typeof Terminal }> =
   { id: "files", label: "Open Files", icon: FileText },
   { id: "project-files", label: "Project Files", icon: FolderTree },
   { id: "mcp", label: "MCP Servers", icon: Plug },
+  { id: "task-runner", label: "Task Runner", icon: CirclePlay },
 ];
 
 const CONTEXTUAL_TOOLS: Array<{ id: Extract<ToolId, "tasks" | "agents">; label: string; icon: typeof Terminal }> = [
@@ -11,6 +11,7 @@ import { motion } from "motion/react";
 import { normalizeRatios } from "@/hooks/useSettings";
 import { equalWidthFractions, MIN_TOOLS_PANEL_WIDTH } from "@/lib/layout/constants";
 import { getChatPaneMinWidthPx } from "@/lib/layout/workspace-constraints";
+import { canForkSession } from "@/lib/session/fork";
 import { getStoredProjectGitCwd } from "@/lib/session/space-projects";
 import { getHorizontalInsertSide, getToolColumnDropIntent } from "@/lib/workspace/drag";
 import { PanelDockControls } from "@/components/PanelDockControls";
@@ -26,6 +27,7 @@ import type { PaneControllerContext } from "@/hooks/usePaneController";
 import type { SplitViewState } from "@/hooks/useSplitView";
 import type {
   GrabbedElement,
+  TerminalContextAttachment,
   ToolDragState,
   ToolIsland,
   TopRowItem,
@@ -100,6 +102,11 @@ export interface SplitTopRowItemProps {
   grabbedElements: GrabbedElement[];
   handleRemoveGrabbedElement: (id: string) => void;
 
+  // Terminal attachments
+  terminalContexts: TerminalContextAttachment[];
+  handleRemoveTerminalContext: (id: string) => void;
+  handleMentionTerminal: () => Promise<void>;
+
   // Locked engine
   lockedEngine: import("@/types").EngineId | null;
   lockedAgentId: string | null;
@@ -110,6 +117,7 @@ export interface SplitTopRowItemProps {
   // Revert
   handleRevert: ((checkpointId: string) => void) | undefined;
   handleFullRevert: ((checkpointId: string) => void) | undefined;
+  handleFork: ((messageId: string) => void) | undefined;
 
   // Scroll
   makePaneScrollCallback: (paneIndex: number) => (progress: number) => void;
@@ -238,7 +246,7 @@ function renderToolIsland(
       }}
     >
       <ToolIslandContent
-        toolId={island.toolId as Extract<ToolId, "terminal" | "browser" | "git" | "files" | "project-files" | "mcp">}
+        toolId={island.toolId as Extract<ToolId, "terminal" | "browser" | "git" | "files" | "project-files" | "mcp" | "task-runner">}
         persistKey={island.persistKey}
         headerControls={controls}
         projectPath={paneProjectPath}
@@ -414,9 +422,10 @@ function SplitTopRowItemInner(props: SplitTopRowItemProps) {
     acpPermissionBehavior, setAcpPermissionBehavior,
     agents, devFillEnabled, handleSeedDevExampleSpaceData, seedDevExampleConversation,
     grabbedElements, handleRemoveGrabbedElement,
+    terminalContexts, handleRemoveTerminalContext, handleMentionTerminal,
     lockedEngine, lockedAgentId,
     handleAgentWorktreeChange,
-    handleRevert, handleFullRevert,
+    handleRevert, handleFullRevert, handleFork,
     makePaneScrollCallback,
     handleCloseSplitPane,
     queuedCount,
@@ -495,6 +504,9 @@ function SplitTopRowItemInner(props: SplitTopRowItemProps) {
       onSeedDevExampleSpaceData: isActiveSessionPane ? handleSeedDevExampleSpaceData : undefined,
       grabbedElements: isActiveSessionPane ? grabbedElements : [],
       onRemoveGrabbedElement: handleRemoveGrabbedElement,
+      terminalContexts: isActiveSessionPane ? terminalContexts : [],
+      onRemoveTerminalContext: handleRemoveTerminalContext,
+      onMentionTerminal: isActiveSessionPane ? handleMentionTerminal : undefined,
       lockedEngine: isActiveSessionPane ? lockedEngine : (resolvedSession?.engine ?? null),
       lockedAgentId: isActiveSessionPane ? lockedAgentId : (resolvedSession?.agentId ?? null),
       projectPath: paneProjectPath,
@@ -504,6 +516,7 @@ function SplitTopRowItemInner(props: SplitTopRowItemProps) {
       spaceId: spaceActiveSpaceId,
       onRevert: isActiveSessionPane ? handleRevert : undefined,
       onFullRevert: isActiveSessionPane ? handleFullRevert : undefined,
+      onFork: isActiveSessionPane && canForkSession(resolvedSession) ? handleFork : undefined,
       onTopScrollProgress: makePaneScrollCallback(displayIndex),
       onClosePane: () => { void handleCloseSplitPane(sessionId); },
       onFocus: () => splitView.setFocusedSession(sessionId),
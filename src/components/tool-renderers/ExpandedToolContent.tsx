@@ -13,6 +13,7 @@ import { AskUserQuestionContent } from "./AskUserQuestion";
 import { GenericContent } from "./GenericContent";
 import { ToolSearchContent } from "./ToolSearchContent";
 import { SkillContent } from "./SkillContent";
+import { ReviewContent } from "./ReviewContent";
 
 /** Routes a UIMessage to its tool-specific expanded renderer. */
 export function ExpandedToolContent({ message }: { message: UIMessage }) {
@@ -44,6 +45,8 @@ export function ExpandedToolContent({ message }: { message: UIMessage }) {
       return <ToolSearchContent message={message} />;
     case "Skill":
       return <SkillContent message={message} />;
+    case "CodexReview":
+      return <ReviewContent message={message} />;
     default:
       // Check for specialized MCP tool renderers
       if (message.toolName && hasMcpRenderer(message.toolName)) {
@@ -0,0 +1,115 @@
+import { useMemo } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { FileText } from "lucide-react";
+import type { UIMessage } from "@/types";
+import { extractResultText } from "@/components/lib/tool-formatting";
+import { useFilePreview } from "@/components/FilePreviewContext";
+import { parseCodexReview, type CodexReviewFinding } from "@/lib/engine/codex-review";
+
+const REMARK_PLUGINS = [remarkGfm];
+
+const PRIORITY_CLASSES: Record<number, string> = {
+  0: "bg-red-500/15 text-red-400",
+  1: "bg-orange-500/15 text-orange-400",
+  2: "bg-amber-500/15 text-amber-400",
+  3: "bg-foreground/[0.06] text-foreground/50",
+};
+
+/** Shorten an absolute path to its last 3 segments. */
+function shortenPath(filePath: string): string {
+  const parts = filePath.split("/");
+  if (parts.length <= 3) return filePath;
+  return parts.slice(-3).join("/");
+}
+
+function formatLineRange(finding: CodexReviewFinding): string {
+  return finding.endLine > finding.startLine
+    ? `${finding.startLine}-${finding.endLine}`
+    : `${finding.startLine}`;
+}
+
+// ── Subcomponents ──
+
+function FindingAnchor({ finding }: { finding: CodexReviewFinding }) {
+  const filePreview = useFilePreview();
+  const label = `${shortenPath(finding.filePath)}:${formatLineRange(finding)}`;
+
+  if (!filePreview) {
+    return <span className="truncate font-mono text-[11px] text-foreground/40" title={finding.filePath}>{label}</span>;
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={(e) =>
+        filePreview.previewFile(finding.filePath, e.currentTarget.getBoundingClientRect(), {
+          startLine: finding.startLine,
+          endLine: finding.endLine,
+        })}
+      className="inline-flex min-w-0 cursor-pointer items-center gap-1 font-mono text-[11px] text-foreground/40 transition-colors hover:text-foreground/70"
+      title={finding.filePath}
+    >
+      <FileText className="h-3 w-3 shrink-0 text-foreground/25" />
+      <span className="truncate">{label}</span>
+    </button>
+  );
+}
+
+function FindingRow({ finding, index }: { finding: CodexReviewFinding; index: number }) {
+  return (
+    <div className={`space-y-1 px-3 py-2 ${index > 0 ? "border-t border-foreground/[0.06]" : ""}`}>
+      <div className="flex min-w-0 items-center gap-2">
+        {finding.priority != null && (
+          <span
+            className={`shrink-0 rounded px-1.5 py-px text-[10px] font-semibold ${
+              PRIORITY_CLASSES[finding.priority] ?? PRIORITY_CLASSES[3]
+            }`}
+          >
+            P{finding.priority}
+          </span>
+        )}
+        <span className="min-w-0 truncate text-[12px] font-medium text-foreground/80">{finding.title}</span>
+      </div>
+      <FindingAnchor finding={finding} />
+      {finding.body && (
+        <p className="whitespace-pre-wrap text-[11.5px] leading-relaxed text-foreground/55">{finding.body}</p>
+      )}
+    </div>
+  );
+}
+
+// ── Main component ──
+
+/** Codex `review/start` result — overall verdict plus findings with clickable file:line anchors. */
+export function ReviewContent({ message }: { message: UIMessage }) {
+  const resultText = extractResultText(message.toolResult);
+  const review = useMemo(() => parseCodexReview(resultText), [resultText]);
+
+  if (!message.toolResult) {
+    return (
+      <div className="rounded-md bg-foreground/[0.03] px-3 py-2 text-xs text-foreground/50">
+        Codex is reviewing {String(message.toolInput?.target ?? "the code")}…
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {review.summary && (
+        <div className="prose dark:prose-invert prose-sm max-w-none text-[12.5px] text-foreground/75">
+          <ReactMarkdown remarkPlugins={REMARK_PLUGINS}>{review.summary}</ReactMarkdown>
+        </div>
+      )}
+      {review.findings.length > 0 ? (
+        <div className="overflow-hidden rounded-md border border-foreground/[0.06]">
+          {review.findings.map((finding, i) => (
+            <FindingRow key={`${finding.filePath}:${finding.startLine}:${i}`} finding={finding} index={i} />
+          ))}
+        </div>
+      ) : (
+        <div className="text-[11px] text-foreground/40">No findings.</div>
+      )}
+    </div>
+  );
+}
@@ -15,8 +15,9 @@ import { GitPanel } from "@/components/git/GitPanel";
 import { FilesPanel } from "@/components/FilesPanel";
 import { ProjectFilesPanel } from "@/components/ProjectFilesPanel";
 import { McpPanel } from "@/components/McpPanel";
-import type { PanelToolId, EngineId, McpServerConfig, McpServerStatus, UIMessage, GrabbedElement } from "@/types";
-import type { TerminalTab } from "@/lib/terminal-tabs";
+import { TaskRunnerPanel } from "@/components/TaskRunnerPanel";
+import type { PanelToolId, EngineId, ImageAttachment, McpServerConfig, McpServerStatus, UIMessage, GrabbedElement, TerminalContextAttachment, TerminalProfile, CodexReviewTarget, WorktreeSession } from "@/types";
+import type { TerminalSplitDirection, TerminalTab } from "@/lib/terminal-tabs";
 import type { ResolvedTheme } from "@/hooks/useTheme";
 
 // ── Props ──
@@ -42,13 +43,18 @@ export interface ToolIslandContentProps {
   activeTerminalTabId: string | null;
   terminalsReady: boolean;
   onSetActiveTab: (tabId: string | null) => void;
-  onCreateTerminal: () => Promise<void>;
-  onEnsureTerminal: () => Promise<void>;
+  onCreateTerminal: (profile?: TerminalProfile) => Promise<void>;
+  onEnsureTerminal: (profile?: TerminalProfile) => Promise<void>;
   onCloseTerminal: (tabId: string) => Promise<void>;
+  onSplitTerminal: (tabId: string, direction: TerminalSplitDirection) => Promise<void>;
+  onFocusTerminalPane: (tabId: string, terminalId: string) => void;
+  onCloseTerminalPane: (tabId: string, terminalId: string) => Promise<void>;
   resolvedTheme: ResolvedTheme;
 
   // Panel-specific callbacks
   onElementGrab?: (element: GrabbedElement) => void;
+  onOpenInBrowser?: (url: string) => void;
+  onSendTerminalToChat?: (context: TerminalContextAttachment) => void;
   onScrollToToolCall?: (messageId: string) => void;
   onPreviewFile?: (path: string, rect: DOMRect) => void;
   collapsedRepos: Set<string>;
@@ -59,6 +65,12 @@ export interface ToolIslandContentProps {
   onRefreshMcpStatus: () => void;
   onReconnectMcpServer: (name: string) => Promise<void> | void;
   onRestartWithMcpServers: (servers: McpServerConfig[]) => Promise<void> | void;
+  onRequestCodexReview?: (target: CodexReviewTarget) => Promise<void>;
+  onSendToChat?: (text: string, images?: ImageAttachment[], displayText?: string) => void;
+  getCommitTrailers?: (repoPath: string, paths: string[]) => string[];
+  onOpenSession?: (sessionId: string, turnId?: string) => void;
+  getSessionTitle?: (sessionId: string) => string | undefined;
+  getWorktreeSessions?: (worktreePaths: string[]) => Map<string, WorktreeSession[]>;
 }
 
 export function ToolIslandContent({
@@ -81,8 +93,13 @@ export function ToolIslandContent({
   onCreateTerminal,
   onEnsureTerminal,
   onCloseTerminal,
+  onSplitTerminal,
+  onFocusTerminalPane,
+  onCloseTerminalPane,
   resolvedTheme,
   onElementGrab,
+  onOpenInBrowser,
+  onSendTerminalToChat,
   onScrollToToolCall,
   onPreviewFile,
   collapsedRepos,
@@ -92,12 +109,19 @@ export function ToolIslandContent({
   onRefreshMcpStatus,
   onReconnectMcpServer,
   onRestartWithMcpServers,
+  onRequestCodexReview,
+  onSendToChat,
+  getCommitTrailers,
+  onOpenSession,
+  getSessionTitle,
+  getWorktreeSessions,
 }: ToolIslandContentProps): ReactNode {
   switch (toolId) {
     case "terminal":
       return (
         <ToolsPanel
           spaceId={spaceId}
+          projectId={projectId}
           tabs={terminalTabs}
           activeTabId={activeTerminalTabId}
           terminalsReady={terminalsReady}
@@ -105,7 +129,12 @@ export function ToolIslandContent({
           onCreateTerminal={onCreateTerminal}
           onEnsureTerminal={onEnsureTerminal}
           onCloseTerminal={onCloseTerminal}
+          onSplitTerminal={onSplitTerminal}
+          onFocusTerminalPane={onFocusTerminalPane}
+          onCloseTerminalPane={onCloseTerminalPane}
           resolvedTheme={resolvedTheme}
+          onSendToChat={isActiveSessionPane ? onSendTerminalToChat : undefined}
+          onOpenInBrowser={onOpenInBrowser}
           headerControls={headerControls}
         />
       );
@@ -125,6 +154,12 @@ export function ToolIslandContent({
           onToggleRepoCollapsed={onToggleRepoCollapsed}
           activeEngine={activeEngine}
           activeSessionId={sessionId}
+          onRequestCodexReview={isActiveSessionPane ? onRequestCodexReview : undefined}
+          onSendToChat={isActiveSessionPane ? onSendToChat : undefined}
+          getCommitTrailers={isActiveSessionPane ? getCommitTrailers : undefined}
+          onOpenSession={onOpenSession}
+          getSessionTitle={getSessionTitle}
+          getWorktreeSessions={getWorktreeSessions}
           headerControls={headerControls}
         />
       );
@@ -162,5 +197,14 @@ export function ToolIslandContent({
           headerControls={headerControls}
         />
       );
+    case "task-runner":
+      return (
+        <TaskRunnerPanel
+          cwd={projectPath}
+          resolvedTheme={resolvedTheme}
+          onSendToChat={isActiveSessionPane ? onSendToChat : undefined}
+          headerControls={headerControls}
+        />
+      );
   }
 }
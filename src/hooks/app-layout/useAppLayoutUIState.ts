@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useState } from "react";
-import type { GrabbedElement } from "@/types";
+import type { GrabbedElement, TerminalContextAttachment } from "@/types";
 import { WELCOME_COMPLETED_KEY } from "@/components/welcome/shared";
+import type { FilePreviewLineRange } from "@/components/FilePreviewContext";
 
 interface UseAppLayoutUIStateInput {
   isNativeGlass: boolean;
@@ -13,7 +14,12 @@ export function useAppLayoutUIState(input: UseAppLayoutUIStateInput) {
     () => localStorage.getItem(WELCOME_COMPLETED_KEY) === "true",
   );
   const [grabbedElements, setGrabbedElements] = useState<GrabbedElement[]>([]);
-  const [previewFile, setPreviewFile] = useState<{ path: string; sourceRect: DOMRect } | null>(null);
+  const [terminalContexts, setTerminalContexts] = useState<TerminalContextAttachment[]>([]);
+  const [previewFile, setPreviewFile] = useState<{
+    path: string;
+    sourceRect: DOMRect;
+    lineRange?: FilePreviewLineRange;
+  } | null>(null);
 
   useEffect(() => {
     if (!input.isNativeGlass) return;
@@ -50,8 +56,20 @@ export function useAppLayoutUIState(input: UseAppLayoutUIStateInput) {
     setGrabbedElements([]);
   }, []);
 
-  const handlePreviewFile = useCallback((filePath: string, sourceRect: DOMRect) => {
-    setPreviewFile({ path: filePath, sourceRect });
+  const handleTerminalContext = useCallback((context: TerminalContextAttachment) => {
+    setTerminalContexts((prev) => [...prev, context]);
+  }, []);
+
+  const handleRemoveTerminalContext = useCallback((id: string) => {
+    setTerminalContexts((prev) => prev.filter((context) => context.id !== id));
+  }, []);
+
+  const clearTerminalContexts = useCallback(() => {
+    setTerminalContexts([]);
+  }, []);
+
+  const handlePreviewFile = useCallback((filePath: string, sourceRect: DOMRect, lineRange?: FilePreviewLineRange) => {
+    setPreviewFile({ path: filePath, sourceRect, lineRange });
   }, []);
 
   const handleClosePreview = useCallback(() => {
@@ -67,6 +85,10 @@ export function useAppLayoutUIState(input: UseAppLayoutUIStateInput) {
     clearGrabbedElements,
     handleElementGrab,
     handleRemoveGrabbedElement,
+    terminalContexts,
+    clearTerminalContexts,
+    handleTerminalContext,
+    handleRemoveTerminalContext,
     previewFile,
     handlePreviewFile,
     handleClosePreview,
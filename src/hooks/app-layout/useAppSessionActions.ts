@@ -1,4 +1,5 @@
 import { useCallback, useEffect } from "react";
+import { toast } from "sonner";
 import { useProjectManager } from "@/hooks/useProjectManager";
 import { useSessionManager } from "@/hooks/useSessionManager";
 import { useSettingsCompat } from "@/hooks/useSettingsCompat";
@@ -161,6 +162,10 @@ export function useAppSessionActions(input: UseAppSessionActionsInput) {
     await input.manager.sendQueuedMessageNext(messageId);
   }, [input.manager]);
 
+  const handleSteerQueuedMessage = useCallback(async (messageId: string) => {
+    await input.manager.steerQueuedMessage?.(messageId);
+  }, [input.manager]);
+
   const handleUnqueueMessage = useCallback((messageId: string) => {
     input.manager.unqueueMessage(messageId);
   }, [input.manager]);
@@ -180,6 +185,19 @@ export function useAppSessionActions(input: UseAppSessionActionsInput) {
     await input.manager.importCCSession(projectId, ccSessionId);
   }, [input.manager]);
 
+  const handleImportCodexThread = useCallback(async (projectId: string, threadId: string) => {
+    input.setShowSettings(false);
+    const result = await input.manager.importCodexThread(projectId, threadId);
+    if (result.error) toast.error("Couldn't import Codex chat", { description: result.error });
+  }, [input.manager, input.setShowSettings]);
+
+  const handleImportSessionFile = useCallback(async (projectId: string, mode: "resumable" | "readOnly") => {
+    input.setShowSettings(false);
+    const result = await input.manager.importSessionFile(projectId, mode);
+    if (result.error) toast.error("Couldn't import chat", { description: result.error });
+    else if (result.notice) toast.info(result.notice);
+  }, [input.manager, input.setShowSettings]);
+
   const handleSeedDevExampleSpaceData = useCallback(async () => {
     if (!import.meta.env.DEV) return;
     const { seedDevExampleSpaceData } = await import("@/lib/dev-seeding/space-seeding");
@@ -219,10 +237,13 @@ export function useAppSessionActions(input: UseAppSessionActionsInput) {
     handleClaudeModelEffortChange,
     handleStop,
     handleSendQueuedNow,
+    handleSteerQueuedMessage,
     handleUnqueueMessage,
     handleSelectSession,
     handleCreateProject,
     handleImportCCSession,
+    handleImportCodexThread,
+    handleImportSessionFile,
     handleSeedDevExampleSpaceData,
     handleNavigateToMessage,
   };
@@ -7,6 +7,7 @@ export { useSessionCrud } from "./useSessionCrud";
 export { useSessionSettings } from "./useSessionSettings";
 export { useSessionRestart } from "./useSessionRestart";
 export { useSessionLifecycle } from "./useSessionLifecycle";
+export { useBudgetGuard, useBudgetLedgerStore, getTodayBudgetUsage, getClaudeMaxBudgetUsd } from "./useBudgetGuard";
 export {
   DRAFT_ID,
   DEFAULT_PERMISSION_MODE,
@@ -0,0 +1,313 @@
+import { useCallback, useEffect, useRef, type Dispatch, type MutableRefObject, type SetStateAction } from "react";
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import type { ChatSession, ContextUsage, EngineId, UIMessage } from "@/types";
+import type { BackgroundSessionStore } from "@/lib/background/session-store";
+import { useSettingsStore } from "@/stores/settings-store";
+import {
+  addBudgetUsage,
+  advanceBudgetTracking,
+  checkBudgets,
+  EMPTY_BUDGET_USAGE,
+  formatBudgetBreach,
+  getActiveSessionUsage,
+  getBudgetBreachKey,
+  getRemainingCostBudget,
+  startBudgetTracking,
+  type BudgetScope,
+  type BudgetTracking,
+  type BudgetUsage,
+  type SessionUsageSnapshot,
+} from "@/lib/session/budget";
+import { toDayKey } from "@/lib/session/usage";
+import { createBudgetPauseMessage, createSystemMessage } from "@/lib/message-factory";
+
+const LEDGER_KEY = "harnss-budget-usage";
+const LEDGER_DAYS_KEPT = 7;
+const LEDGER_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+/** How often wall-clock limits are re-checked while a turn is running. */
+const RUNNING_CHECK_INTERVAL_MS = 15_000;
+
+// ── Usage ledger (persisted) ──
+
+interface BudgetLedgerState {
+  /** Per-session usage (cost comes from the engine's own running total instead). */
+  sessions: Record<string, BudgetUsage & { updatedAt: number }>;
+  /** Local day key → projectId → usage. */
+  days: Record<string, Record<string, BudgetUsage>>;
+  /** Limits the user chose to resume past, per session (`scope:metric` keys). Not persisted. */
+  resumed: Record<string, string[]>;
+  record: (sessionId: string, projectId: string, delta: Partial<BudgetUsage>) => void;
+  resume: (sessionId: string, keys: string[]) => void;
+}
+
+export const useBudgetLedgerStore = create<BudgetLedgerState>()(
+  persist(
+    (set) => ({
+      sessions: {},
+      days: {},
+      resumed: {},
+      record: (sessionId, projectId, delta) => set((state) => {
+        const now = Date.now();
+        const today = toDayKey(now);
+        const dayProjects = state.days[today] ?? {};
+
+        const sessions: BudgetLedgerState["sessions"] = {};
+        for (const [id, usage] of Object.entries(state.sessions)) {
+          if (now - usage.updatedAt < LEDGER_SESSION_TTL_MS) sessions[id] = usage;
+        }
+        sessions[sessionId] = { ...addBudgetUsage(state.sessions[sessionId] ?? EMPTY_BUDGET_USAGE, delta), updatedAt: now };
+
+        const days: BudgetLedgerState["days"] = {};
+        for (const key of Object.keys(state.days).sort().slice(-(LEDGER_DAYS_KEPT - 1))) {
+          if (key !== today) days[key] = state.days[key];
+        }
+        days[today] = {
+          ...dayProjects,
+          [projectId]: addBudgetUsage(dayProjects[projectId] ?? EMPTY_BUDGET_USAGE, delta),
+        };
+
+        return { sessions, days };
+      }),
+      resume: (sessionId, keys) => set((state) => ({
+        resumed: { ...state.resumed, [sessionId]: [...new Set([...(state.resumed[sessionId] ?? []), ...keys])] },
+      })),
+    }),
+    {
+      name: LEDGER_KEY,
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ sessions: state.sessions, days: state.days }),
+    },
+  ),
+);
+
+/** Today's usage for one project and across all projects. */
+export function getTodayBudgetUsage(projectId: string | null): { project: BudgetUsage; day: BudgetUsage } {
+  const dayProjects = useBudgetLedgerStore.getState().days[toDayKey(Date.now())] ?? {};
+  return {
+    project: (projectId && dayProjects[projectId]) || EMPTY_BUDGET_USAGE,
+    day: Object.values(dayProjects).reduce(addBudgetUsage, EMPTY_BUDGET_USAGE),
+  };
+}
+
+/** Usage per scope for a session, from the ledger. */
+function getLedgerUsage(sessionId: string, projectId: string): Record<BudgetScope, BudgetUsage> {
+  const today = getTodayBudgetUsage(projectId);
+  return {
+    session: useBudgetLedgerStore.getState().sessions[sessionId] ?? EMPTY_BUDGET_USAGE,
+    project: today.project,
+    day: today.day,
+  };
+}
+
+function getResumedLimits(sessionId: string): Set<string> {
+  return new Set(useBudgetLedgerStore.getState().resumed[sessionId]);
+}
+
+/**
+ * `maxBudgetUsd` for a Claude SDK session: what is left of the tightest cost
+ * limit, so the SDK stops the turn itself once spend runs out mid-turn
+ * (Claude only reports cost when a turn finishes). Undefined when no cost
+ * limit applies. Pass `sessionId` null for a session that doesn't exist yet.
+ */
+export function getClaudeMaxBudgetUsd(sessionId: string | null, projectId: string): number | undefined {
+  const budgets = useSettingsStore.getState().budgets;
+  const usage = getLedgerUsage(sessionId ?? "", projectId);
+  return getRemainingCostBudget(usage, budgets, sessionId ? getResumedLimits(sessionId) : undefined);
+}
+
+// ── Guard hook ──
+
+interface TrackedSession extends BudgetTracking {
+  projectId: string;
+  engine: EngineId;
+}
+
+interface UseBudgetGuardOptions {
+  /** Active, materialized session (null for drafts / no selection). */
+  sessionId: string | null;
+  isProcessing: boolean;
+  totalCost: number;
+  contextUsage: ContextUsage | null;
+  /** Totals the engine hook restores for the active session when it is switched to. */
+  initialMeta: SessionUsageSnapshot | null;
+  setMessages: Dispatch<SetStateAction<UIMessage[]>>;
+  /** Engine-appropriate interrupt for the active session (claude:interrupt / codex:interrupt / acp:cancel). */
+  interrupt: () => Promise<void>;
+  sessionsRef: MutableRefObject<ChatSession[]>;
+  /** Source of usage for every session running in the background. */
+  backgroundStoreRef: MutableRefObject<BackgroundSessionStore>;
+}
+
+function interruptBackgroundSession(sessionId: string, engine: EngineId): void {
+  if (engine === "acp") void window.claude.acp.cancel(sessionId);
+  else if (engine === "codex") void window.claude.codex.interrupt(sessionId);
+  else void window.claude.interrupt(sessionId);
+}
+
+/**
+ * Tracks spend, tokens, turns and agent time of every live session — the
+ * active one from its engine hook, the rest from the background store —
+ * against the configured budgets. Posts a one-time warning at the threshold
+ * and, once a limit is hit, interrupts the running turn and posts a resumable
+ * pause message. New turns started while paused are interrupted again until
+ * the user resumes.
+ */
+export function useBudgetGuard({
+  sessionId,
+  isProcessing,
+  totalCost,
+  contextUsage,
+  initialMeta,
+  setMessages,
+  interrupt,
+  sessionsRef,
+  backgroundStoreRef,
+}: UseBudgetGuardOptions) {
+  const budgets = useSettingsStore((s) => s.budgets);
+  const trackedRef = useRef(new Map<string, TrackedSession>());
+  const activeIdRef = useRef(sessionId);
+  activeIdRef.current = sessionId;
+  /** Active session whose engine totals were last observed. */
+  const observedIdRef = useRef<string | null>(null);
+  const setMessagesRef = useRef(setMessages);
+  setMessagesRef.current = setMessages;
+  const interruptRef = useRef(interrupt);
+  interruptRef.current = interrupt;
+  /** Warnings already shown, per session. */
+  const warnedRef = useRef(new Map<string, Set<string>>());
+  /** Sessions currently paused by an exceeded limit. */
+  const pausedRef = useRef(new Set<string>());
+
+  /** Usage per scope for a session, including the time of every turn still running. */
+  const getUsage = useCallback((id: string, projectId: string): Record<BudgetScope, BudgetUsage> => {
+    const now = Date.now();
+    const liveMinutes = (filter: (tracked: TrackedSession, trackedId: string) => boolean) => {
+      let minutes = 0;
+      for (const [trackedId, tracked] of trackedRef.current) {
+        if (tracked.turnStartedAt && filter(tracked, trackedId)) minutes += (now - tracked.turnStartedAt) / 60_000;
+      }
+      return { minutes };
+    };
+    const usage = getLedgerUsage(id, projectId);
+    const totalCost = trackedRef.current.get(id)?.totalCost ?? usage.session.costUsd;
+    return {
+      session: addBudgetUsage({ ...usage.session, costUsd: totalCost }, liveMinutes((_, trackedId) => trackedId === id)),
+      project: addBudgetUsage(usage.project, liveMinutes((tracked) => tracked.projectId === projectId)),
+      day: addBudgetUsage(usage.day, liveMinutes(() => true)),
+    };
+  }, []);
+
+  const postMessage = useCallback((id: string, message: UIMessage) => {
+    if (id === activeIdRef.current) setMessagesRef.current((prev) => [...prev, message]);
+    else backgroundStoreRef.current.updateMessages(id, (prev) => [...prev, message]);
+  }, [backgroundStoreRef]);
+
+  const evaluate = useCallback((id: string) => {
+    const tracked = trackedRef.current.get(id);
+    if (!tracked || !budgets.enabled) return;
+
+    const breach = checkBudgets(getUsage(id, tracked.projectId), budgets, getResumedLimits(id));
+    if (!breach) return;
+    const key = getBudgetBreachKey(breach);
+
+    if (breach.level === "warning") {
+      const warned = warnedRef.current.get(id) ?? new Set<string>();
+      if (warned.has(key)) return;
+      warned.add(key);
+      warnedRef.current.set(id, warned);
+      postMessage(id, createSystemMessage(`${formatBudgetBreach(breach)}.`));
+      return;
+    }
+
+    // Exceeded — pause once, and keep cutting off new turns until resumed
+    if (pausedRef.current.has(id) && !tracked.isProcessing) return;
+    const wasProcessing = tracked.isProcessing;
+    if (wasProcessing) {
+      if (id === activeIdRef.current) void interruptRef.current();
+      else interruptBackgroundSession(id, tracked.engine);
+    }
+    if (pausedRef.current.has(id)) return;
+    pausedRef.current.add(id);
+    postMessage(id, createBudgetPauseMessage(`${formatBudgetBreach(breach)} — session paused.`, wasProcessing));
+  }, [budgets, getUsage, postMessage]);
+
+  /** Fold a session's latest totals into the ledger and re-check its limits. */
+  const observe = useCallback((id: string, live: SessionUsageSnapshot) => {
+    let tracked = trackedRef.current.get(id);
+    if (!tracked) {
+      const session = sessionsRef.current.find((s) => s.id === id);
+      if (!session) return;
+      tracked = {
+        projectId: session.projectId,
+        engine: session.engine ?? "claude",
+        ...startBudgetTracking(live, Date.now()),
+      };
+      trackedRef.current.set(id, tracked);
+      evaluate(id);
+      return;
+    }
+
+    const delta = advanceBudgetTracking(tracked, tracked.engine, live, Date.now());
+    if (Object.values(delta).some(Boolean)) {
+      useBudgetLedgerStore.getState().record(id, tracked.projectId, delta);
+    }
+    evaluate(id);
+  }, [evaluate, sessionsRef]);
+
+  // Background sessions report through the store
+  useEffect(() => {
+    const store = backgroundStoreRef.current;
+    store.onUsageChange = (id) => {
+      if (id === activeIdRef.current) return;
+      const usage = store.getUsage(id);
+      if (usage) observe(id, usage);
+    };
+    return () => {
+      store.onUsageChange = undefined;
+    };
+  }, [backgroundStoreRef, observe]);
+
+  // The active session reports through its engine hook
+  useEffect(() => {
+    const switched = observedIdRef.current !== sessionId;
+    observedIdRef.current = sessionId;
+    if (!sessionId) return;
+    observe(sessionId, getActiveSessionUsage(switched, { isProcessing, totalCost, contextUsage }, initialMeta));
+  }, [sessionId, isProcessing, totalCost, contextUsage, initialMeta, observe]);
+
+  // Wall-clock limits can trip mid-turn without any other state changing
+  useEffect(() => {
+    if (!budgets.enabled) return;
+    const timer = setInterval(() => {
+      for (const [id, tracked] of trackedRef.current) {
+        if (tracked.isProcessing) evaluate(id);
+      }
+    }, RUNNING_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [budgets.enabled, evaluate]);
+
+  /**
+   * Lift the pause for the active session: every limit exceeded right now is
+   * ignored for the rest of the session (warnings for other limits still apply).
+   * Nothing is sent — the user picks the work back up themselves.
+   */
+  const resumeBudget = useCallback((messageId: string) => {
+    const id = activeIdRef.current;
+    const tracked = id ? trackedRef.current.get(id) : undefined;
+    if (id && tracked) {
+      const resumed = getResumedLimits(id);
+      const usage = getUsage(id, tracked.projectId);
+      for (let breach = checkBudgets(usage, budgets, resumed); breach?.level === "exceeded"; breach = checkBudgets(usage, budgets, resumed)) {
+        resumed.add(getBudgetBreachKey(breach));
+      }
+      useBudgetLedgerStore.getState().resume(id, [...resumed]);
+      pausedRef.current.delete(id);
+    }
+    setMessagesRef.current((prev) => prev.map((m) =>
+      m.id === messageId && m.budgetPause ? { ...m, budgetPause: { ...m.budgetPause, resumed: true } } : m,
+    ));
+  }, [budgets, getUsage]);
+
+  return { resumeBudget };
+}
@@ -13,6 +13,7 @@ import {
   normalizeCodexModels,
   pickCodexModel,
 } from "./types";
+import { getClaudeMaxBudgetUsd } from "./useBudgetGuard";
 import type { SharedSessionRefs, SharedSessionSetters, EngineHooks, StartOptions } from "./types";
 
 interface UseDraftMaterializationParams {
@@ -85,6 +86,7 @@ export function useDraftMaterialization({
         thinkingEnabled: options?.thinkingEnabled,
         effort: options?.effort,
         mcpServers,
+        maxBudgetUsd: getClaudeMaxBudgetUsd(null, projectId),
       });
     } catch (err) {
       captureException(err instanceof Error ? err : new Error(String(err)), { label: "EAGER_START_ERR" });
@@ -580,6 +582,7 @@ export function useDraftMaterialization({
               thinkingEnabled: options.thinkingEnabled,
               effort: options.effort,
               mcpServers,
+              maxBudgetUsd: getClaudeMaxBudgetUsd(null, project.id),
             });
           } catch (err) {
             captureException(err instanceof Error ? err : new Error(String(err)), { label: "MATERIALIZE_START_ERR" });
@@ -614,6 +617,7 @@ export function useDraftMaterialization({
         isActive: true,
         titleGenerating: true,
         ...(currentBranch ? { branch: currentBranch } : {}),
+        cwd: getProjectCwd(project),
         engine: draftEngine,
         ...(draftEngine === "acp" && options.agentId ? {
           agentId: options.agentId,
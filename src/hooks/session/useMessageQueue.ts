@@ -402,6 +402,77 @@ export function useMessageQueue({ refs, setters, engines, activeSessionId }: Use
     setQueuedCount,
   ]);
 
+  /**
+   * Codex only: deliver a queued message into the running turn via turn/steer,
+   * so Codex changes course without being interrupted. The message leaves the
+   * queue and shows inline at the current point of the transcript. If the turn
+   * ended before the steer landed, the message goes back to the front of the
+   * queue and is sent as the next turn instead.
+   */
+  const steerQueuedMessage = useCallback(async (messageId: string) => {
+    const activeId = activeSessionIdRef.current;
+    if (!activeId || activeId === DRAFT_ID) return;
+    if (getSessionEngine(activeId) !== "codex") return;
+    if (!engine.isProcessing || !liveSessionIdsRef.current.has(activeId)) {
+      await sendQueuedMessageNext(messageId);
+      return;
+    }
+
+    const queue = messageQueueRef.current.get(activeId) ?? [];
+    const queueIndex = queue.findIndex((entry) => entry.messageId === messageId);
+    if (queueIndex < 0) return;
+
+    const [entry] = queue.splice(queueIndex, 1);
+    if (queue.length === 0) {
+      messageQueueRef.current.delete(activeId);
+      boundaryWaitRef.current.delete(activeId);
+    }
+    setSendNextId((prev) => prev === messageId ? null : prev);
+    setQueuedCount(queue.length);
+
+    let steered = false;
+    try {
+      const result = await window.claude.codex.steer(
+        activeId,
+        entry.text,
+        imageAttachmentsToCodexInputs(entry.images),
+      );
+      steered = !result?.error;
+    } catch {
+      steered = false;
+    }
+
+    if (!steered) {
+      const restored = getQueueForSession(activeId);
+      restored.unshift(entry);
+      if (activeId === activeSessionIdRef.current) {
+        setQueuedCount(restored.length);
+        reorderQueuedMessagesInUI(restored.map((queued) => queued.messageId));
+      }
+      // The turn may have finished while the steer was in flight — re-run the drain effect
+      setSwitchDrainRetryTick((prev) => prev + 1);
+      return;
+    }
+
+    updateSessionMessages(activeId, "codex", (prev) =>
+      reorderSentQueuedMessage(prev, messageId).map((m) =>
+        m.id === messageId ? { ...m, isSteered: true } : m,
+      ),
+    );
+  }, [
+    activeSessionIdRef,
+    engine.isProcessing,
+    getQueueForSession,
+    getSessionEngine,
+    liveSessionIdsRef,
+    messageQueueRef,
+    reorderQueuedMessagesInUI,
+    reorderSentQueuedMessage,
+    sendQueuedMessageNext,
+    setQueuedCount,
+    updateSessionMessages,
+  ]);
+
   useEffect(() => {
     const activeId = activeSessionIdRef.current;
     if (!activeId || activeId === DRAFT_ID) return;
@@ -488,6 +559,7 @@ export function useMessageQueue({ refs, setters, engines, activeSessionId }: Use
     clearQueue,
     unqueueMessage,
     sendQueuedMessageNext,
+    steerQueuedMessage,
     continueQueuedBackgroundSession,
     sendNextId,
   };
@@ -4,11 +4,16 @@ import type { ChatSession, McpServerConfig, PersistedSession, Project, ACPConfig
 import { suppressNextSessionCompletion } from "../../lib/notification-utils";
 import { capture } from "../../lib/analytics/analytics";
 import { bgAgentStore } from "../../lib/background/agent-store";
+import { getForkTitle, getSessionForkPoint } from "../../lib/session/fork";
+import { buildPersistedSession, toChatSession } from "../../lib/session/records";
+import { getLastUserMessageTimestamp } from "@shared/lib/session-persistence";
+import { codexThreadToUIMessages, getCodexThreadTitle } from "../../lib/engine/codex-thread-import";
 import {
   DRAFT_ID,
   DEFAULT_PERMISSION_MODE,
   getEffectiveClaudePermissionMode,
 } from "./types";
+import { getClaudeMaxBudgetUsd } from "./useBudgetGuard";
 import type { SharedSessionRefs, SharedSessionSetters, EngineHooks, StartOptions } from "./types";
 
 interface UseSessionCrudParams {
@@ -75,6 +80,8 @@ export function useSessionCrud({
   const {
     activeSessionIdRef,
     sessionsRef,
+    messagesRef,
+    isProcessingRef,
     liveSessionIdsRef,
     backgroundStoreRef,
     preStartedSessionIdRef,
@@ -418,6 +425,220 @@ export function useSessionCrud({
     [cacheSessionPayload, findProject, saveCurrentSession, seedBackgroundStore, switchSession],
   );
 
+  // ── Import a native Codex thread ──
+  // The thread keeps living in Codex's store; the first message revives it via
+  // codex:resume, exactly like a restored Codex chat.
+
+  const importCodexThread = useCallback(
+    async (projectId: string, threadId: string): Promise<{ ok?: boolean; error?: string }> => {
+      const project = findProject(projectId);
+      if (!project) return { error: "Project not found." };
+
+      const existing = sessionsRef.current.find((s) => s.codexThreadId === threadId);
+      if (existing) {
+        await switchSession(existing.id);
+        return { ok: true };
+      }
+
+      const result = await window.claude.codex.readThread(getProjectCwd(project), threadId);
+      if (result.error || !result.thread) return { error: result.error || "Codex thread not found." };
+
+      seedBackgroundStore();
+      void saveCurrentSession();
+
+      const messages = codexThreadToUIMessages(result.thread);
+      const imported: ChatSession = {
+        id: crypto.randomUUID(),
+        projectId: project.id,
+        title: getCodexThreadTitle(result.thread),
+        createdAt: result.thread.createdAt * 1000,
+        totalCost: 0,
+        engine: "codex",
+        codexThreadId: threadId,
+        branch: result.thread.gitInfo?.branch ?? undefined,
+        isActive: true,
+      };
+      const persisted = buildPersistedSession(imported, messages, 0, null);
+      await window.claude.sessions.save(persisted);
+      cacheSessionPayload(persisted);
+
+      setSessions((prev) => [
+        imported,
+        ...prev.filter((s) => s.id !== DRAFT_ID).map((s) => ({ ...s, isActive: false })),
+      ]);
+      setInitialMessages(messages);
+      setInitialMeta(null);
+      setInitialPermission(null);
+      setInitialRawAcpPermission(null);
+      setActiveSessionId(imported.id);
+      setDraftProjectId(null);
+      capture("session_imported", { engine: "codex", message_count: messages.length });
+      return { ok: true };
+    },
+    [cacheSessionPayload, findProject, getProjectCwd, saveCurrentSession, seedBackgroundStore, switchSession],
+  );
+
+  // ── Import a shared session file (Harnss .json or Claude Code .jsonl) ──
+
+  const importSessionFile = useCallback(
+    async (projectId: string, mode: "resumable" | "readOnly"): Promise<{ ok?: boolean; canceled?: boolean; error?: string; notice?: string }> => {
+      const project = findProject(projectId);
+      if (!project) return { error: "Project not found." };
+
+      const result = await window.claude.sessions.import(project.id, getProjectCwd(project), mode);
+      if (result.canceled) return { canceled: true };
+      if (result.error || !result.session) return { error: result.error || "Nothing to import." };
+      const persisted = result.session;
+
+      // Re-importing a resumable Claude transcript lands on the same session id
+      const existing = sessionsRef.current.find((s) => s.id === persisted.id);
+      if (existing) {
+        await switchSession(existing.id);
+        return { ok: true, notice: "This chat was already imported." };
+      }
+
+      seedBackgroundStore();
+      void saveCurrentSession();
+
+      const imported: ChatSession = {
+        ...toChatSession({ ...persisted, lastMessageAt: getLastUserMessageTimestamp(persisted.messages) ?? persisted.createdAt }, true),
+        agentSessionId: persisted.agentSessionId,
+        codexThreadId: persisted.codexThreadId,
+      };
+      await window.claude.sessions.save(persisted);
+      cacheSessionPayload(persisted);
+
+      setSessions((prev) => [
+        imported,
+        ...prev.filter((s) => s.id !== DRAFT_ID).map((s) => ({ ...s, isActive: false })),
+      ]);
+      setInitialMessages(persisted.messages);
+      setInitialMeta(null);
+      setInitialPermission(null);
+      setInitialRawAcpPermission(null);
+      setActiveSessionId(imported.id);
+      setDraftProjectId(null);
+      capture("session_imported", { engine: persisted.engine ?? "claude", message_count: persisted.messages.length, read_only: !!persisted.readOnly });
+      return { ok: true, notice: result.notice };
+    },
+    [cacheSessionPayload, findProject, getProjectCwd, saveCurrentSession, seedBackgroundStore, switchSession],
+  );
+
+  // ── Fork the active session at a user message (original stays untouched) ──
+
+  const forkSession = useCallback(
+    async (messageId: string): Promise<{ ok?: boolean; error?: string }> => {
+      const sourceId = activeSessionIdRef.current;
+      if (!sourceId || sourceId === DRAFT_ID) return { error: "Send a message before forking this chat." };
+      if (isProcessingRef.current) {
+        return { error: "Wait for the current turn to finish before forking." };
+      }
+
+      const source = sessionsRef.current.find((s) => s.id === sourceId);
+      if (!source) return { error: "Active session not found." };
+      const project = findProject(source.projectId);
+      if (!project) return { error: "Project not found." };
+      const forkPoint = getSessionForkPoint(messagesRef.current, messageId);
+      if (!forkPoint) return { error: "Only sent user messages can be forked." };
+
+      const engine = source.engine ?? "claude";
+      const cwd = getProjectCwd(project);
+      let forkId: string;
+      let codexThreadId: string | undefined;
+      let isLive = false;
+
+      if (engine === "codex") {
+        let sourceThreadId: string | undefined = source.codexThreadId;
+        if (!sourceThreadId) {
+          try {
+            const persisted = await window.claude.sessions.load(source.projectId, sourceId);
+            sourceThreadId = persisted?.codexThreadId;
+          } catch { /* surfaced below */ }
+        }
+        if (!sourceThreadId) return { error: "This Codex chat has no thread to fork yet." };
+
+        const result = await window.claude.codex.fork({
+          cwd,
+          threadId: sourceThreadId,
+          dropTurns: forkPoint.droppedTurns,
+          model: source.model,
+        });
+        if (result.error || !result.threadId) {
+          return { error: result.error || "Failed to fork Codex thread." };
+        }
+        // Not live yet — the first message revives it via thread/resume.
+        forkId = crypto.randomUUID();
+        codexThreadId = result.threadId;
+      } else if (engine === "claude") {
+        if (!forkPoint.checkpointId) return { error: "This message has no checkpoint to fork from." };
+
+        const mcpServers = await window.claude.mcp.list(source.projectId);
+        const startResult = await window.claude.start({
+          cwd,
+          model: source.model,
+          permissionMode: getEffectiveClaudePermissionMode(startOptionsRef.current),
+          thinkingEnabled: startOptionsRef.current.thinkingEnabled,
+          effort: startOptionsRef.current.effort,
+          resume: sourceId,
+          forkSession: true,
+          resumeSessionAt: forkPoint.checkpointId,
+          mcpServers,
+          maxBudgetUsd: getClaudeMaxBudgetUsd(null, source.projectId),
+        });
+        if (startResult.error) return { error: startResult.error };
+        forkId = startResult.sessionId;
+        liveSessionIdsRef.current.add(forkId);
+        isLive = true;
+      } else {
+        return { error: "Forking is not supported for ACP agents." };
+      }
+
+      seedBackgroundStore();
+      void saveCurrentSession();
+
+      const forked: ChatSession = {
+        id: forkId,
+        projectId: source.projectId,
+        title: getForkTitle(source.title),
+        createdAt: Date.now(),
+        model: source.model,
+        effort: source.effort,
+        permissionMode: source.permissionMode,
+        totalCost: 0,
+        engine: source.engine,
+        codexThreadId,
+        folderId: source.folderId,
+        branch: source.branch,
+        cwd: source.cwd,
+        parentSessionId: sourceId,
+        isActive: true,
+      };
+      const persisted = buildPersistedSession(forked, forkPoint.messages, 0, null);
+      await window.claude.sessions.save(persisted);
+      cacheSessionPayload(persisted);
+
+      setSessions((prev) => [
+        forked,
+        ...prev.filter((s) => s.id !== DRAFT_ID).map((s) => ({ ...s, isActive: false })),
+      ]);
+      setInitialMessages(forkPoint.messages);
+      setInitialMeta({
+        isProcessing: false,
+        isConnected: isLive,
+        sessionInfo: null, // repopulated by system/init once the fork is live
+        totalCost: 0,
+        contextUsage: null,
+      });
+      setInitialPermission(null);
+      setInitialRawAcpPermission(null);
+      setActiveSessionId(forkId);
+      setDraftProjectId(null);
+      capture("session_forked", { engine, message_count: forkPoint.messages.length });
+      return { ok: true };
+    },
+    [cacheSessionPayload, findProject, getProjectCwd, saveCurrentSession, seedBackgroundStore],
+  );
+
   // ── Switch draft engine/agent ──
 
   const setDraftAgent = useCallback((draftEngine: string, agentId: string, _cachedConfigOptions?: ACPConfigOption[], model?: string) => {
@@ -464,6 +685,9 @@ export function useSessionCrud({
     renameSession,
     deselectSession,
     importCCSession,
+    importCodexThread,
+    importSessionFile,
+    forkSession,
     setDraftAgent,
   };
 }
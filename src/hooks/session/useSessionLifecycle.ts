@@ -1,5 +1,5 @@
 import { useCallback } from "react";
-import type { ImageAttachment, McpServerConfig, Project } from "@/types";
+import type { CodexReviewTarget, ImageAttachment, McpServerConfig, Project } from "@/types";
 import type { CollaborationMode } from "../../types/codex-protocol/CollaborationMode";
 import { imageAttachmentsToCodexInputs } from "../../lib/engine/codex-adapter";
 import { createSystemMessage, createUserMessage } from "../../lib/message-factory";
@@ -36,6 +36,7 @@ interface UseSessionLifecycleParams {
   reviveSession: (text: string, images?: ImageAttachment[], displayText?: string) => Promise<void>;
   reviveAcpSession: (text: string, images?: ImageAttachment[], displayText?: string) => Promise<void>;
   reviveCodexSession: (text: string, images?: ImageAttachment[]) => Promise<void>;
+  reviveCodexReview: (target: CodexReviewTarget) => Promise<void>;
   // From message queue
   enqueueMessage: (text: string, images?: ImageAttachment[], displayText?: string) => void;
   clearQueue: () => void;
@@ -64,6 +65,7 @@ export function useSessionLifecycle({
   reviveSession,
   reviveAcpSession,
   reviveCodexSession,
+  reviveCodexReview,
   enqueueMessage,
   clearQueue,
   resetCodexEffortToModelDefault,
@@ -95,6 +97,9 @@ export function useSessionLifecycle({
     renameSession,
     deselectSession,
     importCCSession,
+    importCodexThread,
+    importSessionFile,
+    forkSession,
     setDraftAgent,
   } = useSessionCrud({
     refs,
@@ -351,6 +356,20 @@ export function useSessionLifecycle({
     ],
   );
 
+  /** Start a Codex `review/start` turn on the active session, resuming it first when dead */
+  const startCodexReview = useCallback(
+    async (target: CodexReviewTarget) => {
+      const activeId = refs.activeSessionIdRef.current;
+      if (!activeId || activeId === DRAFT_ID || refs.isProcessingRef.current) return;
+      if (refs.liveSessionIdsRef.current.has(activeId)) {
+        await codex.startReview(target);
+        return;
+      }
+      await reviveCodexReview(target);
+    },
+    [codex.startReview, reviveCodexReview],
+  );
+
   return {
     createSession,
     switchSession,
@@ -358,6 +377,10 @@ export function useSessionLifecycle({
     renameSession,
     deselectSession,
     importCCSession,
+    importCodexThread,
+    importSessionFile,
+    forkSession,
+    startCodexReview,
     setDraftAgent,
     setActiveModel,
     setSessionModel,
@@ -1,10 +1,14 @@
 import { useCallback, useEffect } from "react";
 import { toast } from "sonner";
-import type { PersistedSession, ClaudeEvent, SystemInitEvent, EngineId, ACPSessionEvent, ACPPermissionEvent, ACPTurnCompleteEvent } from "@/types";
+import type { PersistedSession, ClaudeEvent, SystemInitEvent, EngineId, ACPSessionEvent, ACPPermissionEvent, ACPTerminalOutputEvent, ACPTurnCompleteEvent, Project, SessionBase, UIMessage } from "@/types";
 import { canonicalizeModelValue } from "@/lib/model-utils";
 import { getSessionNotificationActor } from "@/lib/session-notifications";
 import { toMcpStatusState } from "../../lib/mcp-utils";
 import { buildPersistedSession } from "../../lib/session/records";
+import { extractTurnSummaries } from "@/lib/chat/turn-changes";
+import { recordSessionEdits } from "@/lib/git/session-attribution";
+import { getSessionCwd } from "@/lib/session/space-projects";
+import { acpTerminalOutputs } from "@/lib/engine/acp-terminal-output";
 import { normalizeToolInput as acpNormalizeToolInput, pickAutoResponseOption } from "../../lib/engine/acp-adapter";
 import { DRAFT_ID } from "./types";
 import type { SharedSessionRefs, SharedSessionSetters, EngineHooks } from "./types";
@@ -17,6 +21,12 @@ interface UseSessionPersistenceParams {
   continueQueuedBackgroundSession?: (sessionId: string) => boolean;
 }
 
+/** Record a chat's file edits so commits can be attributed to it later. */
+function recordEdits(session: Pick<SessionBase, "id" | "cwd" | "projectId">, messages: UIMessage[], projects: Project[]): void {
+  const root = getSessionCwd(session, projects);
+  if (root) recordSessionEdits(session.id, root, extractTurnSummaries(messages, false));
+}
+
 export function useSessionPersistence({
   refs,
   setters,
@@ -37,6 +47,7 @@ export function useSessionPersistence({
   const {
     activeSessionIdRef,
     sessionsRef,
+    projectsRef,
     messagesRef,
     totalCostRef,
     contextUsageRef,
@@ -59,6 +70,8 @@ export function useSessionPersistence({
 
   // Persist session with Codex thread ID fallback
   const persistSessionWithCodexFallback = useCallback(async (data: PersistedSession) => {
+    // Every save records the chat's file edits
+    recordEdits(data, data.messages, projectsRef.current);
     let payload = data;
     if (data.engine === "codex" && !data.codexThreadId) {
       try {
@@ -69,7 +82,7 @@ export function useSessionPersistence({
       }
     }
     await window.claude.sessions.save(payload);
-  }, []);
+  }, [projectsRef]);
 
   // Wire up background store callbacks for sidebar indicators
   useEffect(() => {
@@ -90,6 +103,11 @@ export function useSessionPersistence({
         ),
       );
 
+      if (wasProcessing && !isProcessing) {
+        const bgState = backgroundStoreRef.current.get(sessionId);
+        if (bgState && session) recordEdits(session, bgState.messages, projectsRef.current);
+      }
+
       const continuedQueuedSession = wasProcessing && !isProcessing
         ? !!continueQueuedBackgroundSession?.(sessionId)
         : false;
@@ -138,7 +156,7 @@ export function useSessionPersistence({
         },
       }));
     };
-  }, [continueQueuedBackgroundSession, sessionsRef, setSessions, switchSessionRef, backgroundStoreRef]);
+  }, [continueQueuedBackgroundSession, sessionsRef, projectsRef, setSessions, switchSessionRef, backgroundStoreRef]);
 
   // Handle session exits across all engines
   useEffect(() => {
@@ -176,13 +194,18 @@ export function useSessionPersistence({
             bgState.totalCost,
             bgState.contextUsage,
           );
+          recordEdits(session, bgState.messages, projectsRef.current);
           window.claude.sessions.save(persisted);
         }
       }
     };
 
     const unsubExit = window.claude.onExit((data) => handleSessionExit(data._sessionId));
-    const unsubAcpExit = window.claude.acp.onExit((data: { _sessionId: string; code: number | null }) => handleSessionExit(data._sessionId));
+    const unsubAcpExit = window.claude.acp.onExit((data: { _sessionId: string; code: number | null }) => {
+      // The main process released the agent's terminals with it
+      acpTerminalOutputs.clear(data._sessionId);
+      handleSessionExit(data._sessionId);
+    });
     const unsubCodexExit = window.claude.codex.onExit((data) => handleSessionExit(data._sessionId));
     return () => {
       unsubExit();
@@ -225,6 +248,13 @@ export function useSessionPersistence({
       if (sid === draftAcpSessionIdRef.current) return;
       backgroundStoreRef.current.handleACPEvent(event);
     });
+    const unsubAcpTerminal = window.claude.acp.onTerminalOutput((event: ACPTerminalOutputEvent) => {
+      const sid = event._sessionId;
+      if (sid === activeSessionIdRef.current) return;
+      if (visibleSplitSessionIdsRef.current.includes(sid)) return;
+      if (sid === draftAcpSessionIdRef.current) return;
+      backgroundStoreRef.current.handleACPTerminalOutput(event);
+    });
 
     // Route permission requests for non-active Claude sessions to the background store
     const unsubBgPerm = window.claude.onPermissionRequest((data) => {
@@ -317,7 +347,7 @@ export function useSessionPersistence({
       });
     });
 
-    return () => { unsub(); unsubAcp(); unsubBgPerm(); unsubBgAcpPerm(); unsubBgAcpTurn(); unsubCodex(); unsubCodexApproval(); };
+    return () => { unsub(); unsubAcp(); unsubAcpTerminal(); unsubBgPerm(); unsubBgAcpPerm(); unsubBgAcpTurn(); unsubCodex(); unsubCodexApproval(); };
   }, []);
 
   // Debounced auto-save
@@ -343,6 +373,8 @@ export function useSessionPersistence({
         totalCost: totalCostRef.current,
         contextUsage: contextUsageRef.current,
         engine: session.engine,
+        ...(session.parentSessionId ? { parentSessionId: session.parentSessionId } : {}),
+        ...(session.readOnly ? { readOnly: true } : {}),
         ...(session.agentId ? { agentId: session.agentId } : {}),
         ...(session.agentSessionId ? { agentSessionId: session.agentSessionId } : {}),
         ...(session.engine === "codex" && session.codexThreadId ? { codexThreadId: session.codexThreadId } : {}),
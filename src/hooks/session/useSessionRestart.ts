@@ -9,6 +9,7 @@ import {
   getCodexApprovalPolicy,
   getCodexSandboxMode,
 } from "./types";
+import { getClaudeMaxBudgetUsd } from "./useBudgetGuard";
 import type { SharedSessionRefs, SharedSessionSetters, EngineHooks } from "./types";
 
 interface UseSessionRestartParams {
@@ -250,6 +251,7 @@ export function useSessionRestart({
       forkSession: true,
       resumeSessionAt: checkpointId,
       mcpServers,
+      maxBudgetUsd: getClaudeMaxBudgetUsd(currentId, session.projectId),
     });
 
     if (startResult.error) {
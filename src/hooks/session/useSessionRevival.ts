@@ -1,8 +1,9 @@
 import { useCallback } from "react";
-import type { ImageAttachment, Project } from "../../types";
+import type { CodexReviewTarget, ImageAttachment, Project } from "../../types";
 import type { CollaborationMode } from "../../types/codex-protocol/CollaborationMode";
 import { toMcpStatusState } from "../../lib/mcp-utils";
 import { imageAttachmentsToCodexInputs } from "../../lib/engine/codex-adapter";
+import { describeReviewTarget } from "../../lib/engine/codex-review";
 import { buildSdkContent } from "../../lib/engine/protocol";
 import { capture } from "../../lib/analytics/analytics";
 import { createSystemMessage, createUserMessage } from "../../lib/message-factory";
@@ -13,6 +14,7 @@ import {
   getCodexSandboxMode,
   buildCodexCollabMode,
 } from "./types";
+import { getClaudeMaxBudgetUsd } from "./useBudgetGuard";
 import type { SharedSessionRefs, SharedSessionSetters, EngineHooks } from "./types";
 
 interface UseSessionRevivalParams {
@@ -120,15 +122,18 @@ export function useSessionRevival({
     [findProject, acp.setMessages, acp.setIsProcessing],
   );
 
-  /** Revive a dead Codex session — spawn new app-server + thread/resume */
-  const reviveCodexSession = useCallback(
-    async (text: string, images?: ImageAttachment[]) => {
+  /**
+   * Resume the active dead Codex session — spawn new app-server + thread/resume
+   * and swap the session over to the live id. Returns null when resume failed.
+   */
+  const resumeCodexThread = useCallback(
+    async (): Promise<{ newId: string; model?: string } | null> => {
       const oldId = activeSessionIdRef.current;
-      if (!oldId || oldId === DRAFT_ID) return;
+      if (!oldId || oldId === DRAFT_ID) return null;
       const session = sessionsRef.current.find((s) => s.id === oldId);
-      if (!session) return;
+      if (!session) return null;
       const project = findProject(session.projectId);
-      if (!project) return;
+      if (!project) return null;
 
       // Resolve thread ID from in-memory session first, then persisted session.
       let codexThreadId: string | undefined = session.codexThreadId;
@@ -141,7 +146,7 @@ export function useSessionRevival({
 
       if (!codexThreadId) {
         codex.setMessages((prev) => [...prev, createSystemMessage("Codex session cannot be resumed (no thread ID). Please start a new session.", true)]);
-        return;
+        return null;
       }
 
       const result = await window.claude.codex.resume({
@@ -154,7 +159,7 @@ export function useSessionRevival({
 
       if (result.error || !result.sessionId) {
         codex.setMessages((prev) => [...prev, createSystemMessage(result.error || "Failed to resume Codex session.", true)]);
-        return;
+        return null;
       }
 
       const newId = result.sessionId;
@@ -175,11 +180,23 @@ export function useSessionRevival({
 
       // Small delay to let hook pick up new sessionId
       await new Promise((resolve) => setTimeout(resolve, 50));
+      return { newId, model: session.model };
+    },
+    [findProject, codex.setMessages],
+  );
+
+  /** Revive a dead Codex session and send the message on the resumed thread */
+  const reviveCodexSession = useCallback(
+    async (text: string, images?: ImageAttachment[]) => {
+      const resumed = await resumeCodexThread();
+      if (!resumed) return;
+      const { newId } = resumed;
+
       codex.setMessages((prev) => [...prev, createUserMessage(text, images)]);
       codex.setIsProcessing(true);
       let codexCollabMode: CollaborationMode | undefined;
       try {
-        codexCollabMode = buildCodexCollabMode(startOptionsRef.current.planMode, session.model);
+        codexCollabMode = buildCodexCollabMode(startOptionsRef.current.planMode, resumed.model);
       } catch (err) {
         codex.setMessages((prev) => [...prev, createSystemMessage(err instanceof Error ? err.message : String(err), true)]);
         codex.setIsProcessing(false);
@@ -197,7 +214,24 @@ export function useSessionRevival({
         codex.setIsProcessing(false);
       }
     },
-    [findProject, codex.setMessages, codex.setIsProcessing],
+    [resumeCodexThread, codex.setMessages, codex.setIsProcessing],
+  );
+
+  /** Revive a dead Codex session and start a code review on the resumed thread */
+  const reviveCodexReview = useCallback(
+    async (target: CodexReviewTarget) => {
+      const resumed = await resumeCodexThread();
+      if (!resumed) return;
+
+      codex.setMessages((prev) => [...prev, createUserMessage(`Review ${describeReviewTarget(target)}`)]);
+      codex.setIsProcessing(true);
+      const reviewResult = await window.claude.codex.review(resumed.newId, target);
+      if (reviewResult?.error) {
+        codex.setMessages((prev) => [...prev, createSystemMessage(`Unable to start review: ${reviewResult.error}`, true)]);
+        codex.setIsProcessing(false);
+      }
+    },
+    [resumeCodexThread, codex.setMessages, codex.setIsProcessing],
   );
 
   // Claude SDK revival — resume session to restore conversation context
@@ -217,6 +251,7 @@ export function useSessionRevival({
         thinkingEnabled: startOptionsRef.current.thinkingEnabled,
         effort: startOptionsRef.current.effort,
         resume: oldId, // Resume the SDK session to restore conversation context
+        maxBudgetUsd: getClaudeMaxBudgetUsd(oldId, session.projectId),
       };
 
       let result;
@@ -300,5 +335,6 @@ export function useSessionRevival({
     reviveSession,
     reviveAcpSession,
     reviveCodexSession,
+    reviveCodexReview,
   };
 }
@@ -9,11 +9,13 @@ import type {
   ACPSessionEvent,
   ACPPermissionEvent,
   ACPTurnCompleteEvent,
+  ACPTerminalOutputEvent,
   ACPConfigOption,
   ACPAvailableCommandsUpdate,
   ACPAuthMethod,
 } from "@/types";
 import { ACPStreamingBuffer, normalizeToolInput, normalizeToolResult, deriveToolName, mergeToolInput, pickAutoResponseOption } from "@/lib/engine/acp-adapter";
+import { acpTerminalOutputs, withTerminalOutput } from "@/lib/engine/acp-terminal-output";
 import { extractTaskSubagentSteps, getTaskStatus, isTaskToolName } from "@/lib/engine/acp-task-adapter";
 import { suppressNextSessionCompletion } from "@/lib/notification-utils";
 import { captureException } from "@/lib/analytics/analytics";
@@ -75,6 +77,9 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
   /** Track the active ACP task/subagent tool so inner tool_calls + text are routed into its card. */
   const activeTaskRef = useRef<{ msgId: string; toolCallId: string; hasInnerTools: boolean; textBuffer: string } | null>(null);
   const acpPermissionRef = useRef<ACPPermissionEvent | null>(null);
+  /** Terminals with output not yet shown, flushed together once per frame. */
+  const dirtyTerminalsRef = useRef(new Set<string>());
+  const terminalFrameRef = useRef<number | null>(null);
   // Track latest permission behavior to avoid stale closures in event listeners
   const acpPermissionBehaviorRef = useRef<AcpPermissionBehavior>(acpPermissionBehavior ?? "ask");
   acpPermissionBehaviorRef.current = acpPermissionBehavior ?? "ask";
@@ -83,6 +88,11 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
   useEffect(() => {
     acpPermissionRef.current = initialRawAcpPermission ?? null;
     activeTaskRef.current = null;
+    dirtyTerminalsRef.current.clear();
+    if (terminalFrameRef.current !== null) {
+      cancelAnimationFrame(terminalFrameRef.current);
+      terminalFrameRef.current = null;
+    }
     setConfigOptions(initialConfigOptions ?? []);
     setConfigOptionsLoading(false);
     setSlashCommands(initialSlashCommands ?? []);
@@ -163,6 +173,50 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
     });
   }, []);
 
+  /** Mirror the accumulated output of every changed terminal into the tool cards that embed them. */
+  const flushTerminalOutput = useCallback(() => {
+    if (terminalFrameRef.current !== null) {
+      cancelAnimationFrame(terminalFrameRef.current);
+      terminalFrameRef.current = null;
+    }
+    const sid = sessionIdRef.current;
+    const outputByMsgId = new Map<string, string>();
+    for (const terminalId of dirtyTerminalsRef.current) {
+      const msgId = sid ? acpTerminalOutputs.getMessageId(sid, terminalId) : undefined;
+      const output = sid ? acpTerminalOutputs.getOutput(sid, terminalId) : undefined;
+      if (msgId && output !== undefined) outputByMsgId.set(msgId, output);
+    }
+    dirtyTerminalsRef.current.clear();
+    if (outputByMsgId.size === 0) return;
+    setMessages(prev => prev.map(m => {
+      const output = outputByMsgId.get(m.id);
+      return output === undefined ? m : { ...m, toolResult: withTerminalOutput(m.toolResult, output) };
+    }));
+  }, [setMessages]);
+
+  const applyTerminalOutput = useCallback((terminalId: string) => {
+    dirtyTerminalsRef.current.add(terminalId);
+    if (terminalFrameRef.current === null) terminalFrameRef.current = requestAnimationFrame(flushTerminalOutput);
+  }, [flushTerminalOutput]);
+
+  // Drop a queued frame on unmount
+  useEffect(() => () => {
+    if (terminalFrameRef.current !== null) cancelAnimationFrame(terminalFrameRef.current);
+  }, []);
+
+  /** Link terminals referenced by a top-level tool call to its message, replaying early output. */
+  const linkTerminals = useCallback((msgId: string, content?: unknown[] | null) => {
+    const sid = sessionIdRef.current;
+    if (!sid) return;
+    for (const terminalId of acpTerminalOutputs.link(sid, msgId, content)) applyTerminalOutput(terminalId);
+  }, [applyTerminalOutput]);
+
+  /** Show a finished tool call's last terminal output, then stop tracking its terminals. */
+  const releaseTerminals = useCallback((msgId: string) => {
+    flushTerminalOutput();
+    if (sessionIdRef.current) acpTerminalOutputs.release(sessionIdRef.current, msgId);
+  }, [flushTerminalOutput]);
+
   const handleSessionUpdate = useCallback((event: ACPSessionEvent) => {
     if (event._sessionId !== sessionIdRef.current) return;
     const { update } = event;
@@ -251,6 +305,7 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
           timestamp: Date.now(),
         }];
       });
+      linkTerminals(msgId, tc.content);
     } else if (kind === "tool_call_update") {
       const tcu = update as Extract<typeof update, { sessionUpdate: "tool_call_update" }>;
       const result = normalizeToolResult(tcu.rawOutput, tcu.content);
@@ -335,6 +390,8 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
           ...(nextTaskSteps ? { subagentSteps: nextTaskSteps } : {}),
         };
       }));
+      linkTerminals(msgId, tcu.content);
+      if (tcu.status === "completed" || tcu.status === "failed") releaseTerminals(msgId);
     } else if (kind === "config_option_update") {
       const cou = update as { sessionUpdate: "config_option_update"; configOptions: ACPConfigOption[] };
       acpLog("CONFIG_UPDATE", { optionCount: cou.configOptions?.length });
@@ -374,7 +431,7 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
       const p = update as Extract<typeof update, { sessionUpdate: "plan" }>;
       acpLog("PLAN", { entryCount: p.entries?.length });
     }
-  }, [closePendingTools, ensureStreamingMessage, finalizeStreamingMessage, scheduleFlush]);
+  }, [closePendingTools, ensureStreamingMessage, finalizeStreamingMessage, linkTerminals, releaseTerminals, scheduleFlush]);
 
   useEffect(() => {
     if (!sessionId) return;
@@ -480,6 +537,12 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
       setIsProcessing(false);
     });
 
+    const unsubTerminalOutput = window.claude.acp.onTerminalOutput((data: ACPTerminalOutputEvent) => {
+      if (data._sessionId !== sessionIdRef.current) return;
+      acpTerminalOutputs.append(data._sessionId, data.terminalId, data.data);
+      applyTerminalOutput(data.terminalId);
+    });
+
     const unsubExit = window.claude.acp.onExit((data: { _sessionId: string; code: number | null; error?: string }) => {
       if (data._sessionId !== sessionIdRef.current) return;
       acpLog("SESSION_EXIT", { code: data.code, error: data.error });
@@ -496,10 +559,10 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
     });
 
     return () => {
-      unsubEvent(); unsubPermission(); unsubTurnComplete(); unsubExit();
+      unsubEvent(); unsubPermission(); unsubTurnComplete(); unsubTerminalOutput(); unsubExit();
       cancelPendingFlush();
     };
-  }, [closePendingTools, finalizeStreamingMessage, handleSessionUpdate, initialConfigOptions, sessionId]);
+  }, [applyTerminalOutput, closePendingTools, finalizeStreamingMessage, handleSessionUpdate, initialConfigOptions, sessionId]);
 
   const send = useCallback(async (text: string, images?: ImageAttachment[], displayText?: string) => {
     if (!sessionId) return;
@@ -297,10 +297,13 @@ export function useAppOrchestrator() {
     handleAgentWorktreeChange: sessionActions.handleAgentWorktreeChange,
     handleStop: sessionActions.handleStop,
     handleSendQueuedNow: sessionActions.handleSendQueuedNow,
+    handleSteerQueuedMessage: sessionActions.handleSteerQueuedMessage,
     handleUnqueueMessage: sessionActions.handleUnqueueMessage,
     handleSelectSession: sessionActions.handleSelectSession,
     handleCreateProject: sessionActions.handleCreateProject,
     handleImportCCSession: sessionActions.handleImportCCSession,
+    handleImportCodexThread: sessionActions.handleImportCodexThread,
+    handleImportSessionFile: sessionActions.handleImportSessionFile,
     handleSeedDevExampleSpaceData: sessionActions.handleSeedDevExampleSpaceData,
     handleNavigateToMessage: (sessionId: string, messageId: string) => sessionActions.handleNavigateToMessage(sessionId, environment.setScrollToMessageId, messageId),
     handleStartCreateSpace: spaceWorkflow.handleStartCreateSpace,
@@ -405,10 +408,13 @@ export function useAppOrchestrator() {
     handleAgentWorktreeChange: sessionActions.handleAgentWorktreeChange,
     handleStop: sessionActions.handleStop,
     handleSendQueuedNow: sessionActions.handleSendQueuedNow,
+    handleSteerQueuedMessage: sessionActions.handleSteerQueuedMessage,
     handleUnqueueMessage: sessionActions.handleUnqueueMessage,
     handleSelectSession: sessionActions.handleSelectSession,
     handleCreateProject: sessionActions.handleCreateProject,
     handleImportCCSession: sessionActions.handleImportCCSession,
+    handleImportCodexThread: sessionActions.handleImportCodexThread,
+    handleImportSessionFile: sessionActions.handleImportSessionFile,
     handleSeedDevExampleSpaceData: sessionActions.handleSeedDevExampleSpaceData,
     handleNavigateToMessage: (sessionId: string, messageId: string) => sessionActions.handleNavigateToMessage(sessionId, environment.setScrollToMessageId, messageId),
     handleStartCreateSpace: spaceWorkflow.handleStartCreateSpace,
@@ -33,7 +33,7 @@ import {
   normalizeToolResult,
   buildSdkContent,
 } from "../lib/engine/protocol";
-import { createSystemMessage, createUserMessage, formatResultError, nextId } from "../lib/message-factory";
+import { createBudgetPauseMessage, createSystemMessage, createUserMessage, formatResultError, nextId } from "../lib/message-factory";
 import { bgAgentStore } from "../lib/background/agent-store";
 import { suppressNextSessionCompletion } from "../lib/notification-utils";
 import { advancePermissionQueue, enqueuePermissionRequest } from "../lib/engine/permission-queue";
@@ -707,9 +707,13 @@ export function useClaude({ sessionId, initialMessages, initialMeta, initialPerm
             const errorMsg = resultEvent.errors?.join("\n")
               || resultEvent.result
               || "An error occurred";
+            const text = formatResultError(resultEvent.subtype, errorMsg);
             setMessages((prev) => [
               ...prev,
-              createSystemMessage(formatResultError(resultEvent.subtype, errorMsg), true),
+              // The SDK stopped on its own budget — show the same resumable pause as the budget guard
+              resultEvent.subtype === "error_max_budget_usd"
+                ? createBudgetPauseMessage(text, true)
+                : createSystemMessage(text, true),
             ]);
           }
 
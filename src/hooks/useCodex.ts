@@ -8,7 +8,7 @@
 
 import { useState, useCallback, useEffect, useRef } from "react";
 import { toast } from "sonner";
-import type { TodoItem, AppPermissionBehavior, ModelInfo, ImageAttachment, SessionInfo, BackgroundSessionSnapshot, SlashCommand, CodexSessionEvent, CodexServerRequest, CodexExitEvent, CodexTokenUsageNotification } from "@/types";
+import type { TodoItem, AppPermissionBehavior, ModelInfo, ImageAttachment, SessionInfo, BackgroundSessionSnapshot, SlashCommand, CodexSessionEvent, CodexServerRequest, CodexExitEvent, CodexTokenUsageNotification, CodexThreadItem, CodexReviewTarget, UIMessage } from "@/types";
 import type { CollaborationMode } from "@/types/codex-protocol/CollaborationMode";
 import type { ItemStartedNotification } from "@/types/codex-protocol/v2/ItemStartedNotification";
 import type { ItemCompletedNotification } from "@/types/codex-protocol/v2/ItemCompletedNotification";
@@ -32,6 +32,7 @@ import {
 import { suppressNextSessionCompletion } from "@/lib/notification-utils";
 import { captureException } from "@/lib/analytics/analytics";
 import { createSystemMessage, createUserMessage, nextId } from "@/lib/message-factory";
+import { describeReviewTarget } from "@/lib/engine/codex-review";
 import { useEngineBase } from "./useEngineBase";
 
 interface UseCodexOptions {
@@ -405,6 +406,38 @@ export function useCodex({
     }
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // ── Review mode: one CodexReview card per review turn ──
+  // enteredReviewMode carries the target hint, exitedReviewMode the rendered review.
+  // Both can arrive as started and completed items, so upserts must be idempotent.
+  const upsertReviewCard = useCallback((
+    turnId: string,
+    item: Extract<CodexThreadItem, { type: "enteredReviewMode" | "exitedReviewMode" }>,
+  ) => {
+    const msgId = `codex-review-${turnId}`;
+    const patch: Partial<UIMessage> = item.type === "enteredReviewMode"
+      ? { toolInput: { target: item.review } }
+      : { toolResult: { content: item.review } };
+    setMessages((prev) => {
+      const existing = prev.find((m) => m.id === msgId);
+      if (existing) {
+        if (item.type === "enteredReviewMode" && existing.toolInput) return prev;
+        return prev.map((m) => (m.id === msgId ? { ...m, ...patch } : m));
+      }
+      return [
+        ...prev,
+        {
+          id: msgId,
+          role: "tool_call" as const,
+          content: "",
+          toolName: "CodexReview",
+          toolInput: {},
+          timestamp: Date.now(),
+          ...patch,
+        },
+      ];
+    });
+  }, []);
+
   // ── Item started: create UIMessage for tool calls, start streaming for agentMessage ──
   const handleItemStarted = useCallback((params: ItemStartedNotification) => {
     const item = params.item;
@@ -418,6 +451,11 @@ export function useCodex({
     // previous assistant stream so future deltas append below these items.
     finalizeStreamingAssistant();
 
+    if (item.type === "enteredReviewMode" || item.type === "exitedReviewMode") {
+      upsertReviewCard(params.turnId, item);
+      return;
+    }
+
     // contextCompaction is handled via thread/compacted notification, not item/started
     // Tool-type item — create a tool_call message
     const toolName = codexItemToToolName(item);
@@ -437,7 +475,7 @@ export function useCodex({
         },
       ]);
     }
-  }, [bindAssistantItem, finalizeStreamingAssistant]);
+  }, [bindAssistantItem, finalizeStreamingAssistant, upsertReviewCard]);
 
   // ── Item completed: finalize tool call with result ──
   const handleItemCompleted = useCallback((params: ItemCompletedNotification) => {
@@ -561,6 +599,11 @@ export function useCodex({
       return;
     }
 
+    if (item.type === "enteredReviewMode" || item.type === "exitedReviewMode") {
+      upsertReviewCard(params.turnId, item);
+      return;
+    }
+
     // Finalize tool_call messages — deterministic fallback works even if
     // itemMapRef was cleared after a session switch
     const msgId = itemMapRef.current.get(item.id) ?? `codex-tool-${item.id}`;
@@ -599,7 +642,7 @@ export function useCodex({
 
     itemMapRef.current.delete(item.id);
     commandOutputRef.current.delete(item.id);
-  }, [finalizeStreamingAssistant]);
+  }, [finalizeStreamingAssistant, upsertReviewCard]);
 
   // ── Agent message delta: accumulate text for rAF flush ──
   const handleAgentDelta = useCallback((params: AgentMessageDeltaNotification) => {
@@ -941,6 +984,33 @@ export function useCodex({
     await window.claude.codex.compact(sessionId);
   }, [sessionId]);
 
+  const startReview = useCallback(
+    async (target: CodexReviewTarget): Promise<boolean> => {
+      if (!sessionId) return false;
+      const label = `Review ${describeReviewTarget(target)}`;
+      // Review turns count as user turns on the thread (fork rollback relies on that)
+      setMessages((prev) => [...prev, createUserMessage(label)]);
+      setIsProcessing(true);
+      try {
+        const result = await window.claude.codex.review(sessionId, target);
+        if (result?.error) {
+          setIsProcessing(false);
+          setMessages((prev) => [
+            ...prev,
+            createSystemMessage(`Unable to start review: ${result.error}`, true),
+          ]);
+          return false;
+        }
+        return true;
+      } catch (err) {
+        captureException(err instanceof Error ? err : new Error(String(err)), { label: "CODEX_REVIEW_ERR" });
+        setIsProcessing(false);
+        return false;
+      }
+    },
+    [sessionId],
+  );
+
   const respondPermission = useCallback(
     async (behavior: AppPermissionBehavior, _updatedInput?: Record<string, unknown>, _newPermissionMode?: string) => {
       // Synthetic ExitPlanMode prompt (no real RPC) — just clear the prompt.
@@ -1089,7 +1159,7 @@ export function useCodex({
     totalCost, setTotalCost,
     contextUsage,
     isCompacting,
-    send, sendRaw, stop, interrupt, compact,
+    send, sendRaw, stop, interrupt, compact, startReview,
     pendingPermission, respondPermission,
     setPermissionMode,
     todoItems,
@@ -0,0 +1,99 @@
+/**
+ * Account-level Codex rate-limit state shared by the Settings usage view and
+ * the chat header indicator.
+ *
+ * Snapshots come from `account/rateLimits/read` on demand and from the
+ * `account/rateLimits/updated` notifications any live Codex session emits.
+ */
+
+import { useEffect } from "react";
+import { create } from "zustand";
+import type { CodexRateLimitSnapshot } from "@/types";
+
+interface CodexRateLimitsState {
+  snapshot: CodexRateLimitSnapshot | null;
+  /** Multi-bucket view keyed by metered limit id (e.g. `codex`). */
+  byLimitId: Record<string, CodexRateLimitSnapshot>;
+  updatedAt: number | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const useCodexRateLimitsStore = create<CodexRateLimitsState>(() => ({
+  snapshot: null,
+  byLimitId: {},
+  updatedAt: null,
+  loading: false,
+  error: null,
+}));
+
+function applySnapshot(snapshot: CodexRateLimitSnapshot): void {
+  useCodexRateLimitsStore.setState((prev) => ({
+    snapshot,
+    byLimitId: snapshot.limitId ? { ...prev.byLimitId, [snapshot.limitId]: snapshot } : prev.byLimitId,
+    updatedAt: Date.now(),
+    error: null,
+  }));
+}
+
+/** Read limits from Codex. `spawn` allows a short-lived app-server when no session is live. */
+export async function refreshCodexRateLimits(options?: { spawn?: boolean }): Promise<void> {
+  useCodexRateLimitsStore.setState({ loading: true });
+  try {
+    const result = await window.claude.codex.rateLimits(options);
+    if (result.error) {
+      useCodexRateLimitsStore.setState({ error: result.error });
+    } else if (result.rateLimits) {
+      applySnapshot(result.rateLimits);
+      const byLimitId: Record<string, CodexRateLimitSnapshot> = {};
+      for (const [limitId, snapshot] of Object.entries(result.rateLimitsByLimitId ?? {})) {
+        if (snapshot) byLimitId[limitId] = snapshot;
+      }
+      if (Object.keys(byLimitId).length > 0) useCodexRateLimitsStore.setState({ byLimitId });
+    }
+  } finally {
+    useCodexRateLimitsStore.setState({ loading: false });
+  }
+}
+
+// One IPC listener regardless of how many components read the store
+let subscriberCount = 0;
+let unsubscribeEvents: (() => void) | null = null;
+
+function retainEventSubscription(): () => void {
+  subscriberCount++;
+  if (!unsubscribeEvents) {
+    unsubscribeEvents = window.claude.codex.onEvent((event) => {
+      if (event.method === "account/rateLimits/updated") {
+        applySnapshot(event.params.rateLimits);
+      }
+    });
+  }
+  return () => {
+    subscriberCount--;
+    if (subscriberCount === 0) {
+      unsubscribeEvents?.();
+      unsubscribeEvents = null;
+    }
+  };
+}
+
+/**
+ * Subscribe to Codex rate limits. The first subscriber reads from a live
+ * session only; pass `spawn` (Settings) to also probe without one.
+ */
+export function useCodexRateLimits(options?: { spawn?: boolean }): CodexRateLimitsState {
+  const state = useCodexRateLimitsStore();
+  const spawn = options?.spawn ?? false;
+
+  useEffect(() => retainEventSubscription(), []);
+
+  useEffect(() => {
+    const { updatedAt, loading } = useCodexRateLimitsStore.getState();
+    if (spawn || (updatedAt == null && !loading)) {
+      void refreshCodexRateLimits({ spawn });
+    }
+  }, [spawn]);
+
+  return state;
+}
@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useRef, useState } from "react";
-import type { GitRepoInfo, GitStatus, GitBranch, GitLogEntry } from "@/types";
+import type { GitRepoInfo, GitStatus, GitBranch, GitLogEntry, GitOperation, GitConflictSide, GitStashEntry, GitHistoryFilter, GitResetMode, GitRewriteStep, GitCompareSide, GitPushOptions, WorktreeSession } from "@/types";
 import { reportError } from "@/lib/analytics/analytics";
 import { discoverReposCached, invalidateDiscoverReposCache } from "@/lib/git/discover-repos-cache";
 
@@ -14,15 +14,18 @@ export interface RepoState {
   branches: GitBranch[];
   log: GitLogEntry[];
   diffStat: DiffStat;
+  stashes: GitStashEntry[];
 }
 
 interface UseGitStatusOptions {
   projectPath?: string;
+  /** Chats bound to each worktree — removal is refused while one of them is live */
+  getWorktreeSessions?: (worktreePaths: string[]) => Map<string, WorktreeSession[]>;
 }
 
 const repoStatesCache = new Map<string, RepoState[]>();
 
-export function useGitStatus({ projectPath }: UseGitStatusOptions) {
+export function useGitStatus({ projectPath, getWorktreeSessions }: UseGitStatusOptions) {
   const [repoStates, setRepoStates] = useState<RepoState[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const repoStatesRef = useRef(repoStates);
@@ -30,8 +33,10 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
   const requestIdRef = useRef(0);
   const loadingRequestIdRef = useRef(0);
   const pollingInFlightRef = useRef(false);
+  const getWorktreeSessionsRef = useRef(getWorktreeSessions);
   repoStatesRef.current = repoStates;
   projectPathRef.current = projectPath;
+  getWorktreeSessionsRef.current = getWorktreeSessions;
 
   const isRequestCurrent = useCallback((requestId: number, scopePath?: string) => {
     return requestIdRef.current === requestId && projectPathRef.current === scopePath;
@@ -56,11 +61,12 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
     const updated = await Promise.all(
       repos.map(async (repo) => {
         const previous = previousByPath.get(repo.path);
-        const [statusResult, branchesResult, logResult, diffStatResult] = await Promise.all([
+        const [statusResult, branchesResult, logResult, diffStatResult, stashResult] = await Promise.all([
           window.claude.git.status(repo.path),
           window.claude.git.branches(repo.path),
           window.claude.git.log(repo.path, 30),
           window.claude.git.diffStat(repo.path),
+          window.claude.git.stashList(repo.path),
         ]);
         return {
           repo,
@@ -68,6 +74,7 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
           branches: Array.isArray(branchesResult) ? branchesResult : previous?.branches ?? [],
           log: Array.isArray(logResult) ? logResult : previous?.log ?? [],
           diffStat: diffStatResult ?? previous?.diffStat ?? { additions: 0, deletions: 0 },
+          stashes: Array.isArray(stashResult) ? stashResult : previous?.stashes ?? [],
         };
       }),
     );
@@ -139,11 +146,12 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
     if (idx === -1 || !scopePath) return;
     const requestId = ++requestIdRef.current;
     const rs = states[idx];
-    const [statusResult, branchesResult, logResult, diffStatResult] = await Promise.all([
+    const [statusResult, branchesResult, logResult, diffStatResult, stashResult] = await Promise.all([
       window.claude.git.status(rs.repo.path),
       window.claude.git.branches(rs.repo.path),
       window.claude.git.log(rs.repo.path, 30),
       window.claude.git.diffStat(rs.repo.path),
+      window.claude.git.stashList(rs.repo.path),
     ]);
     if (!isRequestCurrent(requestId, scopePath)) return;
     setRepoStates((prev) => {
@@ -157,6 +165,7 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
         branches: Array.isArray(branchesResult) ? branchesResult : rs.branches,
         log: Array.isArray(logResult) ? logResult : rs.log,
         diffStat: diffStatResult ?? rs.diffStat,
+        stashes: Array.isArray(stashResult) ? stashResult : rs.stashes,
       };
       repoStatesCache.set(scopePath, next);
       return next;
@@ -223,9 +232,18 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
     [refreshRepo],
   );
 
+  const applyPatch = useCallback(
+    async (repoPath: string, patch: string, options?: { cached?: boolean; reverse?: boolean }) => {
+      const result = await window.claude.git.applyPatch(repoPath, patch, options);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
   const commit = useCallback(
-    async (repoPath: string, message: string) => {
-      const result = await window.claude.git.commit(repoPath, message);
+    async (repoPath: string, message: string, options?: { trailers?: string[]; amend?: boolean; allowPushed?: boolean }) => {
+      const result = await window.claude.git.commit(repoPath, message, options);
       refreshRepo(repoPath);
       return result;
     },
@@ -233,8 +251,8 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
   );
 
   const checkout = useCallback(
-    async (repoPath: string, branch: string) => {
-      const result = await window.claude.git.checkout(repoPath, branch);
+    async (repoPath: string, branch: string, options?: { autoStash?: boolean }) => {
+      const result = await window.claude.git.checkout(repoPath, branch, options);
       if (!result.error) refreshRepo(repoPath);
       return result;
     },
@@ -242,8 +260,8 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
   );
 
   const createBranch = useCallback(
-    async (repoPath: string, name: string) => {
-      const result = await window.claude.git.createBranch(repoPath, name);
+    async (repoPath: string, name: string, fromRef?: string) => {
+      const result = await window.claude.git.createBranch(repoPath, name, fromRef);
       if (!result.error) refreshRepo(repoPath);
       return result;
     },
@@ -264,6 +282,11 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
 
   const removeWorktree = useCallback(
     async (repoPath: string, worktreePath: string, force?: boolean) => {
+      // Every removal goes through here, so checking right before the call covers chats started since any list loaded
+      const sessions = getWorktreeSessionsRef.current?.([worktreePath]).get(worktreePath) ?? [];
+      if (sessions.some((session) => session.live)) {
+        return { error: "A chat is still running in this worktree." };
+      }
       const result = await window.claude.git.removeWorktree(repoPath, worktreePath, force);
       if (!result.error) {
         if (projectPathRef.current) invalidateDiscoverReposCache(projectPathRef.current);
@@ -287,8 +310,8 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
   );
 
   const push = useCallback(
-    async (repoPath: string) => {
-      const result = await window.claude.git.push(repoPath);
+    async (repoPath: string, options?: GitPushOptions) => {
+      const result = await window.claude.git.push(repoPath, options);
       refreshRepo(repoPath);
       return result;
     },
@@ -296,8 +319,8 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
   );
 
   const pull = useCallback(
-    async (repoPath: string) => {
-      const result = await window.claude.git.pull(repoPath);
+    async (repoPath: string, operationId?: string) => {
+      const result = await window.claude.git.pull(repoPath, operationId);
       refreshRepo(repoPath);
       return result;
     },
@@ -305,8 +328,8 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
   );
 
   const fetchRemote = useCallback(
-    async (repoPath: string) => {
-      const result = await window.claude.git.fetch(repoPath);
+    async (repoPath: string, operationId?: string) => {
+      const result = await window.claude.git.fetch(repoPath, operationId);
       refreshRepo(repoPath);
       return result;
     },
@@ -320,6 +343,232 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
     [],
   );
 
+  const stashPush = useCallback(
+    async (repoPath: string, options?: { message?: string; includeUntracked?: boolean; paths?: string[] }) => {
+      const result = await window.claude.git.stashPush(repoPath, options);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const stashApply = useCallback(
+    async (repoPath: string, ref: string) => {
+      const result = await window.claude.git.stashApply(repoPath, ref);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const stashPop = useCallback(
+    async (repoPath: string, ref: string) => {
+      const result = await window.claude.git.stashPop(repoPath, ref);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const stashDrop = useCallback(
+    async (repoPath: string, ref: string) => {
+      const result = await window.claude.git.stashDrop(repoPath, ref);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const stashShow = useCallback(
+    async (repoPath: string, ref: string) => {
+      return window.claude.git.stashShow(repoPath, ref);
+    },
+    [],
+  );
+
+  const listWorktrees = useCallback(
+    async (repoPath: string) => {
+      return window.claude.git.listWorktrees(repoPath);
+    },
+    [],
+  );
+
+  const listTags = useCallback(
+    async (repoPath: string) => {
+      return window.claude.git.listTags(repoPath);
+    },
+    [],
+  );
+
+  const createTag = useCallback(
+    async (repoPath: string, name: string, options?: { target?: string; message?: string }) => {
+      const result = await window.claude.git.createTag(repoPath, name, options);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const deleteTag = useCallback(
+    async (repoPath: string, name: string, options?: { remote?: boolean; operationId?: string }) => {
+      const result = await window.claude.git.deleteTag(repoPath, name, options);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const getWorktreeDetails = useCallback(
+    async (repoPath: string, worktreePath: string) => {
+      return window.claude.git.worktreeDetails(repoPath, worktreePath);
+    },
+    [],
+  );
+
+  const runWorktreeSetup = useCallback(
+    async (repoPath: string, worktreePath: string) => {
+      return window.claude.git.runWorktreeSetup(repoPath, worktreePath);
+    },
+    [],
+  );
+
+  const compare = useCallback(
+    async (repoPath: string, base: GitCompareSide, head: GitCompareSide) => {
+      return window.claude.git.compare(repoPath, base, head);
+    },
+    [],
+  );
+
+  const getCompareFileDiff = useCallback(
+    async (repoPath: string, base: string, head: string, file: string, oldPath?: string) => {
+      return window.claude.git.compareFileDiff(repoPath, base, head, file, oldPath);
+    },
+    [],
+  );
+
+  const merge = useCallback(
+    async (repoPath: string, ref: string) => {
+      const result = await window.claude.git.merge(repoPath, ref);
+      // Refresh on failure too — a conflicting merge leaves MERGE_HEAD behind
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const getHistory = useCallback(
+    async (repoPath: string, options: { skip?: number; count?: number } & GitHistoryFilter) => {
+      return window.claude.git.history(repoPath, options);
+    },
+    [],
+  );
+
+  const getCommitDetails = useCallback(
+    async (repoPath: string, hash: string) => {
+      return window.claude.git.commitDetails(repoPath, hash);
+    },
+    [],
+  );
+
+  const getCommitFileDiff = useCallback(
+    async (repoPath: string, hash: string, file: string, oldPath?: string) => {
+      return window.claude.git.commitFileDiff(repoPath, hash, file, oldPath);
+    },
+    [],
+  );
+
+  const getBlame = useCallback(
+    async (repoPath: string, file: string, rev?: string) => {
+      return window.claude.git.blame(repoPath, file, rev);
+    },
+    [],
+  );
+
+  const getTopLevel = useCallback(
+    async (repoPath: string) => {
+      return window.claude.git.topLevel(repoPath);
+    },
+    [],
+  );
+
+  const getUnpushedCommits = useCallback(
+    async (repoPath: string) => {
+      return window.claude.git.unpushed(repoPath);
+    },
+    [],
+  );
+
+  const resetTo = useCallback(
+    async (repoPath: string, ref: string, mode: GitResetMode, allowPushed?: boolean) => {
+      const result = await window.claude.git.reset(repoPath, ref, mode, allowPushed);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const rewriteCommits = useCallback(
+    async (repoPath: string, steps: GitRewriteStep[]) => {
+      const result = await window.claude.git.rewriteCommits(repoPath, steps);
+      // Refresh on failure too — a conflicting step leaves a rebase in progress
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const revertCommit = useCallback(
+    async (repoPath: string, hash: string) => {
+      const result = await window.claude.git.revert(repoPath, hash);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const cherryPick = useCallback(
+    async (repoPath: string, hash: string | string[]) => {
+      const result = await window.claude.git.cherryPick(repoPath, hash);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const getConflictFile = useCallback(
+    async (repoPath: string, file: string) => {
+      return window.claude.git.conflictFile(repoPath, file);
+    },
+    [],
+  );
+
+  const resolveConflict = useCallback(
+    async (repoPath: string, file: string, resolution: { content?: string; side?: GitConflictSide }) => {
+      const result = await window.claude.git.resolveConflict(repoPath, file, resolution);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const continueOperation = useCallback(
+    async (repoPath: string, operation: GitOperation) => {
+      const result = await window.claude.git.continueOperation(repoPath, operation);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
+  const abortOperation = useCallback(
+    async (repoPath: string, operation: GitOperation) => {
+      const result = await window.claude.git.abortOperation(repoPath, operation);
+      refreshRepo(repoPath);
+      return result;
+    },
+    [refreshRepo],
+  );
+
   return {
     repoStates,
     isLoading,
@@ -330,15 +579,44 @@ export function useGitStatus({ projectPath }: UseGitStatusOptions) {
     stageAll,
     unstageAll,
     discard,
+    applyPatch,
     commit,
     checkout,
     createBranch,
     createWorktree,
     removeWorktree,
     pruneWorktrees,
+    listWorktrees,
+    getWorktreeDetails,
+    runWorktreeSetup,
+    compare,
+    getCompareFileDiff,
+    merge,
+    listTags,
+    createTag,
+    deleteTag,
     push,
     pull,
     fetchRemote,
     getDiff,
+    stashPush,
+    stashApply,
+    stashPop,
+    stashDrop,
+    stashShow,
+    getHistory,
+    getCommitDetails,
+    getCommitFileDiff,
+    getBlame,
+    getTopLevel,
+    getUnpushedCommits,
+    resetTo,
+    rewriteCommits,
+    revertCommit,
+    cherryPick,
+    getConflictFile,
+    resolveConflict,
+    continueOperation,
+    abortOperation,
   };
 }
@@ -9,7 +9,7 @@
 
 import { useMemo } from "react";
 import { toast } from "sonner";
-import type { ACPConfigOption, ChatSession, ClaudeEffort, EngineId, ImageAttachment, InstalledAgent, ModelInfo } from "@/types";
+import type { ACPConfigOption, CodexReviewTarget, ChatSession, ClaudeEffort, EngineId, ImageAttachment, InstalledAgent, ModelInfo } from "@/types";
 import type { SessionPaneState } from "@/hooks/session/useSessionPane";
 import type { CodexModelSummary } from "@/hooks/session/types";
 import { buildCodexCollabMode, DEFAULT_PERMISSION_MODE } from "@/hooks/session/types";
@@ -81,6 +81,7 @@ export interface PaneControllerContext {
     acpConfigOptions: ACPConfigOption[];
     acpConfigOptionsLoading: boolean;
     setACPConfig: (key: string, value: string) => void;
+    startCodexReview?: (target: CodexReviewTarget) => Promise<void>;
   };
   // Split-view helpers (optional — absent in single-chat mode)
   splitView?: {
@@ -297,6 +298,8 @@ export function usePaneController(
       handlePaneSend,
       handlePaneStop,
       handlePaneAcpConfigChange: isActiveSessionPane ? ctx.manager.setACPConfig : paneState.acp.setConfig,
+      // Reviews run through the session manager, so only the active session pane offers /review
+      handlePaneReview: isActiveSessionPane ? ctx.manager.startCodexReview : undefined,
     };
   }, [
     ctx,
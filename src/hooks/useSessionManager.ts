@@ -2,6 +2,7 @@ import { useState, useCallback, useEffect, useRef } from "react";
 import type { ChatSession, UIMessage, PermissionRequest, McpServerStatus, McpServerConfig, ModelInfo, AcpPermissionBehavior, EngineId, Project, ACPAuthenticateResult, ACPConfigOption, ACPPermissionEvent } from "@/types";
 import { toMcpStatusState } from "../lib/mcp-utils";
 import { toChatSession } from "../lib/session/records";
+import { canForkSession } from "../lib/session/fork";
 import { BackgroundSessionStore } from "../lib/background/session-store";
 import { createSystemMessage } from "../lib/message-factory";
 import { suppressNextSessionCompletion } from "../lib/notification-utils";
@@ -23,6 +24,7 @@ import { useSessionPersistence } from "./session/useSessionPersistence";
 import { useDraftMaterialization } from "./session/useDraftMaterialization";
 import { useSessionRevival } from "./session/useSessionRevival";
 import { useSessionLifecycle } from "./session/useSessionLifecycle";
+import { getClaudeMaxBudgetUsd, useBudgetGuard } from "./session/useBudgetGuard";
 
 export function useSessionManager(
   projects: Project[],
@@ -270,6 +272,7 @@ export function useSessionManager(
     clearQueue,
     unqueueMessage,
     sendQueuedMessageNext,
+    steerQueuedMessage,
     continueQueuedBackgroundSession,
     sendNextId,
   } = useMessageQueue({ refs, setters, engines, activeSessionId });
@@ -301,7 +304,7 @@ export function useSessionManager(
       applyCodexModelDefaultEffort,
     });
 
-  const { reviveSession, reviveAcpSession, reviveCodexSession } = useSessionRevival({
+  const { reviveSession, reviveAcpSession, reviveCodexSession, reviveCodexReview } = useSessionRevival({
     refs,
     setters,
     engines,
@@ -316,6 +319,10 @@ export function useSessionManager(
     renameSession,
     deselectSession,
     importCCSession,
+    importCodexThread,
+    importSessionFile,
+    forkSession,
+    startCodexReview,
     setDraftAgent,
     setActiveModel,
     setSessionModel,
@@ -352,6 +359,7 @@ export function useSessionManager(
     reviveSession,
     reviveAcpSession,
     reviveCodexSession,
+    reviveCodexReview,
     enqueueMessage,
     clearQueue,
     resetCodexEffortToModelDefault,
@@ -409,6 +417,36 @@ export function useSessionManager(
   const isDraft = activeSessionId === DRAFT_ID;
   const activeSession = sessions.find((s) => s.id === activeSessionId) ?? null;
 
+  // ── Budget guard (every live session) ──
+  const { resumeBudget: liftBudgetPause } = useBudgetGuard({
+    sessionId: activeSession ? activeSession.id : null,
+    isProcessing: engine.isProcessing,
+    totalCost: engine.totalCost,
+    contextUsage: engine.contextUsage,
+    initialMeta,
+    setMessages: engine.setMessages,
+    interrupt: async () => {
+      clearQueue();
+      await engine.interrupt();
+    },
+    sessionsRef,
+    backgroundStoreRef,
+  });
+
+  const resumeBudget = useCallback((messageId: string) => {
+    const pause = messagesRef.current.find((m) => m.id === messageId)?.budgetPause;
+    if (!pause || pause.resumed || !activeSession) return;
+    liftBudgetPause(messageId);
+    // The SDK keeps enforcing the spend cap it was started with, so restart
+    // the idle session under the cap that applies now
+    if (activeEngine === "claude" && !engine.isProcessing && liveSessionIdsRef.current.has(activeSession.id)) {
+      void window.claude.restartSession(
+        activeSession.id, undefined, undefined, undefined, undefined,
+        getClaudeMaxBudgetUsd(activeSession.id, activeSession.projectId) ?? null,
+      );
+    }
+  }, [activeEngine, activeSession, engine.isProcessing, liftBudgetPause]);
+
   const setCurrentBranch = useCallback((branch: string | undefined) => {
     currentBranchRef.current = branch;
   }, []);
@@ -563,6 +601,8 @@ export function useSessionManager(
     deleteSession,
     renameSession,
     importCCSession,
+    importCodexThread,
+    importSessionFile,
     setActiveModel,
     setSessionModel,
     setActivePermissionMode,
@@ -583,7 +623,10 @@ export function useSessionManager(
     send,
     unqueueMessage,
     sendQueuedMessageNext,
+    // Codex-only: turn/steer a queued message into the running turn
+    steerQueuedMessage: activeEngine === "codex" ? steerQueuedMessage : undefined,
     sendNextId,
+    resumeBudget,
     seedDevExampleConversation,
     refreshSessions,
     loadSplitPaneBootstrap,
@@ -711,6 +754,10 @@ export function useSessionManager(
     // File revert: only supported by Claude SDK engine
     revertFiles: activeEngine === "claude" ? claude.revertFiles : undefined,
     fullRevert: activeEngine === "claude" ? fullRevertSession : undefined,
+    // Non-destructive fork: Claude via forkSession + resumeSessionAt, Codex via thread/fork
+    forkSession: canForkSession(activeSession) ? forkSession : undefined,
+    // Codex-only: review/start on the active thread (no drafts — there is no thread yet)
+    startCodexReview: activeEngine === "codex" && activeSessionId && activeSessionId !== DRAFT_ID ? startCodexReview : undefined,
     // Codex reasoning effort
     codexEffort: codex.codexEffort,
     setCodexEffort: setCodexEffortFromUser,
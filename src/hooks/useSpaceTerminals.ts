@@ -1,14 +1,19 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import {
   EMPTY_SPACE_TERMINAL_STATE,
+  getFocusedTerminalId,
+  getTabTerminalIds,
   parseStoredTerminalState,
   reconcileTerminalState,
+  withTabTerminals,
   type SpaceTerminalState,
   type SpaceTerminalsState,
+  type TerminalSplitDirection,
   type TerminalTab,
 } from "@/lib/terminal-tabs";
+import type { TerminalProfile } from "@/types";
 
-export type { TerminalTab, SpaceTerminalState };
+export type { TerminalTab, SpaceTerminalState, TerminalSplitDirection };
 
 const STORAGE_KEY = "harnss-space-terminals";
 
@@ -67,12 +72,13 @@ export function useSpaceTerminals() {
     });
   }, []);
 
-  const createTerminal = useCallback(async (spaceId: string, cwd?: string) => {
+  const createTerminal = useCallback(async (spaceId: string, cwd?: string, profile?: TerminalProfile) => {
     const result = await window.claude.terminal.create({
       cwd: cwd || undefined,
       cols: 80,
       rows: 24,
       spaceId,
+      profileId: profile?.id,
     });
     const terminalId = result.terminalId;
     if (result.error || !terminalId) return;
@@ -92,7 +98,9 @@ export function useSpaceTerminals() {
       const tab: TerminalTab = {
         id: terminalId,
         terminalId,
-        label: `Terminal ${curr.tabs.length + 1}`,
+        label: profile?.name ?? `Terminal ${curr.tabs.length + 1}`,
+        icon: profile?.icon,
+        profileId: profile?.id,
       };
       return {
         ...prev,
@@ -104,7 +112,7 @@ export function useSpaceTerminals() {
     });
   }, []);
 
-  const ensureTerminal = useCallback(async (spaceId: string, cwd?: string) => {
+  const ensureTerminal = useCallback(async (spaceId: string, cwd?: string, profile?: TerminalProfile) => {
     if (!isReady) return;
     if ((stateBySpaceRef.current[spaceId]?.tabs.length ?? 0) > 0) return;
     if (ensuringSpaceIdsRef.current.has(spaceId)) return;
@@ -112,18 +120,71 @@ export function useSpaceTerminals() {
     ensuringSpaceIdsRef.current.add(spaceId);
     try {
       if ((stateBySpaceRef.current[spaceId]?.tabs.length ?? 0) === 0) {
-        await createTerminal(spaceId, cwd);
+        await createTerminal(spaceId, cwd, profile);
       }
     } finally {
       ensuringSpaceIdsRef.current.delete(spaceId);
     }
   }, [createTerminal, isReady]);
 
+  const updateTab = useCallback((spaceId: string, tabId: string, update: (tab: TerminalTab) => TerminalTab) => {
+    setStateBySpace((prev) => {
+      const curr = prev[spaceId];
+      if (!curr?.tabs.some((tab) => tab.id === tabId)) return prev;
+      return {
+        ...prev,
+        [spaceId]: {
+          ...curr,
+          tabs: curr.tabs.map((tab) => (tab.id === tabId ? update(tab) : tab)),
+        },
+      };
+    });
+  }, []);
+
+  /**
+   * Open a new PTY beside the focused pane of `tabId`, starting in that pane's
+   * current directory with the shell of the tab's profile.
+   */
+  const splitTerminal = useCallback(async (
+    spaceId: string,
+    tabId: string,
+    direction: TerminalSplitDirection,
+    fallbackCwd?: string,
+  ) => {
+    const tab = stateBySpaceRef.current[spaceId]?.tabs.find((t) => t.id === tabId);
+    if (!tab) return;
+    const focusedId = getFocusedTerminalId(tab);
+    const snapshot = await window.claude.terminal.snapshot(focusedId);
+    const result = await window.claude.terminal.create({
+      cwd: snapshot.cwd || fallbackCwd || undefined,
+      cols: 80,
+      rows: 24,
+      spaceId,
+      profileId: tab.profileId,
+      profileShellOnly: true,
+    });
+    const terminalId = result.terminalId;
+    if (result.error || !terminalId) return;
+
+    updateTab(spaceId, tabId, (current) => {
+      const panes = getTabTerminalIds(current);
+      const index = panes.indexOf(getFocusedTerminalId(current));
+      panes.splice(index + 1, 0, terminalId);
+      return { ...withTabTerminals({ ...current, splitDirection: direction }, panes), focusedTerminalId: terminalId };
+    });
+  }, [updateTab]);
+
+  const focusTerminalPane = useCallback((spaceId: string, tabId: string, terminalId: string) => {
+    const tab = stateBySpaceRef.current[spaceId]?.tabs.find((t) => t.id === tabId);
+    if (!tab || getFocusedTerminalId(tab) === terminalId) return;
+    updateTab(spaceId, tabId, (current) => ({ ...current, focusedTerminalId: terminalId }));
+  }, [updateTab]);
+
   const closeTerminal = useCallback(async (spaceId: string, tabId: string) => {
     const spaceState = stateBySpaceRef.current[spaceId];
     const tab = spaceState?.tabs.find((t) => t.id === tabId);
     if (tab) {
-      await window.claude.terminal.destroy(tab.terminalId);
+      await Promise.all(getTabTerminalIds(tab).map((terminalId) => window.claude.terminal.destroy(terminalId)));
     }
 
     setStateBySpace((prev) => {
@@ -143,6 +204,20 @@ export function useSpaceTerminals() {
     });
   }, []);
 
+  /** Close one pane of a split tab; closing the last pane closes the tab. */
+  const closeTerminalPane = useCallback(async (spaceId: string, tabId: string, terminalId: string) => {
+    const tab = stateBySpaceRef.current[spaceId]?.tabs.find((t) => t.id === tabId);
+    if (!tab) return;
+    const remaining = getTabTerminalIds(tab).filter((id) => id !== terminalId);
+    if (remaining.length === 0) {
+      await closeTerminal(spaceId, tabId);
+      return;
+    }
+    await window.claude.terminal.destroy(terminalId);
+    updateTab(spaceId, tabId, (current) =>
+      withTabTerminals(current, getTabTerminalIds(current).filter((id) => id !== terminalId)));
+  }, [closeTerminal, updateTab]);
+
   const destroySpaceTerminals = useCallback(async (spaceId: string) => {
     await window.claude.terminal.destroySpace(spaceId);
     setStateBySpace((prev) => {
@@ -160,6 +235,9 @@ export function useSpaceTerminals() {
     createTerminal,
     ensureTerminal,
     closeTerminal,
+    splitTerminal,
+    focusTerminalPane,
+    closeTerminalPane,
     destroySpaceTerminals,
   };
 }
@@ -0,0 +1,114 @@
+import { useState, useCallback, useEffect } from "react";
+import { useTaskRunnerStore, type TaskRun } from "@/stores/task-runner-store";
+import type { ProjectTask } from "@/types";
+
+/** Terminals for task runs are kept out of the space terminal tabs. */
+const TASK_TERMINAL_SPACE_ID = "task-runner";
+/** How long Stop waits for Ctrl+C to end a task before killing its terminal. */
+const STOP_GRACE_MS = 3_000;
+
+const NO_RUNS: Record<string, TaskRun> = {};
+
+export function useTaskRunner(cwd: string | undefined) {
+  const [tasks, setTasks] = useState<ProjectTask[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const runs = useTaskRunnerStore((state) => (cwd ? state.runs[cwd] : undefined)) ?? NO_RUNS;
+  const startRun = useTaskRunnerStore((state) => state.startRun);
+  const requestStop = useTaskRunnerStore((state) => state.requestStop);
+  const finishRun = useTaskRunnerStore((state) => state.finishRun);
+  const dropRuns = useTaskRunnerStore((state) => state.dropRuns);
+
+  const refresh = useCallback(async () => {
+    if (!cwd) {
+      setTasks([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const result = await window.claude.tasks.discover(cwd);
+      setError(result.error ?? null);
+      setTasks(result.tasks ?? []);
+    } finally {
+      setLoading(false);
+    }
+  }, [cwd]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  useEffect(() => window.claude.terminal.onExit(({ terminalId, exitCode }) => {
+    finishRun(terminalId, exitCode);
+  }), [finishRun]);
+
+  // Tasks that finished while no panel was listening
+  useEffect(() => {
+    if (!cwd) return;
+    const running = Object.values(useTaskRunnerStore.getState().runs[cwd] ?? {}).filter((run) => run.status === "running");
+    for (const run of running) {
+      void window.claude.terminal.snapshot(run.terminalId).then((snapshot) => {
+        if (snapshot.error) finishRun(run.terminalId, -1);
+        else if (snapshot.exited) finishRun(run.terminalId, snapshot.exitCode ?? -1);
+      });
+    }
+  }, [cwd, finishRun]);
+
+  // Finished runs only hold a dead terminal in main — release them when the
+  // panel leaves this project or closes. Running tasks keep going.
+  useEffect(() => {
+    if (!cwd) return;
+    return () => {
+      const finished = Object.values(useTaskRunnerStore.getState().runs[cwd] ?? {}).filter((run) => run.status !== "running");
+      if (finished.length === 0) return;
+      for (const run of finished) void window.claude.terminal.destroy(run.terminalId);
+      dropRuns(cwd, finished.map((run) => run.taskId));
+    };
+  }, [cwd, dropRuns]);
+
+  const runTask = useCallback(async (task: ProjectTask) => {
+    if (!cwd) return;
+    const previous = useTaskRunnerStore.getState().runs[cwd]?.[task.id];
+    if (previous) await window.claude.terminal.destroy(previous.terminalId);
+
+    const result = await window.claude.terminal.create({
+      cwd,
+      cols: 120,
+      rows: 24,
+      spaceId: TASK_TERMINAL_SPACE_ID,
+      command: task.command,
+      oneShot: true,
+    });
+    if (result.error || !result.terminalId) {
+      setError(result.error ?? `Could not start ${task.name}`);
+      return;
+    }
+    setError(null);
+    startRun(cwd, {
+      taskId: task.id,
+      terminalId: result.terminalId,
+      command: task.command,
+      status: "running",
+      exitCode: null,
+      startedAt: Date.now(),
+      endedAt: null,
+      stopRequested: false,
+    });
+  }, [cwd, startRun]);
+
+  const stopTask = useCallback((taskId: string) => {
+    if (!cwd) return;
+    const run = useTaskRunnerStore.getState().runs[cwd]?.[taskId];
+    if (!run || run.status !== "running") return;
+    requestStop(cwd, taskId);
+    void window.claude.terminal.write(run.terminalId, "\x03");
+    window.setTimeout(() => {
+      const current = useTaskRunnerStore.getState().runs[cwd]?.[taskId];
+      if (current?.terminalId !== run.terminalId || current.status !== "running") return;
+      void window.claude.terminal.destroy(run.terminalId);
+      finishRun(run.terminalId, 130);
+    }, STOP_GRACE_MS);
+  }, [cwd, finishRun, requestStop]);
+
+  return { tasks, runs, loading, error, refresh, runTask, stopTask };
+}
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from "react";
+import type { TerminalProfile } from "@/types";
+
+/** Terminal profiles from app settings, plus the default profile of `projectId`. */
+export function useTerminalProfiles(projectId: string | null | undefined) {
+  const [profiles, setProfiles] = useState<TerminalProfile[]>([]);
+  const [defaults, setDefaults] = useState<Record<string, string>>({});
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    void window.claude.settings.get()
+      .then((settings) => {
+        if (cancelled || !settings) return;
+        setProfiles(settings.terminalProfiles ?? []);
+        setDefaults(settings.defaultTerminalProfiles ?? {});
+      })
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+    const unsubscribe = window.claude.settings.onChanged((settings) => {
+      setProfiles(settings.terminalProfiles ?? []);
+      setDefaults(settings.defaultTerminalProfiles ?? {});
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const defaultProfile = projectId
+    ? profiles.find((profile) => profile.id === defaults[projectId])
+    : undefined;
+
+  const setDefaultProfile = useCallback(async (profileId: string | null) => {
+    if (!projectId) return;
+    const next = { ...defaults };
+    if (profileId) next[projectId] = profileId;
+    else delete next[projectId];
+    setDefaults(next);
+    await window.claude.settings.set({ defaultTerminalProfiles: next });
+  }, [defaults, projectId]);
+
+  return { profiles, defaultProfile, loaded, setDefaultProfile };
+}
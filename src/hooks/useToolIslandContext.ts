@@ -7,8 +7,8 @@
  */
 
 import { useMemo } from "react";
-import type { ToolIslandContextProps, GrabbedElement, McpServerStatus, McpServerConfig } from "@/types";
-import type { TerminalTab } from "@/lib/terminal-tabs";
+import type { ToolIslandContextProps, GrabbedElement, ImageAttachment, TerminalContextAttachment, TerminalProfile, McpServerStatus, McpServerConfig, CodexReviewTarget, WorktreeSession } from "@/types";
+import type { TerminalSplitDirection, TerminalTab } from "@/lib/terminal-tabs";
 import type { ResolvedTheme } from "@/hooks/useTheme";
 
 interface UseToolIslandContextInput {
@@ -17,11 +17,16 @@ interface UseToolIslandContextInput {
   activeTerminalTabId: string | null;
   terminalsReady: boolean;
   onSetActiveTab: (tabId: string | null) => void;
-  onCreateTerminal: () => Promise<void>;
-  onEnsureTerminal: () => Promise<void>;
+  onCreateTerminal: (profile?: TerminalProfile) => Promise<void>;
+  onEnsureTerminal: (profile?: TerminalProfile) => Promise<void>;
   onCloseTerminal: (tabId: string) => Promise<void>;
+  onSplitTerminal: (tabId: string, direction: TerminalSplitDirection) => Promise<void>;
+  onFocusTerminalPane: (tabId: string, terminalId: string) => void;
+  onCloseTerminalPane: (tabId: string, terminalId: string) => Promise<void>;
   resolvedTheme: ResolvedTheme;
   onElementGrab: (element: GrabbedElement) => void;
+  onOpenInBrowser: (url: string) => void;
+  onSendTerminalToChat: (context: TerminalContextAttachment) => void;
   onScrollToToolCall: (messageId: string) => void;
   onPreviewFile: (path: string, rect: DOMRect) => void;
   collapsedRepos: Set<string>;
@@ -31,6 +36,12 @@ interface UseToolIslandContextInput {
   onRefreshMcpStatus: () => void;
   onReconnectMcpServer: (name: string) => Promise<void> | void;
   onRestartWithMcpServers: (servers: McpServerConfig[]) => Promise<void> | void;
+  onRequestCodexReview?: (target: CodexReviewTarget) => Promise<void>;
+  onSendToChat?: (text: string, images?: ImageAttachment[], displayText?: string) => void;
+  getCommitTrailers?: (repoPath: string, paths: string[]) => string[];
+  onOpenSession?: (sessionId: string, turnId?: string) => void;
+  getSessionTitle?: (sessionId: string) => string | undefined;
+  getWorktreeSessions?: (worktreePaths: string[]) => Map<string, WorktreeSession[]>;
 }
 
 export function useToolIslandContext(input: UseToolIslandContextInput): ToolIslandContextProps {
@@ -44,8 +55,13 @@ export function useToolIslandContext(input: UseToolIslandContextInput): ToolIsla
       onCreateTerminal: input.onCreateTerminal,
       onEnsureTerminal: input.onEnsureTerminal,
       onCloseTerminal: input.onCloseTerminal,
+      onSplitTerminal: input.onSplitTerminal,
+      onFocusTerminalPane: input.onFocusTerminalPane,
+      onCloseTerminalPane: input.onCloseTerminalPane,
       resolvedTheme: input.resolvedTheme,
       onElementGrab: input.onElementGrab,
+      onOpenInBrowser: input.onOpenInBrowser,
+      onSendTerminalToChat: input.onSendTerminalToChat,
       onScrollToToolCall: input.onScrollToToolCall,
       onPreviewFile: input.onPreviewFile,
       collapsedRepos: input.collapsedRepos,
@@ -55,6 +71,12 @@ export function useToolIslandContext(input: UseToolIslandContextInput): ToolIsla
       onRefreshMcpStatus: input.onRefreshMcpStatus,
       onReconnectMcpServer: input.onReconnectMcpServer,
       onRestartWithMcpServers: input.onRestartWithMcpServers,
+      onRequestCodexReview: input.onRequestCodexReview,
+      onSendToChat: input.onSendToChat,
+      getCommitTrailers: input.getCommitTrailers,
+      onOpenSession: input.onOpenSession,
+      getSessionTitle: input.getSessionTitle,
+      getWorktreeSessions: input.getWorktreeSessions,
     }),
     [
       input.spaceId,
@@ -65,8 +87,13 @@ export function useToolIslandContext(input: UseToolIslandContextInput): ToolIsla
       input.onCreateTerminal,
       input.onEnsureTerminal,
       input.onCloseTerminal,
+      input.onSplitTerminal,
+      input.onFocusTerminalPane,
+      input.onCloseTerminalPane,
       input.resolvedTheme,
       input.onElementGrab,
+      input.onOpenInBrowser,
+      input.onSendTerminalToChat,
       input.onScrollToToolCall,
       input.onPreviewFile,
       input.collapsedRepos,
@@ -76,6 +103,12 @@ export function useToolIslandContext(input: UseToolIslandContextInput): ToolIsla
       input.onRefreshMcpStatus,
       input.onReconnectMcpServer,
       input.onRestartWithMcpServers,
+      input.onRequestCodexReview,
+      input.onSendToChat,
+      input.getCommitTrailers,
+      input.onOpenSession,
+      input.getSessionTitle,
+      input.getWorktreeSessions,
     ],
   );
 }
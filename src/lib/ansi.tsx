@@ -56,6 +56,10 @@ const ANSI_RE = /\x1b\[([0-9;]*)m/g;
 // eslint-disable-next-line no-control-regex
 const ANSI_OTHER_RE = /\x1b\[[0-9;]*[A-LN-Za-z]|\x1b\][^\x07]*(?:\x07|\x1b\\)|\x1b[()][A-Z0-9]|\x1b[A-Z@-_]/g;
 
+// Any CSI sequence, including private modes (ESC[?25l, ESC[?2004h) that shells emit around prompts
+// eslint-disable-next-line no-control-regex
+const ANSI_CSI_RE = /\x1b\[[0-?]*[ -/]*[@-~]/g;
+
 function parseParams(raw: string): number[] {
   if (!raw) return [0];
   return raw.split(";").map((s) => parseInt(s, 10) || 0);
@@ -165,3 +169,9 @@ export function renderAnsi(text: string): ReactNode {
 
   return parts.length === 1 ? parts[0] : <>{parts}</>;
 }
+
+/** Plain text with every escape sequence removed, e.g. for handing terminal output to an agent. */
+export function stripAnsi(text: string): string {
+  if (!text.includes("\x1b")) return text;
+  return text.replace(ANSI_CSI_RE, "").replace(ANSI_OTHER_RE, "");
+}
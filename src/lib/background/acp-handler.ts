@@ -1,4 +1,4 @@
-import type { ACPSessionEvent } from "@/types";
+import type { ACPSessionEvent, UIMessage } from "@/types";
 import type { InternalState } from "./session-store";
 import {
   mergeToolInput as acpMergeToolInput,
@@ -7,6 +7,7 @@ import {
   deriveToolName,
 } from "@/lib/engine/acp-adapter";
 import { extractTaskSubagentSteps, getTaskStatus, isTaskToolName } from "@/lib/engine/acp-task-adapter";
+import { acpTerminalOutputs, withTerminalOutput } from "@/lib/engine/acp-terminal-output";
 import { nextId } from "@/lib/message-factory";
 
 // ── Shared ACP streaming helpers (also used by Codex handler) ──
@@ -48,6 +49,13 @@ export function closePendingACPTools(state: InternalState): void {
   }
 }
 
+/** Link the client terminals a tool call embeds to its card and show their output so far. */
+function showACPTerminalOutput(sessionId: string, msg: UIMessage, content?: unknown[] | null): void {
+  acpTerminalOutputs.link(sessionId, msg.id, content);
+  const output = acpTerminalOutputs.getMessageOutput(sessionId, msg.id);
+  if (output !== undefined) msg.toolResult = withTerminalOutput(msg.toolResult, output);
+}
+
 // ── ACP event handler ──
 
 /**
@@ -115,7 +123,7 @@ export function handleACPEvent(state: InternalState, event: ACPSessionEvent): vo
 
         const isTask = isTaskToolName(toolName);
         const taskSteps = isTask ? extractTaskSubagentSteps(initialResult) : undefined;
-        state.messages.push({
+        const msg: UIMessage = {
           id: msgId,
           role: "tool_call",
           content: "",
@@ -125,7 +133,9 @@ export function handleACPEvent(state: InternalState, event: ACPSessionEvent): vo
           ...(update.status === "failed" ? { toolError: true } : {}),
           ...(isTask ? { subagentStatus: getTaskStatus(update.status), subagentSteps: taskSteps ?? [] } : {}),
           timestamp: Date.now(),
-        });
+        };
+        state.messages.push(msg);
+        showACPTerminalOutput(event._sessionId, msg, update.content);
         // Start tracking if this is a Task tool
         if (isTask && !isAlreadyDone) {
           state.activeTask = { msgId, toolCallId: update.toolCallId, hasInnerTools: false, textBuffer: "" };
@@ -190,6 +200,8 @@ export function handleACPEvent(state: InternalState, event: ACPSessionEvent): vo
           const taskSteps = extractTaskSubagentSteps(result);
           if (taskSteps) msg.subagentSteps = taskSteps;
         }
+        showACPTerminalOutput(event._sessionId, msg, update.content);
+        if (update.status === "completed" || update.status === "failed") acpTerminalOutputs.release(event._sessionId, msgId);
       }
       break;
     }
@@ -6,10 +6,11 @@ import type {
   SlashCommand,
   ContextUsage,
 } from "@/types";
-import type { ACPSessionEvent, ACPPermissionEvent, CodexSessionEvent } from "@/types";
+import type { ACPSessionEvent, ACPPermissionEvent, ACPTerminalOutputEvent, CodexSessionEvent } from "@/types";
 import { handleClaudeEvent } from "./claude-handler";
 import { handleACPEvent as acpHandler, handleACPTurnComplete as acpTurnComplete } from "./acp-handler";
 import { handleCodexEvent as codexHandler } from "./codex-handler";
+import { acpTerminalOutputs, withTerminalOutput } from "@/lib/engine/acp-terminal-output";
 
 export interface BackgroundSessionState {
   messages: UIMessage[];
@@ -40,6 +41,9 @@ export interface InternalState extends BackgroundSessionState {
 /** Callback fired when a background session receives a permission request */
 type PermissionRequestCallback = (sessionId: string, permission: PermissionRequest) => void;
 
+/** The parts of a background session's state that count against budgets. */
+export type BackgroundSessionUsage = Pick<BackgroundSessionState, "isProcessing" | "totalCost" | "contextUsage">;
+
 /**
  * Accumulates UIMessages for sessions not currently active in useClaude.
  * Prevents event loss when switching between sessions with ongoing responses.
@@ -48,6 +52,8 @@ export class BackgroundSessionStore {
   private sessions = new Map<string, InternalState>();
   onProcessingChange?: (sessionId: string, isProcessing: boolean) => void;
   onPermissionRequest?: PermissionRequestCallback;
+  /** Fired after an event changes a session's cost, token usage or processing state. */
+  onUsageChange?: (sessionId: string) => void;
 
   private getOrCreate(sessionId: string): InternalState {
     let state = this.sessions.get(sessionId);
@@ -79,7 +85,7 @@ export class BackgroundSessionStore {
     if (!sessionId) return;
 
     const state = this.getOrCreate(sessionId);
-    const result = handleClaudeEvent(state, event);
+    const result = this.trackUsage(sessionId, state, () => handleClaudeEvent(state, event));
     if (result?.processingChanged) {
       this.onProcessingChange?.(sessionId, result.isProcessing);
     }
@@ -90,14 +96,22 @@ export class BackgroundSessionStore {
     if (!sessionId) return;
 
     const state = this.getOrCreate(sessionId);
-    acpHandler(state, event);
+    this.trackUsage(sessionId, state, () => acpHandler(state, event));
+  }
+
+  /** Show output of an ACP client terminal in the tool card that embeds it. */
+  handleACPTerminalOutput(event: ACPTerminalOutputEvent): void {
+    const msgId = acpTerminalOutputs.append(event._sessionId, event.terminalId, event.data);
+    const msg = msgId ? this.sessions.get(event._sessionId)?.messages.find(m => m.id === msgId) : undefined;
+    const output = acpTerminalOutputs.getOutput(event._sessionId, event.terminalId);
+    if (msg && output !== undefined) msg.toolResult = withTerminalOutput(msg.toolResult, output);
   }
 
   /** Handle ACP turn completion — finalize streaming, close tools, reset processing. */
   handleACPTurnComplete(sessionId: string): void {
     const state = this.sessions.get(sessionId);
     if (!state) return;
-    acpTurnComplete(state);
+    this.trackUsage(sessionId, state, () => acpTurnComplete(state));
     this.onProcessingChange?.(sessionId, false);
   }
 
@@ -107,7 +121,7 @@ export class BackgroundSessionStore {
     if (!sessionId) return;
 
     const state = this.getOrCreate(sessionId);
-    const result = codexHandler(state, event);
+    const result = this.trackUsage(sessionId, state, () => codexHandler(state, event));
     if (result?.processingChanged) {
       this.onProcessingChange?.(sessionId, result.isProcessing!);
     }
@@ -124,6 +138,16 @@ export class BackgroundSessionStore {
     this.onPermissionRequest?.(sessionId, permission);
   }
 
+  /** Run a state handler and report a usage change to `onUsageChange`. */
+  private trackUsage<T>(sessionId: string, state: InternalState, apply: () => T): T {
+    const { isProcessing, totalCost, contextUsage } = state;
+    const result = apply();
+    if (state.isProcessing !== isProcessing || state.totalCost !== totalCost || state.contextUsage !== contextUsage) {
+      this.onUsageChange?.(sessionId);
+    }
+    return result;
+  }
+
   has(sessionId: string): boolean {
     return this.sessions.has(sessionId);
   }
@@ -146,6 +170,13 @@ export class BackgroundSessionStore {
     };
   }
 
+  /** Budget-relevant state without cloning the transcript. */
+  getUsage(sessionId: string): BackgroundSessionUsage | undefined {
+    const state = this.sessions.get(sessionId);
+    if (!state) return undefined;
+    return { isProcessing: state.isProcessing, totalCost: state.totalCost, contextUsage: state.contextUsage };
+  }
+
   consume(sessionId: string): BackgroundSessionState | undefined {
     const state = this.sessions.get(sessionId);
     if (!state) return undefined;
@@ -180,6 +211,7 @@ export class BackgroundSessionStore {
     if (!state || state.isProcessing === isProcessing) return;
     state.isProcessing = isProcessing;
     this.onProcessingChange?.(sessionId, isProcessing);
+    this.onUsageChange?.(sessionId);
   }
 
   /** Seed store with the current session state when switching away. */
@@ -259,6 +291,7 @@ export class BackgroundSessionStore {
     if (state.isProcessing) {
       state.isProcessing = false;
       this.onProcessingChange?.(sessionId, false);
+      this.onUsageChange?.(sessionId);
     }
     for (const msg of state.messages) {
       if (msg.isStreaming) {
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { buildPartialPatch, parseFilePatch } from "./unified-diff";
+
+const DIFF = [
+  "diff --git a/app.ts b/app.ts",
+  "index 1111111..2222222 100644",
+  "--- a/app.ts",
+  "+++ b/app.ts",
+  "@@ -1,3 +1,3 @@ header",
+  " one",
+  "-two",
+  "+TWO",
+  " three",
+  "@@ -10,2 +10,4 @@",
+  " ten",
+  "+ten-a",
+  "+ten-b",
+  " eleven",
+  "",
+].join("\n");
+
+const HEADER = "diff --git a/app.ts b/app.ts\nindex 1111111..2222222 100644\n--- a/app.ts\n+++ b/app.ts\n";
+
+describe("partial patches", () => {
+  it("parses hunks and flags whole-file-only diffs", () => {
+    const patch = parseFilePatch(DIFF);
+    expect(patch?.hunks.map((h) => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([[1, 3, 1, 3], [10, 2, 10, 4]]);
+    expect(patch?.hunks[0].heading).toBe(" header");
+    expect(patch?.wholeFileOnly).toBe(false);
+    expect(parseFilePatch(DIFF.replace("index 1111111", "new file mode 100644\nindex 0000000"))?.wholeFileOnly).toBe(true);
+    expect(parseFilePatch("not a diff")).toBeNull();
+  });
+
+  it("keeps a single hunk and shifts the next hunk's new start", () => {
+    const patch = parseFilePatch(DIFF)!;
+    expect(buildPartialPatch(patch, new Map([[1, "all" as const]]))).toBe(
+      `${HEADER}@@ -10,2 +10,4 @@\n ten\n+ten-a\n+ten-b\n eleven\n`,
+    );
+  });
+
+  it("stages selected lines, leaving unselected deletions as context", () => {
+    const patch = parseFilePatch(DIFF)!;
+    // Only the "+TWO" line: "-two" stays in the index, so it becomes context
+    expect(buildPartialPatch(patch, new Map([[0, new Set([2])]]))).toBe(
+      `${HEADER}@@ -1,3 +1,4 @@ header\n one\n two\n+TWO\n three\n`,
+    );
+  });
+
+  it("reverses selected lines, keeping unselected additions as context", () => {
+    const patch = parseFilePatch(DIFF)!;
+    // Discard only "+ten-b": "+ten-a" stays in the working tree
+    expect(buildPartialPatch(patch, new Map([[1, new Set([2])]]), { reverse: true })).toBe(
+      `${HEADER}@@ -10,3 +10,4 @@\n ten\n ten-a\n+ten-b\n eleven\n`,
+    );
+  });
+
+  it("returns null when nothing selected changes anything", () => {
+    const patch = parseFilePatch(DIFF)!;
+    expect(buildPartialPatch(patch, new Map([[0, new Set([0])]]))).toBeNull();
+    expect(buildPartialPatch(patch, new Map())).toBeNull();
+  });
+});
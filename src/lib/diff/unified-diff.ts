@@ -121,3 +121,127 @@ export function parseUnifiedDiffFromUnknown(
 
   return null;
 }
+
+// ── Hunk model + partial patches (hunk / line staging) ──
+
+export interface DiffHunkLine {
+  kind: "context" | "add" | "del";
+  text: string;
+  /** Followed by `\ No newline at end of file`. */
+  noNewline?: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Trailing section heading after the second `@@` (function name etc.). */
+  heading: string;
+  lines: DiffHunkLine[];
+}
+
+export interface ParsedFilePatch {
+  /** `diff --git` / `index` / `---` / `+++` lines preceding the first hunk. */
+  header: string[];
+  hunks: DiffHunk[];
+  /** New, deleted or binary files can only be staged as a whole. */
+  wholeFileOnly: boolean;
+}
+
+const HUNK_HEADER_RE = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+/** Parse a single-file `git diff` into its header and hunks. */
+export function parseFilePatch(diffText: string): ParsedFilePatch | null {
+  if (!diffText) return null;
+  const header: string[] = [];
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  for (const line of diffText.replace(/\r\n/g, "\n").split("\n")) {
+    const match = HUNK_HEADER_RE.exec(line);
+    if (match) {
+      current = {
+        oldStart: Number(match[1]),
+        oldLines: match[2] === undefined ? 1 : Number(match[2]),
+        newStart: Number(match[3]),
+        newLines: match[4] === undefined ? 1 : Number(match[4]),
+        heading: match[5],
+        lines: [],
+      };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) {
+      if (line) header.push(line);
+      continue;
+    }
+    if (line === "\\ No newline at end of file") {
+      const last = current.lines[current.lines.length - 1];
+      if (last) last.noNewline = true;
+    } else if (line.startsWith("+")) {
+      current.lines.push({ kind: "add", text: line.slice(1) });
+    } else if (line.startsWith("-")) {
+      current.lines.push({ kind: "del", text: line.slice(1) });
+    } else if (line.startsWith(" ")) {
+      current.lines.push({ kind: "context", text: line.slice(1) });
+    }
+  }
+
+  if (hunks.length === 0 || !header.some((line) => line.startsWith("--- "))) return null;
+  const wholeFileOnly = header.some((line) =>
+    line.startsWith("new file mode") || line.startsWith("deleted file mode") || line.startsWith("Binary files"),
+  );
+  return { header, hunks, wholeFileOnly };
+}
+
+/**
+ * Build a patch containing only the selected changes, for `git apply`.
+ * `selection` maps hunk index → selected line indexes (`"all"` = whole hunk).
+ *
+ * Unselected changes must stay as they are on the side the patch is applied
+ * to: applied forward that is the old side (drop unselected `+`, keep
+ * unselected `-` as context); applied with `--reverse` it is the new side
+ * (keep unselected `+` as context, drop unselected `-`).
+ */
+export function buildPartialPatch(
+  patch: ParsedFilePatch,
+  selection: ReadonlyMap<number, ReadonlySet<number> | "all">,
+  options: { reverse?: boolean } = {},
+): string | null {
+  const out = [...patch.header];
+  let shift = 0;
+
+  patch.hunks.forEach((hunk, hunkIndex) => {
+    const selected = selection.get(hunkIndex);
+    if (!selected) return;
+    const lines: DiffHunkLine[] = [];
+    let changed = false;
+
+    hunk.lines.forEach((line, lineIndex) => {
+      const isSelected = selected === "all" || selected.has(lineIndex);
+      if (line.kind === "context" || isSelected) {
+        lines.push(line);
+        if (line.kind !== "context") changed = true;
+      } else if ((line.kind === "del") !== !!options.reverse) {
+        lines.push({ ...line, kind: "context" });
+      }
+    });
+    if (!changed) return;
+
+    const oldLines = lines.filter((line) => line.kind !== "add").length;
+    const newLines = lines.filter((line) => line.kind !== "del").length;
+    // The side being matched keeps its position; the other follows earlier hunks' growth
+    const oldStart = options.reverse ? Math.max(0, hunk.newStart - shift) : hunk.oldStart;
+    const newStart = options.reverse ? hunk.newStart : Math.max(0, hunk.oldStart + shift);
+    shift += newLines - oldLines;
+
+    out.push(`@@ -${oldStart},${oldLines} +${newStart},${newLines} @@${hunk.heading}`);
+    for (const line of lines) {
+      out.push(`${line.kind === "add" ? "+" : line.kind === "del" ? "-" : " "}${line.text}`);
+      if (line.noNewline) out.push("\\ No newline at end of file");
+    }
+  });
+
+  return out.length > patch.header.length ? `${out.join("\n")}\n` : null;
+}
@@ -0,0 +1,12 @@
+import { describe, expect, it } from "vitest";
+import { extractTerminalIds } from "./acp-adapter";
+
+describe("extractTerminalIds", () => {
+  it("extracts embedded terminal ids from tool call content", () => {
+    expect(extractTerminalIds([
+      { type: "content", content: { type: "text", text: "running" } },
+      { type: "terminal", terminalId: "term-1" },
+    ])).toEqual(["term-1"]);
+    expect(extractTerminalIds(null)).toEqual([]);
+  });
+});
@@ -233,6 +233,16 @@ export function normalizeToolResult(rawOutput: unknown, content?: unknown[]): Re
   return Object.keys(result).length > 0 ? result : undefined;
 }
 
+/** Terminal ids embedded in a tool call's content (`{ type: "terminal", terminalId }`). */
+export function extractTerminalIds(content?: unknown[] | null): string[] {
+  if (!content) return [];
+  return content.flatMap((item) => {
+    if (typeof item !== "object" || item === null) return [];
+    const record = item as Record<string, unknown>;
+    return record.type === "terminal" && typeof record.terminalId === "string" ? [record.terminalId] : [];
+  });
+}
+
 function isDiffContent(item: unknown): item is { type: "diff"; path: string; oldText: string; newText: string } {
   return typeof item === "object" && item !== null && (item as Record<string, unknown>).type === "diff";
 }
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { ACPTerminalOutputs, withTerminalOutput } from "./acp-terminal-output";
+
+const TERMINAL_CONTENT = [{ type: "terminal", terminalId: "term-1" }];
+
+describe("ACP terminal outputs", () => {
+  it("keeps output that arrives before the tool call embedding the terminal", () => {
+    const outputs = new ACPTerminalOutputs();
+    expect(outputs.append("s-1", "term-1", "npm ")).toBeNull();
+
+    expect(outputs.link("s-1", "tool-a", TERMINAL_CONTENT)).toEqual(["term-1"]);
+    expect(outputs.link("s-1", "tool-a", TERMINAL_CONTENT)).toEqual([]);
+    expect(outputs.append("s-1", "term-1", "test")).toBe("tool-a");
+    expect(outputs.getMessageOutput("s-1", "tool-a")).toBe("npm test");
+    expect(outputs.getOutput("s-2", "term-1")).toBeUndefined();
+  });
+
+  it("forgets a finished tool call's terminals and a session's on exit", () => {
+    const outputs = new ACPTerminalOutputs();
+    outputs.link("s-1", "tool-a", TERMINAL_CONTENT);
+    outputs.append("s-1", "term-1", "done");
+    outputs.release("s-1", "tool-a");
+    expect(outputs.getMessageId("s-1", "term-1")).toBeUndefined();
+    expect(outputs.getOutput("s-1", "term-1")).toBeUndefined();
+
+    outputs.append("s-1", "term-2", "still running");
+    outputs.clear("s-1");
+    expect(outputs.getOutput("s-1", "term-2")).toBeUndefined();
+  });
+
+  it("shows terminal output as the tool's stdout", () => {
+    expect(withTerminalOutput({ status: "completed" }, "ok")).toEqual({ status: "completed", type: "text", stdout: "ok" });
+  });
+});
@@ -0,0 +1,94 @@
+import type { ToolUseResult } from "@/types";
+import { extractTerminalIds } from "./acp-adapter";
+
+/** Tail of a client terminal's output shown in its tool card. */
+const MAX_TERMINAL_DISPLAY_CHARS = 100_000;
+
+interface SessionTerminals {
+  /** terminalId → tool message id embedding it. */
+  tools: Map<string, string>;
+  /** Accumulated output per terminal — chunks may arrive before the tool_call that embeds it. */
+  output: Map<string, string>;
+}
+
+/**
+ * Output of the client-side terminals ACP agents create via `terminal/create`,
+ * per session, and the tool cards that embed them. Lives outside the engine
+ * hooks so a session's terminals keep streaming while it runs in the
+ * background and are still linked when it becomes active again.
+ */
+export class ACPTerminalOutputs {
+  private sessions = new Map<string, SessionTerminals>();
+
+  private getOrCreate(sessionId: string): SessionTerminals {
+    let terminals = this.sessions.get(sessionId);
+    if (!terminals) {
+      terminals = { tools: new Map(), output: new Map() };
+      this.sessions.set(sessionId, terminals);
+    }
+    return terminals;
+  }
+
+  /** Append a chunk; returns the tool message showing the terminal, if one embeds it yet. */
+  append(sessionId: string, terminalId: string, data: string): string | null {
+    const terminals = this.getOrCreate(sessionId);
+    const existing = terminals.output.get(terminalId) ?? "";
+    terminals.output.set(terminalId, (existing + data).slice(-MAX_TERMINAL_DISPLAY_CHARS));
+    return terminals.tools.get(terminalId) ?? null;
+  }
+
+  /** Link the terminals a tool call's content embeds to its message; returns the newly linked ones. */
+  link(sessionId: string, msgId: string, content?: unknown[] | null): string[] {
+    const terminalIds = extractTerminalIds(content);
+    if (terminalIds.length === 0) return [];
+    const terminals = this.getOrCreate(sessionId);
+    return terminalIds.filter((terminalId) => {
+      if (terminals.tools.get(terminalId) === msgId) return false;
+      terminals.tools.set(terminalId, msgId);
+      return true;
+    });
+  }
+
+  getOutput(sessionId: string, terminalId: string): string | undefined {
+    return this.sessions.get(sessionId)?.output.get(terminalId);
+  }
+
+  getMessageId(sessionId: string, terminalId: string): string | undefined {
+    return this.sessions.get(sessionId)?.tools.get(terminalId);
+  }
+
+  /** Output of every terminal linked to `msgId`, latest last. */
+  getMessageOutput(sessionId: string, msgId: string): string | undefined {
+    const terminals = this.sessions.get(sessionId);
+    if (!terminals) return undefined;
+    let output: string | undefined;
+    for (const [terminalId, linkedMsgId] of terminals.tools) {
+      if (linkedMsgId === msgId) output = terminals.output.get(terminalId) ?? output;
+    }
+    return output;
+  }
+
+  /** Stop tracking the terminals of a finished tool call. */
+  release(sessionId: string, msgId: string): void {
+    const terminals = this.sessions.get(sessionId);
+    if (!terminals) return;
+    for (const [terminalId, linkedMsgId] of terminals.tools) {
+      if (linkedMsgId !== msgId) continue;
+      terminals.tools.delete(terminalId);
+      terminals.output.delete(terminalId);
+    }
+  }
+
+  /** Forget every terminal of a session (agent exit — the main process released them). */
+  clear(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+}
+
+/** Terminal output of every ACP session, shared by the engine hooks and the background store. */
+export const acpTerminalOutputs = new ACPTerminalOutputs();
+
+/** `toolResult` showing a terminal's output. */
+export function withTerminalOutput(toolResult: ToolUseResult | undefined, output: string): ToolUseResult {
+  return { ...(toolResult ?? {}), type: "text", stdout: output };
+}
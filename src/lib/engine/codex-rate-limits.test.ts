@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatRateLimitReset,
+  formatRateLimitWindow,
+  getPeakRateLimitWindow,
+  getRateLimitLevel,
+} from "./codex-rate-limits";
+
+describe("codex rate limits", () => {
+  it("labels common window lengths", () => {
+    expect(formatRateLimitWindow(300)).toBe("5h");
+    expect(formatRateLimitWindow(10080)).toBe("Weekly");
+    expect(formatRateLimitWindow(43200)).toBe("30d");
+    expect(formatRateLimitWindow(45)).toBe("45m");
+    expect(formatRateLimitWindow(null)).toBe("Window");
+  });
+
+  it("formats reset times relative to now", () => {
+    const now = 1_000_000_000_000;
+    const inMins = (mins: number) => (now + mins * 60_000) / 1000;
+
+    expect(formatRateLimitReset(null, now)).toBeNull();
+    expect(formatRateLimitReset(inMins(-5), now)).toBe("resets now");
+    expect(formatRateLimitReset(inMins(42), now)).toBe("resets in 42m");
+    expect(formatRateLimitReset(inMins(135), now)).toBe("resets in 2h 15m");
+    expect(formatRateLimitReset(inMins(3 * 24 * 60 + 60), now)).toBe("resets in 3d 1h");
+  });
+
+  it("picks the most utilised window and grades it", () => {
+    const peak = getPeakRateLimitWindow({
+      limitId: "codex",
+      limitName: null,
+      primary: { usedPercent: 40, windowDurationMins: 300, resetsAt: null },
+      secondary: { usedPercent: 82, windowDurationMins: 10080, resetsAt: null },
+      credits: null,
+      planType: "plus",
+    });
+
+    expect(peak?.windowDurationMins).toBe(10080);
+    expect(getRateLimitLevel(peak!.usedPercent)).toBe("warning");
+    expect(getRateLimitLevel(95)).toBe("critical");
+    expect(getPeakRateLimitWindow(null)).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import type { CodexRateLimitSnapshot, CodexRateLimitWindow } from "@/types";
+
+export type RateLimitLevel = "ok" | "warning" | "critical";
+
+const WARNING_PERCENT = 75;
+const CRITICAL_PERCENT = 90;
+
+/** Human label for a window length in minutes — `5h`, `Weekly`, `30d`, … */
+export function formatRateLimitWindow(windowDurationMins: number | null): string {
+  if (windowDurationMins == null) return "Window";
+  if (windowDurationMins === 7 * 24 * 60) return "Weekly";
+  if (windowDurationMins % (24 * 60) === 0) return `${windowDurationMins / (24 * 60)}d`;
+  if (windowDurationMins % 60 === 0) return `${windowDurationMins / 60}h`;
+  return `${windowDurationMins}m`;
+}
+
+/** Relative reset time for a window (`resetsAt` is unix seconds). */
+export function formatRateLimitReset(resetsAt: number | null, now = Date.now()): string | null {
+  if (resetsAt == null) return null;
+  const remainingMins = Math.round((resetsAt * 1000 - now) / 60_000);
+  if (remainingMins <= 0) return "resets now";
+  if (remainingMins < 60) return `resets in ${remainingMins}m`;
+  const hours = Math.floor(remainingMins / 60);
+  if (hours < 24) {
+    const mins = remainingMins % 60;
+    return mins > 0 ? `resets in ${hours}h ${mins}m` : `resets in ${hours}h`;
+  }
+  const days = Math.floor(hours / 24);
+  const restHours = hours % 24;
+  return restHours > 0 ? `resets in ${days}d ${restHours}h` : `resets in ${days}d`;
+}
+
+export function getRateLimitLevel(usedPercent: number): RateLimitLevel {
+  if (usedPercent >= CRITICAL_PERCENT) return "critical";
+  if (usedPercent >= WARNING_PERCENT) return "warning";
+  return "ok";
+}
+
+/** The most-utilised window of a snapshot — what the header indicator shows. */
+export function getPeakRateLimitWindow(snapshot: CodexRateLimitSnapshot | null): CodexRateLimitWindow | null {
+  if (!snapshot) return null;
+  const windows = [snapshot.primary, snapshot.secondary].filter(
+    (w): w is CodexRateLimitWindow => w != null,
+  );
+  if (windows.length === 0) return null;
+  return windows.reduce((peak, w) => (w.usedPercent > peak.usedPercent ? w : peak));
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { describeReviewTarget, parseCodexReview, parseReviewCommand } from "./codex-review";
+
+const REVIEW_TEXT = `The patch mostly works but leaks a listener.
+
+Full review comments:
+
+- [P1] Remove the resize listener on unmount — /repo/src/components/Panel.tsx:42-48
+  The effect adds a window listener but never removes it.
+  Every remount stacks another handler.
+
+- Prefer a constant for the timeout — /repo/src/lib/poll.ts:10-10
+  Magic number.`;
+
+describe("codex review", () => {
+  it("splits the summary from findings and parses locations", () => {
+    const parsed = parseCodexReview(REVIEW_TEXT);
+
+    expect(parsed.summary).toBe("The patch mostly works but leaks a listener.");
+    expect(parsed.findings).toHaveLength(2);
+    expect(parsed.findings[0]).toEqual({
+      title: "Remove the resize listener on unmount",
+      priority: 1,
+      filePath: "/repo/src/components/Panel.tsx",
+      startLine: 42,
+      endLine: 48,
+      body: "The effect adds a window listener but never removes it.\nEvery remount stacks another handler.",
+    });
+    expect(parsed.findings[1].priority).toBeUndefined();
+    expect(parsed.findings[1].body).toBe("Magic number.");
+  });
+
+  it("treats text without a findings block as a plain summary", () => {
+    expect(parseCodexReview("Looks good to me.\n")).toEqual({ summary: "Looks good to me.", findings: [] });
+  });
+
+  it("parses /review command targets", () => {
+    expect(parseReviewCommand("/review")).toEqual({ type: "uncommittedChanges" });
+    expect(parseReviewCommand("/review branch main")).toEqual({ type: "baseBranch", branch: "main" });
+    expect(parseReviewCommand("/review commit abc1234")).toEqual({ type: "commit", sha: "abc1234", title: null });
+    expect(parseReviewCommand("/review focus on error handling")).toEqual({ type: "custom", instructions: "focus on error handling" });
+    expect(parseReviewCommand("/reviewer")).toBeNull();
+    expect(parseReviewCommand("please /review")).toBeNull();
+  });
+
+  it("labels review targets", () => {
+    expect(describeReviewTarget({ type: "commit", sha: "abcdef123456", title: "Fix login" })).toBe("commit abcdef1 — Fix login");
+    expect(describeReviewTarget({ type: "baseBranch", branch: "main" })).toBe("changes against main");
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Codex review helpers — target labels, `/review` command parsing, and parsing
+ * of the rendered review text carried by `exitedReviewMode` items.
+ *
+ * The v2 protocol only delivers the review as preformatted text (overall
+ * explanation followed by a "Review comment(s):" block), so findings are
+ * recovered from that layout: `- <title> — <path>:<start>-<end>` followed by
+ * a two-space indented body.
+ */
+
+import type { CodexReviewTarget } from "@/types";
+
+export interface CodexReviewFinding {
+  title: string;
+  /** Parsed from a leading `[P0]`–`[P3]` tag in the title, when present. */
+  priority?: number;
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  body: string;
+}
+
+export interface ParsedCodexReview {
+  summary: string;
+  findings: CodexReviewFinding[];
+}
+
+const FINDINGS_HEADER_RE = /^(?:Full review comments|Review comment):\s*$/m;
+const FINDING_LINE_RE = /^- (?:\[[ x]\] )?(.*?) — (.+?):(\d+)(?:-(\d+))?\s*$/;
+const PRIORITY_TAG_RE = /^\[P(\d)\]\s*/;
+
+export function parseCodexReview(text: string): ParsedCodexReview {
+  const headerMatch = FINDINGS_HEADER_RE.exec(text);
+  if (!headerMatch) return { summary: text.trim(), findings: [] };
+
+  const summary = text.slice(0, headerMatch.index).trim();
+  const lines = text.slice(headerMatch.index + headerMatch[0].length).split("\n");
+  const findings: CodexReviewFinding[] = [];
+  let bodyLines: string[] = [];
+
+  const flushBody = () => {
+    const current = findings[findings.length - 1];
+    if (current) current.body = bodyLines.join("\n").trim();
+    bodyLines = [];
+  };
+
+  for (const line of lines) {
+    const match = FINDING_LINE_RE.exec(line);
+    if (match) {
+      flushBody();
+      const [, rawTitle, filePath, start, end] = match;
+      const priorityMatch = PRIORITY_TAG_RE.exec(rawTitle);
+      const startLine = Number(start);
+      findings.push({
+        title: priorityMatch ? rawTitle.slice(priorityMatch[0].length) : rawTitle,
+        ...(priorityMatch ? { priority: Number(priorityMatch[1]) } : {}),
+        filePath,
+        startLine,
+        endLine: end ? Number(end) : startLine,
+        body: "",
+      });
+      continue;
+    }
+    if (findings.length > 0) bodyLines.push(line.startsWith("  ") ? line.slice(2) : line);
+  }
+  flushBody();
+
+  return { summary, findings };
+}
+
+/** Short human-readable label for a review target (card summary, system messages). */
+export function describeReviewTarget(target: CodexReviewTarget): string {
+  switch (target.type) {
+    case "uncommittedChanges":
+      return "uncommitted changes";
+    case "baseBranch":
+      return `changes against ${target.branch}`;
+    case "commit":
+      return `commit ${target.sha.slice(0, 7)}${target.title ? ` — ${target.title}` : ""}`;
+    case "custom":
+      return target.instructions.length > 60
+        ? `${target.instructions.slice(0, 57)}...`
+        : target.instructions;
+  }
+}
+
+/**
+ * Parse `/review [branch <name> | commit <sha> | <instructions>]`.
+ * Returns null when the text is not a review command.
+ */
+export function parseReviewCommand(text: string): CodexReviewTarget | null {
+  const match = /^\/review(?:\s+([\s\S]*))?$/.exec(text.trim());
+  if (!match) return null;
+
+  const args = match[1]?.trim() ?? "";
+  if (!args) return { type: "uncommittedChanges" };
+
+  const branchMatch = /^(?:branch|base)\s+(\S+)$/i.exec(args);
+  if (branchMatch) return { type: "baseBranch", branch: branchMatch[1] };
+
+  const commitMatch = /^commit\s+([0-9a-f]{4,40})$/i.exec(args);
+  if (commitMatch) return { type: "commit", sha: commitMatch[1], title: null };
+
+  return { type: "custom", instructions: args };
+}
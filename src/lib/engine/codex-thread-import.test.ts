@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import type { CodexThread } from "@/types";
+import { codexThreadToUIMessages, getCodexThreadTitle } from "./codex-thread-import";
+
+function makeThread(overrides: Partial<CodexThread> = {}): CodexThread {
+  return {
+    id: "thread-1",
+    preview: "Fix the flaky test",
+    modelProvider: "openai",
+    createdAt: 1_000,
+    updatedAt: 1_100,
+    status: { type: "notLoaded" },
+    path: null,
+    cwd: "/repo",
+    cliVersion: "0.1.0",
+    source: "cli",
+    agentNickname: null,
+    agentRole: null,
+    gitInfo: null,
+    name: null,
+    turns: [],
+    ...overrides,
+  };
+}
+
+describe("codex thread import", () => {
+  it("converts turns into user, assistant and tool messages", () => {
+    const messages = codexThreadToUIMessages(makeThread({
+      turns: [
+        {
+          id: "turn-1",
+          status: "completed",
+          error: null,
+          items: [
+            { type: "userMessage", id: "u1", content: [{ type: "text", text: "Fix the flaky test", text_elements: [] }] },
+            { type: "reasoning", id: "r1", summary: ["Looking at the test"], content: [] },
+            {
+              type: "commandExecution",
+              id: "c1",
+              command: "npm test",
+              cwd: "/repo",
+              processId: null,
+              status: "failed",
+              commandActions: [],
+              aggregatedOutput: "1 failed",
+              exitCode: 1,
+              durationMs: 20,
+            },
+            { type: "agentMessage", id: "a1", text: "The timeout was too short.", phase: null },
+          ],
+        },
+        {
+          id: "turn-2",
+          status: "interrupted",
+          error: null,
+          items: [
+            { type: "userMessage", id: "u2", content: [{ type: "text", text: "Thanks", text_elements: [] }] },
+            { type: "reasoning", id: "r2", summary: [], content: ["Half a thought"] },
+          ],
+        },
+      ],
+    }));
+
+    expect(messages.map((m) => [m.role, m.toolName ?? null])).toEqual([
+      ["user", null],
+      ["tool_call", "Bash"],
+      ["assistant", null],
+      ["user", null],
+      ["assistant", null],
+    ]);
+    expect(messages[1]).toMatchObject({ id: "codex-tool-c1", toolError: true, toolInput: { command: "npm test" } });
+    expect(messages[2]).toMatchObject({ thinking: "Looking at the test", thinkingComplete: true });
+    expect(messages[4]).toMatchObject({ content: "", thinking: "Half a thought" });
+    expect(messages[0].timestamp).toBe(1_000_000);
+    expect(messages[3].timestamp).toBe(1_100_000);
+  });
+
+  it("merges review mode items into one review card per turn", () => {
+    const messages = codexThreadToUIMessages(makeThread({
+      turns: [{
+        id: "turn-1",
+        status: "completed",
+        error: null,
+        items: [
+          { type: "enteredReviewMode", id: "e1", review: "current changes" },
+          { type: "exitedReviewMode", id: "x1", review: "Looks good." },
+        ],
+      }],
+    }));
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({
+      id: "codex-review-turn-1",
+      toolName: "CodexReview",
+      toolInput: { target: "current changes" },
+      toolResult: { content: "Looks good." },
+    });
+  });
+
+  it("prefers the thread name for titles and truncates long previews", () => {
+    expect(getCodexThreadTitle({ name: "Flaky test", preview: "ignored" })).toBe("Flaky test");
+    expect(getCodexThreadTitle({ name: null, preview: "" })).toBe("Imported Codex Chat");
+    expect(getCodexThreadTitle({ name: null, preview: "x".repeat(80) })).toHaveLength(60);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Converts a native Codex thread (thread/read with turns) into Harnss UIMessages,
+ * mirroring how useCodex renders the same items live.
+ */
+
+import type { CodexThread, CodexThreadItem, UIMessage } from "@/types";
+import { codexItemToToolInput, codexItemToToolName, codexItemToToolResult } from "@/lib/engine/codex-adapter";
+
+const TITLE_MAX_LENGTH = 60;
+
+function userInputText(item: Extract<CodexThreadItem, { type: "userMessage" }>): string {
+  return item.content
+    .map((input) => (input.type === "text" ? input.text : ""))
+    .filter(Boolean)
+    .join("\n")
+    .trim();
+}
+
+function isFailedToolItem(item: CodexThreadItem): boolean {
+  return (
+    ((item.type === "commandExecution" || item.type === "fileChange") &&
+      (item.status === "failed" || item.status === "declined")) ||
+    (item.type === "mcpToolCall" && item.status === "failed")
+  );
+}
+
+/**
+ * Flatten a thread's turns into UIMessages. Items carry no timestamps, so turns
+ * are spread evenly between the thread's createdAt and updatedAt (unix seconds).
+ */
+export function codexThreadToUIMessages(thread: CodexThread): UIMessage[] {
+  const messages: UIMessage[] = [];
+  const start = thread.createdAt * 1000;
+  const end = Math.max(start, thread.updatedAt * 1000);
+  const turnCount = thread.turns.length;
+
+  thread.turns.forEach((turn, turnIndex) => {
+    const timestamp = turnCount > 1 ? Math.round(start + ((end - start) * turnIndex) / (turnCount - 1)) : start;
+    let pendingThinking: string | null = null;
+
+    for (const item of turn.items) {
+      switch (item.type) {
+        case "userMessage": {
+          const text = userInputText(item);
+          if (text) {
+            messages.push({ id: `imported-codex-user-${item.id}`, role: "user", content: text, timestamp });
+          }
+          break;
+        }
+        case "reasoning": {
+          const text = (item.summary.length > 0 ? item.summary : item.content).join("\n\n").trim();
+          if (text) pendingThinking = pendingThinking ? `${pendingThinking}\n\n${text}` : text;
+          break;
+        }
+        case "agentMessage": {
+          if (!item.text.trim()) break;
+          messages.push({
+            id: `imported-codex-assistant-${item.id}`,
+            role: "assistant",
+            content: item.text,
+            ...(pendingThinking ? { thinking: pendingThinking, thinkingComplete: true } : {}),
+            isStreaming: false,
+            timestamp,
+          });
+          pendingThinking = null;
+          break;
+        }
+        case "plan":
+          messages.push({
+            id: `imported-codex-plan-${item.id}`,
+            role: "tool_call",
+            content: "",
+            toolName: "ExitPlanMode",
+            toolInput: { plan: item.text },
+            toolResult: { type: "plan" },
+            timestamp,
+          });
+          break;
+        case "enteredReviewMode":
+        case "exitedReviewMode": {
+          const id = `codex-review-${turn.id}`;
+          const existing = messages.find((m) => m.id === id);
+          const patch: Partial<UIMessage> = item.type === "enteredReviewMode"
+            ? { toolInput: { target: item.review } }
+            : { toolResult: { content: item.review } };
+          if (existing) {
+            Object.assign(existing, patch);
+          } else {
+            messages.push({ id, role: "tool_call", content: "", toolName: "CodexReview", toolInput: {}, timestamp, ...patch });
+          }
+          break;
+        }
+        default: {
+          const toolName = codexItemToToolName(item);
+          if (!toolName) break;
+          messages.push({
+            id: `codex-tool-${item.id}`,
+            role: "tool_call",
+            content: "",
+            toolName,
+            toolInput: codexItemToToolInput(item),
+            toolResult: codexItemToToolResult(item),
+            ...(isFailedToolItem(item) ? { toolError: true } : {}),
+            timestamp,
+          });
+        }
+      }
+    }
+
+    // Reasoning with no reply after it (e.g. an interrupted turn) still gets shown
+    if (pendingThinking) {
+      messages.push({
+        id: `imported-codex-thinking-${turn.id}`,
+        role: "assistant",
+        content: "",
+        thinking: pendingThinking,
+        thinkingComplete: true,
+        isStreaming: false,
+        timestamp,
+      });
+    }
+  });
+
+  return messages;
+}
+
+/** Sidebar title for an imported thread — Codex's own name, else the preview. */
+export function getCodexThreadTitle(thread: Pick<CodexThread, "name" | "preview">): string {
+  const text = (thread.name || thread.preview || "").replace(/\s+/g, " ").trim() || "Imported Codex Chat";
+  return text.length > TITLE_MAX_LENGTH ? text.slice(0, TITLE_MAX_LENGTH - 3) + "..." : text;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { createGraphState, layoutCommitGraph } from "./commit-graph";
+
+describe("commit graph layout", () => {
+  it("keeps a linear history in one lane", () => {
+    const rows = layoutCommitGraph([
+      { hash: "c", parents: ["b"] },
+      { hash: "b", parents: ["a"] },
+      { hash: "a", parents: [] },
+    ]);
+    expect(rows.map((r) => r.lane)).toEqual([0, 0, 0]);
+    expect(rows[0].top).toEqual([]);
+    expect(rows[1].top).toEqual([{ from: 0, to: 0, color: 0 }]);
+    expect(rows[2].bottom).toEqual([]);
+  });
+
+  it("opens a lane for a merged branch and joins it back at the fork point", () => {
+    //   m       merge of main (b) and feature (f)
+    //   |\
+    //   | f
+    //   b |
+    //   |/
+    //   a
+    const rows = layoutCommitGraph([
+      { hash: "m", parents: ["b", "f"] },
+      { hash: "f", parents: ["a"] },
+      { hash: "b", parents: ["a"] },
+      { hash: "a", parents: [] },
+    ]);
+    expect(rows.map((r) => r.lane)).toEqual([0, 1, 0, 0]);
+    expect(rows[0].bottom).toEqual([{ from: 0, to: 1, color: 1 }, { from: 0, to: 0, color: 0 }]);
+    expect(rows[1].top).toEqual([{ from: 0, to: 0, color: 0 }, { from: 1, to: 1, color: 1 }]);
+    // Both lanes wait for "a": lane 1 folds into lane 0
+    expect(rows[3].top).toEqual([{ from: 0, to: 0, color: 0 }, { from: 1, to: 0, color: 1 }]);
+    expect(rows[3].width).toBe(2);
+  });
+
+  it("continues the layout across pages", () => {
+    const state = createGraphState();
+    const first = layoutCommitGraph([{ hash: "t1", parents: ["p"] }, { hash: "t2", parents: ["p"] }], state);
+    expect(first.map((r) => r.lane)).toEqual([0, 1]);
+    const second = layoutCommitGraph([{ hash: "p", parents: [] }], state);
+    expect(second[0]).toMatchObject({ lane: 0, top: [{ from: 0, to: 0 }, { from: 1, to: 0 }] });
+    expect(state.lanes).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Lane layout for a commit graph (newest first, as `git log` prints it).
+ *
+ * Each lane tracks the hash it expects to meet next. A commit takes the lane
+ * that was waiting for it (or a free one), lanes also waiting for it merge
+ * into it, and its parents claim lanes below it: the first parent continues
+ * the commit's lane, further parents reuse a lane already waiting for them or
+ * open a new one. Rows only describe the edges in their upper and lower half,
+ * so a paged list can be laid out incrementally and rendered row by row.
+ */
+
+export interface GraphCommit {
+  hash: string;
+  parents: string[];
+}
+
+/** An edge inside one row half, between lane indexes (`from` on the upper edge). */
+export interface GraphEdge {
+  from: number;
+  to: number;
+  /** Lane whose color the edge uses. */
+  color: number;
+}
+
+export interface GraphRow {
+  /** Lane of the commit dot. */
+  lane: number;
+  /** Edges from the top of the row into the dot's height. */
+  top: GraphEdge[];
+  /** Edges from the dot's height to the bottom of the row. */
+  bottom: GraphEdge[];
+  /** Number of lanes this row spans. */
+  width: number;
+}
+
+export interface GraphState {
+  lanes: Array<string | null>;
+}
+
+export function createGraphState(): GraphState {
+  return { lanes: [] };
+}
+
+function firstFreeLane(lanes: Array<string | null>, skip: number): number {
+  for (let i = 0; i < lanes.length; i += 1) {
+    if (i !== skip && lanes[i] === null) return i;
+  }
+  return lanes.length;
+}
+
+/**
+ * Lay out `commits` continuing from `state` (mutated), so the next page can
+ * pick up where this one ended.
+ */
+export function layoutCommitGraph(commits: GraphCommit[], state: GraphState = createGraphState()): GraphRow[] {
+  const rows: GraphRow[] = [];
+
+  for (const commit of commits) {
+    const lanes = state.lanes;
+    // A commit nothing was waiting for (a branch tip) starts a fresh lane with no edge above it
+    const lane = lanes.includes(commit.hash) ? lanes.indexOf(commit.hash) : firstFreeLane(lanes, -1);
+    const top: GraphEdge[] = [];
+
+    for (let i = 0; i < lanes.length; i += 1) {
+      if (lanes[i] === null) continue;
+      if (lanes[i] === commit.hash) {
+        top.push({ from: i, to: lane, color: i });
+        if (i !== lane) lanes[i] = null;
+      } else {
+        top.push({ from: i, to: i, color: i });
+      }
+    }
+
+    const [firstParent, ...otherParents] = commit.parents;
+    lanes[lane] = firstParent ?? null;
+    const bottom: GraphEdge[] = [];
+    // Lanes opened by this commit start at its dot; every other live lane passes straight down
+    const opened = new Set<number>();
+
+    for (const parent of otherParents) {
+      let target = lanes.indexOf(parent);
+      if (target === -1) {
+        target = firstFreeLane(lanes, lane);
+        lanes[target] = parent;
+        opened.add(target);
+      }
+      bottom.push({ from: lane, to: target, color: target });
+    }
+    if (firstParent) bottom.push({ from: lane, to: lane, color: lane });
+    for (let i = 0; i < lanes.length; i += 1) {
+      if (lanes[i] !== null && i !== lane && !opened.has(i)) {
+        bottom.push({ from: i, to: i, color: i });
+      }
+    }
+
+    while (lanes.length > 0 && lanes[lanes.length - 1] === null) lanes.pop();
+
+    const width = Math.max(
+      lane + 1,
+      lanes.length,
+      ...top.map((edge) => Math.max(edge.from, edge.to) + 1),
+    );
+    rows.push({ lane, top, bottom, width });
+  }
+
+  return rows;
+}
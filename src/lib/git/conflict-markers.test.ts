@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  countConflicts,
+  parseConflictMarkers,
+  resolveAllConflicts,
+  resolveConflictBlock,
+} from "./conflict-markers";
+
+const MERGED = [
+  "import a from 'a';",
+  "<<<<<<< HEAD",
+  "const x = 1;",
+  "=======",
+  "const x = 2;",
+  ">>>>>>> feature",
+  "middle",
+  "<<<<<<< HEAD",
+  "ours-only",
+  "||||||| merged common ancestors",
+  "base",
+  "=======",
+  "theirs-only",
+  ">>>>>>> feature",
+  "",
+].join("\n");
+
+describe("conflict markers", () => {
+  it("parses merge and diff3 style blocks", () => {
+    const segments = parseConflictMarkers(MERGED);
+    expect(segments.map((s) => s.kind)).toEqual(["text", "conflict", "text", "conflict"]);
+    const [, first, , second] = segments;
+    expect(first).toMatchObject({
+      kind: "conflict",
+      block: { oursLabel: "HEAD", theirsLabel: "feature", ours: "const x = 1;\n", theirs: "const x = 2;\n", startLine: 1 },
+    });
+    expect(first.kind === "conflict" && first.block.base).toBeUndefined();
+    expect(second).toMatchObject({ kind: "conflict", block: { base: "base\n", startLine: 7 } });
+    expect(countConflicts(MERGED)).toBe(2);
+  });
+
+  it("resolves one block and leaves the other verbatim", () => {
+    const resolved = resolveConflictBlock(MERGED, 0, "theirs");
+    expect(resolved.startsWith("import a from 'a';\nconst x = 2;\nmiddle\n<<<<<<< HEAD\n")).toBe(true);
+    expect(resolved).toContain("||||||| merged common ancestors\nbase\n");
+    expect(countConflicts(resolved)).toBe(1);
+  });
+
+  it("keeps both sides on separate lines", () => {
+    expect(resolveAllConflicts(MERGED, "both")).toBe(
+      "import a from 'a';\nconst x = 1;\nconst x = 2;\nmiddle\nours-only\ntheirs-only\n",
+    );
+  });
+
+  it("ignores unterminated markers", () => {
+    const text = "<<<<<<< HEAD\nno end\n=======\n";
+    expect(parseConflictMarkers(text)).toEqual([{ kind: "text", text }]);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Parsing and resolving `<<<<<<<` / `=======` / `>>>>>>>` conflict blocks in a
+ * working-tree file. Handles both the default "merge" style and "diff3"/"zdiff3"
+ * (`|||||||` base section). Line endings are preserved as-is.
+ */
+
+export type ConflictChoice = "ours" | "theirs" | "both";
+
+export interface ConflictBlock {
+  /** Label after `<<<<<<<` (usually HEAD or the current branch). */
+  oursLabel: string;
+  /** Label after `>>>>>>>` (the incoming commit/branch). */
+  theirsLabel: string;
+  ours: string;
+  /** Only present for diff3-style markers. */
+  base?: string;
+  theirs: string;
+  /** 0-based line of the `<<<<<<<` marker in the file. */
+  startLine: number;
+  /** The block verbatim, markers included. */
+  raw: string;
+}
+
+export type ConflictSegment =
+  | { kind: "text"; text: string }
+  | { kind: "conflict"; block: ConflictBlock };
+
+const OURS_MARKER = "<<<<<<<";
+const BASE_MARKER = "|||||||";
+const SEPARATOR = "=======";
+const THEIRS_MARKER = ">>>>>>>";
+
+function markerLabel(line: string, marker: string): string {
+  return line.slice(marker.length).replace(/\r?\n$/, "").trim();
+}
+
+function isMarker(line: string, marker: string): boolean {
+  return line.startsWith(marker) && (line.length === marker.length || /^[ \r\n]/.test(line[marker.length]));
+}
+
+/** Split file content into plain text and conflict blocks. Unterminated blocks are kept as text. */
+export function parseConflictMarkers(content: string): ConflictSegment[] {
+  // Keep line terminators attached so resolved output round-trips exactly
+  const lines = content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  const segments: ConflictSegment[] = [];
+  let text = "";
+  let i = 0;
+
+  const flushText = () => {
+    if (text) segments.push({ kind: "text", text });
+    text = "";
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!isMarker(line, OURS_MARKER)) {
+      text += line;
+      i += 1;
+      continue;
+    }
+
+    const startLine = i;
+    let section: "ours" | "base" | "theirs" = "ours";
+    const parts = { ours: "", base: "", theirs: "" };
+    let hasBase = false;
+    let theirsLabel: string | null = null;
+    let j = i + 1;
+    for (; j < lines.length; j += 1) {
+      const inner = lines[j];
+      if (section === "ours" && isMarker(inner, BASE_MARKER)) {
+        section = "base";
+        hasBase = true;
+      } else if (section !== "theirs" && isMarker(inner, SEPARATOR)) {
+        section = "theirs";
+      } else if (section === "theirs" && isMarker(inner, THEIRS_MARKER)) {
+        theirsLabel = markerLabel(inner, THEIRS_MARKER);
+        break;
+      } else {
+        parts[section] += inner;
+      }
+    }
+
+    if (theirsLabel === null) {
+      // No closing marker — not a real conflict block
+      text += line;
+      i += 1;
+      continue;
+    }
+
+    flushText();
+    segments.push({
+      kind: "conflict",
+      block: {
+        oursLabel: markerLabel(line, OURS_MARKER),
+        theirsLabel,
+        ours: parts.ours,
+        ...(hasBase ? { base: parts.base } : {}),
+        theirs: parts.theirs,
+        startLine,
+        raw: lines.slice(i, j + 1).join(""),
+      },
+    });
+    i = j + 1;
+  }
+
+  flushText();
+  return segments;
+}
+
+export function countConflicts(content: string): number {
+  return parseConflictMarkers(content).filter((segment) => segment.kind === "conflict").length;
+}
+
+function resolvedText(block: ConflictBlock, choice: ConflictChoice): string {
+  if (choice === "ours") return block.ours;
+  if (choice === "theirs") return block.theirs;
+  // Make sure "both" doesn't glue the last ours line onto the first theirs line
+  const ours = block.ours && !block.ours.endsWith("\n") ? `${block.ours}\n` : block.ours;
+  return ours + block.theirs;
+}
+
+/**
+ * Replace the `conflictIndex`-th conflict block with the chosen side(s),
+ * leaving every other block untouched. Returns the content unchanged when the
+ * index is out of range.
+ */
+export function resolveConflictBlock(content: string, conflictIndex: number, choice: ConflictChoice): string {
+  let index = -1;
+  return parseConflictMarkers(content)
+    .map((segment) => {
+      if (segment.kind === "text") return segment.text;
+      index += 1;
+      return index === conflictIndex ? resolvedText(segment.block, choice) : segment.block.raw;
+    })
+    .join("");
+}
+
+/** Resolve every remaining conflict block with the same choice. */
+export function resolveAllConflicts(content: string, choice: ConflictChoice): string {
+  return parseConflictMarkers(content)
+    .map((segment) => (segment.kind === "text" ? segment.text : resolvedText(segment.block, choice)))
+    .join("");
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import type { FileChange, TurnSummary } from "@/lib/chat/turn-changes";
+import { buildSessionTrailers, findSessionsForFiles, mergeTurnEdits, retireCommittedEdits } from "./session-attribution";
+
+function change(filePath: string): FileChange {
+  return {
+    filePath,
+    fileName: filePath.split("/").pop() ?? filePath,
+    changeType: "modified",
+    toolName: "Edit",
+    messageId: "m",
+    timestamp: 0,
+  };
+}
+
+function turn(turnIndex: number, files: string[]): TurnSummary {
+  return {
+    turnIndex,
+    userMessageId: `u${turnIndex}`,
+    endMessageIndex: 0,
+    changes: files.map(change),
+    fileCount: files.length,
+    modifiedCount: files.length,
+    createdCount: 0,
+  };
+}
+
+describe("session attribution", () => {
+  it("records each turn once, keyed by its user message", () => {
+    const first = mergeTurnEdits([], "s-1", "/work/app", [turn(0, ["/work/app/src/a.ts", "/work/app/src/a.ts"]), turn(1, [])], 10);
+    expect(first).toEqual([{ sessionId: "s-1", turnId: "u0", root: "/work/app", files: ["/work/app/src/a.ts"], recordedAt: 10 }]);
+
+    const again = mergeTurnEdits(first, "s-1", "/work/app", [turn(0, ["/work/app/src/a.ts", "/work/app/src/b.ts"])], 20);
+    expect(again).toEqual([{ sessionId: "s-1", turnId: "u0", root: "/work/app", files: ["/work/app/src/a.ts", "/work/app/src/b.ts"], recordedAt: 10 }]);
+  });
+
+  it("finds the chats and turns that touched committed files, absolute or relative to where they ran", () => {
+    let ledger = mergeTurnEdits([], "s-1", "/work/app", [
+      turn(0, ["/work/app/src/a.ts"]),
+      turn(1, ["/work/other/src/a.ts"]),
+      turn(2, ["src/b.ts", "/work/app/README.md"]),
+    ], 1);
+    ledger = mergeTurnEdits(ledger, "s-2", "/work/app/packages", [turn(0, ["/work/app/src/a.ts"]), turn(3, ["./ui/c.ts"])], 2);
+    ledger = mergeTurnEdits(ledger, "s-3", "/work/other", [turn(0, ["src/a.ts"])], 3);
+
+    expect(findSessionsForFiles(ledger, "/work/app/", ["src/a.ts", "src/b.ts", "packages/ui/c.ts"])).toEqual([
+      { sessionId: "s-1", turnIds: ["u0", "u2"] },
+      { sessionId: "s-2", turnIds: ["u0", "u3"] },
+    ]);
+    expect(findSessionsForFiles(ledger, "C:\\work\\app", ["src/a.ts"])).toEqual([]);
+  });
+
+  it("stops attributing a file once it is committed", () => {
+    let ledger = mergeTurnEdits([], "s-1", "/work/app", [turn(0, ["src/a.ts", "src/b.ts"])], 1);
+    expect(findSessionsForFiles(ledger, "/work/app", ["src/a.ts"])).toEqual([{ sessionId: "s-1", turnIds: ["u0"] }]);
+
+    ledger = retireCommittedEdits(ledger, "/work/app", ["src/a.ts"]);
+    // Saving the chat again re-records the turn without reviving the committed file
+    ledger = mergeTurnEdits(ledger, "s-1", "/work/app", [turn(0, ["src/a.ts", "src/b.ts"])], 2);
+
+    expect(buildSessionTrailers(findSessionsForFiles(ledger, "/work/app", ["src/a.ts"]))).toEqual([]);
+    expect(findSessionsForFiles(ledger, "/work/app", ["src/a.ts", "src/b.ts"])).toEqual([{ sessionId: "s-1", turnIds: ["u0"] }]);
+    expect(retireCommittedEdits(ledger, "/work/app", ["src/a.ts"])).toBe(ledger);
+  });
+
+  it("only emits trailers when a chat produced part of the commit", () => {
+    expect(buildSessionTrailers([])).toEqual([]);
+    expect(buildSessionTrailers([
+      { sessionId: "s-1", turnIds: ["u0", "u2"] },
+      { sessionId: "s-2", turnIds: ["u5"] },
+    ])).toEqual([
+      "Harnss-Session: s-1",
+      "Harnss-Session: s-2",
+      "Harnss-Turn: u0",
+      "Harnss-Turn: u2",
+      "Harnss-Turn: u5",
+    ]);
+  });
+});
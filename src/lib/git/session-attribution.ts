@@ -0,0 +1,170 @@
+/**
+ * Links commits back to the chats that wrote them.
+ *
+ * Every chat's file edits are recorded per turn as sessions are saved or
+ * finish in the background. When enabled, a panel commit gets one
+ * `Harnss-Session: <id>` trailer per chat whose recorded edits are part of the
+ * commit, plus a `Harnss-Turn: <user message id>` trailer per turn. Once a file
+ * is committed its recorded edits are retired, so later commits of the same
+ * file aren't attributed to them again. The history and blame views read the
+ * trailers back to jump to the conversation.
+ */
+
+import type { TurnSummary } from "@/lib/chat/turn-changes";
+
+export const SESSION_TRAILER_KEY = "Harnss-Session";
+export const TURN_TRAILER_KEY = "Harnss-Turn";
+
+const EDIT_LEDGER_STORAGE_KEY = "harnss-git-edit-ledger";
+/** Oldest turns are dropped past this many. */
+const EDIT_LEDGER_LIMIT = 500;
+
+/** Files one turn of a chat edited, identified by the user message that opened the turn. */
+export interface TurnEdits {
+  sessionId: string;
+  turnId: string;
+  /** Directory the chat ran in — relative tool paths resolve against it. */
+  root: string;
+  files: string[];
+  /** Files of `files` already part of a commit. */
+  committed?: string[];
+  recordedAt: number;
+}
+
+/** Turns of one chat that produced part of a commit. */
+export interface SessionAttribution {
+  sessionId: string;
+  turnIds: string[];
+}
+
+function normalizeSlashes(filePath: string): string {
+  return filePath.replace(/\\/g, "/");
+}
+
+function trimTrailingSlashes(dir: string): string {
+  return normalizeSlashes(dir).replace(/\/+$/, "");
+}
+
+/** Repo-relative form of a tool's file path, or null when it lies outside the repo. */
+function toRepoRelative(filePath: string, root: string, repoPath: string): string | null {
+  let file = normalizeSlashes(filePath);
+  if (!file.startsWith("/") && !/^[A-Za-z]:\//.test(file)) file = `${trimTrailingSlashes(root)}/${file.replace(/^\.\//, "")}`;
+  const repo = trimTrailingSlashes(repoPath);
+  return file.startsWith(`${repo}/`) ? file.slice(repo.length + 1) : null;
+}
+
+export function loadEditLedger(): TurnEdits[] {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(EDIT_LEDGER_STORAGE_KEY) ?? "[]");
+    // Entries recorded before roots were kept can't be placed in a repo
+    return Array.isArray(parsed) ? (parsed as TurnEdits[]).filter((entry) => typeof entry?.root === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveEditLedger(ledger: TurnEdits[]): void {
+  try {
+    localStorage.setItem(EDIT_LEDGER_STORAGE_KEY, JSON.stringify(ledger));
+  } catch {
+    /* restricted or full */
+  }
+}
+
+/**
+ * Merge a chat's turn summaries into the recorded edits. Turns are keyed by
+ * their user message, so re-recording a session (every save) replaces its
+ * entries instead of duplicating them, and turns that were rolled back stay
+ * recorded — their edits may still be in the working tree. Files already
+ * committed stay retired.
+ */
+export function mergeTurnEdits(ledger: TurnEdits[], sessionId: string, root: string, summaries: TurnSummary[], now: number): TurnEdits[] {
+  const turns = summaries
+    .filter((summary) => summary.changes.length > 0)
+    .map((summary) => ({
+      sessionId,
+      turnId: summary.userMessageId,
+      root,
+      files: [...new Set(summary.changes.map((change) => change.filePath))],
+    }));
+  if (turns.length === 0) return ledger;
+  const byKey = new Map(ledger.map((entry) => [`${entry.sessionId}\0${entry.turnId}`, entry]));
+  for (const turn of turns) {
+    const key = `${turn.sessionId}\0${turn.turnId}`;
+    const existing = byKey.get(key);
+    // Keep the first recording time so the ledger's age order stays stable
+    byKey.set(key, {
+      ...turn,
+      ...(existing?.committed ? { committed: existing.committed } : {}),
+      recordedAt: existing?.recordedAt ?? now,
+    });
+  }
+  return [...byKey.values()]
+    .sort((a, b) => a.recordedAt - b.recordedAt)
+    .slice(-EDIT_LEDGER_LIMIT);
+}
+
+/** Record the file edits of `sessionId`'s turns, made in the `root` directory. */
+export function recordSessionEdits(sessionId: string, root: string, summaries: TurnSummary[]): void {
+  if (!summaries.some((summary) => summary.changes.length > 0)) return;
+  const ledger = loadEditLedger();
+  const next = mergeTurnEdits(ledger, sessionId, root, summaries, Date.now());
+  if (next !== ledger) saveEditLedger(next);
+}
+
+/** Whether `file` of a recorded turn is one of the repo-relative `wanted` paths and not yet committed. */
+function isPendingEdit(entry: TurnEdits, file: string, repoPath: string, wanted: Set<string>): boolean {
+  if (entry.committed?.includes(file)) return false;
+  const relative = toRepoRelative(file, entry.root, repoPath);
+  return relative !== null && wanted.has(relative);
+}
+
+/**
+ * Chats and turns whose uncommitted recorded edits touch any of the
+ * `paths` (relative to the `repoPath` top level), in the order they were
+ * first recorded.
+ */
+export function findSessionsForFiles(ledger: TurnEdits[], repoPath: string, paths: string[]): SessionAttribution[] {
+  const wanted = new Set(paths.map(normalizeSlashes));
+  const bySession = new Map<string, string[]>();
+  for (const entry of ledger) {
+    const touched = entry.files.some((file) => isPendingEdit(entry, file, repoPath, wanted));
+    if (!touched) continue;
+    const turnIds = bySession.get(entry.sessionId) ?? [];
+    turnIds.push(entry.turnId);
+    bySession.set(entry.sessionId, turnIds);
+  }
+  return [...bySession].map(([sessionId, turnIds]) => ({ sessionId, turnIds }));
+}
+
+/** Mark the recorded edits of `paths` (relative to the `repoPath` top level) as committed. */
+export function retireCommittedEdits(ledger: TurnEdits[], repoPath: string, paths: string[]): TurnEdits[] {
+  const wanted = new Set(paths.map(normalizeSlashes));
+  let changed = false;
+  const next = ledger.map((entry) => {
+    const landed = entry.files.filter((file) => isPendingEdit(entry, file, repoPath, wanted));
+    if (landed.length === 0) return entry;
+    changed = true;
+    return { ...entry, committed: [...(entry.committed ?? []), ...landed] };
+  });
+  return changed ? next : ledger;
+}
+
+/** Retire the recorded edits of files that just landed in a commit. */
+export function recordCommittedFiles(repoPath: string, paths: string[]): void {
+  const ledger = loadEditLedger();
+  const next = retireCommittedEdits(ledger, repoPath, paths);
+  if (next !== ledger) saveEditLedger(next);
+}
+
+/**
+ * Commit trailers for the chats that produced part of a commit — none when no
+ * chat did. Session trailers come first and turns follow in session order, so
+ * the first turn always belongs to the first session.
+ */
+export function buildSessionTrailers(attributions: SessionAttribution[]): string[] {
+  return [
+    ...attributions.map(({ sessionId }) => `${SESSION_TRAILER_KEY}: ${sessionId}`),
+    ...attributions.flatMap(({ turnIds }) => turnIds.map((turnId) => `${TURN_TRAILER_KEY}: ${turnId}`)),
+  ];
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import type { ChatSession } from "@/types";
+import { groupSessionsByWorktree } from "./worktree-sessions";
+
+function session(id: string, cwd: string | undefined, isProcessing = false): ChatSession {
+  return { id, projectId: "p", title: `Chat ${id}`, createdAt: 0, totalCost: 0, isActive: false, cwd, isProcessing };
+}
+
+describe("worktree sessions", () => {
+  it("assigns each chat to the deepest worktree containing its cwd", () => {
+    const groups = groupSessionsByWorktree([
+      session("a", "/work/app"),
+      session("b", "/work/app/.worktrees/feat/src", true),
+      session("c", "/work/app-other"),
+      session("d", undefined),
+    ], ["/work/app", "/work/app/.worktrees/feat/"]);
+
+    expect(groups.get("/work/app")?.map((s) => s.id)).toEqual(["a"]);
+    expect(groups.get("/work/app/.worktrees/feat/")).toEqual([{ id: "b", title: "Chat b", live: true }]);
+  });
+
+  it("places chats without a recorded cwd by the fallback", () => {
+    const groups = groupSessionsByWorktree(
+      [session("a", undefined, true), session("b", "/work/app")],
+      ["/work/app", "/work/app-feat"],
+      () => "/work/app-feat",
+    );
+    expect(groups.get("/work/app-feat")).toEqual([{ id: "a", title: "Chat a", live: true }]);
+    expect(groups.get("/work/app")?.map((s) => s.id)).toEqual(["b"]);
+  });
+
+  it("matches Windows paths regardless of separator", () => {
+    const groups = groupSessionsByWorktree([session("a", "C:\\work\\app-feat")], ["C:/work/app-feat"]);
+    expect(groups.get("C:/work/app-feat")?.map((s) => s.id)).toEqual(["a"]);
+  });
+});
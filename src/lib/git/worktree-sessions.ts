@@ -0,0 +1,46 @@
+/**
+ * Which chats run in which worktree, from the directory each session's agent
+ * was started in. The worktree manager lists them and refuses to remove a
+ * worktree while one of its chats is still working.
+ */
+
+import type { ChatSession, WorktreeSession } from "@/types";
+
+function normalizeDir(dir: string): string {
+  return dir.replace(/\\/g, "/").replace(/\/+$/, "");
+}
+
+function isInside(dir: string, root: string): boolean {
+  return dir === root || dir.startsWith(`${root}/`);
+}
+
+/**
+ * Group sessions by the worktree they were started in. A session inside a
+ * worktree nested in another (e.g. `repo/.worktrees/x`) belongs to the deepest
+ * one. Sessions saved before the cwd was recorded (and imported ones) use
+ * `fallbackCwd` — where their project starts agents. Sessions outside every
+ * worktree are left out.
+ */
+export function groupSessionsByWorktree(
+  sessions: ChatSession[],
+  worktreePaths: string[],
+  fallbackCwd?: (session: ChatSession) => string | undefined,
+): Map<string, WorktreeSession[]> {
+  const roots = worktreePaths
+    .map((worktreePath) => ({ worktreePath, root: normalizeDir(worktreePath) }))
+    .sort((a, b) => b.root.length - a.root.length);
+  const groups = new Map<string, WorktreeSession[]>(worktreePaths.map((worktreePath) => [worktreePath, []]));
+  for (const session of sessions) {
+    const cwd = session.cwd || fallbackCwd?.(session);
+    if (!cwd) continue;
+    const dir = normalizeDir(cwd);
+    const match = roots.find(({ root }) => isInside(dir, root));
+    if (!match) continue;
+    groups.get(match.worktreePath)?.push({
+      id: session.id,
+      title: session.title,
+      live: !!(session.isProcessing || session.hasPendingPermission),
+    });
+  }
+  return groups;
+}
@@ -24,6 +24,7 @@ export const TOOL_PREFERRED_WIDTHS: Record<string, number> = {
   files: 320,
   "project-files": 320,
   mcp: 380,
+  "task-runner": 380,
 };
 
 /** Fallback preferred width for tools not in the map. */
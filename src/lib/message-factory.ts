@@ -15,6 +15,14 @@ export function createSystemMessage(content: string, isError?: boolean): UIMessa
   };
 }
 
+/** Create the resumable system message shown when a budget limit pauses a session. */
+export function createBudgetPauseMessage(content: string, interrupted: boolean): UIMessage {
+  return {
+    ...createSystemMessage(content, true),
+    budgetPause: { interrupted },
+  };
+}
+
 /** Create a user-role UIMessage with optional images and display text. */
 export function createUserMessage(
   content: string,
@@ -37,7 +45,7 @@ export function formatResultError(subtype: string, detail: string): string {
     case "error_max_turns":
       return "Session reached the maximum number of turns. Start a new session to continue.";
     case "error_max_budget_usd":
-      return "Session exceeded the cost budget limit.";
+      return "Session exceeded the cost budget limit. Resume to keep going.";
     case "error_max_structured_output_retries":
       return "Structured output failed after maximum retries.";
     case "error_during_execution":
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  advanceBudgetTracking,
+  checkBudgets,
+  DEFAULT_BUDGET_SETTINGS,
+  EMPTY_BUDGET_LIMITS,
+  EMPTY_BUDGET_USAGE,
+  formatBudgetBreach,
+  getActiveSessionUsage,
+  getRemainingCostBudget,
+  getUsageReportTokens,
+  isSameUsageReport,
+  normalizeBudgetSettings,
+  startBudgetTracking,
+  type BudgetSettings,
+} from "./budget";
+
+function makeSettings(overrides: Partial<BudgetSettings> = {}): BudgetSettings {
+  return { ...DEFAULT_BUDGET_SETTINGS, enabled: true, ...overrides };
+}
+
+const NO_USAGE = { session: EMPTY_BUDGET_USAGE, project: EMPTY_BUDGET_USAGE, day: EMPTY_BUDGET_USAGE };
+
+describe("budget guards", () => {
+  it("does nothing while disabled or without limits", () => {
+    const usage = { ...NO_USAGE, session: { ...EMPTY_BUDGET_USAGE, costUsd: 50 } };
+    expect(checkBudgets(usage, { ...makeSettings(), enabled: false, session: { ...EMPTY_BUDGET_LIMITS, costUsd: 1 } })).toBeNull();
+    expect(checkBudgets(usage, makeSettings())).toBeNull();
+  });
+
+  it("warns at the threshold and prefers exceeded limits over warnings", () => {
+    const settings = makeSettings({
+      session: { ...EMPTY_BUDGET_LIMITS, costUsd: 10 },
+      day: { ...EMPTY_BUDGET_LIMITS, turns: 20 },
+    });
+
+    const warning = checkBudgets({ ...NO_USAGE, session: { ...EMPTY_BUDGET_USAGE, costUsd: 8.5 } }, settings);
+    expect(warning).toMatchObject({ scope: "session", metric: "costUsd", level: "warning" });
+
+    const exceeded = checkBudgets({
+      ...NO_USAGE,
+      session: { ...EMPTY_BUDGET_USAGE, costUsd: 9.9 },
+      day: { ...EMPTY_BUDGET_USAGE, turns: 20 },
+    }, settings);
+    expect(exceeded).toMatchObject({ scope: "day", metric: "turns", level: "exceeded" });
+  });
+
+  it("skips limits the user resumed past", () => {
+    const settings = makeSettings({ project: { ...EMPTY_BUDGET_LIMITS, minutes: 30 } });
+    const usage = { ...NO_USAGE, project: { ...EMPTY_BUDGET_USAGE, minutes: 45 } };
+    expect(checkBudgets(usage, settings, new Set(["project:minutes"]))).toBeNull();
+  });
+
+  it("caps spend at the tightest cost limit that is still open", () => {
+    const settings = makeSettings({
+      session: { ...EMPTY_BUDGET_LIMITS, costUsd: 5 },
+      day: { ...EMPTY_BUDGET_LIMITS, costUsd: 20 },
+    });
+    const usage = { ...NO_USAGE, session: { ...EMPTY_BUDGET_USAGE, costUsd: 1 }, day: { ...EMPTY_BUDGET_USAGE, costUsd: 18 } };
+    expect(getRemainingCostBudget(usage, settings)).toBe(2);
+    expect(getRemainingCostBudget(usage, settings, new Set(["day:costUsd"]))).toBe(4);
+
+    const spent = { ...usage, session: { ...EMPTY_BUDGET_USAGE, costUsd: 6 }, day: { ...EMPTY_BUDGET_USAGE, costUsd: 21 } };
+    expect(getRemainingCostBudget(spent, settings)).toBeUndefined();
+    expect(getRemainingCostBudget(usage, makeSettings())).toBeUndefined();
+  });
+
+  it("counts each new usage report once, per engine", () => {
+    const report = { inputTokens: 100, outputTokens: 20, cacheReadTokens: 300, cacheCreationTokens: 50, contextWindow: 200_000 };
+    expect(getUsageReportTokens("claude", report)).toBe(470);
+    expect(getUsageReportTokens("codex", report)).toBe(120);
+    expect(getUsageReportTokens("acp", report)).toBe(0);
+
+    expect(isSameUsageReport(report, { ...report, contextWindow: 1_000_000 })).toBe(true);
+    expect(isSameUsageReport(report, { ...report, outputTokens: 21 })).toBe(false);
+    expect(isSameUsageReport(null, report)).toBe(false);
+  });
+
+  it("counts spend, tokens, turns and time between reports", () => {
+    const report = { inputTokens: 100, outputTokens: 20, cacheReadTokens: 0, cacheCreationTokens: 0, contextWindow: 200_000 };
+    const tracked = startBudgetTracking({ isProcessing: false, totalCost: 1, contextUsage: null }, 0);
+
+    expect(advanceBudgetTracking(tracked, "claude", { isProcessing: true, totalCost: 1, contextUsage: null }, 60_000)).toEqual({});
+    expect(advanceBudgetTracking(tracked, "claude", { isProcessing: false, totalCost: 1.5, contextUsage: report }, 180_000))
+      .toEqual({ costUsd: 0.5, tokens: 120, turns: 1, minutes: 2 });
+    expect(advanceBudgetTracking(tracked, "claude", { isProcessing: false, totalCost: 1.5, contextUsage: report }, 240_000)).toEqual({});
+  });
+
+  it("counts nothing when the active session switches", () => {
+    const report = { inputTokens: 100, outputTokens: 20, cacheReadTokens: 0, cacheCreationTokens: 0, contextWindow: 200_000 };
+    const previous = { isProcessing: true, totalCost: 3, contextUsage: report };
+    const incoming = { isProcessing: false, totalCost: 1, contextUsage: { ...report, outputTokens: 5 } };
+    // The incoming session was tracked while it ran in the background
+    const tracked = startBudgetTracking(incoming, 0);
+
+    // Switch render: the engine hook still holds the previous session's totals
+    const onSwitch = getActiveSessionUsage(true, previous, incoming);
+    expect(advanceBudgetTracking(tracked, "claude", onSwitch, 60_000)).toEqual({});
+    // Next render: the engine hook has restored the incoming session's totals
+    expect(advanceBudgetTracking(tracked, "claude", getActiveSessionUsage(false, incoming, incoming), 120_000)).toEqual({});
+
+    // A session with no live state starts from nothing, like the engine hook
+    const fresh = startBudgetTracking(getActiveSessionUsage(true, previous, null), 0);
+    const idle = { isProcessing: false, totalCost: 0, contextUsage: null };
+    expect(advanceBudgetTracking(fresh, "claude", getActiveSessionUsage(false, idle, null), 60_000)).toEqual({});
+  });
+
+  it("normalizes persisted settings and formats breaches", () => {
+    expect(normalizeBudgetSettings({ enabled: true, warnAtPercent: 150, session: { costUsd: -1, turns: 5 } }))
+      .toEqual({
+        enabled: true,
+        warnAtPercent: 99,
+        session: { ...EMPTY_BUDGET_LIMITS, turns: 5 },
+        project: EMPTY_BUDGET_LIMITS,
+        day: EMPTY_BUDGET_LIMITS,
+      });
+    expect(normalizeBudgetSettings(undefined)).toBe(DEFAULT_BUDGET_SETTINGS);
+
+    expect(formatBudgetBreach({ scope: "session", metric: "costUsd", used: 2.01, limit: 2, level: "exceeded" }))
+      .toBe("Session cost budget exceeded ($2.01 of $2.00)");
+    expect(formatBudgetBreach({ scope: "day", metric: "turns", used: 8, limit: 10, level: "warning" }))
+      .toBe("Daily turn budget at 80% (8 turns of 10 turns)");
+  });
+});
@@ -0,0 +1,281 @@
+import type { ContextUsage, EngineId } from "@/types";
+import { formatUsd } from "./usage";
+
+/**
+ * Budget guards — limits on spend, tokens, turns and agent wall-clock time,
+ * checked per session, per project (per local day) and across all projects per day.
+ */
+
+export type BudgetMetric = "costUsd" | "tokens" | "turns" | "minutes";
+export type BudgetScope = "session" | "project" | "day";
+
+/** A `null` limit means "no limit" for that metric. */
+export type BudgetLimits = Record<BudgetMetric, number | null>;
+export type BudgetUsage = Record<BudgetMetric, number>;
+
+export interface BudgetSettings {
+  enabled: boolean;
+  /** Warn once a limit is this far used (1–99). */
+  warnAtPercent: number;
+  session: BudgetLimits;
+  project: BudgetLimits;
+  day: BudgetLimits;
+}
+
+export interface BudgetBreach {
+  scope: BudgetScope;
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+  level: "warning" | "exceeded";
+}
+
+export const BUDGET_METRICS: BudgetMetric[] = ["costUsd", "tokens", "turns", "minutes"];
+export const BUDGET_SCOPES: BudgetScope[] = ["session", "project", "day"];
+
+export const EMPTY_BUDGET_LIMITS: BudgetLimits = Object.freeze({
+  costUsd: null,
+  tokens: null,
+  turns: null,
+  minutes: null,
+});
+
+export const EMPTY_BUDGET_USAGE: BudgetUsage = Object.freeze({
+  costUsd: 0,
+  tokens: 0,
+  turns: 0,
+  minutes: 0,
+});
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = Object.freeze({
+  enabled: false,
+  warnAtPercent: 80,
+  session: EMPTY_BUDGET_LIMITS,
+  project: EMPTY_BUDGET_LIMITS,
+  day: EMPTY_BUDGET_LIMITS,
+});
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  session: "Session",
+  project: "Project daily",
+  day: "Daily",
+};
+
+const METRIC_LABELS: Record<BudgetMetric, string> = {
+  costUsd: "cost",
+  tokens: "token",
+  turns: "turn",
+  minutes: "time",
+};
+
+function normalizeLimit(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function normalizeLimits(value: unknown): BudgetLimits {
+  const record = (value && typeof value === "object" ? value : {}) as Partial<Record<BudgetMetric, unknown>>;
+  return {
+    costUsd: normalizeLimit(record.costUsd),
+    tokens: normalizeLimit(record.tokens),
+    turns: normalizeLimit(record.turns),
+    minutes: normalizeLimit(record.minutes),
+  };
+}
+
+/** Coerce persisted (possibly partial or stale) budget settings into a complete shape. */
+export function normalizeBudgetSettings(value: unknown): BudgetSettings {
+  if (!value || typeof value !== "object") return DEFAULT_BUDGET_SETTINGS;
+  const record = value as Partial<Record<keyof BudgetSettings, unknown>>;
+  const warnAt = Number(record.warnAtPercent);
+  return {
+    enabled: record.enabled === true,
+    warnAtPercent: Number.isFinite(warnAt) ? Math.max(1, Math.min(99, Math.round(warnAt))) : DEFAULT_BUDGET_SETTINGS.warnAtPercent,
+    session: normalizeLimits(record.session),
+    project: normalizeLimits(record.project),
+    day: normalizeLimits(record.day),
+  };
+}
+
+export function addBudgetUsage(base: BudgetUsage, delta: Partial<BudgetUsage>): BudgetUsage {
+  return {
+    costUsd: base.costUsd + (delta.costUsd ?? 0),
+    tokens: base.tokens + (delta.tokens ?? 0),
+    turns: base.turns + (delta.turns ?? 0),
+    minutes: base.minutes + (delta.minutes ?? 0),
+  };
+}
+
+/**
+ * Find the most pressing budget breach: any exceeded limit beats a warning,
+ * and within a level the limit that is proportionally furthest along wins.
+ * Breaches listed in `ignore` (`scope:metric` keys) are skipped.
+ */
+export function checkBudgets(
+  usage: Record<BudgetScope, BudgetUsage>,
+  settings: BudgetSettings,
+  ignore: ReadonlySet<string> = new Set(),
+): BudgetBreach | null {
+  if (!settings.enabled) return null;
+  let worst: { breach: BudgetBreach; ratio: number } | null = null;
+
+  for (const scope of BUDGET_SCOPES) {
+    for (const metric of BUDGET_METRICS) {
+      const limit = settings[scope][metric];
+      if (limit == null || ignore.has(getBudgetBreachKey({ scope, metric }))) continue;
+      const used = usage[scope][metric];
+      const ratio = used / limit;
+      const level = ratio >= 1 ? "exceeded" : ratio * 100 >= settings.warnAtPercent ? "warning" : null;
+      if (!level) continue;
+      const beats = !worst
+        || (level === "exceeded" && worst.breach.level === "warning")
+        || (level === worst.breach.level && ratio > worst.ratio);
+      if (beats) worst = { breach: { scope, metric, used, limit, level }, ratio };
+    }
+  }
+
+  return worst?.breach ?? null;
+}
+
+/**
+ * Spend left before the tightest cost limit that still applies, or undefined
+ * when none does. Limits already used up are left out — they are either being
+ * paused on or were resumed past, and must not cap the session at zero.
+ */
+export function getRemainingCostBudget(
+  usage: Record<BudgetScope, BudgetUsage>,
+  settings: BudgetSettings,
+  ignore: ReadonlySet<string> = new Set(),
+): number | undefined {
+  if (!settings.enabled) return undefined;
+  let remaining: number | undefined;
+  for (const scope of BUDGET_SCOPES) {
+    const limit = settings[scope].costUsd;
+    if (limit == null || ignore.has(getBudgetBreachKey({ scope, metric: "costUsd" }))) continue;
+    const left = limit - usage[scope].costUsd;
+    if (left > 0 && (remaining === undefined || left < remaining)) remaining = left;
+  }
+  return remaining;
+}
+
+/**
+ * Tokens one usage report accounts for. Claude and Codex report the usage of
+ * each model call, so every new report is a call's worth of tokens (Codex
+ * counts cached input inside its input tokens). ACP agents only report how
+ * full the context is, which says nothing about what a turn consumed.
+ */
+export function getUsageReportTokens(engine: EngineId, usage: ContextUsage): number {
+  switch (engine) {
+    case "claude":
+      return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheCreationTokens;
+    case "codex":
+      return usage.inputTokens + usage.outputTokens;
+    case "acp":
+      return 0;
+  }
+}
+
+/** Whether two usage snapshots are the same report — Claude repeats it for every content block of a message. */
+export function isSameUsageReport(a: ContextUsage | null, b: ContextUsage | null): boolean {
+  if (!a || !b) return a === b;
+  return a.inputTokens === b.inputTokens
+    && a.outputTokens === b.outputTokens
+    && a.cacheReadTokens === b.cacheReadTokens
+    && a.cacheCreationTokens === b.cacheCreationTokens;
+}
+
+/** A session's running totals, as its engine hook or the background store holds them. */
+export interface SessionUsageSnapshot {
+  isProcessing: boolean;
+  totalCost: number;
+  contextUsage: ContextUsage | null;
+}
+
+/** Totals of a session that holds no live state — what the engine hook starts from. */
+export const IDLE_SESSION_USAGE: SessionUsageSnapshot = Object.freeze({
+  isProcessing: false,
+  totalCost: 0,
+  contextUsage: null,
+});
+
+/** Totals last seen for a session, so the next report can be turned into usage. */
+export interface BudgetTracking {
+  totalCost: number;
+  isProcessing: boolean;
+  turnStartedAt: number | null;
+  /** Last usage report seen, so repeats of it aren't counted twice. */
+  lastUsage: ContextUsage | null;
+}
+
+/** Start tracking a session: its totals so far are already accounted for. */
+export function startBudgetTracking(live: SessionUsageSnapshot, now: number): BudgetTracking {
+  return {
+    totalCost: live.totalCost,
+    isProcessing: live.isProcessing,
+    turnStartedAt: live.isProcessing ? now : null,
+    lastUsage: live.contextUsage,
+  };
+}
+
+/** Usage a session added since it was last seen; moves `tracked` on to `live`. */
+export function advanceBudgetTracking(
+  tracked: BudgetTracking,
+  engine: EngineId,
+  live: SessionUsageSnapshot,
+  now: number,
+): Partial<BudgetUsage> {
+  const delta: Partial<BudgetUsage> = {};
+  if (live.totalCost > tracked.totalCost) delta.costUsd = live.totalCost - tracked.totalCost;
+  tracked.totalCost = live.totalCost;
+  if (live.contextUsage && !isSameUsageReport(tracked.lastUsage, live.contextUsage)) {
+    delta.tokens = getUsageReportTokens(engine, live.contextUsage);
+    tracked.lastUsage = live.contextUsage;
+  }
+  if (live.isProcessing !== tracked.isProcessing) {
+    tracked.isProcessing = live.isProcessing;
+    if (live.isProcessing) {
+      tracked.turnStartedAt = now;
+    } else if (tracked.turnStartedAt) {
+      delta.turns = 1;
+      delta.minutes = (now - tracked.turnStartedAt) / 60_000;
+      tracked.turnStartedAt = null;
+    }
+  }
+  return delta;
+}
+
+/**
+ * The active session's totals as of this render. On the render that switches
+ * sessions the engine hook still holds the previous session's totals — it
+ * restores the incoming one's from `restored` (its initial meta) in its own
+ * effect — so those are what the incoming session stands at.
+ */
+export function getActiveSessionUsage(
+  switched: boolean,
+  engine: SessionUsageSnapshot,
+  restored: SessionUsageSnapshot | null,
+): SessionUsageSnapshot {
+  return switched ? restored ?? IDLE_SESSION_USAGE : engine;
+}
+
+export function getBudgetBreachKey(breach: Pick<BudgetBreach, "scope" | "metric">): string {
+  return `${breach.scope}:${breach.metric}`;
+}
+
+export function formatBudgetValue(metric: BudgetMetric, value: number): string {
+  switch (metric) {
+    case "costUsd":
+      return formatUsd(value);
+    case "tokens":
+      return value >= 1000 ? `${(value / 1000).toFixed(value >= 100_000 ? 0 : 1)}k tokens` : `${Math.round(value)} tokens`;
+    case "turns":
+      return `${Math.round(value)} ${Math.round(value) === 1 ? "turn" : "turns"}`;
+    case "minutes":
+      return `${value < 10 ? value.toFixed(1) : Math.round(value)} min`;
+  }
+}
+
+/** e.g. "Session cost budget exceeded ($2.01 of $2.00)". */
+export function formatBudgetBreach(breach: BudgetBreach): string {
+  const state = breach.level === "exceeded" ? "exceeded" : `at ${Math.floor((breach.used / breach.limit) * 100)}%`;
+  return `${SCOPE_LABELS[breach.scope]} ${METRIC_LABELS[breach.metric]} budget ${state} (${formatBudgetValue(breach.metric, breach.used)} of ${formatBudgetValue(breach.metric, breach.limit)})`;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { UIMessage } from "@/types";
+import { canForkSession, getForkTitle, getSessionForkPoint } from "./fork";
+
+const messages: UIMessage[] = [
+  { id: "u1", role: "user", content: "first", timestamp: 1, checkpointId: "cp-1" },
+  { id: "a1", role: "assistant", content: "reply", timestamp: 2 },
+  { id: "u2", role: "user", content: "second", timestamp: 3, checkpointId: "cp-2" },
+  { id: "t2", role: "tool_call", content: "", toolName: "Bash", timestamp: 4 },
+  { id: "s2", role: "user", content: "steer", timestamp: 4, isSteered: true },
+  { id: "u3", role: "user", content: "third", timestamp: 5, checkpointId: "cp-3" },
+  { id: "q1", role: "user", content: "queued", timestamp: 6, isQueued: true },
+];
+
+describe("session fork", () => {
+  it("truncates history before the forked-at message and counts dropped turns", () => {
+    const point = getSessionForkPoint(messages, "u2");
+
+    expect(point?.messages.map((m) => m.id)).toEqual(["u1", "a1"]);
+    expect(point?.droppedTurns).toBe(2);
+    expect(point?.checkpointId).toBe("cp-2");
+  });
+
+  it("rejects non-user and queued messages", () => {
+    expect(getSessionForkPoint(messages, "a1")).toBeNull();
+    expect(getSessionForkPoint(messages, "q1")).toBeNull();
+    expect(getSessionForkPoint(messages, "s2")).toBeNull();
+    expect(getSessionForkPoint(messages, "missing")).toBeNull();
+  });
+
+  it("does not stack fork prefixes", () => {
+    expect(getForkTitle("Refactor auth")).toBe("Fork of Refactor auth");
+    expect(getForkTitle("Fork of Refactor auth")).toBe("Fork of Refactor auth");
+    expect(getForkTitle("")).toBe("Fork of Untitled");
+  });
+
+  it("offers forking only for Claude and Codex chats that aren't read-only", () => {
+    expect(canForkSession({})).toBe(true);
+    expect(canForkSession({ engine: "codex" })).toBe(true);
+    expect(canForkSession({ engine: "acp" })).toBe(false);
+    expect(canForkSession({ engine: "claude", readOnly: true })).toBe(false);
+    expect(canForkSession(null)).toBe(false);
+  });
+});
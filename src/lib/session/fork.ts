@@ -0,0 +1,51 @@
+import type { ChatSession, UIMessage } from "@/types";
+
+const FORK_TITLE_PREFIX = "Fork of ";
+
+export interface SessionForkPoint {
+  /** Messages before the forked-at user message — the fork's initial history. */
+  messages: UIMessage[];
+  /** User turns at or after the fork point (Codex rolls these back on the forked thread). */
+  droppedTurns: number;
+  /** SDK checkpoint of the forked-at message (Claude `resumeSessionAt` target). */
+  checkpointId?: string;
+}
+
+/**
+ * Whether "Fork from here" applies to a chat: Claude forks through the SDK and
+ * Codex through thread/fork, while ACP agents have no fork API. Read-only
+ * imports have no engine session to branch.
+ */
+export function canForkSession(session: Pick<ChatSession, "engine" | "readOnly"> | null | undefined): boolean {
+  if (!session || session.readOnly) return false;
+  const engine = session.engine ?? "claude";
+  return engine === "claude" || engine === "codex";
+}
+
+/**
+ * Resolve where a "Fork from here" on `messageId` branches the conversation.
+ * Returns null when the message is not a sent user message in `messages`.
+ */
+export function getSessionForkPoint(messages: UIMessage[], messageId: string): SessionForkPoint | null {
+  const sent = messages.filter((m) => !m.isQueued);
+  const index = sent.findIndex((m) => m.id === messageId && m.role === "user" && !m.isSteered);
+  if (index < 0) return null;
+
+  // Steered messages joined an in-flight turn, so they don't start turns of their own
+  let droppedTurns = 0;
+  for (let i = index; i < sent.length; i++) {
+    if (sent[i].role === "user" && !sent[i].isSteered) droppedTurns++;
+  }
+
+  return {
+    messages: sent.slice(0, index),
+    droppedTurns,
+    checkpointId: sent[index].checkpointId,
+  };
+}
+
+/** Title for a forked chat — avoids stacking "Fork of Fork of …" on repeated forks. */
+export function getForkTitle(title: string): string {
+  const base = title.startsWith(FORK_TITLE_PREFIX) ? title.slice(FORK_TITLE_PREFIX.length) : title;
+  return `${FORK_TITLE_PREFIX}${base || "Untitled"}`;
+}
@@ -3,7 +3,7 @@ import type { ChatSession, UIMessage } from "@/types";
 import { buildPersistedSession, toChatSession } from "./records";
 
 describe("session records", () => {
-  it("keeps folder, pin, and branch metadata when hydrating sidebar sessions", () => {
+  it("keeps folder, pin, branch, and cwd metadata when hydrating sidebar sessions", () => {
     const session = toChatSession({
       id: "session-1",
       projectId: "project-1",
@@ -15,15 +15,17 @@ describe("session records", () => {
       folderId: "folder-1",
       pinned: true,
       branch: "feature/test",
+      cwd: "/work/app-feature",
     }, false);
 
     expect(session.folderId).toBe("folder-1");
     expect(session.pinned).toBe(true);
     expect(session.branch).toBe("feature/test");
+    expect(session.cwd).toBe("/work/app-feature");
     expect(session.isActive).toBe(false);
   });
 
-  it("keeps folder, pin, and branch metadata when building persisted sessions", () => {
+  it("keeps folder, pin, branch, and cwd metadata when building persisted sessions", () => {
     const session: ChatSession = {
       id: "session-1",
       projectId: "project-1",
@@ -35,6 +37,7 @@ describe("session records", () => {
       folderId: "folder-1",
       pinned: true,
       branch: "feature/test",
+      cwd: "/work/app-feature",
     };
     const messages: UIMessage[] = [{
       id: "message-1",
@@ -48,6 +51,7 @@ describe("session records", () => {
     expect(persisted.folderId).toBe("folder-1");
     expect(persisted.pinned).toBe(true);
     expect(persisted.branch).toBe("feature/test");
+    expect(persisted.cwd).toBe("/work/app-feature");
     expect(persisted.messages).toEqual(messages);
   });
 });
@@ -27,7 +27,10 @@ export function toChatSession(
     folderId: session.folderId,
     pinned: session.pinned,
     branch: session.branch,
+    cwd: session.cwd,
     agentId: session.agentId,
+    parentSessionId: session.parentSessionId,
+    readOnly: session.readOnly,
   };
 }
 
@@ -53,6 +56,9 @@ export function buildPersistedSession(
     folderId: session.folderId,
     pinned: session.pinned,
     branch: session.branch,
+    ...(session.cwd ? { cwd: session.cwd } : {}),
+    ...(session.parentSessionId ? { parentSessionId: session.parentSessionId } : {}),
+    ...(session.readOnly ? { readOnly: true } : {}),
     ...(session.agentId ? { agentId: session.agentId } : {}),
     ...(session.agentSessionId ? { agentSessionId: session.agentSessionId } : {}),
     ...(session.engine === "codex" && session.codexThreadId ? { codexThreadId: session.codexThreadId } : {}),
@@ -75,3 +75,13 @@ export function getStoredProjectGitCwd(projectId: string): string | null {
   const trimmed = stored.trim();
   return trimmed ? trimmed : null;
 }
+
+/**
+ * Directory a chat's agent runs in. Older and imported chats have no recorded
+ * cwd; they run where their project starts agents.
+ */
+export function getSessionCwd(session: Pick<ChatSession, "cwd" | "projectId">, projects: Project[]): string | undefined {
+  if (session.cwd) return session.cwd;
+  const project = projects.find((item) => item.id === session.projectId);
+  return project ? getStoredProjectGitCwd(project.id) ?? project.path : undefined;
+}
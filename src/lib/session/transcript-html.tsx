@@ -0,0 +1,165 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import type { UIMessage } from "@/types";
+import { ToolCallSummary } from "@/components/ToolCall";
+import { GenericContent } from "@/components/tool-renderers/GenericContent";
+import { getPatchLineClass } from "@/components/UnifiedPatchViewer";
+import { CHAT_COLLAPSIBLE_CONTENT_CLASS } from "@/components/lib/chat-layout";
+import type { Transcript, TranscriptDiff, TranscriptEntry, TranscriptToolStep } from "./transcript";
+
+/**
+ * Standalone HTML rendering of an exported transcript. Everything is inlined
+ * (no scripts, no external assets) so the page opens anywhere. Tool cards are
+ * rendered with the app's own tool row, renderer and diff classes, styled by
+ * the app stylesheet inlined at export time, in the dark theme.
+ */
+
+const STYLES = `
+:root { color-scheme: dark; --bg: #0f1012; --border: #2a2b30; --fg: #e6e6e8; --muted: #8b8c93; --accent: #7c9cff; --error: #ff7b72; }
+* { box-sizing: border-box; }
+body { margin: 0; background: var(--bg); color: var(--fg); font: 14px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui, sans-serif; }
+main { max-width: 860px; margin: 0 auto; padding: 40px 24px 80px; }
+h1 { font-size: 22px; margin: 0 0 6px; }
+.meta { color: var(--muted); font-size: 12px; margin-bottom: 32px; display: flex; flex-wrap: wrap; gap: 4px 16px; }
+.msg { margin: 18px 0; }
+.user { margin-left: auto; max-width: 85%; width: fit-content; background: #24262b; border-radius: 14px; padding: 10px 14px; white-space: pre-wrap; }
+.assistant > :first-child { margin-top: 0; }
+.assistant pre { background: #0b0c0e; border: 1px solid var(--border); border-radius: 8px; padding: 10px 12px; overflow-x: auto; font-size: 12px; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; }
+:not(pre) > code { background: #24262b; border-radius: 4px; padding: 1px 5px; }
+a { color: var(--accent); }
+table { border-collapse: collapse; } th, td { border: 1px solid var(--border); padding: 4px 8px; }
+details { margin: 6px 0; }
+summary { cursor: pointer; color: var(--muted); font-size: 12px; }
+.thinking { border-left: 2px solid var(--border); padding-left: 12px; color: var(--muted); white-space: pre-wrap; font-size: 13px; }
+.tool-card > summary { list-style: none; cursor: pointer; }
+.tool-card > summary::-webkit-details-marker { display: none; }
+.system { color: var(--muted); font-size: 12px; text-align: center; }
+.system.error { color: var(--error); }
+.compact { border: 1px dashed var(--border); border-radius: 10px; padding: 8px 12px; color: var(--muted); font-size: 13px; white-space: pre-wrap; }
+`;
+
+/** The tool-call shape the in-app renderers read, rebuilt from a transcript entry. */
+function toToolMessage(id: string, tool: Pick<TranscriptToolStep, "tool" | "input" | "output" | "error">): UIMessage {
+  return {
+    id,
+    role: "tool_call",
+    content: "",
+    toolName: tool.tool,
+    toolInput: tool.input,
+    // Output is already flattened to text, which the renderers read from stdout
+    toolResult: tool.output !== undefined ? { stdout: tool.output } : { status: "completed" },
+    ...(tool.error ? { toolError: true } : {}),
+    timestamp: 0,
+  };
+}
+
+/** Static form of the in-app unified patch viewer (no truncation, no editor link). */
+function Diff({ diff }: { diff: TranscriptDiff }) {
+  // The file path is shown in the header bar, so the ---/+++ lines are dropped
+  const lines = diff.patch.replace(/\n$/, "").split("\n")
+    .filter((line) => !line.startsWith("--- ") && !line.startsWith("+++ "));
+  return (
+    <div className="overflow-hidden rounded-lg border border-border/50 bg-muted/55 font-mono text-[12px] leading-[1.55] dark:bg-foreground/[0.06]">
+      <div className="flex items-center gap-3 border-b border-border/40 bg-muted/70 px-3 py-1.5 dark:bg-foreground/[0.04]">
+        <span className="flex-1 truncate text-foreground/80">{diff.filePath}</span>
+      </div>
+      <div className="overflow-auto px-3 py-2">
+        {lines.map((line, i) => (
+          <div key={i} className={`whitespace-pre-wrap wrap-break-word ${getPatchLineClass(line)}`}>{line || " "}</div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const TOOL_ROW_CLASS = "flex w-full items-center gap-2 py-1 text-start text-[13px] leading-4 text-muted-foreground";
+
+function ToolCard({ entry }: { entry: Extract<TranscriptEntry, { kind: "tool" }> }) {
+  const message = toToolMessage(entry.id, entry);
+  return (
+    <details className="tool-card" open={!!entry.diffs}>
+      <summary className={TOOL_ROW_CLASS}>
+        <ToolCallSummary message={message} />
+      </summary>
+      <div className={`${CHAT_COLLAPSIBLE_CONTENT_CLASS} space-y-1.5`}>
+        {entry.diffs
+          ? entry.diffs.map((diff, i) => <Diff key={i} diff={diff} />)
+          : <GenericContent message={message} />}
+        {entry.steps?.map((step, i) => (
+          <div key={i} className={TOOL_ROW_CLASS}>
+            <ToolCallSummary message={toToolMessage(`${entry.id}:${i}`, step)} />
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+function Entry({ entry }: { entry: TranscriptEntry }) {
+  switch (entry.kind) {
+    case "user":
+      return (
+        <div className="msg">
+          <div className="user">{entry.text}</div>
+          {entry.attachments?.map((attachment, i) => (
+            <details key={i}>
+              <summary>{attachment.kind}: {attachment.path}</summary>
+              <pre><code>{attachment.content}</code></pre>
+            </details>
+          ))}
+        </div>
+      );
+    case "assistant":
+      return (
+        <div className="msg assistant">
+          {entry.thinking && (
+            <details>
+              <summary>Thinking</summary>
+              <div className="thinking">{entry.thinking}</div>
+            </details>
+          )}
+          {entry.text && <ReactMarkdown remarkPlugins={[remarkGfm]}>{entry.text}</ReactMarkdown>}
+        </div>
+      );
+    case "tool":
+      return <div className="msg"><ToolCard entry={entry} /></div>;
+    case "system":
+      return <div className={`msg system${entry.error ? " error" : ""}`}>{entry.text}</div>;
+    case "summary":
+      return <div className="msg compact">{entry.text}</div>;
+  }
+}
+
+/**
+ * The running app's CSS, so the exported tool cards resolve the same classes
+ * as in the chat. Sheets the page can't read are skipped.
+ */
+export function getAppStylesheet(): string {
+  return Array.from(document.styleSheets).flatMap((sheet) => {
+    try {
+      return Array.from(sheet.cssRules, (rule) => rule.cssText);
+    } catch {
+      return [];
+    }
+  }).join("\n");
+}
+
+export function transcriptToHtml(transcript: Transcript, appStylesheet = ""): string {
+  const { session } = transcript;
+  const body = renderToStaticMarkup(
+    <main>
+      <h1>{session.title}</h1>
+      <div className="meta">
+        {session.engine && <span>Engine: {session.engine}</span>}
+        {session.model && <span>Model: {session.model}</span>}
+        <span>Started: {new Date(session.createdAt).toLocaleString()}</span>
+        {session.totalCost > 0 && <span>Cost: ${session.totalCost.toFixed(4)}</span>}
+      </div>
+      {transcript.messages.map((entry) => <Entry key={entry.id} entry={entry} />)}
+    </main>,
+  );
+  const title = session.title.replace(/[&<>"]/g, (c) => `&#${c.charCodeAt(0)};`);
+  return `<!DOCTYPE html>\n<html lang="en" class="dark">\n<head>\n<meta charset="utf-8">\n<meta name="viewport" content="width=device-width, initial-scale=1">\n<title>${title}</title>\n<style>${appStylesheet}</style>\n<style>${STYLES}</style>\n</head>\n<body>${body}</body>\n</html>\n`;
+}
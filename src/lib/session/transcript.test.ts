@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from "vitest";
+import type { UIMessage } from "@/types";
+import {
+  buildTranscript,
+  getTranscriptFileName,
+  REDACTED_PLACEHOLDER,
+  transcriptToMarkdown,
+} from "./transcript";
+import { transcriptToHtml } from "./transcript-html";
+
+// The tool renderers' module graph reads navigator.platform on import
+vi.hoisted(() => {
+  if (typeof navigator === "undefined") vi.stubGlobal("navigator", { platform: "", userAgent: "" });
+});
+
+const MESSAGES: UIMessage[] = [
+  {
+    id: "u1",
+    role: "user",
+    content: 'Fix the greeting @src/hello.ts\n\n<file path="src/hello.ts">export const hi = "helo";</file>',
+    displayContent: "Fix the greeting @src/hello.ts",
+    timestamp: 1,
+  },
+  {
+    id: "a1",
+    role: "assistant",
+    content: "Fixing the **typo**.",
+    thinking: "The string is misspelled.",
+    timestamp: 2,
+  },
+  {
+    id: "t1",
+    role: "tool_call",
+    content: "",
+    toolName: "Edit",
+    toolInput: { file_path: "/repo/src/hello.ts", old_string: "helo", new_string: "hello" },
+    toolResult: { filePath: "/repo/src/hello.ts", oldString: "helo", newString: "hello" },
+    timestamp: 3,
+  },
+  {
+    id: "t2",
+    role: "tool_call",
+    content: "",
+    toolName: "Bash",
+    toolInput: { command: "npm test" },
+    toolResult: { stdout: "\x1b[32m1 passed\x1b[0m", stderr: "" },
+    timestamp: 4,
+  },
+  { id: "s1", role: "summary", content: "Earlier context was compacted.", timestamp: 5 },
+];
+
+const SESSION = {
+  id: "session-1",
+  title: "Fix greeting typo",
+  projectId: "project-1",
+  engine: "claude" as const,
+  model: "sonnet",
+  createdAt: 0,
+  totalCost: 0.0123,
+  messages: MESSAGES,
+};
+
+describe("chat transcript export", () => {
+  it("normalizes messages, attachments, diffs and tool output", () => {
+    const transcript = buildTranscript(SESSION, { includeThinking: true, redactFileContents: false });
+
+    expect(transcript.messages.map((entry) => entry.kind)).toEqual(["user", "assistant", "tool", "tool", "summary"]);
+    expect(transcript.messages[0]).toMatchObject({
+      text: "Fix the greeting @src/hello.ts",
+      attachments: [{ kind: "file", path: "src/hello.ts", content: 'export const hi = "helo";' }],
+    });
+    expect(transcript.messages[1]).toMatchObject({ thinking: "The string is misspelled." });
+
+    const edit = transcript.messages[2];
+    expect(edit.kind === "tool" && edit.diffs?.[0].patch).toContain("-helo\n+hello");
+    expect(transcript.messages[3]).toMatchObject({ tool: "Bash", output: "1 passed" });
+  });
+
+  it("drops thinking and redacts file contents on request", () => {
+    const transcript = buildTranscript(SESSION, { includeThinking: false, redactFileContents: true });
+    const json = JSON.stringify(transcript);
+
+    expect(json).not.toContain("misspelled");
+    expect(json).not.toContain("helo");
+    expect(transcript.messages[0]).toMatchObject({ attachments: [{ content: REDACTED_PLACEHOLDER }] });
+    const edit = transcript.messages[2];
+    expect(edit.kind === "tool" && edit.diffs?.[0].patch).toContain(REDACTED_PLACEHOLDER);
+  });
+
+  it("renders Markdown and standalone HTML", () => {
+    const transcript = buildTranscript(SESSION);
+
+    const markdown = transcriptToMarkdown(transcript);
+    expect(markdown).toMatch(/^# Fix greeting typo\n/);
+    expect(markdown).toContain("## Assistant");
+    expect(markdown).toContain("```diff\n");
+    expect(markdown).toContain("```sh\nnpm test\n```");
+
+    const html = transcriptToHtml(transcript);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain("<strong>typo</strong>");
+    expect(html).toMatch(/<div class="[^"]*text-emerald-800\/90[^"]*">\+hello<\/div>/);
+    expect(html).toContain("1 passed");
+    expect(html).not.toContain("<script");
+  });
+
+  it("derives safe file names", () => {
+    expect(getTranscriptFileName("Fix: login / OAuth bug!", "markdown")).toBe("fix-login-oauth-bug.md");
+    expect(getTranscriptFileName("???", "json")).toBe("chat.json");
+  });
+});
@@ -0,0 +1,375 @@
+import { createTwoFilesPatch } from "diff";
+import type { PersistedSession, SubagentToolStep, ToolUseResult, UIMessage } from "@/types";
+import { getPatchPath, getStructuredPatches } from "@/lib/diff/patch-utils";
+import { stripAnsi } from "@/lib/ansi";
+
+/**
+ * Chat transcript export — flattens a session's UIMessage list into a
+ * normalized, engine-agnostic schema that the Markdown / HTML / JSON
+ * exporters render from.
+ */
+
+export type TranscriptFormat = "markdown" | "html" | "json";
+
+export interface TranscriptOptions {
+  includeThinking: boolean;
+  /** Replace file bodies (Read results, written content, diffs, attached files) with a placeholder. */
+  redactFileContents: boolean;
+}
+
+export const DEFAULT_TRANSCRIPT_OPTIONS: TranscriptOptions = Object.freeze({
+  includeThinking: true,
+  redactFileContents: false,
+});
+
+export const REDACTED_PLACEHOLDER = "[redacted]";
+
+export interface TranscriptAttachment {
+  kind: "file" | "folder" | "element";
+  path: string;
+  content?: string;
+}
+
+export interface TranscriptDiff {
+  filePath: string;
+  /** Unified diff text. */
+  patch: string;
+}
+
+export interface TranscriptToolStep {
+  tool: string;
+  summary: string;
+  input: Record<string, unknown>;
+  output?: string;
+  error?: boolean;
+}
+
+interface TranscriptEntryBase {
+  id: string;
+  timestamp: number;
+}
+
+export type TranscriptEntry =
+  | TranscriptEntryBase & { kind: "user"; text: string; attachments?: TranscriptAttachment[]; imageCount?: number }
+  | TranscriptEntryBase & { kind: "assistant"; text: string; thinking?: string }
+  | TranscriptEntryBase & {
+      kind: "tool";
+      tool: string;
+      summary: string;
+      input: Record<string, unknown>;
+      output?: string;
+      error?: boolean;
+      diffs?: TranscriptDiff[];
+      steps?: TranscriptToolStep[];
+    }
+  | TranscriptEntryBase & { kind: "system"; text: string; error?: boolean }
+  | TranscriptEntryBase & { kind: "summary"; text: string };
+
+export interface Transcript {
+  format: "harnss-transcript";
+  version: 1;
+  exportedAt: number;
+  options: TranscriptOptions;
+  session: {
+    id: string;
+    title: string;
+    projectId: string;
+    engine?: string;
+    model?: string;
+    createdAt: number;
+    totalCost: number;
+  };
+  messages: TranscriptEntry[];
+}
+
+// ── User message context blocks ──
+
+const CONTEXT_BLOCK_RE = /<(file|folder) path="([^"]*)">([\s\S]*?)<\/\1>\s*|<element ([^>]*)>([\s\S]*?)<\/element>\s*/g;
+
+/** Split a user message into its visible text and the `<file>` / `<folder>` / `<element>` context it carried. */
+function parseUserContent(msg: UIMessage, redact: boolean): { text: string; attachments: TranscriptAttachment[] } {
+  const attachments: TranscriptAttachment[] = [];
+  const stripped = msg.content.replace(CONTEXT_BLOCK_RE, (_match, tag, path, body, elementAttrs, elementBody) => {
+    if (tag) {
+      attachments.push({ kind: tag, path, content: redact ? REDACTED_PLACEHOLDER : String(body).trim() });
+    } else {
+      const selector = /selector="([^"]*)"/.exec(elementAttrs ?? "")?.[1] ?? "element";
+      attachments.push({ kind: "element", path: selector, content: String(elementBody).trim() });
+    }
+    return "";
+  });
+  return { text: (msg.displayContent ?? stripped).trim(), attachments };
+}
+
+// ── Tool calls ──
+
+function contentText(content: NonNullable<ToolUseResult["content"]>): string {
+  return typeof content === "string"
+    ? content
+    : content.filter((c) => c.type === "text").map((c) => c.text).join("\n");
+}
+
+/** One-line description of a tool call: the file, command, pattern or description it acted on. */
+function toolSummary(input: Record<string, unknown>): string {
+  const filePath = input.file_path ?? input.path ?? input.notebook_path;
+  if (typeof filePath === "string") return filePath;
+  if (typeof input.command === "string") return input.command.split("\n")[0].slice(0, 80);
+  if (typeof input.pattern === "string") return input.pattern;
+  if (typeof input.url === "string") return input.url;
+  if (typeof input.query === "string") return input.query;
+  if (typeof input.description === "string") return input.description.slice(0, 90);
+  return "";
+}
+
+function toolOutput(toolName: string | undefined, result: UIMessage["toolResult"], redact: boolean): string | undefined {
+  if (!result) return undefined;
+  // Synthetic `{ status: "completed" }` marker for tools that never reported output
+  if (Object.keys(result).length === 1 && result.status === "completed") return undefined;
+  if (result.file) {
+    return redact ? `${result.file.filePath} (${REDACTED_PLACEHOLDER})` : result.file.content;
+  }
+  if (result.stdout !== undefined || result.stderr) {
+    return stripAnsi([result.stdout, result.stderr].filter(Boolean).join("\n")) || "(no output)";
+  }
+  if (result.content !== undefined) {
+    return redact && toolName === "Read" ? REDACTED_PLACEHOLDER : contentText(result.content);
+  }
+  if (result.filePath && result.newString !== undefined) return `Edited ${result.filePath}`;
+  if (getStructuredPatches(result).length > 0 || result.detailedContent) return undefined;
+  return JSON.stringify(result, null, 2);
+}
+
+function withTrailingNewline(text: string): string {
+  return text && !text.endsWith("\n") ? `${text}\n` : text;
+}
+
+function makePatch(filePath: string, oldText: string, newText: string): string {
+  const patch = createTwoFilesPatch(filePath, filePath, withTrailingNewline(oldText), withTrailingNewline(newText), undefined, undefined, { context: 3 });
+  // Drop the `Index:` / `====` preamble so the text starts at the `---` header
+  return patch.slice(patch.indexOf("--- "));
+}
+
+/** Unified diffs for file-changing tools, from whichever shape the engine reported. */
+function toolDiffs(msg: UIMessage): TranscriptDiff[] {
+  const input = msg.toolInput ?? {};
+  const result = msg.toolResult;
+  const patches = getStructuredPatches(result);
+
+  const fromPatches = patches.flatMap((patch): TranscriptDiff[] => {
+    const filePath = getPatchPath(patch) || String(input.file_path ?? "");
+    if (patch.diff) return [{ filePath, patch: patch.diff }];
+    if (patch.oldString !== undefined || patch.newString !== undefined) {
+      return [{ filePath, patch: makePatch(filePath, patch.oldString ?? "", patch.newString ?? "") }];
+    }
+    return [];
+  });
+  if (fromPatches.length > 0) return fromPatches;
+
+  const filePath = String(result?.filePath ?? input.file_path ?? input.path ?? "");
+  const oldString = result?.oldString ?? input.old_string;
+  const newString = result?.newString ?? input.new_string;
+  if (filePath && (typeof oldString === "string" || typeof newString === "string")) {
+    return [{ filePath, patch: makePatch(filePath, String(oldString ?? ""), String(newString ?? "")) }];
+  }
+  if (msg.toolName === "Write" && filePath && typeof input.content === "string") {
+    return [{ filePath, patch: makePatch(filePath, "", input.content) }];
+  }
+  if (typeof result?.detailedContent === "string" && /^@@ /m.test(result.detailedContent)) {
+    return [{ filePath, patch: result.detailedContent }];
+  }
+  return [];
+}
+
+/** Strip file bodies from tool inputs (Write content, Edit strings) when redacting. */
+function redactInput(input: Record<string, unknown>): Record<string, unknown> {
+  const redacted: Record<string, unknown> = { ...input };
+  for (const key of ["content", "old_string", "new_string", "edits"]) {
+    if (key in redacted) redacted[key] = REDACTED_PLACEHOLDER;
+  }
+  return redacted;
+}
+
+function redactDiff(diff: TranscriptDiff): TranscriptDiff {
+  const headerEnd = diff.patch.search(/^@@ /m);
+  const header = headerEnd >= 0 ? diff.patch.slice(0, headerEnd) : "";
+  return { filePath: diff.filePath, patch: `${header}${REDACTED_PLACEHOLDER}\n` };
+}
+
+function buildStep(step: SubagentToolStep, redact: boolean): TranscriptToolStep {
+  return {
+    tool: step.toolName,
+    summary: toolSummary(step.toolInput),
+    input: redact ? redactInput(step.toolInput) : step.toolInput,
+    output: toolOutput(step.toolName, step.toolResult, redact),
+    ...(step.toolError ? { error: true } : {}),
+  };
+}
+
+// ── Builder ──
+
+export function buildTranscript(
+  session: Pick<PersistedSession, "id" | "title" | "projectId" | "engine" | "model" | "createdAt" | "totalCost" | "messages">,
+  options: TranscriptOptions = DEFAULT_TRANSCRIPT_OPTIONS,
+): Transcript {
+  const redact = options.redactFileContents;
+  const messages: TranscriptEntry[] = [];
+
+  for (const msg of session.messages) {
+    const base = { id: msg.id, timestamp: msg.timestamp };
+    switch (msg.role) {
+      case "user": {
+        if (msg.isQueued) break;
+        const { text, attachments } = parseUserContent(msg, redact);
+        messages.push({
+          ...base,
+          kind: "user",
+          text,
+          ...(attachments.length > 0 ? { attachments } : {}),
+          ...(msg.images?.length ? { imageCount: msg.images.length } : {}),
+        });
+        break;
+      }
+      case "assistant": {
+        const thinking = options.includeThinking ? msg.thinking?.trim() : undefined;
+        if (!msg.content.trim() && !thinking) break;
+        messages.push({ ...base, kind: "assistant", text: msg.content.trim(), ...(thinking ? { thinking } : {}) });
+        break;
+      }
+      case "tool_call": {
+        const diffs = toolDiffs(msg);
+        const input = msg.toolInput ?? {};
+        messages.push({
+          ...base,
+          kind: "tool",
+          tool: msg.toolName ?? "tool",
+          summary: toolSummary(input),
+          input: redact ? redactInput(input) : input,
+          output: toolOutput(msg.toolName, msg.toolResult, redact),
+          ...(msg.toolError ? { error: true } : {}),
+          ...(diffs.length > 0 ? { diffs: redact ? diffs.map(redactDiff) : diffs } : {}),
+          ...(msg.subagentSteps?.length ? { steps: msg.subagentSteps.map((step) => buildStep(step, redact)) } : {}),
+        });
+        break;
+      }
+      case "system":
+        messages.push({ ...base, kind: "system", text: msg.content, ...(msg.isError ? { error: true } : {}) });
+        break;
+      case "summary":
+        messages.push({ ...base, kind: "summary", text: msg.content });
+        break;
+      // tool_result rows are folded into their tool_call
+    }
+  }
+
+  return {
+    format: "harnss-transcript",
+    version: 1,
+    exportedAt: Date.now(),
+    options,
+    session: {
+      id: session.id,
+      title: session.title,
+      projectId: session.projectId,
+      engine: session.engine,
+      model: session.model,
+      createdAt: session.createdAt,
+      totalCost: session.totalCost,
+    },
+    messages,
+  };
+}
+
+// ── Markdown ──
+
+/** A code fence long enough that the body can't close it early. */
+function fence(body: string, lang = ""): string {
+  const longest = Math.max(2, ...Array.from(body.matchAll(/`{3,}/g), (m) => m[0].length));
+  const ticks = "`".repeat(longest + 1);
+  return `${ticks}${lang}\n${body.replace(/\n$/, "")}\n${ticks}`;
+}
+
+function quote(text: string): string {
+  return text.split("\n").map((line) => `> ${line}`.trimEnd()).join("\n");
+}
+
+function formatInputBlock(input: Record<string, unknown>): string | null {
+  if (Object.keys(input).length === 0) return null;
+  if (typeof input.command === "string") return fence(input.command, "sh");
+  return fence(JSON.stringify(input, null, 2), "json");
+}
+
+function toolMarkdown(entry: Extract<TranscriptEntry, { kind: "tool" }>): string {
+  const parts = [`**${entry.tool}**${entry.summary ? ` — ${entry.summary}` : ""}${entry.error ? " (failed)" : ""}`];
+  const inputBlock = formatInputBlock(entry.input);
+  if (inputBlock) parts.push(inputBlock);
+  for (const diff of entry.diffs ?? []) parts.push(fence(diff.patch, "diff"));
+  if (entry.output && !entry.diffs) parts.push(fence(entry.output));
+  if (entry.steps?.length) {
+    parts.push(entry.steps.map((step) =>
+      `- \`${step.tool}\`${step.summary ? ` ${step.summary}` : ""}${step.error ? " (failed)" : ""}`,
+    ).join("\n"));
+  }
+  return parts.join("\n\n");
+}
+
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const { session } = transcript;
+  const meta = [
+    session.engine && `Engine: ${session.engine}`,
+    session.model && `Model: ${session.model}`,
+    `Started: ${new Date(session.createdAt).toLocaleString()}`,
+    session.totalCost > 0 && `Cost: $${session.totalCost.toFixed(4)}`,
+  ].filter(Boolean);
+
+  const sections = [`# ${session.title}`, meta.map((line) => `- ${line}`).join("\n")];
+
+  for (const entry of transcript.messages) {
+    switch (entry.kind) {
+      case "user": {
+        const parts = ["## User", entry.text];
+        for (const attachment of entry.attachments ?? []) {
+          parts.push(`<details><summary>${attachment.kind}: ${attachment.path}</summary>\n\n${fence(attachment.content ?? "")}\n\n</details>`);
+        }
+        if (entry.imageCount) parts.push(`_${entry.imageCount} image${entry.imageCount === 1 ? "" : "s"} attached_`);
+        sections.push(parts.filter(Boolean).join("\n\n"));
+        break;
+      }
+      case "assistant": {
+        const parts = ["## Assistant"];
+        if (entry.thinking) parts.push(`<details><summary>Thinking</summary>\n\n${quote(entry.thinking)}\n\n</details>`);
+        if (entry.text) parts.push(entry.text);
+        sections.push(parts.join("\n\n"));
+        break;
+      }
+      case "tool":
+        sections.push(toolMarkdown(entry));
+        break;
+      case "system":
+        sections.push(quote(`${entry.error ? "**Error:** " : ""}${entry.text}`));
+        break;
+      case "summary":
+        sections.push(`### Conversation summary\n\n${quote(entry.text)}`);
+        break;
+    }
+  }
+
+  return `${sections.join("\n\n")}\n`;
+}
+
+// ── File naming ──
+
+export const TRANSCRIPT_EXTENSIONS: Record<TranscriptFormat, string> = {
+  markdown: "md",
+  html: "html",
+  json: "json",
+};
+
+/** Safe default file name for an exported chat, e.g. "fix-login-bug.md". */
+export function getTranscriptFileName(title: string, format: TranscriptFormat): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "chat";
+  return `${slug}.${TRANSCRIPT_EXTENSIONS[format]}`;
+}
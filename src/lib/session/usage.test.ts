@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { SessionMeta as SessionListItem } from "@shared/lib/session-persistence";
+import { formatUsd, summarizeSpend, toDayKey } from "./usage";
+
+const NOW = new Date(2026, 2, 10, 15, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+
+function meta(overrides: Partial<SessionListItem>): SessionListItem {
+  return {
+    id: "s",
+    projectId: "p1",
+    title: "Chat",
+    createdAt: NOW - HOUR,
+    lastMessageAt: NOW - HOUR,
+    totalCost: 0,
+    engine: "claude",
+    ...overrides,
+  };
+}
+
+describe("session usage", () => {
+  it("buckets spend by day, project and engine within the window", () => {
+    const summary = summarizeSpend(
+      [
+        meta({ id: "a", totalCost: 1.5 }),
+        meta({ id: "b", projectId: "p2", totalCost: 0.25, lastMessageAt: NOW - 24 * HOUR }),
+        meta({ id: "c", engine: "codex", totalCost: 0 }),
+        meta({ id: "old", totalCost: 9, lastMessageAt: NOW - 30 * 24 * HOUR }),
+      ],
+      { p1: "Harnss" },
+      { now: NOW, days: 7 },
+    );
+
+    expect(summary.totalCost).toBeCloseTo(1.75);
+    expect(summary.todayCost).toBeCloseTo(1.5);
+    expect(summary.byDay).toHaveLength(7);
+    expect(summary.byDay[6]).toMatchObject({ key: toDayKey(NOW), cost: 1.5, sessions: 2 });
+    expect(summary.byDay[5]).toMatchObject({ cost: 0.25, sessions: 1 });
+    expect(summary.byProject.map((b) => [b.label, b.sessions])).toEqual([
+      ["Harnss", 2],
+      ["Unknown project", 1],
+    ]);
+    expect(summary.byEngine.map((b) => b.key)).toEqual(["claude", "codex"]);
+  });
+
+  it("falls back to createdAt and defaults missing engines to Claude", () => {
+    const summary = summarizeSpend(
+      [meta({ lastMessageAt: 0, createdAt: NOW - 2 * HOUR, engine: undefined, totalCost: 0.5 })],
+      {},
+      { now: NOW, days: 1 },
+    );
+
+    expect(summary.todayCost).toBe(0.5);
+    expect(summary.byEngine[0]).toMatchObject({ key: "claude", label: "Claude" });
+  });
+
+  it("formats small sums with more precision", () => {
+    expect(formatUsd(0.01234)).toBe("$0.0123");
+    expect(formatUsd(12.345)).toBe("$12.35");
+  });
+});
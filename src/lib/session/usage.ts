@@ -0,0 +1,120 @@
+import type { SessionMeta as SessionListItem } from "@shared/lib/session-persistence";
+import type { EngineId } from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UsageBucket {
+  key: string;
+  label: string;
+  cost: number;
+  sessions: number;
+}
+
+export interface SpendSummary {
+  totalCost: number;
+  /** Spend attributed to the current local day. */
+  todayCost: number;
+  /** One bucket per local day in the window, oldest first (empty days included). */
+  byDay: UsageBucket[];
+  /** Projects with activity in the window, highest spend first. */
+  byProject: UsageBucket[];
+  /** Engines with activity in the window, highest spend first. */
+  byEngine: UsageBucket[];
+}
+
+const ENGINE_LABELS: Record<EngineId, string> = {
+  claude: "Claude",
+  codex: "Codex",
+  acp: "ACP",
+};
+
+/** Local-time `YYYY-MM-DD` key for a timestamp. */
+export function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function startOfLocalDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function addToBucket(buckets: Map<string, UsageBucket>, key: string, label: string, cost: number): void {
+  const bucket = buckets.get(key);
+  if (bucket) {
+    bucket.cost += cost;
+    bucket.sessions++;
+  } else {
+    buckets.set(key, { key, label, cost, sessions: 1 });
+  }
+}
+
+function sortBySpend(buckets: Map<string, UsageBucket>): UsageBucket[] {
+  return [...buckets.values()].sort((a, b) => b.cost - a.cost || b.sessions - a.sessions);
+}
+
+/**
+ * Aggregate persisted session spend over the last `days` local days.
+ *
+ * Session cost is cumulative, so each session's whole `totalCost` is attributed
+ * to the day of its last user message — the same timestamp the sidebar sorts by.
+ */
+export function summarizeSpend(
+  sessions: SessionListItem[],
+  projectNames: Record<string, string>,
+  options: { now?: number; days?: number } = {},
+): SpendSummary {
+  const now = options.now ?? Date.now();
+  const days = Math.max(1, options.days ?? 14);
+  const todayStart = startOfLocalDay(now);
+  // Step back by calendar days so DST shifts don't skew the window
+  const windowStartDate = new Date(todayStart);
+  windowStartDate.setDate(windowStartDate.getDate() - (days - 1));
+  const windowStart = windowStartDate.getTime();
+
+  const byDay = new Map<string, UsageBucket>();
+  for (let i = 0; i < days; i++) {
+    const date = new Date(windowStart);
+    date.setDate(date.getDate() + i);
+    const key = toDayKey(date.getTime());
+    byDay.set(key, { key, label: key, cost: 0, sessions: 0 });
+  }
+  const byProject = new Map<string, UsageBucket>();
+  const byEngine = new Map<string, UsageBucket>();
+  let totalCost = 0;
+  let todayCost = 0;
+
+  for (const session of sessions) {
+    const activeAt = session.lastMessageAt || session.createdAt;
+    if (!activeAt || activeAt < windowStart || activeAt >= todayStart + DAY_MS) continue;
+    const cost = session.totalCost ?? 0;
+    const engine: EngineId = session.engine ?? "claude";
+
+    totalCost += cost;
+    if (activeAt >= todayStart) todayCost += cost;
+
+    const day = byDay.get(toDayKey(activeAt));
+    if (day) {
+      day.cost += cost;
+      day.sessions++;
+    }
+    addToBucket(byProject, session.projectId, projectNames[session.projectId] ?? "Unknown project", cost);
+    addToBucket(byEngine, engine, ENGINE_LABELS[engine], cost);
+  }
+
+  return {
+    totalCost,
+    todayCost,
+    byDay: [...byDay.values()],
+    byProject: sortBySpend(byProject),
+    byEngine: sortBySpend(byEngine),
+  };
+}
+
+/** `$0.0123` below a dollar, `$12.34` above — matches the header's per-session precision for small sums. */
+export function formatUsd(cost: number): string {
+  return cost >= 1 ? `$${cost.toFixed(2)}` : `$${cost.toFixed(4)}`;
+}
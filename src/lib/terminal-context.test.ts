@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { buildTerminalContext, cleanTerminalOutput, formatTerminalContext } from "./terminal-context";
+
+describe("cleanTerminalOutput", () => {
+  it("strips escapes and keeps only the final state of carriage-return rewrites", () => {
+    const raw = "\x1b[?2004h\x1b[32m$\x1b[0m npm test\r\nProgress 10%\rProgress 100%\r\n\x1b[1mdone\x1b[22m\r\n\r\n";
+    expect(cleanTerminalOutput(raw)).toBe("$ npm test\nProgress 100%\ndone");
+  });
+});
+
+describe("buildTerminalContext", () => {
+  const raw = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join("\n");
+
+  it("keeps the newest lines within the line and token limits", () => {
+    const byLines = buildTerminalContext(raw, { label: "Terminal 1", maxLines: 3 });
+    expect(byLines.text).toBe("line 8\nline 9\nline 10");
+    expect(byLines.lineCount).toBe(3);
+    expect(byLines.truncated).toBe(true);
+
+    // 4 tokens = 16 chars: "line 9\n" + "line 10\n" fit, "line 8" doesn't
+    const byTokens = buildTerminalContext(raw, { label: "Terminal 1", maxTokens: 4 });
+    expect(byTokens.text).toBe("line 9\nline 10");
+    expect(byTokens.truncated).toBe(true);
+
+    const whole = buildTerminalContext(raw, { label: "Terminal 1" });
+    expect(whole.lineCount).toBe(10);
+    expect(whole.truncated).toBe(false);
+  });
+
+  it("formats a <terminal> block", () => {
+    const context = buildTerminalContext("ok", { label: 'dev "server"', selection: true });
+    expect(formatTerminalContext(context)).toBe('<terminal name="dev &quot;server&quot;" lines="1" selection="true">\nok\n</terminal>');
+  });
+});
@@ -0,0 +1,72 @@
+import { collapseTerminalLines } from "@shared/lib/terminal-text";
+import { stripAnsi } from "@/lib/ansi";
+import type { TerminalContextAttachment } from "@/types";
+
+/** Rough token budget for one terminal attachment (~4 chars per token). */
+export const TERMINAL_CONTEXT_TOKEN_BUDGET = 8_000;
+/** Lines an `@terminal` mention pulls from the active tab. */
+export const TERMINAL_MENTION_LINES = 200;
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Turn raw PTY output into the text a user would read: escapes stripped,
+ * carriage-return overwrites (progress bars, spinners) collapsed to their
+ * final state, leftover control characters dropped and trailing blank lines
+ * removed.
+ */
+export function cleanTerminalOutput(raw: string): string {
+  return collapseTerminalLines(stripAnsi(raw)).join("\n");
+}
+
+/**
+ * Clean `raw` and keep its most recent lines within `maxTokens` (and
+ * `maxLines`, when given) as a composer attachment.
+ */
+export function buildTerminalContext(
+  raw: string,
+  options: { label: string; maxTokens?: number; maxLines?: number; selection?: boolean },
+): TerminalContextAttachment {
+  const maxChars = (options.maxTokens ?? TERMINAL_CONTEXT_TOKEN_BUDGET) * CHARS_PER_TOKEN;
+  const lines = cleanTerminalOutput(raw).split("\n");
+  let truncated = false;
+
+  let kept = options.maxLines !== undefined && lines.length > options.maxLines
+    ? lines.slice(-options.maxLines)
+    : lines;
+  if (kept.length < lines.length) truncated = true;
+
+  // Walk back from the newest line until the budget is spent
+  let chars = 0;
+  let start = kept.length;
+  while (start > 0 && chars + kept[start - 1].length + 1 <= maxChars) {
+    chars += kept[start - 1].length + 1;
+    start--;
+  }
+  if (start > 0) {
+    truncated = true;
+    // A single line longer than the whole budget still contributes its tail
+    kept = start === kept.length ? [kept[kept.length - 1].slice(-maxChars)] : kept.slice(start);
+  }
+
+  const text = kept.join("\n");
+  return {
+    id: crypto.randomUUID(),
+    label: options.label,
+    text,
+    lineCount: text ? kept.length : 0,
+    truncated,
+    selection: options.selection,
+  };
+}
+
+/** The `<terminal>` context block sent ahead of the user's message. */
+export function formatTerminalContext(context: TerminalContextAttachment): string {
+  const attrs = [
+    `name="${context.label.replace(/&/g, "&amp;").replace(/"/g, "&quot;")}"`,
+    `lines="${context.lineCount}"`,
+    context.selection ? `selection="true"` : "",
+    context.truncated ? `truncated="true"` : "",
+  ].filter(Boolean).join(" ");
+  return `<terminal ${attrs}>\n${context.text}\n</terminal>`;
+}
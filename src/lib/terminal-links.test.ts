@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { findTerminalFileLinks } from "./terminal-links";
+
+describe("findTerminalFileLinks", () => {
+  it("parses compiler and stack-trace locations", () => {
+    const tsc = "src/app.ts(12,5): error TS2322: Type 'string' is not assignable";
+    expect(findTerminalFileLinks(tsc)).toEqual([
+      { start: 0, end: 16, path: "src/app.ts", line: 12, column: 5 },
+    ]);
+
+    const stack = "    at run (/home/me/proj/index.js:40:13)";
+    expect(findTerminalFileLinks(stack)).toEqual([
+      { start: 12, end: 40, path: "/home/me/proj/index.js", line: 40, column: 13 },
+    ]);
+
+    expect(findTerminalFileLinks("modified:   README.md")).toEqual([
+      { start: 12, end: 21, path: "README.md", line: undefined, column: undefined },
+    ]);
+  });
+
+  it("ignores URLs, version numbers and plain words", () => {
+    expect(findTerminalFileLinks("Local: http://localhost:5173/src/main.ts")).toEqual([]);
+    expect(findTerminalFileLinks("node v20.11.1 and npm 10.2.4 are ready")).toEqual([]);
+    expect(findTerminalFileLinks("see ./scripts/build.sh.")).toEqual([
+      { start: 4, end: 22, path: "./scripts/build.sh", line: undefined, column: undefined },
+    ]);
+  });
+});
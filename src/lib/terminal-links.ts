@@ -0,0 +1,50 @@
+/** A file reference found in one line of terminal output. */
+export interface TerminalFileLink {
+  /** Offset of the first character of the link within the line */
+  start: number;
+  /** Offset just past the last character, including any `:line:col` suffix */
+  end: number;
+  /** Path as printed — relative paths are resolved against the terminal's cwd */
+  path: string;
+  line?: number;
+  column?: number;
+}
+
+// Optional drive / home / relative / root prefix, directory segments, then a
+// file name that doesn't end in a dot (so "see foo.ts." links "foo.ts").
+// Followed by `:line[:col]` (most tools) or `(line[,col])` (tsc, MSBuild).
+const FILE_LINK_RE =
+  /(?<![\w@.+\-/\\:~])((?:[A-Za-z]:[\\/]|~\/|\.{1,2}\/|\/)?(?:[\w@.+-]+[\\/])*[\w@+-](?:[\w@.+-]*[\w@+-])?)(?::(\d+)(?::(\d+))?|\((\d+)(?:,\s?(\d+))?\))?/g;
+const HAS_EXTENSION_RE = /\.[A-Za-z][\w-]*$/;
+const URL_RE = /\b[a-z][a-z0-9+.-]*:\/\/\S+/gi;
+
+/**
+ * Find `path`, `path:line` and `path:line:col` references in a line of
+ * terminal output. Only tokens that contain a directory separator or end in a
+ * file extension count, and anything inside a URL is skipped — the caller
+ * still has to check the path exists before linking it.
+ */
+export function findTerminalFileLinks(text: string): TerminalFileLink[] {
+  const urlRanges = [...text.matchAll(URL_RE)].map((match) => [match.index, match.index + match[0].length]);
+  const links: TerminalFileLink[] = [];
+
+  for (const match of text.matchAll(FILE_LINK_RE)) {
+    const [full, path, line, column, parenLine, parenColumn] = match;
+    const start = match.index;
+    const end = start + full.length;
+    if (!/[\\/]/.test(path) && !HAS_EXTENSION_RE.test(path)) continue;
+    if (urlRanges.some(([urlStart, urlEnd]) => start < urlEnd && end > urlStart)) continue;
+
+    const lineText = line ?? parenLine;
+    const columnText = column ?? parenColumn;
+    links.push({
+      start,
+      end,
+      path,
+      line: lineText ? Number(lineText) : undefined,
+      column: columnText ? Number(columnText) : undefined,
+    });
+  }
+
+  return links;
+}
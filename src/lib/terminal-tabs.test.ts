@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { reconcileTerminalState, withTabTerminals, type TerminalTab } from "./terminal-tabs";
+
+const split: TerminalTab = {
+  id: "t1",
+  terminalId: "t1",
+  label: "Terminal 1",
+  splitTerminalIds: ["t2", "t3"],
+  splitDirection: "vertical",
+  focusedTerminalId: "t3",
+};
+
+describe("withTabTerminals", () => {
+  it("keeps the layout while panes remain and collapses to a plain tab at one", () => {
+    expect(withTabTerminals(split, ["t2", "t3"])).toEqual({
+      id: "t1",
+      terminalId: "t2",
+      label: "Terminal 1",
+      icon: undefined,
+      profileId: undefined,
+      splitTerminalIds: ["t3"],
+      splitDirection: "vertical",
+      focusedTerminalId: "t3",
+    });
+    expect(withTabTerminals(split, ["t1"])).toEqual({ id: "t1", terminalId: "t1", label: "Terminal 1", icon: undefined, profileId: undefined });
+  });
+});
+
+describe("reconcileTerminalState", () => {
+  it("drops dead panes and doesn't turn live split panes into tabs of their own", () => {
+    const live = ["t1", "t3", "t4"].map((terminalId, i) => ({ terminalId, spaceId: "s", createdAt: i }));
+    const next = reconcileTerminalState({ s: { tabs: [split], activeTabId: "t1" } }, live);
+
+    expect(next.s.tabs.map((tab) => [tab.terminalId, tab.splitTerminalIds])).toEqual([
+      ["t1", ["t3"]],
+      ["t4", undefined],
+    ]);
+    expect(next.s.tabs[0].focusedTerminalId).toBe("t3");
+    expect(next.s.activeTabId).toBe("t1");
+  });
+});
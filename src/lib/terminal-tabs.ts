@@ -1,7 +1,20 @@
+/** `horizontal` lays a tab's panes out side by side, `vertical` stacks them. */
+export type TerminalSplitDirection = "horizontal" | "vertical";
+
 export interface TerminalTab {
   id: string;
+  /** First pane's PTY — the only one until the tab is split */
   terminalId: string;
   label: string;
+  /** Icon of the terminal profile the tab was opened with (emoji or lucide name) */
+  icon?: string;
+  /** Terminal profile the tab was opened with; split panes start with its shell */
+  profileId?: string;
+  /** PTYs of the panes after the first, in layout order */
+  splitTerminalIds?: string[];
+  splitDirection?: TerminalSplitDirection;
+  /** Pane that last had focus; find, send-to-chat and `@terminal` act on it */
+  focusedTerminalId?: string;
 }
 
 export interface SpaceTerminalState {
@@ -29,7 +42,41 @@ function isTerminalTab(value: unknown): value is TerminalTab {
   const tab = value as Record<string, unknown>;
   return typeof tab.id === "string"
     && typeof tab.terminalId === "string"
-    && typeof tab.label === "string";
+    && typeof tab.label === "string"
+    && (tab.splitTerminalIds === undefined
+      || (Array.isArray(tab.splitTerminalIds) && tab.splitTerminalIds.every((id) => typeof id === "string")));
+}
+
+/** Every PTY shown in `tab`, in layout order. */
+export function getTabTerminalIds(tab: TerminalTab): string[] {
+  return [tab.terminalId, ...(tab.splitTerminalIds ?? [])];
+}
+
+export function getFocusedTerminalId(tab: TerminalTab): string {
+  return tab.focusedTerminalId && getTabTerminalIds(tab).includes(tab.focusedTerminalId)
+    ? tab.focusedTerminalId
+    : tab.terminalId;
+}
+
+/**
+ * Rebuild `tab` around `terminalIds` (at least one), dropping the split
+ * layout once a single pane is left and moving focus off removed panes.
+ */
+export function withTabTerminals(tab: TerminalTab, terminalIds: string[]): TerminalTab {
+  const [terminalId, ...splitTerminalIds] = terminalIds;
+  const focused = getFocusedTerminalId(tab);
+  return {
+    id: tab.id,
+    terminalId,
+    label: tab.label,
+    icon: tab.icon,
+    profileId: tab.profileId,
+    ...(splitTerminalIds.length > 0 && {
+      splitTerminalIds,
+      splitDirection: tab.splitDirection ?? "horizontal",
+    }),
+    ...(terminalIds.includes(focused) && splitTerminalIds.length > 0 && { focusedTerminalId: focused }),
+  };
 }
 
 export function parseStoredTerminalState(raw: string | null): SpaceTerminalsState {
@@ -81,8 +128,12 @@ export function reconcileTerminalState(
     );
     const liveIds = new Set(liveForSpace.map((terminal) => terminal.terminalId));
 
-    const tabs = persistedSpace.tabs.filter((tab) => liveIds.has(tab.terminalId));
-    const seenIds = new Set(tabs.map((tab) => tab.terminalId));
+    // Split panes whose PTY is gone are dropped; a tab survives while any pane does
+    const tabs = persistedSpace.tabs.flatMap((tab) => {
+      const panes = getTabTerminalIds(tab).filter((id) => liveIds.has(id));
+      return panes.length > 0 ? [withTabTerminals(tab, panes)] : [];
+    });
+    const seenIds = new Set(tabs.flatMap(getTabTerminalIds));
 
     for (const terminal of liveForSpace) {
       if (seenIds.has(terminal.terminalId)) continue;
@@ -0,0 +1,26 @@
+import { create } from "zustand";
+
+interface BrowserOpenRequest {
+  id: string;
+  url: string;
+}
+
+interface BrowserStore {
+  /** URL waiting for a Browser panel to open it in a new tab. Kept here so a panel that mounts in response still picks it up. */
+  pendingOpen: BrowserOpenRequest | null;
+  requestOpen: (url: string) => void;
+  /** Claim the pending request; false if another panel already took it. */
+  takePendingOpen: (id: string) => boolean;
+}
+
+export const useBrowserStore = create<BrowserStore>()((set, get) => ({
+  pendingOpen: null,
+
+  requestOpen: (url) => set({ pendingOpen: { id: crypto.randomUUID(), url } }),
+
+  takePendingOpen: (id) => {
+    if (get().pendingOpen?.id !== id) return false;
+    set({ pendingOpen: null });
+    return true;
+  },
+}));
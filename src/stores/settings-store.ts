@@ -2,6 +2,7 @@ import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import type { ToolId } from "@/types/tools";
 import type { AcpPermissionBehavior, ClaudeEffort, EngineId, MacBackgroundEffect, ThemeOption } from "@/types";
+import { DEFAULT_BUDGET_SETTINGS, normalizeBudgetSettings, type BudgetSettings } from "@/lib/session/budget";
 
 // ── Constants ──
 
@@ -27,7 +28,7 @@ const MIN_BOTTOM_HEIGHT = 120;
 const MAX_BOTTOM_HEIGHT = 600;
 const DEFAULT_BOTTOM_HEIGHT = 250;
 
-const DEFAULT_TOOL_ORDER: ToolId[] = ["terminal", "git", "browser", "files", "project-files", "mcp"];
+const DEFAULT_TOOL_ORDER: ToolId[] = ["terminal", "git", "browser", "files", "project-files", "mcp", "task-runner"];
 const VALID_TOOL_IDS = new Set<ToolId>([
   "terminal",
   "browser",
@@ -37,6 +38,7 @@ const VALID_TOOL_IDS = new Set<ToolId>([
   "tasks",
   "agents",
   "mcp",
+  "task-runner",
 ]);
 
 const IS_MAC_PLATFORM = typeof navigator !== "undefined" && /mac/i.test(navigator.platform);
@@ -109,6 +111,8 @@ interface GlobalSettingsState {
   coloredSidebarIcons: boolean;
   showToolIcons: boolean;
   coloredToolIcons: boolean;
+  /** Cost/token/turn/time limits enforced by the budget guard */
+  budgets: BudgetSettings;
 }
 
 /** Actions (setters) — excluded from persistence via partialize */
@@ -132,6 +136,7 @@ interface SettingsActions {
   setColoredSidebarIcons: (on: boolean) => void;
   setShowToolIcons: (on: boolean) => void;
   setColoredToolIcons: (on: boolean) => void;
+  setBudgets: (updater: BudgetSettings | ((prev: BudgetSettings) => BudgetSettings)) => void;
 
   // Per-project setters (all take projectId as first arg)
   setModelForEngine: (projectId: string, engine: EngineId, model: string) => void;
@@ -317,6 +322,7 @@ function readLegacyGlobalSettings(): GlobalSettingsState {
     coloredSidebarIcons: readLegacyBool("harnss-colored-sidebar-icons", true),
     showToolIcons: readLegacyBool("harnss-show-tool-icons", true),
     coloredToolIcons: readLegacyBool("harnss-colored-tool-icons", false),
+    budgets: DEFAULT_BUDGET_SETTINGS,
   };
 }
 
@@ -431,6 +437,7 @@ export const useSettingsStore = create<SettingsStore>()(
       coloredSidebarIcons: true,
       showToolIcons: true,
       coloredToolIcons: false,
+      budgets: DEFAULT_BUDGET_SETTINGS,
 
       projects: {},
 
@@ -491,6 +498,11 @@ export const useSettingsStore = create<SettingsStore>()(
 
       setColoredToolIcons: (on) => set({ coloredToolIcons: on }),
 
+      setBudgets: (updater) => {
+        const next = typeof updater === "function" ? updater(get().budgets) : updater;
+        set({ budgets: normalizeBudgetSettings(next) });
+      },
+
       // ── Per-project setters ──
 
       setModelForEngine: (projectId, engine, model) => {
@@ -620,6 +632,7 @@ export const useSettingsStore = create<SettingsStore>()(
         coloredSidebarIcons: state.coloredSidebarIcons,
         showToolIcons: state.showToolIcons,
         coloredToolIcons: state.coloredToolIcons,
+        budgets: state.budgets,
         // Per-project
         projects: state.projects,
       }),
@@ -632,6 +645,7 @@ export const useSettingsStore = create<SettingsStore>()(
           ...incoming,
           // Ensure projects is always an object, never undefined
           projects: incoming.projects ?? current.projects,
+          budgets: normalizeBudgetSettings(incoming.budgets),
         };
       },
     },
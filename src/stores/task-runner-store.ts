@@ -0,0 +1,54 @@
+import { create } from "zustand";
+
+export type TaskRunStatus = "running" | "passed" | "failed" | "stopped";
+
+export interface TaskRun {
+  taskId: string;
+  terminalId: string;
+  command: string;
+  status: TaskRunStatus;
+  exitCode: number | null;
+  startedAt: number;
+  endedAt: number | null;
+  /** Set when the user pressed Stop, so the resulting non-zero exit reads as "stopped". */
+  stopRequested: boolean;
+}
+
+interface TaskRunnerStore {
+  /** Latest run of each task, keyed by project root and then task id. Lives outside the panel so running tasks survive it being moved or closed. */
+  runs: Record<string, Record<string, TaskRun>>;
+  startRun: (cwd: string, run: TaskRun) => void;
+  requestStop: (cwd: string, taskId: string) => void;
+  finishRun: (terminalId: string, exitCode: number, endedAt?: number) => void;
+  dropRuns: (cwd: string, taskIds: string[]) => void;
+}
+
+export const useTaskRunnerStore = create<TaskRunnerStore>()((set) => ({
+  runs: {},
+
+  startRun: (cwd, run) => set((state) => ({
+    runs: { ...state.runs, [cwd]: { ...state.runs[cwd], [run.taskId]: run } },
+  })),
+
+  requestStop: (cwd, taskId) => set((state) => {
+    const run = state.runs[cwd]?.[taskId];
+    if (!run || run.status !== "running") return state;
+    return { runs: { ...state.runs, [cwd]: { ...state.runs[cwd], [taskId]: { ...run, stopRequested: true } } } };
+  }),
+
+  finishRun: (terminalId, exitCode, endedAt = Date.now()) => set((state) => {
+    for (const [cwd, runs] of Object.entries(state.runs)) {
+      const run = Object.values(runs).find((candidate) => candidate.terminalId === terminalId);
+      if (!run || run.status !== "running") continue;
+      const status: TaskRunStatus = exitCode === 0 ? "passed" : run.stopRequested ? "stopped" : "failed";
+      return { runs: { ...state.runs, [cwd]: { ...runs, [run.taskId]: { ...run, status, exitCode, endedAt } } } };
+    }
+    return state;
+  }),
+
+  dropRuns: (cwd, taskIds) => set((state) => {
+    const runs = { ...state.runs[cwd] };
+    for (const taskId of taskIds) delete runs[taskId];
+    return { runs: { ...state.runs, [cwd]: runs } };
+  }),
+}));
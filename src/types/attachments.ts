@@ -26,3 +26,17 @@ export interface GrabbedElement {
   computedStyles: Record<string, string>;
   boundingRect: { x: number; y: number; width: number; height: number };
 }
+
+/** Terminal output attached to the composer ("Send to chat" / `@terminal`). */
+export interface TerminalContextAttachment {
+  id: string;
+  /** Terminal tab label, e.g. "Terminal 2" */
+  label: string;
+  /** ANSI-stripped output, already trimmed to the token budget */
+  text: string;
+  lineCount: number;
+  /** True when older output was dropped to fit the budget */
+  truncated: boolean;
+  /** True for a selection rather than the tab's recent output */
+  selection?: boolean;
+}
@@ -38,6 +38,7 @@ export type {
   ChatFolder,
   SessionBase,
   ChatSession,
+  WorktreeSession,
   PersistedSession,
   CCSessionInfo,
 } from "./session";
@@ -52,8 +53,13 @@ export type {
 // ── Search types ──
 
 export type {
+  SearchEntryRole,
+  SessionSearchFilters,
+  SessionSearchRequest,
   SearchMessageResult,
   SearchSessionResult,
+  SessionSearchFacets,
+  SessionSearchResponse,
 } from "./search";
 
 // ── Attachment types ──
@@ -61,6 +67,7 @@ export type {
 export type {
   ImageAttachment,
   GrabbedElement,
+  TerminalContextAttachment,
 } from "./attachments";
 
 // ── Permission types ──
@@ -105,6 +112,7 @@ export type {
   NotificationEventSettings,
   NotificationSettings,
   AppSettings,
+  TerminalProfile,
 } from "@shared/types/settings";
 
 // ── Git types (shared) ──
@@ -117,8 +125,36 @@ export type {
   GitRepoInfo,
   GitStatus,
   GitLogEntry,
+  GitOperation,
+  GitConflictFile,
+  GitConflictSide,
+  GitStashEntry,
+  GitHistoryEntry,
+  GitHistoryFilter,
+  GitCommitFile,
+  GitCommitDetails,
+  GitSessionLink,
+  GitBlameLine,
+  GitResetMode,
+  GitRewriteAction,
+  GitRewriteStep,
+  GitWorktree,
+  GitWorktreeDetails,
+  GitWorktreeSetupStep,
+  GitCompareSide,
+  GitCompareEnd,
+  GitCompareResult,
+  GitPushOptions,
+  GitRemoteProgress,
+  GitAskpassRequest,
+  GitTag,
+  GitReleaseNotes,
 } from "@shared/types/git";
 
+// ── Project task types (shared) ──
+
+export type { ProjectTaskSource, ProjectTask } from "@shared/types/tasks";
+
 // ── Registry types ──
 
 export type {
@@ -148,6 +184,7 @@ export type {
   ACPConfigOptionUpdate,
   ACPPermissionEvent,
   ACPTurnCompleteEvent,
+  ACPTerminalOutputEvent,
   ACPConfigOption,
   ACPConfigSelectOption,
   ACPConfigSelectGroup,
@@ -180,7 +217,12 @@ export type {
   CodexExitEvent,
   CodexAuthRequiredNotification,
   CodexTokenUsageNotification,
+  CodexThread,
   CodexThreadItem,
+  CodexReviewTarget,
+  CodexRateLimitSnapshot,
+  CodexRateLimitWindow,
+  CodexRateLimitsResponse,
 } from "./codex";
 
 // ── Tool types ──
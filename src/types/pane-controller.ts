@@ -6,8 +6,8 @@
  * the single-chat view and each split-view pane.
  */
 
-import type { ACPConfigOption, ClaudeEffort, ImageAttachment, SlashCommand, EngineId, InstalledAgent, McpServerConfig, McpServerStatus, ModelInfo, GrabbedElement } from "@/types";
-import type { TerminalTab } from "@/lib/terminal-tabs";
+import type { ACPConfigOption, ClaudeEffort, CodexReviewTarget, ImageAttachment, SlashCommand, EngineId, InstalledAgent, McpServerConfig, McpServerStatus, ModelInfo, GrabbedElement, TerminalContextAttachment, TerminalProfile, WorktreeSession } from "@/types";
+import type { TerminalSplitDirection, TerminalTab } from "@/lib/terminal-tabs";
 import type { ResolvedTheme } from "@/hooks/useTheme";
 
 export interface PaneController {
@@ -34,6 +34,8 @@ export interface PaneController {
   handlePaneSend: (text: string, images?: ImageAttachment[], displayText?: string) => Promise<void>;
   handlePaneStop: () => Promise<void>;
   handlePaneAcpConfigChange: (key: string, value: string) => void;
+  /** Codex `/review` — undefined when the pane can't start a review */
+  handlePaneReview?: (target: CodexReviewTarget) => Promise<void>;
 }
 
 /**
@@ -46,11 +48,18 @@ export interface ToolIslandContextProps {
   activeTerminalTabId: string | null;
   terminalsReady: boolean;
   onSetActiveTab: (tabId: string | null) => void;
-  onCreateTerminal: () => Promise<void>;
-  onEnsureTerminal: () => Promise<void>;
+  onCreateTerminal: (profile?: TerminalProfile) => Promise<void>;
+  onEnsureTerminal: (profile?: TerminalProfile) => Promise<void>;
   onCloseTerminal: (tabId: string) => Promise<void>;
+  onSplitTerminal: (tabId: string, direction: TerminalSplitDirection) => Promise<void>;
+  onFocusTerminalPane: (tabId: string, terminalId: string) => void;
+  onCloseTerminalPane: (tabId: string, terminalId: string) => Promise<void>;
   resolvedTheme: ResolvedTheme;
   onElementGrab?: (element: GrabbedElement) => void;
+  /** Open a URL (e.g. a link in terminal output) in the Browser panel */
+  onOpenInBrowser?: (url: string) => void;
+  /** Attach terminal output to the active chat's composer */
+  onSendTerminalToChat?: (context: TerminalContextAttachment) => void;
   onScrollToToolCall?: (messageId: string) => void;
   onPreviewFile?: (path: string, rect: DOMRect) => void;
   collapsedRepos: Set<string>;
@@ -60,4 +69,15 @@ export interface ToolIslandContextProps {
   onRefreshMcpStatus: () => void;
   onReconnectMcpServer: (name: string) => Promise<void> | void;
   onRestartWithMcpServers: (servers: McpServerConfig[]) => Promise<void> | void;
+  /** Codex review of the active session — undefined for non-Codex sessions */
+  onRequestCodexReview?: (target: CodexReviewTarget) => Promise<void>;
+  /** Send a prompt to the active chat (e.g. "Ask agent to resolve" conflicts) */
+  onSendToChat?: (text: string, images?: ImageAttachment[], displayText?: string) => void;
+  /** `Harnss-Session`/`Harnss-Turn` trailers attributing a commit of `paths` to the chats that edited them */
+  getCommitTrailers?: (repoPath: string, paths: string[]) => string[];
+  /** Open a chat (and scroll to one of its turns) from a commit or blame line */
+  onOpenSession?: (sessionId: string, turnId?: string) => void;
+  getSessionTitle?: (sessionId: string) => string | undefined;
+  /** Chats started in each of `worktreePaths`, keyed by path */
+  getWorktreeSessions?: (worktreePaths: string[]) => Map<string, WorktreeSession[]>;
 }
@@ -1,17 +1,11 @@
-// ── Search types ──
+// ── Search types (canonical definitions live in @shared/types/search) ──
 
-export interface SearchMessageResult {
-  sessionId: string;
-  projectId: string;
-  sessionTitle: string;
-  messageId: string;
-  snippet: string;           // ~80 chars around match
-  timestamp: number;
-}
-
-export interface SearchSessionResult {
-  sessionId: string;
-  projectId: string;
-  title: string;
-  createdAt: number;
-}
+export type {
+  SearchEntryRole,
+  SessionSearchFilters,
+  SessionSearchRequest,
+  SearchMessageResult,
+  SearchSessionResult,
+  SessionSearchFacets,
+  SessionSearchResponse,
+} from "@shared/types/search";
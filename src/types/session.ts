@@ -51,6 +51,10 @@ export interface UIMessage {
   checkpointId?: string;
   /** When true, this user message is waiting in the queue -- not yet sent to the agent */
   isQueued?: boolean;
+  /** When true, this user message was delivered into an in-flight Codex turn via turn/steer */
+  isSteered?: boolean;
+  /** Set on the system message shown when a budget limit paused the session -- offers a Resume action */
+  budgetPause?: { interrupted: boolean; resumed?: boolean };
 }
 
 // ── Session metadata ──
@@ -108,6 +112,12 @@ export interface SessionBase {
   pinned?: boolean;
   /** Git branch at session creation time. */
   branch?: string;
+  /** Directory the agent was started in — the selected worktree, if any. */
+  cwd?: string;
+  /** Session this chat was forked from via "Fork from here" (undefined = not a fork). */
+  parentSessionId?: string;
+  /** Imported for reading only -- no composer, never resumed. */
+  readOnly?: boolean;
 }
 
 export interface ChatSession extends SessionBase {
@@ -122,6 +132,14 @@ export interface ChatSession extends SessionBase {
   titleGenerating?: boolean;
 }
 
+/** A chat started inside a worktree, as listed by the worktree manager. */
+export interface WorktreeSession {
+  id: string;
+  title: string;
+  /** The agent is mid-turn or waiting on a permission prompt. */
+  live: boolean;
+}
+
 export interface PersistedSession extends SessionBase {
   messages: UIMessage[];
   contextUsage?: ContextUsage | null;
@@ -1,16 +1,17 @@
 // ── Re-exports from shared (backward compat -- new code should import from @shared/) ──
 
-export type { PreferredEditor, VoiceDictationMode, ThemeOption, MacBackgroundEffect, CodexBinarySource, ClaudeBinarySource, NotificationTrigger, NotificationEventSettings, NotificationSettings, AppSettings } from "@shared/types/settings";
+export type { PreferredEditor, VoiceDictationMode, ThemeOption, MacBackgroundEffect, CodexBinarySource, ClaudeBinarySource, NotificationTrigger, NotificationEventSettings, NotificationSettings, AppSettings, TerminalProfile } from "@shared/types/settings";
 export type { InstalledAgent } from "@shared/types/registry";
+export type { ProjectTaskSource, ProjectTask } from "@shared/types/tasks";
 export type { BinaryCheckResult } from "@shared/types/registry";
-export type { GitFileStatus, GitFileGroup, GitFileChange, GitBranch, GitRepoInfo, GitStatus, GitLogEntry } from "@shared/types/git";
+export type { GitFileStatus, GitFileGroup, GitFileChange, GitBranch, GitRepoInfo, GitStatus, GitLogEntry, GitOperation, GitConflictFile, GitConflictSide, GitStashEntry, GitHistoryEntry, GitHistoryFilter, GitCommitFile, GitCommitDetails, GitSessionLink, GitBlameLine, GitResetMode, GitRewriteAction, GitRewriteStep, GitWorktree, GitWorktreeDetails, GitWorktreeSetupStep, GitCompareSide, GitCompareEnd, GitCompareResult, GitPushOptions, GitRemoteProgress, GitAskpassRequest, GitTag, GitReleaseNotes } from "@shared/types/git";
 
 // ── Re-exports from domain files (backward compat -- new code should import from @/types) ──
 
-export type { ClaudeEffort, TodoItem, SubagentToolStep, UIMessage, SessionInfo, Project, ChatFolder, SessionBase, ChatSession, PersistedSession, CCSessionInfo } from "./session";
+export type { ClaudeEffort, TodoItem, SubagentToolStep, UIMessage, SessionInfo, Project, ChatFolder, SessionBase, ChatSession, WorktreeSession, PersistedSession, CCSessionInfo } from "./session";
 export type { SpaceColor, Space } from "./spaces";
 export type { SearchMessageResult, SearchSessionResult } from "./search";
-export type { ImageAttachment, GrabbedElement } from "./attachments";
+export type { ImageAttachment, GrabbedElement, TerminalContextAttachment } from "./attachments";
 export type { PermissionUpdateDestination, PermissionRuleValue, PermissionUpdate, PermissionRequest, AcpPermissionBehavior } from "./permissions";
 export type { BackgroundAgentUsage, BackgroundAgent, BackgroundAgentActivity } from "./agents";
 export type { ContextUsage, ModelInfo, McpTransport, McpServerConfig, McpServerStatusState, McpServerStatus } from "./mcp";
@@ -1,16 +1,18 @@
 import type { ClaudeEvent } from "./protocol";
 import type { CCSessionInfo, ChatFolder, PersistedSession, Project, UIMessage, ClaudeEffort } from "./session";
 import type { Space } from "./spaces";
-import type { SearchMessageResult, SearchSessionResult } from "./search";
+import type { SessionSearchRequest, SessionSearchResponse } from "./search";
 import type { ModelInfo, McpServerConfig, McpServerStatus } from "./mcp";
 import type { PermissionUpdate } from "./permissions";
-import type { GitRepoInfo, GitStatus, GitBranch, GitLogEntry } from "@shared/types/git";
+import type { GitRepoInfo, GitStatus, GitBranch, GitLogEntry, GitOperation, GitConflictFile, GitConflictSide, GitStashEntry, GitHistoryEntry, GitHistoryFilter, GitCommitDetails, GitBlameLine, GitResetMode, GitRewriteStep, GitWorktree, GitWorktreeDetails, GitWorktreeSetupStep, GitCompareSide, GitCompareResult, GitPushOptions, GitRemoteProgress, GitAskpassRequest, GitTag, GitReleaseNotes } from "@shared/types/git";
 import type { InstalledAgent } from "@shared/types/registry";
+import type { ProjectTask } from "@shared/types/tasks";
 import type { AppSettings, MacBackgroundEffect, ThemeOption } from "@shared/types/settings";
 import type {
   ACPSessionEvent,
   ACPPermissionEvent,
   ACPTurnCompleteEvent,
+  ACPTerminalOutputEvent,
   ACPConfigOption,
   ACPAuthenticateResult,
   ACPAvailableCommand,
@@ -19,7 +21,7 @@ import type {
   ACPStatusInfo,
 } from "./acp";
 import type { EngineId, AppPermissionBehavior } from "./engine";
-import type { CodexSessionEvent, CodexServerRequest, CodexExitEvent } from "./codex";
+import type { CodexSessionEvent, CodexServerRequest, CodexExitEvent, CodexReviewTarget, CodexRateLimitSnapshot, CodexRateLimitsResponse, CodexThread } from "./codex";
 import type { Model as CodexModel } from "./codex-protocol/v2/Model";
 import type { CollaborationMode } from "./codex-protocol/CollaborationMode";
 import type { SkillsListEntry } from "./codex-protocol/v2/SkillsListEntry";
@@ -82,6 +84,8 @@ declare global {
         /** Resume at a specific message UUID — used with forkSession to truncate history */
         resumeSessionAt?: string;
         mcpServers?: McpServerConfig[];
+        /** Spend cap for the session process (see getClaudeMaxBudgetUsd) */
+        maxBudgetUsd?: number;
       }) => Promise<{ sessionId: string; pid: number; error?: string }>;
       send: (
         sessionId: string,
@@ -101,7 +105,7 @@ declare global {
       mcpStatus: (sessionId: string) => Promise<{ servers: McpServerStatus[]; error?: string }>;
       mcpReconnect: (sessionId: string, serverName: string) => Promise<IpcResult & { restarted?: boolean }>;
       revertFiles: (sessionId: string, checkpointId: string) => Promise<IpcResult>;
-      restartSession: (sessionId: string, mcpServers?: McpServerConfig[], cwd?: string, effort?: ClaudeEffort, model?: string) => Promise<IpcResult & { restarted?: boolean }>;
+      restartSession: (sessionId: string, mcpServers?: McpServerConfig[], cwd?: string, effort?: ClaudeEffort, model?: string, maxBudgetUsd?: number | null) => Promise<IpcResult & { restarted?: boolean }>;
       readFile: (filePath: string) => Promise<{ content?: string; error?: string }>;
       renameFile: (oldPath: string, newPath: string) => Promise<IpcResult>;
       trashItem: (filePath: string) => Promise<IpcResult>;
@@ -174,10 +178,21 @@ declare global {
         load: (projectId: string, sessionId: string) => Promise<PersistedSession | null>;
         list: (projectId: string) => Promise<SessionListItem[]>;
         delete: (projectId: string, sessionId: string) => Promise<IpcResult>;
-        search: (projectIds: string[], query: string) => Promise<{
-          messageResults: SearchMessageResult[];
-          sessionResults: SearchSessionResult[];
+        /** Ranked full-text search over the persistent session index. */
+        search: (request: SessionSearchRequest) => Promise<SessionSearchResponse>;
+        /**
+         * Pick a Harnss session `.json` or Claude Code `.jsonl` file and convert it
+         * into a session for this project (not yet saved). Falls back to read-only
+         * with a `notice` when the agent history needed to resume is missing.
+         */
+        import: (projectId: string, projectPath: string, mode: "resumable" | "readOnly") => Promise<{
+          session?: PersistedSession;
+          notice?: string;
+          canceled?: boolean;
+          error?: string;
         }>;
+        /** Save an exported transcript through a native save dialog. */
+        export: (defaultName: string, content: string) => Promise<IpcResult & { canceled?: boolean; filePath?: string }>;
         updateMeta: (projectId: string, sessionId: string, patch: {
           pinned?: boolean;
           folderId?: string | null;
@@ -238,27 +253,76 @@ declare global {
         stageAll: (cwd: string) => Promise<IpcResult>;
         unstageAll: (cwd: string) => Promise<IpcResult>;
         discard: (cwd: string, files: string[]) => Promise<IpcResult>;
-        commit: (cwd: string, message: string) => Promise<IpcResult & { output?: string }>;
+        applyPatch: (cwd: string, patch: string, options?: { cached?: boolean; reverse?: boolean }) => Promise<IpcResult>;
+        commit: (cwd: string, message: string, options?: { trailers?: string[]; amend?: boolean; allowPushed?: boolean }) => Promise<IpcResult & { output?: string }>;
         branches: (cwd: string) => Promise<GitBranch[] | { error: string }>;
-        checkout: (cwd: string, branch: string) => Promise<IpcResult>;
-        createBranch: (cwd: string, name: string) => Promise<IpcResult>;
+        checkout: (cwd: string, branch: string, options?: { autoStash?: boolean }) => Promise<IpcResult & { stash?: "restored" | "conflicts" | "kept"; stashError?: string }>;
+        createBranch: (cwd: string, name: string, fromRef?: string) => Promise<IpcResult>;
         createWorktree: (cwd: string, path: string, branch: string, fromRef?: string) => Promise<IpcResult & { path?: string; output?: string; setupResults?: Array<{ command: string; ok: boolean; output?: string; error?: string }> }>;
         removeWorktree: (cwd: string, path: string, force?: boolean) => Promise<IpcResult & { output?: string }>;
         pruneWorktrees: (cwd: string) => Promise<IpcResult & { output?: string }>;
-        push: (cwd: string) => Promise<IpcResult & { output?: string }>;
-        pull: (cwd: string) => Promise<IpcResult & { output?: string }>;
-        fetch: (cwd: string) => Promise<IpcResult & { output?: string }>;
+        listWorktrees: (cwd: string) => Promise<GitWorktree[] | { error: string }>;
+        worktreeDetails: (cwd: string, path: string) => Promise<GitWorktreeDetails | { error: string }>;
+        /** Re-run `.harnss/worktree.json` setup commands in a linked worktree. */
+        runWorktreeSetup: (cwd: string, path: string) => Promise<IpcResult & { setupResults?: GitWorktreeSetupStep[] }>;
+        push: (cwd: string, options?: GitPushOptions) => Promise<IpcResult & { output?: string }>;
+        pull: (cwd: string, operationId?: string) => Promise<IpcResult & { output?: string }>;
+        fetch: (cwd: string, operationId?: string) => Promise<IpcResult & { output?: string }>;
+        cancelRemote: (operationId: string) => Promise<IpcResult>;
+        onRemoteProgress: (callback: (data: GitRemoteProgress) => void) => () => void;
+        onAskpassRequest: (callback: (data: GitAskpassRequest) => void) => () => void;
+        /** A prompt was closed without an answer (operation cancelled or finished, or it timed out). */
+        onAskpassCancel: (callback: (data: { requestId: string }) => void) => () => void;
+        respondAskpass: (requestId: string, value: string | null) => Promise<IpcResult>;
         diffFile: (cwd: string, file: string, staged: boolean) => Promise<{ diff?: string; error?: string }>;
         diffStat: (cwd: string) => Promise<{ additions: number; deletions: number }>;
         log: (cwd: string, count?: number) => Promise<GitLogEntry[] | { error: string }>;
+        conflictFile: (cwd: string, file: string) => Promise<GitConflictFile | { error: string }>;
+        resolveConflict: (cwd: string, file: string, resolution: { content?: string; side?: GitConflictSide }) => Promise<IpcResult>;
+        continueOperation: (cwd: string, operation: GitOperation) => Promise<IpcResult & { output?: string }>;
+        abortOperation: (cwd: string, operation: GitOperation) => Promise<IpcResult>;
+        stashList: (cwd: string) => Promise<GitStashEntry[] | { error: string }>;
+        stashPush: (cwd: string, options?: { message?: string; includeUntracked?: boolean; paths?: string[] }) => Promise<IpcResult & { output?: string }>;
+        stashApply: (cwd: string, ref: string) => Promise<IpcResult>;
+        stashPop: (cwd: string, ref: string) => Promise<IpcResult>;
+        stashDrop: (cwd: string, ref: string) => Promise<IpcResult>;
+        stashShow: (cwd: string, ref: string) => Promise<{ diff?: string; error?: string }>;
+        history: (cwd: string, options: { skip?: number; count?: number } & GitHistoryFilter) => Promise<GitHistoryEntry[] | { error: string }>;
+        commitDetails: (cwd: string, hash: string) => Promise<GitCommitDetails | { error: string }>;
+        commitFileDiff: (cwd: string, hash: string, file: string, oldPath?: string) => Promise<{ diff?: string; error?: string }>;
+        blame: (cwd: string, file: string, rev?: string) => Promise<GitBlameLine[] | { error: string }>;
+        topLevel: (cwd: string) => Promise<{ path?: string; error?: string }>;
+        unpushed: (cwd: string) => Promise<GitLogEntry[] | { error: string }>;
+        reset: (cwd: string, ref: string, mode: GitResetMode, allowPushed?: boolean) => Promise<IpcResult>;
+        rewriteCommits: (cwd: string, steps: GitRewriteStep[]) => Promise<IpcResult & { output?: string }>;
+        revert: (cwd: string, hash: string) => Promise<IpcResult & { output?: string }>;
+        /** Several hashes are applied in the order given. */
+        cherryPick: (cwd: string, hash: string | string[]) => Promise<IpcResult & { output?: string }>;
+        compare: (cwd: string, base: GitCompareSide, head: GitCompareSide) => Promise<GitCompareResult | { error: string }>;
+        /** Diff of one file between two commits' merge base and `head`. */
+        compareFileDiff: (cwd: string, base: string, head: string, file: string, oldPath?: string) => Promise<{ diff?: string; error?: string }>;
+        merge: (cwd: string, ref: string) => Promise<IpcResult & { output?: string }>;
+        listTags: (cwd: string) => Promise<GitTag[] | { error: string }>;
+        /** Annotated when `message` is given, lightweight otherwise. */
+        createTag: (cwd: string, name: string, options?: { target?: string; message?: string }) => Promise<IpcResult>;
+        deleteTag: (cwd: string, name: string, options?: { remote?: boolean; operationId?: string }) => Promise<IpcResult>;
         generateCommitMessage: (
           cwd: string,
           engine?: EngineId,
           sessionId?: string,
+          /** Describe HEAD plus staged changes, for an amend. */
+          amend?: boolean,
         ) => Promise<{ message?: string; error?: string }>;
+        /** Notes for the commits between the tag before `target` (default HEAD) and `target`. */
+        generateReleaseNotes: (
+          cwd: string,
+          target?: string,
+          engine?: EngineId,
+          sessionId?: string,
+        ) => Promise<Partial<GitReleaseNotes> & { error?: string }>;
       };
       terminal: {
-        create: (options: { cwd?: string; cols?: number; rows?: number; spaceId?: string }) => Promise<{ terminalId?: string; error?: string }>;
+        create: (options: { cwd?: string; cols?: number; rows?: number; spaceId?: string; env?: Record<string, string>; command?: string; oneShot?: boolean; profileId?: string; profileShellOnly?: boolean }) => Promise<{ terminalId?: string; error?: string }>;
         list: () => Promise<{
           terminals?: Array<{
             terminalId: string;
@@ -276,8 +340,12 @@ declare global {
           rows?: number;
           exited?: boolean;
           exitCode?: number | null;
+          /** Spawn cwd, kept current by the shell's OSC 7 reports */
+          cwd?: string;
           error?: string;
         }>;
+        /** Absolute path for each entry of `paths` that names an existing file (relative to the terminal's cwd), else null */
+        resolvePaths: (terminalId: string, paths: string[]) => Promise<{ paths: Array<string | null> }>;
         write: (terminalId: string, data: string) => Promise<IpcResult>;
         resize: (terminalId: string, cols: number, rows: number) => Promise<IpcResult>;
         destroy: (terminalId: string) => Promise<{ ok?: boolean }>;
@@ -285,6 +353,9 @@ declare global {
         onData: (callback: (data: { terminalId: string; data: string; seq: number }) => void) => () => void;
         onExit: (callback: (data: { terminalId: string; exitCode: number }) => void) => () => void;
       };
+      tasks: {
+        discover: (cwd: string) => Promise<{ tasks?: ProjectTask[]; error?: string }>;
+      };
       acp: {
         log: (label: string, data: unknown) => void;
         start: (options: { agentId: string; cwd: string; mcpServers?: McpServerConfig[] }) => Promise<ACPStartResult>;
@@ -302,6 +373,7 @@ declare global {
         onEvent: (callback: (data: ACPSessionEvent) => void) => () => void;
         onPermissionRequest: (callback: (data: ACPPermissionEvent) => void) => () => void;
         onTurnComplete: (callback: (data: ACPTurnCompleteEvent) => void) => () => void;
+        onTerminalOutput: (callback: (data: ACPTerminalOutputEvent) => void) => () => void;
         onExit: (callback: (data: { _sessionId: string; code: number | null; error?: string }) => void) => () => void;
       };
       codex: {
@@ -320,6 +392,8 @@ declare global {
           Promise<{ turnId?: string; error?: string }>;
         stop: (sessionId: string) => Promise<void>;
         interrupt: (sessionId: string) => Promise<{ error?: string }>;
+        /** Append input to the in-flight turn (turn/steer) — errors when no turn is active */
+        steer: (sessionId: string, text: string, images?: CodexImageInput[]) => Promise<{ turnId?: string; error?: string }>;
         respondApproval: (sessionId: string, rpcId: string | number, decision: string, acceptSettings?: unknown) =>
           Promise<IpcResult>;
         respondUserInput: (
@@ -334,6 +408,7 @@ declare global {
           message: string,
         ) => Promise<IpcResult>;
         compact: (sessionId: string) => Promise<{ error?: string }>;
+        review: (sessionId: string, target: CodexReviewTarget) => Promise<{ turnId?: string; error?: string }>;
         listSkills: (sessionId: string) => Promise<{
           skills: SkillsListEntry[];
           error?: string;
@@ -344,9 +419,22 @@ declare global {
         }>;
         listModels: () => Promise<{ models: CodexModel[]; error?: string }>;
         authStatus: () => Promise<{ account: unknown; requiresOpenaiAuth: boolean }>;
+        /** account/rateLimits/read — `spawn` allows a short-lived app-server when no session is live */
+        rateLimits: (options?: { spawn?: boolean }) => Promise<{
+          rateLimits: CodexRateLimitSnapshot | null;
+          rateLimitsByLimitId: CodexRateLimitsResponse["rateLimitsByLimitId"];
+          error?: string;
+        }>;
         login: (sessionId: string, type: "apiKey" | "chatgpt", apiKey?: string) => Promise<unknown>;
         resume: (options: { cwd: string; threadId: string; model?: string; approvalPolicy?: string; sandbox?: "read-only" | "workspace-write" | "danger-full-access" }) =>
           Promise<{ sessionId?: string; threadId?: string; error?: string }>;
+        fork: (options: { cwd: string; threadId: string; dropTurns?: number; model?: string }) =>
+          Promise<{ threadId?: string; error?: string }>;
+        /** Native Codex threads recorded for `cwd` (thread/list), most recently updated first */
+        listThreads: (options: { cwd: string; archived?: boolean; cursor?: string | null; limit?: number }) =>
+          Promise<{ threads: CodexThread[]; nextCursor: string | null; error?: string }>;
+        readThread: (cwd: string, threadId: string) => Promise<{ thread?: CodexThread; error?: string }>;
+        setThreadArchived: (cwd: string, threadId: string, archived: boolean) => Promise<IpcResult>;
         setModel: (sessionId: string, model: string) => Promise<{ error?: string }>;
         version: () => Promise<{ version?: string; error?: string }>;
         binaryStatus: () => Promise<{ installed: boolean; downloading: boolean }>;